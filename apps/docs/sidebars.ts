@@ -52,6 +52,8 @@ const sidebars: SidebarsConfig = {
         'transports/gcp-pubsub',
         'transports/redis',
         'transports/nats',
+        'transports/postgres',
+        'transports/sqlite',
       ],
     },
     {
@@ -15,6 +15,8 @@ module.exports = {
         'transport-nats',
         'transport-azure-servicebus',
         'transport-gcp-pubsub',
+        'transport-postgres',
+        'transport-sqlite',
         'store-inmemory',
         'store-postgres',
         'store-mysql',
@@ -30,6 +32,10 @@ module.exports = {
         'middleware-validation',
         'middleware-idempotency',
         'middleware-tenant',
+        'dlq',
+        'serializer-msgpack',
+        'claim-check',
+        'encryption',
         'nestjs',
         'nextjs',
         'express',
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type {
+  BaseMessage,
+  MessageEnvelope,
+  Transport,
+  TransportPublishOptions,
+} from "@saga-bus/core";
+import {
+  ClaimCheckTransport,
+  CLAIM_CHECK_HEADERS,
+} from "../src/ClaimCheckTransport.js";
+import { InMemoryBlobStore } from "../src/stores/InMemoryBlobStore.js";
+
+interface OrderSubmitted extends BaseMessage {
+  type: "OrderSubmitted";
+  orderId: string;
+  document?: string;
+  submittedAt?: Date;
+}
+
+type Handler = (envelope: MessageEnvelope) => Promise<void>;
+
+/**
+ * Transport that records published messages and delivers them on demand.
+ */
+const createMockTransport = () => {
+  const published: Array<{
+    message: BaseMessage;
+    options: TransportPublishOptions;
+  }> = [];
+  const handlers: Handler[] = [];
+
+  const transport = {
+    start: vi.fn().mockResolvedValue(undefined),
+    stop: vi.fn().mockResolvedValue(undefined),
+    subscribe: vi.fn(async (_options: unknown, h: Handler) => {
+      handlers.push(h);
+    }),
+    publish: vi.fn(
+      async (message: BaseMessage, options: TransportPublishOptions) => {
+        published.push({ message, options });
+      }
+    ),
+  } satisfies Transport;
+
+  /** Deliver to the last subscription unless another one is given */
+  const deliver = async (
+    index = 0,
+    subscription = handlers.length - 1
+  ): Promise<void> => {
+    const entry = published[index];
+    const handler = handlers[subscription];
+    if (!entry || !handler) {
+      throw new Error("Nothing to deliver");
+    }
+    await handler({
+      id: `msg-${index}`,
+      type: entry.message.type,
+      payload: entry.message,
+      headers: { ...entry.options.headers },
+      timestamp: new Date(),
+    });
+  };
+
+  return { transport, published, deliver };
+};
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+const largeOrder = (): OrderSubmitted => ({
+  type: "OrderSubmitted",
+  orderId: "order-1",
+  document: "x".repeat(2048),
+  submittedAt: new Date("2024-01-01T00:00:00Z"),
+});
+
+describe("ClaimCheckTransport", () => {
+  let mock: ReturnType<typeof createMockTransport>;
+  let blobStore: InMemoryBlobStore;
+  let transport: ClaimCheckTransport;
+  let received: MessageEnvelope[];
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mock = createMockTransport();
+    blobStore = new InMemoryBlobStore();
+    transport = new ClaimCheckTransport({
+      transport: mock.transport,
+      blobStore,
+      thresholdBytes: 1024,
+      logger: silentLogger,
+    });
+    received = [];
+    await transport.subscribe({ endpoint: "orders" }, async (envelope) => {
+      received.push(envelope);
+    });
+  });
+
+  it("should publish small messages unchanged", async () => {
+    const message: OrderSubmitted = { type: "OrderSubmitted", orderId: "1" };
+
+    await transport.publish(message, { endpoint: "orders" });
+
+    expect(mock.published[0]).toEqual({
+      message,
+      options: { endpoint: "orders" },
+    });
+    expect(blobStore.size).toBe(0);
+  });
+
+  it("should move large payloads to the blob store", async () => {
+    await transport.publish(largeOrder(), {
+      endpoint: "orders",
+      key: "order-1",
+      headers: { "x-correlation-id": "corr-1" },
+    });
+
+    const { message, options } = mock.published[0]!;
+    expect(message).toEqual({ type: "OrderSubmitted" });
+    expect(options.key).toBe("order-1");
+    expect(options.headers).toMatchObject({
+      "x-correlation-id": "corr-1",
+      [CLAIM_CHECK_HEADERS.KEY]: expect.any(String),
+    });
+    expect(blobStore.size).toBe(1);
+  });
+
+  it("should rehydrate the payload and delete the blob", async () => {
+    await transport.publish(largeOrder(), { endpoint: "orders" });
+
+    await mock.deliver();
+
+    expect(received[0]?.payload).toEqual(largeOrder());
+    expect(
+      (received[0]?.payload as OrderSubmitted).submittedAt
+    ).toBeInstanceOf(Date);
+    expect(blobStore.size).toBe(0);
+  });
+
+  it("should delete the blob once every consumer group handled it", async () => {
+    const grouped = new ClaimCheckTransport({
+      transport: mock.transport,
+      blobStore,
+      thresholdBytes: 1024,
+      logger: silentLogger,
+    });
+    const groups: string[] = [];
+    for (const group of ["billing", "shipping"]) {
+      await grouped.subscribe({ endpoint: "invoices", group }, async () => {
+        groups.push(group);
+      });
+    }
+    await grouped.publish(largeOrder(), { endpoint: "invoices" });
+
+    // Each group receives its own copy of the stub
+    await mock.deliver(0, 1);
+    await mock.deliver(0, 1);
+    expect(blobStore.size).toBe(2);
+
+    await mock.deliver(0, 2);
+    expect(groups).toEqual(["billing", "billing", "shipping"]);
+    expect(blobStore.size).toBe(0);
+  });
+
+  it("should keep the blob when the handler fails", async () => {
+    const failing = new ClaimCheckTransport({
+      transport: mock.transport,
+      blobStore,
+      thresholdBytes: 1024,
+      logger: silentLogger,
+    });
+    await failing.subscribe({ endpoint: "orders" }, async () => {
+      throw new Error("boom");
+    });
+    await failing.publish(largeOrder(), { endpoint: "orders" });
+
+    await expect(mock.deliver()).rejects.toThrow("boom");
+
+    expect(blobStore.size).toBe(1);
+  });
+
+  it("should keep blobs when deleteAfterProcessing is disabled", async () => {
+    const keeping = new ClaimCheckTransport({
+      transport: mock.transport,
+      blobStore,
+      thresholdBytes: 1024,
+      deleteAfterProcessing: false,
+      logger: silentLogger,
+    });
+    await keeping.subscribe({ endpoint: "orders" }, async () => undefined);
+    await keeping.publish(largeOrder(), { endpoint: "orders" });
+
+    await mock.deliver();
+
+    expect(blobStore.size).toBe(1);
+  });
+
+  it("should fail when the blob is missing", async () => {
+    await transport.publish(largeOrder(), { endpoint: "orders" });
+    blobStore.clear();
+
+    await expect(mock.deliver()).rejects.toThrow(/Claim-check blob ".+" not found/);
+    expect(received).toHaveLength(0);
+  });
+
+  it("should delete the blob when publishing fails", async () => {
+    mock.transport.publish.mockRejectedValueOnce(new Error("broker down"));
+
+    await expect(
+      transport.publish(largeOrder(), { endpoint: "orders" })
+    ).rejects.toThrow("broker down");
+
+    expect(blobStore.size).toBe(0);
+  });
+
+  it("should forward batches and delete their blobs when the batch fails", async () => {
+    const publishBatch = vi.fn().mockRejectedValueOnce(new Error("broker down"));
+    const batching = new ClaimCheckTransport({
+      transport: { ...mock.transport, publishBatch },
+      blobStore,
+      thresholdBytes: 1024,
+      logger: silentLogger,
+    });
+    const small: OrderSubmitted = { type: "OrderSubmitted", orderId: "1" };
+
+    await expect(
+      batching.publishBatch([
+        { message: small, options: { endpoint: "orders" } },
+        { message: largeOrder(), options: { endpoint: "orders" } },
+      ])
+    ).rejects.toThrow("broker down");
+
+    const [entries] = publishBatch.mock.calls[0]!;
+    expect(entries[0]).toEqual({ message: small, options: { endpoint: "orders" } });
+    expect(entries[1].message).toEqual({ type: "OrderSubmitted" });
+    expect(blobStore.size).toBe(0);
+    expect(mock.transport.publish).not.toHaveBeenCalled();
+  });
+
+  it("should claim-check a republished payload under a new key", async () => {
+    await transport.publish(largeOrder(), { endpoint: "orders" });
+    const firstKey = mock.published[0]!.options.headers![CLAIM_CHECK_HEADERS.KEY];
+
+    await transport.publish(largeOrder(), {
+      endpoint: "orders",
+      headers: { ...mock.published[0]!.options.headers },
+    });
+
+    const secondKey = mock.published[1]!.options.headers![CLAIM_CHECK_HEADERS.KEY];
+    expect(secondKey).toBeDefined();
+    expect(secondKey).not.toBe(firstKey);
+    expect(blobStore.size).toBe(2);
+  });
+
+  it("should delegate lifecycle calls to the wrapped transport", async () => {
+    await transport.start();
+    await transport.stop();
+
+    expect(mock.transport.start).toHaveBeenCalled();
+    expect(mock.transport.stop).toHaveBeenCalled();
+  });
+});
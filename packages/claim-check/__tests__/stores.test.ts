@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { S3Client } from "@aws-sdk/client-s3";
+import { InMemoryBlobStore } from "../src/stores/InMemoryBlobStore.js";
+import { FileSystemBlobStore } from "../src/stores/FileSystemBlobStore.js";
+import { S3BlobStore } from "../src/stores/S3BlobStore.js";
+
+describe("InMemoryBlobStore", () => {
+  it("should store, read and delete blobs", async () => {
+    const store = new InMemoryBlobStore();
+
+    await store.put("blob-1", Buffer.from("payload"));
+
+    expect((await store.get("blob-1"))?.toString()).toBe("payload");
+    await store.delete("blob-1");
+    expect(await store.get("blob-1")).toBeNull();
+  });
+});
+
+describe("FileSystemBlobStore", () => {
+  let directory: string;
+  let store: FileSystemBlobStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "claim-check-"));
+    store = new FileSystemBlobStore({ directory: path.join(directory, "blobs") });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should store, read and delete blobs", async () => {
+    await store.put("blob-1", Buffer.from("payload"));
+
+    expect((await store.get("blob-1"))?.toString()).toBe("payload");
+    expect(await readdir(path.join(directory, "blobs"))).toEqual(["blob-1"]);
+
+    await store.delete("blob-1");
+    await store.delete("blob-1");
+    expect(await store.get("blob-1")).toBeNull();
+  });
+
+  it.each(["../outside", "..", ".", "a/b", "a\\b", "/etc/passwd", ""])(
+    "should reject the key %j",
+    async (key) => {
+      await expect(store.get(key)).rejects.toThrow("Invalid claim-check key");
+      await expect(store.put(key, Buffer.from("x"))).rejects.toThrow(
+        "Invalid claim-check key"
+      );
+    }
+  );
+});
+
+describe("S3BlobStore", () => {
+  const createClient = (send: ReturnType<typeof vi.fn>) =>
+    ({ send }) as unknown as S3Client;
+
+  it("should put and delete objects under the prefix", async () => {
+    const send = vi.fn().mockResolvedValue({});
+    const store = new S3BlobStore({
+      client: createClient(send),
+      bucket: "payloads",
+      prefix: "claim-check/",
+    });
+
+    await store.put("blob-1", Buffer.from("payload"));
+    await store.delete("blob-1");
+
+    expect(send.mock.calls[0]?.[0].input).toEqual({
+      Bucket: "payloads",
+      Key: "claim-check/blob-1",
+      Body: Buffer.from("payload"),
+    });
+    expect(send.mock.calls[1]?.[0].input).toEqual({
+      Bucket: "payloads",
+      Key: "claim-check/blob-1",
+    });
+  });
+
+  it("should read object bodies", async () => {
+    const send = vi.fn().mockResolvedValue({
+      Body: {
+        transformToByteArray: async () => new Uint8Array(Buffer.from("payload")),
+      },
+    });
+    const store = new S3BlobStore({ client: createClient(send), bucket: "payloads" });
+
+    expect((await store.get("blob-1"))?.toString()).toBe("payload");
+  });
+
+  it("should return null for missing objects", async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValue(Object.assign(new Error("missing"), { name: "NoSuchKey" }));
+    const store = new S3BlobStore({ client: createClient(send), bucket: "payloads" });
+
+    expect(await store.get("blob-1")).toBeNull();
+  });
+});
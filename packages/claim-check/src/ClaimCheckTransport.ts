@@ -0,0 +1,292 @@
+import { randomUUID } from "node:crypto";
+import {
+  DefaultLogger,
+  MessageCodec,
+  publishBatch,
+  type BaseMessage,
+  type Logger,
+  type MessageEnvelope,
+  type Transport,
+  type TransportBatchMessage,
+  type TransportPublishOptions,
+  type TransportSubscribeOptions,
+} from "@saga-bus/core";
+import type { BlobStore, ClaimCheckTransportOptions } from "./types.js";
+
+/**
+ * Default payload size above which messages are claim-checked. Leaves room
+ * for headers and the envelope under the smallest common broker limit
+ * (256 KB on SQS and Azure Service Bus standard).
+ */
+export const DEFAULT_CLAIM_CHECK_THRESHOLD_BYTES = 192 * 1024;
+
+/**
+ * Headers set on claim-checked messages.
+ */
+export const CLAIM_CHECK_HEADERS = {
+  /** Blob store key of the payload */
+  KEY: "x-saga-claim-check",
+  /** Content type the payload was serialized with */
+  CONTENT_TYPE: "x-saga-claim-check-content-type",
+} as const;
+
+/**
+ * Label of subscriptions that don't name a consumer group.
+ */
+const DEFAULT_GROUP = "default";
+
+/**
+ * Transport wrapper that moves large payloads to a blob store.
+ *
+ * Messages whose serialized payload exceeds `thresholdBytes` are stored in
+ * the blob store and published as a stub carrying only the message type and
+ * a reference header. Consumers using a ClaimCheckTransport load the payload
+ * back before the handler runs. Blobs are deleted once every consumer
+ * group subscribed to the endpoint through this transport has handled the
+ * message: each group records a marker blob, and the last one deletes the
+ * payload with the markers.
+ * Retries and dead letters republished by the bus are claim-checked
+ * again under a new key.
+ *
+ * @example
+ * ```typescript
+ * const transport = new ClaimCheckTransport({
+ *   transport: new SqsTransport({ ... }),
+ *   blobStore: new S3BlobStore({ client: s3, bucket: "saga-payloads" }),
+ * });
+ *
+ * const bus = createBus({ transport, store, sagas });
+ * ```
+ */
+export class ClaimCheckTransport implements Transport {
+  private readonly transport: Transport;
+  private readonly blobStore: BlobStore;
+  private readonly thresholdBytes: number;
+  private readonly deleteAfterProcessing: boolean;
+  private readonly codec: MessageCodec;
+  private readonly logger: Logger;
+  /** Consumer groups subscribed through this transport, by endpoint */
+  private readonly groups = new Map<string, Set<string>>();
+
+  constructor(options: ClaimCheckTransportOptions) {
+    this.transport = options.transport;
+    this.blobStore = options.blobStore;
+    this.thresholdBytes =
+      options.thresholdBytes ?? DEFAULT_CLAIM_CHECK_THRESHOLD_BYTES;
+    this.deleteAfterProcessing = options.deleteAfterProcessing ?? true;
+    this.codec = new MessageCodec(options);
+    this.logger = options.logger ?? new DefaultLogger();
+  }
+
+  async start(): Promise<void> {
+    await this.transport.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.transport.stop();
+  }
+
+  async stopReceiving(): Promise<void> {
+    await this.transport.stopReceiving?.();
+  }
+
+  async subscribe<TMessage extends BaseMessage>(
+    options: TransportSubscribeOptions,
+    handler: (envelope: MessageEnvelope<TMessage>) => Promise<void>
+  ): Promise<void> {
+    const group = options.group ?? DEFAULT_GROUP;
+    let groups = this.groups.get(options.endpoint);
+    if (!groups) {
+      groups = new Set();
+      this.groups.set(options.endpoint, groups);
+    }
+    groups.add(group);
+
+    await this.transport.subscribe<TMessage>(options, async (envelope) => {
+      const key = envelope.headers[CLAIM_CHECK_HEADERS.KEY];
+      if (key === undefined) {
+        await handler(envelope);
+        return;
+      }
+
+      const payload = await this.load<TMessage>(key, envelope);
+      await handler({ ...envelope, payload });
+
+      if (this.deleteAfterProcessing) {
+        await this.release(key, options.endpoint, group);
+      }
+    });
+  }
+
+  async publish<TMessage extends BaseMessage>(
+    message: TMessage,
+    options: TransportPublishOptions
+  ): Promise<void> {
+    const { entry, key } = await this.checkIn(message, options);
+
+    try {
+      await this.transport.publish(entry.message, entry.options);
+    } catch (error) {
+      if (key) {
+        await this.deleteBlob(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim-check oversized payloads, then publish all messages as one batch
+   * of the wrapped transport. Stored blobs are deleted if the batch fails.
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    const keys: string[] = [];
+
+    try {
+      const entries: TransportBatchMessage[] = [];
+      for (const { message, options } of messages) {
+        const { entry, key } = await this.checkIn(message, options);
+        entries.push(entry);
+        if (key) {
+          keys.push(key);
+        }
+      }
+
+      await publishBatch(this.transport, entries);
+    } catch (error) {
+      await Promise.all(keys.map((key) => this.deleteBlob(key)));
+      throw error;
+    }
+  }
+
+  /**
+   * Move a payload above the threshold to the blob store, replacing the
+   * message with a reference to it.
+   * @returns The message to publish, and the blob key if one was stored
+   */
+  private async checkIn(
+    message: BaseMessage,
+    options: TransportPublishOptions
+  ): Promise<{ entry: TransportBatchMessage; key: string | null }> {
+    const data = this.codec.encode({
+      id: randomUUID(),
+      type: message.type,
+      payload: message,
+      headers: {},
+      timestamp: new Date(),
+    });
+
+    if (data.length <= this.thresholdBytes) {
+      // Replayed stubs keep their reference header and pass through as-is
+      return { entry: { message, options }, key: null };
+    }
+
+    const key = randomUUID();
+    await this.blobStore.put(key, data);
+
+    this.logger.debug("Message payload claim-checked", {
+      messageType: message.type,
+      endpoint: options.endpoint,
+      key,
+      sizeBytes: data.length,
+    });
+
+    return {
+      entry: {
+        message: { type: message.type },
+        options: {
+          ...options,
+          headers: {
+            ...options.headers,
+            [CLAIM_CHECK_HEADERS.KEY]: key,
+            [CLAIM_CHECK_HEADERS.CONTENT_TYPE]: this.codec.contentType,
+          },
+        },
+      },
+      key,
+    };
+  }
+
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    await this.transport.cancelScheduled?.(scheduleId);
+  }
+
+  private async load<TMessage extends BaseMessage>(
+    key: string,
+    envelope: MessageEnvelope<TMessage>
+  ): Promise<TMessage> {
+    const data = await this.blobStore.get(key);
+    if (!data) {
+      throw new Error(
+        `Claim-check blob "${key}" not found for message ${envelope.id}`
+      );
+    }
+
+    return this.codec.decode(
+      data,
+      envelope.headers[CLAIM_CHECK_HEADERS.CONTENT_TYPE]
+    ).payload as TMessage;
+  }
+
+  /**
+   * Record that a group handled a blob, deleting it once every group of
+   * the endpoint has. Markers are written before the others are checked,
+   * so of two groups finishing together at least one sees both.
+   */
+  private async release(
+    key: string,
+    endpoint: string,
+    group: string
+  ): Promise<void> {
+    const groups = [...(this.groups.get(endpoint) ?? [group])];
+    if (groups.length <= 1) {
+      await this.deleteBlob(key);
+      return;
+    }
+
+    try {
+      await this.blobStore.put(handledKey(key, group), Buffer.alloc(0));
+
+      for (const other of groups) {
+        if (
+          other !== group &&
+          !(await this.blobStore.get(handledKey(key, other)))
+        ) {
+          return;
+        }
+      }
+    } catch (error) {
+      this.logger.warn("Failed to record claim-check blob as handled", {
+        key,
+        group,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    await Promise.all(
+      [key, ...groups.map((g) => handledKey(key, g))].map((k) =>
+        this.deleteBlob(k)
+      )
+    );
+  }
+
+  private async deleteBlob(key: string): Promise<void> {
+    try {
+      await this.blobStore.delete(key);
+    } catch (error) {
+      this.logger.warn("Failed to delete claim-check blob", {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Key of the marker recording that a group handled a blob.
+ */
+function handledKey(key: string, group: string): string {
+  return `${key}.handled.${group.replace(/[^A-Za-z0-9_.-]/g, "_")}`;
+}
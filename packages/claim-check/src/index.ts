@@ -0,0 +1,11 @@
+export {
+  ClaimCheckTransport,
+  CLAIM_CHECK_HEADERS,
+  DEFAULT_CLAIM_CHECK_THRESHOLD_BYTES,
+} from "./ClaimCheckTransport.js";
+export { InMemoryBlobStore } from "./stores/InMemoryBlobStore.js";
+export { FileSystemBlobStore } from "./stores/FileSystemBlobStore.js";
+export type { FileSystemBlobStoreOptions } from "./stores/FileSystemBlobStore.js";
+export { S3BlobStore } from "./stores/S3BlobStore.js";
+export type { S3BlobStoreOptions } from "./stores/S3BlobStore.js";
+export type { BlobStore, ClaimCheckTransportOptions } from "./types.js";
@@ -0,0 +1,78 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { BlobStore } from "../types.js";
+
+/**
+ * Options for the filesystem blob store.
+ */
+export interface FileSystemBlobStoreOptions {
+  /**
+   * Directory holding one file per blob. Created on first write. Point
+   * every producer and consumer at the same shared volume.
+   */
+  directory: string;
+}
+
+const VALID_KEY = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Blob store writing each payload to a file in a directory, e.g. a volume
+ * shared by all services on the bus.
+ *
+ * Keys arrive in message headers, so anything that could name a file
+ * outside the directory is rejected.
+ */
+export class FileSystemBlobStore implements BlobStore {
+  private readonly directory: string;
+
+  constructor(options: FileSystemBlobStoreOptions) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial blob
+    const temp = `${file}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temp, data);
+      await rename(temp, file);
+    } catch (error) {
+      await rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * @throws If the key could name a file outside the directory
+   */
+  private resolve(key: string): string {
+    const file = path.resolve(this.directory, key);
+    if (
+      !VALID_KEY.test(key) ||
+      key === "." ||
+      key === ".." ||
+      path.dirname(file) !== this.directory
+    ) {
+      throw new Error(`Invalid claim-check key "${key}"`);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,36 @@
+import type { BlobStore } from "../types.js";
+
+/**
+ * Blob store kept in process memory, for tests and single-process setups
+ * using the InMemoryTransport.
+ */
+export class InMemoryBlobStore implements BlobStore {
+  private readonly blobs = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.blobs.set(key, Buffer.from(data));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const data = this.blobs.get(key);
+    return data ? Buffer.from(data) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.blobs.delete(key);
+  }
+
+  /**
+   * Number of stored blobs.
+   */
+  get size(): number {
+    return this.blobs.size;
+  }
+
+  /**
+   * Remove every blob.
+   */
+  clear(): void {
+    this.blobs.clear();
+  }
+}
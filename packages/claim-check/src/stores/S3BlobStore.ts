@@ -0,0 +1,87 @@
+import type { S3Client } from "@aws-sdk/client-s3";
+import type { BlobStore } from "../types.js";
+
+type S3Module = typeof import("@aws-sdk/client-s3");
+
+/**
+ * Options for the S3 blob store.
+ */
+export interface S3BlobStoreOptions {
+  /**
+   * S3 client instance. Configure `endpoint` and `forcePathStyle` for
+   * S3-compatible stores such as MinIO or Cloudflare R2.
+   */
+  client: S3Client;
+
+  /**
+   * Bucket holding the payloads.
+   */
+  bucket: string;
+
+  /**
+   * Prefix prepended to every object key, e.g. "claim-check/".
+   * @default ""
+   */
+  prefix?: string;
+}
+
+/**
+ * Blob store backed by Amazon S3 or an S3-compatible object store.
+ *
+ * Pair it with a bucket lifecycle rule expiring objects under the prefix,
+ * so payloads of messages that are never consumed don't pile up.
+ */
+export class S3BlobStore implements BlobStore {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private sdk: Promise<S3Module> | null = null;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.client = options.client;
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ?? "";
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const { PutObjectCommand } = await this.loadSdk();
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+        Body: data,
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const { GetObjectCommand } = await this.loadSdk();
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: this.prefix + key })
+      );
+      if (!result.Body) {
+        return null;
+      }
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { DeleteObjectCommand } = await this.loadSdk();
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.prefix + key })
+    );
+  }
+
+  private loadSdk(): Promise<S3Module> {
+    // Loaded lazily so the package works without the optional AWS SDK
+    this.sdk ??= import("@aws-sdk/client-s3");
+    return this.sdk;
+  }
+}
@@ -0,0 +1,59 @@
+import type { Logger, MessageCodecOptions, Transport } from "@saga-bus/core";
+
+/**
+ * Storage for message payloads that are too large for the transport.
+ *
+ * Keys are generated by the ClaimCheckTransport and contain only letters,
+ * digits, dots, dashes and underscores.
+ */
+export interface BlobStore {
+  /**
+   * Store a payload, replacing any existing blob with the same key.
+   */
+  put(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Read a payload.
+   * @returns The payload, or null if no blob exists for the key
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Delete a payload. Deleting a missing blob is a no-op.
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for the ClaimCheckTransport.
+ *
+ * `serializer` and `serializers` pick how payloads are written to and read
+ * from the blob store, as they do for transports.
+ */
+export interface ClaimCheckTransportOptions extends MessageCodecOptions {
+  /** Transport to wrap */
+  transport: Transport;
+
+  /** Store holding payloads over the threshold */
+  blobStore: BlobStore;
+
+  /**
+   * Payloads larger than this many bytes, once serialized, are moved to the
+   * blob store.
+   * @default 196608 (192 KB)
+   */
+  thresholdBytes?: number;
+
+  /**
+   * Delete blobs once their message has been handled. With several
+   * consumer groups subscribed to an endpoint through this transport
+   * (per-saga subscriptions, or groups on Kafka, RabbitMQ, PostgreSQL or
+   * SQLite), the blob is deleted once all of them have handled it. Disable
+   * it when other services consume the same endpoint, and expire blobs
+   * with a lifecycle rule instead.
+   * @default true
+   */
+  deleteAfterProcessing?: boolean;
+
+  logger?: Logger;
+}
@@ -5,11 +5,16 @@ import type {
   SagaCorrelation,
   SagaDefinition,
   SagaHandlerResult,
+  UnhandledMessagePolicy,
 } from "../types/index.js";
+import { SagaMigrationError } from "../errors/index.js";
 import type {
   CorrelationConfig,
   HandlerRegistration,
   InitialStateFactory,
+  SagaCompensationHandler,
+  SagaHandler,
+  StateMigrationRegistration,
 } from "./types.js";
 
 /**
@@ -22,6 +27,8 @@ export class SagaDefinitionImpl<
 {
   readonly name: string;
   readonly handledMessageTypes: ReadonlyArray<TMessages["type"]>;
+  readonly stateVersion: number;
+  readonly unhandledMessagePolicy: UnhandledMessagePolicy;
 
   private readonly correlations: Map<string, CorrelationConfig<TMessages>>;
   private readonly wildcardCorrelation?: CorrelationConfig<TMessages>;
@@ -29,20 +36,33 @@ export class SagaDefinitionImpl<
     string,
     Array<HandlerRegistration<TState, TMessages>>
   >;
+  private readonly compensations: Map<string, SagaCompensationHandler<TState>>;
   private readonly initialFactory?: InitialStateFactory<TState, TMessages>;
+  private readonly migrations: Map<number, StateMigrationRegistration>;
+  private readonly otherwiseHandler?: SagaHandler<TState, TMessages>;
 
   constructor(config: {
     name: string;
     correlations: Map<string, CorrelationConfig<TMessages>>;
     wildcardCorrelation?: CorrelationConfig<TMessages>;
     handlers: Map<string, Array<HandlerRegistration<TState, TMessages>>>;
+    compensations?: Map<string, SagaCompensationHandler<TState>>;
     initialFactory?: InitialStateFactory<TState, TMessages>;
+    stateVersion?: number;
+    migrations?: Map<number, StateMigrationRegistration>;
+    unhandledPolicy?: UnhandledMessagePolicy;
+    otherwiseHandler?: SagaHandler<TState, TMessages>;
   }) {
     this.name = config.name;
     this.correlations = config.correlations;
     this.wildcardCorrelation = config.wildcardCorrelation;
     this.handlers = config.handlers;
+    this.compensations = config.compensations ?? new Map();
     this.initialFactory = config.initialFactory;
+    this.stateVersion = config.stateVersion ?? 1;
+    this.migrations = config.migrations ?? new Map();
+    this.unhandledMessagePolicy = config.unhandledPolicy ?? "warn";
+    this.otherwiseHandler = config.otherwiseHandler;
 
     // Collect all handled message types
     const types = new Set<string>();
@@ -100,21 +120,109 @@ export class SagaDefinitionImpl<
     state: TState,
     ctx: SagaContext
   ): Promise<SagaHandlerResult<TState>> {
-    const registrations = this.handlers.get(message.type);
-
-    if (!registrations || registrations.length === 0) {
-      // No handlers for this message type - return state unchanged
-      return { newState: state };
-    }
+    const registrations = this.handlers.get(message.type) ?? [];
 
     // Find the first handler whose guard passes (or has no guard)
     for (const registration of registrations) {
       if (!registration.guard || registration.guard(state)) {
-        return registration.handler(message as TMessages, state, ctx);
+        const result = await registration.handler(
+          message as TMessages,
+          state,
+          ctx
+        );
+        return registration.step
+          ? { ...result, newState: recordStep(result.newState, registration.step) }
+          : result;
+      }
+    }
+
+    // No handler for this message type, or all guards failed
+    return { newState: state, unhandled: true };
+  }
+
+  async handleUnhandled<T extends TMessages>(
+    message: T,
+    state: TState,
+    ctx: SagaContext
+  ): Promise<SagaHandlerResult<TState>> {
+    if (!this.otherwiseHandler) {
+      return { newState: state, unhandled: true };
+    }
+    return this.otherwiseHandler(message as TMessages, state, ctx);
+  }
+
+  async compensate(
+    state: TState,
+    ctx: SagaContext,
+    reason: string
+  ): Promise<TState> {
+    let current = state;
+    const steps = [...(state.metadata.completedSteps ?? [])].reverse();
+
+    for (const step of steps) {
+      // Steps whose compensation was removed from the definition are skipped
+      const compensation = this.compensations.get(step);
+      if (!compensation) {
+        continue;
+      }
+
+      const result = await compensation(current, ctx, reason);
+      if (result) {
+        current = result.newState;
       }
     }
 
-    // No handler matched (all guards failed) - return state unchanged
-    return { newState: state };
+    return {
+      ...current,
+      metadata: { ...current.metadata, completedSteps: [] },
+    };
   }
+
+  async migrateState(state: SagaState): Promise<TState> {
+    let current = state;
+    let version = state.metadata.schemaVersion ?? 1;
+
+    if (version > this.stateVersion) {
+      throw new SagaMigrationError(
+        this.name,
+        version,
+        this.stateVersion,
+        "the stored state is newer than this definition"
+      );
+    }
+
+    while (version < this.stateVersion) {
+      const registration = this.migrations.get(version);
+      if (!registration) {
+        throw new SagaMigrationError(
+          this.name,
+          version,
+          this.stateVersion,
+          `no migration from version ${version}`
+        );
+      }
+
+      const migrated = await registration.migration(current);
+      version = registration.to;
+      current = {
+        ...migrated,
+        metadata: { ...migrated.metadata, schemaVersion: version },
+      };
+    }
+
+    return current as TState;
+  }
+}
+
+function recordStep<TState extends SagaState>(
+  state: TState,
+  step: string
+): TState {
+  return {
+    ...state,
+    metadata: {
+      ...state.metadata,
+      completedSteps: [...(state.metadata.completedSteps ?? []), step],
+    },
+  };
 }
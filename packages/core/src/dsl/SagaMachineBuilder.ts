@@ -2,12 +2,18 @@ import type {
   BaseMessage,
   SagaState,
   SagaDefinition,
+  UnhandledMessagePolicy,
 } from "../types/index.js";
 import type {
+  CompensateOptions,
   CorrelateOptions,
   CorrelationConfig,
   HandlerRegistration,
   InitialStateFactory,
+  SagaCompensationHandler,
+  SagaHandler,
+  SagaStateMigration,
+  StateMigrationRegistration,
 } from "./types.js";
 import { HandlerBuilder } from "./HandlerBuilder.js";
 import { SagaDefinitionImpl } from "./SagaDefinitionImpl.js";
@@ -23,6 +29,10 @@ import { SagaDefinitionImpl } from "./SagaDefinitionImpl.js";
  *   .correlate("*", msg => msg.orderId)
  *   .initial<OrderSubmitted>((msg, ctx) => ({ ... }))
  *   .on("PaymentCaptured").when(s => s.status === "pending").handle(...)
+ *   .compensateWith(async (state, ctx) => { ... }) // refund on rollback
+ *   .stateVersion(2)
+ *   .migrate<OrderStateV1, OrderState>(1, 2, s => ({ ...s, currency: "USD" }))
+ *   .onUnhandled("dlq")
  *   .build();
  * ```
  */
@@ -40,7 +50,16 @@ export class SagaMachineBuilder<
     string,
     Array<HandlerRegistration<TState, TMessages>>
   >();
+  private readonly compensations = new Map<
+    string,
+    SagaCompensationHandler<TState>
+  >();
+  private lastRegistration?: HandlerRegistration<TState, TMessages>;
   private initialFactory?: InitialStateFactory<TState, TMessages>;
+  private currentStateVersion?: number;
+  private readonly migrations = new Map<number, StateMigrationRegistration>();
+  private unhandledPolicy?: UnhandledMessagePolicy;
+  private otherwiseHandler?: SagaHandler<TState, TMessages>;
 
   /**
    * Set the saga name.
@@ -123,6 +142,105 @@ export class SagaMachineBuilder<
     } else {
       this.handlers.set(registration.messageType, [registration]);
     }
+    this.lastRegistration = registration;
+    return this;
+  }
+
+  /**
+   * Register a compensation for the handler registered just before.
+   *
+   * Each time that handler runs, its step is recorded in the saga metadata.
+   * When a handler calls `ctx.compensate()`, the compensations of all
+   * recorded steps run in reverse order. Compensations may be retried
+   * with the message, so they should be idempotent.
+   *
+   * @throws Error if not preceded by .on().handle(), or the step name is taken
+   */
+  compensateWith(
+    compensation: SagaCompensationHandler<TState>,
+    options: CompensateOptions = {}
+  ): this {
+    const registration = this.lastRegistration;
+    if (!registration) {
+      throw new Error("compensateWith() must follow .on(...).handle(...)");
+    }
+    if (registration.step) {
+      throw new Error(
+        `Handler for "${registration.messageType}" already has a compensation`
+      );
+    }
+
+    const step = options.step ?? registration.messageType;
+    if (this.compensations.has(step)) {
+      throw new Error(
+        `Compensation step "${step}" is already registered. Pass { step } to give it a unique name`
+      );
+    }
+
+    registration.step = step;
+    this.compensations.set(step, compensation);
+    return this;
+  }
+
+  /**
+   * Set what happens to messages for an existing saga that no handler
+   * matched (default: "warn"). The saga state is left untouched.
+   */
+  onUnhandled(policy: UnhandledMessagePolicy): this {
+    this.unhandledPolicy = policy;
+    return this;
+  }
+
+  /**
+   * Handle messages for an existing saga that no other handler matched,
+   * e.g. to park out-of-order events in the state. Replaces the
+   * .onUnhandled() policy.
+   */
+  otherwise(handler: SagaHandler<TState, TMessages>): this {
+    this.otherwiseHandler = handler;
+    return this;
+  }
+
+  /**
+   * Set the current version of the state shape (default: 1).
+   *
+   * Bump it whenever TState changes incompatibly and register a
+   * .migrate() step from the previous version. Stored instances are
+   * upgraded when they are loaded and saved in the new shape on their
+   * next update.
+   */
+  stateVersion(version: number): this {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error("State version must be a positive integer");
+    }
+    this.currentStateVersion = version;
+    return this;
+  }
+
+  /**
+   * Register a migration that upgrades state from one version to a later one.
+   * Migrations are chained, so a v1 state reaches v3 through 1→2 and 2→3.
+   *
+   * @throws Error if the versions are invalid or `from` already has a migration
+   */
+  migrate<TFrom extends SagaState = SagaState, TTo extends SagaState = TState>(
+    from: number,
+    to: number,
+    migration: SagaStateMigration<TFrom, TTo>
+  ): this {
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to <= from) {
+      throw new Error(
+        `Invalid migration ${from} -> ${to}: versions must be positive integers and increase`
+      );
+    }
+    if (this.migrations.has(from)) {
+      throw new Error(`A migration from state version ${from} is already registered`);
+    }
+
+    this.migrations.set(from, {
+      to,
+      migration: migration as unknown as SagaStateMigration,
+    });
     return this;
   }
 
@@ -160,12 +278,38 @@ export class SagaMachineBuilder<
       );
     }
 
+    const stateVersion = this.currentStateVersion ?? 1;
+    for (const [from, { to }] of this.migrations) {
+      if (to > stateVersion) {
+        throw new Error(
+          `Saga "${this.sagaName}" migrates to state version ${to}, but its state version is ${stateVersion}`
+        );
+      }
+
+      // Every registered version must reach the current one
+      let version = to;
+      while (version < stateVersion) {
+        const next = this.migrations.get(version);
+        if (!next) {
+          throw new Error(
+            `Saga "${this.sagaName}" has no migration from state version ${version} (needed by ${from} -> ${to})`
+          );
+        }
+        version = next.to;
+      }
+    }
+
     return new SagaDefinitionImpl<TState, TMessages>({
       name: this.sagaName,
       correlations: this.correlations,
       wildcardCorrelation: this.wildcardCorrelation,
       handlers: this.handlers,
+      compensations: this.compensations,
       initialFactory: this.initialFactory,
+      stateVersion,
+      migrations: this.migrations,
+      unhandledPolicy: this.unhandledPolicy,
+      otherwiseHandler: this.otherwiseHandler,
     });
   }
 }
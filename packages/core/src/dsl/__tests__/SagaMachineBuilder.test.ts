@@ -6,6 +6,7 @@ import type {
   SagaContext,
 } from "../../types/index.js";
 import { createSagaMachine } from "../SagaMachineBuilder.js";
+import { SagaMigrationError } from "../../errors/index.js";
 
 // Test message types
 interface OrderSubmitted extends BaseMessage {
@@ -55,6 +56,9 @@ function createMockContext(overrides: Partial<SagaContext> = {}): SagaContext {
     publish: vi.fn(),
     schedule: vi.fn(),
     complete: vi.fn(),
+    compensate: vi.fn(),
+    reply: vi.fn(),
+    startChildSaga: vi.fn(),
     setMetadata: vi.fn(),
     getMetadata: vi.fn(),
     ...overrides,
@@ -474,6 +478,58 @@ describe("createSagaMachine", () => {
       );
 
       expect(result.newState).toEqual(state);
+      expect(result.unhandled).toBe(true);
+      expect(saga.unhandledMessagePolicy).toBe("warn");
+    });
+
+    it("should pass unhandled messages to the otherwise() handler", async () => {
+      const saga = createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("*", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          customerId: msg.customerId,
+          status: "submitted",
+        }))
+        .onUnhandled("dlq")
+        .otherwise(async (msg, state) => ({
+          newState: { ...state, status: msg.type === "OrderShipped" ? "shipped" : state.status },
+        }))
+        .build();
+
+      const state: OrderState = {
+        metadata: {
+          sagaId: "saga-1",
+          version: 0,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          isCompleted: false,
+        },
+        orderId: "order-123",
+        customerId: "customer-456",
+        status: "submitted",
+      };
+      const message = {
+        type: "OrderShipped" as const,
+        orderId: "order-123",
+        trackingNumber: "TRACK",
+      };
+
+      expect(saga.unhandledMessagePolicy).toBe("dlq");
+      expect((await saga.handle(message, state, createMockContext())).unhandled).toBe(
+        true
+      );
+      const result = await saga.handleUnhandled!(message, state, createMockContext());
+      expect(result.newState.status).toBe("shipped");
+      expect(result.unhandled).toBeUndefined();
     });
 
     it("should support multiple handlers for same message type", async () => {
@@ -566,4 +622,210 @@ describe("createSagaMachine", () => {
       expect(saga.handledMessageTypes).toContain("OrderShipped");
     });
   });
+
+  describe("compensation", () => {
+    const baseState: OrderState = {
+      metadata: {
+        sagaId: "saga-1",
+        version: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isCompleted: false,
+      },
+      orderId: "order-123",
+      customerId: "customer-456",
+      status: "submitted",
+    };
+
+    const builder = () =>
+      createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .initial<OrderSubmitted>(() => baseState);
+
+    it("should record steps and compensate them in reverse order", async () => {
+      const calls: string[] = [];
+      const saga = builder()
+        .on("PaymentCaptured")
+        .handle(async (msg, state) => ({
+          newState: { ...state, status: "paid", amount: msg.amount },
+        }))
+        .compensateWith(async (state, _ctx, reason) => {
+          calls.push(`refund:${reason}`);
+          return { newState: { ...state, amount: 0 } };
+        })
+        .on("OrderShipped")
+        .handle(async (_msg, state) => ({
+          newState: { ...state, status: "shipped" },
+        }))
+        .compensateWith(
+          async () => {
+            calls.push("recall");
+          },
+          { step: "ship" }
+        )
+        .build();
+
+      const ctx = createMockContext();
+      const paid = await saga.handle(
+        { type: "PaymentCaptured", orderId: "order-123", amount: 10 },
+        baseState,
+        ctx
+      );
+      const shipped = await saga.handle(
+        { type: "OrderShipped", orderId: "order-123", trackingNumber: "T1" },
+        paid.newState,
+        ctx
+      );
+
+      expect(shipped.newState.metadata.completedSteps).toEqual([
+        "PaymentCaptured",
+        "ship",
+      ]);
+
+      const compensated = await saga.compensate!(
+        shipped.newState,
+        ctx,
+        "cancelled"
+      );
+
+      expect(calls).toEqual(["recall", "refund:cancelled"]);
+      expect(compensated.amount).toBe(0);
+      expect(compensated.metadata.completedSteps).toEqual([]);
+    });
+
+    it("should not record steps for handlers without compensation", async () => {
+      const saga = builder()
+        .on("PaymentCaptured")
+        .handle(async (_msg, state) => ({ newState: state }))
+        .build();
+
+      const result = await saga.handle(
+        { type: "PaymentCaptured", orderId: "order-123", amount: 10 },
+        baseState,
+        createMockContext()
+      );
+
+      expect(result.newState.metadata.completedSteps).toBeUndefined();
+    });
+
+    it("should throw if compensateWith does not follow a handler", () => {
+      expect(() => builder().compensateWith(async () => undefined)).toThrow(
+        "compensateWith() must follow"
+      );
+    });
+
+    it("should throw on duplicate step names", () => {
+      expect(() =>
+        builder()
+          .on("PaymentCaptured")
+          .handle(async (_msg, state) => ({ newState: state }))
+          .compensateWith(async () => undefined)
+          .on("PaymentCaptured")
+          .handle(async (_msg, state) => ({ newState: state }))
+          .compensateWith(async () => undefined)
+      ).toThrow('Compensation step "PaymentCaptured" is already registered');
+    });
+  });
+
+  describe("state migrations", () => {
+    // Stored before status and customerId existed
+    interface OrderStateV1 extends SagaState {
+      metadata: SagaStateMetadata;
+      orderId: string;
+      customer: string;
+    }
+
+    interface OrderStateV2 extends SagaState {
+      metadata: SagaStateMetadata;
+      orderId: string;
+      customerId: string;
+    }
+
+    const v1State: OrderStateV1 = {
+      metadata: {
+        sagaId: "saga-1",
+        version: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isCompleted: false,
+      },
+      orderId: "order-123",
+      customer: "customer-456",
+    };
+
+    const keep = (state: SagaState) => state as OrderState;
+
+    const builder = () =>
+      createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .initial<OrderSubmitted>(() => {
+          throw new Error("not used");
+        });
+
+    it("should default to state version 1", async () => {
+      const saga = builder().build();
+
+      expect(saga.stateVersion).toBe(1);
+      expect(await saga.migrateState!(v1State)).toBe(v1State);
+    });
+
+    it("should chain migrations up to the current version", async () => {
+      const saga = builder()
+        .stateVersion(3)
+        .migrate<OrderStateV1, OrderStateV2>(1, 2, ({ customer, ...state }) => ({
+          ...state,
+          customerId: customer,
+        }))
+        .migrate<OrderStateV2>(2, 3, async (state) => ({
+          ...state,
+          status: "submitted" as const,
+        }))
+        .build();
+
+      const migrated = await saga.migrateState!(v1State);
+
+      expect(migrated).toEqual({
+        metadata: { ...v1State.metadata, schemaVersion: 3 },
+        orderId: "order-123",
+        customerId: "customer-456",
+        status: "submitted",
+      });
+    });
+
+    it("should reject states newer than the definition", async () => {
+      const saga = builder().stateVersion(2).migrate(1, 2, keep).build();
+
+      await expect(
+        saga.migrateState!({
+          ...v1State,
+          metadata: { ...v1State.metadata, schemaVersion: 3 },
+        })
+      ).rejects.toBeInstanceOf(SagaMigrationError);
+    });
+
+    it("should reject states without a migration path", async () => {
+      const saga = builder().stateVersion(3).migrate(2, 3, keep).build();
+
+      await expect(saga.migrateState!(v1State)).rejects.toThrow(
+        "no migration from version 1"
+      );
+    });
+
+    it("should validate migrations when building", () => {
+      expect(() => builder().migrate(2, 1, keep)).toThrow(
+        "Invalid migration 2 -> 1"
+      );
+      expect(() =>
+        builder().migrate(1, 2, keep).migrate(1, 3, keep)
+      ).toThrow("A migration from state version 1 is already registered");
+      expect(() =>
+        builder().stateVersion(2).migrate(1, 3, keep).build()
+      ).toThrow("migrates to state version 3, but its state version is 2");
+      expect(() =>
+        builder().stateVersion(4).migrate(1, 2, keep).build()
+      ).toThrow("has no migration from state version 2");
+    });
+  });
 });
@@ -7,6 +7,10 @@ export type {
   CorrelateOptions,
   CorrelationConfig,
   SagaHandler,
+  SagaCompensationHandler,
+  CompensateOptions,
+  SagaStateMigration,
+  StateMigrationRegistration,
   StateGuard,
   HandlerRegistration,
   InitialStateFactory,
@@ -33,6 +33,44 @@ export type SagaHandler<
   ctx: SagaContext
 ) => Promise<SagaHandlerResult<TState>>;
 
+/**
+ * Compensation function that undoes a completed step.
+ * May return an updated state; returning nothing keeps the state as is.
+ */
+export type SagaCompensationHandler<TState extends SagaState> = (
+  state: TState,
+  ctx: SagaContext,
+  reason: string
+) => Promise<Pick<SagaHandlerResult<TState>, "newState"> | void>;
+
+/**
+ * Options for registering a compensation.
+ */
+export interface CompensateOptions {
+  /**
+   * Step name recorded in saga metadata (default: the message type).
+   * Must be unique within the saga.
+   */
+  step?: string;
+}
+
+/**
+ * Upgrades a saga state from one state version to a later one.
+ * metadata.schemaVersion is set on the result automatically.
+ */
+export type SagaStateMigration<
+  TFrom extends SagaState = SagaState,
+  TTo extends SagaState = SagaState
+> = (state: TFrom) => TTo | Promise<TTo>;
+
+/**
+ * A registered migration step.
+ */
+export interface StateMigrationRegistration {
+  to: number;
+  migration: SagaStateMigration;
+}
+
 /**
  * State guard function.
  */
@@ -48,6 +86,8 @@ export interface HandlerRegistration<
   messageType: string;
   guard?: StateGuard<TState>;
   handler: SagaHandler<TState, TMessage>;
+  /** Step name, set when the handler has a compensation */
+  step?: string;
 }
 
 /**
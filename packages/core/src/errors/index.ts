@@ -82,6 +82,113 @@ export class SagaTimeoutError extends Error {
   }
 }
 
+/**
+ * Thrown when bus.request() or bus.waitForSaga() gives up waiting.
+ */
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(description: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for ${description}`);
+    this.name = "RequestTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a stored saga state cannot be migrated to the current
+ * state version.
+ */
+export class SagaMigrationError extends Error {
+  readonly sagaName: string;
+  readonly fromVersion: number;
+  readonly toVersion: number;
+
+  constructor(
+    sagaName: string,
+    fromVersion: number,
+    toVersion: number,
+    reason: string
+  ) {
+    super(
+      `Cannot migrate ${sagaName} state from version ${fromVersion} to ${toVersion}: ${reason}`
+    );
+    this.name = "SagaMigrationError";
+    this.sagaName = sagaName;
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+/**
+ * Thrown for a message no handler of a saga matched, when the saga's
+ * unhandledMessagePolicy is "error" or "dlq".
+ */
+export class UnhandledMessageError extends Error {
+  readonly sagaName: string;
+  readonly sagaId: string;
+  readonly messageType: string;
+  readonly policy: "error" | "dlq";
+
+  constructor(
+    sagaName: string,
+    sagaId: string,
+    messageType: string,
+    policy: "error" | "dlq"
+  ) {
+    super(
+      `No handler of ${sagaName} matched message type ${messageType} in saga ${sagaId}`
+    );
+    this.name = "UnhandledMessageError";
+    this.sagaName = sagaName;
+    this.sagaId = sagaId;
+    this.messageType = messageType;
+    this.policy = policy;
+  }
+}
+
+/**
+ * Thrown when a saga or saga instance does not exist.
+ */
+export class SagaNotFoundError extends Error {
+  readonly sagaName: string;
+  readonly instanceId?: string;
+
+  constructor(sagaName: string, instanceId?: string) {
+    super(
+      instanceId !== undefined
+        ? `Saga instance "${instanceId}" of ${sagaName} not found`
+        : `Saga "${sagaName}" is not registered`
+    );
+    this.name = "SagaNotFoundError";
+    this.sagaName = sagaName;
+    this.instanceId = instanceId;
+  }
+}
+
+/**
+ * Thrown when an operation needs a capability the configured store or
+ * transport doesn't have (e.g. listing sagas on a store without queries).
+ */
+export class UnsupportedOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedOperationError";
+  }
+}
+
+/**
+ * Thrown to the transport for a message the bus won't finish because it is
+ * stopping. Transports should hand the message back (nack, abandon or leave
+ * it unacknowledged) so it is redelivered.
+ */
+export class BusStoppingError extends Error {
+  constructor(message = "Bus is stopping") {
+    super(message);
+    this.name = "BusStoppingError";
+  }
+}
+
 /**
  * Context attached to processing errors for better observability.
  */
@@ -3,36 +3,85 @@ export type {
   // Messages
   BaseMessage,
   MessageEnvelope,
+  SagaChildCompleted,
+  SagaChildCompensated,
   // Transport
   Transport,
   TransportSubscribeOptions,
   TransportPublishOptions,
+  TransportBatchMessage,
   // Saga
   SagaState,
   SagaStateMetadata,
+  SagaStatus,
+  SagaReplyAddress,
+  SagaParentReference,
   SagaStore,
   SagaContext,
   SagaHandlerResult,
+  UnhandledMessagePolicy,
   SagaCorrelation,
   SagaDefinition,
+  // Outbox
+  OutboxMessage,
+  SagaOutboxStore,
+  // History
+  SagaHistoryOutcome,
+  SagaHistoryEntry,
+  SagaHistoryStore,
+  // Serialization
+  Serializer,
+  // Scheduler
+  ScheduledMessage,
+  ScheduledMessageStore,
+  // Query
+  SagaDateRange,
+  SagaQueryFilter,
+  SagaQuerySortField,
+  SagaQuery,
+  SagaQueryResult,
+  SagaQueryableStore,
   // Bus
   Bus,
   BusConfig,
   SagaRegistration,
+  RegisteredSaga,
+  BusDrainStats,
   WorkerConfig,
   WorkerRetryPolicy,
   TimeoutBounds,
+  OutboxConfig,
+  HistoryConfig,
+  RequestConfig,
+  RequestOptions,
   CorrelationFailureContext,
   CorrelationFailureHandler,
   // Middleware
   SagaPipelineContext,
   SagaMiddleware,
+  // Events
+  SagaEventBase,
+  SagaCreatedEvent,
+  SagaCompletedEvent,
+  SagaStateChangedEvent,
+  SagaTimeoutScheduledEvent,
+  MessageFailureEventBase,
+  MessageRetriedEvent,
+  MessageDeadLetteredEvent,
+  CorrelationFailedEvent,
+  SagaBusEventMap,
+  SagaBusEventName,
+  SagaBusEventListener,
   // Observability
   Logger,
   Metrics,
   Tracer,
   ErrorHandler,
 } from "./types/index.js";
+export {
+  SAGA_CHILD_COMPLETED_MESSAGE_TYPE,
+  SAGA_CHILD_COMPENSATED_MESSAGE_TYPE,
+} from "./types/index.js";
 
 // Errors
 export {
@@ -40,6 +89,12 @@ export {
   TransientError,
   ValidationError,
   SagaProcessingError,
+  RequestTimeoutError,
+  SagaMigrationError,
+  SagaNotFoundError,
+  UnhandledMessageError,
+  UnsupportedOperationError,
+  BusStoppingError,
 } from "./errors/index.js";
 export type { SagaErrorContext } from "./errors/index.js";
 
@@ -48,6 +103,9 @@ export { createSagaMachine, SagaMachineBuilder } from "./dsl/index.js";
 export type {
   CorrelateOptions,
   SagaHandler,
+  SagaCompensationHandler,
+  CompensateOptions,
+  SagaStateMigration,
   StateGuard,
   InitialStateFactory,
 } from "./dsl/index.js";
@@ -55,6 +113,10 @@ export type {
 // Runtime
 export { createBus } from "./runtime/index.js";
 export { DefaultLogger } from "./runtime/index.js";
+export { DEFAULT_SHUTDOWN_TIMEOUT_MS } from "./runtime/index.js";
+
+// Runtime - Observability
+export { SAGA_BUS_METRICS, SAGA_BUS_SPANS } from "./runtime/index.js";
 
 // Runtime - Error handling
 export { DefaultErrorHandler, createErrorHandler } from "./runtime/index.js";
@@ -63,4 +125,87 @@ export {
   DEFAULT_RETRY_POLICY,
   DEFAULT_TIMEOUT_BOUNDS,
   defaultDlqNaming,
+  defaultGroupNaming,
+  getTargetSaga,
+} from "./runtime/index.js";
+
+// Runtime - Outbox
+export {
+  OutboxRelay,
+  isOutboxStore,
+  OUTBOX_MESSAGE_ID_HEADER,
+} from "./runtime/index.js";
+export type { OutboxRelayOptions } from "./runtime/index.js";
+
+// Runtime - History
+export { isHistoryStore, getSagaHistoryOutcome } from "./runtime/index.js";
+
+// Runtime - Serialization
+export {
+  MessageCodec,
+  JsonSerializer,
+  TypedJsonSerializer,
+  SchemaJsonSerializer,
+  CONTENT_TYPE_HEADER,
+  JSON_CONTENT_TYPE,
+  TYPED_JSON_CONTENT_TYPE,
+  SCHEMA_JSON_CONTENT_TYPE,
+} from "./runtime/index.js";
+export type {
+  MessageCodecOptions,
+  SchemaJsonSerializerOptions,
+} from "./runtime/index.js";
+
+// Runtime - Batch publishing
+export { publishBatch } from "./runtime/index.js";
+
+// Runtime - Durable scheduler
+export {
+  SchedulingTransport,
+  isScheduledMessageStore,
+} from "./runtime/index.js";
+export type { SchedulingTransportOptions } from "./runtime/index.js";
+
+// Runtime - Request/response
+export {
+  getReplyAddress,
+  REPLY_TO_HEADER,
+  REPLY_CORRELATION_HEADER,
+} from "./runtime/index.js";
+
+// Runtime - Child sagas
+export { CHILD_SAGA_HEADERS, getParentReference } from "./runtime/index.js";
+
+// Runtime - State migrations
+export { migrateSagaStates } from "./runtime/index.js";
+export type {
+  MigrateSagaStatesOptions,
+  MigrateSagaStatesResult,
+} from "./runtime/index.js";
+
+// Runtime - Saga queries
+export {
+  isQueryableStore,
+  resolveSagaQuery,
+  encodeSagaQueryCursor,
+  decodeSagaQueryCursor,
+  matchesSagaQueryFilter,
+  compareSagasForQuery,
+  toSagaQueryResult,
+  applySagaQuery,
+  DEFAULT_SAGA_QUERY_LIMIT,
+} from "./runtime/index.js";
+export type { SagaQueryCursor, ResolvedSagaQuery } from "./runtime/index.js";
+
+// Runtime - Admin
+export {
+  SagaAdmin,
+  getSagaInstanceStatus,
+  parseSagaInstanceQuery,
+} from "./runtime/index.js";
+export type {
+  SagaAdminAction,
+  SagaInstanceQuery,
+  SagaInstanceStatus,
+  SagaSummary,
 } from "./runtime/index.js";
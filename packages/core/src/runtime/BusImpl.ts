@@ -2,22 +2,46 @@ import type {
   Bus,
   BusConfig,
   BaseMessage,
+  MessageEnvelope,
   TransportPublishOptions,
   SagaState,
   Logger,
   ErrorHandler,
   WorkerRetryPolicy,
+  SagaOutboxStore,
+  SagaStore,
+  RequestOptions,
+  RegisteredSaga,
+  BusDrainStats,
+  SagaBusEventName,
+  SagaBusEventListener,
 } from "../types/index.js";
 import { SagaOrchestrator } from "./SagaOrchestrator.js";
 import { MiddlewarePipeline } from "./MiddlewarePipeline.js";
 import { DefaultLogger } from "./DefaultLogger.js";
 import { DefaultErrorHandler } from "./DefaultErrorHandler.js";
-import { SagaProcessingError } from "../errors/index.js";
+import { OutboxRelay, isOutboxStore } from "./OutboxRelay.js";
+import { isHistoryStore } from "./sagaHistory.js";
+import {
+  ReplyRouter,
+  SagaWaiters,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+} from "./RequestReply.js";
+import {
+  DeliveryTracker,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
+} from "./DeliveryTracker.js";
+import { SAGA_BUS_METRICS } from "./instrumentation.js";
+import { SagaEventEmitter } from "./SagaEventEmitter.js";
+import { KeyedSerializer } from "./KeyedSerializer.js";
+import { SagaProcessingError, UnhandledMessageError } from "../errors/index.js";
 import {
   RetryHandler,
   DEFAULT_RETRY_POLICY,
   defaultDlqNaming,
+  defaultGroupNaming,
   getAttemptCount,
+  getTargetSaga,
 } from "./RetryHandler.js";
 
 /**
@@ -31,6 +55,13 @@ export class BusImpl implements Bus {
   private readonly orchestrators: SagaOrchestrator<SagaState, BaseMessage>[];
   private readonly retryHandler: RetryHandler;
   private readonly defaultRetryPolicy: WorkerRetryPolicy;
+  private readonly outboxRelay: OutboxRelay | null = null;
+  private readonly sagaStores = new Map<string, SagaStore<SagaState>>();
+  private readonly replyRouter: ReplyRouter;
+  private readonly sagaWaiters: SagaWaiters;
+  private readonly requestTimeoutMs: number;
+  private readonly deliveries = new DeliveryTracker();
+  private readonly events: SagaEventEmitter;
   private started = false;
 
   constructor(config: BusConfig) {
@@ -38,6 +69,7 @@ export class BusImpl implements Bus {
     this.logger = config.logger ?? new DefaultLogger();
     this.errorHandler = config.errorHandler ?? new DefaultErrorHandler();
     this.pipeline = new MiddlewarePipeline(config.middleware ? [...config.middleware] : []);
+    this.events = new SagaEventEmitter(this.logger);
 
     // Set up retry configuration
     this.defaultRetryPolicy = config.worker?.retryPolicy ?? DEFAULT_RETRY_POLICY;
@@ -46,10 +78,30 @@ export class BusImpl implements Bus {
     this.retryHandler = new RetryHandler({
       transport: config.transport,
       logger: this.logger,
+      metrics: config.metrics,
+      events: this.events,
       defaultPolicy: this.defaultRetryPolicy,
       dlqNaming,
     });
 
+    this.replyRouter = new ReplyRouter({
+      transport: config.transport,
+      logger: this.logger,
+      replyEndpoint: config.requests?.replyEndpoint,
+      defaultTimeoutMs: config.requests?.defaultTimeoutMs,
+    });
+    this.sagaWaiters = new SagaWaiters(config.requests?.pollIntervalMs);
+    this.requestTimeoutMs =
+      config.requests?.defaultTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+    const outboxEnabled = config.outbox?.enabled ?? false;
+    const historyEnabled = config.history?.enabled ?? false;
+    const outboxStores: SagaOutboxStore<SagaState>[] = [];
+    const serializer =
+      config.worker?.serializeByCorrelation === false
+        ? undefined
+        : new KeyedSerializer();
+
     // Create orchestrators for each registered saga
     this.orchestrators = config.sagas.map((registration) => {
       // Resolve store: per-saga store takes precedence over default store
@@ -61,16 +113,56 @@ export class BusImpl implements Bus {
         );
       }
 
+      this.sagaStores.set(registration.definition.name, store);
+
+      if (historyEnabled && !isHistoryStore(store)) {
+        this.logger.warn("Store does not support saga history; transitions will not be recorded", {
+          sagaName: registration.definition.name,
+        });
+      }
+
+      if (outboxEnabled) {
+        if (isOutboxStore(store)) {
+          outboxStores.push(store);
+        } else {
+          this.logger.warn(
+            "Store does not support the outbox; buffered messages will be published after the state is persisted",
+            { sagaName: registration.definition.name }
+          );
+        }
+      }
+
       return new SagaOrchestrator({
         definition: registration.definition,
         store,
         transport: config.transport,
         pipeline: this.pipeline,
         logger: this.logger,
+        metrics: config.metrics,
+        tracer: config.tracer,
+        events: this.events,
         timeoutBounds: config.worker?.timeoutBounds,
         onCorrelationFailure: config.worker?.onCorrelationFailure,
+        serializer,
+        concurrencyRetries: config.worker?.concurrencyRetries,
+        outbox: outboxEnabled,
+        history: historyEnabled,
+        onOutboxWritten: () => this.outboxRelay?.notify(),
+        onSagaPersisted: (sagaName, correlationId, state) =>
+          this.sagaWaiters.notify(sagaName, correlationId, state),
       });
     });
+
+    if (outboxStores.length > 0) {
+      this.outboxRelay = new OutboxRelay({
+        stores: outboxStores,
+        transport: config.transport,
+        logger: this.logger,
+        pollIntervalMs: config.outbox?.pollIntervalMs,
+        batchSize: config.outbox?.batchSize,
+        lockDurationMs: config.outbox?.lockDurationMs,
+      });
+    }
   }
 
   async start(): Promise<void> {
@@ -82,97 +174,54 @@ export class BusImpl implements Bus {
 
     // Start the transport
     await this.config.transport.start();
+    this.deliveries.open();
 
     // Subscribe to endpoints for each saga's message types
+    const subscribed =
+      this.config.worker?.subscriptionMode === "perSaga"
+        ? await this.subscribePerSaga()
+        : await this.subscribeShared();
+
+    // Start relaying outbox messages
+    this.outboxRelay?.start();
+
+    this.started = true;
+    this.logger.info("Saga bus started", {
+      sagaCount: this.orchestrators.length,
+      subscriptionCount: subscribed,
+    });
+  }
+
+  /**
+   * One subscription per message type; the sagas handling it run in turn.
+   * @returns Number of subscriptions
+   */
+  private async subscribeShared(): Promise<number> {
     const subscribed = new Set<string>();
 
     for (const orchestrator of this.orchestrators) {
       for (const messageType of orchestrator.handledMessageTypes) {
         const endpoint = messageType;
-        const subscriptionKey = endpoint;
 
-        if (subscribed.has(subscriptionKey)) {
+        if (subscribed.has(endpoint)) {
           continue;
         }
-        subscribed.add(subscriptionKey);
+        subscribed.add(endpoint);
 
-        const concurrency =
-          this.config.worker?.sagas?.[orchestrator.name]?.concurrency ??
-          this.config.worker?.defaultConcurrency ??
-          1;
+        const concurrency = this.getConcurrency(orchestrator.name);
 
         await this.config.transport.subscribe(
           { endpoint, concurrency },
-          async (envelope) => {
-            const handlers = this.orchestrators.filter((o) =>
-              o.handledMessageTypes.includes(envelope.type)
-            );
-
-            for (const handler of handlers) {
-              // Get the retry policy for this specific saga
-              const retryPolicy =
-                this.config.worker?.sagas?.[handler.name]?.retryPolicy ??
-                this.defaultRetryPolicy;
-
-              try {
-                const result = await handler.processMessage(envelope);
-
-                // Handle correlation failures
-                if (result?.failed) {
-                  if (result.action === "dlq") {
-                    await this.retryHandler.sendToDlq(
-                      envelope,
-                      endpoint,
-                      new Error(`Correlation failed for message type ${result.messageType}`)
-                    );
-                  }
-                  // action === "drop" means we just drop the message (default behavior)
-                  continue;
-                }
-              } catch (error) {
-                // Extract context from SagaProcessingError if available
-                const errorContext = SagaProcessingError.extractContext(error);
-                const originalError = error instanceof SagaProcessingError ? error.cause : error;
-
-                // Log the error with full context
-                this.logger.error("Error processing message", {
-                  sagaName: handler.name,
-                  messageType: envelope.type,
-                  messageId: envelope.id,
-                  correlationId: errorContext?.correlationId,
-                  sagaId: errorContext?.sagaId,
-                  attempt: getAttemptCount(envelope),
-                  error: originalError instanceof Error ? originalError.message : String(originalError),
-                });
-
-                // Classify the error - pass the original error and rich context
-                const action = await this.errorHandler.handle(originalError, {
-                  envelope,
-                  sagaName: handler.name,
-                  correlationId: errorContext?.correlationId ?? "",
-                  metadata: {
-                    sagaId: errorContext?.sagaId,
-                  },
-                  error: originalError,
-                  setTraceContext: () => {}, // No-op for error context
-                });
-
-                if (action === "retry") {
-                  await this.retryHandler.handleFailure(
-                    envelope,
-                    endpoint,
-                    error,
-                    retryPolicy
-                  );
-                } else if (action === "dlq") {
-                  await this.retryHandler.sendToDlq(envelope, endpoint, error);
-                }
-                // action === "drop" means we just drop the message
-
-                // Don't re-throw - we've handled the error
+          async (envelope) =>
+            this.deliveries.run(async () => {
+              const handlers = this.orchestrators.filter((o) =>
+                o.handledMessageTypes.includes(envelope.type)
+              );
+
+              for (const handler of handlers) {
+                await this.deliver(handler, envelope, endpoint);
               }
-            }
-          }
+            })
         );
 
         this.logger.debug("Subscribed to endpoint", {
@@ -183,31 +232,220 @@ export class BusImpl implements Bus {
       }
     }
 
-    this.started = true;
-    this.logger.info("Saga bus started", {
-      sagaCount: this.orchestrators.length,
-      endpointCount: subscribed.size,
-    });
+    return subscribed.size;
   }
 
-  async stop(): Promise<void> {
-    if (!this.started) {
+  /**
+   * One subscription per saga and message type, each in its own consumer
+   * group, so a saga's failures and retries never affect the others.
+   * @returns Number of subscriptions
+   */
+  private async subscribePerSaga(): Promise<number> {
+    const groupNaming = this.config.worker?.groupNaming ?? defaultGroupNaming;
+    let subscribed = 0;
+
+    for (const orchestrator of this.orchestrators) {
+      const concurrency = this.getConcurrency(orchestrator.name);
+
+      for (const messageType of orchestrator.handledMessageTypes) {
+        const endpoint = messageType;
+        const group = groupNaming(orchestrator.name, endpoint);
+
+        await this.config.transport.subscribe(
+          { endpoint, concurrency, group },
+          async (envelope) =>
+            this.deliveries.run(() =>
+              this.deliver(orchestrator, envelope, endpoint)
+            )
+        );
+        subscribed++;
+
+        this.logger.debug("Subscribed to endpoint", {
+          endpoint,
+          messageType,
+          sagaName: orchestrator.name,
+          group,
+          concurrency,
+        });
+      }
+    }
+
+    return subscribed;
+  }
+
+  private getConcurrency(sagaName: string): number {
+    return (
+      this.config.worker?.sagas?.[sagaName]?.concurrency ??
+      this.config.worker?.defaultConcurrency ??
+      1
+    );
+  }
+
+  /**
+   * Run one saga for a message, routing failures to its retry/DLQ handling.
+   */
+  private async deliver(
+    handler: SagaOrchestrator<SagaState, BaseMessage>,
+    envelope: MessageEnvelope,
+    endpoint: string
+  ): Promise<void> {
+    // Retries and DLQ replays are meant for the saga that failed
+    const targetSaga = getTargetSaga(envelope);
+    if (targetSaga && targetSaga !== handler.name) {
       return;
     }
 
+    // Get the retry policy for this specific saga
+    const retryPolicy =
+      this.config.worker?.sagas?.[handler.name]?.retryPolicy ??
+      this.defaultRetryPolicy;
+
+    const startedAt = Date.now();
+    const recordDuration = (outcome: "success" | "failure") =>
+      this.config.metrics?.recordDuration(
+        SAGA_BUS_METRICS.PROCESSING_DURATION,
+        Date.now() - startedAt,
+        { saga_name: handler.name, message_type: envelope.type, outcome }
+      );
+
+    try {
+      const result = await handler.processMessage(envelope);
+      recordDuration("success");
+
+      // Handle correlation failures
+      if (result?.failed && result.action === "dlq") {
+        await this.retryHandler.sendToDlq(
+          envelope,
+          endpoint,
+          new Error(`Correlation failed for message type ${result.messageType}`),
+          handler.name
+        );
+      }
+      // action === "drop" means we just drop the message (default behavior)
+    } catch (error) {
+      recordDuration("failure");
+
+      // Extract context from SagaProcessingError if available
+      const errorContext = SagaProcessingError.extractContext(error);
+      const originalError = error instanceof SagaProcessingError ? error.cause : error;
+
+      // Log the error with full context
+      this.logger.error("Error processing message", {
+        sagaName: handler.name,
+        messageType: envelope.type,
+        messageId: envelope.id,
+        correlationId: errorContext?.correlationId,
+        sagaId: errorContext?.sagaId,
+        attempt: getAttemptCount(envelope),
+        error: originalError instanceof Error ? originalError.message : String(originalError),
+      });
+
+      // Classify the error - pass the original error and rich context.
+      // Unhandled messages of sagas with the "dlq" policy skip retries
+      const action =
+        originalError instanceof UnhandledMessageError &&
+        originalError.policy === "dlq"
+          ? "dlq"
+          : await this.errorHandler.handle(originalError, {
+              envelope,
+              sagaName: handler.name,
+              correlationId: errorContext?.correlationId ?? "",
+              metadata: {
+                sagaId: errorContext?.sagaId,
+              },
+              error: originalError,
+              setTraceContext: () => {}, // No-op for error context
+            });
+
+      if (action === "retry") {
+        await this.retryHandler.handleFailure(
+          envelope,
+          endpoint,
+          error,
+          retryPolicy,
+          handler.name
+        );
+      } else if (action === "dlq") {
+        await this.retryHandler.sendToDlq(envelope, endpoint, error, handler.name);
+      }
+      // action === "drop" means we just drop the message
+
+      // Don't re-throw - we've handled the error
+    }
+  }
+
+  async stop(): Promise<BusDrainStats> {
+    if (!this.started) {
+      return {
+        inFlight: 0,
+        completed: 0,
+        handedBack: 0,
+        refused: 0,
+        timedOut: false,
+        durationMs: 0,
+      };
+    }
+
     this.logger.info("Stopping saga bus...");
 
+    // Stop taking new messages, then let in-flight ones finish; handlers
+    // may still publish and await replies while they drain
+    this.deliveries.close();
+    await this.config.transport.stopReceiving?.();
+    const stats = await this.deliveries.drain(
+      this.config.worker?.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS
+    );
+    if (stats.timedOut) {
+      this.logger.warn("Shutdown timeout expired; handing messages back to the transport", {
+        handedBack: stats.handedBack,
+      });
+    }
+
+    // Nothing will answer pending requests once the transport is gone
+    const stopped = new Error("Bus stopped");
+    this.replyRouter.cancelAll(stopped);
+    this.sagaWaiters.cancelAll(stopped);
+
+    // Finish the current outbox run before the transport goes away
+    await this.outboxRelay?.stop();
+
     // Stop the transport (handles graceful shutdown)
     await this.config.transport.stop();
 
     this.started = false;
-    this.logger.info("Saga bus stopped");
+    this.logger.info("Saga bus stopped", { ...stats });
+    return stats;
   }
 
   isRunning(): boolean {
     return this.started;
   }
 
+  getSagas(): ReadonlyArray<RegisteredSaga> {
+    return this.orchestrators.map((orchestrator) => ({
+      name: orchestrator.name,
+      handledMessageTypes: orchestrator.handledMessageTypes,
+      store: this.sagaStores.get(orchestrator.name)!,
+      defaultEndpoint: orchestrator.defaultEndpoint,
+      cancelTimeout: (sagaId, timeoutToken) =>
+        orchestrator.cancelTimeout(sagaId, timeoutToken),
+    }));
+  }
+
+  on<K extends SagaBusEventName>(
+    event: K,
+    listener: SagaBusEventListener<K>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends SagaBusEventName>(
+    event: K,
+    listener: SagaBusEventListener<K>
+  ): void {
+    this.events.off(event, listener);
+  }
+
   async publish<TMessage extends BaseMessage>(
     message: TMessage,
     options?: Partial<TransportPublishOptions>
@@ -219,6 +457,33 @@ export class BusImpl implements Bus {
       ...options,
     });
   }
+
+  async request<
+    TReply extends BaseMessage,
+    TMessage extends BaseMessage = BaseMessage & Record<string, unknown>,
+  >(message: TMessage, options?: RequestOptions): Promise<TReply> {
+    return this.replyRouter.request<TReply>(message, options);
+  }
+
+  async waitForSaga<TState extends SagaState>(
+    sagaName: string,
+    correlationId: string,
+    predicate: (state: TState) => boolean,
+    timeoutMs?: number
+  ): Promise<TState> {
+    const store = this.sagaStores.get(sagaName);
+    if (!store) {
+      throw new Error(`Saga "${sagaName}" is not registered with this bus`);
+    }
+
+    return this.sagaWaiters.wait(
+      store as SagaStore<TState>,
+      sagaName,
+      correlationId,
+      predicate,
+      timeoutMs ?? this.requestTimeoutMs
+    );
+  }
 }
 
 /**
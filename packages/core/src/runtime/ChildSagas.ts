@@ -0,0 +1,114 @@
+import type {
+  MessageEnvelope,
+  SagaChildCompensated,
+  SagaChildCompleted,
+  SagaParentReference,
+  SagaState,
+  TransportPublishOptions,
+} from "../types/index.js";
+import {
+  SAGA_CHILD_COMPENSATED_MESSAGE_TYPE,
+  SAGA_CHILD_COMPLETED_MESSAGE_TYPE,
+} from "../types/index.js";
+import { RETRY_HEADERS } from "./RetryHandler.js";
+
+/**
+ * Headers identifying the parent of a message sent with
+ * `ctx.startChildSaga()`. The child saga is named by
+ * `RETRY_HEADERS.TARGET_SAGA`, so other sagas skip the message.
+ */
+export const CHILD_SAGA_HEADERS = {
+  PARENT_SAGA_NAME: "x-saga-parent-saga",
+  PARENT_SAGA_ID: "x-saga-parent-id",
+  PARENT_CORRELATION_ID: "x-saga-parent-correlation-id",
+} as const;
+
+/**
+ * Headers for a message starting `childSagaName` as a child of the given saga.
+ */
+export function createChildSagaHeaders(
+  childSagaName: string,
+  parent: SagaParentReference
+): Record<string, string> {
+  return {
+    [RETRY_HEADERS.TARGET_SAGA]: childSagaName,
+    [CHILD_SAGA_HEADERS.PARENT_SAGA_NAME]: parent.sagaName,
+    [CHILD_SAGA_HEADERS.PARENT_SAGA_ID]: parent.sagaId,
+    [CHILD_SAGA_HEADERS.PARENT_CORRELATION_ID]: parent.correlationId,
+  };
+}
+
+/**
+ * Read the parent a starting message was sent by, if it was sent with
+ * `ctx.startChildSaga()` for this saga.
+ */
+export function getParentReference(
+  envelope: MessageEnvelope,
+  sagaName: string
+): SagaParentReference | null {
+  const { headers } = envelope;
+  const parentSagaName = headers[CHILD_SAGA_HEADERS.PARENT_SAGA_NAME];
+  const parentSagaId = headers[CHILD_SAGA_HEADERS.PARENT_SAGA_ID];
+  const parentCorrelationId = headers[CHILD_SAGA_HEADERS.PARENT_CORRELATION_ID];
+
+  if (
+    headers[RETRY_HEADERS.TARGET_SAGA] !== sagaName ||
+    !parentSagaName ||
+    !parentSagaId ||
+    !parentCorrelationId
+  ) {
+    return null;
+  }
+
+  return {
+    sagaName: parentSagaName,
+    sagaId: parentSagaId,
+    correlationId: parentCorrelationId,
+  };
+}
+
+/**
+ * The message telling a child's parent that it finished, or null if the
+ * saga has no parent or hasn't finished.
+ */
+export function createChildFinishedMessage(
+  sagaName: string,
+  correlationId: string,
+  state: SagaState,
+  defaultEndpoint?: string
+): {
+  message: SagaChildCompleted | SagaChildCompensated;
+  options: TransportPublishOptions;
+} | null {
+  const { parent } = state.metadata;
+  if (!parent || !state.metadata.isCompleted) {
+    return null;
+  }
+
+  const fields = {
+    sagaName: parent.sagaName,
+    sagaId: parent.sagaId,
+    correlationId: parent.correlationId,
+    childSagaName: sagaName,
+    childSagaId: state.metadata.sagaId,
+    childCorrelationId: correlationId,
+  };
+
+  const message: SagaChildCompleted | SagaChildCompensated =
+    state.metadata.status === "compensated"
+      ? {
+          type: SAGA_CHILD_COMPENSATED_MESSAGE_TYPE,
+          ...fields,
+          reason: state.metadata.compensationReason ?? null,
+        }
+      : { type: SAGA_CHILD_COMPLETED_MESSAGE_TYPE, ...fields };
+
+  return {
+    message,
+    options: {
+      endpoint: defaultEndpoint ?? message.type,
+      key: parent.correlationId,
+      headers: { [RETRY_HEADERS.TARGET_SAGA]: parent.sagaName },
+    },
+  };
+}
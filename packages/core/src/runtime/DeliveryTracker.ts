@@ -0,0 +1,103 @@
+import type { BusDrainStats } from "../types/index.js";
+import { BusStoppingError } from "../errors/index.js";
+
+/**
+ * Default time the bus waits for in-flight messages when stopping.
+ */
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30000;
+
+/**
+ * Tracks messages the bus is processing so it can drain them on stop.
+ *
+ * While draining, new deliveries are refused with `BusStoppingError`.
+ * Deliveries still running when the timeout expires are rejected with
+ * `BusStoppingError` too, so the transport hands them back; their handlers
+ * keep running in the background and a redelivered copy may race them,
+ * which optimistic concurrency on the saga store resolves.
+ */
+export class DeliveryTracker {
+  private readonly inFlight = new Set<Promise<void>>();
+  private accepting = false;
+  private refused = 0;
+  private abandoned = new Promise<never>(() => {});
+  private abandon: (error: Error) => void = () => {};
+
+  /**
+   * Start accepting deliveries.
+   */
+  open(): void {
+    this.accepting = true;
+    this.refused = 0;
+    this.abandoned = new Promise<never>((_, reject) => {
+      this.abandon = reject;
+    });
+    // Only observed by deliveries racing it
+    this.abandoned.catch(() => undefined);
+  }
+
+  /**
+   * Refuse deliveries from now on.
+   */
+  close(): void {
+    this.accepting = false;
+  }
+
+  /**
+   * Run a delivery, or refuse it if the bus is stopping.
+   * @throws BusStoppingError if refused or handed back at the timeout
+   */
+  async run(delivery: () => Promise<void>): Promise<void> {
+    if (!this.accepting) {
+      this.refused++;
+      throw new BusStoppingError("Bus is stopping; message handed back");
+    }
+
+    const running = delivery();
+    this.inFlight.add(running);
+    running
+      .finally(() => this.inFlight.delete(running))
+      .catch(() => undefined);
+
+    await Promise.race([running, this.abandoned]);
+  }
+
+  /**
+   * Stop accepting deliveries and wait for in-flight ones, handing back
+   * whatever is still running after `timeoutMs`.
+   */
+  async drain(timeoutMs: number): Promise<BusDrainStats> {
+    this.close();
+    const startedAt = Date.now();
+    const pending = Array.from(this.inFlight);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut =
+      pending.length > 0 &&
+      (await Promise.race([
+        Promise.allSettled(pending).then(() => false),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(true), timeoutMs);
+        }),
+      ]));
+    clearTimeout(timer);
+
+    const handedBack = timedOut ? this.inFlight.size : 0;
+    if (timedOut) {
+      this.abandon(
+        new BusStoppingError(
+          `Bus stopped before the message finished (shutdown timeout ${timeoutMs}ms); message handed back`
+        )
+      );
+      this.inFlight.clear();
+    }
+
+    return {
+      inFlight: pending.length,
+      completed: pending.length - handedBack,
+      handedBack,
+      refused: this.refused,
+      timedOut,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
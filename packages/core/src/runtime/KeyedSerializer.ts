@@ -0,0 +1,39 @@
+/**
+ * Runs tasks one at a time per key, in the order they were submitted,
+ * while tasks for different keys run concurrently.
+ *
+ * The bus keys tasks by saga name and correlation ID, so messages for the
+ * same saga instance never race each other inside one worker.
+ */
+export class KeyedSerializer {
+  private readonly tails = new Map<string, Promise<void>>();
+
+  /**
+   * Run `task` once every task submitted earlier for `key` has settled.
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(task);
+
+    // A failed task must not block the ones queued behind it
+    const tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.tails.set(key, tail);
+    void tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Number of keys with queued or running tasks.
+   */
+  get activeKeys(): number {
+    return this.tails.size;
+  }
+}
@@ -0,0 +1,111 @@
+import type { MessageEnvelope, Serializer } from "../types/index.js";
+import { JsonSerializer, TypedJsonSerializer } from "./serializers.js";
+
+/**
+ * Header (or message attribute/property, depending on the transport)
+ * carrying the content type of a message body.
+ */
+export const CONTENT_TYPE_HEADER = "content-type";
+
+/**
+ * Serializer options shared by all transports.
+ */
+export interface MessageCodecOptions {
+  /**
+   * Serializer for published messages.
+   * @default TypedJsonSerializer
+   */
+  serializer?: Serializer;
+
+  /**
+   * Additional serializers for consuming messages published with other
+   * content types. JSON and typed JSON are always understood.
+   */
+  serializers?: ReadonlyArray<Serializer>;
+}
+
+/**
+ * Picks the serializer for each message a transport sends or receives.
+ *
+ * Messages are published with the configured serializer and received with
+ * whichever known serializer matches their content type. Messages without
+ * a content type are assumed to use the configured serializer.
+ */
+export class MessageCodec {
+  readonly serializer: Serializer;
+  private readonly serializers = new Map<string, Serializer>();
+
+  constructor(options: MessageCodecOptions = {}) {
+    this.serializer = options.serializer ?? new TypedJsonSerializer();
+
+    const known = [
+      new JsonSerializer(),
+      new TypedJsonSerializer(),
+      ...(options.serializers ?? []),
+      this.serializer,
+    ];
+    for (const serializer of known) {
+      this.serializers.set(
+        normalizeContentType(serializer.contentType),
+        serializer
+      );
+    }
+  }
+
+  /**
+   * Content type to send with published messages.
+   */
+  get contentType(): string {
+    return this.serializer.contentType;
+  }
+
+  encode(envelope: MessageEnvelope): Buffer {
+    return this.serializer.serialize(envelope);
+  }
+
+  /**
+   * Encode for transports that only carry strings. Binary output is
+   * base64-encoded.
+   */
+  encodeText(envelope: MessageEnvelope): string {
+    return this.encode(envelope).toString(
+      this.serializer.binary ? "base64" : "utf8"
+    );
+  }
+
+  /**
+   * @throws If no serializer is registered for the content type
+   */
+  decode(data: Buffer, contentType?: string | null): MessageEnvelope {
+    return this.resolve(contentType).deserialize(data);
+  }
+
+  /**
+   * Decode a message encoded with `encodeText()`.
+   * @throws If no serializer is registered for the content type
+   */
+  decodeText(data: string, contentType?: string | null): MessageEnvelope {
+    const serializer = this.resolve(contentType);
+    return serializer.deserialize(
+      Buffer.from(data, serializer.binary ? "base64" : "utf8")
+    );
+  }
+
+  private resolve(contentType: string | null | undefined): Serializer {
+    if (!contentType) {
+      return this.serializer;
+    }
+
+    const serializer = this.serializers.get(normalizeContentType(contentType));
+    if (!serializer) {
+      throw new Error(
+        `No serializer registered for content type "${contentType}"`
+      );
+    }
+    return serializer;
+  }
+}
+
+function normalizeContentType(contentType: string): string {
+  return (contentType.split(";")[0] ?? "").trim().toLowerCase();
+}
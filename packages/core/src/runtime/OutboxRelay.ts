@@ -0,0 +1,211 @@
+import type {
+  Transport,
+  Logger,
+  SagaState,
+  SagaStore,
+  SagaOutboxStore,
+  OutboxMessage,
+} from "../types/index.js";
+
+/**
+ * Header carrying the outbox entry ID, so consumers can deduplicate
+ * the (rare) re-send after a relay crash.
+ */
+export const OUTBOX_MESSAGE_ID_HEADER = "x-saga-outbox-id";
+
+/**
+ * Default outbox relay settings.
+ */
+export const DEFAULT_OUTBOX_POLL_INTERVAL_MS = 1000;
+export const DEFAULT_OUTBOX_BATCH_SIZE = 100;
+export const DEFAULT_OUTBOX_LOCK_DURATION_MS = 30000;
+
+/**
+ * Check whether a store supports the transactional outbox.
+ */
+export function isOutboxStore<TState extends SagaState>(
+  store: SagaStore<TState>
+): store is SagaOutboxStore<TState> {
+  const candidate = store as Partial<SagaOutboxStore<TState>>;
+  return (
+    typeof candidate.insertWithOutbox === "function" &&
+    typeof candidate.updateWithOutbox === "function" &&
+    typeof candidate.claimOutboxMessages === "function" &&
+    typeof candidate.markOutboxMessageDispatched === "function" &&
+    typeof candidate.markOutboxMessageFailed === "function"
+  );
+}
+
+export interface OutboxRelayOptions {
+  /** Stores to drain (duplicates are ignored) */
+  stores: ReadonlyArray<SagaOutboxStore<SagaState>>;
+  transport: Transport;
+  logger: Logger;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  lockDurationMs?: number;
+}
+
+/**
+ * Background relay that publishes outbox messages to the transport.
+ *
+ * A message is marked dispatched only after the transport publish
+ * succeeds; failures are recorded and retried on a later poll.
+ */
+export class OutboxRelay {
+  private readonly stores: SagaOutboxStore<SagaState>[];
+  private readonly transport: Transport;
+  private readonly logger: Logger;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly lockDurationMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<number> | null = null;
+  private rerun = false;
+
+  constructor(options: OutboxRelayOptions) {
+    this.stores = Array.from(new Set(options.stores));
+    this.transport = options.transport;
+    this.logger = options.logger;
+    this.pollIntervalMs =
+      options.pollIntervalMs ?? DEFAULT_OUTBOX_POLL_INTERVAL_MS;
+    this.batchSize = options.batchSize ?? DEFAULT_OUTBOX_BATCH_SIZE;
+    this.lockDurationMs =
+      options.lockDurationMs ?? DEFAULT_OUTBOX_LOCK_DURATION_MS;
+  }
+
+  /**
+   * Start polling for pending messages.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.notify(), this.pollIntervalMs);
+    this.notify();
+  }
+
+  /**
+   * Stop polling and wait for the current dispatch run to finish.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.rerun = false;
+
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Request a dispatch run now (e.g. right after a handler committed
+   * new outbox messages). Coalesces with a run already in progress.
+   */
+  notify(): void {
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+
+    void this.dispatchPending().catch((error) => {
+      this.logger.error("Outbox relay run failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Claim and publish pending messages from every store.
+   * @returns Number of messages dispatched
+   */
+  async dispatchPending(): Promise<number> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = (async () => {
+      let dispatched = 0;
+      do {
+        this.rerun = false;
+        for (const store of this.stores) {
+          dispatched += await this.dispatchFromStore(store);
+        }
+      } while (this.rerun && this.timer);
+      return dispatched;
+    })();
+
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async dispatchFromStore(
+    store: SagaOutboxStore<SagaState>
+  ): Promise<number> {
+    const messages = await store.claimOutboxMessages(
+      this.batchSize,
+      this.lockDurationMs
+    );
+
+    let dispatched = 0;
+    for (const entry of messages) {
+      if (await this.dispatch(store, entry)) {
+        dispatched++;
+      }
+    }
+    return dispatched;
+  }
+
+  private async dispatch(
+    store: SagaOutboxStore<SagaState>,
+    entry: OutboxMessage
+  ): Promise<boolean> {
+    const { delayMs, headers, ...options } = entry.options;
+
+    // Scheduled messages keep their original due time
+    const remainingDelay = delayMs
+      ? entry.createdAt.getTime() + delayMs - Date.now()
+      : 0;
+
+    try {
+      await this.transport.publish(entry.message, {
+        ...options,
+        headers: { ...headers, [OUTBOX_MESSAGE_ID_HEADER]: entry.id },
+        delayMs: remainingDelay > 0 ? remainingDelay : undefined,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      this.logger.warn("Outbox dispatch failed, will retry", {
+        outboxId: entry.id,
+        sagaName: entry.sagaName,
+        sagaId: entry.sagaId,
+        messageType: entry.message.type,
+        attempts: entry.attempts + 1,
+        error: errorMessage,
+      });
+
+      await store.markOutboxMessageFailed(entry.id, errorMessage);
+      return false;
+    }
+
+    await store.markOutboxMessageDispatched(entry.id);
+
+    this.logger.debug("Outbox message dispatched", {
+      outboxId: entry.id,
+      sagaName: entry.sagaName,
+      sagaId: entry.sagaId,
+      messageType: entry.message.type,
+      endpoint: entry.options.endpoint,
+    });
+
+    return true;
+  }
+}
@@ -0,0 +1,289 @@
+import { randomUUID } from "node:crypto";
+import type {
+  BaseMessage,
+  Logger,
+  MessageEnvelope,
+  RequestOptions,
+  SagaReplyAddress,
+  SagaState,
+  SagaStore,
+  Transport,
+} from "../types/index.js";
+import { RequestTimeoutError } from "../errors/index.js";
+import { generateMessageId } from "./utils.js";
+
+/**
+ * Header naming the endpoint a reply should be sent to.
+ */
+export const REPLY_TO_HEADER = "x-saga-reply-to";
+
+/**
+ * Header matching a reply to its request.
+ */
+export const REPLY_CORRELATION_HEADER = "x-saga-reply-correlation-id";
+
+/**
+ * Default request/response settings.
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+export const DEFAULT_SAGA_WAIT_POLL_INTERVAL_MS = 500;
+
+/**
+ * Read the reply address a requester attached to an envelope.
+ */
+export function getReplyAddress(
+  envelope: MessageEnvelope
+): SagaReplyAddress | null {
+  const endpoint = envelope.headers[REPLY_TO_HEADER];
+  const correlationId = envelope.headers[REPLY_CORRELATION_HEADER];
+
+  if (!endpoint || !correlationId) {
+    return null;
+  }
+
+  return { endpoint, correlationId };
+}
+
+export interface ReplyRouterOptions {
+  transport: Transport;
+  logger: Logger;
+  /** Endpoint replies are received on (default: "saga-bus.replies.<random id>") */
+  replyEndpoint?: string;
+  /** Timeout for requests that don't set one in milliseconds (default: 30000) */
+  defaultTimeoutMs?: number;
+}
+
+interface PendingRequest {
+  replyType?: string;
+  resolve: (message: BaseMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Sends requests with reply headers and routes replies arriving on this
+ * instance's reply endpoint back to the waiting caller.
+ */
+export class ReplyRouter {
+  readonly replyEndpoint: string;
+
+  private readonly transport: Transport;
+  private readonly logger: Logger;
+  private readonly defaultTimeoutMs: number;
+  private readonly pending = new Map<string, PendingRequest>();
+  private subscription: Promise<void> | null = null;
+
+  constructor(options: ReplyRouterOptions) {
+    this.transport = options.transport;
+    this.logger = options.logger;
+    this.replyEndpoint =
+      options.replyEndpoint ?? `saga-bus.replies.${randomUUID()}`;
+    this.defaultTimeoutMs =
+      options.defaultTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  /**
+   * Publish a request and resolve with the first matching reply.
+   */
+  async request<TReply extends BaseMessage>(
+    message: BaseMessage,
+    options: RequestOptions = {}
+  ): Promise<TReply> {
+    // Subscribe lazily so buses that never send requests create no endpoint.
+    // Kept across restarts, since transports keep their subscriptions
+    this.subscription ??= this.transport
+      .subscribe({ endpoint: this.replyEndpoint }, async (envelope) =>
+        this.handleReply(envelope)
+      )
+      .catch((error: unknown) => {
+        // Let the next request try again
+        this.subscription = null;
+        throw error;
+      });
+    await this.subscription;
+
+    const { replyType, timeoutMs = this.defaultTimeoutMs, ...publishOptions } =
+      options;
+    const correlationId = generateMessageId();
+
+    // Register before publishing: in-process transports may reply right away
+    const reply = new Promise<BaseMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(correlationId);
+        reject(
+          new RequestTimeoutError(`a reply to ${message.type}`, timeoutMs)
+        );
+      }, timeoutMs);
+
+      this.pending.set(correlationId, { replyType, resolve, reject, timer });
+    });
+
+    try {
+      await this.transport.publish(message, {
+        ...publishOptions,
+        endpoint: publishOptions.endpoint ?? message.type,
+        headers: {
+          ...publishOptions.headers,
+          [REPLY_TO_HEADER]: this.replyEndpoint,
+          [REPLY_CORRELATION_HEADER]: correlationId,
+        },
+      });
+    } catch (error) {
+      this.settle(correlationId);
+      throw error;
+    }
+
+    return (await reply) as TReply;
+  }
+
+  /**
+   * Reject all pending requests (called when the bus stops).
+   */
+  cancelAll(error: Error): void {
+    for (const [correlationId, request] of this.pending) {
+      this.settle(correlationId);
+      request.reject(error);
+    }
+  }
+
+  private handleReply(envelope: MessageEnvelope): void {
+    const correlationId = envelope.headers[REPLY_CORRELATION_HEADER];
+    const request = correlationId ? this.pending.get(correlationId) : undefined;
+
+    if (!correlationId || !request) {
+      this.logger.debug("Ignoring reply without a pending request", {
+        messageType: envelope.type,
+        messageId: envelope.id,
+      });
+      return;
+    }
+
+    if (request.replyType && envelope.type !== request.replyType) {
+      this.logger.debug("Ignoring reply of unexpected type", {
+        messageType: envelope.type,
+        expectedType: request.replyType,
+      });
+      return;
+    }
+
+    this.settle(correlationId);
+    request.resolve(envelope.payload);
+  }
+
+  private settle(correlationId: string): void {
+    const request = this.pending.get(correlationId);
+    if (request) {
+      clearTimeout(request.timer);
+      this.pending.delete(correlationId);
+    }
+  }
+}
+
+interface SagaWaiter {
+  sagaName: string;
+  correlationId: string;
+  check: (state: SagaState) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Tracks bus.waitForSaga() calls. Sagas handled by this instance are
+ * checked as soon as they are persisted; the store is also polled so
+ * changes made by other instances are seen.
+ */
+export class SagaWaiters {
+  private readonly pollIntervalMs: number;
+  private readonly waiters = new Set<SagaWaiter>();
+
+  constructor(pollIntervalMs = DEFAULT_SAGA_WAIT_POLL_INTERVAL_MS) {
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  wait<TState extends SagaState>(
+    store: SagaStore<TState>,
+    sagaName: string,
+    correlationId: string,
+    predicate: (state: TState) => boolean,
+    timeoutMs: number
+  ): Promise<TState> {
+    return new Promise<TState>((resolve, reject) => {
+      let settled = false;
+
+      const finish = (result: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        clearInterval(poller);
+        this.waiters.delete(waiter);
+        result();
+      };
+
+      const check = (state: TState | null) => {
+        if (settled || !state) return;
+
+        let matches: boolean;
+        try {
+          matches = predicate(state);
+        } catch (error) {
+          finish(() => reject(error));
+          return;
+        }
+
+        if (matches) {
+          finish(() => resolve(state));
+        }
+      };
+
+      const load = () => {
+        store.getByCorrelationId(sagaName, correlationId).then(check, (error) =>
+          finish(() => reject(error))
+        );
+      };
+
+      const waiter: SagaWaiter = {
+        sagaName,
+        correlationId,
+        check: (state) => check(state as TState),
+        reject: (error) => finish(() => reject(error)),
+      };
+
+      const timer = setTimeout(() => {
+        finish(() =>
+          reject(
+            new RequestTimeoutError(
+              `saga ${sagaName} (${correlationId})`,
+              timeoutMs
+            )
+          )
+        );
+      }, timeoutMs);
+      const poller = setInterval(load, this.pollIntervalMs);
+
+      this.waiters.add(waiter);
+      load();
+    });
+  }
+
+  /**
+   * Check waiters against a state that was just persisted.
+   */
+  notify(sagaName: string, correlationId: string, state: SagaState): void {
+    for (const waiter of this.waiters) {
+      if (
+        waiter.sagaName === sagaName &&
+        waiter.correlationId === correlationId
+      ) {
+        waiter.check(state);
+      }
+    }
+  }
+
+  /**
+   * Reject all pending waits (called when the bus stops).
+   */
+  cancelAll(error: Error): void {
+    for (const waiter of this.waiters) {
+      waiter.reject(error);
+    }
+  }
+}
@@ -3,7 +3,12 @@ import type {
   MessageEnvelope,
   Transport,
   Logger,
+  Metrics,
+  MessageFailureEventBase,
 } from "../types/index.js";
+import { SAGA_BUS_METRICS } from "./instrumentation.js";
+import type { SagaEventEmitter } from "./SagaEventEmitter.js";
+import { SagaProcessingError } from "../errors/index.js";
 
 /**
  * Header names for retry tracking.
@@ -14,6 +19,8 @@ export const RETRY_HEADERS = {
   ORIGINAL_ENDPOINT: "x-saga-original-endpoint",
   ERROR_MESSAGE: "x-saga-error-message",
   ERROR_TYPE: "x-saga-error-type",
+  /** Saga a retried or dead-lettered message is meant for; other sagas skip it */
+  TARGET_SAGA: "x-saga-target-saga",
 } as const;
 
 /**
@@ -33,6 +40,20 @@ export function defaultDlqNaming(endpoint: string): string {
   return `${endpoint}.dlq`;
 }
 
+/**
+ * Default consumer group naming for per-saga subscriptions.
+ */
+export function defaultGroupNaming(sagaName: string, endpoint: string): string {
+  return `${endpoint}.${sagaName}`;
+}
+
+/**
+ * Get the saga a message is restricted to, if any.
+ */
+export function getTargetSaga(envelope: MessageEnvelope): string | undefined {
+  return envelope.headers[RETRY_HEADERS.TARGET_SAGA];
+}
+
 /**
  * Calculate delay based on retry policy and attempt number.
  */
@@ -76,9 +97,33 @@ export function getFirstSeen(envelope: MessageEnvelope): Date {
   return envelope.timestamp;
 }
 
+/**
+ * Build the common fields of retry and dead-letter events.
+ */
+function failureEventBase(
+  envelope: MessageEnvelope,
+  endpoint: string,
+  error: unknown,
+  targetSaga: string | undefined
+): Omit<MessageFailureEventBase, "attempt"> {
+  const context = SagaProcessingError.extractContext(error);
+  return {
+    messageType: envelope.type,
+    messageId: envelope.id,
+    endpoint,
+    sagaName: targetSaga ?? context?.sagaName,
+    sagaId: context?.sagaId,
+    correlationId: context?.correlationId,
+    error: error instanceof SagaProcessingError ? error.cause : error,
+  };
+}
+
 export interface RetryHandlerOptions {
   transport: Transport;
   logger: Logger;
+  metrics?: Metrics;
+  /** Receives retry and dead-letter events for `bus.on()` */
+  events?: SagaEventEmitter;
   defaultPolicy: WorkerRetryPolicy;
   dlqNaming: (endpoint: string) => string;
 }
@@ -89,12 +134,16 @@ export interface RetryHandlerOptions {
 export class RetryHandler {
   private readonly transport: Transport;
   private readonly logger: Logger;
+  private readonly metrics?: Metrics;
+  private readonly events?: SagaEventEmitter;
   private readonly defaultPolicy: WorkerRetryPolicy;
   private readonly dlqNaming: (endpoint: string) => string;
 
   constructor(options: RetryHandlerOptions) {
     this.transport = options.transport;
     this.logger = options.logger;
+    this.metrics = options.metrics;
+    this.events = options.events;
     this.defaultPolicy = options.defaultPolicy;
     this.dlqNaming = options.dlqNaming;
   }
@@ -102,13 +151,15 @@ export class RetryHandler {
   /**
    * Handle a failed message - either retry or send to DLQ.
    *
+   * @param targetSaga - Saga that failed; the retry is skipped by all other sagas
    * @returns true if message was retried, false if sent to DLQ
    */
   async handleFailure(
     envelope: MessageEnvelope,
     endpoint: string,
     error: unknown,
-    policy: WorkerRetryPolicy = this.defaultPolicy
+    policy: WorkerRetryPolicy = this.defaultPolicy,
+    targetSaga?: string
   ): Promise<boolean> {
     const attempt = getAttemptCount(envelope);
     const firstSeen = getFirstSeen(envelope);
@@ -133,6 +184,7 @@ export class RetryHandler {
         [RETRY_HEADERS.ATTEMPT]: String(nextAttempt),
         [RETRY_HEADERS.FIRST_SEEN]: firstSeen.toISOString(),
         [RETRY_HEADERS.ORIGINAL_ENDPOINT]: envelope.headers[RETRY_HEADERS.ORIGINAL_ENDPOINT] ?? endpoint,
+        ...(targetSaga ? { [RETRY_HEADERS.TARGET_SAGA]: targetSaga } : {}),
       };
 
       await this.transport.publish(envelope.payload, {
@@ -142,21 +194,35 @@ export class RetryHandler {
         key: envelope.partitionKey,
       });
 
+      this.metrics?.increment(SAGA_BUS_METRICS.RETRIES, 1, {
+        message_type: envelope.type,
+        ...(targetSaga ? { saga_name: targetSaga } : {}),
+      });
+      this.events?.emit("messageRetried", {
+        ...failureEventBase(envelope, endpoint, error, targetSaga),
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs: delay,
+      });
+
       return true;
     }
 
     // Max attempts exceeded - send to DLQ
-    await this.sendToDlq(envelope, endpoint, error);
+    await this.sendToDlq(envelope, endpoint, error, targetSaga);
     return false;
   }
 
   /**
    * Send a message to the dead-letter queue.
+   *
+   * @param targetSaga - Saga that gave up; replaying the message only runs that saga
    */
   async sendToDlq(
     envelope: MessageEnvelope,
     originalEndpoint: string,
-    error: unknown
+    error: unknown,
+    targetSaga?: string
   ): Promise<void> {
     const dlqEndpoint = this.dlqNaming(originalEndpoint);
     const attempt = getAttemptCount(envelope);
@@ -182,6 +248,7 @@ export class RetryHandler {
       [RETRY_HEADERS.ORIGINAL_ENDPOINT]: envelope.headers[RETRY_HEADERS.ORIGINAL_ENDPOINT] ?? originalEndpoint,
       [RETRY_HEADERS.ERROR_MESSAGE]: errorMessage,
       [RETRY_HEADERS.ERROR_TYPE]: errorType,
+      ...(targetSaga ? { [RETRY_HEADERS.TARGET_SAGA]: targetSaga } : {}),
     };
 
     await this.transport.publish(envelope.payload, {
@@ -189,5 +256,16 @@ export class RetryHandler {
       headers: dlqHeaders,
       key: envelope.partitionKey,
     });
+
+    this.metrics?.increment(SAGA_BUS_METRICS.DLQ_SENDS, 1, {
+      message_type: envelope.type,
+      error_type: errorType,
+      ...(targetSaga ? { saga_name: targetSaga } : {}),
+    });
+    this.events?.emit("messageDeadLettered", {
+      ...failureEventBase(envelope, originalEndpoint, error, targetSaga),
+      attempt,
+      dlqEndpoint,
+    });
   }
 }
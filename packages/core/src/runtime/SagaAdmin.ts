@@ -0,0 +1,353 @@
+import type {
+  Bus,
+  RegisteredSaga,
+  SagaQuery,
+  SagaQueryResult,
+  SagaState,
+  SagaTimeoutExpired,
+} from "../types/index.js";
+import { SAGA_TIMEOUT_MESSAGE_TYPE } from "../types/index.js";
+import {
+  SagaNotFoundError,
+  UnsupportedOperationError,
+  ValidationError,
+} from "../errors/index.js";
+import { createChildFinishedMessage } from "./ChildSagas.js";
+import { isQueryableStore } from "./sagaQuery.js";
+import { now } from "./utils.js";
+
+/**
+ * Lifecycle status of a saga instance.
+ */
+export type SagaInstanceStatus = "running" | "completed" | "compensated";
+
+/**
+ * Operations exposed by the admin API, passed to authorization hooks.
+ */
+export type SagaAdminAction =
+  | "listSagas"
+  | "listInstances"
+  | "getInstance"
+  | "completeInstance"
+  | "deleteInstance"
+  | "fireTimeout";
+
+/**
+ * A registered saga as shown by the admin API.
+ */
+export interface SagaSummary {
+  name: string;
+  handledMessageTypes: ReadonlyArray<string>;
+  /** Whether the saga's store supports listing instances */
+  queryable: boolean;
+}
+
+/**
+ * Query for listing instances of one saga.
+ */
+export interface SagaInstanceQuery extends Omit<SagaQuery, "completed"> {
+  status?: SagaInstanceStatus;
+}
+
+interface FoundInstance {
+  saga: RegisteredSaga;
+  state: SagaState;
+  /** Known when the instance was looked up by correlation ID */
+  correlationId: string | null;
+}
+
+const INSTANCE_STATUSES: ReadonlyArray<SagaInstanceStatus> = [
+  "running",
+  "completed",
+  "compensated",
+];
+
+/**
+ * Get the lifecycle status of a saga instance.
+ */
+export function getSagaInstanceStatus(state: SagaState): SagaInstanceStatus {
+  if (!state.metadata.isCompleted) {
+    return "running";
+  }
+  return state.metadata.status === "compensated" ? "compensated" : "completed";
+}
+
+/**
+ * Parse instance query parameters from an HTTP query string.
+ * @throws ValidationError for unknown values
+ */
+export function parseSagaInstanceQuery(
+  params: Record<string, unknown>
+): SagaInstanceQuery {
+  const query: SagaInstanceQuery = {};
+  const { status, limit, cursor, sortBy, sortOrder, parentSagaId } = params;
+
+  if (status !== undefined) {
+    if (!INSTANCE_STATUSES.includes(status as SagaInstanceStatus)) {
+      throw new ValidationError(
+        `status must be one of ${INSTANCE_STATUSES.join(", ")}`,
+        "status",
+        status
+      );
+    }
+    query.status = status as SagaInstanceStatus;
+  }
+
+  if (limit !== undefined) {
+    query.limit = Number(limit);
+  }
+
+  if (typeof cursor === "string" && cursor) {
+    query.cursor = cursor;
+  }
+
+  if (sortBy !== undefined) {
+    if (sortBy !== "createdAt" && sortBy !== "updatedAt") {
+      throw new ValidationError(
+        "sortBy must be createdAt or updatedAt",
+        "sortBy",
+        sortBy
+      );
+    }
+    query.sortBy = sortBy;
+  }
+
+  if (sortOrder !== undefined) {
+    if (sortOrder !== "asc" && sortOrder !== "desc") {
+      throw new ValidationError("sortOrder must be asc or desc", "sortOrder", sortOrder);
+    }
+    query.sortOrder = sortOrder;
+  }
+
+  if (typeof parentSagaId === "string" && parentSagaId) {
+    query.parentSagaId = parentSagaId;
+  }
+
+  return query;
+}
+
+/**
+ * Inspects and repairs saga instances of the sagas registered with a bus.
+ * Backs the admin routers of the Express, Fastify and Hono adapters.
+ *
+ * Listing instances needs a store implementing `SagaQueryableStore`; all
+ * other operations work with any store.
+ *
+ * @example
+ * ```typescript
+ * const admin = new SagaAdmin(bus);
+ * const { items } = await admin.listInstances("OrderSaga", { status: "running" });
+ * await admin.completeInstance("OrderSaga", items[0]!.metadata.sagaId);
+ * ```
+ */
+export class SagaAdmin {
+  private readonly bus: Bus;
+
+  constructor(bus: Bus) {
+    this.bus = bus;
+  }
+
+  /**
+   * List the registered sagas and the message types they handle.
+   */
+  listSagas(): SagaSummary[] {
+    return this.bus.getSagas().map((saga) => ({
+      name: saga.name,
+      handledMessageTypes: saga.handledMessageTypes,
+      queryable: isQueryableStore(saga.store),
+    }));
+  }
+
+  /**
+   * List instances of a saga, one page at a time.
+   *
+   * Completed and compensated sagas are told apart after loading a page,
+   * so pages filtered by those statuses may hold fewer than `limit` items.
+   *
+   * @throws UnsupportedOperationError if the saga's store can't be queried
+   */
+  async listInstances(
+    sagaName: string,
+    query: SagaInstanceQuery = {}
+  ): Promise<SagaQueryResult<SagaState>> {
+    const { store } = this.getSaga(sagaName);
+    if (!isQueryableStore(store)) {
+      throw new UnsupportedOperationError(
+        `The store of ${sagaName} does not support listing saga instances`
+      );
+    }
+
+    const { status, ...rest } = query;
+    const result = await store.findSagas(sagaName, {
+      ...rest,
+      completed: status === undefined ? undefined : status !== "running",
+    });
+
+    if (status === "completed" || status === "compensated") {
+      return {
+        ...result,
+        items: result.items.filter(
+          (state) => getSagaInstanceStatus(state) === status
+        ),
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Get an instance by saga ID or correlation ID.
+   */
+  async getInstance(sagaName: string, id: string): Promise<SagaState> {
+    return (await this.findInstance(sagaName, id)).state;
+  }
+
+  /**
+   * Mark an instance as completed without running any handler. Its pending
+   * timeout is cleared and cancelled, further messages for it are ignored,
+   * and the parent of a child saga is told that it completed.
+   *
+   * @param id - Saga ID or correlation ID; child sagas need the correlation
+   *   ID, which the parent's notification carries
+   */
+  async completeInstance(sagaName: string, id: string): Promise<SagaState> {
+    const { saga, state, correlationId } = await this.findInstance(sagaName, id);
+    if (state.metadata.isCompleted) {
+      return state;
+    }
+
+    if (state.metadata.parent && correlationId === null) {
+      throw new ValidationError(
+        "Completing a child saga needs its correlation ID",
+        "id",
+        id
+      );
+    }
+
+    const completed: SagaState = {
+      ...state,
+      metadata: {
+        ...state.metadata,
+        version: state.metadata.version + 1,
+        updatedAt: now(),
+        isCompleted: true,
+        status: "completed",
+        timeoutMs: null,
+        timeoutExpiresAt: null,
+        timeoutToken: null,
+      },
+    };
+
+    await saga.store.update(sagaName, completed, state.metadata.version);
+
+    const childFinished =
+      correlationId === null
+        ? null
+        : createChildFinishedMessage(
+            sagaName,
+            correlationId,
+            completed,
+            saga.defaultEndpoint
+          );
+    if (childFinished) {
+      await this.bus.publish(childFinished.message, childFinished.options);
+    }
+
+    if (state.metadata.timeoutToken) {
+      await saga.cancelTimeout?.(
+        state.metadata.sagaId,
+        state.metadata.timeoutToken
+      );
+    }
+
+    return completed;
+  }
+
+  /**
+   * Delete an instance.
+   */
+  async deleteInstance(sagaName: string, id: string): Promise<void> {
+    const { saga, state } = await this.findInstance(sagaName, id);
+    await saga.store.delete(sagaName, state.metadata.sagaId);
+  }
+
+  /**
+   * Publish an instance's pending timeout now instead of waiting for it.
+   *
+   * The message carries the current timeout token. The originally scheduled
+   * message still arrives later and is dropped as stale if the timeout
+   * handler set, cleared or completed the saga.
+   *
+   * @param id - Correlation ID of the instance; timeout messages are
+   *   correlated by it, so it can't be derived from the saga ID
+   */
+  async fireTimeout(sagaName: string, id: string): Promise<SagaTimeoutExpired> {
+    const { saga, state, correlationId } = await this.findInstance(sagaName, id);
+    const { metadata } = state;
+
+    if (correlationId === null) {
+      throw new ValidationError(
+        "Firing a timeout needs the saga's correlation ID",
+        "id",
+        id
+      );
+    }
+
+    if (metadata.isCompleted || !metadata.timeoutToken) {
+      throw new ValidationError(
+        `Saga instance "${id}" of ${sagaName} has no pending timeout`,
+        "id",
+        id
+      );
+    }
+
+    const timeoutMs = metadata.timeoutMs ?? 0;
+    const expiresAt = metadata.timeoutExpiresAt
+      ? new Date(metadata.timeoutExpiresAt)
+      : now();
+
+    const message: SagaTimeoutExpired = {
+      type: SAGA_TIMEOUT_MESSAGE_TYPE,
+      sagaId: metadata.sagaId,
+      sagaName,
+      correlationId,
+      timeoutMs,
+      timeoutSetAt: new Date(expiresAt.getTime() - timeoutMs),
+      timeoutToken: metadata.timeoutToken,
+    };
+
+    await this.bus.publish(message, {
+      endpoint: saga.defaultEndpoint ?? SAGA_TIMEOUT_MESSAGE_TYPE,
+      key: correlationId,
+    });
+
+    return message;
+  }
+
+  private getSaga(sagaName: string): RegisteredSaga {
+    const saga = this.bus.getSagas().find((s) => s.name === sagaName);
+    if (!saga) {
+      throw new SagaNotFoundError(sagaName);
+    }
+    return saga;
+  }
+
+  private async findInstance(
+    sagaName: string,
+    id: string
+  ): Promise<FoundInstance> {
+    const saga = this.getSaga(sagaName);
+
+    const byCorrelation = await saga.store.getByCorrelationId(sagaName, id);
+    if (byCorrelation) {
+      return { saga, state: byCorrelation, correlationId: id };
+    }
+
+    const byId = await saga.store.getById(sagaName, id);
+    if (byId) {
+      return { saga, state: byId, correlationId: null };
+    }
+
+    throw new SagaNotFoundError(sagaName, id);
+  }
+}
@@ -5,8 +5,15 @@ import type {
   Transport,
   TransportPublishOptions,
   SagaStateMetadata,
+  SagaReplyAddress,
   TimeoutBounds,
+  Tracer,
+  SagaPipelineContext,
 } from "../types/index.js";
+import { REPLY_CORRELATION_HEADER } from "./RequestReply.js";
+import { createChildSagaHeaders } from "./ChildSagas.js";
+import { SAGA_BUS_SPANS } from "./instrumentation.js";
+import { publishBatch } from "./publishBatch.js";
 
 /** Default timeout bounds */
 export const DEFAULT_TIMEOUT_BOUNDS: Required<TimeoutBounds> = {
@@ -25,6 +32,20 @@ export interface SagaContextImplOptions {
   currentMetadata?: SagaStateMetadata;
   /** Timeout bounds to validate against */
   timeoutBounds?: TimeoutBounds;
+  /** Buffer publish()/schedule() instead of sending immediately (outbox mode) */
+  outbox?: boolean;
+  /** Where reply() sends messages */
+  replyTo?: SagaReplyAddress | null;
+  /** Trace flushed publishes in a span of this pipeline context */
+  tracing?: { tracer: Tracer; ctx: SagaPipelineContext };
+}
+
+/**
+ * A message buffered by the context while the outbox is enabled.
+ */
+export interface BufferedMessage {
+  message: BaseMessage;
+  options: TransportPublishOptions;
 }
 
 /**
@@ -49,7 +70,13 @@ export class SagaContextImpl implements SagaContext {
   private readonly transport: Transport;
   private readonly defaultEndpoint?: string;
   private readonly timeoutBounds: Required<TimeoutBounds>;
+  private readonly outbox: boolean;
+  private readonly replyTo: SagaReplyAddress | null;
+  private readonly tracing?: SagaContextImplOptions["tracing"];
+  private readonly _bufferedMessages: BufferedMessage[] = [];
+  private _pendingPublishes: BufferedMessage[] = [];
   private _isCompleted = false;
+  private _compensationReason?: string;
   private _currentMetadata?: SagaStateMetadata;
   private _pendingTimeoutChange?: PendingTimeoutChange;
 
@@ -61,6 +88,9 @@ export class SagaContextImpl implements SagaContext {
     this.transport = options.transport;
     this.defaultEndpoint = options.defaultEndpoint;
     this._currentMetadata = options.currentMetadata;
+    this.outbox = options.outbox ?? false;
+    this.replyTo = options.replyTo ?? null;
+    this.tracing = options.tracing;
     this.timeoutBounds = {
       minMs: options.timeoutBounds?.minMs ?? DEFAULT_TIMEOUT_BOUNDS.minMs,
       maxMs: options.timeoutBounds?.maxMs ?? DEFAULT_TIMEOUT_BOUNDS.maxMs,
@@ -73,7 +103,7 @@ export class SagaContextImpl implements SagaContext {
   ): Promise<void> {
     const endpoint = options?.endpoint ?? this.defaultEndpoint ?? message.type;
 
-    await this.transport.publish(message, {
+    await this.send(message, {
       endpoint,
       ...options,
     });
@@ -86,17 +116,101 @@ export class SagaContextImpl implements SagaContext {
   ): Promise<void> {
     const endpoint = options?.endpoint ?? this.defaultEndpoint ?? message.type;
 
-    await this.transport.publish(message, {
+    await this.send(message, {
       endpoint,
       delayMs,
       ...options,
     });
   }
 
+  async reply<TMessage extends BaseMessage>(
+    message: TMessage,
+    options?: Partial<Omit<TransportPublishOptions, "endpoint">>
+  ): Promise<void> {
+    if (!this.replyTo) {
+      throw new Error(
+        `Saga ${this.sagaName} (${this.sagaId}) has no reply address; reply() answers messages sent with bus.request()`
+      );
+    }
+
+    await this.send(message, {
+      ...options,
+      endpoint: this.replyTo.endpoint,
+      headers: {
+        ...options?.headers,
+        [REPLY_CORRELATION_HEADER]: this.replyTo.correlationId,
+      },
+    });
+  }
+
+  async startChildSaga<TMessage extends BaseMessage>(
+    sagaName: string,
+    message: TMessage,
+    options?: Partial<TransportPublishOptions>
+  ): Promise<void> {
+    const endpoint = options?.endpoint ?? this.defaultEndpoint ?? message.type;
+
+    await this.send(message, {
+      endpoint,
+      ...options,
+      headers: {
+        ...options?.headers,
+        ...createChildSagaHeaders(sagaName, {
+          sagaName: this.sagaName,
+          sagaId: this.sagaId,
+          correlationId: this.correlationId,
+        }),
+      },
+    });
+  }
+
+  /**
+   * Buffer for the outbox when enabled, otherwise until `flush()`.
+   */
+  private async send(
+    message: BaseMessage,
+    options: TransportPublishOptions
+  ): Promise<void> {
+    if (this.outbox) {
+      this._bufferedMessages.push({ message, options });
+      return;
+    }
+
+    this._pendingPublishes.push({ message, options });
+  }
+
+  /**
+   * Publish the messages sent since the last flush as one batch.
+   * Called by SagaOrchestrator once the handler returned; messages of a
+   * handler that throws are never sent. No-op in outbox mode.
+   */
+  async flush(): Promise<void> {
+    const messages = this._pendingPublishes;
+    if (messages.length === 0) {
+      return;
+    }
+    this._pendingPublishes = [];
+
+    if (this.tracing) {
+      await this.tracing.tracer.withSpan(
+        SAGA_BUS_SPANS.PUBLISH,
+        this.tracing.ctx,
+        () => publishBatch(this.transport, messages)
+      );
+      return;
+    }
+
+    await publishBatch(this.transport, messages);
+  }
+
   complete(): void {
     this._isCompleted = true;
   }
 
+  compensate(reason: string): void {
+    this._compensationReason = reason;
+  }
+
   setMetadata(key: string, value: unknown): void {
     this.metadata[key] = value;
   }
@@ -112,6 +226,13 @@ export class SagaContextImpl implements SagaContext {
     return this._isCompleted;
   }
 
+  /**
+   * Reason passed to compensate(), or undefined if not requested.
+   */
+  get compensationReason(): string | undefined {
+    return this._compensationReason;
+  }
+
   setTimeout(delayMs: number): void {
     if (delayMs <= 0) {
       throw new Error("Timeout delay must be positive");
@@ -171,6 +292,14 @@ export class SagaContextImpl implements SagaContext {
     return this._pendingTimeoutChange;
   }
 
+  /**
+   * Get messages buffered by publish()/schedule() in outbox mode.
+   * Used by SagaOrchestrator when persisting state.
+   */
+  get bufferedMessages(): ReadonlyArray<BufferedMessage> {
+    return this._bufferedMessages;
+  }
+
   /**
    * Update the current metadata reference (called after state is loaded/created).
    */
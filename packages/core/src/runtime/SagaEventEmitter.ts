@@ -0,0 +1,77 @@
+import type {
+  Logger,
+  SagaBusEventListener,
+  SagaBusEventMap,
+  SagaBusEventName,
+} from "../types/index.js";
+
+type AnyListener = (event: never) => void | Promise<void>;
+
+/**
+ * Typed emitter behind `bus.on()`.
+ *
+ * Listeners are called in registration order without being awaited, so a
+ * slow listener never holds up message processing. Thrown errors and
+ * rejected promises are logged and otherwise ignored.
+ */
+export class SagaEventEmitter {
+  private readonly logger: Logger;
+  private readonly listeners = new Map<SagaBusEventName, Set<AnyListener>>();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Register a listener.
+   * @returns Function that removes the listener
+   */
+  on<K extends SagaBusEventName>(
+    event: K,
+    listener: SagaBusEventListener<K>
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener registered with `on()`.
+   */
+  off<K extends SagaBusEventName>(
+    event: K,
+    listener: SagaBusEventListener<K>
+  ): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends SagaBusEventName>(event: K, payload: SagaBusEventMap[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of listeners) {
+      try {
+        const result = (listener as SagaBusEventListener<K>)(payload);
+        if (result instanceof Promise) {
+          result.catch((error: unknown) => this.logListenerError(event, error));
+        }
+      } catch (error) {
+        this.logListenerError(event, error);
+      }
+    }
+  }
+
+  private logListenerError(event: SagaBusEventName, error: unknown): void {
+    this.logger.error("Bus event listener failed", {
+      event,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -7,15 +7,37 @@ import type {
   SagaPipelineContext,
   Transport,
   Logger,
+  Metrics,
+  Tracer,
   SagaTimeoutExpired,
   TimeoutBounds,
   CorrelationFailureHandler,
+  OutboxMessage,
+  SagaEventBase,
+  SagaHistoryEntry,
 } from "../types/index.js";
 import { SAGA_TIMEOUT_MESSAGE_TYPE } from "../types/index.js";
-import { ConcurrencyError, SagaProcessingError } from "../errors/index.js";
-import { SagaContextImpl } from "./SagaContextImpl.js";
+import {
+  ConcurrencyError,
+  SagaProcessingError,
+  UnhandledMessageError,
+} from "../errors/index.js";
+import { SagaContextImpl, type BufferedMessage } from "./SagaContextImpl.js";
 import { MiddlewarePipeline } from "./MiddlewarePipeline.js";
-import { generateSagaId, now } from "./utils.js";
+import { isOutboxStore } from "./OutboxRelay.js";
+import { isHistoryStore, getSagaHistoryOutcome } from "./sagaHistory.js";
+import { getReplyAddress } from "./RequestReply.js";
+import { createChildFinishedMessage, getParentReference } from "./ChildSagas.js";
+import { SAGA_BUS_METRICS, SAGA_BUS_SPANS, withSpan } from "./instrumentation.js";
+import { publishBatch } from "./publishBatch.js";
+import type { SagaEventEmitter } from "./SagaEventEmitter.js";
+import type { KeyedSerializer } from "./KeyedSerializer.js";
+import {
+  generateMessageId,
+  generateSagaId,
+  generateTimeoutToken,
+  now,
+} from "./utils.js";
 
 export interface SagaOrchestratorOptions<
   TState extends SagaState,
@@ -26,12 +48,32 @@ export interface SagaOrchestratorOptions<
   transport: Transport;
   pipeline: MiddlewarePipeline;
   logger: Logger;
+  metrics?: Metrics;
+  tracer?: Tracer;
+  /** Receives saga lifecycle events for `bus.on()` */
+  events?: SagaEventEmitter;
   /** Default endpoint for publishing messages (including timeout messages) */
   defaultEndpoint?: string;
   /** Timeout bounds to validate against */
   timeoutBounds?: TimeoutBounds;
   /** Handler for messages that fail correlation */
   onCorrelationFailure?: CorrelationFailureHandler;
+  /** Process messages for the same saga instance one at a time */
+  serializer?: KeyedSerializer;
+  /** Times to reload the state and re-run the handler after a ConcurrencyError (default: 0) */
+  concurrencyRetries?: number;
+  /** Buffer handler publishes and persist them with the state (outbox mode) */
+  outbox?: boolean;
+  /** Record transitions with stores implementing SagaHistoryStore */
+  history?: boolean;
+  /** Called after outbox messages were committed, to wake the relay */
+  onOutboxWritten?: () => void;
+  /** Called after a saga state was persisted (used by bus.waitForSaga) */
+  onSagaPersisted?: (
+    sagaName: string,
+    correlationId: string,
+    state: SagaState
+  ) => void;
 }
 
 /**
@@ -55,9 +97,22 @@ export class SagaOrchestrator<
   private readonly transport: Transport;
   private readonly pipeline: MiddlewarePipeline;
   private readonly logger: Logger;
-  private readonly defaultEndpoint?: string;
+  private readonly metrics?: Metrics;
+  private readonly tracer?: Tracer;
+  private readonly events?: SagaEventEmitter;
+  /** Endpoint for the saga's timeouts and child notifications, if not their type */
+  readonly defaultEndpoint?: string;
   private readonly timeoutBounds?: TimeoutBounds;
   private readonly onCorrelationFailure?: CorrelationFailureHandler;
+  private readonly serializer?: KeyedSerializer;
+  private readonly concurrencyRetries: number;
+  private readonly outbox: boolean;
+  private readonly history: boolean;
+  private readonly onOutboxWritten?: () => void;
+  private readonly onSagaPersisted?: SagaOrchestratorOptions<
+    TState,
+    TMessages
+  >["onSagaPersisted"];
 
   constructor(options: SagaOrchestratorOptions<TState, TMessages>) {
     this.definition = options.definition;
@@ -65,9 +120,18 @@ export class SagaOrchestrator<
     this.transport = options.transport;
     this.pipeline = options.pipeline;
     this.logger = options.logger;
+    this.metrics = options.metrics;
+    this.tracer = options.tracer;
+    this.events = options.events;
     this.defaultEndpoint = options.defaultEndpoint;
     this.timeoutBounds = options.timeoutBounds;
     this.onCorrelationFailure = options.onCorrelationFailure;
+    this.serializer = options.serializer;
+    this.concurrencyRetries = options.concurrencyRetries ?? 0;
+    this.outbox = options.outbox ?? false;
+    this.history = options.history ?? false;
+    this.onOutboxWritten = options.onOutboxWritten;
+    this.onSagaPersisted = options.onSagaPersisted;
   }
 
   /**
@@ -96,6 +160,18 @@ export class SagaOrchestrator<
         });
       }
 
+      this.metrics?.increment(SAGA_BUS_METRICS.CORRELATION_FAILURES, 1, {
+        saga_name: this.definition.name,
+        message_type: message.type,
+        action,
+      });
+      this.events?.emit("correlationFailed", {
+        sagaName: this.definition.name,
+        messageType: message.type,
+        messageId: envelope.id,
+        action,
+      });
+
       return {
         failed: true,
         action,
@@ -103,12 +179,56 @@ export class SagaOrchestrator<
       };
     }
 
-    // Load existing saga state BEFORE pipeline executes
-    // This allows middleware (e.g., tracing) to access stored trace context
-    const existingState = await this.store.getByCorrelationId(
-      this.definition.name,
-      correlationId
-    );
+    const process = () =>
+      this.processWithRetries(envelope, correlationId, correlation.canStart);
+
+    if (this.serializer) {
+      await this.serializer.run(`${this.definition.name}:${correlationId}`, process);
+    } else {
+      await process();
+    }
+    return undefined;
+  }
+
+  /**
+   * Process a correlated message, reloading the state and handling it again
+   * when the update loses an optimistic concurrency race, up to
+   * `concurrencyRetries` times. Further conflicts go to the retry handler.
+   */
+  private async processWithRetries(
+    envelope: MessageEnvelope<TMessages>,
+    correlationId: string,
+    canStart: boolean
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.processCorrelated(envelope, correlationId, canStart);
+        return;
+      } catch (error) {
+        if (
+          attempt > this.concurrencyRetries ||
+          !(error instanceof SagaProcessingError) ||
+          !(error.cause instanceof ConcurrencyError)
+        ) {
+          throw error;
+        }
+
+        this.logger.debug("Reloading saga after concurrency conflict", {
+          sagaName: this.definition.name,
+          correlationId,
+          messageId: envelope.id,
+          attempt,
+        });
+      }
+    }
+  }
+
+  private async processCorrelated(
+    envelope: MessageEnvelope<TMessages>,
+    correlationId: string,
+    canStart: boolean
+  ): Promise<void> {
+    const message = envelope.payload;
 
     // Create pipeline context with mutable trace context
     let traceContext: { traceParent: string; traceState: string | null } | undefined;
@@ -117,7 +237,6 @@ export class SagaOrchestrator<
       envelope,
       sagaName: this.definition.name,
       correlationId,
-      existingState, // Provide existing state to middleware
       metadata: {},
       setTraceContext(traceParent: string, traceState: string | null) {
         traceContext = { traceParent, traceState };
@@ -125,9 +244,22 @@ export class SagaOrchestrator<
       },
     };
 
+    // Load existing saga state BEFORE pipeline executes
+    // This allows middleware (e.g., tracing) to access stored trace context
+    const existingState = await withSpan(
+      this.tracer,
+      SAGA_BUS_SPANS.LOAD,
+      pipelineCtx,
+      async () =>
+        this.upgradeState(
+          await this.store.getByCorrelationId(this.definition.name, correlationId)
+        )
+    );
+    pipelineCtx.existingState = existingState; // Provide existing state to middleware
+
     try {
       await this.pipeline.execute(pipelineCtx, async () => {
-        await this.handleMessage(envelope, correlationId, correlation.canStart, existingState, pipelineCtx);
+        await this.handleMessage(envelope, correlationId, canStart, existingState, pipelineCtx);
       });
     } catch (error) {
       pipelineCtx.error = error;
@@ -154,9 +286,11 @@ export class SagaOrchestrator<
     pipelineCtx: SagaPipelineContext
   ): Promise<void> {
     const message = envelope.payload;
+    const replyTo = getReplyAddress(envelope);
 
     // Use the pre-loaded existing state
     let state = existingState;
+    const isNew = !state;
 
     let sagaId: string;
 
@@ -173,6 +307,7 @@ export class SagaOrchestrator<
 
       // Create new saga
       sagaId = generateSagaId();
+      const parent = getParentReference(envelope, this.definition.name);
 
       const ctx = new SagaContextImpl({
         sagaName: this.definition.name,
@@ -181,9 +316,13 @@ export class SagaOrchestrator<
         envelope,
         transport: this.transport,
         timeoutBounds: this.timeoutBounds,
+        outbox: this.outbox,
+        replyTo,
+        tracing: this.tracer && { tracer: this.tracer, ctx: pipelineCtx },
       });
 
       state = await this.definition.createInitialState(message, ctx);
+      await ctx.flush();
 
       // Ensure metadata is set correctly, including trace context if set by middleware
       state = {
@@ -197,11 +336,26 @@ export class SagaOrchestrator<
           isCompleted: false,
           traceParent: pipelineCtx.traceContext?.traceParent ?? null,
           traceState: pipelineCtx.traceContext?.traceState ?? null,
+          ...(replyTo ? { replyTo } : {}),
+          ...(parent ? { parent } : {}),
+          ...(this.definition.stateVersion !== undefined
+            ? { schemaVersion: this.definition.stateVersion }
+            : {}),
         },
       };
 
-      // Insert the new saga
-      await this.store.insert(this.definition.name, correlationId, state);
+      // Insert the new saga (with any messages buffered by the initial factory)
+      await this.persistInsert(pipelineCtx, state, ctx.bufferedMessages);
+      this.onSagaPersisted?.(this.definition.name, correlationId, state);
+      this.metrics?.increment(SAGA_BUS_METRICS.SAGAS_CREATED, 1, {
+        saga_name: this.definition.name,
+        message_type: message.type,
+      });
+      this.events?.emit("sagaCreated", {
+        ...this.eventBase(envelope, sagaId, correlationId),
+        version: state.metadata.version,
+        state,
+      });
 
       this.logger.info("Created new saga instance", {
         sagaName: this.definition.name,
@@ -227,6 +381,16 @@ export class SagaOrchestrator<
       return;
     }
 
+    // Drop timeouts that were superseded by a later setTimeout/clearTimeout
+    if (this.isStaleTimeout(message, state)) {
+      this.logger.debug("Ignoring stale timeout message", {
+        sagaName: this.definition.name,
+        sagaId,
+        messageId: envelope.id,
+      });
+      return;
+    }
+
     // Create handler context with current metadata for timeout tracking
     const ctx = new SagaContextImpl({
       sagaName: this.definition.name,
@@ -237,41 +401,90 @@ export class SagaOrchestrator<
       defaultEndpoint: this.defaultEndpoint,
       currentMetadata: state.metadata,
       timeoutBounds: this.timeoutBounds,
+      outbox: this.outbox,
+      replyTo: replyTo ?? state.metadata.replyTo,
+      tracing: this.tracer && { tracer: this.tracer, ctx: pipelineCtx },
     });
 
     // Execute handler
-    const result = await this.definition.handle(message, state, ctx);
+    const loadedState = state;
+    const result = await withSpan(
+      this.tracer,
+      SAGA_BUS_SPANS.HANDLE,
+      pipelineCtx,
+      async () => {
+        const handled = await this.definition.handle(message, loadedState, ctx);
+        return handled.unhandled && !isNew && this.definition.handleUnhandled
+          ? this.definition.handleUnhandled(message, loadedState, ctx)
+          : handled;
+      }
+    );
+
+    // Leave the state untouched when no handler matched; a message that
+    // just started the saga was handled by the initial state factory
+    if (result.unhandled) {
+      await ctx.flush();
+      pipelineCtx.postState = state;
+      pipelineCtx.handlerResult = result;
+      if (!isNew) {
+        this.handleUnhandledMessage(envelope, sagaId, correlationId);
+      }
+      return;
+    }
+
+    // Roll back completed steps if the handler requested compensation
+    const compensationReason = ctx.compensationReason;
+    const isCompensated = compensationReason !== undefined;
+    let handledState = result.newState;
+
+    if (isCompensated) {
+      handledState = await this.compensate(handledState, ctx, compensationReason);
+    }
+
+    // Publish what the handler and compensation sent (outbox mode buffers
+    // them for persisting instead)
+    await ctx.flush();
 
-    // Determine completion
-    const isCompleted = result.isCompleted ?? ctx.isCompleted;
+    // Determine completion (compensation is terminal)
+    const isCompleted = isCompensated || (result.isCompleted ?? ctx.isCompleted);
 
     // Build new metadata with timeout changes
     const expectedVersion = state.metadata.version;
     const pendingTimeout = ctx.pendingTimeoutChange;
 
+    const previousTimeoutToken = state.metadata.timeoutToken ?? null;
     let timeoutMs = state.metadata.timeoutMs;
     let timeoutExpiresAt = state.metadata.timeoutExpiresAt;
+    let timeoutToken = previousTimeoutToken;
 
     if (pendingTimeout) {
       if (pendingTimeout.type === "clear") {
         timeoutMs = null;
         timeoutExpiresAt = null;
+        timeoutToken = null;
       } else if (pendingTimeout.type === "set") {
         timeoutMs = pendingTimeout.timeoutMs ?? null;
         timeoutExpiresAt = pendingTimeout.timeoutExpiresAt ?? null;
+        timeoutToken = generateTimeoutToken();
       }
     }
 
     // Update state with new metadata
     const newState: TState = {
-      ...result.newState,
+      ...handledState,
       metadata: {
-        ...result.newState.metadata,
+        ...handledState.metadata,
         version: expectedVersion + 1,
         updatedAt: now(),
         isCompleted,
         timeoutMs,
         timeoutExpiresAt,
+        timeoutToken,
+        ...(isCompleted
+          ? { status: isCompensated ? "compensated" : "completed" }
+          : {}),
+        ...(isCompensated ? { compensationReason } : {}),
+        ...(replyTo ? { replyTo } : {}),
       },
     };
 
@@ -279,11 +492,35 @@ export class SagaOrchestrator<
     pipelineCtx.postState = newState;
     pipelineCtx.handlerResult = result;
 
-    // Persist the updated state
+    // Tell the parent saga that this child finished; in outbox mode the
+    // notification is stored with the state, otherwise sent once persisted
+    const childFinished = isCompleted
+      ? createChildFinishedMessage(
+          this.definition.name,
+          correlationId,
+          newState,
+          this.defaultEndpoint
+        )
+      : null;
+    if (childFinished && this.outbox) {
+      await ctx.publish(childFinished.message, childFinished.options);
+    }
+
+    // Persist the updated state (and outbox messages, if any)
     try {
-      await this.store.update(this.definition.name, newState, expectedVersion);
+      await this.persistUpdate(
+        pipelineCtx,
+        state,
+        newState,
+        expectedVersion,
+        ctx.bufferedMessages
+      );
     } catch (error) {
       if (error instanceof ConcurrencyError) {
+        this.metrics?.increment(SAGA_BUS_METRICS.CONCURRENCY_CONFLICTS, 1, {
+          saga_name: this.definition.name,
+          message_type: message.type,
+        });
         this.logger.warn("Concurrency conflict, message will be retried", {
           sagaName: this.definition.name,
           sagaId,
@@ -294,17 +531,87 @@ export class SagaOrchestrator<
       throw error;
     }
 
+    this.onSagaPersisted?.(this.definition.name, correlationId, newState);
+    this.events?.emit("stateChanged", {
+      ...this.eventBase(envelope, sagaId, correlationId),
+      previousVersion: expectedVersion,
+      version: newState.metadata.version,
+      previousState: state,
+      state: newState,
+    });
+
+    // Cancel the superseded timeout where the transport supports it; stale
+    // deliveries are filtered above either way
+    if (
+      previousTimeoutToken &&
+      (timeoutToken !== previousTimeoutToken || isCompleted) &&
+      !this.isTimeoutWithToken(message, previousTimeoutToken)
+    ) {
+      await this.cancelTimeoutMessage(sagaId, previousTimeoutToken);
+    }
+
     // Schedule timeout message if timeout was set (and saga not completed)
-    if (pendingTimeout?.type === "set" && !isCompleted && pendingTimeout.timeoutMs) {
+    if (
+      pendingTimeout?.type === "set" &&
+      !isCompleted &&
+      pendingTimeout.timeoutMs &&
+      timeoutToken
+    ) {
+      const expiresAt = pendingTimeout.timeoutExpiresAt ?? new Date();
       await this.scheduleTimeoutMessage(
+        pipelineCtx,
         sagaId,
         correlationId,
         pendingTimeout.timeoutMs,
-        pendingTimeout.timeoutExpiresAt ?? new Date()
+        expiresAt,
+        timeoutToken
       );
+      this.events?.emit("timeoutScheduled", {
+        ...this.eventBase(envelope, sagaId, correlationId),
+        version: newState.metadata.version,
+        timeoutMs: pendingTimeout.timeoutMs,
+        expiresAt,
+      });
+    }
+
+    if (childFinished && !this.outbox) {
+      await withSpan(this.tracer, SAGA_BUS_SPANS.PUBLISH, pipelineCtx, () =>
+        this.transport.publish(childFinished.message, childFinished.options)
+      );
+    }
+    if (childFinished) {
+      this.logger.debug("Notified parent saga", {
+        sagaName: this.definition.name,
+        sagaId,
+        parentSagaName: childFinished.message.sagaName,
+        parentSagaId: childFinished.message.sagaId,
+        messageType: childFinished.message.type,
+      });
     }
 
     if (isCompleted) {
+      const status = isCompensated ? "compensated" : "completed";
+      this.metrics?.increment(SAGA_BUS_METRICS.SAGAS_COMPLETED, 1, {
+        saga_name: this.definition.name,
+        status,
+      });
+      this.events?.emit("sagaCompleted", {
+        ...this.eventBase(envelope, sagaId, correlationId),
+        status,
+        version: newState.metadata.version,
+        ...(isCompensated ? { compensationReason } : {}),
+        state: newState,
+      });
+    }
+
+    if (isCompensated) {
+      this.logger.info("Saga compensated", {
+        sagaName: this.definition.name,
+        sagaId,
+        correlationId,
+        reason: compensationReason,
+      });
+    } else if (isCompleted) {
       this.logger.info("Saga completed", {
         sagaName: this.definition.name,
         sagaId,
@@ -319,14 +626,315 @@ export class SagaOrchestrator<
     }
   }
 
+  /**
+   * Apply the definition's unhandledMessagePolicy to a message no handler
+   * matched.
+   * @throws UnhandledMessageError for the "error" and "dlq" policies
+   */
+  private handleUnhandledMessage(
+    envelope: MessageEnvelope<TMessages>,
+    sagaId: string,
+    correlationId: string
+  ): void {
+    const policy = this.definition.unhandledMessagePolicy ?? "warn";
+
+    this.metrics?.increment(SAGA_BUS_METRICS.UNHANDLED_MESSAGES, 1, {
+      saga_name: this.definition.name,
+      message_type: envelope.type,
+      policy,
+    });
+
+    if (policy === "error" || policy === "dlq") {
+      throw new UnhandledMessageError(
+        this.definition.name,
+        sagaId,
+        envelope.type,
+        policy
+      );
+    }
+
+    const context = {
+      sagaName: this.definition.name,
+      sagaId,
+      correlationId,
+      messageType: envelope.type,
+      messageId: envelope.id,
+    };
+    if (policy === "warn") {
+      this.logger.warn("No handler matched message", context);
+    } else {
+      this.logger.debug("No handler matched message", context);
+    }
+  }
+
+  private eventBase(
+    envelope: MessageEnvelope<TMessages>,
+    sagaId: string,
+    correlationId: string
+  ): SagaEventBase {
+    return {
+      sagaName: this.definition.name,
+      sagaId,
+      correlationId,
+      messageType: envelope.type,
+      messageId: envelope.id,
+    };
+  }
+
+  /**
+   * Run the compensations of the saga's completed steps in reverse order.
+   */
+  private async compensate(
+    state: TState,
+    ctx: SagaContextImpl,
+    reason: string
+  ): Promise<TState> {
+    const steps = state.metadata.completedSteps ?? [];
+
+    this.logger.info("Compensating saga", {
+      sagaName: this.definition.name,
+      sagaId: state.metadata.sagaId,
+      reason,
+      steps: steps.length,
+    });
+
+    if (!this.definition.compensate) {
+      return state;
+    }
+
+    return this.definition.compensate(state, ctx, reason);
+  }
+
+  /**
+   * Insert a new saga, writing buffered messages to the outbox and the
+   * first history entry when supported.
+   */
+  private async persistInsert(
+    pipelineCtx: SagaPipelineContext,
+    state: TState,
+    buffered: ReadonlyArray<BufferedMessage>
+  ): Promise<void> {
+    const { correlationId } = pipelineCtx;
+    const store = this.store;
+    const outbox = this.outboxMessagesFor(state, buffered);
+
+    await withSpan(this.tracer, SAGA_BUS_SPANS.PERSIST, pipelineCtx, () => {
+      if (this.history && isHistoryStore(store)) {
+        return store.insertWithHistory(
+          this.definition.name,
+          correlationId,
+          state,
+          this.toHistoryEntry(pipelineCtx, null, state),
+          outbox ?? []
+        );
+      }
+      if (outbox && isOutboxStore(store)) {
+        return store.insertWithOutbox(this.definition.name, correlationId, state, outbox);
+      }
+      return store.insert(this.definition.name, correlationId, state);
+    });
+
+    await this.afterPersist(pipelineCtx, buffered, outbox);
+  }
+
+  /**
+   * Update a saga, writing buffered messages to the outbox and a history
+   * entry when supported. Stores without outbox support publish only after
+   * the update succeeded.
+   */
+  private async persistUpdate(
+    pipelineCtx: SagaPipelineContext,
+    previousState: TState,
+    state: TState,
+    expectedVersion: number,
+    buffered: ReadonlyArray<BufferedMessage>
+  ): Promise<void> {
+    const store = this.store;
+    const outbox = this.outboxMessagesFor(state, buffered);
+
+    await withSpan(this.tracer, SAGA_BUS_SPANS.PERSIST, pipelineCtx, () => {
+      if (this.history && isHistoryStore(store)) {
+        return store.updateWithHistory(
+          this.definition.name,
+          state,
+          expectedVersion,
+          this.toHistoryEntry(pipelineCtx, previousState, state),
+          outbox ?? []
+        );
+      }
+      if (outbox && isOutboxStore(store)) {
+        return store.updateWithOutbox(this.definition.name, state, expectedVersion, outbox);
+      }
+      return store.update(this.definition.name, state, expectedVersion);
+    });
+
+    await this.afterPersist(pipelineCtx, buffered, outbox);
+  }
+
+  /**
+   * Outbox entries for buffered messages, or null when there are none or
+   * the store has no outbox (they are then published after persisting).
+   */
+  private outboxMessagesFor(
+    state: TState,
+    buffered: ReadonlyArray<BufferedMessage>
+  ): OutboxMessage[] | null {
+    if (buffered.length === 0 || !isOutboxStore(this.store)) {
+      return null;
+    }
+    return this.toOutboxMessages(state.metadata.sagaId, buffered);
+  }
+
+  private async afterPersist(
+    pipelineCtx: SagaPipelineContext,
+    buffered: ReadonlyArray<BufferedMessage>,
+    outbox: OutboxMessage[] | null
+  ): Promise<void> {
+    if (outbox) {
+      this.onOutboxWritten?.();
+      return;
+    }
+    await this.publishBuffered(pipelineCtx, buffered);
+  }
+
+  private toHistoryEntry(
+    pipelineCtx: SagaPipelineContext,
+    previousState: TState | null,
+    state: TState
+  ): SagaHistoryEntry {
+    return {
+      id: generateMessageId(),
+      sagaName: this.definition.name,
+      sagaId: state.metadata.sagaId,
+      correlationId: pipelineCtx.correlationId,
+      messageId: pipelineCtx.envelope.id,
+      messageType: pipelineCtx.envelope.type,
+      outcome: getSagaHistoryOutcome(previousState, state),
+      previousVersion: previousState?.metadata.version ?? null,
+      version: state.metadata.version,
+      previousState,
+      state,
+      traceParent: pipelineCtx.traceContext?.traceParent ?? null,
+      recordedAt: now(),
+    };
+  }
+
+  private toOutboxMessages(
+    sagaId: string,
+    buffered: ReadonlyArray<BufferedMessage>
+  ): OutboxMessage[] {
+    const createdAt = now();
+    return buffered.map(({ message, options }) => ({
+      id: generateMessageId(),
+      sagaName: this.definition.name,
+      sagaId,
+      message,
+      options,
+      createdAt,
+      attempts: 0,
+      lastError: null,
+    }));
+  }
+
+  private async publishBuffered(
+    pipelineCtx: SagaPipelineContext,
+    buffered: ReadonlyArray<BufferedMessage>
+  ): Promise<void> {
+    if (buffered.length === 0) {
+      return;
+    }
+
+    await withSpan(this.tracer, SAGA_BUS_SPANS.PUBLISH, pipelineCtx, () =>
+      publishBatch(this.transport, buffered)
+    );
+  }
+
+  /**
+   * Bring a loaded state up to the definition's state version.
+   * The upgraded shape is persisted with the next update.
+   */
+  private async upgradeState(state: TState | null): Promise<TState | null> {
+    if (
+      !state ||
+      !this.definition.migrateState ||
+      (state.metadata.schemaVersion ?? 1) === (this.definition.stateVersion ?? 1)
+    ) {
+      return state;
+    }
+
+    const migrated = await this.definition.migrateState(state);
+
+    this.logger.debug("Migrated saga state", {
+      sagaName: this.definition.name,
+      sagaId: state.metadata.sagaId,
+      fromVersion: state.metadata.schemaVersion ?? 1,
+      toVersion: migrated.metadata.schemaVersion,
+    });
+
+    return migrated;
+  }
+
+  /**
+   * Check whether a message is a timeout the saga has since replaced or cleared.
+   * Timeouts published before tokens existed carry none and are delivered.
+   */
+  private isStaleTimeout(message: BaseMessage, state: TState): boolean {
+    if (message.type !== SAGA_TIMEOUT_MESSAGE_TYPE) {
+      return false;
+    }
+
+    const { timeoutToken } = message as SagaTimeoutExpired;
+    return (
+      timeoutToken !== undefined &&
+      timeoutToken !== (state.metadata.timeoutToken ?? null)
+    );
+  }
+
+  private isTimeoutWithToken(message: BaseMessage, token: string): boolean {
+    return (
+      message.type === SAGA_TIMEOUT_MESSAGE_TYPE &&
+      (message as SagaTimeoutExpired).timeoutToken === token
+    );
+  }
+
+  /**
+   * Cancel a pending timeout message. Best effort: failures are logged,
+   * since the stale message is filtered out on delivery anyway.
+   */
+  private async cancelTimeoutMessage(
+    sagaId: string,
+    timeoutToken: string
+  ): Promise<void> {
+    if (!this.transport.cancelScheduled) {
+      return;
+    }
+
+    try {
+      await this.transport.cancelScheduled(timeoutToken);
+
+      this.logger.debug("Cancelled superseded timeout message", {
+        sagaName: this.definition.name,
+        sagaId,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to cancel superseded timeout message", {
+        sagaName: this.definition.name,
+        sagaId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Schedule a timeout message for delayed delivery.
    */
   private async scheduleTimeoutMessage(
+    pipelineCtx: SagaPipelineContext,
     sagaId: string,
     correlationId: string,
     timeoutMs: number,
-    timeoutExpiresAt: Date
+    timeoutExpiresAt: Date,
+    timeoutToken: string
   ): Promise<void> {
     const timeoutMessage: SagaTimeoutExpired = {
       type: SAGA_TIMEOUT_MESSAGE_TYPE,
@@ -335,14 +943,21 @@ export class SagaOrchestrator<
       correlationId,
       timeoutMs,
       timeoutSetAt: new Date(timeoutExpiresAt.getTime() - timeoutMs),
+      timeoutToken,
     };
 
     const endpoint = this.defaultEndpoint ?? SAGA_TIMEOUT_MESSAGE_TYPE;
 
-    await this.transport.publish(timeoutMessage, {
-      endpoint,
-      delayMs: timeoutMs,
-      key: correlationId, // Use correlation ID for ordering
+    await withSpan(this.tracer, SAGA_BUS_SPANS.PUBLISH, pipelineCtx, () =>
+      this.transport.publish(timeoutMessage, {
+        endpoint,
+        delayMs: timeoutMs,
+        key: correlationId, // Use correlation ID for ordering
+        scheduleId: timeoutToken,
+      })
+    );
+    this.metrics?.increment(SAGA_BUS_METRICS.TIMEOUTS_SCHEDULED, 1, {
+      saga_name: this.definition.name,
     });
 
     this.logger.debug("Scheduled timeout message", {
@@ -367,4 +982,12 @@ export class SagaOrchestrator<
   get handledMessageTypes(): ReadonlyArray<string> {
     return this.definition.handledMessageTypes;
   }
+
+  /**
+   * Cancel the pending timeout of an instance finished without running a
+   * handler, e.g. by SagaAdmin.completeInstance().
+   */
+  async cancelTimeout(sagaId: string, timeoutToken: string): Promise<void> {
+    await this.cancelTimeoutMessage(sagaId, timeoutToken);
+  }
 }
@@ -0,0 +1,281 @@
+import type {
+  BaseMessage,
+  Logger,
+  MessageEnvelope,
+  ScheduledMessage,
+  ScheduledMessageStore,
+  Transport,
+  TransportBatchMessage,
+  TransportPublishOptions,
+  TransportSubscribeOptions,
+} from "../types/index.js";
+import { DefaultLogger } from "./DefaultLogger.js";
+import { publishBatch } from "./publishBatch.js";
+import { generateMessageId, now } from "./utils.js";
+
+/**
+ * Default durable scheduler settings.
+ */
+export const DEFAULT_SCHEDULER_POLL_INTERVAL_MS = 1000;
+export const DEFAULT_SCHEDULER_BATCH_SIZE = 100;
+export const DEFAULT_SCHEDULER_LOCK_DURATION_MS = 30000;
+
+/**
+ * Check whether a store supports the durable scheduler.
+ */
+export function isScheduledMessageStore(
+  store: unknown
+): store is ScheduledMessageStore {
+  const candidate = store as Partial<ScheduledMessageStore> | null;
+  return (
+    typeof candidate?.insertScheduledMessage === "function" &&
+    typeof candidate.claimDueScheduledMessages === "function" &&
+    typeof candidate.deleteScheduledMessage === "function" &&
+    typeof candidate.markScheduledMessageFailed === "function"
+  );
+}
+
+export interface SchedulingTransportOptions {
+  /** Transport to wrap */
+  transport: Transport;
+  /** Store holding delayed messages until they are due */
+  store: ScheduledMessageStore;
+  logger?: Logger;
+  /** How often to poll for due messages in milliseconds (default: 1000) */
+  pollIntervalMs?: number;
+  /** Maximum messages claimed per poll (default: 100) */
+  batchSize?: number;
+  /** How long a claimed message is hidden from other schedulers in milliseconds (default: 30000) */
+  lockDurationMs?: number;
+  /**
+   * Delays up to this many milliseconds use the wrapped transport's native
+   * delay (default: 0, i.e. every delayed message goes through the store).
+   */
+  nativeDelayMaxMs?: number;
+}
+
+/**
+ * Transport wrapper that persists delayed messages in a store and publishes
+ * them through the wrapped transport once they are due.
+ *
+ * Makes `ctx.schedule()` and saga timeouts work the same on every transport,
+ * including those without native delay (NATS, GCP Pub/Sub) or with a short
+ * maximum (SQS). Several instances may poll the same store: claims are
+ * leased, so each message is published by one scheduler at a time.
+ *
+ * @example
+ * ```typescript
+ * const transport = new SchedulingTransport({
+ *   transport: new NatsTransport({ ... }),
+ *   store, // e.g. a PostgresSagaStore
+ * });
+ *
+ * const bus = createBus({ transport, store, sagas });
+ * ```
+ */
+export class SchedulingTransport implements Transport {
+  private readonly transport: Transport;
+  private readonly store: ScheduledMessageStore;
+  private readonly logger: Logger;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly lockDurationMs: number;
+  private readonly nativeDelayMaxMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<number> | null = null;
+
+  constructor(options: SchedulingTransportOptions) {
+    this.transport = options.transport;
+    this.store = options.store;
+    this.logger = options.logger ?? new DefaultLogger();
+    this.pollIntervalMs =
+      options.pollIntervalMs ?? DEFAULT_SCHEDULER_POLL_INTERVAL_MS;
+    this.batchSize = options.batchSize ?? DEFAULT_SCHEDULER_BATCH_SIZE;
+    this.lockDurationMs =
+      options.lockDurationMs ?? DEFAULT_SCHEDULER_LOCK_DURATION_MS;
+    this.nativeDelayMaxMs = options.nativeDelayMaxMs ?? 0;
+  }
+
+  async start(): Promise<void> {
+    await this.transport.start();
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+      this.poll();
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+
+    await this.transport.stop();
+  }
+
+  async stopReceiving(): Promise<void> {
+    await this.transport.stopReceiving?.();
+  }
+
+  async subscribe<TMessage extends BaseMessage>(
+    options: TransportSubscribeOptions,
+    handler: (envelope: MessageEnvelope<TMessage>) => Promise<void>
+  ): Promise<void> {
+    await this.transport.subscribe(options, handler);
+  }
+
+  async publish<TMessage extends BaseMessage>(
+    message: TMessage,
+    options: TransportPublishOptions
+  ): Promise<void> {
+    const { delayMs, scheduleId, ...publishOptions } = options;
+
+    if (!delayMs || !this.isStored(delayMs)) {
+      await this.transport.publish(message, options);
+      return;
+    }
+
+    const createdAt = now();
+    const entry: ScheduledMessage = {
+      id: scheduleId ?? generateMessageId(),
+      message,
+      options: publishOptions,
+      dueAt: new Date(createdAt.getTime() + delayMs),
+      createdAt,
+      attempts: 0,
+      lastError: null,
+    };
+
+    await this.store.insertScheduledMessage(entry);
+
+    this.logger.debug("Message scheduled", {
+      scheduledId: entry.id,
+      messageType: message.type,
+      endpoint: options.endpoint,
+      dueAt: entry.dueAt.toISOString(),
+    });
+  }
+
+  /**
+   * Publish the messages delivered now as one batch of the wrapped
+   * transport, and store the rest.
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    await publishBatch(
+      this.transport,
+      messages.filter(({ options }) => !this.isStored(options.delayMs))
+    );
+
+    for (const { message, options } of messages) {
+      if (this.isStored(options.delayMs)) {
+        await this.publish(message, options);
+      }
+    }
+  }
+
+  /**
+   * Whether a delay is long enough to go to the store rather than the
+   * wrapped transport.
+   */
+  private isStored(delayMs: number | undefined): boolean {
+    return delayMs !== undefined && delayMs > 0 && delayMs > this.nativeDelayMaxMs;
+  }
+
+  /**
+   * Cancel a delayed message, whether it is held in the store or was
+   * handed to the wrapped transport's native delay.
+   */
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    await this.store.deleteScheduledMessage(scheduleId);
+    await this.transport.cancelScheduled?.(scheduleId);
+  }
+
+  /**
+   * Claim and publish all messages that are due.
+   * @returns Number of messages published
+   */
+  async dispatchDue(): Promise<number> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = (async () => {
+      let dispatched = 0;
+      for (;;) {
+        const entries = await this.store.claimDueScheduledMessages(
+          this.batchSize,
+          this.lockDurationMs
+        );
+
+        let failed = false;
+        for (const entry of entries) {
+          if (await this.dispatch(entry)) {
+            dispatched++;
+          } else {
+            failed = true;
+          }
+        }
+
+        // Failed messages are released immediately; leave them to the next poll
+        if (entries.length < this.batchSize || failed) {
+          return dispatched;
+        }
+      }
+    })();
+
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private poll(): void {
+    if (this.running) {
+      return;
+    }
+
+    void this.dispatchDue().catch((error) => {
+      this.logger.error("Scheduler run failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  private async dispatch(entry: ScheduledMessage): Promise<boolean> {
+    try {
+      await this.transport.publish(entry.message, entry.options);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      this.logger.warn("Scheduled message publish failed, will retry", {
+        scheduledId: entry.id,
+        messageType: entry.message.type,
+        attempts: entry.attempts + 1,
+        error: errorMessage,
+      });
+
+      await this.store.markScheduledMessageFailed(entry.id, errorMessage);
+      return false;
+    }
+
+    await this.store.deleteScheduledMessage(entry.id);
+
+    this.logger.debug("Scheduled message published", {
+      scheduledId: entry.id,
+      messageType: entry.message.type,
+      endpoint: entry.options.endpoint,
+      lateByMs: Date.now() - entry.dueAt.getTime(),
+    });
+
+    return true;
+  }
+}
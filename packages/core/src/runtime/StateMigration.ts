@@ -0,0 +1,108 @@
+import type {
+  BaseMessage,
+  SagaDefinition,
+  SagaQueryableStore,
+  SagaState,
+} from "../types/index.js";
+import { ConcurrencyError } from "../errors/index.js";
+import { now } from "./utils.js";
+
+/**
+ * Default bulk migration settings.
+ */
+export const DEFAULT_MIGRATION_BATCH_SIZE = 100;
+
+export interface MigrateSagaStatesOptions {
+  /** Sagas read per page (default: 100) */
+  batchSize?: number;
+  /** Called after each page with the running totals */
+  onProgress?: (result: MigrateSagaStatesResult) => void;
+}
+
+export interface MigrateSagaStatesResult {
+  /** Saga instances read */
+  scanned: number;
+  /** Saga instances upgraded and saved */
+  migrated: number;
+  /**
+   * Saga instances skipped because they were updated concurrently.
+   * They are migrated when the orchestrator loads them instead.
+   */
+  conflicts: number;
+}
+
+/**
+ * Upgrade every stored instance of a saga to the definition's current
+ * state version, running the same migrations the orchestrator applies on
+ * load. Useful before removing old migrations, or to reshape sagas that
+ * receive no further messages.
+ *
+ * Instances are saved with the usual optimistic concurrency check, so the
+ * helper can run while buses are processing messages.
+ *
+ * @example
+ * ```typescript
+ * const result = await migrateSagaStates(store, orderSaga);
+ * console.log(`Migrated ${result.migrated} of ${result.scanned} sagas`);
+ * ```
+ */
+export async function migrateSagaStates<TState extends SagaState>(
+  store: SagaQueryableStore<TState>,
+  definition: SagaDefinition<TState, BaseMessage>,
+  options: MigrateSagaStatesOptions = {}
+): Promise<MigrateSagaStatesResult> {
+  const migrateState = definition.migrateState?.bind(definition);
+  if (!migrateState) {
+    throw new Error(`Saga "${definition.name}" does not support state migrations`);
+  }
+
+  const targetVersion = definition.stateVersion ?? 1;
+  const result: MigrateSagaStatesResult = { scanned: 0, migrated: 0, conflicts: 0 };
+  let cursor: string | null = null;
+
+  do {
+    // createdAt never changes, so saving sagas doesn't move them between pages
+    const page = await store.findSagas(definition.name, {
+      sortBy: "createdAt",
+      sortOrder: "asc",
+      limit: options.batchSize ?? DEFAULT_MIGRATION_BATCH_SIZE,
+      cursor,
+    });
+
+    for (const state of page.items) {
+      result.scanned++;
+      if ((state.metadata.schemaVersion ?? 1) === targetVersion) {
+        continue;
+      }
+
+      const migrated = await migrateState(state);
+      const expectedVersion = state.metadata.version;
+
+      try {
+        await store.update(
+          definition.name,
+          {
+            ...migrated,
+            metadata: {
+              ...migrated.metadata,
+              version: expectedVersion + 1,
+              updatedAt: now(),
+            },
+          },
+          expectedVersion
+        );
+        result.migrated++;
+      } catch (error) {
+        if (!(error instanceof ConcurrencyError)) {
+          throw error;
+        }
+        result.conflicts++;
+      }
+    }
+
+    options.onProgress?.({ ...result });
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return result;
+}
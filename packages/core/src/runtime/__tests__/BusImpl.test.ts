@@ -1,11 +1,30 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import type {
   BaseMessage,
+  OutboxMessage,
+  SagaChildCompensated,
+  SagaChildCompleted,
+  SagaHistoryEntry,
   SagaState,
   SagaStateMetadata,
+  SagaTimeoutExpired,
+  TransportPublishOptions,
+} from "../../types/index.js";
+import {
+  SAGA_CHILD_COMPENSATED_MESSAGE_TYPE,
+  SAGA_CHILD_COMPLETED_MESSAGE_TYPE,
 } from "../../types/index.js";
 import { createSagaMachine } from "../../dsl/index.js";
 import { createBus } from "../BusImpl.js";
+import {
+  BusStoppingError,
+  ConcurrencyError,
+  RequestTimeoutError,
+  TransientError,
+  UnhandledMessageError,
+} from "../../errors/index.js";
+import { RETRY_HEADERS } from "../RetryHandler.js";
+import { SAGA_BUS_METRICS, SAGA_BUS_SPANS } from "../instrumentation.js";
 
 // Mock InMemoryTransport
 class MockTransport {
@@ -21,7 +40,7 @@ class MockTransport {
   }
 
   async subscribe(
-    options: { endpoint: string },
+    options: { endpoint: string; concurrency?: number; group?: string },
     handler: (envelope: unknown) => Promise<void>
   ) {
     const existing = this.handlers.get(options.endpoint) ?? [];
@@ -29,13 +48,16 @@ class MockTransport {
     this.handlers.set(options.endpoint, existing);
   }
 
-  async publish(message: BaseMessage, options: { endpoint: string }) {
+  async publish(
+    message: BaseMessage,
+    options: { endpoint: string; headers?: Record<string, string> }
+  ) {
     const handlers = this.handlers.get(options.endpoint) ?? [];
     const envelope = {
       id: "msg-" + Math.random(),
       type: message.type,
       payload: message,
-      headers: {},
+      headers: options.headers ?? {},
       timestamp: new Date(),
     };
 
@@ -221,7 +243,7 @@ describe("BusImpl", () => {
     const state = await store.getByCorrelationId("OrderSaga", "order-123");
     expect(state?.status).toBe("paid");
     expect(state?.amount).toBe(99.99);
-    expect(state?.metadata.version).toBe(2); // Initial + update
+    expect(state?.metadata.version).toBe(1); // Initial + update
 
     await bus.stop();
   });
@@ -268,6 +290,72 @@ describe("BusImpl", () => {
 
     const state = await store.getByCorrelationId("OrderSaga", "order-123");
     expect(state?.metadata.isCompleted).toBe(true);
+    expect(state?.metadata.status).toBe("completed");
+
+    await bus.stop();
+  });
+
+  it("should compensate completed steps when compensate() is called", async () => {
+    const refunds: number[] = [];
+    const saga = createSagaMachine<OrderState, OrderMessages>()
+      .name("OrderSaga")
+      .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+      .correlate("*", (msg) => msg.orderId)
+      .initial<OrderSubmitted>((msg, ctx) => ({
+        metadata: {
+          sagaId: ctx.sagaId,
+          version: 0,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          isCompleted: false,
+        },
+        orderId: msg.orderId,
+        status: "submitted",
+      }))
+      .on("PaymentReceived")
+      .when((state) => state.status === "submitted")
+      .handle(async (msg, state) => ({
+        newState: { ...state, status: "paid", amount: msg.amount },
+      }))
+      .compensateWith(
+        async (state) => {
+          refunds.push(state.amount ?? 0);
+        },
+        { step: "capture-payment" }
+      )
+      .on("PaymentReceived")
+      .handle(async (_msg, state, ctx) => {
+        ctx.compensate("duplicate payment");
+        return { newState: state };
+      })
+      .build();
+
+    const bus = createBus({
+      transport: transport as never,
+      sagas: [{ definition: saga, store: store as never }],
+      logger: silentLogger,
+    });
+
+    await bus.start();
+
+    await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+    await bus.publish({
+      type: "PaymentReceived",
+      orderId: "order-123",
+      amount: 50,
+    });
+    await bus.publish({
+      type: "PaymentReceived",
+      orderId: "order-123",
+      amount: 50,
+    });
+
+    const state = await store.getByCorrelationId("OrderSaga", "order-123");
+    expect(refunds).toEqual([50]);
+    expect(state?.metadata.isCompleted).toBe(true);
+    expect(state?.metadata.status).toBe("compensated");
+    expect(state?.metadata.compensationReason).toBe("duplicate payment");
+    expect(state?.metadata.completedSteps).toEqual([]);
 
     await bus.stop();
   });
@@ -551,5 +639,1749 @@ describe("BusImpl", () => {
         })
       ).toThrow(/no store/i);
     });
+
+    it("should report registered sagas with their resolved stores", () => {
+      const perSagaStore = new MockStore<OrderState>();
+      const saga = createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .build();
+
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: saga, store: perSagaStore as never }],
+        logger: silentLogger,
+      });
+
+      expect(bus.getSagas()).toEqual([
+        {
+          name: "OrderSaga",
+          handledMessageTypes: ["OrderSubmitted", "PaymentReceived"],
+          store: perSagaStore,
+          cancelTimeout: expect.any(Function),
+        },
+      ]);
+    });
+  });
+
+  describe("outbox", () => {
+    interface ShippingRequested extends BaseMessage {
+      type: "ShippingRequested";
+      orderId: string;
+    }
+
+    class MockOutboxStore<T extends SagaState> extends MockStore<T> {
+      readonly outbox: OutboxMessage[] = [];
+      readonly dispatched = new Set<string>();
+
+      async insertWithOutbox(
+        sagaName: string,
+        correlationId: string,
+        state: T,
+        messages: ReadonlyArray<OutboxMessage>
+      ): Promise<void> {
+        await this.insert(sagaName, correlationId, state);
+        this.outbox.push(...messages);
+      }
+
+      async updateWithOutbox(
+        sagaName: string,
+        state: T,
+        expectedVersion: number,
+        messages: ReadonlyArray<OutboxMessage>
+      ): Promise<void> {
+        await this.update(sagaName, state, expectedVersion);
+        this.outbox.push(...messages);
+      }
+
+      async claimOutboxMessages(limit: number): Promise<OutboxMessage[]> {
+        return this.outbox
+          .filter((m) => !this.dispatched.has(m.id))
+          .slice(0, limit);
+      }
+
+      async markOutboxMessageDispatched(id: string): Promise<void> {
+        this.dispatched.add(id);
+      }
+
+      async markOutboxMessageFailed(): Promise<void> {}
+
+      async deleteDispatchedOutboxMessages(): Promise<number> {
+        return 0;
+      }
+    }
+
+    const createShippingSaga = () =>
+      createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("*", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("PaymentReceived")
+        .handle(async (msg, state, ctx) => {
+          await ctx.publish<ShippingRequested>({
+            type: "ShippingRequested",
+            orderId: msg.orderId,
+          });
+          return { newState: { ...state, status: "paid" } };
+        })
+        .build();
+
+    it("should not publish handler messages when the state update fails", async () => {
+      const published: string[] = [];
+      await transport.subscribe({ endpoint: "ShippingRequested" }, async (env) => {
+        published.push((env as { type: string }).type);
+      });
+
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createShippingSaga(), store: store as never }],
+        logger: silentLogger,
+        outbox: { enabled: true },
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+
+      vi.spyOn(store, "update").mockRejectedValueOnce(new Error("Concurrency error"));
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+      expect(published).toEqual([]);
+
+      // Retry succeeds and the buffered message goes out after the update
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+      expect(published).toEqual(["ShippingRequested"]);
+
+      await bus.stop();
+    });
+
+    it("should write messages to an outbox store and relay them", async () => {
+      const outboxStore = new MockOutboxStore<OrderState>();
+      const published: Array<{ type: string; headers: Record<string, string> }> = [];
+      await transport.subscribe({ endpoint: "ShippingRequested" }, async (env) => {
+        const envelope = env as { type: string; headers: Record<string, string> };
+        published.push(envelope);
+      });
+
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createShippingSaga(), store: outboxStore as never }],
+        logger: silentLogger,
+        outbox: { enabled: true, pollIntervalMs: 10 },
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+
+      expect(outboxStore.outbox).toHaveLength(1);
+      expect(outboxStore.outbox[0]?.options.endpoint).toBe("ShippingRequested");
+
+      await vi.waitFor(() => {
+        expect(outboxStore.dispatched.size).toBe(1);
+      });
+      expect(published).toHaveLength(1);
+      expect(published[0]?.headers["x-saga-outbox-id"]).toBe(outboxStore.outbox[0]?.id);
+
+      await bus.stop();
+    });
+  });
+
+  describe("history", () => {
+    class MockHistoryStore<T extends SagaState> extends MockStore<T> {
+      readonly history: SagaHistoryEntry[] = [];
+
+      async insertWithHistory(
+        sagaName: string,
+        correlationId: string,
+        state: T,
+        entry: SagaHistoryEntry
+      ): Promise<void> {
+        await this.insert(sagaName, correlationId, state);
+        this.history.push(entry);
+      }
+
+      async updateWithHistory(
+        sagaName: string,
+        state: T,
+        expectedVersion: number,
+        entry: SagaHistoryEntry
+      ): Promise<void> {
+        await this.update(sagaName, state, expectedVersion);
+        this.history.push(entry);
+      }
+
+      async getHistory(_sagaName: string, sagaId: string): Promise<SagaHistoryEntry[]> {
+        return this.history.filter((entry) => entry.sagaId === sagaId);
+      }
+
+      async deleteHistoryBefore(): Promise<number> {
+        return 0;
+      }
+    }
+
+    const createPaidSaga = () =>
+      createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("PaymentReceived")
+        .handle(async (msg, state, ctx) => {
+          ctx.complete();
+          return { newState: { ...state, status: "paid", amount: msg.amount } };
+        })
+        .build();
+
+    it("should record every transition with the saga's store", async () => {
+      const historyStore = new MockHistoryStore<OrderState>();
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createPaidSaga(), store: historyStore as never }],
+        logger: silentLogger,
+        history: { enabled: true },
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      vi.spyOn(historyStore, "update").mockRejectedValueOnce(
+        new ConcurrencyError("saga-1", 0, 1)
+      );
+      await bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 });
+
+      const saga = await historyStore.getByCorrelationId("OrderSaga", "order-1");
+      const history = await historyStore.getHistory("OrderSaga", saga!.metadata.sagaId);
+
+      // The conflicting attempt left no entry, and the starting message
+      // has no handler, so it isn't saved again
+      expect(history.map((entry) => entry.outcome)).toEqual([
+        "created",
+        "completed",
+      ]);
+      expect(history[0]).toMatchObject({
+        correlationId: "order-1",
+        messageType: "OrderSubmitted",
+        previousVersion: null,
+        previousState: null,
+        version: 0,
+      });
+      expect(history[1]).toMatchObject({
+        messageType: "PaymentReceived",
+        previousVersion: 0,
+        version: 1,
+        previousState: { status: "submitted" },
+        state: { status: "paid", amount: 10 },
+      });
+
+      await bus.stop();
+    });
+
+    it("should warn when the store cannot record history", () => {
+      createBus({
+        transport: transport as never,
+        sagas: [{ definition: createPaidSaga(), store: store as never }],
+        logger: silentLogger,
+        history: { enabled: true },
+      });
+
+      expect(silentLogger.warn).toHaveBeenCalledWith(
+        "Store does not support saga history; transitions will not be recorded",
+        { sagaName: "OrderSaga" }
+      );
+    });
+  });
+
+  describe("timeouts", () => {
+    // Holds delayed messages until the test delivers them
+    class DelayingTransport extends MockTransport {
+      readonly delayed: Array<{
+        message: BaseMessage;
+        options: TransportPublishOptions;
+      }> = [];
+      readonly cancelScheduled = vi.fn(async (_scheduleId: string) => {});
+
+      override async publish(
+        message: BaseMessage,
+        options: TransportPublishOptions
+      ) {
+        if (options.delayMs) {
+          this.delayed.push({ message, options });
+          return;
+        }
+        await super.publish(message, options);
+      }
+
+      async deliver(index: number) {
+        const entry = this.delayed[index]!;
+        await super.publish(entry.message, { endpoint: entry.options.endpoint });
+      }
+    }
+
+    interface ExpiringState extends SagaState {
+      metadata: SagaStateMetadata;
+      orderId: string;
+      expiredCount: number;
+    }
+
+    type ExpiringMessages = OrderMessages | SagaTimeoutExpired;
+
+    const createExpiringSaga = () =>
+      createSagaMachine<ExpiringState, ExpiringMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .correlate("SagaTimeoutExpired", (msg) => msg.correlationId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          expiredCount: 0,
+        }))
+        .on("OrderSubmitted")
+        .handle(async (_msg, state, ctx) => {
+          ctx.setTimeout(60000);
+          return { newState: state };
+        })
+        .on("PaymentReceived")
+        .handle(async (msg, state, ctx) => {
+          if (msg.amount > 0) {
+            ctx.setTimeout(60000);
+          } else {
+            ctx.complete();
+          }
+          return { newState: state };
+        })
+        .on("SagaTimeoutExpired")
+        .handle(async (_msg, state) => ({
+          newState: { ...state, expiredCount: state.expiredCount + 1 },
+        }))
+        .build();
+
+    it("should drop superseded timeouts and cancel them on the transport", async () => {
+      const delaying = new DelayingTransport();
+      const expiringStore = new MockStore<ExpiringState>();
+      const bus = createBus({
+        transport: delaying as never,
+        sagas: [{ definition: createExpiringSaga(), store: expiringStore as never }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+
+      expect(delaying.delayed).toHaveLength(2);
+      const [first, second] = delaying.delayed.map(
+        (entry) => entry.message as SagaTimeoutExpired
+      );
+      expect(first?.timeoutToken).toBeDefined();
+      expect(second?.timeoutToken).not.toBe(first?.timeoutToken);
+      expect(delaying.delayed[1]?.options.scheduleId).toBe(second?.timeoutToken);
+      expect(delaying.cancelScheduled).toHaveBeenCalledWith(first?.timeoutToken);
+
+      await delaying.deliver(0);
+      let state = await expiringStore.getByCorrelationId("OrderSaga", "order-123");
+      expect(state?.expiredCount).toBe(0);
+
+      await delaying.deliver(1);
+      state = await expiringStore.getByCorrelationId("OrderSaga", "order-123");
+      expect(state?.expiredCount).toBe(1);
+      expect(state?.metadata.timeoutToken).toBe(second?.timeoutToken);
+
+      await bus.stop();
+    });
+
+    it("should cancel the pending timeout when the saga completes", async () => {
+      const delaying = new DelayingTransport();
+      const expiringStore = new MockStore<ExpiringState>();
+      const bus = createBus({
+        transport: delaying as never,
+        sagas: [{ definition: createExpiringSaga(), store: expiringStore as never }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 0 });
+
+      const pending = delaying.delayed[0]?.message as SagaTimeoutExpired;
+      expect(delaying.delayed).toHaveLength(1);
+      expect(delaying.cancelScheduled).toHaveBeenCalledWith(pending.timeoutToken);
+
+      await bus.stop();
+    });
+  });
+
+  describe("requests", () => {
+    interface OrderAccepted extends BaseMessage {
+      type: "OrderAccepted";
+      orderId: string;
+      status: OrderState["status"];
+    }
+
+    // Replies to every message, including those after the initial request
+    const createReplyingSaga = () =>
+      createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("OrderSubmitted")
+        .handle(async (msg, state, ctx) => {
+          await ctx.reply({
+            type: "OrderAccepted",
+            orderId: msg.orderId,
+            status: state.status,
+          });
+          return { newState: state };
+        })
+        .on("PaymentReceived")
+        .handle(async (msg, state, ctx) => {
+          await ctx.reply({
+            type: "OrderAccepted",
+            orderId: msg.orderId,
+            status: "paid",
+          });
+          return { newState: { ...state, status: "paid" as const, amount: msg.amount } };
+        })
+        .build();
+
+    it("should resolve request() with the saga's reply", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createReplyingSaga(), store: store as never }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      const reply = await bus.request<OrderAccepted>(
+        { type: "OrderSubmitted", orderId: "order-123" },
+        { timeoutMs: 1000 }
+      );
+
+      expect(reply).toEqual({
+        type: "OrderAccepted",
+        orderId: "order-123",
+        status: "submitted",
+      });
+
+      const state = await store.getByCorrelationId("OrderSaga", "order-123");
+      expect(state?.metadata.replyTo?.endpoint).toMatch(/^saga-bus\.replies\./);
+
+      await bus.stop();
+    });
+
+    it("should let later handlers reply to the stored reply address", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createReplyingSaga(), store: store as never }],
+        logger: silentLogger,
+        requests: { replyEndpoint: "order-api.replies" },
+      });
+
+      await bus.start();
+      await bus.request({ type: "OrderSubmitted", orderId: "order-123" });
+
+      const replies: BaseMessage[] = [];
+      await transport.subscribe({ endpoint: "order-api.replies" }, async (envelope) => {
+        replies.push((envelope as { payload: BaseMessage }).payload);
+      });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+
+      expect(replies).toEqual([
+        { type: "OrderAccepted", orderId: "order-123", status: "paid" },
+      ]);
+
+      await bus.stop();
+    });
+
+    it("should reject with RequestTimeoutError when no reply arrives", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+
+      await expect(
+        bus.request({ type: "Unanswered" }, { timeoutMs: 20 })
+      ).rejects.toBeInstanceOf(RequestTimeoutError);
+
+      await bus.stop();
+    });
+
+    it("should resolve waitForSaga() once the predicate matches", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createReplyingSaga(), store: store as never }],
+        logger: silentLogger,
+        requests: { pollIntervalMs: 60000 },
+      });
+
+      await bus.start();
+      await bus.request({ type: "OrderSubmitted", orderId: "order-123" });
+
+      const paid = bus.waitForSaga<OrderState>(
+        "OrderSaga",
+        "order-123",
+        (state) => state.status === "paid",
+        1000
+      );
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+
+      const state = await paid;
+      expect(state.status).toBe("paid");
+      expect(state.amount).toBe(10);
+
+      await bus.stop();
+    });
+
+    it("should reject waitForSaga() for unknown sagas and on timeout", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createReplyingSaga(), store: store as never }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+
+      await expect(
+        bus.waitForSaga("UnknownSaga", "order-123", () => true)
+      ).rejects.toThrow('Saga "UnknownSaga" is not registered with this bus');
+      await expect(
+        bus.waitForSaga("OrderSaga", "order-123", () => true, 20)
+      ).rejects.toBeInstanceOf(RequestTimeoutError);
+
+      await bus.stop();
+    });
+
+    it("should reject waitForSaga() when the predicate throws", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createReplyingSaga(), store: store as never }],
+        logger: silentLogger,
+        requests: { pollIntervalMs: 60000 },
+      });
+
+      await bus.start();
+      await bus.request({ type: "OrderSubmitted", orderId: "order-123" });
+
+      // Checked against the stored state
+      await expect(
+        bus.waitForSaga("OrderSaga", "order-123", () => {
+          throw new Error("bad predicate");
+        })
+      ).rejects.toThrow("bad predicate");
+
+      // Checked against the state a handler just persisted
+      const paid = bus.waitForSaga<OrderState>(
+        "OrderSaga",
+        "order-123",
+        (state) => {
+          if (state.status === "paid") throw new Error("bad predicate");
+          return false;
+        },
+        1000
+      );
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+
+      await expect(paid).rejects.toThrow("bad predicate");
+      const state = await store.getByCorrelationId("OrderSaga", "order-123");
+      expect(state?.status).toBe("paid");
+
+      await bus.stop();
+    });
+
+    it("should subscribe the reply endpoint once across restarts", async () => {
+      const subscribe = vi.spyOn(transport, "subscribe");
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: createReplyingSaga(), store: store as never }],
+        logger: silentLogger,
+        requests: { replyEndpoint: "order-api.replies" },
+      });
+      const replySubscriptions = () =>
+        subscribe.mock.calls.filter(
+          ([options]) => options.endpoint === "order-api.replies"
+        ).length;
+
+      await bus.start();
+      subscribe.mockClear();
+      subscribe.mockRejectedValueOnce(new Error("broker unavailable"));
+
+      // A failed subscribe is retried by the next request
+      await expect(
+        bus.request({ type: "OrderSubmitted", orderId: "order-1" })
+      ).rejects.toThrow("broker unavailable");
+      await bus.request({ type: "OrderSubmitted", orderId: "order-2" });
+      expect(replySubscriptions()).toBe(2);
+
+      await bus.stop();
+      await bus.start();
+      await bus.request({ type: "OrderSubmitted", orderId: "order-3" });
+      expect(replySubscriptions()).toBe(2);
+
+      await bus.stop();
+    });
+
+    it("should reject pending requests when the bus stops", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      const pending = bus.request({ type: "Unanswered" }, { timeoutMs: 60000 });
+      // Let the request subscribe and publish before stopping
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await bus.stop();
+
+      await expect(pending).rejects.toThrow("Bus stopped");
+    });
+  });
+
+  describe("state migrations", () => {
+    it("should migrate old state on load and persist it on update", async () => {
+      // v1 stored the amount in cents
+      const saga = createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .stateVersion(2)
+        .migrate<OrderState & { amountCents: number }>(
+          1,
+          2,
+          ({ amountCents, ...state }) => ({ ...state, amount: amountCents / 100 })
+        )
+        .on("PaymentReceived")
+        .handle(async (msg, state) => ({
+          newState: {
+            ...state,
+            status: "paid" as const,
+            amount: (state.amount ?? 0) + msg.amount,
+          },
+        }))
+        .build();
+
+      await store.insert("OrderSaga", "order-123", {
+        metadata: {
+          sagaId: "saga-1",
+          version: 1,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          isCompleted: false,
+        },
+        orderId: "order-123",
+        status: "submitted",
+        amountCents: 1500,
+      } as OrderState);
+
+      const bus = createBus({
+        transport: transport as never,
+        sagas: [{ definition: saga, store: store as never }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 5 });
+
+      const state = await store.getByCorrelationId("OrderSaga", "order-123");
+      expect(state).toMatchObject({ status: "paid", amount: 20 });
+      expect(state).not.toHaveProperty("amountCents");
+      expect(state?.metadata.schemaVersion).toBe(2);
+      expect(state?.metadata.version).toBe(2);
+
+      // New instances start at the current version
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-456" });
+      const created = await store.getByCorrelationId("OrderSaga", "order-456");
+      expect(created?.metadata.schemaVersion).toBe(2);
+
+      await bus.stop();
+    });
+  });
+
+  describe("unhandled messages", () => {
+    // Only handles payments once the order is paid
+    const createGuardedSaga = (
+      configure: (
+        builder: ReturnType<typeof createSagaMachine<OrderState, OrderMessages>>
+      ) => void = () => {}
+    ) => {
+      const builder = createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("PaymentReceived")
+        .when((state) => state.status === "paid")
+        .handle(async (_msg, state) => ({ newState: state }));
+      configure(builder);
+      return builder.build();
+    };
+
+    const payment = { type: "PaymentReceived", orderId: "order-1", amount: 10 };
+
+    it("should warn, count and leave the state untouched by default", async () => {
+      const metrics = { increment: vi.fn(), recordDuration: vi.fn(), gauge: vi.fn() };
+      const updateSpy = vi.spyOn(store, "update");
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createGuardedSaga() }],
+        logger: silentLogger,
+        metrics,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish(payment);
+
+      const state = await store.getByCorrelationId("OrderSaga", "order-1");
+      expect(state?.metadata.version).toBe(0);
+      expect(updateSpy).not.toHaveBeenCalled();
+      expect(silentLogger.warn).toHaveBeenCalledWith(
+        "No handler matched message",
+        expect.objectContaining({ sagaName: "OrderSaga", messageType: "PaymentReceived" })
+      );
+      expect(metrics.increment).toHaveBeenCalledWith(
+        SAGA_BUS_METRICS.UNHANDLED_MESSAGES,
+        1,
+        { saga_name: "OrderSaga", message_type: "PaymentReceived", policy: "warn" }
+      );
+
+      await bus.stop();
+    });
+
+    it("should only log at debug level with the ignore policy", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createGuardedSaga((b) => b.onUnhandled("ignore")) }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish(payment);
+
+      expect(silentLogger.warn).not.toHaveBeenCalled();
+      expect(silentLogger.debug).toHaveBeenCalledWith(
+        "No handler matched message",
+        expect.objectContaining({ messageType: "PaymentReceived" })
+      );
+
+      await bus.stop();
+    });
+
+    it("should pass an UnhandledMessageError to the error handler", async () => {
+      const errorHandler = { handle: vi.fn().mockResolvedValue("drop") };
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createGuardedSaga((b) => b.onUnhandled("error")) }],
+        logger: silentLogger,
+        errorHandler,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish(payment);
+
+      const [error] = errorHandler.handle.mock.calls[0]!;
+      expect(error).toBeInstanceOf(UnhandledMessageError);
+      expect(error).toMatchObject({
+        sagaName: "OrderSaga",
+        messageType: "PaymentReceived",
+        policy: "error",
+      });
+
+      await bus.stop();
+    });
+
+    it("should dead-letter without retrying with the dlq policy", async () => {
+      const errorHandler = { handle: vi.fn().mockResolvedValue("retry") };
+      const publishSpy = vi.spyOn(transport, "publish");
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createGuardedSaga((b) => b.onUnhandled("dlq")) }],
+        logger: silentLogger,
+        errorHandler,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish(payment);
+
+      expect(errorHandler.handle).not.toHaveBeenCalled();
+      expect(publishSpy.mock.calls.map(([, options]) => options.endpoint)).toEqual([
+        "OrderSubmitted",
+        "PaymentReceived",
+        "PaymentReceived.dlq",
+      ]);
+
+      await bus.stop();
+    });
+
+    it("should run the otherwise() handler instead", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [
+          {
+            definition: createGuardedSaga((b) =>
+              b.otherwise(async (msg, state) => ({
+                newState: { ...state, amount: (msg as PaymentReceived).amount },
+              }))
+            ),
+          },
+        ],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish(payment);
+
+      const state = await store.getByCorrelationId("OrderSaga", "order-1");
+      expect(state?.amount).toBe(10);
+      expect(state?.metadata.version).toBe(1);
+      expect(silentLogger.warn).not.toHaveBeenCalled();
+
+      await bus.stop();
+    });
+  });
+
+  describe("child sagas", () => {
+    interface PaymentRequested extends BaseMessage {
+      type: "PaymentRequested";
+      orderId: string;
+    }
+
+    interface PaymentSettled extends BaseMessage {
+      type: "PaymentSettled";
+      orderId: string;
+      declined: boolean;
+    }
+
+    type ParentMessages =
+      | OrderSubmitted
+      | SagaChildCompleted
+      | SagaChildCompensated;
+
+    const initialState = (orderId: string, sagaId: string): OrderState => ({
+      metadata: {
+        sagaId,
+        version: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isCompleted: false,
+      },
+      orderId,
+      status: "submitted",
+    });
+
+    const createParentSaga = (finished: ParentMessages[]) =>
+      createSagaMachine<OrderState, ParentMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("SagaChildCompleted", (msg) => msg.correlationId)
+        .correlate("SagaChildCompensated", (msg) => msg.correlationId)
+        .initial<OrderSubmitted>((msg, ctx) => initialState(msg.orderId, ctx.sagaId))
+        .on("OrderSubmitted")
+        .handle(async (msg, state, ctx) => {
+          await ctx.startChildSaga("PaymentSaga", {
+            type: "PaymentRequested",
+            orderId: msg.orderId,
+          });
+          return { newState: state };
+        })
+        .on("SagaChildCompleted")
+        .handle(async (msg, state) => {
+          finished.push(msg);
+          return { newState: { ...state, status: "paid" }, isCompleted: true };
+        })
+        .on("SagaChildCompensated")
+        .handle(async (msg, state, ctx) => {
+          finished.push(msg);
+          ctx.compensate(msg.reason ?? "payment failed");
+          return { newState: state };
+        })
+        .build();
+
+    const createChildSaga = () =>
+      createSagaMachine<OrderState, PaymentRequested | PaymentSettled>()
+        .name("PaymentSaga")
+        .correlate("PaymentRequested", (msg) => `payment-${msg.orderId}`, {
+          canStart: true,
+        })
+        .correlate("PaymentSettled", (msg) => `payment-${msg.orderId}`)
+        .initial<PaymentRequested>((msg, ctx) =>
+          initialState(msg.orderId, ctx.sagaId)
+        )
+        .on("PaymentRequested")
+        .handle(async (_msg, state) => ({ newState: state }))
+        .on("PaymentSettled")
+        .handle(async (msg, state, ctx) => {
+          if (msg.declined) {
+            ctx.compensate("card declined");
+            return { newState: state };
+          }
+          return { newState: { ...state, status: "paid" }, isCompleted: true };
+        })
+        .build();
+
+    const startOrder = async (finished: ParentMessages[]) => {
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [
+          { definition: createParentSaga(finished) },
+          { definition: createChildSaga() },
+        ],
+        logger: silentLogger,
+      });
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+      return bus;
+    };
+
+    it("should record the parent on the child saga", async () => {
+      const bus = await startOrder([]);
+
+      const parent = await store.getByCorrelationId("OrderSaga", "order-123");
+      const child = await store.getByCorrelationId(
+        "PaymentSaga",
+        "payment-order-123"
+      );
+      expect(child?.metadata.parent).toEqual({
+        sagaName: "OrderSaga",
+        sagaId: parent?.metadata.sagaId,
+        correlationId: "order-123",
+      });
+      expect(parent?.metadata.parent).toBeUndefined();
+
+      await bus.stop();
+    });
+
+    it("should notify the parent when the child completes", async () => {
+      const finished: ParentMessages[] = [];
+      const bus = await startOrder(finished);
+
+      await bus.publish({
+        type: "PaymentSettled",
+        orderId: "order-123",
+        declined: false,
+      });
+
+      const parent = await store.getByCorrelationId("OrderSaga", "order-123");
+      const child = await store.getByCorrelationId(
+        "PaymentSaga",
+        "payment-order-123"
+      );
+      expect(finished).toEqual([
+        {
+          type: SAGA_CHILD_COMPLETED_MESSAGE_TYPE,
+          sagaName: "OrderSaga",
+          sagaId: parent?.metadata.sagaId,
+          correlationId: "order-123",
+          childSagaName: "PaymentSaga",
+          childSagaId: child?.metadata.sagaId,
+          childCorrelationId: "payment-order-123",
+        },
+      ]);
+      expect(parent?.metadata.status).toBe("completed");
+
+      await bus.stop();
+    });
+
+    it("should notify the parent when the child is compensated", async () => {
+      const finished: ParentMessages[] = [];
+      const bus = await startOrder(finished);
+
+      await bus.publish({
+        type: "PaymentSettled",
+        orderId: "order-123",
+        declined: true,
+      });
+
+      const parent = await store.getByCorrelationId("OrderSaga", "order-123");
+      expect(finished).toHaveLength(1);
+      expect(finished[0]).toMatchObject({
+        type: SAGA_CHILD_COMPENSATED_MESSAGE_TYPE,
+        childSagaName: "PaymentSaga",
+        reason: "card declined",
+      });
+      expect(parent?.metadata.status).toBe("compensated");
+      expect(parent?.metadata.compensationReason).toBe("card declined");
+
+      await bus.stop();
+    });
+  });
+
+  describe("fan-out", () => {
+    // Counts deliveries; fails the first `failures` of them
+    const createCountingSaga = (name: string, calls: string[], failures = 0) =>
+      createSagaMachine<OrderState, OrderMessages>()
+        .name(name)
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("OrderSubmitted")
+        .handle(async (_msg, state) => {
+          calls.push(name);
+          if (calls.filter((call) => call === name).length <= failures) {
+            throw new TransientError("flaky");
+          }
+          return { newState: state };
+        })
+        .build();
+
+    it("should only re-run the failed saga on retry", async () => {
+      const calls: string[] = [];
+      const publishSpy = vi.spyOn(transport, "publish");
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [
+          { definition: createCountingSaga("ShippingSaga", calls) },
+          { definition: createCountingSaga("BillingSaga", calls, 1) },
+        ],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+
+      expect(calls).toEqual(["ShippingSaga", "BillingSaga", "BillingSaga"]);
+      const retry = publishSpy.mock.calls[1];
+      expect(retry?.[1].headers?.[RETRY_HEADERS.TARGET_SAGA]).toBe("BillingSaga");
+
+      await bus.stop();
+    });
+
+    it("should subscribe each saga in its own group in perSaga mode", async () => {
+      const calls: string[] = [];
+      const subscribeSpy = vi.spyOn(transport, "subscribe");
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [
+          { definition: createCountingSaga("ShippingSaga", calls) },
+          { definition: createCountingSaga("BillingSaga", calls, 1) },
+        ],
+        logger: silentLogger,
+        worker: { subscriptionMode: "perSaga" },
+      });
+
+      await bus.start();
+
+      expect(subscribeSpy.mock.calls.map(([options]) => options)).toEqual([
+        { endpoint: "OrderSubmitted", concurrency: 1, group: "OrderSubmitted.ShippingSaga" },
+        { endpoint: "OrderSubmitted", concurrency: 1, group: "OrderSubmitted.BillingSaga" },
+      ]);
+
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+      expect(calls).toEqual(["ShippingSaga", "BillingSaga", "BillingSaga"]);
+
+      await bus.stop();
+    });
+
+    it("should use a custom group naming function", async () => {
+      const subscribeSpy = vi.spyOn(transport, "subscribe");
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createCountingSaga("ShippingSaga", []) }],
+        logger: silentLogger,
+        worker: {
+          subscriptionMode: "perSaga",
+          groupNaming: (sagaName) => `billing-service.${sagaName}`,
+        },
+      });
+
+      await bus.start();
+
+      expect(subscribeSpy.mock.calls[0]?.[0].group).toBe("billing-service.ShippingSaga");
+
+      await bus.stop();
+    });
+  });
+
+  describe("batch publishing", () => {
+    const createFanOutSaga = (fail = false) =>
+      createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("PaymentReceived")
+        .handle(async (msg, state, ctx) => {
+          for (const item of ["a", "b", "c"]) {
+            await ctx.publish({ type: "ReserveItem", orderId: msg.orderId, item });
+          }
+          if (fail) {
+            throw new Error("handler failed");
+          }
+          return { newState: { ...state, status: "paid" } };
+        })
+        .build();
+
+    it("should publish a handler's messages as one batch", async () => {
+      const publishBatch = vi.fn().mockResolvedValue(undefined);
+      const bus = createBus({
+        transport: Object.assign(transport, { publishBatch }) as never,
+        store: store as never,
+        sagas: [{ definition: createFanOutSaga() }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+
+      expect(publishBatch).toHaveBeenCalledTimes(1);
+      expect(
+        publishBatch.mock.calls[0]?.[0].map(
+          ({ message }: { message: { item: string } }) => message.item
+        )
+      ).toEqual(["a", "b", "c"]);
+
+      await bus.stop();
+    });
+
+    it("should not publish the messages of a failed handler", async () => {
+      const publishBatch = vi.fn().mockResolvedValue(undefined);
+      const bus = createBus({
+        transport: Object.assign(transport, { publishBatch }) as never,
+        store: store as never,
+        sagas: [{ definition: createFanOutSaga(true) }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-123" });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-123", amount: 10 });
+
+      expect(publishBatch).not.toHaveBeenCalled();
+
+      await bus.stop();
+    });
+  });
+
+  describe("per-saga serialization", () => {
+    // Adds each payment to the saga's amount, tracking overlapping handlers
+    const createPaymentSaga = (gate: Promise<void> = Promise.resolve()) => {
+      const stats = { active: 0, maxActive: 0, calls: 0 };
+
+      const definition = createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("OrderSubmitted")
+        .handle(async (_msg, state) => ({ newState: state }))
+        .on("PaymentReceived")
+        .handle(async (msg, state) => {
+          stats.calls++;
+          stats.active++;
+          stats.maxActive = Math.max(stats.maxActive, stats.active);
+          await gate;
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          stats.active--;
+          return {
+            newState: { ...state, amount: (state.amount ?? 0) + msg.amount },
+          };
+        })
+        .build();
+
+      return { definition, stats };
+    };
+
+    it("should process messages for the same saga one at a time", async () => {
+      const { definition, stats } = createPaymentSaga();
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition }],
+        logger: silentLogger,
+        worker: { defaultConcurrency: 4 },
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await Promise.all([
+        bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 }),
+        bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 5 }),
+      ]);
+
+      const state = await store.getByCorrelationId("OrderSaga", "order-1");
+      expect(state?.amount).toBe(15);
+      expect(stats.maxActive).toBe(1);
+      expect(silentLogger.error).not.toHaveBeenCalled();
+
+      await bus.stop();
+    });
+
+    it("should keep processing different sagas in parallel", async () => {
+      let release = () => {};
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const { definition, stats } = createPaymentSaga(gate);
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition }],
+        logger: silentLogger,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-2" });
+
+      const delivered = Promise.all([
+        bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 }),
+        bus.publish({ type: "PaymentReceived", orderId: "order-2", amount: 5 }),
+      ]);
+      await vi.waitFor(() => expect(stats.active).toBe(2));
+      release();
+      await delivered;
+
+      expect((await store.getByCorrelationId("OrderSaga", "order-1"))?.amount).toBe(10);
+      expect((await store.getByCorrelationId("OrderSaga", "order-2"))?.amount).toBe(5);
+
+      await bus.stop();
+    });
+
+    it("should reload and re-run the handler after a ConcurrencyError", async () => {
+      const { definition, stats } = createPaymentSaga();
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition }],
+        logger: silentLogger,
+        worker: { concurrencyRetries: 1 },
+      });
+      const publishSpy = vi.spyOn(transport, "publish");
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      vi.spyOn(store, "update").mockRejectedValueOnce(new ConcurrencyError("saga-1", 0, 1));
+      await bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 });
+
+      const state = await store.getByCorrelationId("OrderSaga", "order-1");
+      expect(stats.calls).toBe(2);
+      expect(state?.amount).toBe(10);
+      expect(state?.metadata.version).toBe(2);
+      expect(silentLogger.error).not.toHaveBeenCalled();
+      // No republish through the retry handler
+      expect(publishSpy).toHaveBeenCalledTimes(2);
+
+      await bus.stop();
+    });
+  });
+
+  describe("graceful shutdown", () => {
+    // Handles OrderSubmitted once `release` is called
+    const createBlockingBus = (shutdownTimeoutMs?: number) => {
+      let release = () => {};
+      const released = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const started = vi.fn();
+
+      const definition = createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("OrderSubmitted")
+        .handle(async (_msg, state) => {
+          started();
+          await released;
+          return { newState: state };
+        })
+        .on("PaymentReceived")
+        .handle(async (_msg, state) => ({ newState: state }))
+        .build();
+
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition }],
+        logger: silentLogger,
+        worker: { shutdownTimeoutMs },
+      });
+
+      return { bus, release, started };
+    };
+
+    it("should wait for in-flight messages before stopping the transport", async () => {
+      const { bus, release, started } = createBlockingBus();
+      await bus.start();
+
+      const delivered = bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await vi.waitFor(() => expect(started).toHaveBeenCalled());
+
+      const stopping = bus.stop();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(transport.started).toBe(true);
+
+      release();
+      await delivered;
+      const stats = await stopping;
+
+      expect(stats).toMatchObject({
+        inFlight: 1,
+        completed: 1,
+        handedBack: 0,
+        refused: 0,
+        timedOut: false,
+      });
+      expect(await store.getByCorrelationId("OrderSaga", "order-1")).not.toBeNull();
+      expect(transport.started).toBe(false);
+    });
+
+    it("should refuse messages that arrive while draining", async () => {
+      const { bus, release, started } = createBlockingBus();
+      await bus.start();
+
+      const delivered = bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await vi.waitFor(() => expect(started).toHaveBeenCalled());
+      const stopping = bus.stop();
+
+      await expect(
+        bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 })
+      ).rejects.toThrow(BusStoppingError);
+
+      release();
+      await delivered;
+      expect((await stopping).refused).toBe(1);
+    });
+
+    it("should hand messages back to the transport at the shutdown timeout", async () => {
+      const { bus, release, started } = createBlockingBus(20);
+      await bus.start();
+
+      const delivered = bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await vi.waitFor(() => expect(started).toHaveBeenCalled());
+
+      const stats = await bus.stop();
+
+      await expect(delivered).rejects.toThrow(BusStoppingError);
+      expect(stats).toMatchObject({
+        inFlight: 1,
+        completed: 0,
+        handedBack: 1,
+        timedOut: true,
+      });
+      expect(transport.started).toBe(false);
+      release();
+    });
+
+    it("should stop receiving on the transport before draining", async () => {
+      const stopReceiving = vi.fn(async () => {});
+      const { bus } = createBlockingBus();
+      Object.assign(transport, { stopReceiving });
+      await bus.start();
+
+      const stats = await bus.stop();
+
+      expect(stopReceiving).toHaveBeenCalledOnce();
+      expect(stats).toMatchObject({ inFlight: 0, timedOut: false });
+    });
+  });
+
+  describe("observability", () => {
+    const createObservedSaga = (failures = 0) => {
+      let failed = 0;
+      return createSagaMachine<OrderState, OrderMessages>()
+        .name("OrderSaga")
+        .correlate("OrderSubmitted", (msg) => msg.orderId, { canStart: true })
+        .correlate("PaymentReceived", (msg) => msg.orderId)
+        .initial<OrderSubmitted>((msg, ctx) => ({
+          metadata: {
+            sagaId: ctx.sagaId,
+            version: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            isCompleted: false,
+          },
+          orderId: msg.orderId,
+          status: "submitted",
+        }))
+        .on("OrderSubmitted")
+        .handle(async (msg, state, ctx) => {
+          if (failed < failures) {
+            failed++;
+            throw new TransientError("flaky");
+          }
+          ctx.setTimeout(60000);
+          await ctx.publish({ type: "PaymentRequested", orderId: msg.orderId });
+          return { newState: state };
+        })
+        .on("PaymentReceived")
+        .handle(async (_msg, state, ctx) => {
+          ctx.complete();
+          return { newState: { ...state, status: "paid" as const } };
+        })
+        .build();
+    };
+
+    const createMetrics = () => ({
+      increment: vi.fn(),
+      recordDuration: vi.fn(),
+      gauge: vi.fn(),
+    });
+
+    it("should report saga lifecycle metrics", async () => {
+      const metrics = createMetrics();
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createObservedSaga() }],
+        logger: silentLogger,
+        metrics,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 });
+
+      const counted = metrics.increment.mock.calls.map(([name, , tags]) => [name, tags]);
+      expect(counted).toEqual([
+        [
+          SAGA_BUS_METRICS.SAGAS_CREATED,
+          { saga_name: "OrderSaga", message_type: "OrderSubmitted" },
+        ],
+        [SAGA_BUS_METRICS.TIMEOUTS_SCHEDULED, { saga_name: "OrderSaga" }],
+        [SAGA_BUS_METRICS.SAGAS_COMPLETED, { saga_name: "OrderSaga", status: "completed" }],
+      ]);
+      expect(metrics.recordDuration).toHaveBeenCalledTimes(2);
+      expect(metrics.recordDuration).toHaveBeenCalledWith(
+        SAGA_BUS_METRICS.PROCESSING_DURATION,
+        expect.any(Number),
+        { saga_name: "OrderSaga", message_type: "PaymentReceived", outcome: "success" }
+      );
+
+      await bus.stop();
+    });
+
+    it("should report retries and failed processing", async () => {
+      const metrics = createMetrics();
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createObservedSaga(1) }],
+        logger: silentLogger,
+        metrics,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+
+      expect(metrics.increment).toHaveBeenCalledWith(SAGA_BUS_METRICS.RETRIES, 1, {
+        saga_name: "OrderSaga",
+        message_type: "OrderSubmitted",
+      });
+      expect(metrics.recordDuration.mock.calls.map(([, , tags]) => tags?.outcome)).toEqual([
+        "failure",
+        "success",
+      ]);
+
+      await bus.stop();
+    });
+
+    it("should count correlation failures and concurrency conflicts", async () => {
+      const metrics = createMetrics();
+      const definition = createObservedSaga();
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition }],
+        logger: silentLogger,
+        metrics,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "" });
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      vi.spyOn(store, "update").mockRejectedValueOnce(new ConcurrencyError("saga-1", 1));
+      await bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 });
+
+      expect(metrics.increment).toHaveBeenCalledWith(
+        SAGA_BUS_METRICS.CORRELATION_FAILURES,
+        1,
+        { saga_name: "OrderSaga", message_type: "OrderSubmitted", action: "drop" }
+      );
+      expect(metrics.increment).toHaveBeenCalledWith(
+        SAGA_BUS_METRICS.CONCURRENCY_CONFLICTS,
+        1,
+        { saga_name: "OrderSaga", message_type: "PaymentReceived" }
+      );
+
+      await bus.stop();
+    });
+
+    it("should trace loading, handling, persisting and publishing", async () => {
+      const spans: string[] = [];
+      const tracer = {
+        withSpan: vi.fn(async <T>(name: string, _ctx: unknown, fn: () => Promise<T>) => {
+          spans.push(name);
+          return fn();
+        }),
+      };
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createObservedSaga() }],
+        logger: silentLogger,
+        tracer,
+      });
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+
+      expect(spans).toEqual([
+        SAGA_BUS_SPANS.LOAD,
+        SAGA_BUS_SPANS.PERSIST, // insert of the new saga
+        SAGA_BUS_SPANS.HANDLE,
+        SAGA_BUS_SPANS.PUBLISH, // handler's message, inside the handler span
+        SAGA_BUS_SPANS.PERSIST,
+        SAGA_BUS_SPANS.PUBLISH, // timeout
+      ]);
+      expect(tracer.withSpan.mock.calls[0]?.[1]).toMatchObject({
+        sagaName: "OrderSaga",
+        correlationId: "order-1",
+      });
+
+      await bus.stop();
+    });
+
+    it("should emit saga lifecycle events", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createObservedSaga() }],
+        logger: silentLogger,
+      });
+      const events: Array<[string, Record<string, unknown>]> = [];
+      for (const name of [
+        "sagaCreated",
+        "stateChanged",
+        "timeoutScheduled",
+        "sagaCompleted",
+      ] as const) {
+        bus.on(name, (event) => {
+          events.push([name, event as unknown as Record<string, unknown>]);
+        });
+      }
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish({ type: "PaymentReceived", orderId: "order-1", amount: 10 });
+
+      expect(events.map(([name]) => name)).toEqual([
+        "sagaCreated",
+        "stateChanged",
+        "timeoutScheduled",
+        "stateChanged",
+        "sagaCompleted",
+      ]);
+      const sagaId = events[0]![1].sagaId;
+      expect(events[0]![1]).toMatchObject({
+        sagaName: "OrderSaga",
+        correlationId: "order-1",
+        messageType: "OrderSubmitted",
+        version: 0,
+      });
+      expect(events[2]![1]).toMatchObject({ sagaId, version: 1, timeoutMs: 60000 });
+      expect(events[3]![1]).toMatchObject({
+        sagaId,
+        messageType: "PaymentReceived",
+        previousVersion: 1,
+        version: 2,
+      });
+      expect(events[4]![1]).toMatchObject({ sagaId, status: "completed", version: 2 });
+
+      await bus.stop();
+    });
+
+    it("should emit retry and correlation failure events", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createObservedSaga(1) }],
+        logger: silentLogger,
+      });
+      const retried = vi.fn();
+      const correlationFailed = vi.fn();
+      bus.on("messageRetried", retried);
+      bus.on("correlationFailed", correlationFailed);
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      await bus.publish({ type: "OrderSubmitted", orderId: "" });
+
+      expect(retried).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sagaName: "OrderSaga",
+          correlationId: "order-1",
+          messageType: "OrderSubmitted",
+          endpoint: "OrderSubmitted",
+          attempt: 1,
+          maxAttempts: 3,
+          error: expect.any(TransientError),
+        })
+      );
+      expect(correlationFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ sagaName: "OrderSaga", action: "drop" })
+      );
+
+      await bus.stop();
+    });
+
+    it("should isolate failing listeners and remove listeners", async () => {
+      const bus = createBus({
+        transport: transport as never,
+        store: store as never,
+        sagas: [{ definition: createObservedSaga() }],
+        logger: silentLogger,
+      });
+      const created = vi.fn();
+      bus.on("sagaCreated", () => {
+        throw new Error("listener failed");
+      });
+      bus.on("sagaCreated", async () => {
+        throw new Error("async listener failed");
+      });
+      const unsubscribe = bus.on("sagaCreated", created);
+
+      await bus.start();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-1" });
+      unsubscribe();
+      await bus.publish({ type: "OrderSubmitted", orderId: "order-2" });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(created).toHaveBeenCalledOnce();
+      expect(await store.getByCorrelationId("OrderSaga", "order-2")).not.toBeNull();
+      expect(silentLogger.error).toHaveBeenCalledWith("Bus event listener failed", {
+        event: "sagaCreated",
+        error: "async listener failed",
+      });
+
+      await bus.stop();
+    });
   });
 });
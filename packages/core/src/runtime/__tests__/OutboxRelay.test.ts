@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type {
+  OutboxMessage,
+  SagaOutboxStore,
+  SagaState,
+  Transport,
+} from "../../types/index.js";
+import {
+  OutboxRelay,
+  OUTBOX_MESSAGE_ID_HEADER,
+  isOutboxStore,
+} from "../OutboxRelay.js";
+
+const createMockTransport = (): Transport => ({
+  start: vi.fn().mockResolvedValue(undefined),
+  stop: vi.fn().mockResolvedValue(undefined),
+  subscribe: vi.fn().mockResolvedValue(undefined),
+  publish: vi.fn().mockResolvedValue(undefined),
+});
+
+const createMockOutboxStore = (
+  messages: OutboxMessage[]
+): SagaOutboxStore<SagaState> => ({
+  getById: vi.fn(),
+  getByCorrelationId: vi.fn(),
+  insert: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  insertWithOutbox: vi.fn(),
+  updateWithOutbox: vi.fn(),
+  claimOutboxMessages: vi.fn().mockResolvedValueOnce(messages).mockResolvedValue([]),
+  markOutboxMessageDispatched: vi.fn().mockResolvedValue(undefined),
+  markOutboxMessageFailed: vi.fn().mockResolvedValue(undefined),
+  deleteDispatchedOutboxMessages: vi.fn().mockResolvedValue(0),
+});
+
+const createOutboxMessage = (
+  overrides: Partial<OutboxMessage> = {}
+): OutboxMessage => ({
+  id: "outbox-1",
+  sagaName: "OrderSaga",
+  sagaId: "saga-1",
+  message: { type: "ShipOrder" },
+  options: { endpoint: "ShipOrder", key: "order-1" },
+  createdAt: new Date(),
+  attempts: 0,
+  ...overrides,
+});
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+describe("OutboxRelay", () => {
+  let transport: Transport;
+
+  beforeEach(() => {
+    transport = createMockTransport();
+    vi.clearAllMocks();
+  });
+
+  it("should publish claimed messages and mark them dispatched", async () => {
+    const store = createMockOutboxStore([createOutboxMessage()]);
+    const relay = new OutboxRelay({ stores: [store], transport, logger: silentLogger });
+
+    const dispatched = await relay.dispatchPending();
+
+    expect(dispatched).toBe(1);
+    expect(transport.publish).toHaveBeenCalledWith(
+      { type: "ShipOrder" },
+      {
+        endpoint: "ShipOrder",
+        key: "order-1",
+        headers: { [OUTBOX_MESSAGE_ID_HEADER]: "outbox-1" },
+        delayMs: undefined,
+      }
+    );
+    expect(store.markOutboxMessageDispatched).toHaveBeenCalledWith("outbox-1");
+  });
+
+  it("should mark failed and not dispatched when publish fails", async () => {
+    const store = createMockOutboxStore([createOutboxMessage()]);
+    vi.mocked(transport.publish).mockRejectedValueOnce(new Error("broker down"));
+    const relay = new OutboxRelay({ stores: [store], transport, logger: silentLogger });
+
+    const dispatched = await relay.dispatchPending();
+
+    expect(dispatched).toBe(0);
+    expect(store.markOutboxMessageFailed).toHaveBeenCalledWith("outbox-1", "broker down");
+    expect(store.markOutboxMessageDispatched).not.toHaveBeenCalled();
+  });
+
+  it("should publish scheduled messages with the remaining delay", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T12:00:10Z"));
+
+    const store = createMockOutboxStore([
+      createOutboxMessage({
+        options: { endpoint: "ShipOrder", delayMs: 60000 },
+        createdAt: new Date("2024-01-01T12:00:00Z"),
+      }),
+    ]);
+    const relay = new OutboxRelay({ stores: [store], transport, logger: silentLogger });
+
+    await relay.dispatchPending();
+
+    expect(vi.mocked(transport.publish).mock.calls[0]?.[1].delayMs).toBe(50000);
+    vi.useRealTimers();
+  });
+
+  it("should drain each store only once when registered twice", async () => {
+    const store = createMockOutboxStore([]);
+    const relay = new OutboxRelay({ stores: [store, store], transport, logger: silentLogger });
+
+    await relay.dispatchPending();
+
+    expect(store.claimOutboxMessages).toHaveBeenCalledTimes(1);
+  });
+
+  describe("isOutboxStore", () => {
+    it("should detect stores with outbox support", () => {
+      expect(isOutboxStore(createMockOutboxStore([]))).toBe(true);
+      expect(
+        isOutboxStore({
+          getById: vi.fn(),
+          getByCorrelationId: vi.fn(),
+          insert: vi.fn(),
+          update: vi.fn(),
+          delete: vi.fn(),
+        })
+      ).toBe(false);
+    });
+  });
+});
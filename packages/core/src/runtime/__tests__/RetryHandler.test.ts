@@ -8,6 +8,8 @@ import {
   getAttemptCount,
   getFirstSeen,
   defaultDlqNaming,
+  defaultGroupNaming,
+  getTargetSaga,
 } from "../RetryHandler.js";
 
 describe("RetryHandler", () => {
@@ -79,6 +81,14 @@ describe("RetryHandler", () => {
     });
   });
 
+  describe("defaultGroupNaming", () => {
+    it("should combine endpoint and saga name", () => {
+      expect(defaultGroupNaming("OrderSaga", "OrderSubmitted")).toBe(
+        "OrderSubmitted.OrderSaga"
+      );
+    });
+  });
+
   describe("RetryHandler", () => {
     let handler: RetryHandler;
     let mockTransport: { publish: ReturnType<typeof vi.fn> };
@@ -149,6 +159,31 @@ describe("RetryHandler", () => {
         );
       });
 
+      it("should address retries and DLQ messages to the failed saga", async () => {
+        await handler.handleFailure(
+          createMockEnvelope({}),
+          "test.endpoint",
+          new Error("Test error"),
+          DEFAULT_RETRY_POLICY,
+          "OrderSaga"
+        );
+        await handler.handleFailure(
+          createMockEnvelope({ headers: { [RETRY_HEADERS.ATTEMPT]: "3" } }),
+          "test.endpoint",
+          new Error("Test error"),
+          DEFAULT_RETRY_POLICY,
+          "OrderSaga"
+        );
+
+        const [retry, dlq] = vi.mocked(mockTransport.publish).mock.calls;
+        expect(retry?.[1].headers?.[RETRY_HEADERS.TARGET_SAGA]).toBe("OrderSaga");
+        expect(dlq?.[1].endpoint).toBe("test.endpoint.dlq");
+        expect(dlq?.[1].headers?.[RETRY_HEADERS.TARGET_SAGA]).toBe("OrderSaga");
+        expect(
+          getTargetSaga({ ...createMockEnvelope({}), headers: dlq![1].headers! })
+        ).toBe("OrderSaga");
+      });
+
       it("should use custom retry policy", async () => {
         const envelope = createMockEnvelope({
           headers: { [RETRY_HEADERS.ATTEMPT]: "4" },
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type {
+  Bus,
+  SagaQuery,
+  SagaQueryableStore,
+  SagaState,
+  SagaStore,
+} from "../../types/index.js";
+import {
+  SagaNotFoundError,
+  UnsupportedOperationError,
+  ValidationError,
+} from "../../errors/index.js";
+import { applySagaQuery } from "../sagaQuery.js";
+import { SagaAdmin, parseSagaInstanceQuery } from "../SagaAdmin.js";
+
+const createState = (
+  sagaId: string,
+  overrides: Partial<SagaState["metadata"]> = {}
+): SagaState => ({
+  metadata: {
+    sagaId,
+    version: 2,
+    createdAt: new Date(`2024-01-0${sagaId}T00:00:00Z`),
+    updatedAt: new Date(`2024-01-0${sagaId}T00:00:00Z`),
+    isCompleted: false,
+    ...overrides,
+  },
+});
+
+/**
+ * Queryable store over a map of correlation ID to state.
+ */
+const createStore = (entries: Record<string, SagaState>) => {
+  const items = new Map(Object.entries(entries));
+  const byId = (sagaId: string) =>
+    Array.from(items.values()).find((s) => s.metadata.sagaId === sagaId);
+
+  const store: SagaQueryableStore<SagaState> & { items: typeof items } = {
+    items,
+    getById: async (_sagaName, sagaId) => byId(sagaId) ?? null,
+    getByCorrelationId: async (_sagaName, correlationId) =>
+      items.get(correlationId) ?? null,
+    insert: async () => undefined,
+    update: vi.fn(async (_sagaName: string, state: SagaState) => {
+      for (const [correlationId, existing] of items) {
+        if (existing.metadata.sagaId === state.metadata.sagaId) {
+          items.set(correlationId, state);
+        }
+      }
+    }),
+    delete: vi.fn(async (_sagaName: string, sagaId: string) => {
+      for (const [correlationId, existing] of items) {
+        if (existing.metadata.sagaId === sagaId) {
+          items.delete(correlationId);
+        }
+      }
+    }),
+    findSagas: async (_sagaName, query?: SagaQuery) =>
+      applySagaQuery(items.values(), query),
+    countSagas: async () => items.size,
+    deleteCompletedBefore: async () => 0,
+  };
+
+  return store;
+};
+
+describe("SagaAdmin", () => {
+  let store: ReturnType<typeof createStore>;
+  let basicStore: SagaStore<SagaState>;
+  let bus: Bus;
+  let admin: SagaAdmin;
+  let cancelTimeout: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    store = createStore({
+      "order-1": createState("1", {
+        timeoutMs: 60000,
+        timeoutExpiresAt: new Date("2024-01-01T00:01:00Z"),
+        timeoutToken: "token-1",
+      }),
+      "order-2": createState("2", { isCompleted: true, status: "completed" }),
+      "order-3": createState("3", { isCompleted: true, status: "compensated" }),
+      "order-4": createState("4", {
+        parent: { sagaName: "CheckoutSaga", sagaId: "p-1", correlationId: "checkout-1" },
+      }),
+    });
+    basicStore = {
+      getById: async () => null,
+      getByCorrelationId: async () => null,
+      insert: async () => undefined,
+      update: async () => undefined,
+      delete: async () => undefined,
+    };
+
+    cancelTimeout = vi.fn().mockResolvedValue(undefined);
+    bus = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      getSagas: () => [
+        { name: "OrderSaga", handledMessageTypes: ["OrderSubmitted"], store, cancelTimeout },
+        { name: "AuditSaga", handledMessageTypes: ["OrderSubmitted"], store: basicStore },
+      ],
+    } as unknown as Bus;
+    admin = new SagaAdmin(bus);
+  });
+
+  it("should list registered sagas and whether they can be queried", () => {
+    expect(admin.listSagas()).toEqual([
+      { name: "OrderSaga", handledMessageTypes: ["OrderSubmitted"], queryable: true },
+      { name: "AuditSaga", handledMessageTypes: ["OrderSubmitted"], queryable: false },
+    ]);
+  });
+
+  it("should list instances by status", async () => {
+    const ids = async (status?: "running" | "completed" | "compensated") =>
+      (await admin.listInstances("OrderSaga", { status, sortOrder: "asc" })).items.map(
+        (s) => s.metadata.sagaId
+      );
+
+    expect(await ids()).toEqual(["1", "2", "3", "4"]);
+    expect(await ids("running")).toEqual(["1", "4"]);
+    expect(await ids("completed")).toEqual(["2"]);
+    expect(await ids("compensated")).toEqual(["3"]);
+  });
+
+  it("should refuse to list instances of stores without queries", async () => {
+    await expect(admin.listInstances("AuditSaga")).rejects.toThrow(
+      UnsupportedOperationError
+    );
+  });
+
+  it("should throw for unknown sagas and instances", async () => {
+    await expect(admin.getInstance("Nope", "order-1")).rejects.toThrow(
+      'Saga "Nope" is not registered'
+    );
+    await expect(admin.getInstance("OrderSaga", "missing")).rejects.toThrow(
+      SagaNotFoundError
+    );
+  });
+
+  it("should get instances by correlation ID or saga ID", async () => {
+    expect((await admin.getInstance("OrderSaga", "order-2")).metadata.sagaId).toBe("2");
+    expect((await admin.getInstance("OrderSaga", "2")).metadata.sagaId).toBe("2");
+  });
+
+  it("should force-complete an instance and clear its timeout", async () => {
+    const completed = await admin.completeInstance("OrderSaga", "order-1");
+
+    expect(completed.metadata).toMatchObject({
+      isCompleted: true,
+      status: "completed",
+      version: 3,
+      timeoutToken: null,
+      timeoutExpiresAt: null,
+    });
+    expect(store.update).toHaveBeenCalledWith("OrderSaga", completed, 2);
+    expect(cancelTimeout).toHaveBeenCalledWith("1", "token-1");
+    expect(bus.publish).not.toHaveBeenCalled();
+  });
+
+  it("should notify the parent when force-completing a child saga", async () => {
+    await expect(admin.completeInstance("OrderSaga", "4")).rejects.toThrow(
+      "needs its correlation ID"
+    );
+    expect(store.update).not.toHaveBeenCalled();
+
+    await admin.completeInstance("OrderSaga", "order-4");
+
+    expect(bus.publish).toHaveBeenCalledWith(
+      {
+        type: "SagaChildCompleted",
+        sagaName: "CheckoutSaga",
+        sagaId: "p-1",
+        correlationId: "checkout-1",
+        childSagaName: "OrderSaga",
+        childSagaId: "4",
+        childCorrelationId: "order-4",
+      },
+      {
+        endpoint: "SagaChildCompleted",
+        key: "checkout-1",
+        headers: { "x-saga-target-saga": "CheckoutSaga" },
+      }
+    );
+    expect(cancelTimeout).not.toHaveBeenCalled();
+  });
+
+  it("should delete an instance", async () => {
+    await admin.deleteInstance("OrderSaga", "order-2");
+
+    expect(store.delete).toHaveBeenCalledWith("OrderSaga", "2");
+    expect(store.items.has("order-2")).toBe(false);
+  });
+
+  it("should publish a pending timeout with its current token", async () => {
+    await admin.fireTimeout("OrderSaga", "order-1");
+
+    expect(bus.publish).toHaveBeenCalledWith(
+      {
+        type: "SagaTimeoutExpired",
+        sagaId: "1",
+        sagaName: "OrderSaga",
+        correlationId: "order-1",
+        timeoutMs: 60000,
+        timeoutSetAt: new Date("2024-01-01T00:00:00Z"),
+        timeoutToken: "token-1",
+      },
+      { endpoint: "SagaTimeoutExpired", key: "order-1" }
+    );
+  });
+
+  it("should publish timeouts to the saga's default endpoint", async () => {
+    bus = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      getSagas: () => [
+        {
+          name: "OrderSaga",
+          handledMessageTypes: ["OrderSubmitted"],
+          store,
+          defaultEndpoint: "orders",
+        },
+      ],
+    } as unknown as Bus;
+    admin = new SagaAdmin(bus);
+
+    await admin.fireTimeout("OrderSaga", "order-1");
+
+    expect(bus.publish).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "SagaTimeoutExpired" }),
+      { endpoint: "orders", key: "order-1" }
+    );
+  });
+
+  it("should reject firing timeouts that can't be fired", async () => {
+    await expect(admin.fireTimeout("OrderSaga", "order-2")).rejects.toThrow(
+      "has no pending timeout"
+    );
+    await expect(admin.fireTimeout("OrderSaga", "1")).rejects.toThrow(
+      "needs the saga's correlation ID"
+    );
+    expect(bus.publish).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseSagaInstanceQuery", () => {
+  it("should parse query string parameters", () => {
+    expect(
+      parseSagaInstanceQuery({
+        status: "running",
+        limit: "20",
+        cursor: "abc",
+        sortBy: "updatedAt",
+        sortOrder: "asc",
+        parentSagaId: "parent-1",
+      })
+    ).toEqual({
+      status: "running",
+      limit: 20,
+      cursor: "abc",
+      sortBy: "updatedAt",
+      sortOrder: "asc",
+      parentSagaId: "parent-1",
+    });
+  });
+
+  it("should reject unknown values", () => {
+    expect(() => parseSagaInstanceQuery({ status: "stuck" })).toThrow(
+      ValidationError
+    );
+    expect(() => parseSagaInstanceQuery({ sortBy: "name" })).toThrow(
+      ValidationError
+    );
+  });
+});
@@ -263,6 +263,7 @@ describe("SagaContextImpl", () => {
       });
 
       await ctx.publish({ type: "TestEvent" });
+      await ctx.flush();
 
       expect(transport.publish).toHaveBeenCalledWith(
         { type: "TestEvent" },
@@ -281,6 +282,7 @@ describe("SagaContextImpl", () => {
       });
 
       await ctx.publish({ type: "TestEvent" });
+      await ctx.flush();
 
       expect(transport.publish).toHaveBeenCalledWith(
         { type: "TestEvent" },
@@ -299,6 +301,7 @@ describe("SagaContextImpl", () => {
       });
 
       await ctx.publish({ type: "TestEvent" }, { endpoint: "explicit-queue" });
+      await ctx.flush();
 
       expect(transport.publish).toHaveBeenCalledWith(
         { type: "TestEvent" },
@@ -307,6 +310,55 @@ describe("SagaContextImpl", () => {
     });
   });
 
+  describe("flush", () => {
+    it("should buffer publishes until flushed", async () => {
+      const ctx = new SagaContextImpl({
+        sagaName: "TestSaga",
+        sagaId: "saga-123",
+        correlationId: "corr-123",
+        envelope: createMockEnvelope(),
+        transport,
+      });
+
+      await ctx.publish({ type: "First" });
+      await ctx.publish({ type: "Second" });
+      expect(transport.publish).not.toHaveBeenCalled();
+
+      await ctx.flush();
+      await ctx.flush();
+
+      expect(vi.mocked(transport.publish).mock.calls.map(([m]) => m)).toEqual([
+        { type: "First" },
+        { type: "Second" },
+      ]);
+    });
+
+    it("should send one batch when the transport supports it", async () => {
+      const publishBatch = vi.fn().mockResolvedValue(undefined);
+      const ctx = new SagaContextImpl({
+        sagaName: "TestSaga",
+        sagaId: "saga-123",
+        correlationId: "corr-123",
+        envelope: createMockEnvelope(),
+        transport: { ...transport, publishBatch },
+      });
+
+      await ctx.publish({ type: "First" });
+      await ctx.schedule({ type: "Second" }, 5000);
+      await ctx.flush();
+
+      expect(publishBatch).toHaveBeenCalledTimes(1);
+      expect(publishBatch).toHaveBeenCalledWith([
+        { message: { type: "First" }, options: { endpoint: "First" } },
+        {
+          message: { type: "Second" },
+          options: { endpoint: "Second", delayMs: 5000 },
+        },
+      ]);
+      expect(transport.publish).not.toHaveBeenCalled();
+    });
+  });
+
   describe("schedule", () => {
     it("should schedule message with delay", async () => {
       const ctx = new SagaContextImpl({
@@ -318,6 +370,7 @@ describe("SagaContextImpl", () => {
       });
 
       await ctx.schedule({ type: "DelayedEvent" }, 5000);
+      await ctx.flush();
 
       expect(transport.publish).toHaveBeenCalledWith(
         { type: "DelayedEvent" },
@@ -326,6 +379,39 @@ describe("SagaContextImpl", () => {
     });
   });
 
+  describe("startChildSaga", () => {
+    it("should publish the message to the child with parent headers", async () => {
+      const ctx = new SagaContextImpl({
+        sagaName: "TestSaga",
+        sagaId: "saga-123",
+        correlationId: "corr-123",
+        envelope: createMockEnvelope(),
+        transport,
+      });
+
+      await ctx.startChildSaga(
+        "ChildSaga",
+        { type: "ChildRequested" },
+        { headers: { "x-custom": "value" } }
+      );
+      await ctx.flush();
+
+      expect(transport.publish).toHaveBeenCalledWith(
+        { type: "ChildRequested" },
+        {
+          endpoint: "ChildRequested",
+          headers: {
+            "x-custom": "value",
+            "x-saga-target-saga": "ChildSaga",
+            "x-saga-parent-saga": "TestSaga",
+            "x-saga-parent-id": "saga-123",
+            "x-saga-parent-correlation-id": "corr-123",
+          },
+        }
+      );
+    });
+  });
+
   describe("complete", () => {
     it("should mark context as completed", () => {
       const ctx = new SagaContextImpl({
@@ -342,6 +428,22 @@ describe("SagaContextImpl", () => {
     });
   });
 
+  describe("compensate", () => {
+    it("should record the compensation reason", () => {
+      const ctx = new SagaContextImpl({
+        sagaName: "TestSaga",
+        sagaId: "saga-123",
+        correlationId: "corr-123",
+        envelope: createMockEnvelope(),
+        transport,
+      });
+
+      expect(ctx.compensationReason).toBeUndefined();
+      ctx.compensate("payment declined");
+      expect(ctx.compensationReason).toBe("payment declined");
+    });
+  });
+
   describe("metadata", () => {
     it("should allow setting and getting metadata", () => {
       const ctx = new SagaContextImpl({
@@ -360,4 +462,29 @@ describe("SagaContextImpl", () => {
       expect(ctx.getMetadata("nonexistent")).toBeUndefined();
     });
   });
+
+  describe("outbox", () => {
+    it("should buffer publish and schedule instead of sending", async () => {
+      const ctx = new SagaContextImpl({
+        sagaName: "TestSaga",
+        sagaId: "saga-123",
+        correlationId: "corr-123",
+        envelope: createMockEnvelope(),
+        transport,
+        outbox: true,
+      });
+
+      await ctx.publish({ type: "OrderShipped" });
+      await ctx.schedule({ type: "Reminder" }, 5000, { endpoint: "reminders" });
+
+      expect(transport.publish).not.toHaveBeenCalled();
+      expect(ctx.bufferedMessages).toEqual([
+        { message: { type: "OrderShipped" }, options: { endpoint: "OrderShipped" } },
+        {
+          message: { type: "Reminder" },
+          options: { endpoint: "reminders", delayMs: 5000 },
+        },
+      ]);
+    });
+  });
 });
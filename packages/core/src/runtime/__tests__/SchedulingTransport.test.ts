@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type {
+  ScheduledMessage,
+  ScheduledMessageStore,
+  Transport,
+} from "../../types/index.js";
+import {
+  SchedulingTransport,
+  isScheduledMessageStore,
+} from "../SchedulingTransport.js";
+
+const createMockTransport = (): Transport => ({
+  start: vi.fn().mockResolvedValue(undefined),
+  stop: vi.fn().mockResolvedValue(undefined),
+  subscribe: vi.fn().mockResolvedValue(undefined),
+  publish: vi.fn().mockResolvedValue(undefined),
+});
+
+/**
+ * Minimal store that claims every message whose due time has passed.
+ */
+const createMockStore = () => {
+  const entries = new Map<string, ScheduledMessage>();
+
+  const store: ScheduledMessageStore & {
+    entries: Map<string, ScheduledMessage>;
+  } = {
+    entries,
+    insertScheduledMessage: vi.fn(async (entry: ScheduledMessage) => {
+      entries.set(entry.id, entry);
+    }),
+    claimDueScheduledMessages: vi.fn(async (limit: number) =>
+      Array.from(entries.values())
+        .filter((entry) => entry.dueAt.getTime() <= Date.now())
+        .slice(0, limit)
+    ),
+    deleteScheduledMessage: vi.fn(async (id: string) => {
+      entries.delete(id);
+    }),
+    markScheduledMessageFailed: vi.fn().mockResolvedValue(undefined),
+  };
+
+  return store;
+};
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+describe("SchedulingTransport", () => {
+  let inner: Transport;
+  let store: ReturnType<typeof createMockStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    inner = createMockTransport();
+    store = createMockStore();
+  });
+
+  it("should publish undelayed messages directly", async () => {
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+    });
+
+    await transport.publish({ type: "Ping" }, { endpoint: "pings" });
+
+    expect(inner.publish).toHaveBeenCalledWith(
+      { type: "Ping" },
+      { endpoint: "pings" }
+    );
+    expect(store.insertScheduledMessage).not.toHaveBeenCalled();
+  });
+
+  it("should store delayed messages instead of publishing them", async () => {
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+    });
+
+    await transport.publish(
+      { type: "Ping" },
+      { endpoint: "pings", key: "k1", delayMs: 60000 }
+    );
+
+    expect(inner.publish).not.toHaveBeenCalled();
+    const [entry] = Array.from(store.entries.values());
+    expect(entry?.options).toEqual({ endpoint: "pings", key: "k1" });
+    expect(entry!.dueAt.getTime() - entry!.createdAt.getTime()).toBe(60000);
+  });
+
+  it("should use native delay up to nativeDelayMaxMs", async () => {
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+      nativeDelayMaxMs: 900000,
+    });
+
+    await transport.publish({ type: "Ping" }, { endpoint: "pings", delayMs: 5000 });
+    await transport.publish(
+      { type: "Ping" },
+      { endpoint: "pings", delayMs: 3600000 }
+    );
+
+    expect(inner.publish).toHaveBeenCalledTimes(1);
+    expect(store.entries.size).toBe(1);
+  });
+
+  it("should batch undelayed messages and store delayed ones", async () => {
+    const publishBatch = vi.fn().mockResolvedValue(undefined);
+    const transport = new SchedulingTransport({
+      transport: { ...inner, publishBatch },
+      store,
+      logger: silentLogger,
+    });
+
+    await transport.publishBatch([
+      { message: { type: "Ping" }, options: { endpoint: "pings" } },
+      {
+        message: { type: "Reminder" },
+        options: { endpoint: "reminders", delayMs: 60_000 },
+      },
+      { message: { type: "Pong" }, options: { endpoint: "pongs" } },
+    ]);
+
+    expect(publishBatch).toHaveBeenCalledWith([
+      { message: { type: "Ping" }, options: { endpoint: "pings" } },
+      { message: { type: "Pong" }, options: { endpoint: "pongs" } },
+    ]);
+    expect(store.entries.size).toBe(1);
+  });
+
+  it("should publish due messages and remove them", async () => {
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+    });
+
+    store.entries.set("due", {
+      id: "due",
+      message: { type: "Ping" },
+      options: { endpoint: "pings" },
+      dueAt: new Date(Date.now() - 1000),
+      createdAt: new Date(Date.now() - 5000),
+      attempts: 0,
+    });
+    store.entries.set("later", {
+      id: "later",
+      message: { type: "Pong" },
+      options: { endpoint: "pongs" },
+      dueAt: new Date(Date.now() + 60000),
+      createdAt: new Date(),
+      attempts: 0,
+    });
+
+    const dispatched = await transport.dispatchDue();
+
+    expect(dispatched).toBe(1);
+    expect(inner.publish).toHaveBeenCalledWith(
+      { type: "Ping" },
+      { endpoint: "pings" }
+    );
+    expect(Array.from(store.entries.keys())).toEqual(["later"]);
+  });
+
+  it("should release messages whose publish fails", async () => {
+    vi.mocked(inner.publish).mockRejectedValueOnce(new Error("broker down"));
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+    });
+
+    store.entries.set("due", {
+      id: "due",
+      message: { type: "Ping" },
+      options: { endpoint: "pings" },
+      dueAt: new Date(Date.now() - 1000),
+      createdAt: new Date(Date.now() - 5000),
+      attempts: 0,
+    });
+
+    const dispatched = await transport.dispatchDue();
+
+    expect(dispatched).toBe(0);
+    expect(store.markScheduledMessageFailed).toHaveBeenCalledWith(
+      "due",
+      "broker down"
+    );
+    expect(store.entries.has("due")).toBe(true);
+  });
+
+  it("should cancel stored messages by schedule id", async () => {
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+    });
+
+    await transport.publish(
+      { type: "Ping" },
+      { endpoint: "pings", delayMs: 60000, scheduleId: "timeout-1" }
+    );
+    expect(store.entries.get("timeout-1")?.options).toEqual({
+      endpoint: "pings",
+    });
+
+    await transport.cancelScheduled("timeout-1");
+
+    expect(store.entries.size).toBe(0);
+  });
+
+  it("should start and stop the wrapped transport", async () => {
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+      pollIntervalMs: 60000,
+    });
+
+    await transport.start();
+    await transport.stop();
+
+    expect(inner.start).toHaveBeenCalled();
+    expect(inner.stop).toHaveBeenCalled();
+    expect(store.claimDueScheduledMessages).toHaveBeenCalled();
+  });
+
+  it("should forward stopReceiving to the wrapped transport", async () => {
+    inner.stopReceiving = vi.fn().mockResolvedValue(undefined);
+    const transport = new SchedulingTransport({
+      transport: inner,
+      store,
+      logger: silentLogger,
+    });
+
+    await transport.stopReceiving();
+
+    expect(inner.stopReceiving).toHaveBeenCalled();
+  });
+
+  it("should detect scheduler-capable stores", () => {
+    expect(isScheduledMessageStore(store)).toBe(true);
+    expect(isScheduledMessageStore({})).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import type {
+  SagaQuery,
+  SagaQueryableStore,
+  SagaState,
+  SagaStateMetadata,
+} from "../../types/index.js";
+import { ConcurrencyError } from "../../errors/index.js";
+import { createSagaMachine } from "../../dsl/index.js";
+import { applySagaQuery } from "../sagaQuery.js";
+import { migrateSagaStates } from "../StateMigration.js";
+
+interface ItemState extends SagaState {
+  metadata: SagaStateMetadata;
+  name: string;
+}
+
+/**
+ * Queryable store over a map; `conflicting` saga ids fail their update.
+ */
+const createStore = (states: ItemState[], conflicting: string[] = []) => {
+  const items = new Map(states.map((state) => [state.metadata.sagaId, state]));
+
+  const store: SagaQueryableStore<ItemState> & { items: typeof items } = {
+    items,
+    getById: async (_sagaName, sagaId) => items.get(sagaId) ?? null,
+    getByCorrelationId: async () => null,
+    insert: async () => undefined,
+    update: async (_sagaName, state, expectedVersion) => {
+      if (conflicting.includes(state.metadata.sagaId)) {
+        throw new ConcurrencyError(state.metadata.sagaId, expectedVersion);
+      }
+      items.set(state.metadata.sagaId, state);
+    },
+    delete: async () => undefined,
+    findSagas: async (_sagaName, query?: SagaQuery) =>
+      applySagaQuery(items.values(), query),
+    countSagas: async () => items.size,
+    deleteCompletedBefore: async () => 0,
+  };
+
+  return store;
+};
+
+const createState = (
+  sagaId: string,
+  schemaVersion: number | undefined,
+  name: string
+): ItemState => ({
+  metadata: {
+    sagaId,
+    version: 4,
+    createdAt: new Date(`2024-01-0${sagaId}T00:00:00Z`),
+    updatedAt: new Date(`2024-01-0${sagaId}T00:00:00Z`),
+    isCompleted: false,
+    ...(schemaVersion !== undefined ? { schemaVersion } : {}),
+  },
+  name,
+});
+
+const definition = createSagaMachine<ItemState, { type: "ItemCreated" }>()
+  .name("ItemSaga")
+  .correlate("ItemCreated", () => "item", { canStart: true })
+  .initial(() => createState("1", 2, ""))
+  .stateVersion(2)
+  .migrate<ItemState>(1, 2, (state) => ({
+    ...state,
+    name: state.name.toUpperCase(),
+  }))
+  .build();
+
+describe("migrateSagaStates", () => {
+  it("should migrate outdated sagas across pages", async () => {
+    const store = createStore([
+      createState("1", undefined, "a"),
+      createState("2", 2, "b"),
+      createState("3", 1, "c"),
+    ]);
+    const progress: number[] = [];
+
+    const result = await migrateSagaStates(store, definition, {
+      batchSize: 2,
+      onProgress: (totals) => progress.push(totals.scanned),
+    });
+
+    expect(result).toEqual({ scanned: 3, migrated: 2, conflicts: 0 });
+    expect(progress).toEqual([2, 3]);
+    expect(store.items.get("1")).toMatchObject({
+      name: "A",
+      metadata: { schemaVersion: 2, version: 5 },
+    });
+    expect(store.items.get("2")?.name).toBe("b");
+    expect(store.items.get("3")?.name).toBe("C");
+  });
+
+  it("should count concurrently updated sagas as conflicts", async () => {
+    const store = createStore([createState("1", 1, "a")], ["1"]);
+
+    const result = await migrateSagaStates(store, definition);
+
+    expect(result).toEqual({ scanned: 1, migrated: 0, conflicts: 1 });
+    expect(store.items.get("1")?.name).toBe("a");
+  });
+
+  it("should require a definition that supports migrations", async () => {
+    const store = createStore([]);
+
+    await expect(
+      migrateSagaStates(store, { ...definition, name: "Plain", migrateState: undefined })
+    ).rejects.toThrow('Saga "Plain" does not support state migrations');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import type { SagaState } from "../../types/index.js";
+import { ValidationError } from "../../errors/index.js";
+import {
+  applySagaQuery,
+  decodeSagaQueryCursor,
+  encodeSagaQueryCursor,
+  isQueryableStore,
+  matchesSagaQueryFilter,
+  resolveSagaQuery,
+} from "../sagaQuery.js";
+
+const createState = (
+  sagaId: string,
+  createdAt: string,
+  overrides: Partial<SagaState["metadata"]> = {}
+): SagaState => ({
+  metadata: {
+    sagaId,
+    version: 1,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+    isCompleted: false,
+    ...overrides,
+  },
+});
+
+describe("sagaQuery", () => {
+  const states = [
+    createState("a", "2024-01-01T00:00:00Z", { isCompleted: true }),
+    createState("b", "2024-01-02T00:00:00Z"),
+    createState("c", "2024-01-03T00:00:00Z", {
+      timeoutExpiresAt: new Date("2024-01-04T00:00:00Z"),
+    }),
+    createState("d", "2024-01-03T00:00:00Z"),
+  ];
+
+  describe("resolveSagaQuery", () => {
+    it("should apply defaults", () => {
+      expect(resolveSagaQuery()).toEqual({
+        filter: {},
+        sortBy: "createdAt",
+        sortOrder: "desc",
+        limit: 100,
+        after: null,
+      });
+    });
+
+    it("should reject invalid limits", () => {
+      expect(() => resolveSagaQuery({ limit: 0 })).toThrow(ValidationError);
+    });
+  });
+
+  describe("cursor encoding", () => {
+    it("should round-trip a cursor", () => {
+      const cursor = {
+        value: new Date("2024-01-01T00:00:00Z"),
+        sagaId: "saga:1",
+      };
+
+      expect(decodeSagaQueryCursor(encodeSagaQueryCursor(cursor))).toEqual(
+        cursor
+      );
+    });
+
+    it("should reject malformed cursors", () => {
+      expect(() => decodeSagaQueryCursor("not-a-cursor")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("matchesSagaQueryFilter", () => {
+    it("should treat ranges as from-inclusive, to-exclusive", () => {
+      const state = createState("a", "2024-01-02T00:00:00Z");
+
+      expect(
+        matchesSagaQueryFilter(state, {
+          createdAt: { from: new Date("2024-01-02T00:00:00Z") },
+        })
+      ).toBe(true);
+      expect(
+        matchesSagaQueryFilter(state, {
+          createdAt: { to: new Date("2024-01-02T00:00:00Z") },
+        })
+      ).toBe(false);
+    });
+
+    it("should only match sagas with a timeout set", () => {
+      const before = new Date("2024-02-01T00:00:00Z");
+
+      expect(
+        states.filter((s) =>
+          matchesSagaQueryFilter(s, { timeoutExpiresBefore: before })
+        )
+      ).toEqual([states[2]]);
+    });
+
+    it("should match child sagas by parent saga ID", () => {
+      const parent = { sagaName: "OrderSaga", sagaId: "p", correlationId: "o" };
+      const child = createState("e", "2024-01-05T00:00:00Z", { parent });
+
+      expect(
+        [...states, child].filter((s) =>
+          matchesSagaQueryFilter(s, { parentSagaId: "p" })
+        )
+      ).toEqual([child]);
+    });
+  });
+
+  describe("applySagaQuery", () => {
+    it("should sort newest first with saga ID as tie-breaker", () => {
+      const result = applySagaQuery(states);
+
+      expect(result.items.map((s) => s.metadata.sagaId)).toEqual([
+        "d",
+        "c",
+        "b",
+        "a",
+      ]);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it("should page through results with a cursor", () => {
+      const first = applySagaQuery(states, { sortOrder: "asc", limit: 2 });
+      expect(first.items.map((s) => s.metadata.sagaId)).toEqual(["a", "b"]);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = applySagaQuery(states, {
+        sortOrder: "asc",
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((s) => s.metadata.sagaId)).toEqual(["c", "d"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should filter by completion status", () => {
+      const result = applySagaQuery(states, { completed: false });
+
+      expect(result.items.map((s) => s.metadata.sagaId)).toEqual([
+        "d",
+        "c",
+        "b",
+      ]);
+    });
+  });
+
+  describe("isQueryableStore", () => {
+    it("should detect the query capability", () => {
+      const base = {
+        getById: async () => null,
+        getByCorrelationId: async () => null,
+        insert: async () => undefined,
+        update: async () => undefined,
+        delete: async () => undefined,
+      };
+
+      const queryable = {
+        ...base,
+        findSagas: async () => ({ items: [], nextCursor: null }),
+        countSagas: async () => 0,
+        deleteCompletedBefore: async () => 0,
+      };
+
+      expect(isQueryableStore(base)).toBe(false);
+      expect(isQueryableStore(queryable)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import type { MessageEnvelope, Serializer } from "../../types/index.js";
+import { ValidationError } from "../../errors/index.js";
+import {
+  JsonSerializer,
+  SchemaJsonSerializer,
+  TypedJsonSerializer,
+  TYPED_JSON_CONTENT_TYPE,
+} from "../serializers.js";
+import { MessageCodec } from "../MessageCodec.js";
+
+const createEnvelope = (
+  payload: Record<string, unknown> = {}
+): MessageEnvelope => ({
+  id: "msg-1",
+  type: "OrderSubmitted",
+  payload: { type: "OrderSubmitted", ...payload },
+  headers: { "x-message-type": "OrderSubmitted" },
+  timestamp: new Date("2024-01-01T00:00:00Z"),
+});
+
+describe("TypedJsonSerializer", () => {
+  const serializer = new TypedJsonSerializer();
+
+  it("should round-trip Date, BigInt, Map, Set and Buffer values", () => {
+    const envelope = createEnvelope({
+      submittedAt: new Date("2024-01-02T03:04:05.678Z"),
+      amount: 12345678901234567890n,
+      lines: new Map([
+        ["sku-1", { quantity: 2, addedAt: new Date("2024-01-01T10:00:00Z") }],
+      ]),
+      tags: new Set(["gift", "express"]),
+      signature: Buffer.from("signed"),
+      nested: { deadlines: [new Date("2024-02-01T00:00:00Z")] },
+    });
+
+    const result = serializer.deserialize(serializer.serialize(envelope));
+
+    expect(result).toEqual(envelope);
+    expect(result.timestamp).toBeInstanceOf(Date);
+    const payload = result.payload as unknown as Record<string, unknown>;
+    expect(payload.amount).toBe(12345678901234567890n);
+    expect(payload.lines).toBeInstanceOf(Map);
+    expect(Buffer.isBuffer(payload.signature)).toBe(true);
+  });
+
+  it("should escape keys that look like pointers", () => {
+    const envelope = createEnvelope({
+      "a/b": { "c~d": new Date("2024-01-01T00:00:00Z") },
+    });
+
+    const result = serializer.deserialize(serializer.serialize(envelope));
+
+    expect(result).toEqual(envelope);
+  });
+
+  it("should keep Dates readable as ISO strings in the JSON body", () => {
+    const body = JSON.parse(
+      serializer
+        .serialize(createEnvelope({ at: new Date("2024-01-02T00:00:00Z") }))
+        .toString()
+    ) as { payload: { at: unknown } };
+
+    expect(body.payload.at).toBe("2024-01-02T00:00:00.000Z");
+  });
+
+  it("should read plain JSON messages", () => {
+    const envelope = createEnvelope({ total: 10 });
+
+    const result = serializer.deserialize(
+      new JsonSerializer().serialize(envelope)
+    );
+
+    expect(result).toEqual(envelope);
+  });
+
+  it("should reject pointers that don't match the message", () => {
+    const body = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(JSON.stringify(createEnvelope())),
+        $types: { "/payload/__proto__/polluted": "Date" },
+      })
+    );
+
+    expect(() => serializer.deserialize(body)).toThrow(
+      'Type pointer "/payload/__proto__/polluted" does not match the message'
+    );
+  });
+});
+
+describe("JsonSerializer", () => {
+  it("should revive only the envelope timestamp", () => {
+    const serializer = new JsonSerializer();
+
+    const result = serializer.deserialize(
+      serializer.serialize(createEnvelope({ at: new Date("2024-01-02Z") }))
+    );
+
+    expect(result.timestamp).toBeInstanceOf(Date);
+    expect((result.payload as unknown as { at: unknown }).at).toBe(
+      "2024-01-02T00:00:00.000Z"
+    );
+  });
+});
+
+describe("SchemaJsonSerializer", () => {
+  const schemaId = "https://example.com/schemas/order-submitted/v1";
+
+  it("should tag messages with their schema and validate on receipt", () => {
+    const validated: Array<[string, unknown]> = [];
+    const serializer = new SchemaJsonSerializer({
+      schemas: { OrderSubmitted: schemaId },
+      validate: (id, payload) => {
+        validated.push([id, structuredClone(payload)]);
+        return true;
+      },
+    });
+    const envelope = createEnvelope({ at: new Date("2024-01-02Z") });
+
+    const data = serializer.serialize(envelope);
+    const result = serializer.deserialize(data);
+
+    expect(JSON.parse(data.toString())).toMatchObject({ $schema: schemaId });
+    expect(result).toEqual(envelope);
+    expect(validated).toEqual([
+      [schemaId, { type: "OrderSubmitted", at: "2024-01-02T00:00:00.000Z" }],
+    ]);
+  });
+
+  it("should reject payloads that fail validation", () => {
+    const serializer = new SchemaJsonSerializer({
+      schemas: { OrderSubmitted: schemaId },
+      validate: () => false,
+    });
+
+    expect(() =>
+      serializer.deserialize(serializer.serialize(createEnvelope()))
+    ).toThrow(ValidationError);
+  });
+
+  it("should refuse message types without a schema when required", () => {
+    const serializer = new SchemaJsonSerializer({
+      schemas: {},
+      requireSchema: true,
+    });
+
+    expect(() => serializer.serialize(createEnvelope())).toThrow(
+      'No schema registered for message type "OrderSubmitted"'
+    );
+  });
+});
+
+describe("MessageCodec", () => {
+  const binarySerializer: Serializer = {
+    contentType: "application/x-test",
+    binary: true,
+    serialize: (envelope) =>
+      Buffer.from(JSON.stringify(envelope)).reverse(),
+    deserialize: (data) =>
+      new JsonSerializer().deserialize(Buffer.from(data).reverse()),
+  };
+
+  it("should publish with typed JSON by default", () => {
+    const codec = new MessageCodec();
+
+    expect(codec.contentType).toBe(TYPED_JSON_CONTENT_TYPE);
+  });
+
+  it("should pick the serializer by content type", () => {
+    const codec = new MessageCodec({ serializers: [binarySerializer] });
+    const envelope = createEnvelope();
+
+    expect(
+      codec.decode(binarySerializer.serialize(envelope), "application/x-test")
+    ).toEqual(envelope);
+    expect(
+      codec.decode(
+        new JsonSerializer().serialize(envelope),
+        "Application/JSON; charset=utf-8"
+      )
+    ).toEqual(envelope);
+  });
+
+  it("should use the configured serializer without a content type", () => {
+    const codec = new MessageCodec({ serializer: binarySerializer });
+    const envelope = createEnvelope();
+
+    expect(codec.decode(codec.encode(envelope))).toEqual(envelope);
+  });
+
+  it("should base64-encode binary output for text transports", () => {
+    const codec = new MessageCodec({ serializer: binarySerializer });
+    const envelope = createEnvelope();
+
+    const text = codec.encodeText(envelope);
+
+    expect(text).toBe(binarySerializer.serialize(envelope).toString("base64"));
+    expect(codec.decodeText(text, codec.contentType)).toEqual(envelope);
+  });
+
+  it("should reject unknown content types", () => {
+    const codec = new MessageCodec();
+
+    expect(() => codec.decode(Buffer.from("{}"), "text/csv")).toThrow(
+      'No serializer registered for content type "text/csv"'
+    );
+  });
+});
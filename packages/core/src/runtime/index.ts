@@ -9,8 +9,98 @@ export {
   RETRY_HEADERS,
   DEFAULT_RETRY_POLICY,
   defaultDlqNaming,
+  defaultGroupNaming,
+  getTargetSaga,
   calculateDelay,
   getAttemptCount,
   getFirstSeen,
 } from "./RetryHandler.js";
+export {
+  OutboxRelay,
+  isOutboxStore,
+  OUTBOX_MESSAGE_ID_HEADER,
+  DEFAULT_OUTBOX_POLL_INTERVAL_MS,
+  DEFAULT_OUTBOX_BATCH_SIZE,
+  DEFAULT_OUTBOX_LOCK_DURATION_MS,
+} from "./OutboxRelay.js";
+export type { OutboxRelayOptions } from "./OutboxRelay.js";
+export { publishBatch } from "./publishBatch.js";
+export {
+  SchedulingTransport,
+  isScheduledMessageStore,
+  DEFAULT_SCHEDULER_POLL_INTERVAL_MS,
+  DEFAULT_SCHEDULER_BATCH_SIZE,
+  DEFAULT_SCHEDULER_LOCK_DURATION_MS,
+} from "./SchedulingTransport.js";
+export type { SchedulingTransportOptions } from "./SchedulingTransport.js";
+export {
+  ReplyRouter,
+  SagaWaiters,
+  getReplyAddress,
+  REPLY_TO_HEADER,
+  REPLY_CORRELATION_HEADER,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_SAGA_WAIT_POLL_INTERVAL_MS,
+} from "./RequestReply.js";
+export type { ReplyRouterOptions } from "./RequestReply.js";
+export {
+  CHILD_SAGA_HEADERS,
+  createChildSagaHeaders,
+  getParentReference,
+  createChildFinishedMessage,
+} from "./ChildSagas.js";
+export {
+  migrateSagaStates,
+  DEFAULT_MIGRATION_BATCH_SIZE,
+} from "./StateMigration.js";
+export type {
+  MigrateSagaStatesOptions,
+  MigrateSagaStatesResult,
+} from "./StateMigration.js";
+export {
+  isQueryableStore,
+  resolveSagaQuery,
+  encodeSagaQueryCursor,
+  decodeSagaQueryCursor,
+  matchesSagaQueryFilter,
+  compareSagasForQuery,
+  toSagaQueryResult,
+  applySagaQuery,
+  DEFAULT_SAGA_QUERY_LIMIT,
+} from "./sagaQuery.js";
+export type { SagaQueryCursor, ResolvedSagaQuery } from "./sagaQuery.js";
+export {
+  SagaAdmin,
+  getSagaInstanceStatus,
+  parseSagaInstanceQuery,
+} from "./SagaAdmin.js";
+export type {
+  SagaAdminAction,
+  SagaInstanceQuery,
+  SagaInstanceStatus,
+  SagaSummary,
+} from "./SagaAdmin.js";
+export {
+  DeliveryTracker,
+  DEFAULT_SHUTDOWN_TIMEOUT_MS,
+} from "./DeliveryTracker.js";
+export {
+  SAGA_BUS_METRICS,
+  SAGA_BUS_SPANS,
+  withSpan,
+} from "./instrumentation.js";
+export { SagaEventEmitter } from "./SagaEventEmitter.js";
+export { KeyedSerializer } from "./KeyedSerializer.js";
+export { isHistoryStore, getSagaHistoryOutcome } from "./sagaHistory.js";
+export {
+  JsonSerializer,
+  TypedJsonSerializer,
+  SchemaJsonSerializer,
+  JSON_CONTENT_TYPE,
+  TYPED_JSON_CONTENT_TYPE,
+  SCHEMA_JSON_CONTENT_TYPE,
+} from "./serializers.js";
+export type { SchemaJsonSerializerOptions } from "./serializers.js";
+export { MessageCodec, CONTENT_TYPE_HEADER } from "./MessageCodec.js";
+export type { MessageCodecOptions } from "./MessageCodec.js";
 export { generateSagaId, generateMessageId, now } from "./utils.js";
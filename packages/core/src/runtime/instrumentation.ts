@@ -0,0 +1,52 @@
+import type { SagaPipelineContext, Tracer } from "../types/index.js";
+
+/**
+ * Names of the measurements the runtime reports through `BusConfig.metrics`.
+ * They are tagged with `saga_name` and, for per-message ones, `message_type`.
+ */
+export const SAGA_BUS_METRICS = {
+  /** Duration of one saga processing one message (tag `outcome`: success | failure) */
+  PROCESSING_DURATION: "saga_bus_message_processing_duration_ms",
+  /** Failed messages republished for another attempt */
+  RETRIES: "saga_bus_message_retries_total",
+  /** Messages sent to a dead-letter endpoint (tag `error_type`) */
+  DLQ_SENDS: "saga_bus_messages_dead_lettered_total",
+  /** Messages no correlation ID could be derived for (tag `action`: drop | dlq) */
+  CORRELATION_FAILURES: "saga_bus_correlation_failures_total",
+  /** Messages for an existing saga that no handler matched (tag `policy`) */
+  UNHANDLED_MESSAGES: "saga_bus_unhandled_messages_total",
+  /** Saga updates rejected by optimistic concurrency */
+  CONCURRENCY_CONFLICTS: "saga_bus_concurrency_conflicts_total",
+  /** New saga instances */
+  SAGAS_CREATED: "saga_bus_sagas_created_total",
+  /** Saga instances that finished (tag `status`: completed | compensated) */
+  SAGAS_COMPLETED: "saga_bus_sagas_completed_total",
+  /** Timeout messages scheduled by `ctx.setTimeout()` */
+  TIMEOUTS_SCHEDULED: "saga_bus_timeouts_scheduled_total",
+} as const;
+
+/**
+ * Names of the spans the runtime opens through `BusConfig.tracer`.
+ */
+export const SAGA_BUS_SPANS = {
+  /** Loading the saga state from the store */
+  LOAD: "saga-bus.load",
+  /** Running the saga's handler for the message */
+  HANDLE: "saga-bus.handler",
+  /** Writing the saga state (and outbox messages) to the store */
+  PERSIST: "saga-bus.persist",
+  /** Publishing the handler's messages and timeouts to the transport */
+  PUBLISH: "saga-bus.publish",
+} as const;
+
+/**
+ * Run `fn` in a span when a tracer is configured.
+ */
+export function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  ctx: SagaPipelineContext,
+  fn: () => Promise<T>
+): Promise<T> {
+  return tracer ? tracer.withSpan(name, ctx, fn) : fn();
+}
@@ -0,0 +1,23 @@
+import type { Transport, TransportBatchMessage } from "../types/index.js";
+
+/**
+ * Publish messages with the transport's `publishBatch()`, or one at a time
+ * in order when it has none.
+ */
+export async function publishBatch(
+  transport: Transport,
+  messages: ReadonlyArray<TransportBatchMessage>
+): Promise<void> {
+  if (messages.length === 0) {
+    return;
+  }
+
+  if (transport.publishBatch) {
+    await transport.publishBatch(messages);
+    return;
+  }
+
+  for (const { message, options } of messages) {
+    await transport.publish(message, options);
+  }
+}
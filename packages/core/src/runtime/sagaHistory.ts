@@ -0,0 +1,36 @@
+import type {
+  SagaHistoryOutcome,
+  SagaHistoryStore,
+  SagaState,
+  SagaStore,
+} from "../types/index.js";
+
+/**
+ * Check whether a store records saga history.
+ */
+export function isHistoryStore<TState extends SagaState>(
+  store: SagaStore<TState>
+): store is SagaHistoryStore<TState> {
+  const candidate = store as Partial<SagaHistoryStore<TState>>;
+  return (
+    typeof candidate.insertWithHistory === "function" &&
+    typeof candidate.updateWithHistory === "function" &&
+    typeof candidate.getHistory === "function"
+  );
+}
+
+/**
+ * Classify a transition for the history.
+ */
+export function getSagaHistoryOutcome(
+  previousState: SagaState | null,
+  state: SagaState
+): SagaHistoryOutcome {
+  if (!previousState) {
+    return "created";
+  }
+  if (state.metadata.status === "compensated") {
+    return "compensated";
+  }
+  return state.metadata.isCompleted ? "completed" : "updated";
+}
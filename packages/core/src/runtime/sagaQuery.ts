@@ -0,0 +1,265 @@
+import type {
+  SagaState,
+  SagaStore,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  SagaQuerySortField,
+  SagaQueryableStore,
+} from "../types/index.js";
+import { ValidationError } from "../errors/index.js";
+
+/**
+ * Default page size for saga queries.
+ */
+export const DEFAULT_SAGA_QUERY_LIMIT = 100;
+
+/**
+ * Decoded position of the last item on a page (keyset pagination).
+ */
+export interface SagaQueryCursor {
+  /** Sort field value of the last item */
+  value: Date;
+  /** Saga ID of the last item (tie-breaker) */
+  sagaId: string;
+}
+
+/**
+ * A saga query with defaults applied and the cursor decoded.
+ */
+export interface ResolvedSagaQuery {
+  filter: SagaQueryFilter;
+  sortBy: SagaQuerySortField;
+  sortOrder: "asc" | "desc";
+  limit: number;
+  after: SagaQueryCursor | null;
+}
+
+/**
+ * Check whether a store supports saga queries.
+ */
+export function isQueryableStore<TState extends SagaState>(
+  store: SagaStore<TState>
+): store is SagaQueryableStore<TState> {
+  const candidate = store as Partial<SagaQueryableStore<TState>>;
+  return (
+    typeof candidate.findSagas === "function" &&
+    typeof candidate.countSagas === "function" &&
+    typeof candidate.deleteCompletedBefore === "function"
+  );
+}
+
+/**
+ * Encode a cursor pointing after the given position.
+ */
+export function encodeSagaQueryCursor(cursor: SagaQueryCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.value.toISOString(), cursor.sagaId])
+  ).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by `encodeSagaQueryCursor`.
+ * @throws ValidationError if the cursor is malformed
+ */
+export function decodeSagaQueryCursor(cursor: string): SagaQueryCursor {
+  try {
+    const decoded: unknown = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+
+    if (
+      Array.isArray(decoded) &&
+      typeof decoded[0] === "string" &&
+      typeof decoded[1] === "string"
+    ) {
+      const value = new Date(decoded[0]);
+      if (!Number.isNaN(value.getTime())) {
+        return { value, sagaId: decoded[1] };
+      }
+    }
+  } catch {
+    // Fall through to the validation error below
+  }
+
+  throw new ValidationError("Invalid saga query cursor", "cursor", cursor);
+}
+
+/**
+ * Apply defaults to a query and decode its cursor.
+ */
+export function resolveSagaQuery(query: SagaQuery = {}): ResolvedSagaQuery {
+  const { sortBy, sortOrder, limit, cursor, ...filter } = query;
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new ValidationError(
+      "Saga query limit must be a positive integer",
+      "limit",
+      limit
+    );
+  }
+
+  return {
+    filter,
+    sortBy: sortBy ?? "createdAt",
+    sortOrder: sortOrder ?? "desc",
+    limit: limit ?? DEFAULT_SAGA_QUERY_LIMIT,
+    after: cursor ? decodeSagaQueryCursor(cursor) : null,
+  };
+}
+
+/**
+ * Check whether a saga state matches a query filter.
+ */
+export function matchesSagaQueryFilter(
+  state: SagaState,
+  filter: SagaQueryFilter
+): boolean {
+  const { metadata } = state;
+
+  if (
+    filter.completed !== undefined &&
+    metadata.isCompleted !== filter.completed
+  ) {
+    return false;
+  }
+
+  if (!isInRange(metadata.createdAt, filter.createdAt)) {
+    return false;
+  }
+
+  if (!isInRange(metadata.updatedAt, filter.updatedAt)) {
+    return false;
+  }
+
+  if (filter.timeoutExpiresBefore) {
+    const expiresAt = metadata.timeoutExpiresAt;
+    if (
+      !expiresAt ||
+      toTime(expiresAt) >= filter.timeoutExpiresBefore.getTime()
+    ) {
+      return false;
+    }
+  }
+
+  if (
+    filter.parentSagaId !== undefined &&
+    metadata.parent?.sagaId !== filter.parentSagaId
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Compare two sagas in query order (sort field, then saga ID).
+ */
+export function compareSagasForQuery(
+  a: SagaState,
+  b: SagaState,
+  sortBy: SagaQuerySortField,
+  sortOrder: "asc" | "desc"
+): number {
+  return comparePositions(
+    toPosition(a, sortBy),
+    toPosition(b, sortBy),
+    sortOrder
+  );
+}
+
+/**
+ * Build a result page from items fetched in query order.
+ *
+ * Stores fetch `limit + 1` items; the extra item only signals that
+ * another page exists and is not returned.
+ */
+export function toSagaQueryResult<TState extends SagaState>(
+  items: TState[],
+  query: ResolvedSagaQuery
+): SagaQueryResult<TState> {
+  if (items.length <= query.limit) {
+    return { items, nextCursor: null };
+  }
+
+  const page = items.slice(0, query.limit);
+  const last = page[page.length - 1]!;
+
+  return {
+    items: page,
+    nextCursor: encodeSagaQueryCursor(toPosition(last, query.sortBy)),
+  };
+}
+
+/**
+ * Run a saga query over states held in memory.
+ *
+ * Used by stores without a native secondary index (in-memory, Redis).
+ */
+export function applySagaQuery<TState extends SagaState>(
+  states: Iterable<TState>,
+  query?: SagaQuery
+): SagaQueryResult<TState> {
+  const resolved = resolveSagaQuery(query);
+  const { after, sortBy, sortOrder } = resolved;
+
+  const matching = Array.from(states)
+    .filter((state) => matchesSagaQueryFilter(state, resolved.filter))
+    .filter(
+      (state) =>
+        !after ||
+        comparePositions(toPosition(state, sortBy), after, sortOrder) > 0
+    )
+    .sort((a, b) => compareSagasForQuery(a, b, sortBy, sortOrder));
+
+  return toSagaQueryResult(matching.slice(0, resolved.limit + 1), resolved);
+}
+
+function toPosition(
+  state: SagaState,
+  sortBy: SagaQuerySortField
+): SagaQueryCursor {
+  return {
+    value: new Date(toTime(state.metadata[sortBy])),
+    sagaId: state.metadata.sagaId,
+  };
+}
+
+function comparePositions(
+  a: SagaQueryCursor,
+  b: SagaQueryCursor,
+  sortOrder: "asc" | "desc"
+): number {
+  const byValue = a.value.getTime() - b.value.getTime();
+  const result =
+    byValue !== 0
+      ? byValue
+      : a.sagaId < b.sagaId
+        ? -1
+        : a.sagaId > b.sagaId
+          ? 1
+          : 0;
+
+  return sortOrder === "asc" ? result : -result;
+}
+
+function isInRange(
+  value: Date,
+  range: SagaQueryFilter["createdAt"]
+): boolean {
+  const time = toTime(value);
+  if (range?.from && time < range.from.getTime()) {
+    return false;
+  }
+  if (range?.to && time >= range.to.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Dates may arrive as ISO strings from stores that don't revive them.
+ */
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
@@ -0,0 +1,312 @@
+import { ValidationError } from "../errors/index.js";
+import type { MessageEnvelope, Serializer } from "../types/index.js";
+
+/** Content type of {@link JsonSerializer} */
+export const JSON_CONTENT_TYPE = "application/json";
+
+/** Content type of {@link TypedJsonSerializer} */
+export const TYPED_JSON_CONTENT_TYPE = "application/vnd.saga-bus+json";
+
+/** Content type of {@link SchemaJsonSerializer} */
+export const SCHEMA_JSON_CONTENT_TYPE = "application/schema-instance+json";
+
+/** Envelope property listing the typed values of a typed JSON message */
+const TYPES_PROPERTY = "$types";
+
+/** Envelope property holding the schema ID of a schema-tagged message */
+const SCHEMA_PROPERTY = "$schema";
+
+type TypeTag = "Date" | "BigInt" | "Map" | "Set" | "Buffer";
+
+/**
+ * Plain JSON, as transports sent messages before serializers were
+ * pluggable. Only the envelope timestamp is revived: Dates in payloads
+ * arrive as ISO strings, and BigInts can't be serialized at all.
+ *
+ * Use it to exchange messages with consumers that don't use saga-bus.
+ */
+export class JsonSerializer implements Serializer {
+  readonly contentType = JSON_CONTENT_TYPE;
+
+  serialize(envelope: MessageEnvelope): Buffer {
+    return Buffer.from(JSON.stringify(envelope));
+  }
+
+  deserialize(data: Buffer): MessageEnvelope {
+    return reviveTimestamp(parseEnvelope(data));
+  }
+}
+
+/**
+ * JSON that preserves Date, BigInt, Map, Set and Buffer values. This is
+ * the default serializer of every transport.
+ *
+ * Such values are written as JSON (ISO strings, decimal strings, entry
+ * arrays, arrays and base64 respectively) and listed by JSON Pointer under
+ * a `$types` property, so a consumer reading the body as plain JSON still
+ * finds Dates as ISO strings.
+ */
+export class TypedJsonSerializer implements Serializer {
+  readonly contentType = TYPED_JSON_CONTENT_TYPE;
+
+  serialize(envelope: MessageEnvelope): Buffer {
+    return Buffer.from(JSON.stringify(toTypedJson(envelope)));
+  }
+
+  deserialize(data: Buffer): MessageEnvelope {
+    return fromTypedJson(parseEnvelope(data));
+  }
+}
+
+/**
+ * Options for {@link SchemaJsonSerializer}.
+ */
+export interface SchemaJsonSerializerOptions {
+  /** JSON Schema ID (`$id`) by message type */
+  schemas: Readonly<Record<string, string>>;
+
+  /**
+   * Validate a received payload against the schema it was tagged with,
+   * e.g. with Ajv. The payload is passed as plain JSON, before Dates and
+   * other typed values are revived. Return false or throw to reject it.
+   */
+  validate?: (schemaId: string, payload: unknown) => boolean | void;
+
+  /**
+   * Reject message types without a schema, both when publishing and
+   * when consuming.
+   * @default false
+   */
+  requireSchema?: boolean;
+}
+
+/**
+ * Typed JSON (see {@link TypedJsonSerializer}) tagged with the JSON Schema
+ * of the message type under a `$schema` property, so consumers can validate
+ * a payload against the schema version its producer used.
+ */
+export class SchemaJsonSerializer implements Serializer {
+  readonly contentType = SCHEMA_JSON_CONTENT_TYPE;
+  private readonly schemas: Readonly<Record<string, string>>;
+  private readonly validate?: SchemaJsonSerializerOptions["validate"];
+  private readonly requireSchema: boolean;
+
+  constructor(options: SchemaJsonSerializerOptions) {
+    this.schemas = options.schemas;
+    this.validate = options.validate;
+    this.requireSchema = options.requireSchema ?? false;
+  }
+
+  serialize(envelope: MessageEnvelope): Buffer {
+    const schemaId = this.schemas[envelope.type];
+    if (schemaId === undefined && this.requireSchema) {
+      throw new ValidationError(
+        `No schema registered for message type "${envelope.type}"`,
+        "type",
+        envelope.type
+      );
+    }
+
+    const json = toTypedJson(envelope);
+    return Buffer.from(
+      JSON.stringify(
+        schemaId === undefined ? json : { [SCHEMA_PROPERTY]: schemaId, ...json }
+      )
+    );
+  }
+
+  deserialize(data: Buffer): MessageEnvelope {
+    const { [SCHEMA_PROPERTY]: schemaId, ...json } = parseEnvelope(data);
+
+    if (typeof schemaId !== "string") {
+      if (this.requireSchema) {
+        throw new ValidationError(
+          `Message of type "${String(json.type)}" is not tagged with a schema`,
+          "type",
+          json.type
+        );
+      }
+      return fromTypedJson(json);
+    }
+
+    if (this.validate && this.validate(schemaId, json.payload) === false) {
+      throw new ValidationError(
+        `Payload of message type "${String(json.type)}" does not match schema ${schemaId}`,
+        "payload",
+        json.payload
+      );
+    }
+
+    return fromTypedJson(json);
+  }
+}
+
+function parseEnvelope(data: Buffer): Record<string, unknown> {
+  const parsed: unknown = JSON.parse(data.toString("utf8"));
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Message body is not a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function reviveTimestamp(envelope: Record<string, unknown>): MessageEnvelope {
+  const { timestamp } = envelope;
+  return {
+    ...envelope,
+    timestamp:
+      timestamp instanceof Date ? timestamp : new Date(timestamp as string),
+  } as unknown as MessageEnvelope;
+}
+
+function toTypedJson(envelope: MessageEnvelope): Record<string, unknown> {
+  const types: Record<string, TypeTag> = {};
+  const json = encodeValue(envelope, "", types) as Record<string, unknown>;
+  return { ...json, [TYPES_PROPERTY]: types };
+}
+
+function fromTypedJson(json: Record<string, unknown>): MessageEnvelope {
+  const { [TYPES_PROPERTY]: types, ...envelope } = json;
+
+  if (types !== undefined) {
+    if (typeof types !== "object" || types === null) {
+      throw new Error(`Invalid ${TYPES_PROPERTY} property`);
+    }
+    // Entries are listed children first, so containers are revived last
+    for (const [pointer, tag] of Object.entries(types)) {
+      reviveAt(envelope, pointer, tag);
+    }
+  }
+
+  return reviveTimestamp(envelope);
+}
+
+/**
+ * Copy a value into plain JSON, recording the pointer and type of every
+ * value JSON can't represent. Containers are recorded after their contents.
+ */
+function encodeValue(
+  value: unknown,
+  pointer: string,
+  types: Record<string, TypeTag>
+): unknown {
+  if (typeof value === "bigint") {
+    types[pointer] = "BigInt";
+    return value.toString();
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    types[pointer] = "Date";
+    return value.toJSON();
+  }
+  if (value instanceof Uint8Array) {
+    types[pointer] = "Buffer";
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString(
+      "base64"
+    );
+  }
+  if (value instanceof Map) {
+    const entries = Array.from(value, ([key, item], index) => [
+      encodeValue(key, `${pointer}/${index}/0`, types),
+      encodeValue(item, `${pointer}/${index}/1`, types),
+    ]);
+    types[pointer] = "Map";
+    return entries;
+  }
+  if (value instanceof Set) {
+    const items = Array.from(value, (item, index) =>
+      encodeValue(item, `${pointer}/${index}`, types)
+    );
+    types[pointer] = "Set";
+    return items;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      encodeValue(item, `${pointer}/${index}`, types)
+    );
+  }
+
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === "function") {
+    return encodeValue(toJSON.call(value), pointer, types);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = encodeValue(
+      item,
+      `${pointer}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`,
+      types
+    );
+  }
+  return result;
+}
+
+function reviveAt(
+  root: Record<string, unknown>,
+  pointer: string,
+  tag: unknown
+): void {
+  const tokens = pointer
+    .split("/")
+    .slice(1)
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const last = tokens.pop();
+  if (!pointer.startsWith("/") || last === undefined) {
+    throw new Error(`Invalid type pointer "${pointer}"`);
+  }
+
+  let parent: unknown = root;
+  for (const token of tokens) {
+    parent = getOwnValue(parent, token, pointer);
+  }
+  getOwnValue(parent, last, pointer);
+
+  const container = parent as Record<string, unknown>;
+  container[last] = reviveValue(container[last], tag, pointer);
+}
+
+function getOwnValue(value: unknown, token: string, pointer: string): unknown {
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    !Object.prototype.hasOwnProperty.call(value, token)
+  ) {
+    throw new Error(`Type pointer "${pointer}" does not match the message`);
+  }
+  return (value as Record<string, unknown>)[token];
+}
+
+function reviveValue(value: unknown, tag: unknown, pointer: string): unknown {
+  switch (tag) {
+    case "Date":
+      if (typeof value === "string" || value === null) {
+        return new Date(value ?? Number.NaN);
+      }
+      break;
+    case "BigInt":
+      if (typeof value === "string") {
+        return BigInt(value);
+      }
+      break;
+    case "Map":
+      if (Array.isArray(value)) {
+        return new Map(value as Array<[unknown, unknown]>);
+      }
+      break;
+    case "Set":
+      if (Array.isArray(value)) {
+        return new Set(value);
+      }
+      break;
+    case "Buffer":
+      if (typeof value === "string") {
+        return Buffer.from(value, "base64");
+      }
+      break;
+    default:
+      throw new Error(`Unknown type "${String(tag)}" at ${pointer}`);
+  }
+  throw new Error(`Value at ${pointer} is not a serialized ${String(tag)}`);
+}
@@ -14,6 +14,13 @@ export function generateMessageId(): string {
   return randomUUID();
 }
 
+/**
+ * Generate a unique saga timeout token.
+ */
+export function generateTimeoutToken(): string {
+  return randomUUID();
+}
+
 /**
  * Create a new Date for timestamps.
  */
@@ -3,6 +3,7 @@ import type { Transport, TransportPublishOptions } from "./transport.js";
 import type { SagaDefinition, SagaState, SagaStore } from "./saga.js";
 import type { SagaMiddleware } from "./middleware.js";
 import type { Logger, Metrics, Tracer, ErrorHandler } from "./observability.js";
+import type { SagaBusEventListener, SagaBusEventName } from "./events.js";
 
 /**
  * Registration of a saga with its store.
@@ -16,6 +17,40 @@ export interface SagaRegistration<
   readonly store?: SagaStore<TState>;
 }
 
+/**
+ * What happened to in-flight messages while the bus stopped.
+ */
+export interface BusDrainStats {
+  /** Messages being processed when the bus started stopping */
+  readonly inFlight: number;
+  /** In-flight messages that finished before the shutdown timeout */
+  readonly completed: number;
+  /** In-flight messages handed back to the transport at the timeout */
+  readonly handedBack: number;
+  /** Messages refused (and handed back) because they arrived while draining */
+  readonly refused: number;
+  /** Whether the shutdown timeout expired before everything finished */
+  readonly timedOut: boolean;
+  /** Time spent draining in milliseconds */
+  readonly durationMs: number;
+}
+
+/**
+ * A saga registered with a running bus, as reported by `bus.getSagas()`.
+ */
+export interface RegisteredSaga {
+  /** Saga name */
+  readonly name: string;
+  /** Message types the saga handles */
+  readonly handledMessageTypes: ReadonlyArray<string>;
+  /** Store the saga's instances are kept in */
+  readonly store: SagaStore<SagaState>;
+  /** Endpoint for the saga's timeouts and child notifications, if not their type */
+  readonly defaultEndpoint?: string;
+  /** Cancel a pending timeout message of an instance. Best effort */
+  cancelTimeout?(sagaId: string, timeoutToken: string): Promise<void>;
+}
+
 /**
  * Retry policy configuration.
  */
@@ -40,6 +75,56 @@ export interface TimeoutBounds {
   readonly maxMs?: number;
 }
 
+/**
+ * Transactional outbox configuration.
+ */
+export interface OutboxConfig {
+  /**
+   * Buffer messages from ctx.publish()/ctx.schedule() and persist them with
+   * the saga state instead of sending them while the handler runs.
+   */
+  readonly enabled: boolean;
+  /** How often the relay polls for pending messages in milliseconds (default: 1000) */
+  readonly pollIntervalMs?: number;
+  /** Maximum messages claimed per poll (default: 100) */
+  readonly batchSize?: number;
+  /** How long a claimed message is hidden from other relays in milliseconds (default: 30000) */
+  readonly lockDurationMs?: number;
+}
+
+/**
+ * Saga history configuration.
+ */
+export interface HistoryConfig {
+  /**
+   * Record every state transition with the saga's store. Needs a store
+   * implementing `SagaHistoryStore`; sagas with other stores are not recorded.
+   */
+  readonly enabled: boolean;
+}
+
+/**
+ * Request/response configuration.
+ */
+export interface RequestConfig {
+  /** Endpoint this bus instance receives replies on (default: "saga-bus.replies.<random id>") */
+  readonly replyEndpoint?: string;
+  /** Default timeout for request() and waitForSaga() in milliseconds (default: 30000) */
+  readonly defaultTimeoutMs?: number;
+  /** How often waitForSaga() re-reads the store in milliseconds (default: 500) */
+  readonly pollIntervalMs?: number;
+}
+
+/**
+ * Options for bus.request().
+ */
+export interface RequestOptions extends Partial<TransportPublishOptions> {
+  /** Only resolve on a reply of this message type */
+  readonly replyType?: string;
+  /** How long to wait for the reply in milliseconds */
+  readonly timeoutMs?: number;
+}
+
 /**
  * Context provided when a message fails correlation.
  */
@@ -65,10 +150,28 @@ export type CorrelationFailureHandler = (
 export interface WorkerConfig {
   /** Default concurrency for all subscriptions */
   readonly defaultConcurrency?: number;
-  /** Timeout for graceful shutdown in milliseconds */
+  /**
+   * How long `bus.stop()` waits for in-flight messages before handing them
+   * back to the transport, in milliseconds (default: 30000)
+   */
   readonly shutdownTimeoutMs?: number;
   /** Default retry policy */
   readonly retryPolicy?: WorkerRetryPolicy;
+  /**
+   * Process messages for the same saga instance (saga name and correlation
+   * ID) one at a time within this bus, while other instances keep running
+   * in parallel (default: true). Avoids most concurrency conflicts when
+   * concurrency is above 1 or a saga consumes several endpoints.
+   */
+  readonly serializeByCorrelation?: boolean;
+  /**
+   * How many times to reload the saga and re-run the handler in place when
+   * its update fails with a ConcurrencyError, before handing the message to
+   * the retry policy (default: 0). As with any retry, messages the handler
+   * published before the conflict are published again unless the outbox is
+   * enabled.
+   */
+  readonly concurrencyRetries?: number;
   /** Per-saga configuration overrides */
   readonly sagas?: Record<
     string,
@@ -79,6 +182,19 @@ export interface WorkerConfig {
   >;
   /** Function to generate DLQ endpoint names */
   readonly dlqNaming?: (endpoint: string) => string;
+  /**
+   * How sagas handling the same message type subscribe (default: "shared").
+   * - "shared": one subscription per message type; sagas run one after another
+   * - "perSaga": one subscription per saga and message type, each in its own
+   *   consumer group (see `groupNaming`), so sagas consume independently
+   *
+   * In both modes a retried message only re-runs the saga that failed.
+   * "perSaga" needs a transport that fans out to consumer groups
+   * (RabbitMQ, Kafka, NATS, Azure Service Bus, GCP Pub/Sub, in-memory).
+   */
+  readonly subscriptionMode?: "shared" | "perSaga";
+  /** Consumer group name for a saga's subscription in "perSaga" mode */
+  readonly groupNaming?: (sagaName: string, endpoint: string) => string;
   /** Timeout bounds to prevent accidental extreme values */
   readonly timeoutBounds?: TimeoutBounds;
   /** Handler for messages that fail correlation (default: "drop") */
@@ -99,14 +215,20 @@ export interface BusConfig {
   readonly middleware?: ReadonlyArray<SagaMiddleware>;
   /** Logger implementation */
   readonly logger?: Logger;
-  /** Metrics implementation */
+  /** Receives the runtime's measurements (see `SAGA_BUS_METRICS`) */
   readonly metrics?: Metrics;
-  /** Tracer implementation */
+  /** Wraps loading, handling, persisting and publishing in spans (see `SAGA_BUS_SPANS`) */
   readonly tracer?: Tracer;
   /** Error handler implementation */
   readonly errorHandler?: ErrorHandler;
   /** Worker configuration */
   readonly worker?: WorkerConfig;
+  /** Transactional outbox configuration (disabled by default) */
+  readonly outbox?: OutboxConfig;
+  /** Saga history configuration (disabled by default) */
+  readonly history?: HistoryConfig;
+  /** Request/response configuration */
+  readonly requests?: RequestConfig;
 }
 
 /**
@@ -119,15 +241,39 @@ export interface Bus {
   start(): Promise<void>;
 
   /**
-   * Stop the bus (graceful shutdown).
+   * Stop the bus gracefully: refuse new deliveries, wait for in-flight
+   * messages up to `worker.shutdownTimeoutMs`, hand the rest back to the
+   * transport, then stop the transport.
    */
-  stop(): Promise<void>;
+  stop(): Promise<BusDrainStats>;
 
   /**
    * Check if the bus is running.
    */
   isRunning(): boolean;
 
+  /**
+   * List the registered sagas with their stores, for admin tooling.
+   */
+  getSagas(): ReadonlyArray<RegisteredSaga>;
+
+  /**
+   * Listen to saga lifecycle and message failure events.
+   * @returns Function that removes the listener
+   */
+  on<K extends SagaBusEventName>(
+    event: K,
+    listener: SagaBusEventListener<K>
+  ): () => void;
+
+  /**
+   * Remove a listener registered with `on()`.
+   */
+  off<K extends SagaBusEventName>(
+    event: K,
+    listener: SagaBusEventListener<K>
+  ): void;
+
   /**
    * Publish a message.
    */
@@ -135,4 +281,30 @@ export interface Bus {
     message: TMessage,
     options?: Partial<TransportPublishOptions>
   ): Promise<void>;
+
+  /**
+   * Publish a message and wait for a saga to answer it with ctx.reply().
+   * Only the reply type needs to be given: the default message type
+   * accepts any message literal.
+   * @throws RequestTimeoutError if no reply arrives in time
+   */
+  request<
+    TReply extends BaseMessage,
+    TMessage extends BaseMessage = BaseMessage & Record<string, unknown>,
+  >(
+    message: TMessage,
+    options?: RequestOptions
+  ): Promise<TReply>;
+
+  /**
+   * Wait until a saga instance satisfies `predicate`. Resolves immediately
+   * if it already does.
+   * @throws RequestTimeoutError if the saga does not get there in time
+   */
+  waitForSaga<TState extends SagaState>(
+    sagaName: string,
+    correlationId: string,
+    predicate: (state: TState) => boolean,
+    timeoutMs?: number
+  ): Promise<TState>;
 }
@@ -0,0 +1,121 @@
+import type { SagaState } from "./saga.js";
+
+/**
+ * Fields shared by events about one saga instance handling one message.
+ */
+export interface SagaEventBase {
+  readonly sagaName: string;
+  readonly sagaId: string;
+  readonly correlationId: string;
+  /** Type of the message being handled */
+  readonly messageType: string;
+  /** ID of the message envelope being handled */
+  readonly messageId: string;
+}
+
+/**
+ * A saga instance was inserted into the store.
+ */
+export interface SagaCreatedEvent extends SagaEventBase {
+  readonly version: number;
+  readonly state: SagaState;
+}
+
+/**
+ * A saga instance was persisted as completed or compensated.
+ */
+export interface SagaCompletedEvent extends SagaEventBase {
+  readonly status: "completed" | "compensated";
+  readonly version: number;
+  readonly compensationReason?: string;
+  readonly state: SagaState;
+}
+
+/**
+ * A handler's new state was persisted.
+ */
+export interface SagaStateChangedEvent extends SagaEventBase {
+  readonly previousVersion: number;
+  readonly version: number;
+  readonly previousState: SagaState;
+  readonly state: SagaState;
+}
+
+/**
+ * A timeout message was scheduled for a saga instance.
+ */
+export interface SagaTimeoutScheduledEvent extends SagaEventBase {
+  readonly version: number;
+  readonly timeoutMs: number;
+  readonly expiresAt: Date;
+}
+
+/**
+ * Fields shared by events about a message that failed processing.
+ * Saga fields are set when the failure happened inside a saga.
+ */
+export interface MessageFailureEventBase {
+  readonly messageType: string;
+  readonly messageId: string;
+  /** Endpoint the message was consumed from */
+  readonly endpoint: string;
+  readonly sagaName?: string;
+  readonly sagaId?: string;
+  readonly correlationId?: string;
+  /** Attempts made so far, including the failed one */
+  readonly attempt: number;
+  readonly error: unknown;
+}
+
+/**
+ * A failed message was republished for another attempt.
+ */
+export interface MessageRetriedEvent extends MessageFailureEventBase {
+  readonly maxAttempts: number;
+  readonly delayMs: number;
+}
+
+/**
+ * A message was sent to a dead-letter endpoint.
+ */
+export interface MessageDeadLetteredEvent extends MessageFailureEventBase {
+  readonly dlqEndpoint: string;
+}
+
+/**
+ * A saga could not derive a correlation ID from a message.
+ */
+export interface CorrelationFailedEvent {
+  readonly sagaName: string;
+  readonly messageType: string;
+  readonly messageId: string;
+  /** What happens to the message */
+  readonly action: "drop" | "dlq";
+}
+
+/**
+ * Events emitted by the bus, by name.
+ */
+export interface SagaBusEventMap {
+  sagaCreated: SagaCreatedEvent;
+  sagaCompleted: SagaCompletedEvent;
+  stateChanged: SagaStateChangedEvent;
+  timeoutScheduled: SagaTimeoutScheduledEvent;
+  messageRetried: MessageRetriedEvent;
+  messageDeadLettered: MessageDeadLetteredEvent;
+  correlationFailed: CorrelationFailedEvent;
+}
+
+/**
+ * Name of a bus event.
+ */
+export type SagaBusEventName = keyof SagaBusEventMap;
+
+/**
+ * Listener for a bus event. Listeners run after the change they report
+ * was persisted or published; they are not awaited, and their errors are
+ * logged without affecting message processing.
+ */
+export type SagaBusEventListener<K extends SagaBusEventName> = (
+  event: SagaBusEventMap[K]
+) => void | Promise<void>;
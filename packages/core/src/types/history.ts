@@ -0,0 +1,87 @@
+import type { OutboxMessage } from "./outbox.js";
+import type { SagaState, SagaStore } from "./saga.js";
+
+/**
+ * What a recorded transition did to the saga instance.
+ */
+export type SagaHistoryOutcome =
+  | "created"
+  | "updated"
+  | "completed"
+  | "compensated";
+
+/**
+ * One state transition of a saga instance, recorded when history is
+ * enabled (see `BusConfig.history`).
+ */
+export interface SagaHistoryEntry {
+  /** Unique identifier for this entry */
+  readonly id: string;
+  readonly sagaName: string;
+  readonly sagaId: string;
+  readonly correlationId: string;
+  /** ID of the message envelope that caused the transition */
+  readonly messageId: string;
+  /** Type of the message that caused the transition */
+  readonly messageType: string;
+  readonly outcome: SagaHistoryOutcome;
+  /** Version before the transition (null when the message created the saga) */
+  readonly previousVersion: number | null;
+  /** Version after the transition */
+  readonly version: number;
+  /** State before the transition (null when the message created the saga) */
+  readonly previousState: SagaState | null;
+  /** State after the transition */
+  readonly state: SagaState;
+  /** W3C trace parent of the message being handled, if traced */
+  readonly traceParent: string | null;
+  /** When the transition was persisted */
+  readonly recordedAt: Date;
+}
+
+/**
+ * Optional store capability for saga history.
+ *
+ * Stores implementing this interface write the history entry in the same
+ * transaction as the saga state, so failed updates (e.g. ConcurrencyError)
+ * leave no entry behind. Stores that also implement `SagaOutboxStore`
+ * receive the transition's outbox messages in the same call.
+ */
+export interface SagaHistoryStore<TState extends SagaState>
+  extends SagaStore<TState> {
+  /**
+   * Insert a new saga instance together with its first history entry.
+   * @param outbox Outbox messages to write as well (empty unless the outbox is in use)
+   */
+  insertWithHistory(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void>;
+
+  /**
+   * Update a saga instance and append a history entry atomically.
+   * @param outbox Outbox messages to write as well (empty unless the outbox is in use)
+   * @throws ConcurrencyError if version mismatch (nothing is written)
+   */
+  updateWithHistory(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void>;
+
+  /**
+   * Get the recorded transitions of a saga instance, oldest first.
+   */
+  getHistory(sagaName: string, sagaId: string): Promise<SagaHistoryEntry[]>;
+
+  /**
+   * Delete history entries recorded before a given date.
+   * @returns Number of deleted entries
+   */
+  deleteHistoryBefore(before: Date): Promise<number>;
+}
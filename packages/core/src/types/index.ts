@@ -3,40 +3,99 @@ export type {
   BaseMessage,
   MessageEnvelope,
   SagaTimeoutExpired,
+  SagaChildCompleted,
+  SagaChildCompensated,
 } from "./messages.js";
 
-export { SAGA_TIMEOUT_MESSAGE_TYPE } from "./messages.js";
+export {
+  SAGA_TIMEOUT_MESSAGE_TYPE,
+  SAGA_CHILD_COMPLETED_MESSAGE_TYPE,
+  SAGA_CHILD_COMPENSATED_MESSAGE_TYPE,
+} from "./messages.js";
 
 // Transport
 export type {
   Transport,
   TransportSubscribeOptions,
   TransportPublishOptions,
+  TransportBatchMessage,
 } from "./transport.js";
 
 // Saga
 export type {
   SagaState,
   SagaStateMetadata,
+  SagaStatus,
+  SagaReplyAddress,
+  SagaParentReference,
   SagaStore,
   SagaContext,
   SagaHandlerResult,
+  UnhandledMessagePolicy,
   SagaCorrelation,
   SagaDefinition,
 } from "./saga.js";
 
+// Outbox
+export type { OutboxMessage, SagaOutboxStore } from "./outbox.js";
+
+// History
+export type {
+  SagaHistoryOutcome,
+  SagaHistoryEntry,
+  SagaHistoryStore,
+} from "./history.js";
+
+// Serialization
+export type { Serializer } from "./serializer.js";
+
+// Scheduler
+export type { ScheduledMessage, ScheduledMessageStore } from "./scheduler.js";
+
+// Query
+export type {
+  SagaDateRange,
+  SagaQueryFilter,
+  SagaQuerySortField,
+  SagaQuery,
+  SagaQueryResult,
+  SagaQueryableStore,
+} from "./query.js";
+
 // Bus
 export type {
   Bus,
   BusConfig,
   SagaRegistration,
+  RegisteredSaga,
+  BusDrainStats,
   WorkerConfig,
   WorkerRetryPolicy,
   TimeoutBounds,
+  OutboxConfig,
+  HistoryConfig,
+  RequestConfig,
+  RequestOptions,
   CorrelationFailureContext,
   CorrelationFailureHandler,
 } from "./bus.js";
 
+// Events
+export type {
+  SagaEventBase,
+  SagaCreatedEvent,
+  SagaCompletedEvent,
+  SagaStateChangedEvent,
+  SagaTimeoutScheduledEvent,
+  MessageFailureEventBase,
+  MessageRetriedEvent,
+  MessageDeadLetteredEvent,
+  CorrelationFailedEvent,
+  SagaBusEventMap,
+  SagaBusEventName,
+  SagaBusEventListener,
+} from "./events.js";
+
 // Middleware
 export type {
   SagaPipelineContext,
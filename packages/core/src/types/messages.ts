@@ -40,7 +40,55 @@ export interface SagaTimeoutExpired extends BaseMessage {
   readonly timeoutMs: number;
   /** When the timeout was originally set */
   readonly timeoutSetAt: Date;
+  /**
+   * Token of the timeout this message belongs to. Messages whose token no
+   * longer matches `metadata.timeoutToken` are stale and never reach handlers.
+   */
+  readonly timeoutToken?: string;
 }
 
 /** Well-known message type constant for saga timeout */
 export const SAGA_TIMEOUT_MESSAGE_TYPE = "SagaTimeoutExpired" as const;
+
+/**
+ * Fields shared by the messages a child saga sends its parent when it
+ * finishes. `sagaName`, `sagaId` and `correlationId` identify the parent.
+ */
+interface SagaChildFinishedFields {
+  /** Name of the parent saga */
+  readonly sagaName: string;
+  /** ID of the parent saga instance */
+  readonly sagaId: string;
+  /** Correlation ID of the parent saga */
+  readonly correlationId: string;
+  /** Name of the child saga */
+  readonly childSagaName: string;
+  /** ID of the child saga instance */
+  readonly childSagaId: string;
+  /** Correlation ID of the child saga */
+  readonly childCorrelationId: string;
+}
+
+/**
+ * System message sent to the parent when a child saga started with
+ * `ctx.startChildSaga()` completes.
+ */
+export interface SagaChildCompleted extends BaseMessage, SagaChildFinishedFields {
+  readonly type: "SagaChildCompleted";
+}
+
+/**
+ * System message sent to the parent when a child saga started with
+ * `ctx.startChildSaga()` is compensated.
+ */
+export interface SagaChildCompensated
+  extends BaseMessage,
+    SagaChildFinishedFields {
+  readonly type: "SagaChildCompensated";
+  /** Reason the child passed to ctx.compensate() */
+  readonly reason: string | null;
+}
+
+/** Well-known message type constants for child saga results */
+export const SAGA_CHILD_COMPLETED_MESSAGE_TYPE = "SagaChildCompleted" as const;
+export const SAGA_CHILD_COMPENSATED_MESSAGE_TYPE = "SagaChildCompensated" as const;
@@ -0,0 +1,83 @@
+import type { BaseMessage } from "./messages.js";
+import type { TransportPublishOptions } from "./transport.js";
+import type { SagaState, SagaStore } from "./saga.js";
+
+/**
+ * A message captured from `ctx.publish()` / `ctx.schedule()` while the
+ * outbox is enabled. Persisted together with the saga state and sent
+ * later by the outbox relay.
+ */
+export interface OutboxMessage {
+  /** Unique identifier for this outbox entry */
+  readonly id: string;
+  /** Name of the saga that produced the message */
+  readonly sagaName: string;
+  /** ID of the saga instance that produced the message */
+  readonly sagaId: string;
+  /** The message to publish */
+  readonly message: BaseMessage;
+  /** Publish options resolved when the handler ran (endpoint is always set) */
+  readonly options: TransportPublishOptions;
+  /** When the message was captured (delayMs is measured from here) */
+  readonly createdAt: Date;
+  /** Number of failed dispatch attempts */
+  readonly attempts: number;
+  /** Last dispatch error, if any */
+  readonly lastError?: string | null;
+}
+
+/**
+ * Optional store capability for the transactional outbox.
+ *
+ * Stores implementing this interface write outbox messages in the same
+ * transaction as the saga state, so a failed update (e.g. ConcurrencyError)
+ * never leaves messages behind.
+ */
+export interface SagaOutboxStore<TState extends SagaState>
+  extends SagaStore<TState> {
+  /**
+   * Insert a new saga instance together with its outbox messages.
+   */
+  insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void>;
+
+  /**
+   * Update a saga instance and append outbox messages atomically.
+   * @throws ConcurrencyError if version mismatch (no messages are written)
+   */
+  updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void>;
+
+  /**
+   * Claim undispatched messages for sending. Claimed messages are hidden
+   * from other relays for `lockDurationMs`.
+   */
+  claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]>;
+
+  /**
+   * Mark a message as sent. Called only after the transport publish succeeds.
+   */
+  markOutboxMessageDispatched(id: string): Promise<void>;
+
+  /**
+   * Record a failed dispatch and release the claim so it is retried.
+   */
+  markOutboxMessageFailed(id: string, error: string): Promise<void>;
+
+  /**
+   * Delete dispatched messages older than a given date.
+   * @returns Number of deleted messages
+   */
+  deleteDispatchedOutboxMessages(before: Date): Promise<number>;
+}
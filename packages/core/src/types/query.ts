@@ -0,0 +1,81 @@
+import type { SagaState, SagaStore } from "./saga.js";
+
+/**
+ * Date range filter. `from` is inclusive, `to` is exclusive.
+ */
+export interface SagaDateRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Filters for querying saga instances of one saga type.
+ */
+export interface SagaQueryFilter {
+  /** Only completed (true) or incomplete (false) sagas */
+  completed?: boolean;
+  /** Restrict by creation time */
+  createdAt?: SagaDateRange;
+  /** Restrict by last update time */
+  updatedAt?: SagaDateRange;
+  /** Only sagas with a timeout set that expires before this date */
+  timeoutExpiresBefore?: Date;
+  /** Only child sagas started by this parent saga instance */
+  parentSagaId?: string;
+}
+
+/**
+ * Fields saga queries can be sorted by.
+ */
+export type SagaQuerySortField = "createdAt" | "updatedAt";
+
+/**
+ * A paged, sorted saga query.
+ */
+export interface SagaQuery extends SagaQueryFilter {
+  /** Sort field (default: "createdAt") */
+  sortBy?: SagaQuerySortField;
+  /** Sort direction (default: "desc") */
+  sortOrder?: "asc" | "desc";
+  /** Maximum number of items per page (default: 100) */
+  limit?: number;
+  /** Opaque cursor from a previous result's `nextCursor` */
+  cursor?: string | null;
+}
+
+/**
+ * A page of saga query results.
+ */
+export interface SagaQueryResult<TState extends SagaState> {
+  items: TState[];
+  /** Cursor for the next page, or null when there are no more results */
+  nextCursor: string | null;
+}
+
+/**
+ * Optional store capability for listing and cleaning up saga instances.
+ *
+ * Lets admin tools and cleanup jobs be written once against any backend.
+ * Cursors are only valid for the same saga name, filter and sort.
+ */
+export interface SagaQueryableStore<TState extends SagaState>
+  extends SagaStore<TState> {
+  /**
+   * Find saga instances matching a query, one page at a time.
+   */
+  findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>>;
+
+  /**
+   * Count saga instances matching a filter.
+   */
+  countSagas(sagaName: string, filter?: SagaQueryFilter): Promise<number>;
+
+  /**
+   * Delete completed sagas last updated before a given date.
+   * @returns Number of deleted sagas
+   */
+  deleteCompletedBefore(sagaName: string, before: Date): Promise<number>;
+}
@@ -1,6 +1,31 @@
 import type { BaseMessage, MessageEnvelope } from "./messages.js";
 import type { TransportPublishOptions } from "./transport.js";
 
+/**
+ * Terminal status of a finished saga.
+ * - completed: finished normally
+ * - compensated: rolled back via ctx.compensate()
+ */
+export type SagaStatus = "completed" | "compensated";
+
+/**
+ * Where replies to a `bus.request()` go: the requester's reply endpoint and
+ * the correlation ID it waits for.
+ */
+export interface SagaReplyAddress {
+  readonly endpoint: string;
+  readonly correlationId: string;
+}
+
+/**
+ * The saga instance that started a child saga with `ctx.startChildSaga()`.
+ */
+export interface SagaParentReference {
+  readonly sagaName: string;
+  readonly sagaId: string;
+  readonly correlationId: string;
+}
+
 /**
  * Metadata tracked for every saga instance.
  */
@@ -25,6 +50,20 @@ export interface SagaStateMetadata {
   readonly timeoutMs?: number | null;
   /** When the timeout expires (if set) */
   readonly timeoutExpiresAt?: Date | null;
+  /** Token of the current timeout; changes whenever the timeout is set or cleared */
+  readonly timeoutToken?: string | null;
+  /** Executed steps that registered a compensation, in execution order */
+  readonly completedSteps?: ReadonlyArray<string>;
+  /** Terminal status, set once the saga has finished */
+  readonly status?: SagaStatus | null;
+  /** Reason passed to ctx.compensate() (if compensated) */
+  readonly compensationReason?: string | null;
+  /** Reply address of the latest request routed to this saga, used by ctx.reply() */
+  readonly replyTo?: SagaReplyAddress | null;
+  /** Saga that started this one as a child, notified when it finishes */
+  readonly parent?: SagaParentReference | null;
+  /** Version of the state shape (see SagaDefinition.stateVersion); missing means 1 */
+  readonly schemaVersion?: number;
 }
 
 /**
@@ -107,11 +146,43 @@ export interface SagaContext {
     options?: Partial<TransportPublishOptions>
   ): Promise<void>;
 
+  /**
+   * Reply to the caller of `bus.request()`. Works in any handler after the
+   * request reached the saga, since the reply address is kept in metadata.
+   * @throws Error if no request was routed to this saga
+   */
+  reply<TMessage extends BaseMessage>(
+    message: TMessage,
+    options?: Partial<Omit<TransportPublishOptions, "endpoint">>
+  ): Promise<void>;
+
+  /**
+   * Start another saga as a child of this one by publishing a message that
+   * starts it. Only the named saga handles the message. When the child
+   * completes or is compensated, a `SagaChildCompleted` or
+   * `SagaChildCompensated` message is sent back to this saga.
+   * @param sagaName - Name of the child saga
+   * @param message - A message the child saga can start from
+   */
+  startChildSaga<TMessage extends BaseMessage>(
+    sagaName: string,
+    message: TMessage,
+    options?: Partial<TransportPublishOptions>
+  ): Promise<void>;
+
   /**
    * Mark the saga as complete.
    */
   complete(): void;
 
+  /**
+   * Roll the saga back: after this handler, the compensations of all
+   * completed steps run in reverse order and the saga ends with
+   * status "compensated".
+   * @param reason - Why the saga is being compensated
+   */
+  compensate(reason: string): void;
+
   /**
    * Set a metadata value.
    */
@@ -149,8 +220,25 @@ export interface SagaHandlerResult<TState extends SagaState> {
   readonly newState: TState;
   /** Whether the saga should be marked as complete */
   readonly isCompleted?: boolean;
+  /**
+   * Set when no handler matched the message. The state is not saved and
+   * the definition's unhandledMessagePolicy applies.
+   */
+  readonly unhandled?: boolean;
 }
 
+/**
+ * What to do with a message for an existing saga that no handler matched,
+ * because its type has no handler or every `.when()` guard failed:
+ * - ignore: drop it (logged at debug level)
+ * - warn: drop it and log a warning
+ * - error: fail with UnhandledMessageError, classified by the error handler
+ * - dlq: send it to the dead-letter endpoint without retrying
+ *
+ * Unhandled messages are counted in every case.
+ */
+export type UnhandledMessagePolicy = "ignore" | "warn" | "error" | "dlq";
+
 /**
  * Correlation configuration for a message type.
  */
@@ -198,4 +286,41 @@ export interface SagaDefinition<
     state: TState,
     ctx: SagaContext
   ): Promise<SagaHandlerResult<TState>>;
+
+  /**
+   * Handle a message for an existing saga that handle() reported as
+   * unhandled. Definitions without a fallback handler omit this, and the
+   * unhandledMessagePolicy applies instead.
+   */
+  handleUnhandled?<T extends TMessageUnion>(
+    message: T,
+    state: TState,
+    ctx: SagaContext
+  ): Promise<SagaHandlerResult<TState>>;
+
+  /**
+   * Run the compensations of completed steps in reverse order.
+   * Definitions without compensation support may omit this.
+   * @returns The state after all compensations ran
+   */
+  compensate?(state: TState, ctx: SagaContext, reason: string): Promise<TState>;
+
+  /**
+   * Current version of the state shape (default: 1).
+   * Stamped on new instances as metadata.schemaVersion.
+   */
+  readonly stateVersion?: number;
+
+  /**
+   * What to do with messages no handler matched when there is no
+   * handleUnhandled() (default: "warn").
+   */
+  readonly unhandledMessagePolicy?: UnhandledMessagePolicy;
+
+  /**
+   * Upgrade a state stored with an older schemaVersion to stateVersion.
+   * Definitions without migrations may omit this.
+   * @throws SagaMigrationError if no migration path exists
+   */
+  migrateState?(state: SagaState): Promise<TState>;
 }
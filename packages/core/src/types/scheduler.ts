@@ -0,0 +1,54 @@
+import type { BaseMessage } from "./messages.js";
+import type { TransportPublishOptions } from "./transport.js";
+
+/**
+ * A delayed message held by the durable scheduler until it is due.
+ */
+export interface ScheduledMessage {
+  /** Unique identifier for this scheduled entry */
+  readonly id: string;
+  /** The message to publish */
+  readonly message: BaseMessage;
+  /** Publish options without `delayMs` (endpoint is always set) */
+  readonly options: TransportPublishOptions;
+  /** When the message should be published */
+  readonly dueAt: Date;
+  /** When the message was scheduled */
+  readonly createdAt: Date;
+  /** Number of failed publish attempts */
+  readonly attempts: number;
+  /** Last publish error, if any */
+  readonly lastError?: string | null;
+}
+
+/**
+ * Store capability for the durable scheduler.
+ *
+ * Scheduled messages live next to the saga state (own table/collection),
+ * so delays survive restarts and are not limited by the transport.
+ */
+export interface ScheduledMessageStore {
+  /**
+   * Persist a message to be published at `dueAt`.
+   */
+  insertScheduledMessage(message: ScheduledMessage): Promise<void>;
+
+  /**
+   * Claim messages that are due, oldest first. Claimed messages are hidden
+   * from other schedulers for `lockDurationMs`.
+   */
+  claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]>;
+
+  /**
+   * Remove a message. Called after it was published.
+   */
+  deleteScheduledMessage(id: string): Promise<void>;
+
+  /**
+   * Record a failed publish and release the claim so it is retried.
+   */
+  markScheduledMessageFailed(id: string, error: string): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import type { MessageEnvelope } from "./messages.js";
+
+/**
+ * Converts message envelopes to and from the bytes a transport sends.
+ *
+ * Transports send `contentType` with every message (as a header, message
+ * attribute or property) so consumers can pick the matching serializer.
+ */
+export interface Serializer {
+  /** MIME type of the serialized form, e.g. "application/json" */
+  readonly contentType: string;
+
+  /**
+   * Whether the serialized form is binary rather than UTF-8 text.
+   * Transports that only carry strings (e.g. SQS) base64-encode binary output.
+   * @default false
+   */
+  readonly binary?: boolean;
+
+  /**
+   * Serialize an envelope for publishing.
+   */
+  serialize(envelope: MessageEnvelope): Buffer;
+
+  /**
+   * Deserialize a received message back into an envelope.
+   * @throws If the data is not a valid envelope for this content type
+   */
+  deserialize(data: Buffer): MessageEnvelope;
+}
@@ -24,6 +24,19 @@ export interface TransportPublishOptions {
   readonly headers?: Record<string, string>;
   /** Delay delivery by this many milliseconds */
   readonly delayMs?: number;
+  /**
+   * Identifier of a delayed message, used to cancel it with
+   * `Transport.cancelScheduled()` before it is delivered.
+   */
+  readonly scheduleId?: string;
+}
+
+/**
+ * A message and its publish options, as passed to `Transport.publishBatch()`.
+ */
+export interface TransportBatchMessage {
+  readonly message: BaseMessage;
+  readonly options: TransportPublishOptions;
 }
 
 /**
@@ -41,6 +54,14 @@ export interface Transport {
    */
   stop(): Promise<void>;
 
+  /**
+   * Stop delivering new messages while staying connected, so in-flight
+   * messages can still be acknowledged and publish their results.
+   * Optional: the bus calls it first when stopping; without it, messages
+   * that arrive while the bus drains are refused with `BusStoppingError`.
+   */
+  stopReceiving?(): Promise<void>;
+
   /**
    * Subscribe to messages on an endpoint.
    */
@@ -56,4 +77,20 @@ export interface Transport {
     message: TMessage,
     options: TransportPublishOptions
   ): Promise<void>;
+
+  /**
+   * Publish several messages in as few round trips as the broker allows.
+   * Optional: `publishBatch()` from the runtime falls back to publishing
+   * one message at a time. Messages to the same endpoint and key keep
+   * their order. Rejects if any message couldn't be published; others may
+   * have been sent.
+   */
+  publishBatch?(messages: ReadonlyArray<TransportBatchMessage>): Promise<void>;
+
+  /**
+   * Cancel a delayed message published with `scheduleId`.
+   * Optional: transports without native cancellation omit it. Cancelling a
+   * message that was already delivered (or never existed) is a no-op.
+   */
+  cancelScheduled?(scheduleId: string): Promise<void>;
 }
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  RETRY_HEADERS,
+  type BaseMessage,
+  type MessageEnvelope,
+  type Transport,
+} from "@saga-bus/core";
+import { DeadLetterManager } from "../src/DeadLetterManager.js";
+import { InMemoryDeadLetterSource } from "../src/sources/InMemoryDeadLetterSource.js";
+
+const createMockTransport = (): Transport => ({
+  start: vi.fn().mockResolvedValue(undefined),
+  stop: vi.fn().mockResolvedValue(undefined),
+  subscribe: vi.fn().mockResolvedValue(undefined),
+  publish: vi.fn().mockResolvedValue(undefined),
+});
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+function deadLetter(
+  id: string,
+  overrides: {
+    type?: string;
+    errorType?: string;
+    sagaName?: string;
+    originalEndpoint?: string | null;
+    timestamp?: Date;
+  } = {}
+): MessageEnvelope {
+  const type = overrides.type ?? "OrderSubmitted";
+  const originalEndpoint =
+    overrides.originalEndpoint === undefined ? "orders" : overrides.originalEndpoint;
+
+  return {
+    id,
+    type,
+    payload: { type, orderId: id } as BaseMessage,
+    headers: {
+      "x-correlation-id": `corr-${id}`,
+      [RETRY_HEADERS.ATTEMPT]: "3",
+      [RETRY_HEADERS.FIRST_SEEN]: "2024-01-01T00:00:00.000Z",
+      [RETRY_HEADERS.ERROR_MESSAGE]: "boom",
+      [RETRY_HEADERS.ERROR_TYPE]: overrides.errorType ?? "Error",
+      ...(originalEndpoint
+        ? { [RETRY_HEADERS.ORIGINAL_ENDPOINT]: originalEndpoint }
+        : {}),
+      ...(overrides.sagaName
+        ? { [RETRY_HEADERS.TARGET_SAGA]: overrides.sagaName }
+        : {}),
+    },
+    timestamp: overrides.timestamp ?? new Date("2024-01-02T00:00:00.000Z"),
+    partitionKey: `key-${id}`,
+  };
+}
+
+describe("DeadLetterManager", () => {
+  let transport: Transport;
+  let source: InMemoryDeadLetterSource;
+  let manager: DeadLetterManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    transport = createMockTransport();
+    source = new InMemoryDeadLetterSource();
+    manager = new DeadLetterManager({ source, transport, logger: silentLogger });
+  });
+
+  describe("list", () => {
+    it("should expose failure details from the DLQ headers", async () => {
+      source.add("orders.dlq", deadLetter("m1", { sagaName: "OrderSaga" }));
+
+      const [entry] = await manager.list("orders.dlq");
+
+      expect(entry).toMatchObject({
+        id: "m1",
+        endpoint: "orders.dlq",
+        originalEndpoint: "orders",
+        messageType: "OrderSubmitted",
+        errorMessage: "boom",
+        errorType: "Error",
+        sagaName: "OrderSaga",
+        attempts: 3,
+        firstSeenAt: new Date("2024-01-01T00:00:00.000Z"),
+        deadLetteredAt: new Date("2024-01-02T00:00:00.000Z"),
+      });
+    });
+
+    it("should filter by error type, saga, message type and time", async () => {
+      source.add("orders.dlq", deadLetter("m1", { errorType: "TimeoutError" }));
+      source.add(
+        "orders.dlq",
+        deadLetter("m2", { errorType: "ValidationError", sagaName: "OrderSaga" })
+      );
+      source.add(
+        "orders.dlq",
+        deadLetter("m3", {
+          type: "PaymentCaptured",
+          timestamp: new Date("2024-02-01T00:00:00.000Z"),
+        })
+      );
+
+      const ids = async (filter: Parameters<DeadLetterManager["list"]>[1]) =>
+        (await manager.list("orders.dlq", filter)).map((d) => d.id);
+
+      expect(await ids({ errorType: "TimeoutError" })).toEqual(["m1"]);
+      expect(await ids({ errorType: ["TimeoutError", "ValidationError"] })).toEqual([
+        "m1",
+        "m2",
+      ]);
+      expect(await ids({ sagaName: "OrderSaga" })).toEqual(["m2"]);
+      expect(await ids({ messageType: "PaymentCaptured" })).toEqual(["m3"]);
+      expect(await ids({ from: new Date("2024-01-15T00:00:00.000Z") })).toEqual(["m3"]);
+      expect(await ids({ to: new Date("2024-01-15T00:00:00.000Z") })).toEqual([
+        "m1",
+        "m2",
+      ]);
+      expect(await ids({ limit: 1 })).toEqual(["m1"]);
+    });
+
+    it("should get a single dead letter", async () => {
+      source.add("orders.dlq", deadLetter("m1"));
+
+      expect((await manager.get("orders.dlq", "m1"))?.id).toBe("m1");
+      expect(await manager.get("orders.dlq", "missing")).toBeNull();
+    });
+  });
+
+  describe("replay", () => {
+    it("should publish to the original endpoint with the attempt counter reset", async () => {
+      source.add("orders.dlq", deadLetter("m1", { sagaName: "OrderSaga" }));
+
+      const result = await manager.replay("orders.dlq");
+
+      expect(result).toEqual({ replayed: 1, skipped: 0, removed: 1 });
+      expect(transport.publish).toHaveBeenCalledWith(
+        { type: "OrderSubmitted", orderId: "m1" },
+        {
+          endpoint: "orders",
+          headers: {
+            "x-correlation-id": "corr-m1",
+            [RETRY_HEADERS.TARGET_SAGA]: "OrderSaga",
+          },
+          key: "key-m1",
+        }
+      );
+      expect(await manager.list("orders.dlq")).toEqual([]);
+    });
+
+    it("should only replay matching dead letters", async () => {
+      source.add("orders.dlq", deadLetter("m1", { errorType: "TimeoutError" }));
+      source.add("orders.dlq", deadLetter("m2"));
+
+      await manager.replay("orders.dlq", { errorType: "TimeoutError" });
+
+      expect(transport.publish).toHaveBeenCalledTimes(1);
+      expect((await manager.list("orders.dlq")).map((d) => d.id)).toEqual(["m2"]);
+    });
+
+    it("should apply the transform and endpoint override", async () => {
+      source.add("orders.dlq", deadLetter("m1"));
+
+      await manager.replay(
+        "orders.dlq",
+        {},
+        {
+          endpoint: "orders-v2",
+          transform: (message) => ({ ...message, fixed: true }),
+        }
+      );
+
+      expect(transport.publish).toHaveBeenCalledWith(
+        { type: "OrderSubmitted", orderId: "m1", fixed: true },
+        expect.objectContaining({ endpoint: "orders-v2" })
+      );
+    });
+
+    it("should skip dead letters without an original endpoint", async () => {
+      source.add("orders.dlq", deadLetter("m1", { originalEndpoint: null }));
+
+      const result = await manager.replay("orders.dlq");
+
+      expect(result).toEqual({ replayed: 0, skipped: 1, removed: 0 });
+      expect(transport.publish).not.toHaveBeenCalled();
+      expect(await manager.list("orders.dlq")).toHaveLength(1);
+    });
+
+    it("should leave entries in sources that can't remove them", async () => {
+      const readOnly = new DeadLetterManager({
+        source: { read: source.read.bind(source), purge: source.purge.bind(source) },
+        transport,
+        logger: silentLogger,
+      });
+      source.add("orders.dlq", deadLetter("m1"));
+
+      const result = await readOnly.replay("orders.dlq");
+
+      expect(result).toEqual({ replayed: 1, skipped: 0, removed: 0 });
+      expect(await source.read("orders.dlq", 10)).toHaveLength(1);
+    });
+  });
+
+  describe("edit", () => {
+    it("should write the edited payload back to the DLQ and remove the original", async () => {
+      source.add("orders.dlq", deadLetter("m1"));
+
+      await manager.edit("orders.dlq", "m1", {
+        type: "OrderSubmitted",
+        orderId: "fixed",
+      });
+
+      expect(transport.publish).toHaveBeenCalledWith(
+        { type: "OrderSubmitted", orderId: "fixed" },
+        expect.objectContaining({
+          endpoint: "orders.dlq",
+          headers: expect.objectContaining({
+            [RETRY_HEADERS.ORIGINAL_ENDPOINT]: "orders",
+            [RETRY_HEADERS.ERROR_MESSAGE]: "boom",
+          }),
+        })
+      );
+      expect(await manager.list("orders.dlq")).toEqual([]);
+    });
+
+    it("should throw for unknown dead letters", async () => {
+      await expect(
+        manager.edit("orders.dlq", "missing", { type: "OrderSubmitted" })
+      ).rejects.toThrow('Dead letter "missing" not found in orders.dlq');
+    });
+  });
+
+  describe("purge", () => {
+    it("should purge the whole DLQ without a filter", async () => {
+      source.add("orders.dlq", deadLetter("m1"));
+      source.add("orders.dlq", deadLetter("m2"));
+
+      expect(await manager.purge("orders.dlq")).toBe(2);
+      expect(await manager.list("orders.dlq")).toEqual([]);
+    });
+
+    it("should purge only matching dead letters with a filter", async () => {
+      source.add("orders.dlq", deadLetter("m1", { errorType: "ValidationError" }));
+      source.add("orders.dlq", deadLetter("m2"));
+
+      expect(
+        await manager.purge("orders.dlq", { errorType: "ValidationError" })
+      ).toBe(1);
+      expect((await manager.list("orders.dlq")).map((d) => d.id)).toEqual(["m2"]);
+    });
+  });
+
+  it("should buffer dead letters published to an attached endpoint", async () => {
+    await source.attach(transport, "orders.dlq");
+    const handler = vi.mocked(transport.subscribe).mock.calls[0]![1];
+
+    await handler(deadLetter("m1"));
+
+    expect(transport.subscribe).toHaveBeenCalledWith(
+      { endpoint: "orders.dlq" },
+      expect.any(Function)
+    );
+    expect((await manager.list("orders.dlq")).map((d) => d.id)).toEqual(["m1"]);
+  });
+});
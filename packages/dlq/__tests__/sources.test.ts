@@ -0,0 +1,245 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Redis } from "ioredis";
+import type { Channel, GetMessage } from "amqplib";
+import type { SQSClient } from "@aws-sdk/client-sqs";
+import { MessageCodec, type MessageEnvelope } from "@saga-bus/core";
+import { RedisDeadLetterSource } from "../src/sources/RedisDeadLetterSource.js";
+import { RabbitMqDeadLetterSource } from "../src/sources/RabbitMqDeadLetterSource.js";
+import { SqsDeadLetterSource } from "../src/sources/SqsDeadLetterSource.js";
+
+function envelope(id: string): MessageEnvelope {
+  return {
+    id,
+    type: "OrderSubmitted",
+    payload: { type: "OrderSubmitted" },
+    headers: { "x-saga-original-endpoint": "orders" },
+    timestamp: new Date("2024-01-02T00:00:00.000Z"),
+  };
+}
+
+describe("RedisDeadLetterSource", () => {
+  const createRedis = () => ({
+    xrange: vi.fn().mockResolvedValue([
+      ["1-0", ["data", JSON.stringify(envelope("m1"))]],
+      ["2-0", ["other", "ignored"]],
+    ]),
+    xdel: vi.fn().mockResolvedValue(1),
+    xtrim: vi.fn().mockResolvedValue(2),
+  });
+
+  it("should read stream entries and restore timestamps", async () => {
+    const redis = createRedis();
+    const source = new RedisDeadLetterSource({ redis: redis as unknown as Redis });
+
+    const entries = await source.read("orders.dlq", 50);
+
+    expect(redis.xrange).toHaveBeenCalledWith(
+      "saga-bus:stream:orders.dlq",
+      "-",
+      "+",
+      "COUNT",
+      50
+    );
+    expect(entries).toEqual([{ id: "1-0", envelope: envelope("m1") }]);
+  });
+
+  it("should delete entries by stream ID and trim on purge", async () => {
+    const redis = createRedis();
+    const source = new RedisDeadLetterSource({
+      redis: redis as unknown as Redis,
+      keyPrefix: "app:",
+    });
+
+    await source.remove("orders.dlq", ["1-0", "2-0"]);
+    const purged = await source.purge("orders.dlq");
+
+    expect(redis.xdel).toHaveBeenCalledWith("app:stream:orders.dlq", "1-0", "2-0");
+    expect(redis.xtrim).toHaveBeenCalledWith("app:stream:orders.dlq", "MAXLEN", 0);
+    expect(purged).toBe(2);
+  });
+});
+
+describe("RabbitMqDeadLetterSource", () => {
+  const createChannel = (ids: string[]) => {
+    const queue = ids.map(
+      (id) =>
+        ({
+          content: Buffer.from(JSON.stringify(envelope(id))),
+          properties: { contentType: "application/json" },
+        }) as GetMessage
+    );
+
+    return {
+      assertQueue: vi.fn().mockResolvedValue({}),
+      bindQueue: vi.fn().mockResolvedValue({}),
+      checkQueue: vi.fn().mockResolvedValue({ messageCount: queue.length }),
+      purgeQueue: vi.fn().mockResolvedValue({ messageCount: queue.length }),
+      get: vi.fn(async () => queue.shift() ?? false),
+      ack: vi.fn(),
+      nack: vi.fn(),
+    };
+  };
+
+  it("should bind a queue for the DLQ endpoint", async () => {
+    const channel = createChannel([]);
+    const source = new RabbitMqDeadLetterSource({
+      channel: channel as unknown as Channel,
+      exchange: "saga-bus",
+      queuePrefix: "app.",
+    });
+
+    await source.bind("orders.dlq");
+
+    expect(channel.assertQueue).toHaveBeenCalledWith("app.orders.dlq", {
+      durable: true,
+    });
+    expect(channel.bindQueue).toHaveBeenCalledWith(
+      "app.orders.dlq",
+      "saga-bus",
+      "orders.dlq"
+    );
+  });
+
+  it("should requeue everything it reads", async () => {
+    const channel = createChannel(["m1", "m2", "m3"]);
+    const source = new RabbitMqDeadLetterSource({
+      channel: channel as unknown as Channel,
+      exchange: "saga-bus",
+    });
+
+    const entries = await source.read("orders.dlq", 2);
+
+    expect(entries.map((e) => e.id)).toEqual(["m1", "m2"]);
+    expect(channel.nack).toHaveBeenCalledTimes(2);
+    expect(channel.ack).not.toHaveBeenCalled();
+  });
+
+  it("should ack removed messages and requeue the rest", async () => {
+    const channel = createChannel(["m1", "m2"]);
+    const source = new RabbitMqDeadLetterSource({
+      channel: channel as unknown as Channel,
+      exchange: "saga-bus",
+    });
+
+    await source.remove("orders.dlq", ["m2"]);
+
+    expect(channel.ack).toHaveBeenCalledTimes(1);
+    expect(channel.nack).toHaveBeenCalledTimes(1);
+    expect(channel.nack).toHaveBeenCalledWith(expect.anything(), false, true);
+  });
+});
+
+describe("SqsDeadLetterSource", () => {
+  interface QueuedMessage {
+    MessageId: string;
+    Body: string;
+    ReceiptHandle: string;
+    hidden: boolean;
+  }
+
+  const codec = new MessageCodec();
+
+  const sqsMessage = (
+    id: string,
+    headers: Record<string, string>
+  ): QueuedMessage => ({
+    MessageId: id,
+    Body: codec.encodeText({ ...envelope(id), headers }),
+    ReceiptHandle: `receipt-${id}`,
+    hidden: false,
+  });
+
+  const createClient = (queues: Record<string, QueuedMessage[]>) => ({
+    send: vi.fn(async (command: { input: Record<string, unknown> }) => {
+      const input = command.input;
+      const queue = queues[input.QueueUrl as string] ?? [];
+
+      switch (command.constructor.name) {
+        case "GetQueueUrlCommand":
+          return { QueueUrl: `https://sqs/${input.QueueName as string}` };
+        case "ReceiveMessageCommand": {
+          const messages = queue
+            .filter((m) => !m.hidden)
+            .slice(0, input.MaxNumberOfMessages as number);
+          for (const m of messages) m.hidden = true;
+          return { Messages: messages };
+        }
+        case "ChangeMessageVisibilityCommand":
+          for (const m of queue) {
+            if (m.ReceiptHandle === input.ReceiptHandle) m.hidden = false;
+          }
+          return {};
+        case "DeleteMessageCommand":
+          queue.splice(
+            queue.findIndex((m) => m.ReceiptHandle === input.ReceiptHandle),
+            1
+          );
+          return {};
+        default:
+          throw new Error(`Unexpected command ${command.constructor.name}`);
+      }
+    }),
+  });
+
+  it("should require a queue setting", () => {
+    expect(
+      () => new SqsDeadLetterSource({ client: createClient({}) as unknown as SQSClient })
+    ).toThrow("requires queueUrl");
+  });
+
+  it("should read the queue named like the transport's, including redriven messages", async () => {
+    const queue = [
+      sqsMessage("m1", {
+        "x-endpoint": "orders.dlq",
+        "x-saga-original-endpoint": "orders",
+        "x-saga-error-message": "boom",
+      }),
+      sqsMessage("m2", { "x-endpoint": "orders" }),
+    ];
+    const client = createClient({ "https://sqs/app-orders-dlq.fifo": queue });
+    const source = new SqsDeadLetterSource({
+      client: client as unknown as SQSClient,
+      queueNamePrefix: "app-",
+    });
+
+    const entries = await source.read("orders.dlq", 10);
+
+    expect(entries.map((e) => e.id)).toEqual(["m1", "m2"]);
+    expect(entries[1]?.envelope.headers["x-saga-original-endpoint"]).toBe(
+      "orders"
+    );
+    expect(queue.every((m) => !m.hidden)).toBe(true);
+  });
+
+  it("should fail clearly when SQS returns no queue URL", async () => {
+    const client = { send: vi.fn().mockResolvedValue({}) };
+    const source = new SqsDeadLetterSource({
+      client: client as unknown as SQSClient,
+      queueNamePrefix: "app-",
+    });
+
+    await expect(source.read("orders.dlq", 10)).rejects.toThrow(
+      'SQS returned no URL for queue "app-orders-dlq.fifo"'
+    );
+  });
+
+  it("should only touch the endpoint's messages on a shared queue", async () => {
+    const queue = [
+      sqsMessage("m1", { "x-endpoint": "orders.dlq" }),
+      sqsMessage("m2", { "x-endpoint": "payments.dlq" }),
+    ];
+    const client = createClient({ "https://sqs/shared.fifo": queue });
+    const source = new SqsDeadLetterSource({
+      client: client as unknown as SQSClient,
+      queueUrl: "https://sqs/shared.fifo",
+    });
+
+    const entries = await source.read("orders.dlq", 10);
+    const purged = await source.purge("orders.dlq");
+
+    expect(entries.map((e) => e.id)).toEqual(["m1"]);
+    expect(purged).toBe(1);
+    expect(queue.map((m) => m.MessageId)).toEqual(["m2"]);
+    expect(queue[0]?.hidden).toBe(false);
+  });
+});
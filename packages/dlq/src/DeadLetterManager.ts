@@ -0,0 +1,260 @@
+import {
+  DefaultLogger,
+  RETRY_HEADERS,
+  type BaseMessage,
+  type Logger,
+  type Transport,
+} from "@saga-bus/core";
+import type {
+  DeadLetter,
+  DeadLetterEntry,
+  DeadLetterFilter,
+  DeadLetterManagerOptions,
+  DeadLetterSource,
+  ReplayOptions,
+  ReplayResult,
+} from "./types.js";
+
+/**
+ * Default dead-letter manager settings.
+ */
+export const DEFAULT_DLQ_SCAN_LIMIT = 1000;
+
+/**
+ * Headers describing a failure. Stripped on replay so the message starts
+ * over with a fresh attempt counter.
+ */
+const FAILURE_HEADERS: readonly string[] = [
+  RETRY_HEADERS.ATTEMPT,
+  RETRY_HEADERS.FIRST_SEEN,
+  RETRY_HEADERS.ORIGINAL_ENDPOINT,
+  RETRY_HEADERS.ERROR_MESSAGE,
+  RETRY_HEADERS.ERROR_TYPE,
+];
+
+/**
+ * Lists, edits, replays and purges dead-lettered messages.
+ *
+ * Works on the DLQ endpoints the bus writes to (`${endpoint}.dlq` by
+ * default) through a transport-specific {@link DeadLetterSource}.
+ *
+ * @example
+ * ```typescript
+ * const dlq = new DeadLetterManager({
+ *   source: new RedisDeadLetterSource({ redis }),
+ *   transport,
+ * });
+ *
+ * const failed = await dlq.list("orders.dlq", { errorType: "TimeoutError" });
+ * await dlq.replay("orders.dlq", { ids: failed.map((d) => d.id) });
+ * ```
+ */
+export class DeadLetterManager {
+  private readonly source: DeadLetterSource;
+  private readonly transport: Transport;
+  private readonly logger: Logger;
+  private readonly scanLimit: number;
+
+  constructor(options: DeadLetterManagerOptions) {
+    this.source = options.source;
+    this.transport = options.transport;
+    this.logger = options.logger ?? new DefaultLogger();
+    this.scanLimit = options.scanLimit ?? DEFAULT_DLQ_SCAN_LIMIT;
+  }
+
+  /**
+   * List dead letters matching a filter, oldest first.
+   */
+  async list(
+    endpoint: string,
+    filter: DeadLetterFilter = {}
+  ): Promise<DeadLetter[]> {
+    const entries = await this.source.read(endpoint, this.scanLimit);
+    const matches = entries
+      .map((entry) => toDeadLetter(endpoint, entry))
+      .filter((deadLetter) => matchesFilter(deadLetter, filter));
+
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  /**
+   * Get a single dead letter by ID.
+   */
+  async get(endpoint: string, id: string): Promise<DeadLetter | null> {
+    const [deadLetter] = await this.list(endpoint, { ids: [id] });
+    return deadLetter ?? null;
+  }
+
+  /**
+   * Publish matching dead letters to the endpoint they failed on with the
+   * attempt counter reset, then remove them from the DLQ.
+   *
+   * Messages dead-lettered by a single saga are still only handled by that
+   * saga when replayed.
+   */
+  async replay(
+    endpoint: string,
+    filter: DeadLetterFilter = {},
+    options: ReplayOptions = {}
+  ): Promise<ReplayResult> {
+    const result: ReplayResult = { replayed: 0, skipped: 0, removed: 0 };
+    const replayedIds: string[] = [];
+
+    for (const deadLetter of await this.list(endpoint, filter)) {
+      const target = options.endpoint ?? deadLetter.originalEndpoint;
+      if (!target) {
+        this.logger.warn("Skipping dead letter without an original endpoint", {
+          deadLetterId: deadLetter.id,
+          messageType: deadLetter.messageType,
+          endpoint,
+        });
+        result.skipped++;
+        continue;
+      }
+
+      const message = options.transform
+        ? options.transform(deadLetter.envelope.payload, deadLetter)
+        : deadLetter.envelope.payload;
+
+      await this.transport.publish(message, {
+        endpoint: target,
+        headers: withoutFailureHeaders(deadLetter.envelope.headers),
+        key: deadLetter.envelope.partitionKey,
+      });
+
+      replayedIds.push(deadLetter.id);
+      result.replayed++;
+
+      this.logger.info("Dead letter replayed", {
+        deadLetterId: deadLetter.id,
+        messageId: deadLetter.envelope.id,
+        messageType: message.type,
+        endpoint: target,
+      });
+    }
+
+    if (replayedIds.length > 0 && this.source.remove) {
+      await this.source.remove(endpoint, replayedIds);
+      result.removed = replayedIds.length;
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace a dead letter's payload. The edited message is written back to
+   * the DLQ with its failure headers and the original entry is removed, so
+   * the edited dead letter gets a new ID.
+   */
+  async edit<TMessage extends BaseMessage>(
+    endpoint: string,
+    id: string,
+    payload: TMessage
+  ): Promise<void> {
+    const remove = this.source.remove?.bind(this.source);
+    if (!remove) {
+      throw new Error("This dead-letter source does not support editing");
+    }
+
+    const deadLetter = await this.get(endpoint, id);
+    if (!deadLetter) {
+      throw new Error(`Dead letter "${id}" not found in ${endpoint}`);
+    }
+
+    await this.transport.publish(payload, {
+      endpoint,
+      headers: { ...deadLetter.envelope.headers },
+      key: deadLetter.envelope.partitionKey,
+    });
+    await remove(endpoint, [id]);
+
+    this.logger.info("Dead letter edited", {
+      deadLetterId: id,
+      messageType: payload.type,
+      endpoint,
+    });
+  }
+
+  /**
+   * Remove dead letters. Without a filter the whole DLQ is purged.
+   * @returns Number of dead letters removed
+   */
+  async purge(endpoint: string, filter?: DeadLetterFilter): Promise<number> {
+    if (!filter) {
+      const purged = await this.source.purge(endpoint);
+      this.logger.info("Dead-letter queue purged", { endpoint, purged });
+      return purged;
+    }
+
+    const remove = this.source.remove?.bind(this.source);
+    if (!remove) {
+      throw new Error(
+        "This dead-letter source only supports purging the whole queue"
+      );
+    }
+
+    const ids = (await this.list(endpoint, filter)).map((d) => d.id);
+    if (ids.length > 0) {
+      await remove(endpoint, ids);
+    }
+
+    this.logger.info("Dead letters purged", { endpoint, purged: ids.length });
+    return ids.length;
+  }
+}
+
+function toDeadLetter(endpoint: string, entry: DeadLetterEntry): DeadLetter {
+  const { envelope } = entry;
+  const headers = envelope.headers;
+  const attempts = parseInt(headers[RETRY_HEADERS.ATTEMPT] ?? "", 10);
+  const firstSeen = headers[RETRY_HEADERS.FIRST_SEEN];
+
+  return {
+    id: entry.id,
+    endpoint,
+    originalEndpoint: headers[RETRY_HEADERS.ORIGINAL_ENDPOINT],
+    messageType: envelope.type,
+    errorMessage: headers[RETRY_HEADERS.ERROR_MESSAGE],
+    errorType: headers[RETRY_HEADERS.ERROR_TYPE],
+    sagaName: headers[RETRY_HEADERS.TARGET_SAGA],
+    attempts: isNaN(attempts) ? 1 : attempts,
+    firstSeenAt: firstSeen ? new Date(firstSeen) : envelope.timestamp,
+    // The DLQ envelope is created when the message is dead-lettered
+    deadLetteredAt: envelope.timestamp,
+    envelope,
+  };
+}
+
+function matchesFilter(deadLetter: DeadLetter, filter: DeadLetterFilter): boolean {
+  const oneOf = (value: string | undefined, expected: string | string[]) =>
+    value !== undefined &&
+    (Array.isArray(expected) ? expected.includes(value) : value === expected);
+
+  if (filter.ids && !filter.ids.includes(deadLetter.id)) {
+    return false;
+  }
+  if (filter.errorType && !oneOf(deadLetter.errorType, filter.errorType)) {
+    return false;
+  }
+  if (filter.messageType && !oneOf(deadLetter.messageType, filter.messageType)) {
+    return false;
+  }
+  if (filter.sagaName && deadLetter.sagaName !== filter.sagaName) {
+    return false;
+  }
+  if (filter.from && deadLetter.deadLetteredAt < filter.from) {
+    return false;
+  }
+  if (filter.to && deadLetter.deadLetteredAt >= filter.to) {
+    return false;
+  }
+  return true;
+}
+
+function withoutFailureHeaders(
+  headers: Readonly<Record<string, string>>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !FAILURE_HEADERS.includes(name))
+  );
+}
@@ -0,0 +1,24 @@
+export {
+  DeadLetterManager,
+  DEFAULT_DLQ_SCAN_LIMIT,
+} from "./DeadLetterManager.js";
+export { InMemoryDeadLetterSource } from "./sources/InMemoryDeadLetterSource.js";
+export { RedisDeadLetterSource } from "./sources/RedisDeadLetterSource.js";
+export type { RedisDeadLetterSourceOptions } from "./sources/RedisDeadLetterSource.js";
+export { RabbitMqDeadLetterSource } from "./sources/RabbitMqDeadLetterSource.js";
+export type { RabbitMqDeadLetterSourceOptions } from "./sources/RabbitMqDeadLetterSource.js";
+export { SqsDeadLetterSource } from "./sources/SqsDeadLetterSource.js";
+export type { SqsDeadLetterSourceOptions } from "./sources/SqsDeadLetterSource.js";
+export { KafkaDeadLetterSource } from "./sources/KafkaDeadLetterSource.js";
+export type { KafkaDeadLetterSourceOptions } from "./sources/KafkaDeadLetterSource.js";
+export { AzureServiceBusDeadLetterSource } from "./sources/AzureServiceBusDeadLetterSource.js";
+export type { AzureServiceBusDeadLetterSourceOptions } from "./sources/AzureServiceBusDeadLetterSource.js";
+export type {
+  DeadLetter,
+  DeadLetterEntry,
+  DeadLetterFilter,
+  DeadLetterManagerOptions,
+  DeadLetterSource,
+  ReplayOptions,
+  ReplayResult,
+} from "./types.js";
@@ -0,0 +1,158 @@
+import type {
+  ServiceBusClient,
+  ServiceBusReceivedMessage,
+} from "@azure/service-bus";
+import { MessageCodec, type MessageCodecOptions } from "@saga-bus/core";
+import type { DeadLetterEntry, DeadLetterSource } from "../types.js";
+import { parseEnvelope } from "../utils.js";
+
+/**
+ * Options for the Azure Service Bus dead-letter source.
+ */
+export interface AzureServiceBusDeadLetterSourceOptions
+  extends MessageCodecOptions {
+  /**
+   * Service Bus client instance.
+   */
+  client: ServiceBusClient;
+
+  /**
+   * Topic name prefix used by the AzureServiceBusTransport.
+   * @default ""
+   */
+  entityPrefix?: string;
+
+  /**
+   * Subscription on each DLQ topic to read from.
+   * @default "default"
+   */
+  subscriptionName?: string;
+
+  /**
+   * Messages received per batch when removing or purging.
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * How long to wait for a batch before treating the subscription as
+   * drained, in milliseconds.
+   * @default 1000
+   */
+  maxWaitTimeMs?: number;
+}
+
+/**
+ * Reads dead letters from the DLQ topics written by the
+ * AzureServiceBusTransport.
+ *
+ * Reads use peek, so they never lock or consume messages. Removing entries
+ * receives messages with a peek-lock and abandons the ones that are kept,
+ * which counts towards their Service Bus delivery count.
+ */
+export class AzureServiceBusDeadLetterSource implements DeadLetterSource {
+  private readonly client: ServiceBusClient;
+  private readonly entityPrefix: string;
+  private readonly subscriptionName: string;
+  private readonly batchSize: number;
+  private readonly maxWaitTimeMs: number;
+  private readonly codec: MessageCodec;
+
+  constructor(options: AzureServiceBusDeadLetterSourceOptions) {
+    this.client = options.client;
+    this.entityPrefix = options.entityPrefix ?? "";
+    this.subscriptionName = options.subscriptionName ?? "default";
+    this.batchSize = options.batchSize ?? 100;
+    this.maxWaitTimeMs = options.maxWaitTimeMs ?? 1000;
+    this.codec = new MessageCodec(options);
+  }
+
+  async read(endpoint: string, limit: number): Promise<DeadLetterEntry[]> {
+    const receiver = this.client.createReceiver(
+      this.topicName(endpoint),
+      this.subscriptionName
+    );
+
+    try {
+      const entries: DeadLetterEntry[] = [];
+      while (entries.length < limit) {
+        // Peeking continues from the last peeked message
+        const messages = await receiver.peekMessages(
+          Math.min(this.batchSize, limit - entries.length)
+        );
+        if (messages.length === 0) break;
+        entries.push(...messages.map((message) => this.toEntry(message)));
+      }
+      return entries;
+    } finally {
+      await receiver.close();
+    }
+  }
+
+  async remove(endpoint: string, ids: string[]): Promise<void> {
+    const receiver = this.client.createReceiver(
+      this.topicName(endpoint),
+      this.subscriptionName,
+      { receiveMode: "peekLock" }
+    );
+    const kept: ServiceBusReceivedMessage[] = [];
+    let remaining = ids.length;
+
+    try {
+      while (remaining > 0) {
+        const messages = await receiver.receiveMessages(this.batchSize, {
+          maxWaitTimeInMs: this.maxWaitTimeMs,
+        });
+        if (messages.length === 0) break;
+
+        for (const message of messages) {
+          if (ids.includes(this.toEntry(message).id)) {
+            await receiver.completeMessage(message);
+            remaining--;
+          } else {
+            kept.push(message);
+          }
+        }
+      }
+    } finally {
+      for (const message of kept) {
+        await receiver.abandonMessage(message);
+      }
+      await receiver.close();
+    }
+  }
+
+  async purge(endpoint: string): Promise<number> {
+    const receiver = this.client.createReceiver(
+      this.topicName(endpoint),
+      this.subscriptionName,
+      { receiveMode: "receiveAndDelete" }
+    );
+    let count = 0;
+
+    try {
+      for (;;) {
+        const messages = await receiver.receiveMessages(this.batchSize, {
+          maxWaitTimeInMs: this.maxWaitTimeMs,
+        });
+        if (messages.length === 0) return count;
+        count += messages.length;
+      }
+    } finally {
+      await receiver.close();
+    }
+  }
+
+  private topicName(endpoint: string): string {
+    return `${this.entityPrefix}${endpoint}`;
+  }
+
+  private toEntry(message: ServiceBusReceivedMessage): DeadLetterEntry {
+    // Messages published before serializers were pluggable carry the
+    // envelope as an AMQP-encoded object
+    const envelope = Buffer.isBuffer(message.body)
+      ? this.codec.decode(message.body, message.contentType)
+      : parseEnvelope(message.body as object);
+    return { id: envelope.id, envelope };
+  }
+}
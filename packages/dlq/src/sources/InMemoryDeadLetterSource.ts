@@ -0,0 +1,56 @@
+import type { MessageEnvelope, Transport } from "@saga-bus/core";
+import type { DeadLetterEntry, DeadLetterSource } from "../types.js";
+
+/**
+ * Dead-letter source that buffers envelopes in memory.
+ * Useful for tests and local development with the in-memory transport.
+ *
+ * @example
+ * ```typescript
+ * const source = new InMemoryDeadLetterSource();
+ * await source.attach(transport, "orders.dlq");
+ * ```
+ */
+export class InMemoryDeadLetterSource implements DeadLetterSource {
+  private readonly entries = new Map<string, MessageEnvelope[]>();
+
+  /**
+   * Subscribe to a DLQ endpoint and buffer everything published to it.
+   */
+  async attach(transport: Transport, endpoint: string): Promise<void> {
+    await transport.subscribe({ endpoint }, async (envelope) => {
+      this.add(endpoint, envelope);
+    });
+  }
+
+  /**
+   * Add a dead-lettered envelope.
+   */
+  add(endpoint: string, envelope: MessageEnvelope): void {
+    const entries = this.entries.get(endpoint) ?? [];
+    entries.push(envelope);
+    this.entries.set(endpoint, entries);
+  }
+
+  async read(endpoint: string, limit: number): Promise<DeadLetterEntry[]> {
+    return (this.entries.get(endpoint) ?? [])
+      .slice(0, limit)
+      .map((envelope) => ({ id: envelope.id, envelope }));
+  }
+
+  async remove(endpoint: string, ids: string[]): Promise<void> {
+    const entries = this.entries.get(endpoint);
+    if (entries) {
+      this.entries.set(
+        endpoint,
+        entries.filter((envelope) => !ids.includes(envelope.id))
+      );
+    }
+  }
+
+  async purge(endpoint: string): Promise<number> {
+    const count = this.entries.get(endpoint)?.length ?? 0;
+    this.entries.delete(endpoint);
+    return count;
+  }
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from "node:crypto";
+import type { Admin, Kafka } from "kafkajs";
+import {
+  MessageCodec,
+  CONTENT_TYPE_HEADER,
+  type MessageCodecOptions,
+} from "@saga-bus/core";
+import type { DeadLetterEntry, DeadLetterSource } from "../types.js";
+
+/**
+ * Options for the Kafka dead-letter source.
+ */
+export interface KafkaDeadLetterSourceOptions extends MessageCodecOptions {
+  /**
+   * KafkaJS instance.
+   */
+  kafka: Kafka;
+
+  /**
+   * Prefix for the throwaway consumer groups used to read topics.
+   * @default "saga-bus-dlq-reader."
+   */
+  groupIdPrefix?: string;
+
+  /**
+   * Maximum time to spend reading a topic, in milliseconds.
+   * @default 30000
+   */
+  readTimeoutMs?: number;
+}
+
+/**
+ * Reads dead letters from the DLQ topics written by the KafkaTransport.
+ * Entry IDs are `partition:offset`.
+ *
+ * Topics are read with a throwaway consumer group up to the high watermark
+ * seen when the read starts. Kafka can't delete single records, so this
+ * source doesn't support removing entries: replayed dead letters stay on
+ * the topic until it is purged, and editing is not available.
+ */
+export class KafkaDeadLetterSource implements DeadLetterSource {
+  private readonly kafka: Kafka;
+  private readonly groupIdPrefix: string;
+  private readonly readTimeoutMs: number;
+  private readonly codec: MessageCodec;
+
+  constructor(options: KafkaDeadLetterSourceOptions) {
+    this.kafka = options.kafka;
+    this.groupIdPrefix = options.groupIdPrefix ?? "saga-bus-dlq-reader.";
+    this.readTimeoutMs = options.readTimeoutMs ?? 30000;
+    this.codec = new MessageCodec(options);
+  }
+
+  async read(endpoint: string, limit: number): Promise<DeadLetterEntry[]> {
+    const offsets = await this.withAdmin((admin) =>
+      admin.fetchTopicOffsets(endpoint)
+    );
+
+    // Last offset to read per partition; empty partitions are skipped
+    const pending = new Map<number, bigint>();
+    for (const { partition, low, high } of offsets) {
+      if (BigInt(high) > BigInt(low)) {
+        pending.set(partition, BigInt(high) - 1n);
+      }
+    }
+
+    const entries: DeadLetterEntry[] = [];
+    if (pending.size === 0 || limit <= 0) {
+      return entries;
+    }
+
+    const groupId = `${this.groupIdPrefix}${randomUUID()}`;
+    const consumer = this.kafka.consumer({ groupId });
+
+    try {
+      await consumer.connect();
+      await consumer.subscribe({ topic: endpoint, fromBeginning: true });
+
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          reject(new Error(`Timed out reading dead letters from ${endpoint}`));
+        }, this.readTimeoutMs);
+
+        consumer
+          .run({
+            autoCommit: false,
+            eachMessage: async ({ partition, message }) => {
+              const last = pending.get(partition);
+              if (last === undefined) return;
+
+              if (message.value && entries.length < limit) {
+                entries.push({
+                  id: `${partition}:${message.offset}`,
+                  envelope: this.codec.decode(
+                    message.value,
+                    message.headers?.[CONTENT_TYPE_HEADER]?.toString()
+                  ),
+                });
+              }
+
+              if (BigInt(message.offset) >= last) {
+                pending.delete(partition);
+              }
+
+              if (pending.size === 0 || entries.length >= limit) {
+                clearTimeout(timer);
+                resolve();
+              }
+            },
+          })
+          .catch((error: unknown) => {
+            clearTimeout(timer);
+            reject(error);
+          });
+      });
+    } finally {
+      await consumer.disconnect();
+      await this.withAdmin((admin) => admin.deleteGroups([groupId])).catch(
+        () => undefined
+      );
+    }
+
+    // Partitions are read in parallel; order by dead-letter time
+    return entries.sort(
+      (a, b) => a.envelope.timestamp.getTime() - b.envelope.timestamp.getTime()
+    );
+  }
+
+  async purge(endpoint: string): Promise<number> {
+    return this.withAdmin(async (admin) => {
+      const offsets = await admin.fetchTopicOffsets(endpoint);
+      const count = offsets.reduce(
+        (total, { low, high }) => total + Number(BigInt(high) - BigInt(low)),
+        0
+      );
+
+      // Offset -1 deletes everything up to the high watermark
+      await admin.deleteTopicRecords({
+        topic: endpoint,
+        partitions: offsets.map(({ partition }) => ({
+          partition,
+          offset: "-1",
+        })),
+      });
+
+      return count;
+    });
+  }
+
+  private async withAdmin<T>(fn: (admin: Admin) => Promise<T>): Promise<T> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+    try {
+      return await fn(admin);
+    } finally {
+      await admin.disconnect();
+    }
+  }
+}
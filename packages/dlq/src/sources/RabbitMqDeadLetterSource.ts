@@ -0,0 +1,140 @@
+import type { Channel, GetMessage } from "amqplib";
+import {
+  MessageCodec,
+  type MessageCodecOptions,
+  type MessageEnvelope,
+} from "@saga-bus/core";
+import type { DeadLetterEntry, DeadLetterSource } from "../types.js";
+
+/**
+ * Options for the RabbitMQ dead-letter source.
+ */
+export interface RabbitMqDeadLetterSourceOptions extends MessageCodecOptions {
+  /**
+   * Channel to read with. Use a dedicated channel: messages are held
+   * unacknowledged on it while a read is in progress.
+   */
+  channel: Channel;
+
+  /**
+   * Exchange the RabbitMqTransport publishes to.
+   */
+  exchange: string;
+
+  /**
+   * Queue name prefix used by the RabbitMqTransport.
+   * @default ""
+   */
+  queuePrefix?: string;
+
+  /**
+   * Whether DLQ queues are durable.
+   * @default true
+   */
+  durable?: boolean;
+}
+
+/**
+ * Reads dead letters from RabbitMQ queues bound to DLQ endpoints.
+ *
+ * RabbitMQ drops messages routed to an endpoint with no bound queue, so
+ * call {@link bind} for each DLQ endpoint at startup. Messages are read
+ * with `basic.get` and requeued, so reading never consumes them.
+ */
+export class RabbitMqDeadLetterSource implements DeadLetterSource {
+  private readonly channel: Channel;
+  private readonly exchange: string;
+  private readonly queuePrefix: string;
+  private readonly durable: boolean;
+  private readonly codec: MessageCodec;
+
+  constructor(options: RabbitMqDeadLetterSourceOptions) {
+    this.channel = options.channel;
+    this.exchange = options.exchange;
+    this.queuePrefix = options.queuePrefix ?? "";
+    this.durable = options.durable ?? true;
+    this.codec = new MessageCodec(options);
+  }
+
+  /**
+   * Declare the queue for a DLQ endpoint and bind it to the exchange.
+   */
+  async bind(endpoint: string): Promise<void> {
+    const queue = this.queueName(endpoint);
+    await this.channel.assertQueue(queue, { durable: this.durable });
+    await this.channel.bindQueue(queue, this.exchange, endpoint);
+  }
+
+  async read(endpoint: string, limit: number): Promise<DeadLetterEntry[]> {
+    const messages = await this.take(endpoint, limit);
+    this.release(messages);
+
+    return messages.map((msg) => {
+      const envelope = this.decode(msg);
+      return { id: envelope.id, envelope };
+    });
+  }
+
+  async remove(endpoint: string, ids: string[]): Promise<void> {
+    const { messageCount } = await this.channel.checkQueue(
+      this.queueName(endpoint)
+    );
+    const messages = await this.take(endpoint, messageCount);
+    const kept: GetMessage[] = [];
+
+    for (const msg of messages) {
+      const envelope = this.decode(msg);
+      if (ids.includes(envelope.id)) {
+        this.channel.ack(msg);
+      } else {
+        kept.push(msg);
+      }
+    }
+
+    this.release(kept);
+  }
+
+  async purge(endpoint: string): Promise<number> {
+    const { messageCount } = await this.channel.purgeQueue(
+      this.queueName(endpoint)
+    );
+    return messageCount;
+  }
+
+  private decode(msg: GetMessage): MessageEnvelope {
+    return this.codec.decode(
+      msg.content,
+      msg.properties.contentType as string | undefined
+    );
+  }
+
+  private queueName(endpoint: string): string {
+    return `${this.queuePrefix}${endpoint}`;
+  }
+
+  /**
+   * Get up to `limit` messages, leaving them unacknowledged.
+   */
+  private async take(endpoint: string, limit: number): Promise<GetMessage[]> {
+    const queue = this.queueName(endpoint);
+    const messages: GetMessage[] = [];
+
+    while (messages.length < limit) {
+      const msg = await this.channel.get(queue, { noAck: false });
+      if (!msg) break;
+      messages.push(msg);
+    }
+
+    return messages;
+  }
+
+  /**
+   * Requeue messages. RabbitMQ puts them back in their original position
+   * where possible.
+   */
+  private release(messages: GetMessage[]): void {
+    for (const msg of messages) {
+      this.channel.nack(msg, false, true);
+    }
+  }
+}
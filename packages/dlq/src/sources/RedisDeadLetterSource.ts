@@ -0,0 +1,84 @@
+import type { Redis } from "ioredis";
+import {
+  MessageCodec,
+  CONTENT_TYPE_HEADER,
+  type MessageCodecOptions,
+} from "@saga-bus/core";
+import type { DeadLetterEntry, DeadLetterSource } from "../types.js";
+
+/**
+ * Options for the Redis dead-letter source.
+ */
+export interface RedisDeadLetterSourceOptions extends MessageCodecOptions {
+  /**
+   * Redis client instance (ioredis).
+   */
+  redis: Redis;
+
+  /**
+   * Key prefix used by the RedisTransport.
+   * @default "saga-bus:"
+   */
+  keyPrefix?: string;
+}
+
+/**
+ * Reads dead letters from the streams written by the RedisTransport.
+ * Entry IDs are stream entry IDs.
+ */
+export class RedisDeadLetterSource implements DeadLetterSource {
+  private readonly redis: Redis;
+  private readonly keyPrefix: string;
+  private readonly codec: MessageCodec;
+
+  constructor(options: RedisDeadLetterSourceOptions) {
+    this.redis = options.redis;
+    this.keyPrefix = options.keyPrefix ?? "saga-bus:";
+    this.codec = new MessageCodec(options);
+  }
+
+  private streamKey(endpoint: string): string {
+    return `${this.keyPrefix}stream:${endpoint}`;
+  }
+
+  async read(endpoint: string, limit: number): Promise<DeadLetterEntry[]> {
+    const entries = await this.redis.xrange(
+      this.streamKey(endpoint),
+      "-",
+      "+",
+      "COUNT",
+      limit
+    );
+
+    const result: DeadLetterEntry[] = [];
+    for (const [id, fields] of entries) {
+      const data = getField(fields, "data");
+      if (data) {
+        const contentType = getField(fields, CONTENT_TYPE_HEADER);
+        result.push({ id, envelope: this.codec.decodeText(data, contentType) });
+      }
+    }
+    return result;
+  }
+
+  async remove(endpoint: string, ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await this.redis.xdel(this.streamKey(endpoint), ...ids);
+    }
+  }
+
+  async purge(endpoint: string): Promise<number> {
+    // Trim rather than delete so consumer groups on the stream survive
+    return this.redis.xtrim(this.streamKey(endpoint), "MAXLEN", 0);
+  }
+}
+
+function getField(fields: string[], name: string): string | undefined {
+  // Fields alternate between names and values
+  for (let i = 0; i < fields.length - 1; i += 2) {
+    if (fields[i] === name) {
+      return fields[i + 1];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,337 @@
+import type { Message, SQSClient } from "@aws-sdk/client-sqs";
+import {
+  MessageCodec,
+  CONTENT_TYPE_HEADER,
+  RETRY_HEADERS,
+  type MessageCodecOptions,
+} from "@saga-bus/core";
+import type { SqsQueueNamingOptions } from "@saga-bus/transport-sqs";
+import type { DeadLetterEntry, DeadLetterSource } from "../types.js";
+
+type SqsModule = typeof import("@aws-sdk/client-sqs");
+
+/**
+ * Options for the SQS dead-letter source.
+ *
+ * DLQ endpoints are routed to queues like the SqsTransport routes them: its
+ * entry in `queues`, then the queue named by the naming convention, then
+ * the shared `queueUrl`. Use the same settings as the transport. The naming
+ * convention comes from `@saga-bus/transport-sqs`, which must be installed
+ * to use it.
+ */
+export interface SqsDeadLetterSourceOptions extends MessageCodecOptions {
+  /**
+   * AWS SQS client instance.
+   */
+  client: SQSClient;
+
+  /**
+   * Queue shared by several endpoints, including the DLQ endpoints.
+   */
+  queueUrl?: string;
+
+  /**
+   * Queue URL per DLQ endpoint, e.g. a redrive policy's dead-letter queue.
+   */
+  queues?: Record<string, string>;
+
+  /**
+   * Prefix of queue names derived from endpoints. Enables the naming
+   * convention.
+   */
+  queueNamePrefix?: string;
+
+  /**
+   * Queue name for an endpoint, replacing the default convention. Enables
+   * the naming convention.
+   */
+  queueNaming?: (endpoint: string) => string;
+
+  /**
+   * Type of queues named by the convention.
+   * @default "fifo"
+   */
+  queueType?: "fifo" | "standard";
+
+  /**
+   * How long messages stay hidden while a read is in progress, in seconds.
+   * @default 30
+   */
+  visibilityTimeout?: number;
+}
+
+interface DeadLetterQueue {
+  url: string;
+  /** Whether the queue carries other endpoints, told apart by `x-endpoint` */
+  shared: boolean;
+}
+
+interface ReceivedEntry extends DeadLetterEntry {
+  receiptHandle: string;
+}
+
+/**
+ * Reads dead letters from the queues of the SqsTransport.
+ *
+ * A shared queue is filtered by the `x-endpoint` header the transport sets
+ * on every message. A DLQ endpoint with a queue of its own is read whole,
+ * including messages SQS moved there with a redrive policy: the default
+ * naming sends "orders.dlq" to "orders-dlq.fifo", the redrive queue of
+ * "orders.fifo". Those carry no failure headers, so their original
+ * endpoint is taken from `x-endpoint` to replay them.
+ *
+ * Messages are received and made visible again straight away, so reading
+ * doesn't consume them. SQS only returns one in-flight message per message
+ * group, so dead letters sharing a partition key are read one at a time.
+ * Avoid running a bus against the same queue while reading: its consumer
+ * will take dead letters made visible again.
+ */
+export class SqsDeadLetterSource implements DeadLetterSource {
+  private readonly client: SQSClient;
+  private readonly queueUrl: string | undefined;
+  private readonly queueMap: Record<string, string>;
+  private readonly namingOptions: SqsQueueNamingOptions | undefined;
+  private readonly visibilityTimeout: number;
+  private readonly codec: MessageCodec;
+  private readonly resolvedQueueUrls = new Map<string, Promise<string>>();
+  private sdk: Promise<SqsModule> | null = null;
+  private queueNaming: Promise<(endpoint: string) => string> | null = null;
+
+  constructor(options: SqsDeadLetterSourceOptions) {
+    this.client = options.client;
+    this.queueUrl = options.queueUrl;
+    this.queueMap = options.queues ?? {};
+    this.visibilityTimeout = options.visibilityTimeout ?? 30;
+    this.codec = new MessageCodec(options);
+
+    if (options.queueNaming || options.queueNamePrefix !== undefined) {
+      this.namingOptions = {
+        queueNamePrefix: options.queueNamePrefix,
+        queueNaming: options.queueNaming,
+        queueType: options.queueType,
+      };
+    }
+
+    if (
+      !this.queueUrl &&
+      !this.namingOptions &&
+      Object.keys(this.queueMap).length === 0
+    ) {
+      throw new Error(
+        "SqsDeadLetterSource requires queueUrl, queues, queueNamePrefix or queueNaming"
+      );
+    }
+  }
+
+  async read(endpoint: string, limit: number): Promise<DeadLetterEntry[]> {
+    const queue = await this.resolveQueue(endpoint);
+    const { matched, others } = await this.receive(queue, endpoint, limit);
+    await this.release(queue, [...matched, ...others]);
+    return matched.map(({ id, envelope }) => ({ id, envelope }));
+  }
+
+  async remove(endpoint: string, ids: string[]): Promise<void> {
+    await this.deleteWhere(endpoint, (entry) => ids.includes(entry.id));
+  }
+
+  async purge(endpoint: string): Promise<number> {
+    return this.deleteWhere(endpoint, () => true);
+  }
+
+  private loadSdk(): Promise<SqsModule> {
+    // Loaded lazily so the package works without the optional AWS SDK
+    this.sdk ??= import("@aws-sdk/client-sqs");
+    return this.sdk;
+  }
+
+  /**
+   * The SqsTransport's naming convention for the configured options.
+   */
+  private loadQueueNaming(
+    options: SqsQueueNamingOptions
+  ): Promise<(endpoint: string) => string> {
+    // Loaded lazily like the SDK, so only the naming convention needs it
+    this.queueNaming ??= import("@saga-bus/transport-sqs").then(
+      ({ createQueueNaming }) => {
+        const naming = createQueueNaming(options);
+        if (!naming) {
+          throw new Error("queueNamePrefix or queueNaming is required");
+        }
+        return naming;
+      }
+    );
+    return this.queueNaming;
+  }
+
+  /**
+   * Queue of a DLQ endpoint: mapped, named by convention, or shared.
+   */
+  private async resolveQueue(endpoint: string): Promise<DeadLetterQueue> {
+    const mapped = this.queueMap[endpoint];
+    if (mapped) {
+      return { url: mapped, shared: false };
+    }
+
+    if (this.namingOptions) {
+      const queueNaming = await this.loadQueueNaming(this.namingOptions);
+      let resolved = this.resolvedQueueUrls.get(endpoint);
+      if (!resolved) {
+        resolved = this.lookupQueue(queueNaming(endpoint));
+        // Retry failed lookups on next use
+        resolved.catch(() => this.resolvedQueueUrls.delete(endpoint));
+        this.resolvedQueueUrls.set(endpoint, resolved);
+      }
+      return { url: await resolved, shared: false };
+    }
+
+    if (this.queueUrl) {
+      return { url: this.queueUrl, shared: true };
+    }
+
+    throw new Error(`No SQS queue configured for endpoint "${endpoint}"`);
+  }
+
+  private async lookupQueue(queueName: string): Promise<string> {
+    const { GetQueueUrlCommand } = await this.loadSdk();
+    const response = await this.client.send(
+      new GetQueueUrlCommand({ QueueName: queueName })
+    );
+    if (!response.QueueUrl) {
+      throw new Error(`SQS returned no URL for queue "${queueName}"`);
+    }
+    return response.QueueUrl;
+  }
+
+  /**
+   * Delete matching entries, receiving until the queue has no more visible
+   * messages for the endpoint.
+   */
+  private async deleteWhere(
+    endpoint: string,
+    predicate: (entry: ReceivedEntry) => boolean
+  ): Promise<number> {
+    const { DeleteMessageCommand } = await this.loadSdk();
+    const queue = await this.resolveQueue(endpoint);
+    const hidden: ReceivedEntry[] = [];
+    let deleted = 0;
+
+    try {
+      for (;;) {
+        const { matched, others, received } = await this.receive(
+          queue,
+          endpoint,
+          10
+        );
+        hidden.push(...others);
+
+        for (const entry of matched) {
+          if (predicate(entry)) {
+            await this.client.send(
+              new DeleteMessageCommand({
+                QueueUrl: queue.url,
+                ReceiptHandle: entry.receiptHandle,
+              })
+            );
+            deleted++;
+          } else {
+            hidden.push(entry);
+          }
+        }
+
+        if (received === 0) {
+          return deleted;
+        }
+      }
+    } finally {
+      await this.release(queue, hidden);
+    }
+  }
+
+  /**
+   * Receive messages until `limit` entries for the endpoint are found or
+   * no more are visible. Messages for other endpoints stay hidden too and
+   * must be released by the caller.
+   */
+  private async receive(
+    queue: DeadLetterQueue,
+    endpoint: string,
+    limit: number
+  ): Promise<{ matched: ReceivedEntry[]; others: ReceivedEntry[]; received: number }> {
+    const { ReceiveMessageCommand } = await this.loadSdk();
+    const matched: ReceivedEntry[] = [];
+    const others: ReceivedEntry[] = [];
+    let received = 0;
+
+    while (matched.length < limit) {
+      const response = await this.client.send(
+        new ReceiveMessageCommand({
+          QueueUrl: queue.url,
+          MaxNumberOfMessages: Math.min(10, limit - matched.length),
+          VisibilityTimeout: this.visibilityTimeout,
+          WaitTimeSeconds: 0,
+          MessageAttributeNames: [CONTENT_TYPE_HEADER],
+        })
+      );
+
+      const messages = response.Messages ?? [];
+      if (messages.length === 0) break;
+      received += messages.length;
+
+      for (const message of messages) {
+        const entry = this.toEntry(message, endpoint);
+        if (!entry) continue;
+
+        if (!queue.shared || entry.envelope.headers["x-endpoint"] === endpoint) {
+          matched.push(entry);
+        } else {
+          others.push(entry);
+        }
+      }
+    }
+
+    return { matched, others, received };
+  }
+
+  private toEntry(message: Message, endpoint: string): ReceivedEntry | null {
+    if (!message.Body || !message.ReceiptHandle) {
+      return null;
+    }
+
+    let envelope = this.codec.decodeText(
+      message.Body,
+      message.MessageAttributes?.[CONTENT_TYPE_HEADER]?.StringValue
+    );
+
+    // Moved here by a redrive policy rather than dead-lettered by the bus
+    const sentTo = envelope.headers["x-endpoint"];
+    if (
+      sentTo &&
+      sentTo !== endpoint &&
+      !envelope.headers[RETRY_HEADERS.ORIGINAL_ENDPOINT]
+    ) {
+      envelope = {
+        ...envelope,
+        headers: { ...envelope.headers, [RETRY_HEADERS.ORIGINAL_ENDPOINT]: sentTo },
+      };
+    }
+
+    return { id: envelope.id, envelope, receiptHandle: message.ReceiptHandle };
+  }
+
+  private async release(
+    queue: DeadLetterQueue,
+    entries: ReceivedEntry[]
+  ): Promise<void> {
+    const { ChangeMessageVisibilityCommand } = await this.loadSdk();
+
+    for (const entry of entries) {
+      await this.client.send(
+        new ChangeMessageVisibilityCommand({
+          QueueUrl: queue.url,
+          ReceiptHandle: entry.receiptHandle,
+          VisibilityTimeout: 0,
+        })
+      );
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import type { BaseMessage, Logger, MessageEnvelope, Transport } from "@saga-bus/core";
+
+/**
+ * A raw entry read from a dead-letter endpoint.
+ */
+export interface DeadLetterEntry {
+  /**
+   * Source-specific identifier used to remove the entry
+   * (stream ID for Redis, `partition:offset` for Kafka, message ID otherwise).
+   */
+  id: string;
+  /** The dead-lettered envelope */
+  envelope: MessageEnvelope;
+}
+
+/**
+ * Reads dead letters from a transport.
+ *
+ * Endpoints passed to a source are DLQ endpoints (e.g. "orders.dlq"),
+ * not the endpoints the messages originally failed on.
+ */
+export interface DeadLetterSource {
+  /**
+   * Read up to `limit` entries, oldest first, without consuming them.
+   */
+  read(endpoint: string, limit: number): Promise<DeadLetterEntry[]>;
+
+  /**
+   * Remove entries by ID. Sources backed by append-only logs (Kafka)
+   * don't implement this; replayed entries stay until they are purged.
+   */
+  remove?(endpoint: string, ids: string[]): Promise<void>;
+
+  /**
+   * Remove every entry.
+   * @returns Number of entries removed
+   */
+  purge(endpoint: string): Promise<number>;
+}
+
+/**
+ * A dead-lettered message with the failure details from its headers.
+ */
+export interface DeadLetter {
+  /** Source-specific entry ID */
+  id: string;
+  /** DLQ endpoint the message was read from */
+  endpoint: string;
+  /** Endpoint the message failed on (`x-saga-original-endpoint`) */
+  originalEndpoint: string | undefined;
+  /** Message type */
+  messageType: string;
+  /** Error message of the last failure */
+  errorMessage: string | undefined;
+  /** Error class name of the last failure */
+  errorType: string | undefined;
+  /** Saga that gave up on the message, for per-saga retries */
+  sagaName: string | undefined;
+  /** Delivery attempts before the message was dead-lettered */
+  attempts: number;
+  /** When the message was first received */
+  firstSeenAt: Date;
+  /** When the message was dead-lettered */
+  deadLetteredAt: Date;
+  /** The dead-lettered envelope */
+  envelope: MessageEnvelope;
+}
+
+/**
+ * Selects dead letters to list, replay or purge.
+ * All criteria must match.
+ */
+export interface DeadLetterFilter {
+  /** Entry IDs */
+  ids?: string[];
+  /** Error class name, or any of several */
+  errorType?: string | string[];
+  /** Saga that gave up on the message */
+  sagaName?: string;
+  /** Message type, or any of several */
+  messageType?: string | string[];
+  /** Dead-lettered at or after this time */
+  from?: Date;
+  /** Dead-lettered before this time */
+  to?: Date;
+  /** Maximum matches returned */
+  limit?: number;
+}
+
+export interface ReplayOptions {
+  /**
+   * Endpoint to publish to instead of the original endpoint.
+   */
+  endpoint?: string;
+
+  /**
+   * Rewrite the message before it is replayed.
+   */
+  transform?: (message: BaseMessage, deadLetter: DeadLetter) => BaseMessage;
+}
+
+export interface ReplayResult {
+  /** Messages published */
+  replayed: number;
+  /** Matches skipped because they have no original endpoint */
+  skipped: number;
+  /** Replayed messages removed from the DLQ */
+  removed: number;
+}
+
+export interface DeadLetterManagerOptions {
+  /** Where dead letters are read from */
+  source: DeadLetterSource;
+  /** Transport replayed and edited messages are published with */
+  transport: Transport;
+  logger?: Logger;
+  /** Maximum entries read per operation (default: 1000) */
+  scanLimit?: number;
+}
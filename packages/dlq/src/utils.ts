@@ -0,0 +1,24 @@
+import type { BaseMessage, MessageEnvelope } from "@saga-bus/core";
+
+/**
+ * Rebuild an envelope decoded from JSON, restoring the timestamp Date.
+ */
+export function parseEnvelope(raw: string | object): MessageEnvelope {
+  const parsed = (typeof raw === "string" ? JSON.parse(raw) : raw) as {
+    id: string;
+    type: string;
+    payload: BaseMessage;
+    headers?: Record<string, string>;
+    timestamp: string | Date;
+    partitionKey?: string;
+  };
+
+  return {
+    id: parsed.id,
+    type: parsed.type,
+    payload: parsed.payload,
+    headers: parsed.headers ?? {},
+    timestamp: new Date(parsed.timestamp),
+    partitionKey: parsed.partitionKey,
+  };
+}
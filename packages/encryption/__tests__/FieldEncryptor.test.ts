@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { randomBytes } from "node:crypto";
+import {
+  FieldEncryptor,
+  ENCRYPTED_VALUE_PREFIX,
+  isEncryptedValue,
+} from "../src/FieldEncryptor.js";
+import { LocalKeyProvider } from "../src/keys/LocalKeyProvider.js";
+import { EnvKeyProvider } from "../src/keys/EnvKeyProvider.js";
+
+const oldKey = randomBytes(32);
+const newKey = randomBytes(32);
+
+const application = () => ({
+  type: "LoanApplicationSubmitted",
+  applicationId: "app-1",
+  applicant: { name: "Alex", ssn: "123-45-6789", income: 85000 },
+  dependents: [{ ssn: "987-65-4321" }, { ssn: "555-55-5555" }],
+});
+
+describe("FieldEncryptor", () => {
+  const encryptor = new FieldEncryptor(
+    new LocalKeyProvider({ keys: { k1: oldKey }, currentKeyId: "k1" })
+  );
+
+  it("should encrypt only the configured paths", async () => {
+    const input = application();
+
+    const encrypted = await encryptor.encrypt(input, [
+      "applicant.ssn",
+      "applicant.income",
+      "dependents.*.ssn",
+    ]);
+
+    expect(encrypted.applicationId).toBe("app-1");
+    expect(encrypted.applicant.name).toBe("Alex");
+    expect(isEncryptedValue(encrypted.applicant.ssn)).toBe(true);
+    expect(isEncryptedValue(encrypted.applicant.income)).toBe(true);
+    expect(encrypted.dependents.every((d) => isEncryptedValue(d.ssn))).toBe(true);
+    expect(JSON.stringify(encrypted)).not.toContain("123-45-6789");
+    expect(input).toEqual(application());
+  });
+
+  it("should decrypt values back to their JSON value", async () => {
+    const encrypted = await encryptor.encrypt(application(), [
+      "applicant",
+      "dependents.1.ssn",
+    ]);
+
+    expect(typeof encrypted.applicant).toBe("string");
+    expect(await encryptor.decrypt(encrypted)).toEqual(application());
+  });
+
+  it("should ignore missing paths and encrypted values", async () => {
+    const once = await encryptor.encrypt(application(), ["applicant.ssn"]);
+
+    const twice = await encryptor.encrypt(once, [
+      "applicant.ssn",
+      "applicant.address.zip",
+    ]);
+
+    expect(twice).toEqual(once);
+  });
+
+  it("should reject tampered values", async () => {
+    const encrypted = await encryptor.encrypt(application(), ["applicant.ssn"]);
+    const ssn = encrypted.applicant.ssn as unknown as string;
+    const tampered = {
+      ...encrypted,
+      applicant: { ...encrypted.applicant, ssn: `${ssn.slice(0, -2)}AA` },
+    };
+
+    await expect(encryptor.decrypt(tampered)).rejects.toThrow();
+    await expect(
+      encryptor.decrypt({ ssn: `${ENCRYPTED_VALUE_PREFIX}garbage` })
+    ).rejects.toThrow("Malformed encrypted value");
+  });
+
+  it("should decrypt values wrapped with a retired key after rotation", async () => {
+    const encrypted = await encryptor.encrypt(application(), ["applicant.ssn"]);
+    const rotated = new FieldEncryptor(
+      new LocalKeyProvider({
+        keys: { k1: oldKey, k2: newKey },
+        currentKeyId: "k2",
+      })
+    );
+
+    expect(await rotated.decrypt(encrypted)).toEqual(application());
+
+    const reencrypted = await rotated.encrypt(application(), ["applicant.ssn"]);
+    await expect(encryptor.decrypt(reencrypted)).rejects.toThrow(
+      'Unknown encryption key "k2"'
+    );
+  });
+});
+
+describe("LocalKeyProvider", () => {
+  it("should reject keys of the wrong size", () => {
+    expect(
+      () => new LocalKeyProvider({ keys: { k1: randomBytes(16) }, currentKeyId: "k1" })
+    ).toThrow('Encryption key "k1" must be 32 bytes, got 16');
+  });
+
+  it("should require the current key to be listed", () => {
+    expect(
+      () => new LocalKeyProvider({ keys: { k1: oldKey }, currentKeyId: "k2" })
+    ).toThrow('Unknown current encryption key "k2"');
+  });
+});
+
+describe("EnvKeyProvider", () => {
+  const keys = `k1:${oldKey.toString("base64")},k2:${newKey.toString("base64")}`;
+
+  it("should use the last listed key by default", async () => {
+    const provider = new EnvKeyProvider({ env: { SAGA_BUS_ENCRYPTION_KEYS: keys } });
+
+    expect((await provider.wrapKey(randomBytes(32))).keyId).toBe("k2");
+  });
+
+  it("should use the configured current key", async () => {
+    const provider = new EnvKeyProvider({
+      env: {
+        SAGA_BUS_ENCRYPTION_KEYS: keys,
+        SAGA_BUS_ENCRYPTION_KEY_ID: "k1",
+      },
+    });
+    const dataKey = randomBytes(32);
+
+    const wrapped = await provider.wrapKey(dataKey);
+
+    expect(wrapped.keyId).toBe("k1");
+    expect(await provider.unwrapKey(wrapped)).toEqual(dataKey);
+  });
+
+  it("should fail without keys", () => {
+    expect(() => new EnvKeyProvider({ env: {} })).toThrow(
+      "SAGA_BUS_ENCRYPTION_KEYS doesn't list any encryption keys"
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { randomBytes } from "node:crypto";
+import {
+  isHistoryStore,
+  isOutboxStore,
+  isQueryableStore,
+  type BaseMessage,
+  type MessageEnvelope,
+  type OutboxMessage,
+  type SagaState,
+  type Transport,
+  type TransportPublishOptions,
+} from "@saga-bus/core";
+import { InMemorySagaStore } from "@saga-bus/store-inmemory";
+import { EncryptingTransport } from "../src/EncryptingTransport.js";
+import { createEncryptingSagaStore } from "../src/createEncryptingSagaStore.js";
+import { isEncryptedValue } from "../src/FieldEncryptor.js";
+import { LocalKeyProvider } from "../src/keys/LocalKeyProvider.js";
+
+interface LoanState extends SagaState {
+  applicationId: string;
+  applicant: { name: string; ssn: string };
+}
+
+const keyProvider = new LocalKeyProvider({
+  keys: { k1: randomBytes(32) },
+  currentKeyId: "k1",
+});
+
+const submitted = {
+  type: "LoanApplicationSubmitted",
+  applicationId: "app-1",
+  applicant: { name: "Alex", ssn: "123-45-6789" },
+};
+
+const createState = (version = 0): LoanState => ({
+  metadata: {
+    sagaId: "saga-1",
+    version,
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    updatedAt: new Date("2024-01-01T00:00:00Z"),
+    isCompleted: false,
+  },
+  applicationId: "app-1",
+  applicant: { name: "Alex", ssn: "123-45-6789" },
+});
+
+// The in-memory store keeps JSON copies, so Dates come back as strings
+const stored = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+describe("EncryptingTransport", () => {
+  type Handler = (envelope: MessageEnvelope) => Promise<void>;
+  let published: Array<{ message: BaseMessage; options: TransportPublishOptions }>;
+  let handler: Handler | undefined;
+  let transport: EncryptingTransport;
+
+  beforeEach(() => {
+    published = [];
+    handler = undefined;
+    const inner: Transport = {
+      start: vi.fn().mockResolvedValue(undefined),
+      stop: vi.fn().mockResolvedValue(undefined),
+      subscribe: vi.fn(async (_options: unknown, h: Handler) => {
+        handler = h;
+      }),
+      publish: vi.fn(
+        async (message: BaseMessage, options: TransportPublishOptions) => {
+          published.push({ message, options });
+        }
+      ),
+    };
+    transport = new EncryptingTransport({
+      transport: inner,
+      keyProvider,
+      fields: { LoanApplicationSubmitted: ["applicant.ssn"] },
+    });
+  });
+
+  it("should encrypt configured fields before publishing", async () => {
+    await transport.publish(submitted, { endpoint: "loans" });
+
+    const message = published[0]!.message as typeof submitted;
+    expect(message.applicant.name).toBe("Alex");
+    expect(isEncryptedValue(message.applicant.ssn)).toBe(true);
+  });
+
+  it("should encrypt batched messages", async () => {
+    await transport.publishBatch([
+      { message: submitted, options: { endpoint: "loans" } },
+      { message: submitted, options: { endpoint: "loans" } },
+    ]);
+
+    expect(published).toHaveLength(2);
+    for (const { message } of published) {
+      expect(
+        isEncryptedValue((message as typeof submitted).applicant.ssn)
+      ).toBe(true);
+    }
+  });
+
+  it("should leave other message types unchanged", async () => {
+    const message = { type: "LoanApproved", applicationId: "app-1" };
+
+    await transport.publish(message, { endpoint: "loans" });
+
+    expect(published[0]!.message).toBe(message);
+  });
+
+  it("should decrypt payloads before the handler runs", async () => {
+    const received: BaseMessage[] = [];
+    await transport.subscribe({ endpoint: "loans" }, async (envelope) => {
+      received.push(envelope.payload);
+    });
+    await transport.publish(submitted, { endpoint: "loans" });
+
+    await handler!({
+      id: "msg-1",
+      type: submitted.type,
+      payload: published[0]!.message,
+      headers: {},
+      timestamp: new Date(),
+    });
+
+    expect(received).toEqual([submitted]);
+  });
+});
+
+describe("createEncryptingSagaStore", () => {
+  let inner: InMemorySagaStore<SagaState>;
+  let store: InMemorySagaStore<SagaState>;
+
+  beforeEach(() => {
+    inner = new InMemorySagaStore();
+    store = createEncryptingSagaStore(inner, {
+      keyProvider,
+      state: { LoanSaga: ["applicant.ssn"] },
+      messages: { LoanApplicationSubmitted: ["applicant.ssn"] },
+    });
+  });
+
+  it("should encrypt state at rest and decrypt it on read", async () => {
+    await store.insert("LoanSaga", "app-1", createState());
+
+    const raw = (await inner.getById("LoanSaga", "saga-1")) as LoanState;
+    expect(isEncryptedValue(raw.applicant.ssn)).toBe(true);
+    expect(raw.metadata).toEqual(stored(createState().metadata));
+
+    expect(await store.getById("LoanSaga", "saga-1")).toEqual(
+      stored(createState())
+    );
+    expect(await store.getByCorrelationId("LoanSaga", "app-1")).toEqual(
+      stored(createState())
+    );
+  });
+
+  it("should keep optimistic concurrency of the wrapped store", async () => {
+    await store.insert("LoanSaga", "app-1", createState());
+    await store.update("LoanSaga", createState(1), 0);
+
+    await expect(store.update("LoanSaga", createState(2), 0)).rejects.toThrow();
+  });
+
+  it("should keep the wrapped store's capabilities", () => {
+    expect(isOutboxStore(store)).toBe(true);
+    expect(isHistoryStore(store)).toBe(true);
+    expect(isQueryableStore(store)).toBe(true);
+    expect(store.clear).toBeTypeOf("function");
+  });
+
+  it("should encrypt outbox messages until they are claimed", async () => {
+    const entry: OutboxMessage = {
+      id: "out-1",
+      sagaName: "LoanSaga",
+      sagaId: "saga-1",
+      message: submitted,
+      options: { endpoint: "loans" },
+      createdAt: new Date(),
+      attempts: 0,
+    };
+
+    await store.insertWithOutbox("LoanSaga", "app-1", createState(), [entry]);
+
+    const [raw] = await inner.claimOutboxMessages(10, 0);
+    expect(
+      isEncryptedValue((raw!.message as typeof submitted).applicant.ssn)
+    ).toBe(true);
+
+    const [claimed] = await store.claimOutboxMessages(10, 0);
+    expect(claimed!.message).toEqual(submitted);
+  });
+
+  it("should decrypt history entries and query results", async () => {
+    const state = createState();
+    await store.insertWithHistory(
+      "LoanSaga",
+      "app-1",
+      state,
+      {
+        id: "h-1",
+        sagaName: "LoanSaga",
+        sagaId: "saga-1",
+        correlationId: "app-1",
+        messageId: "msg-1",
+        messageType: submitted.type,
+        outcome: "created",
+        previousVersion: null,
+        version: 0,
+        previousState: null,
+        state,
+        traceParent: null,
+        recordedAt: new Date(),
+      },
+      []
+    );
+
+    const [rawEntry] = await inner.getHistory("LoanSaga", "saga-1");
+    expect(isEncryptedValue((rawEntry!.state as LoanState).applicant.ssn)).toBe(
+      true
+    );
+
+    const [entry] = await store.getHistory("LoanSaga", "saga-1");
+    expect(entry!.state).toEqual(stored(state));
+
+    const { items } = await store.findSagas("LoanSaga");
+    expect(items).toEqual([stored(state)]);
+  });
+
+  it("should refuse to encrypt metadata", () => {
+    expect(() =>
+      createEncryptingSagaStore(inner, {
+        keyProvider,
+        state: { LoanSaga: ["metadata.sagaId"] },
+      })
+    ).toThrow(`Saga metadata can't be encrypted ("metadata.sagaId")`);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  publishBatch,
+  type BaseMessage,
+  type MessageEnvelope,
+  type Transport,
+  type TransportBatchMessage,
+  type TransportPublishOptions,
+  type TransportSubscribeOptions,
+} from "@saga-bus/core";
+import { FieldEncryptor, parsePath } from "./FieldEncryptor.js";
+import type { EncryptedPaths, EncryptingTransportOptions } from "./types.js";
+
+/**
+ * Transport wrapper that encrypts selected payload fields.
+ *
+ * Fields are encrypted before the message reaches the wrapped transport, so
+ * brokers, dead-letter queues and anything else that stores the message
+ * only see ciphertext. Received payloads are decrypted before the handler
+ * runs. Messages republished by the bus (retries, dead letters) are
+ * encrypted again with a new data key.
+ *
+ * @example
+ * ```typescript
+ * const transport = new EncryptingTransport({
+ *   transport: new RabbitMqTransport({ ... }),
+ *   keyProvider: new EnvKeyProvider(),
+ *   fields: {
+ *     LoanApplicationSubmitted: ["applicant.ssn", "applicant.income"],
+ *   },
+ * });
+ * ```
+ */
+export class EncryptingTransport implements Transport {
+  private readonly transport: Transport;
+  private readonly encryptor: FieldEncryptor;
+  private readonly fields: EncryptedPaths;
+
+  constructor(options: EncryptingTransportOptions) {
+    this.transport = options.transport;
+    this.encryptor = new FieldEncryptor(options.keyProvider);
+    this.fields = options.fields;
+
+    for (const paths of Object.values(this.fields)) {
+      paths.forEach(parsePath);
+    }
+  }
+
+  async start(): Promise<void> {
+    await this.transport.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.transport.stop();
+  }
+
+  async stopReceiving(): Promise<void> {
+    await this.transport.stopReceiving?.();
+  }
+
+  async subscribe<TMessage extends BaseMessage>(
+    options: TransportSubscribeOptions,
+    handler: (envelope: MessageEnvelope<TMessage>) => Promise<void>
+  ): Promise<void> {
+    await this.transport.subscribe<TMessage>(options, async (envelope) => {
+      await handler({
+        ...envelope,
+        payload: await this.encryptor.decrypt(envelope.payload),
+      });
+    });
+  }
+
+  async publish<TMessage extends BaseMessage>(
+    message: TMessage,
+    options: TransportPublishOptions
+  ): Promise<void> {
+    await this.transport.publish(await this.encrypt(message), options);
+  }
+
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    const encrypted: TransportBatchMessage[] = [];
+    for (const { message, options } of messages) {
+      encrypted.push({ message: await this.encrypt(message), options });
+    }
+    await publishBatch(this.transport, encrypted);
+  }
+
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    await this.transport.cancelScheduled?.(scheduleId);
+  }
+
+  private async encrypt<TMessage extends BaseMessage>(
+    message: TMessage
+  ): Promise<TMessage> {
+    const paths = this.fields[message.type];
+    return paths ? this.encryptor.encrypt(message, paths) : message;
+  }
+}
@@ -0,0 +1,242 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { KeyProvider, WrappedKey } from "./types.js";
+
+/** Prefix of encrypted field values */
+export const ENCRYPTED_VALUE_PREFIX = "enc:v1:";
+
+const ALGORITHM = "aes-256-gcm";
+const DATA_KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Encrypts selected fields of payloads and saga states.
+ *
+ * Each `encrypt()` call generates one data key for all the fields it
+ * encrypts. Every field becomes a self-contained string holding the wrapped
+ * data key, IV and AES-256-GCM ciphertext of the field's JSON value, so
+ * values keep their place in the document and survive any serializer.
+ * Field values are restored as JSON: Dates come back as ISO strings.
+ */
+export class FieldEncryptor {
+  constructor(private readonly keyProvider: KeyProvider) {}
+
+  /**
+   * Encrypt the values at the given paths. Missing paths and values that
+   * are already encrypted are left alone.
+   * @returns A copy of the value; the input is not modified
+   */
+  async encrypt<T>(value: T, paths: ReadonlyArray<string>): Promise<T> {
+    let dataKey: Promise<{ key: Buffer; wrapped: string }> | null = null;
+    const getDataKey = () => {
+      dataKey ??= this.createDataKey();
+      return dataKey;
+    };
+
+    let result: unknown = value;
+    for (const path of paths) {
+      result = await transformAt(result, parsePath(path), 0, async (field) => {
+        if (field === undefined || isEncryptedValue(field)) {
+          return field;
+        }
+        const { key, wrapped } = await getDataKey();
+        return encryptValue(field, key, wrapped);
+      });
+    }
+    return result as T;
+  }
+
+  /**
+   * Decrypt every encrypted value, wherever it is in the document.
+   * @returns A copy of the value; the input is not modified
+   */
+  async decrypt<T>(value: T): Promise<T> {
+    const dataKeys = new Map<string, Promise<Buffer>>();
+    const getDataKey = (keyId: string, wrapped: string) => {
+      const cacheKey = `${keyId}:${wrapped}`;
+      let dataKey = dataKeys.get(cacheKey);
+      if (!dataKey) {
+        dataKey = this.keyProvider.unwrapKey({
+          keyId,
+          data: Buffer.from(wrapped, "base64url"),
+        });
+        dataKeys.set(cacheKey, dataKey);
+      }
+      return dataKey;
+    };
+
+    return (await transformAll(value, async (token) => {
+      const parts = parseEncryptedValue(token);
+      const key = await getDataKey(parts.keyId, parts.wrapped);
+      return decryptValue(parts, key);
+    })) as T;
+  }
+
+  private async createDataKey(): Promise<{ key: Buffer; wrapped: string }> {
+    const key = randomBytes(DATA_KEY_BYTES);
+    const wrapped: WrappedKey = await this.keyProvider.wrapKey(key);
+    return {
+      key,
+      wrapped: `${Buffer.from(wrapped.keyId).toString("base64url")}:${wrapped.data.toString("base64url")}`,
+    };
+  }
+}
+
+/**
+ * Check whether a value was produced by `FieldEncryptor.encrypt()`.
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/**
+ * Split a dot-notation path into segments.
+ * @throws If the path has empty segments
+ */
+export function parsePath(path: string): string[] {
+  const segments = path.split(".");
+  if (segments.some((segment) => segment === "")) {
+    throw new Error(`Invalid encrypted path "${path}"`);
+  }
+  return segments;
+}
+
+function encryptValue(value: unknown, key: Buffer, wrapped: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(value), "utf8"),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+  return `${ENCRYPTED_VALUE_PREFIX}${wrapped}:${iv.toString("base64url")}:${ciphertext.toString("base64url")}`;
+}
+
+interface EncryptedValueParts {
+  keyId: string;
+  wrapped: string;
+  iv: Buffer;
+  ciphertext: Buffer;
+}
+
+function parseEncryptedValue(token: string): EncryptedValueParts {
+  const [keyId, wrapped, iv, ciphertext, ...rest] = token
+    .slice(ENCRYPTED_VALUE_PREFIX.length)
+    .split(":");
+  if (!keyId || !wrapped || !iv || !ciphertext || rest.length > 0) {
+    throw new Error("Malformed encrypted value");
+  }
+  return {
+    keyId: Buffer.from(keyId, "base64url").toString("utf8"),
+    wrapped,
+    iv: Buffer.from(iv, "base64url"),
+    ciphertext: Buffer.from(ciphertext, "base64url"),
+  };
+}
+
+function decryptValue(parts: EncryptedValueParts, key: Buffer): unknown {
+  if (parts.ciphertext.length < TAG_BYTES) {
+    throw new Error("Malformed encrypted value");
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, parts.iv);
+  decipher.setAuthTag(parts.ciphertext.subarray(-TAG_BYTES));
+  const plaintext = Buffer.concat([
+    decipher.update(parts.ciphertext.subarray(0, -TAG_BYTES)),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString("utf8"));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Replace the values at a path, copying the containers along the way.
+ */
+async function transformAt(
+  value: unknown,
+  segments: ReadonlyArray<string>,
+  index: number,
+  transform: (value: unknown) => Promise<unknown>
+): Promise<unknown> {
+  const segment = segments[index];
+  if (segment === undefined) {
+    return transform(value);
+  }
+
+  if (Array.isArray(value)) {
+    if (segment === "*") {
+      const items: unknown[] = [];
+      for (const item of value) {
+        items.push(await transformAt(item, segments, index + 1, transform));
+      }
+      return items;
+    }
+    const position = Number(segment);
+    if (!Number.isInteger(position) || position < 0 || position >= value.length) {
+      return value;
+    }
+    const items = [...value];
+    items[position] = await transformAt(
+      value[position],
+      segments,
+      index + 1,
+      transform
+    );
+    return items;
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const keys =
+    segment === "*"
+      ? Object.keys(value)
+      : Object.prototype.hasOwnProperty.call(value, segment)
+        ? [segment]
+        : [];
+  if (keys.length === 0) {
+    return value;
+  }
+
+  const result = { ...value };
+  for (const key of keys) {
+    result[key] = await transformAt(value[key], segments, index + 1, transform);
+  }
+  return result;
+}
+
+/**
+ * Replace every encrypted value in a document, copying plain objects and
+ * arrays. Other objects (Dates, Maps, class instances) are kept as they are.
+ */
+async function transformAll(
+  value: unknown,
+  transform: (token: string) => Promise<unknown>
+): Promise<unknown> {
+  if (isEncryptedValue(value)) {
+    return transform(value);
+  }
+  if (Array.isArray(value)) {
+    const items: unknown[] = [];
+    for (const item of value) {
+      items.push(await transformAll(item, transform));
+    }
+    return items;
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = await transformAll(item, transform);
+  }
+  return result;
+}
@@ -0,0 +1,205 @@
+import type {
+  OutboxMessage,
+  SagaHistoryEntry,
+  SagaHistoryStore,
+  SagaOutboxStore,
+  SagaQueryableStore,
+  SagaState,
+  SagaStore,
+  ScheduledMessage,
+  ScheduledMessageStore,
+} from "@saga-bus/core";
+import { FieldEncryptor, parsePath } from "./FieldEncryptor.js";
+import type { EncryptingSagaStoreOptions } from "./types.js";
+
+type FullStore = SagaOutboxStore<SagaState> &
+  SagaHistoryStore<SagaState> &
+  SagaQueryableStore<SagaState> &
+  ScheduledMessageStore;
+
+/**
+ * Wrap a saga store so selected state paths are encrypted at rest.
+ *
+ * States are encrypted on every write with a fresh data key and decrypted
+ * on every read, including history entries and query results. Outbox and
+ * scheduled messages are encrypted with the `messages` paths. Store
+ * capabilities (outbox, history, queries, scheduling) and store-specific
+ * methods stay available, since calls other than those are passed through
+ * to the wrapped store. Queries can't filter on encrypted fields.
+ *
+ * @example
+ * ```typescript
+ * const store = createEncryptingSagaStore(new PostgresSagaStore({ pool }), {
+ *   keyProvider: new EnvKeyProvider(),
+ *   state: { LoanApplicationSaga: ["applicant.ssn", "applicant.income"] },
+ * });
+ *
+ * const bus = createBus({ transport, store, sagas });
+ * ```
+ */
+export function createEncryptingSagaStore<TStore extends SagaStore<SagaState>>(
+  store: TStore,
+  options: EncryptingSagaStoreOptions
+): TStore {
+  const encryptor = new FieldEncryptor(options.keyProvider);
+  const statePaths = options.state;
+  const messagePaths = options.messages ?? {};
+
+  for (const paths of Object.values(statePaths)) {
+    for (const path of paths) {
+      if (parsePath(path)[0] === "metadata") {
+        throw new Error(`Saga metadata can't be encrypted ("${path}")`);
+      }
+    }
+  }
+  for (const paths of Object.values(messagePaths)) {
+    paths.forEach(parsePath);
+  }
+
+  const encryptState = <TState extends SagaState>(
+    sagaName: string,
+    state: TState
+  ): Promise<TState> => {
+    const paths = statePaths[sagaName];
+    return paths ? encryptor.encrypt(state, paths) : Promise.resolve(state);
+  };
+
+  const encryptMessage = async <T extends OutboxMessage | ScheduledMessage>(
+    entry: T
+  ): Promise<T> => {
+    const paths = messagePaths[entry.message.type];
+    return paths
+      ? { ...entry, message: await encryptor.encrypt(entry.message, paths) }
+      : entry;
+  };
+
+  const decryptMessage = async <T extends OutboxMessage | ScheduledMessage>(
+    entry: T
+  ): Promise<T> => ({
+    ...entry,
+    message: await encryptor.decrypt(entry.message),
+  });
+
+  const encryptHistoryEntry = async (
+    entry: SagaHistoryEntry
+  ): Promise<SagaHistoryEntry> => ({
+    ...entry,
+    state: await encryptState(entry.sagaName, entry.state),
+    previousState: entry.previousState
+      ? await encryptState(entry.sagaName, entry.previousState)
+      : null,
+  });
+
+  const decryptHistoryEntry = async (
+    entry: SagaHistoryEntry
+  ): Promise<SagaHistoryEntry> => ({
+    ...entry,
+    state: await encryptor.decrypt(entry.state),
+    previousState: await encryptor.decrypt(entry.previousState),
+  });
+
+  const inner = store as unknown as FullStore;
+  const overrides: Partial<FullStore> = {
+    getById: async (sagaName, sagaId) =>
+      encryptor.decrypt(await inner.getById(sagaName, sagaId)),
+
+    getByCorrelationId: async (sagaName, correlationId) =>
+      encryptor.decrypt(
+        await inner.getByCorrelationId(sagaName, correlationId)
+      ),
+
+    insert: async (sagaName, correlationId, state) =>
+      inner.insert(sagaName, correlationId, await encryptState(sagaName, state)),
+
+    update: async (sagaName, state, expectedVersion) =>
+      inner.update(
+        sagaName,
+        await encryptState(sagaName, state),
+        expectedVersion
+      ),
+
+    insertWithOutbox: async (sagaName, correlationId, state, messages) =>
+      inner.insertWithOutbox(
+        sagaName,
+        correlationId,
+        await encryptState(sagaName, state),
+        await Promise.all(messages.map(encryptMessage))
+      ),
+
+    updateWithOutbox: async (sagaName, state, expectedVersion, messages) =>
+      inner.updateWithOutbox(
+        sagaName,
+        await encryptState(sagaName, state),
+        expectedVersion,
+        await Promise.all(messages.map(encryptMessage))
+      ),
+
+    claimOutboxMessages: async (limit, lockDurationMs) =>
+      Promise.all(
+        (await inner.claimOutboxMessages(limit, lockDurationMs)).map(
+          decryptMessage
+        )
+      ),
+
+    insertWithHistory: async (sagaName, correlationId, state, entry, outbox) =>
+      inner.insertWithHistory(
+        sagaName,
+        correlationId,
+        await encryptState(sagaName, state),
+        await encryptHistoryEntry(entry),
+        await Promise.all(outbox.map(encryptMessage))
+      ),
+
+    updateWithHistory: async (sagaName, state, expectedVersion, entry, outbox) =>
+      inner.updateWithHistory(
+        sagaName,
+        await encryptState(sagaName, state),
+        expectedVersion,
+        await encryptHistoryEntry(entry),
+        await Promise.all(outbox.map(encryptMessage))
+      ),
+
+    getHistory: async (sagaName, sagaId) =>
+      Promise.all(
+        (await inner.getHistory(sagaName, sagaId)).map(decryptHistoryEntry)
+      ),
+
+    findSagas: async (sagaName, query) => {
+      const result = await inner.findSagas(sagaName, query);
+      return {
+        ...result,
+        items: await Promise.all(
+          result.items.map((item) => encryptor.decrypt(item))
+        ),
+      };
+    },
+
+    insertScheduledMessage: async (message) =>
+      inner.insertScheduledMessage(await encryptMessage(message)),
+
+    claimDueScheduledMessages: async (limit, lockDurationMs) =>
+      Promise.all(
+        (await inner.claimDueScheduledMessages(limit, lockDurationMs)).map(
+          decryptMessage
+        )
+      ),
+  };
+
+  // A proxy rather than a wrapper class, so capability checks such as
+  // isOutboxStore() see exactly the methods the wrapped store has
+  return new Proxy(store, {
+    get(target, property) {
+      const value: unknown = Reflect.get(target, property, target);
+      if (typeof value !== "function") {
+        return value;
+      }
+      if (
+        typeof property === "string" &&
+        Object.prototype.hasOwnProperty.call(overrides, property)
+      ) {
+        return overrides[property as keyof FullStore];
+      }
+      return (value as (...args: unknown[]) => unknown).bind(target);
+    },
+  });
+}
@@ -0,0 +1,22 @@
+export { EncryptingTransport } from "./EncryptingTransport.js";
+export { createEncryptingSagaStore } from "./createEncryptingSagaStore.js";
+export {
+  FieldEncryptor,
+  ENCRYPTED_VALUE_PREFIX,
+  isEncryptedValue,
+} from "./FieldEncryptor.js";
+export { LocalKeyProvider } from "./keys/LocalKeyProvider.js";
+export type { LocalKeyProviderOptions } from "./keys/LocalKeyProvider.js";
+export {
+  EnvKeyProvider,
+  DEFAULT_ENCRYPTION_KEYS_VARIABLE,
+  DEFAULT_ENCRYPTION_KEY_ID_VARIABLE,
+} from "./keys/EnvKeyProvider.js";
+export type { EnvKeyProviderOptions } from "./keys/EnvKeyProvider.js";
+export type {
+  EncryptedPaths,
+  EncryptingSagaStoreOptions,
+  EncryptingTransportOptions,
+  KeyProvider,
+  WrappedKey,
+} from "./types.js";
@@ -0,0 +1,73 @@
+import { LocalKeyProvider } from "./LocalKeyProvider.js";
+
+/**
+ * Default environment variables read by the EnvKeyProvider.
+ */
+export const DEFAULT_ENCRYPTION_KEYS_VARIABLE = "SAGA_BUS_ENCRYPTION_KEYS";
+export const DEFAULT_ENCRYPTION_KEY_ID_VARIABLE = "SAGA_BUS_ENCRYPTION_KEY_ID";
+
+/**
+ * Options for the environment key provider.
+ */
+export interface EnvKeyProviderOptions {
+  /**
+   * Variable listing the keys as comma-separated `id:base64` pairs.
+   * @default "SAGA_BUS_ENCRYPTION_KEYS"
+   */
+  keysVariable?: string;
+
+  /**
+   * Variable naming the current key. When it is unset, the last listed key
+   * is current.
+   * @default "SAGA_BUS_ENCRYPTION_KEY_ID"
+   */
+  currentKeyIdVariable?: string;
+
+  /**
+   * Environment to read from.
+   * @default process.env
+   */
+  env?: Readonly<Record<string, string | undefined>>;
+}
+
+/**
+ * Local key provider reading its keys from environment variables, e.g.
+ * injected from a secret manager:
+ *
+ * ```bash
+ * SAGA_BUS_ENCRYPTION_KEYS="2024-06:q1w2...,2025-01:e3r4..."
+ * SAGA_BUS_ENCRYPTION_KEY_ID="2025-01"
+ * ```
+ */
+export class EnvKeyProvider extends LocalKeyProvider {
+  constructor(options: EnvKeyProviderOptions = {}) {
+    const env = options.env ?? process.env;
+    const keysVariable = options.keysVariable ?? DEFAULT_ENCRYPTION_KEYS_VARIABLE;
+
+    const keys: Record<string, string> = {};
+    let lastKeyId: string | undefined;
+    for (const entry of (env[keysVariable] ?? "").split(",")) {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator).trim();
+      if (separator === -1 || id === "") {
+        if (entry.trim() === "") {
+          continue;
+        }
+        throw new Error(`${keysVariable} entries must be "id:base64" pairs`);
+      }
+      keys[id] = entry.slice(separator + 1).trim();
+      lastKeyId = id;
+    }
+
+    if (lastKeyId === undefined) {
+      throw new Error(`${keysVariable} doesn't list any encryption keys`);
+    }
+
+    super({
+      keys,
+      currentKeyId:
+        env[options.currentKeyIdVariable ?? DEFAULT_ENCRYPTION_KEY_ID_VARIABLE] ||
+        lastKeyId,
+    });
+  }
+}
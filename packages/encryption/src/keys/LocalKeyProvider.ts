@@ -0,0 +1,95 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { KeyProvider, WrappedKey } from "../types.js";
+
+/**
+ * Options for the local key provider.
+ */
+export interface LocalKeyProviderOptions {
+  /**
+   * Key-encryption keys by ID, as 32-byte Buffers or base64 strings.
+   * Keep retired keys listed until no data wrapped with them remains.
+   */
+  keys: Readonly<Record<string, Buffer | string>>;
+
+  /**
+   * ID of the key that wraps new data keys.
+   */
+  currentKeyId: string;
+}
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Key provider holding AES-256 key-encryption keys in process memory.
+ *
+ * To rotate, add a new key and make it current. Data keys wrapped with
+ * older keys can still be unwrapped, and saga states move to the new key
+ * the next time they are saved.
+ *
+ * @example
+ * ```typescript
+ * const keyProvider = new LocalKeyProvider({
+ *   keys: { "2024-06": oldKey, "2025-01": newKey },
+ *   currentKeyId: "2025-01",
+ * });
+ * ```
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private readonly keys = new Map<string, Buffer>();
+  private readonly currentKeyId: string;
+
+  constructor(options: LocalKeyProviderOptions) {
+    for (const [id, key] of Object.entries(options.keys)) {
+      const buffer = typeof key === "string" ? Buffer.from(key, "base64") : key;
+      if (buffer.length !== KEY_BYTES) {
+        throw new Error(
+          `Encryption key "${id}" must be ${KEY_BYTES} bytes, got ${buffer.length}`
+        );
+      }
+      this.keys.set(id, buffer);
+    }
+
+    if (!this.keys.has(options.currentKeyId)) {
+      throw new Error(`Unknown current encryption key "${options.currentKeyId}"`);
+    }
+    this.currentKeyId = options.currentKeyId;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv("aes-256-gcm", this.getKey(this.currentKeyId), iv);
+    // Bind the wrapped key to its key ID so it can't be relabelled
+    cipher.setAAD(Buffer.from(this.currentKeyId));
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      keyId: this.currentKeyId,
+      data: Buffer.concat([iv, cipher.getAuthTag(), encrypted]),
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.getKey(wrapped.keyId),
+      wrapped.data.subarray(0, IV_BYTES)
+    );
+    decipher.setAAD(Buffer.from(wrapped.keyId));
+    decipher.setAuthTag(wrapped.data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+
+    return Buffer.concat([
+      decipher.update(wrapped.data.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]);
+  }
+
+  private getKey(id: string): Buffer {
+    const key = this.keys.get(id);
+    if (!key) {
+      throw new Error(`Unknown encryption key "${id}"`);
+    }
+    return key;
+  }
+}
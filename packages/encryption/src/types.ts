@@ -0,0 +1,69 @@
+import type { Transport } from "@saga-bus/core";
+
+/**
+ * A data key encrypted with a key-encryption key.
+ */
+export interface WrappedKey {
+  /** ID of the key-encryption key that wrapped the data key */
+  keyId: string;
+  /** The encrypted data key */
+  data: Buffer;
+}
+
+/**
+ * Holds the key-encryption keys used for envelope encryption.
+ *
+ * Every encrypted message or state gets a fresh data key, which is wrapped
+ * by the provider and stored next to the ciphertext. Rotating means wrapping
+ * new data keys with a new key-encryption key while older ones stay
+ * available to unwrap existing data. Implement this interface to keep keys
+ * in a KMS.
+ */
+export interface KeyProvider {
+  /**
+   * Encrypt a data key with the current key-encryption key.
+   */
+  wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+
+  /**
+   * Decrypt a data key.
+   * @throws If the key-encryption key is unknown or the data key was tampered with
+   */
+  unwrapKey(wrapped: WrappedKey): Promise<Buffer>;
+}
+
+/**
+ * Paths to encrypt, by message type or saga name.
+ *
+ * Paths use dot notation relative to the payload or state, e.g.
+ * `"applicant.ssn"`. A `*` segment matches every array item or object key,
+ * e.g. `"dependents.*.ssn"`.
+ */
+export type EncryptedPaths = Readonly<Record<string, ReadonlyArray<string>>>;
+
+/**
+ * Options for the EncryptingTransport.
+ */
+export interface EncryptingTransportOptions {
+  /** Transport to wrap */
+  transport: Transport;
+  /** Provider of the key-encryption keys */
+  keyProvider: KeyProvider;
+  /** Payload paths to encrypt, by message type */
+  fields: EncryptedPaths;
+}
+
+/**
+ * Options for `createEncryptingSagaStore()`.
+ */
+export interface EncryptingSagaStoreOptions {
+  /** Provider of the key-encryption keys */
+  keyProvider: KeyProvider;
+  /** State paths to encrypt, by saga name. `metadata` can't be encrypted. */
+  state: EncryptedPaths;
+  /**
+   * Payload paths to encrypt in outbox and scheduled messages, by message
+   * type. Usually the same as the EncryptingTransport's `fields`.
+   */
+  messages?: EncryptedPaths;
+}
@@ -3,11 +3,14 @@ import type { Request, Response, NextFunction } from "express";
 import type { Bus } from "@saga-bus/core";
 import { sagaBusMiddleware, sagaErrorHandler } from "../src/middleware.js";
 import { createHealthRouter, createReadinessRouter } from "../src/health.js";
+import { createSagaAdminRouter } from "../src/admin.js";
 
 // Mock express Router
 vi.mock("express", () => ({
   Router: vi.fn(() => ({
     get: vi.fn(),
+    post: vi.fn(),
+    delete: vi.fn(),
   })),
 }));
 
@@ -352,3 +355,141 @@ describe("health check with custom checks", () => {
     );
   });
 });
+
+describe("createSagaAdminRouter", () => {
+  let mockBus: Bus;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+  const state = {
+    metadata: {
+      sagaId: "saga-1",
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      isCompleted: false,
+    },
+  };
+
+  const getHandler = (
+    router: ReturnType<typeof createSagaAdminRouter>,
+    method: "get" | "post" | "delete",
+    path: string
+  ) => {
+    const calls = (router[method] as ReturnType<typeof vi.fn>).mock.calls;
+    return calls.find((call) => call[0] === path)![1] as (
+      req: Partial<Request>,
+      res: Response,
+      next: NextFunction
+    ) => Promise<void>;
+  };
+
+  beforeEach(() => {
+    mockBus = {
+      publish: vi.fn(),
+      getSagas: () => [
+        {
+          name: "OrderSaga",
+          handledMessageTypes: ["OrderSubmitted"],
+          store: {
+            getById: vi.fn().mockResolvedValue(null),
+            getByCorrelationId: vi.fn(async (_name: string, id: string) =>
+              id === "order-1" ? state : null
+            ),
+            insert: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+          },
+        },
+      ],
+    } as unknown as Bus;
+
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+      end: vi.fn(),
+    };
+    mockNext = vi.fn();
+  });
+
+  it("should register the admin routes", () => {
+    const router = createSagaAdminRouter({ bus: mockBus });
+
+    expect(router.get).toHaveBeenCalledWith("/sagas", expect.any(Function));
+    expect(router.get).toHaveBeenCalledWith(
+      "/sagas/:sagaName/instances/:id",
+      expect.any(Function)
+    );
+    expect(router.post).toHaveBeenCalledWith(
+      "/sagas/:sagaName/instances/:id/complete",
+      expect.any(Function)
+    );
+    expect(router.delete).toHaveBeenCalledWith(
+      "/sagas/:sagaName/instances/:id",
+      expect.any(Function)
+    );
+  });
+
+  it("should list registered sagas", async () => {
+    const router = createSagaAdminRouter({ bus: mockBus });
+
+    await getHandler(router, "get", "/sagas")({}, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(200);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      sagas: [
+        {
+          name: "OrderSaga",
+          handledMessageTypes: ["OrderSubmitted"],
+          queryable: false,
+        },
+      ],
+    });
+  });
+
+  it("should return an instance by correlation ID", async () => {
+    const router = createSagaAdminRouter({ bus: mockBus });
+
+    await getHandler(router, "get", "/sagas/:sagaName/instances/:id")(
+      { params: { sagaName: "OrderSaga", id: "order-1" } },
+      mockRes as Response,
+      mockNext
+    );
+
+    expect(mockRes.json).toHaveBeenCalledWith(state);
+  });
+
+  it("should map admin errors to status codes", async () => {
+    const router = createSagaAdminRouter({ bus: mockBus });
+    const getInstance = getHandler(router, "get", "/sagas/:sagaName/instances/:id");
+
+    await getInstance(
+      { params: { sagaName: "OrderSaga", id: "missing" } },
+      mockRes as Response,
+      mockNext
+    );
+    expect(mockRes.status).toHaveBeenCalledWith(404);
+
+    await getHandler(router, "get", "/sagas/:sagaName/instances")(
+      { params: { sagaName: "OrderSaga" }, query: {} },
+      mockRes as Response,
+      mockNext
+    );
+    expect(mockRes.status).toHaveBeenCalledWith(501);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it("should reject requests the authorize hook denies", async () => {
+    const authorize = vi.fn().mockResolvedValue(false);
+    const router = createSagaAdminRouter({ bus: mockBus, authorize });
+    const req = { params: { sagaName: "OrderSaga", id: "order-1" } };
+
+    await getHandler(router, "delete", "/sagas/:sagaName/instances/:id")(
+      req,
+      mockRes as Response,
+      mockNext
+    );
+
+    expect(authorize).toHaveBeenCalledWith(req, "deleteInstance");
+    expect(mockRes.status).toHaveBeenCalledWith(403);
+  });
+});
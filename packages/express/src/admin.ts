@@ -0,0 +1,118 @@
+import type { Request, Response, NextFunction, Router } from "express";
+import { Router as createRouter } from "express";
+import {
+  SagaAdmin,
+  parseSagaInstanceQuery,
+  type SagaAdminAction,
+} from "@saga-bus/core";
+import type { SagaAdminRouterOptions } from "./types.js";
+
+/**
+ * HTTP status codes for errors raised by admin operations.
+ */
+const ADMIN_ERROR_STATUS: Record<string, number> = {
+  SagaNotFoundError: 404,
+  ValidationError: 400,
+  ConcurrencyError: 409,
+  UnsupportedOperationError: 501,
+};
+
+interface AdminResult {
+  status?: number;
+  body?: unknown;
+}
+
+/**
+ * Creates a router exposing saga admin operations.
+ *
+ * Routes (relative to where the router is mounted):
+ * - `GET    /sagas` - registered sagas and their message types
+ * - `GET    /sagas/:sagaName/instances` - instances (`status`, `limit`, `cursor`, `sortBy`, `sortOrder`)
+ * - `GET    /sagas/:sagaName/instances/:id` - instance by saga ID or correlation ID
+ * - `POST   /sagas/:sagaName/instances/:id/complete` - force-complete an instance
+ * - `DELETE /sagas/:sagaName/instances/:id` - delete an instance
+ * - `POST   /sagas/:sagaName/instances/:id/timeout` - fire the pending timeout now
+ */
+export function createSagaAdminRouter(options: SagaAdminRouterOptions): Router {
+  const { bus, authorize } = options;
+  const admin = new SagaAdmin(bus);
+  const router = createRouter();
+
+  const route =
+    (action: SagaAdminAction, handler: (req: Request) => Promise<AdminResult>) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        if (authorize && !(await authorize(req, action))) {
+          res.status(403).json({ error: "Forbidden" });
+          return;
+        }
+
+        const { status = 200, body } = await handler(req);
+        if (body === undefined) {
+          res.status(status).end();
+        } else {
+          res.status(status).json(body);
+        }
+      } catch (error) {
+        const status =
+          error instanceof Error ? ADMIN_ERROR_STATUS[error.name] : undefined;
+        if (status === undefined) {
+          next(error);
+          return;
+        }
+        res.status(status).json({
+          error: (error as Error).name,
+          message: (error as Error).message,
+        });
+      }
+    };
+
+  router.get(
+    "/sagas",
+    route("listSagas", async () => ({ body: { sagas: admin.listSagas() } }))
+  );
+
+  router.get(
+    "/sagas/:sagaName/instances",
+    route("listInstances", async (req) => ({
+      body: await admin.listInstances(
+        req.params.sagaName!,
+        parseSagaInstanceQuery(req.query)
+      ),
+    }))
+  );
+
+  router.get(
+    "/sagas/:sagaName/instances/:id",
+    route("getInstance", async (req) => ({
+      body: await admin.getInstance(req.params.sagaName!, req.params.id!),
+    }))
+  );
+
+  router.post(
+    "/sagas/:sagaName/instances/:id/complete",
+    route("completeInstance", async (req) => ({
+      body: await admin.completeInstance(req.params.sagaName!, req.params.id!),
+    }))
+  );
+
+  router.delete(
+    "/sagas/:sagaName/instances/:id",
+    route("deleteInstance", async (req) => {
+      await admin.deleteInstance(req.params.sagaName!, req.params.id!);
+      return { status: 204 };
+    })
+  );
+
+  router.post(
+    "/sagas/:sagaName/instances/:id/timeout",
+    route("fireTimeout", async (req) => ({
+      status: 202,
+      body: {
+        message: await admin.fireTimeout(req.params.sagaName!, req.params.id!),
+      },
+    }))
+  );
+
+  return router;
+}
@@ -1,8 +1,10 @@
 export { sagaBusMiddleware, sagaErrorHandler } from "./middleware.js";
 export { createHealthRouter, createReadinessRouter } from "./health.js";
+export { createSagaAdminRouter } from "./admin.js";
 export type {
   SagaBusExpressOptions,
   HealthCheckOptions,
+  SagaAdminRouterOptions,
   GracefulShutdownOptions,
 } from "./types.js";
 export type { HealthStatus } from "./health.js";
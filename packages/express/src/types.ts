@@ -1,4 +1,5 @@
-import type { Bus } from "@saga-bus/core";
+import type { Request } from "express";
+import type { Bus, SagaAdminAction } from "@saga-bus/core";
 
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -38,6 +39,19 @@ export interface HealthCheckOptions {
   }>;
 }
 
+export interface SagaAdminRouterOptions {
+  /** The bus whose sagas are administered */
+  bus: Bus;
+
+  /**
+   * Decide whether a request may perform an admin action.
+   * Requests are rejected with 403 when this returns false.
+   * Without it every request is allowed, so mount the router behind your
+   * own authentication.
+   */
+  authorize?: (req: Request, action: SagaAdminAction) => boolean | Promise<boolean>;
+}
+
 export interface GracefulShutdownOptions {
   /** The bus instance to drain */
   bus: Bus;
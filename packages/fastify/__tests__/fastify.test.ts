@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import Fastify from "fastify";
 import type { Bus } from "@saga-bus/core";
 import { sagaBusFastifyPlugin } from "../src/plugin.js";
+import { sagaBusAdminPlugin } from "../src/admin.js";
 
 describe("sagaBusFastifyPlugin", () => {
   let mockBus: Bus;
@@ -427,3 +428,122 @@ describe("sagaBusFastifyPlugin", () => {
     });
   });
 });
+
+describe("sagaBusAdminPlugin", () => {
+  const state = {
+    metadata: {
+      sagaId: "saga-1",
+      version: 1,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+      isCompleted: false,
+    },
+  };
+  let store: Record<string, ReturnType<typeof vi.fn>>;
+  let mockBus: Bus;
+
+  beforeEach(() => {
+    store = {
+      getById: vi.fn().mockResolvedValue(null),
+      getByCorrelationId: vi.fn(async (_name: string, id: string) =>
+        id === "order-1" ? state : null
+      ),
+      insert: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+    mockBus = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      getSagas: () => [
+        { name: "OrderSaga", handledMessageTypes: ["OrderSubmitted"], store },
+      ],
+    } as unknown as Bus;
+  });
+
+  it("should list registered sagas under the prefix", async () => {
+    const app = Fastify();
+    await app.register(sagaBusAdminPlugin, { bus: mockBus, prefix: "/admin" });
+
+    const response = await app.inject({ method: "GET", url: "/admin/sagas" });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      sagas: [
+        { name: "OrderSaga", handledMessageTypes: ["OrderSubmitted"], queryable: false },
+      ],
+    });
+    await app.close();
+  });
+
+  it("should get and delete instances", async () => {
+    const app = Fastify();
+    await app.register(sagaBusAdminPlugin, { bus: mockBus });
+
+    const found = await app.inject({
+      method: "GET",
+      url: "/sagas/OrderSaga/instances/order-1",
+    });
+    const deleted = await app.inject({
+      method: "DELETE",
+      url: "/sagas/OrderSaga/instances/order-1",
+    });
+
+    expect(found.json()).toEqual(state);
+    expect(deleted.statusCode).toBe(204);
+    expect(store.delete).toHaveBeenCalledWith("OrderSaga", "saga-1");
+    await app.close();
+  });
+
+  it("should map admin errors to status codes", async () => {
+    const app = Fastify();
+    await app.register(sagaBusAdminPlugin, { bus: mockBus });
+
+    const missing = await app.inject({
+      method: "GET",
+      url: "/sagas/OrderSaga/instances/missing",
+    });
+    const unknownSaga = await app.inject({
+      method: "GET",
+      url: "/sagas/Nope/instances/order-1",
+    });
+    const unqueryable = await app.inject({
+      method: "GET",
+      url: "/sagas/OrderSaga/instances",
+    });
+    const badQuery = await app.inject({
+      method: "GET",
+      url: "/sagas/OrderSaga/instances?status=stuck",
+    });
+
+    expect(missing.statusCode).toBe(404);
+    expect(unknownSaga.statusCode).toBe(404);
+    expect(unqueryable.statusCode).toBe(501);
+    expect(badQuery.statusCode).toBe(400);
+    await app.close();
+  });
+
+  it("should reject requests the authorize hook denies", async () => {
+    const authorize = vi.fn(
+      (request: { headers: Record<string, unknown> }) =>
+        request.headers["x-admin-token"] === "secret"
+    );
+    const app = Fastify();
+    await app.register(sagaBusAdminPlugin, { bus: mockBus, authorize });
+
+    const denied = await app.inject({
+      method: "DELETE",
+      url: "/sagas/OrderSaga/instances/order-1",
+    });
+    const allowed = await app.inject({
+      method: "GET",
+      url: "/sagas",
+      headers: { "x-admin-token": "secret" },
+    });
+
+    expect(denied.statusCode).toBe(403);
+    expect(store.delete).not.toHaveBeenCalled();
+    expect(allowed.statusCode).toBe(200);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), "deleteInstance");
+    await app.close();
+  });
+});
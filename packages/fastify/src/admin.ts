@@ -0,0 +1,114 @@
+import type {
+  FastifyError,
+  FastifyPluginAsync,
+  FastifyReply,
+  FastifyRequest,
+} from "fastify";
+import {
+  SagaAdmin,
+  parseSagaInstanceQuery,
+  type SagaAdminAction,
+} from "@saga-bus/core";
+import type { SagaBusAdminOptions } from "./types.js";
+
+/**
+ * HTTP status codes for errors raised by admin operations.
+ */
+const ADMIN_ERROR_STATUS: Record<string, number> = {
+  SagaNotFoundError: 404,
+  ValidationError: 400,
+  ConcurrencyError: 409,
+  UnsupportedOperationError: 501,
+};
+
+interface InstanceParams {
+  sagaName: string;
+  id: string;
+}
+
+/**
+ * Plugin exposing saga admin operations. Not wrapped with fastify-plugin,
+ * so register it with a `prefix` and its own auth hooks if needed.
+ *
+ * Routes (relative to the prefix):
+ * - `GET    /sagas` - registered sagas and their message types
+ * - `GET    /sagas/:sagaName/instances` - instances (`status`, `limit`, `cursor`, `sortBy`, `sortOrder`)
+ * - `GET    /sagas/:sagaName/instances/:id` - instance by saga ID or correlation ID
+ * - `POST   /sagas/:sagaName/instances/:id/complete` - force-complete an instance
+ * - `DELETE /sagas/:sagaName/instances/:id` - delete an instance
+ * - `POST   /sagas/:sagaName/instances/:id/timeout` - fire the pending timeout now
+ */
+export const sagaBusAdminPlugin: FastifyPluginAsync<SagaBusAdminOptions> = async (
+  fastify,
+  options
+) => {
+  const { bus, authorize } = options;
+  const admin = new SagaAdmin(bus);
+
+  const guard =
+    (action: SagaAdminAction) =>
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (authorize && !(await authorize(request, action))) {
+        return reply.code(403).send({ error: "Forbidden" });
+      }
+    };
+
+  fastify.setErrorHandler((error: FastifyError, _request, reply) => {
+    const status = ADMIN_ERROR_STATUS[error.name];
+    if (status === undefined) {
+      reply.send(error);
+      return;
+    }
+    reply.code(status).send({ error: error.name, message: error.message });
+  });
+
+  fastify.get("/sagas", { preHandler: guard("listSagas") }, async () => ({
+    sagas: admin.listSagas(),
+  }));
+
+  fastify.get<{ Params: { sagaName: string }; Querystring: Record<string, string> }>(
+    "/sagas/:sagaName/instances",
+    { preHandler: guard("listInstances") },
+    async (request) =>
+      admin.listInstances(
+        request.params.sagaName,
+        parseSagaInstanceQuery(request.query)
+      )
+  );
+
+  fastify.get<{ Params: InstanceParams }>(
+    "/sagas/:sagaName/instances/:id",
+    { preHandler: guard("getInstance") },
+    async (request) =>
+      admin.getInstance(request.params.sagaName, request.params.id)
+  );
+
+  fastify.post<{ Params: InstanceParams }>(
+    "/sagas/:sagaName/instances/:id/complete",
+    { preHandler: guard("completeInstance") },
+    async (request) =>
+      admin.completeInstance(request.params.sagaName, request.params.id)
+  );
+
+  fastify.delete<{ Params: InstanceParams }>(
+    "/sagas/:sagaName/instances/:id",
+    { preHandler: guard("deleteInstance") },
+    async (request, reply) => {
+      await admin.deleteInstance(request.params.sagaName, request.params.id);
+      reply.code(204).send();
+    }
+  );
+
+  fastify.post<{ Params: InstanceParams }>(
+    "/sagas/:sagaName/instances/:id/timeout",
+    { preHandler: guard("fireTimeout") },
+    async (request, reply) => {
+      const message = await admin.fireTimeout(
+        request.params.sagaName,
+        request.params.id
+      );
+      reply.code(202);
+      return { message };
+    }
+  );
+};
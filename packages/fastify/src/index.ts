@@ -1,6 +1,8 @@
 export { sagaBusFastifyPlugin } from "./plugin.js";
+export { sagaBusAdminPlugin } from "./admin.js";
 export type {
   SagaBusFastifyOptions,
+  SagaBusAdminOptions,
   HealthCheckConfig,
   HealthStatus,
 } from "./types.js";
@@ -1,4 +1,5 @@
-import type { Bus } from "@saga-bus/core";
+import type { FastifyRequest } from "fastify";
+import type { Bus, SagaAdminAction } from "@saga-bus/core";
 
 declare module "fastify" {
   interface FastifyRequest {
@@ -33,6 +34,22 @@ export interface SagaBusFastifyOptions {
   healthCheck?: boolean | HealthCheckConfig;
 }
 
+export interface SagaBusAdminOptions {
+  /** The bus whose sagas are administered */
+  bus: Bus;
+
+  /**
+   * Decide whether a request may perform an admin action.
+   * Requests are rejected with 403 when this returns false.
+   * Without it every request is allowed, so register the plugin behind
+   * your own authentication.
+   */
+  authorize?: (
+    request: FastifyRequest,
+    action: SagaAdminAction
+  ) => boolean | Promise<boolean>;
+}
+
 export interface HealthCheckConfig {
   /** Route path for health check */
   path?: string;
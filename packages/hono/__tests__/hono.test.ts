@@ -3,6 +3,7 @@ import { Hono } from "hono";
 import type { Bus } from "@saga-bus/core";
 import { sagaBusMiddleware, sagaErrorHandler } from "../src/middleware.js";
 import { createHealthHandler } from "../src/health.js";
+import { createSagaAdminApp } from "../src/admin.js";
 import type { SagaBusEnv } from "../src/types.js";
 
 describe("sagaBusMiddleware", () => {
@@ -311,3 +312,104 @@ describe("createHealthHandler", () => {
     });
   });
 });
+
+describe("createSagaAdminApp", () => {
+  const state = {
+    metadata: {
+      sagaId: "saga-1",
+      version: 1,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+      isCompleted: false,
+    },
+  };
+  let store: Record<string, ReturnType<typeof vi.fn>>;
+  let mockBus: Bus;
+
+  beforeEach(() => {
+    store = {
+      getById: vi.fn().mockResolvedValue(null),
+      getByCorrelationId: vi.fn(async (_name: string, id: string) =>
+        id === "order-1" ? state : null
+      ),
+      insert: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+    mockBus = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      getSagas: () => [
+        { name: "OrderSaga", handledMessageTypes: ["OrderSubmitted"], store },
+      ],
+    } as unknown as Bus;
+  });
+
+  it("should serve admin routes where it is mounted", async () => {
+    const app = new Hono();
+    app.route("/admin", createSagaAdminApp({ bus: mockBus }));
+
+    const sagas = await app.request("/admin/sagas");
+    const found = await app.request("/admin/sagas/OrderSaga/instances/order-1");
+    const deleted = await app.request("/admin/sagas/OrderSaga/instances/order-1", {
+      method: "DELETE",
+    });
+
+    expect(await sagas.json()).toEqual({
+      sagas: [
+        { name: "OrderSaga", handledMessageTypes: ["OrderSubmitted"], queryable: false },
+      ],
+    });
+    expect(await found.json()).toEqual(state);
+    expect(deleted.status).toBe(204);
+    expect(store.delete).toHaveBeenCalledWith("OrderSaga", "saga-1");
+  });
+
+  it("should map admin errors to status codes", async () => {
+    const app = new Hono();
+    app.route("/admin", createSagaAdminApp({ bus: mockBus }));
+
+    const missing = await app.request("/admin/sagas/OrderSaga/instances/missing");
+    const unqueryable = await app.request("/admin/sagas/OrderSaga/instances");
+    const badQuery = await app.request(
+      "/admin/sagas/OrderSaga/instances?status=stuck"
+    );
+
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ error: "SagaNotFoundError" });
+    expect(unqueryable.status).toBe(501);
+    expect(badQuery.status).toBe(400);
+  });
+
+  it("should leave other errors to the parent app", async () => {
+    store.getByCorrelationId!.mockRejectedValue(new Error("connection lost"));
+    const app = new Hono();
+    app.route("/admin", createSagaAdminApp({ bus: mockBus }));
+    app.onError((err, c) => c.json({ caught: err.message }, 500));
+
+    const res = await app.request("/admin/sagas/OrderSaga/instances/order-1");
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ caught: "connection lost" });
+  });
+
+  it("should reject requests the authorize hook denies", async () => {
+    const authorize = vi.fn(
+      (c: { req: { header: (name: string) => string | undefined } }) =>
+        c.req.header("x-admin-token") === "secret"
+    );
+    const app = new Hono();
+    app.route("/admin", createSagaAdminApp({ bus: mockBus, authorize }));
+
+    const denied = await app.request("/admin/sagas/OrderSaga/instances/order-1", {
+      method: "DELETE",
+    });
+    const allowed = await app.request("/admin/sagas", {
+      headers: { "x-admin-token": "secret" },
+    });
+
+    expect(denied.status).toBe(403);
+    expect(store.delete).not.toHaveBeenCalled();
+    expect(allowed.status).toBe(200);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), "deleteInstance");
+  });
+});
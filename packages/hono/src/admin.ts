@@ -0,0 +1,103 @@
+import { Hono } from "hono";
+import type { MiddlewareHandler } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+  SagaAdmin,
+  parseSagaInstanceQuery,
+  type SagaAdminAction,
+} from "@saga-bus/core";
+import type { SagaBusAdminOptions } from "./types.js";
+
+/**
+ * HTTP status codes for errors raised by admin operations.
+ */
+const ADMIN_ERROR_STATUS: Record<string, ContentfulStatusCode> = {
+  SagaNotFoundError: 404,
+  ValidationError: 400,
+  ConcurrencyError: 409,
+  UnsupportedOperationError: 501,
+};
+
+/**
+ * Creates an app exposing saga admin operations.
+ * Mount it with `app.route("/admin", createSagaAdminApp({ bus }))`.
+ *
+ * Routes (relative to where the app is mounted):
+ * - `GET    /sagas` - registered sagas and their message types
+ * - `GET    /sagas/:sagaName/instances` - instances (`status`, `limit`, `cursor`, `sortBy`, `sortOrder`)
+ * - `GET    /sagas/:sagaName/instances/:id` - instance by saga ID or correlation ID
+ * - `POST   /sagas/:sagaName/instances/:id/complete` - force-complete an instance
+ * - `DELETE /sagas/:sagaName/instances/:id` - delete an instance
+ * - `POST   /sagas/:sagaName/instances/:id/timeout` - fire the pending timeout now
+ */
+export function createSagaAdminApp(options: SagaBusAdminOptions): Hono {
+  const { bus, authorize } = options;
+  const admin = new SagaAdmin(bus);
+  const app = new Hono();
+
+  const guard =
+    (action: SagaAdminAction): MiddlewareHandler =>
+    async (c, next) => {
+      if (authorize && !(await authorize(c, action))) {
+        return c.json({ error: "Forbidden" }, 403);
+      }
+      await next();
+    };
+
+  app.onError((err, c) => {
+    const status = ADMIN_ERROR_STATUS[err.name];
+    if (status === undefined) {
+      throw err;
+    }
+    return c.json({ error: err.name, message: err.message }, status);
+  });
+
+  app.get("/sagas", guard("listSagas"), (c) =>
+    c.json({ sagas: admin.listSagas() })
+  );
+
+  app.get("/sagas/:sagaName/instances", guard("listInstances"), async (c) =>
+    c.json(
+      await admin.listInstances(
+        c.req.param("sagaName"),
+        parseSagaInstanceQuery(c.req.query())
+      )
+    )
+  );
+
+  app.get("/sagas/:sagaName/instances/:id", guard("getInstance"), async (c) =>
+    c.json(await admin.getInstance(c.req.param("sagaName"), c.req.param("id")))
+  );
+
+  app.post(
+    "/sagas/:sagaName/instances/:id/complete",
+    guard("completeInstance"),
+    async (c) =>
+      c.json(
+        await admin.completeInstance(c.req.param("sagaName"), c.req.param("id"))
+      )
+  );
+
+  app.delete(
+    "/sagas/:sagaName/instances/:id",
+    guard("deleteInstance"),
+    async (c) => {
+      await admin.deleteInstance(c.req.param("sagaName"), c.req.param("id"));
+      return c.body(null, 204);
+    }
+  );
+
+  app.post(
+    "/sagas/:sagaName/instances/:id/timeout",
+    guard("fireTimeout"),
+    async (c) => {
+      const message = await admin.fireTimeout(
+        c.req.param("sagaName"),
+        c.req.param("id")
+      );
+      return c.json({ message }, 202);
+    }
+  );
+
+  return app;
+}
@@ -1,8 +1,10 @@
 export { sagaBusMiddleware, sagaErrorHandler } from "./middleware.js";
 export { createHealthHandler, createReadinessHandler } from "./health.js";
+export { createSagaAdminApp } from "./admin.js";
 export type {
   SagaBusEnv,
   SagaBusHonoOptions,
   HealthCheckOptions,
   HealthStatus,
+  SagaBusAdminOptions,
 } from "./types.js";
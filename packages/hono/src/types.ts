@@ -1,5 +1,5 @@
-import type { Bus } from "@saga-bus/core";
-import type { Env } from "hono";
+import type { Bus, SagaAdminAction } from "@saga-bus/core";
+import type { Context, Env } from "hono";
 
 export interface SagaBusEnv extends Env {
   Variables: {
@@ -41,3 +41,14 @@ export interface HealthStatus {
     message?: string;
   }>;
 }
+
+export interface SagaBusAdminOptions {
+  /** The bus whose sagas are administered */
+  bus: Bus;
+
+  /**
+   * Decide whether a request may perform an admin action.
+   * Denied requests get a 403. All requests are allowed when omitted.
+   */
+  authorize?: (c: Context, action: SagaAdminAction) => boolean | Promise<boolean>;
+}
@@ -2,7 +2,13 @@ import "reflect-metadata";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Test, type TestingModule } from "@nestjs/testing";
 import { Injectable, Module } from "@nestjs/common";
-import type { Transport, SagaStore, SagaState } from "@saga-bus/core";
+import type {
+  Bus,
+  Transport,
+  SagaStore,
+  SagaState,
+  SagaCompletedEvent,
+} from "@saga-bus/core";
 import { SagaBusModule } from "../src/SagaBusModule.js";
 import { SagaBusService } from "../src/SagaBusService.js";
 import {
@@ -11,6 +17,10 @@ import {
   type MessageHandlerMetadata,
 } from "../src/decorators/MessageHandler.decorator.js";
 import { InjectSagaBus } from "../src/decorators/InjectSagaBus.decorator.js";
+import {
+  OnSagaEvent,
+  SAGA_EVENT_LISTENER_METADATA,
+} from "../src/decorators/OnSagaEvent.decorator.js";
 
 // Mock transport
 function createMockTransport(): Transport {
@@ -47,6 +57,30 @@ class ChildServiceWithSagaBus {
   constructor(@InjectSagaBus() public sagaBus: SagaBusService) {}
 }
 
+@Injectable()
+class SagaAuditService {
+  readonly completed: SagaCompletedEvent[] = [];
+
+  @OnSagaEvent("sagaCompleted")
+  onSagaCompleted(event: SagaCompletedEvent): void {
+    this.completed.push(event);
+  }
+}
+
+// Mock bus recording its listeners
+function createMockBus() {
+  const listeners = new Map<string, (event: unknown) => void>();
+  const bus = {
+    start: vi.fn().mockResolvedValue(undefined),
+    stop: vi.fn().mockResolvedValue(undefined),
+    on: vi.fn((event: string, listener: (event: unknown) => void) => {
+      listeners.set(event, listener);
+      return () => listeners.delete(event);
+    }),
+  };
+  return { bus: bus as unknown as Bus & typeof bus, listeners };
+}
+
 describe("SagaBusModule", () => {
   let transport: Transport;
   let store: SagaStore<SagaState>;
@@ -368,4 +402,39 @@ describe("SagaBusModule", () => {
       expect(childService.sagaBus).toBeDefined();
     });
   });
+
+  describe("@OnSagaEvent decorator", () => {
+    it("should store metadata on class", () => {
+      expect(Reflect.getMetadata(SAGA_EVENT_LISTENER_METADATA, SagaAuditService)).toEqual([
+        { event: "sagaCompleted", methodName: "onSagaCompleted" },
+      ]);
+    });
+
+    it("should register decorated methods as bus listeners", async () => {
+      const { bus, listeners } = createMockBus();
+      module = await Test.createTestingModule({
+        imports: [SagaBusModule.forRoot({ transport, store, bus })],
+        providers: [SagaAuditService],
+      }).compile();
+      await module.init();
+
+      const event = { sagaName: "OrderSaga", sagaId: "saga-1", status: "completed" };
+      listeners.get("sagaCompleted")?.(event);
+
+      expect(module.get(SagaAuditService).completed).toEqual([event]);
+      expect(bus.start).toHaveBeenCalled();
+      expect(transport.start).not.toHaveBeenCalled();
+    });
+
+    it("should require a bus for saga events", async () => {
+      module = await Test.createTestingModule({
+        imports: [SagaBusModule.forRoot({ transport, store })],
+      }).compile();
+
+      const service = module.get<SagaBusService>(SagaBusService);
+      expect(() => service.on("sagaCreated", () => {})).toThrow(
+        "SagaBusModule has no bus"
+      );
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { Injectable, OnModuleInit } from "@nestjs/common";
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
 import { DiscoveryService } from "@nestjs/core";
 import type { MessageEnvelope } from "@saga-bus/core";
 import {
@@ -13,8 +13,8 @@ import { SagaBusService } from "./SagaBusService.js";
 @Injectable()
 export class MessageExplorer implements OnModuleInit {
   constructor(
-    private readonly discoveryService: DiscoveryService,
-    private readonly sagaBusService: SagaBusService
+    @Inject(DiscoveryService) private readonly discoveryService: DiscoveryService,
+    @Inject(SagaBusService) private readonly sagaBusService: SagaBusService
   ) {}
 
   onModuleInit(): void {
@@ -13,6 +13,7 @@ import type {
 } from "./interfaces/module-options.interface.js";
 import { SagaBusService, SAGA_BUS_OPTIONS } from "./SagaBusService.js";
 import { MessageExplorer } from "./MessageExplorer.js";
+import { SagaEventExplorer } from "./SagaEventExplorer.js";
 import { SAGA_BUS_TOKEN } from "./decorators/InjectSagaBus.decorator.js";
 
 /**
@@ -52,6 +53,7 @@ export class SagaBusModule {
           useExisting: SagaBusService,
         },
         MessageExplorer,
+        SagaEventExplorer,
       ],
       exports: [SagaBusService, SAGA_BUS_TOKEN],
     };
@@ -72,6 +74,7 @@ export class SagaBusModule {
           useExisting: SagaBusService,
         },
         MessageExplorer,
+        SagaEventExplorer,
       ],
       exports: [SagaBusService, SAGA_BUS_TOKEN],
     };
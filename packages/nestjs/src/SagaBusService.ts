@@ -5,12 +5,15 @@ import {
   Inject,
 } from "@nestjs/common";
 import type {
+  Bus,
   Transport,
   SagaStore,
   SagaMiddleware,
   SagaState,
   BaseMessage,
   TransportPublishOptions,
+  SagaBusEventName,
+  SagaBusEventListener,
 } from "@saga-bus/core";
 import type { SagaBusModuleOptions } from "./interfaces/module-options.interface.js";
 
@@ -27,6 +30,7 @@ export class SagaBusService implements OnModuleInit, OnModuleDestroy {
   private readonly transport: Transport;
   private readonly store: SagaStore<SagaState>;
   private readonly middleware: SagaMiddleware[];
+  private readonly bus?: Bus;
   private readonly autoStart: boolean;
   private readonly autoStop: boolean;
 
@@ -34,19 +38,20 @@ export class SagaBusService implements OnModuleInit, OnModuleDestroy {
     this.transport = options.transport;
     this.store = options.store;
     this.middleware = options.middleware ?? [];
+    this.bus = options.bus;
     this.autoStart = options.autoStart ?? true;
     this.autoStop = options.autoStop ?? true;
   }
 
   async onModuleInit(): Promise<void> {
     if (this.autoStart) {
-      await this.transport.start();
+      await (this.bus ?? this.transport).start();
     }
   }
 
   async onModuleDestroy(): Promise<void> {
     if (this.autoStop) {
-      await this.transport.stop();
+      await (this.bus ?? this.transport).stop();
     }
   }
 
@@ -60,6 +65,31 @@ export class SagaBusService implements OnModuleInit, OnModuleDestroy {
     await this.transport.publish(message, options);
   }
 
+  /**
+   * Listen to saga lifecycle and message failure events of the bus.
+   * @returns Function that removes the listener
+   * @throws Error if the module was configured without a bus
+   */
+  on<K extends SagaBusEventName>(
+    event: K,
+    listener: SagaBusEventListener<K>
+  ): () => void {
+    return this.getBus().on(event, listener);
+  }
+
+  /**
+   * Get the bus passed in the module options.
+   * @throws Error if the module was configured without a bus
+   */
+  getBus(): Bus {
+    if (!this.bus) {
+      throw new Error(
+        "SagaBusModule has no bus; pass `bus` in the module options to use saga events"
+      );
+    }
+    return this.bus;
+  }
+
   /**
    * Get the underlying transport.
    */
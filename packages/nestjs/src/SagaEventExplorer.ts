@@ -0,0 +1,58 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import { DiscoveryService } from "@nestjs/core";
+import type { SagaBusEventListener, SagaBusEventName } from "@saga-bus/core";
+import {
+  SAGA_EVENT_LISTENER_METADATA,
+  type SagaEventListenerMetadata,
+} from "./decorators/OnSagaEvent.decorator.js";
+import { SagaBusService } from "./SagaBusService.js";
+
+/**
+ * Discovers and registers bus event listeners marked with @OnSagaEvent.
+ */
+@Injectable()
+export class SagaEventExplorer implements OnModuleInit {
+  // Explicit tokens keep injection working without emitted decorator metadata
+  constructor(
+    @Inject(DiscoveryService) private readonly discoveryService: DiscoveryService,
+    @Inject(SagaBusService) private readonly sagaBusService: SagaBusService
+  ) {}
+
+  onModuleInit(): void {
+    this.exploreEventListeners();
+  }
+
+  private exploreEventListeners(): void {
+    const providers = this.discoveryService.getProviders();
+
+    for (const wrapper of providers) {
+      const { instance, metatype } = wrapper;
+      if (!instance || !metatype) continue;
+
+      const listeners: SagaEventListenerMetadata[] =
+        Reflect.getMetadata(SAGA_EVENT_LISTENER_METADATA, metatype) || [];
+
+      for (const listener of listeners) {
+        this.registerEventListener(listener, instance);
+      }
+    }
+  }
+
+  private registerEventListener(
+    listener: SagaEventListenerMetadata,
+    instance: object
+  ): void {
+    const method = (
+      instance as Record<string | symbol, (...args: unknown[]) => unknown>
+    )[listener.methodName];
+
+    if (typeof method !== "function") {
+      return;
+    }
+
+    this.sagaBusService.on(
+      listener.event,
+      method.bind(instance) as SagaBusEventListener<SagaBusEventName>
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import "reflect-metadata";
+import type { SagaBusEventMap, SagaBusEventName } from "@saga-bus/core";
+
+export const SAGA_EVENT_LISTENER_METADATA = "saga-bus:event-listener";
+
+/**
+ * Metadata for a saga event listener.
+ */
+export interface SagaEventListenerMetadata {
+  event: SagaBusEventName;
+  methodName: string | symbol;
+}
+
+/**
+ * Decorator to mark a method as a listener for a bus event
+ * (see `Bus.on()`). Requires `bus` in the module options.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class AuditService {
+ *   @OnSagaEvent("sagaCompleted")
+ *   async onSagaCompleted(event: SagaCompletedEvent): Promise<void> {
+ *     // Record completion
+ *   }
+ * }
+ * ```
+ */
+export function OnSagaEvent<K extends SagaBusEventName>(
+  event: K
+): <T extends (event: SagaBusEventMap[K]) => unknown>(
+  target: object,
+  propertyKey: string | symbol,
+  descriptor: TypedPropertyDescriptor<T>
+) => void {
+  return (target, propertyKey, _descriptor) => {
+    const listeners: SagaEventListenerMetadata[] =
+      Reflect.getMetadata(SAGA_EVENT_LISTENER_METADATA, target.constructor) || [];
+    listeners.push({
+      event,
+      methodName: propertyKey,
+    });
+    Reflect.defineMetadata(
+      SAGA_EVENT_LISTENER_METADATA,
+      listeners,
+      target.constructor
+    );
+  };
+}
@@ -4,3 +4,8 @@ export {
   MESSAGE_HANDLER_METADATA,
   type MessageHandlerMetadata,
 } from "./MessageHandler.decorator.js";
+export {
+  OnSagaEvent,
+  SAGA_EVENT_LISTENER_METADATA,
+  type SagaEventListenerMetadata,
+} from "./OnSagaEvent.decorator.js";
@@ -3,11 +3,17 @@ import "reflect-metadata";
 export { SagaBusModule } from "./SagaBusModule.js";
 export { SagaBusService } from "./SagaBusService.js";
 export { MessageExplorer } from "./MessageExplorer.js";
+export { SagaEventExplorer } from "./SagaEventExplorer.js";
 export {
   MessageHandler,
   MESSAGE_HANDLER_METADATA,
   type MessageHandlerMetadata,
 } from "./decorators/MessageHandler.decorator.js";
+export {
+  OnSagaEvent,
+  SAGA_EVENT_LISTENER_METADATA,
+  type SagaEventListenerMetadata,
+} from "./decorators/OnSagaEvent.decorator.js";
 export {
   InjectSagaBus,
   SAGA_BUS_TOKEN,
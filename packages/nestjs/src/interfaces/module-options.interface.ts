@@ -1,5 +1,11 @@
 import type { ModuleMetadata, Type, InjectionToken } from "@nestjs/common";
-import type { Transport, SagaStore, SagaMiddleware, SagaState } from "@saga-bus/core";
+import type {
+  Bus,
+  Transport,
+  SagaStore,
+  SagaMiddleware,
+  SagaState,
+} from "@saga-bus/core";
 
 /**
  * Options for configuring the SagaBusModule.
@@ -20,6 +26,13 @@ export interface SagaBusModuleOptions {
    */
   middleware?: SagaMiddleware[];
 
+  /**
+   * Bus running your sagas. Enables `SagaBusService.on()` and methods
+   * decorated with `@OnSagaEvent()`. When set, autoStart and autoStop
+   * start and stop the bus instead of the transport.
+   */
+  bus?: Bus;
+
   /**
    * Whether to automatically start the transport.
    * @default true
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { MessageCodec, type MessageEnvelope } from "@saga-bus/core";
+import { MsgPackSerializer, MSGPACK_CONTENT_TYPE } from "../src/index.js";
+
+const createEnvelope = (
+  payload: Record<string, unknown> = {}
+): MessageEnvelope => ({
+  id: "msg-1",
+  type: "OrderSubmitted",
+  payload: { type: "OrderSubmitted", ...payload },
+  headers: { "x-message-type": "OrderSubmitted" },
+  timestamp: new Date("2024-01-01T00:00:00Z"),
+});
+
+describe("MsgPackSerializer", () => {
+  const serializer = new MsgPackSerializer();
+
+  it("should round-trip Date, BigInt, Map, Set and Buffer values", () => {
+    const envelope = createEnvelope({
+      submittedAt: new Date("2024-01-02T03:04:05.678Z"),
+      amount: 12345678901234567890n,
+      total: 2 ** 40,
+      lines: new Map([
+        ["sku-1", { quantity: 2, addedAt: new Date("2024-01-01T10:00:00Z") }],
+      ]),
+      tags: new Set(["gift", "express"]),
+      signature: Buffer.from("signed"),
+    });
+
+    const result = serializer.deserialize(serializer.serialize(envelope));
+
+    expect(result).toEqual(envelope);
+    const payload = result.payload as unknown as Record<string, unknown>;
+    expect(payload.lines).toBeInstanceOf(Map);
+    expect(payload.total).toBe(2 ** 40);
+  });
+
+  it("should reject bodies that are not envelopes", () => {
+    expect(() =>
+      serializer.deserialize(Buffer.from(JSON.stringify({ id: "x" })))
+    ).toThrow();
+  });
+
+  it("should be picked by content type through a message codec", () => {
+    const codec = new MessageCodec({ serializers: [serializer] });
+    const envelope = createEnvelope({ at: new Date("2024-01-02Z") });
+
+    const text = new MessageCodec({ serializer }).encodeText(envelope);
+
+    expect(codec.decodeText(text, MSGPACK_CONTENT_TYPE)).toEqual(envelope);
+  });
+});
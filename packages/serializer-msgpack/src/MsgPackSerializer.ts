@@ -0,0 +1,94 @@
+import { Packr, addExtension } from "msgpackr";
+import type { MessageEnvelope, Serializer } from "@saga-bus/core";
+
+/** Content type of {@link MsgPackSerializer} */
+export const MSGPACK_CONTENT_TYPE = "application/msgpack";
+
+/** MessagePack extension type used for Maps */
+const MAP_EXTENSION_TYPE = 0x4d;
+
+/**
+ * msgpackr always writes Maps as plain MessagePack maps, which come back as
+ * objects. Maps are swapped for this wrapper before packing so they can be
+ * written with an extension type instead.
+ */
+class PackedMap {
+  constructor(readonly entries: Array<[unknown, unknown]>) {}
+}
+
+addExtension({
+  Class: PackedMap,
+  type: MAP_EXTENSION_TYPE,
+  write: (map: PackedMap) => map.entries,
+  read: (entries: Array<[unknown, unknown]>) => new Map(entries),
+});
+
+/**
+ * MessagePack serializer backed by msgpackr.
+ *
+ * Bodies are smaller and faster to parse than JSON, and Date, BigInt, Map,
+ * Set and Buffer values survive the round trip. Transports that only carry
+ * strings (SQS, Redis) base64-encode the body.
+ *
+ * @example
+ * ```typescript
+ * const transport = new KafkaTransport({
+ *   kafka,
+ *   serializer: new MsgPackSerializer(),
+ * });
+ * ```
+ */
+export class MsgPackSerializer implements Serializer {
+  readonly contentType = MSGPACK_CONTENT_TYPE;
+  readonly binary = true;
+  private readonly packr = new Packr({
+    useRecords: false,
+    moreTypes: true,
+    int64AsType: "bigint",
+    useBigIntExtension: true,
+  });
+
+  serialize(envelope: MessageEnvelope): Buffer {
+    return this.packr.pack(wrapMaps(envelope));
+  }
+
+  deserialize(data: Buffer): MessageEnvelope {
+    const envelope: unknown = this.packr.unpack(data);
+    if (
+      typeof envelope !== "object" ||
+      envelope === null ||
+      !(envelope as Partial<MessageEnvelope>).id ||
+      !(envelope as Partial<MessageEnvelope>).type
+    ) {
+      throw new Error("Message body is not a MessagePack envelope");
+    }
+    return envelope as MessageEnvelope;
+  }
+}
+
+function wrapMaps(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (value instanceof Map) {
+    return new PackedMap(
+      Array.from(value, ([key, item]) => [wrapMaps(key), wrapMaps(item)])
+    );
+  }
+  if (value instanceof Set) {
+    return new Set(Array.from(value, wrapMaps));
+  }
+  if (Array.isArray(value)) {
+    return value.map(wrapMaps);
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) {
+    // Dates, Buffers and class instances are left to msgpackr
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = wrapMaps(item);
+  }
+  return result;
+}
@@ -0,0 +1,4 @@
+export {
+  MsgPackSerializer,
+  MSGPACK_CONTENT_TYPE,
+} from "./MsgPackSerializer.js";
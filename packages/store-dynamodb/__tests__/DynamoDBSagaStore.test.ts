@@ -214,6 +214,42 @@ describe("DynamoDBSagaStore", () => {
     });
   });
 
+  describe("findSagas", () => {
+    it("should page through sagas in creation order", async () => {
+      for (let i = 0; i < 3; i++) {
+        const createdAt = new Date(Date.UTC(2024, 0, i + 1));
+        await store.insert(
+          sagaName,
+          `corr-${i}`,
+          createTestState(`saga-${i}`, {
+            metadata: {
+              sagaId: `saga-${i}`,
+              version: 0,
+              createdAt,
+              updatedAt: createdAt,
+              isCompleted: i === 0,
+            },
+          })
+        );
+      }
+
+      const first = await store.findSagas(sagaName, { limit: 2 });
+      expect(first.items.map((s) => s.metadata.sagaId)).toEqual([
+        "saga-2",
+        "saga-1",
+      ]);
+
+      const second = await store.findSagas(sagaName, {
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((s) => s.metadata.sagaId)).toEqual(["saga-0"]);
+      expect(second.nextCursor).toBeNull();
+
+      expect(await store.countSagas(sagaName, { completed: false })).toBe(2);
+    });
+  });
+
   describe("deleteCompletedBefore", () => {
     it("should delete completed sagas older than date", async () => {
       const oldDate = new Date(Date.now() - 86400000); // 1 day ago
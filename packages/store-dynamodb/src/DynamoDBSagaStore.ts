@@ -6,8 +6,18 @@ import {
   QueryCommand,
 } from "@aws-sdk/lib-dynamodb";
 import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
+import type {
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  applySagaQuery,
+  matchesSagaQueryFilter,
+} from "@saga-bus/core";
 import type { DynamoDBSagaStoreOptions, SagaInstanceItem } from "./types.js";
 
 /**
@@ -26,7 +36,7 @@ import type { DynamoDBSagaStoreOptions, SagaInstanceItem } from "./types.js";
  * ```
  */
 export class DynamoDBSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements SagaQueryableStore<TState>
 {
   private readonly client: DynamoDBDocumentClient;
   private readonly tableName: string;
@@ -303,4 +313,64 @@ export class DynamoDBSagaStore<TState extends SagaState>
 
     return deletedCount;
   }
+
+  /**
+   * Find sagas matching a query with cursor pagination.
+   *
+   * The table is keyed by saga ID, so this reads the whole partition for
+   * the saga type (filtering completion server-side) and sorts in memory.
+   * Intended for admin tooling, not hot paths.
+   */
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    const states = await this.queryPartition(sagaName, query?.completed);
+    return applySagaQuery(states, query);
+  }
+
+  /**
+   * Count sagas matching a filter (reads the partition, see `findSagas`).
+   */
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    const states = await this.queryPartition(sagaName, filter.completed);
+    return states.filter((state) => matchesSagaQueryFilter(state, filter))
+      .length;
+  }
+
+  private async queryPartition(
+    sagaName: string,
+    completed?: boolean
+  ): Promise<TState[]> {
+    const states: TState[] = [];
+    const expressionValues: Record<string, unknown> = { ":pk": sagaName };
+    if (completed !== undefined) {
+      expressionValues[":isCompleted"] = completed;
+    }
+
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+      const result = await this.client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: "PK = :pk",
+          FilterExpression:
+            completed !== undefined ? "isCompleted = :isCompleted" : undefined,
+          ExpressionAttributeValues: expressionValues,
+          ExclusiveStartKey: lastKey,
+        })
+      );
+
+      for (const item of result.Items ?? []) {
+        states.push(this.itemToState(item as SagaInstanceItem));
+      }
+
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return states;
+  }
 }
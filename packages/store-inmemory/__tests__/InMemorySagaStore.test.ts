@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import type { SagaState, SagaStateMetadata } from "@saga-bus/core";
+import type {
+  OutboxMessage,
+  SagaHistoryEntry,
+  ScheduledMessage,
+  SagaState,
+  SagaStateMetadata,
+} from "@saga-bus/core";
 import { ConcurrencyError } from "@saga-bus/core";
 import { InMemorySagaStore } from "../src/InMemorySagaStore.js";
 
@@ -29,6 +35,41 @@ function createTestState(
   };
 }
 
+function createHistoryEntry(
+  id: string,
+  previousState: TestState | null,
+  state: TestState,
+  recordedAt: Date = new Date()
+): SagaHistoryEntry {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId: state.metadata.sagaId,
+    correlationId: "corr-1",
+    messageId: `msg-${id}`,
+    messageType: "OrderUpdated",
+    outcome: previousState ? "updated" : "created",
+    previousVersion: previousState?.metadata.version ?? null,
+    version: state.metadata.version,
+    previousState,
+    state,
+    traceParent: null,
+    recordedAt,
+  };
+}
+
+function createOutboxMessage(id: string, sagaId: string): OutboxMessage {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId,
+    message: { type: "ShipOrder" },
+    options: { endpoint: "ShipOrder" },
+    createdAt: new Date(),
+    attempts: 0,
+  };
+}
+
 describe("InMemorySagaStore", () => {
   let store: InMemorySagaStore<TestState>;
   const sagaName = "TestSaga";
@@ -265,4 +306,233 @@ describe("InMemorySagaStore", () => {
       ]);
     });
   });
+
+  describe("outbox", () => {
+    it("should write outbox messages with the state", async () => {
+      await store.insertWithOutbox(sagaName, "corr-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+      ]);
+
+      expect(await store.getById(sagaName, "saga-1")).not.toBeNull();
+      expect(store.getPendingOutboxMessages().map((m) => m.id)).toEqual(["out-1"]);
+    });
+
+    it("should not write outbox messages when the update conflicts", async () => {
+      await store.insert(sagaName, "corr-1", createTestState("saga-1"));
+
+      const updated = createTestState("saga-1");
+      updated.metadata = { ...updated.metadata, version: 6 };
+
+      await expect(
+        store.updateWithOutbox(sagaName, updated, 5, [
+          createOutboxMessage("out-1", "saga-1"),
+        ])
+      ).rejects.toThrow(ConcurrencyError);
+      expect(store.getPendingOutboxMessages()).toHaveLength(0);
+    });
+
+    it("should hide claimed messages until the lock expires or fails", async () => {
+      await store.insertWithOutbox(sagaName, "corr-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+        createOutboxMessage("out-2", "saga-1"),
+      ]);
+
+      const first = await store.claimOutboxMessages(10, 60000);
+      expect(first.map((m) => m.id)).toEqual(["out-1", "out-2"]);
+      expect(await store.claimOutboxMessages(10, 60000)).toHaveLength(0);
+
+      await store.markOutboxMessageDispatched("out-1");
+      await store.markOutboxMessageFailed("out-2", "broker down");
+
+      const retried = await store.claimOutboxMessages(10, 60000);
+      expect(retried).toHaveLength(1);
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+    });
+
+    it("should delete dispatched messages before a date", async () => {
+      await store.insertWithOutbox(sagaName, "corr-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+        createOutboxMessage("out-2", "saga-1"),
+      ]);
+      await store.markOutboxMessageDispatched("out-1");
+
+      const deleted = await store.deleteDispatchedOutboxMessages(
+        new Date(Date.now() + 1000)
+      );
+
+      expect(deleted).toBe(1);
+      expect(store.getPendingOutboxMessages().map((m) => m.id)).toEqual(["out-2"]);
+    });
+  });
+
+  describe("history", () => {
+    it("should record transitions with the state and outbox messages", async () => {
+      const created = createTestState("saga-1");
+      await store.insertWithHistory(
+        sagaName,
+        "corr-1",
+        created,
+        createHistoryEntry("h-1", null, created),
+        []
+      );
+
+      const updated = createTestState("saga-1", { status: "shipped" });
+      updated.metadata = { ...updated.metadata, version: 1 };
+      await store.updateWithHistory(
+        sagaName,
+        updated,
+        0,
+        createHistoryEntry("h-2", created, updated),
+        [createOutboxMessage("out-1", "saga-1")]
+      );
+
+      const history = await store.getHistory(sagaName, "saga-1");
+      expect(history.map((entry) => entry.id)).toEqual(["h-1", "h-2"]);
+      expect(history[1]?.previousState).toMatchObject({ status: "pending" });
+      expect(history[1]?.state).toMatchObject({ status: "shipped" });
+      expect(store.getPendingOutboxMessages().map((m) => m.id)).toEqual(["out-1"]);
+      expect(await store.getHistory("OtherSaga", "saga-1")).toEqual([]);
+    });
+
+    it("should not record a transition when the update conflicts", async () => {
+      const created = createTestState("saga-1");
+      await store.insert(sagaName, "corr-1", created);
+
+      const updated = createTestState("saga-1");
+      updated.metadata = { ...updated.metadata, version: 6 };
+
+      await expect(
+        store.updateWithHistory(
+          sagaName,
+          updated,
+          5,
+          createHistoryEntry("h-1", created, updated),
+          []
+        )
+      ).rejects.toThrow(ConcurrencyError);
+      expect(await store.getHistory(sagaName, "saga-1")).toEqual([]);
+    });
+
+    it("should delete entries recorded before a date", async () => {
+      const created = createTestState("saga-1");
+      await store.insertWithHistory(
+        sagaName,
+        "corr-1",
+        created,
+        createHistoryEntry("h-1", null, created, new Date("2024-01-01")),
+        []
+      );
+
+      const updated = createTestState("saga-1");
+      updated.metadata = { ...updated.metadata, version: 1 };
+      await store.updateWithHistory(
+        sagaName,
+        updated,
+        0,
+        createHistoryEntry("h-2", created, updated),
+        []
+      );
+
+      expect(await store.deleteHistoryBefore(new Date("2025-01-01"))).toBe(1);
+      const history = await store.getHistory(sagaName, "saga-1");
+      expect(history.map((entry) => entry.id)).toEqual(["h-2"]);
+    });
+  });
+
+  describe("scheduled messages", () => {
+    const createScheduledMessage = (
+      id: string,
+      dueInMs: number
+    ): ScheduledMessage => ({
+      id,
+      message: { type: "SagaTimeoutExpired" },
+      options: { endpoint: "timeouts" },
+      dueAt: new Date(Date.now() + dueInMs),
+      createdAt: new Date(),
+      attempts: 0,
+    });
+
+    it("should claim only due messages, oldest first", async () => {
+      await store.insertScheduledMessage(createScheduledMessage("later", 60000));
+      await store.insertScheduledMessage(createScheduledMessage("due-2", -1000));
+      await store.insertScheduledMessage(createScheduledMessage("due-1", -2000));
+
+      const claimed = await store.claimDueScheduledMessages(10, 60000);
+
+      expect(claimed.map((m) => m.id)).toEqual(["due-1", "due-2"]);
+      expect(await store.claimDueScheduledMessages(10, 60000)).toHaveLength(0);
+    });
+
+    it("should release failed messages and remove published ones", async () => {
+      await store.insertScheduledMessage(createScheduledMessage("due-1", -1000));
+      await store.insertScheduledMessage(createScheduledMessage("due-2", -1000));
+      await store.claimDueScheduledMessages(10, 60000);
+
+      await store.deleteScheduledMessage("due-1");
+      await store.markScheduledMessageFailed("due-2", "broker down");
+
+      const retried = await store.claimDueScheduledMessages(10, 60000);
+      expect(retried.map((m) => m.id)).toEqual(["due-2"]);
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+      expect(store.getScheduledMessages()).toHaveLength(1);
+    });
+  });
+
+  describe("queries", () => {
+    const at = (day: number) => new Date(Date.UTC(2024, 0, day));
+
+    beforeEach(async () => {
+      for (const [id, day, isCompleted] of [
+        ["saga-1", 1, true],
+        ["saga-2", 2, false],
+        ["saga-3", 3, false],
+      ] as const) {
+        await store.insert(
+          sagaName,
+          `corr-${id}`,
+          createTestState(id, {
+            metadata: {
+              sagaId: id,
+              version: 0,
+              createdAt: at(day),
+              updatedAt: at(day),
+              isCompleted,
+            },
+          })
+        );
+      }
+      await store.insert("OtherSaga", "corr-x", createTestState("saga-x"));
+    });
+
+    it("should page through sagas of one name", async () => {
+      const first = await store.findSagas(sagaName, { limit: 2 });
+      expect(first.items.map((s) => s.metadata.sagaId)).toEqual([
+        "saga-3",
+        "saga-2",
+      ]);
+
+      const second = await store.findSagas(sagaName, {
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((s) => s.metadata.sagaId)).toEqual(["saga-1"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should count with filters", async () => {
+      expect(await store.countSagas(sagaName)).toBe(3);
+      expect(await store.countSagas(sagaName, { completed: false })).toBe(2);
+      expect(
+        await store.countSagas(sagaName, { createdAt: { from: at(2) } })
+      ).toBe(2);
+    });
+
+    it("should delete completed sagas before a date", async () => {
+      expect(await store.deleteCompletedBefore(sagaName, at(10))).toBe(1);
+      expect(await store.countSagas(sagaName)).toBe(2);
+      expect(await store.countSagas("OtherSaga")).toBe(1);
+    });
+  });
 });
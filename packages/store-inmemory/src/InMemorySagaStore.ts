@@ -1,12 +1,43 @@
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
+import type {
+  SagaOutboxStore,
+  SagaHistoryStore,
+  SagaHistoryEntry,
+  SagaQueryableStore,
+  ScheduledMessageStore,
+  ScheduledMessage,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  OutboxMessage,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  applySagaQuery,
+  matchesSagaQueryFilter,
+} from "@saga-bus/core";
+
+interface StoredOutboxMessage {
+  message: OutboxMessage;
+  lockedUntil: number;
+  dispatchedAt: Date | null;
+}
+
+interface StoredScheduledMessage {
+  message: ScheduledMessage;
+  lockedUntil: number;
+}
 
 /**
  * In-memory saga store implementation for testing and development.
  * Uses Maps for O(1) lookups by both sagaId and correlationId.
  */
 export class InMemorySagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements
+    SagaOutboxStore<TState>,
+    SagaHistoryStore<TState>,
+    SagaQueryableStore<TState>,
+    ScheduledMessageStore
 {
   /** Primary store: sagaName:sagaId -> state */
   private readonly store = new Map<string, TState>();
@@ -14,6 +45,15 @@ export class InMemorySagaStore<TState extends SagaState>
   /** Correlation index: "sagaName:correlationId" -> sagaId */
   private readonly correlationIndex = new Map<string, string>();
 
+  /** Outbox: message id -> entry (insertion ordered) */
+  private readonly outbox = new Map<string, StoredOutboxMessage>();
+
+  /** Scheduled messages: message id -> entry */
+  private readonly scheduled = new Map<string, StoredScheduledMessage>();
+
+  /** History: "sagaName:sagaId" -> entries, oldest first */
+  private readonly history = new Map<string, SagaHistoryEntry[]>();
+
   /**
    * Build the correlation index key.
    */
@@ -102,6 +142,245 @@ export class InMemorySagaStore<TState extends SagaState>
     this.store.delete(storeKey);
   }
 
+  // ============ Outbox ============
+
+  async insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.insert(sagaName, correlationId, state);
+    this.addToOutbox(messages);
+  }
+
+  async updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.update(sagaName, state, expectedVersion);
+    this.addToOutbox(messages);
+  }
+
+  async claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]> {
+    const now = Date.now();
+    const claimed: OutboxMessage[] = [];
+
+    for (const entry of this.outbox.values()) {
+      if (claimed.length >= limit) break;
+      if (entry.dispatchedAt || entry.lockedUntil > now) continue;
+
+      entry.lockedUntil = now + lockDurationMs;
+      claimed.push(entry.message);
+    }
+
+    return claimed;
+  }
+
+  async markOutboxMessageDispatched(id: string): Promise<void> {
+    const entry = this.outbox.get(id);
+    if (entry) {
+      entry.dispatchedAt = new Date();
+    }
+  }
+
+  async markOutboxMessageFailed(id: string, error: string): Promise<void> {
+    const entry = this.outbox.get(id);
+    if (entry) {
+      entry.message = {
+        ...entry.message,
+        attempts: entry.message.attempts + 1,
+        lastError: error,
+      };
+      entry.lockedUntil = 0;
+    }
+  }
+
+  async deleteDispatchedOutboxMessages(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, entry] of this.outbox) {
+      if (entry.dispatchedAt && entry.dispatchedAt < before) {
+        this.outbox.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private addToOutbox(messages: ReadonlyArray<OutboxMessage>): void {
+    for (const message of messages) {
+      this.outbox.set(message.id, {
+        message,
+        lockedUntil: 0,
+        dispatchedAt: null,
+      });
+    }
+  }
+
+  // ============ History ============
+
+  async insertWithHistory(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.insert(sagaName, correlationId, state);
+    this.addToHistory(entry);
+    this.addToOutbox(outbox);
+  }
+
+  async updateWithHistory(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.update(sagaName, state, expectedVersion);
+    this.addToHistory(entry);
+    this.addToOutbox(outbox);
+  }
+
+  async getHistory(sagaName: string, sagaId: string): Promise<SagaHistoryEntry[]> {
+    const entries = this.history.get(this.getStoreKey(sagaName, sagaId)) ?? [];
+    return entries.map((entry) => this.cloneHistoryEntry(entry));
+  }
+
+  async deleteHistoryBefore(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, entries] of this.history) {
+      const kept = entries.filter((entry) => entry.recordedAt >= before);
+      deleted += entries.length - kept.length;
+      if (kept.length > 0) {
+        this.history.set(key, kept);
+      } else {
+        this.history.delete(key);
+      }
+    }
+    return deleted;
+  }
+
+  private addToHistory(entry: SagaHistoryEntry): void {
+    const key = this.getStoreKey(entry.sagaName, entry.sagaId);
+    const entries = this.history.get(key) ?? [];
+    entries.push(this.cloneHistoryEntry(entry));
+    this.history.set(key, entries);
+  }
+
+  /**
+   * Clone the recorded states, which the caller keeps using.
+   */
+  private cloneHistoryEntry(entry: SagaHistoryEntry): SagaHistoryEntry {
+    return {
+      ...entry,
+      previousState: entry.previousState
+        ? (JSON.parse(JSON.stringify(entry.previousState)) as SagaState)
+        : null,
+      state: JSON.parse(JSON.stringify(entry.state)) as SagaState,
+    };
+  }
+
+  // ============ Scheduled Messages ============
+
+  async insertScheduledMessage(message: ScheduledMessage): Promise<void> {
+    this.scheduled.set(message.id, { message, lockedUntil: 0 });
+  }
+
+  async claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]> {
+    const now = Date.now();
+
+    const due = Array.from(this.scheduled.values())
+      .filter(
+        (entry) =>
+          entry.message.dueAt.getTime() <= now && entry.lockedUntil <= now
+      )
+      .sort((a, b) => a.message.dueAt.getTime() - b.message.dueAt.getTime())
+      .slice(0, limit);
+
+    for (const entry of due) {
+      entry.lockedUntil = now + lockDurationMs;
+    }
+
+    return due.map((entry) => entry.message);
+  }
+
+  async deleteScheduledMessage(id: string): Promise<void> {
+    this.scheduled.delete(id);
+  }
+
+  async markScheduledMessageFailed(id: string, error: string): Promise<void> {
+    const entry = this.scheduled.get(id);
+    if (entry) {
+      entry.message = {
+        ...entry.message,
+        attempts: entry.message.attempts + 1,
+        lastError: error,
+      };
+      entry.lockedUntil = 0;
+    }
+  }
+
+  // ============ Query Helpers ============
+
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    const result = applySagaQuery(this.statesFor(sagaName), query);
+    return {
+      items: result.items.map((state) => this.clone(state)),
+      nextCursor: result.nextCursor,
+    };
+  }
+
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    return this.statesFor(sagaName).filter((state) =>
+      matchesSagaQueryFilter(state, filter)
+    ).length;
+  }
+
+  async deleteCompletedBefore(
+    sagaName: string,
+    before: Date
+  ): Promise<number> {
+    const expired = this.statesFor(sagaName).filter(
+      (state) =>
+        state.metadata.isCompleted &&
+        new Date(state.metadata.updatedAt).getTime() < before.getTime()
+    );
+
+    for (const state of expired) {
+      await this.delete(sagaName, state.metadata.sagaId);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Stored states for one saga name (not cloned).
+   */
+  private statesFor(sagaName: string): TState[] {
+    return Array.from(this.store.entries())
+      .filter(
+        ([key, state]) =>
+          key === this.getStoreKey(sagaName, state.metadata.sagaId)
+      )
+      .map(([, state]) => state);
+  }
+
   /**
    * Deep clone a state object to prevent external mutations.
    */
@@ -124,6 +403,25 @@ export class InMemorySagaStore<TState extends SagaState>
   clear(): void {
     this.store.clear();
     this.correlationIndex.clear();
+    this.outbox.clear();
+    this.scheduled.clear();
+    this.history.clear();
+  }
+
+  /**
+   * Get outbox messages that have not been dispatched yet (for testing/debugging).
+   */
+  getPendingOutboxMessages(): OutboxMessage[] {
+    return Array.from(this.outbox.values())
+      .filter((entry) => !entry.dispatchedAt)
+      .map((entry) => entry.message);
+  }
+
+  /**
+   * Get messages waiting in the scheduler (for testing/debugging).
+   */
+  getScheduledMessages(): ScheduledMessage[] {
+    return Array.from(this.scheduled.values()).map((entry) => entry.message);
   }
 
   /**
@@ -4,7 +4,12 @@ import {
   MongoDBContainer,
   StartedMongoDBContainer,
 } from "@testcontainers/mongodb";
-import type { SagaState, SagaStateMetadata } from "@saga-bus/core";
+import type {
+  OutboxMessage,
+  SagaHistoryEntry,
+  SagaState,
+  SagaStateMetadata,
+} from "@saga-bus/core";
 import { ConcurrencyError } from "@saga-bus/core";
 import { MongoSagaStore } from "../src/MongoSagaStore.js";
 
@@ -33,6 +38,41 @@ function createTestState(
   };
 }
 
+function createOutboxMessage(id: string, sagaId: string): OutboxMessage {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId,
+    message: { type: "OrderShipped" },
+    options: { endpoint: "OrderShipped" },
+    createdAt: new Date(),
+    attempts: 0,
+  };
+}
+
+function createHistoryEntry(
+  id: string,
+  previousState: TestState | null,
+  state: TestState,
+  recordedAt: Date = new Date()
+): SagaHistoryEntry {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId: state.metadata.sagaId,
+    correlationId: "corr-1",
+    messageId: `msg-${id}`,
+    messageType: "OrderUpdated",
+    outcome: previousState ? "updated" : "created",
+    previousVersion: previousState?.metadata.version ?? null,
+    version: state.metadata.version,
+    previousState,
+    state,
+    traceParent: null,
+    recordedAt,
+  };
+}
+
 describe("MongoSagaStore", () => {
   let container: StartedMongoDBContainer | undefined;
   let client: MongoClient | undefined;
@@ -57,6 +97,9 @@ describe("MongoSagaStore", () => {
   beforeEach(async () => {
     if (!db) throw new Error("DB not initialized");
     await db.collection("saga_instances").deleteMany({});
+    await db.collection("saga_outbox").deleteMany({});
+    await db.collection("saga_scheduled_messages").deleteMany({});
+    await db.collection("saga_history").deleteMany({});
     store = new MongoSagaStore<TestState>({ db });
     await store.ensureIndexes();
   });
@@ -291,4 +334,239 @@ describe("MongoSagaStore", () => {
       expect(paymentSaga).not.toBeNull();
     });
   });
+
+  describe("findSagas", () => {
+    const at = (day: number) => new Date(Date.UTC(2024, 0, day));
+
+    beforeEach(async () => {
+      for (const [id, day, isCompleted] of [
+        ["saga-1", 1, true],
+        ["saga-2", 2, false],
+        ["saga-3", 3, false],
+      ] as const) {
+        await store.insert(
+          sagaName,
+          `corr-${id}`,
+          createTestState(id, {
+            metadata: {
+              sagaId: id,
+              version: 0,
+              createdAt: at(day),
+              updatedAt: at(day),
+              isCompleted,
+              timeoutExpiresAt: day === 2 ? at(5) : null,
+            },
+          })
+        );
+      }
+    });
+
+    it("should page through sagas with a cursor", async () => {
+      const first = await store.findSagas(sagaName, { limit: 2 });
+      expect(first.items.map((s) => s.metadata.sagaId)).toEqual([
+        "saga-3",
+        "saga-2",
+      ]);
+
+      const second = await store.findSagas(sagaName, {
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((s) => s.metadata.sagaId)).toEqual(["saga-1"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should filter by status, dates and timeout", async () => {
+      expect(await store.countSagas(sagaName, { completed: false })).toBe(2);
+      expect(
+        await store.countSagas(sagaName, { updatedAt: { from: at(2) } })
+      ).toBe(2);
+
+      const expiring = await store.findSagas(sagaName, {
+        timeoutExpiresBefore: at(6),
+      });
+      expect(expiring.items.map((s) => s.metadata.sagaId)).toEqual(["saga-2"]);
+    });
+  });
+
+  describe("outbox", () => {
+    let outboxStore: MongoSagaStore<TestState>;
+
+    beforeEach(() => {
+      outboxStore = new MongoSagaStore<TestState>({ db: db!, client });
+    });
+
+    it("should require a client", async () => {
+      await expect(
+        store.insertWithOutbox(sagaName, "corr-1", createTestState("saga-1"), [
+          createOutboxMessage("out-1", "saga-1"),
+        ])
+      ).rejects.toThrow("requires the `client` option");
+    });
+
+    it("should write state and messages in one transaction", async () => {
+      await outboxStore.insertWithOutbox(
+        sagaName,
+        "corr-1",
+        createTestState("saga-1"),
+        [createOutboxMessage("out-1", "saga-1")]
+      );
+
+      expect(await outboxStore.getById(sagaName, "saga-1")).not.toBeNull();
+
+      const claimed = await outboxStore.claimOutboxMessages(10, 30_000);
+      expect(claimed.map((m) => m.id)).toEqual(["out-1"]);
+      expect(await outboxStore.claimOutboxMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should not write messages on version mismatch", async () => {
+      await outboxStore.insert(sagaName, "corr-1", createTestState("saga-1"));
+
+      const state = createTestState("saga-1");
+      const stale = { ...state, metadata: { ...state.metadata, version: 6 } };
+
+      await expect(
+        outboxStore.updateWithOutbox(sagaName, stale, 5, [
+          createOutboxMessage("out-1", "saga-1"),
+        ])
+      ).rejects.toThrow(ConcurrencyError);
+
+      expect(await outboxStore.claimOutboxMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should retry failed messages and clean up dispatched ones", async () => {
+      await outboxStore.insertWithOutbox(
+        sagaName,
+        "corr-1",
+        createTestState("saga-1"),
+        [
+          createOutboxMessage("out-1", "saga-1"),
+          createOutboxMessage("out-2", "saga-1"),
+        ]
+      );
+      await outboxStore.claimOutboxMessages(10, 30_000);
+
+      await outboxStore.markOutboxMessageFailed("out-1", "broker down");
+      await outboxStore.markOutboxMessageDispatched("out-2");
+
+      const retried = await outboxStore.claimOutboxMessages(10, 30_000);
+      expect(retried.map((m) => m.id)).toEqual(["out-1"]);
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+
+      const deleted = await outboxStore.deleteDispatchedOutboxMessages(
+        new Date(Date.now() + 60_000)
+      );
+      expect(deleted).toBe(1);
+    });
+  });
+
+  describe("scheduled messages", () => {
+    it("should claim only due messages, oldest first", async () => {
+      const createdAt = new Date();
+      for (const [id, offsetMs] of [
+        ["later", 60_000],
+        ["due-2", -1_000],
+        ["due-1", -5_000],
+      ] as const) {
+        await store.insertScheduledMessage({
+          id,
+          message: { type: "OrderTimeout" },
+          options: { endpoint: "orders" },
+          dueAt: new Date(Date.now() + offsetMs),
+          createdAt,
+          attempts: 0,
+        });
+      }
+
+      const claimed = await store.claimDueScheduledMessages(10, 30_000);
+      expect(claimed.map((m) => m.id)).toEqual(["due-1", "due-2"]);
+      expect(await store.claimDueScheduledMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should release failed messages and delete published ones", async () => {
+      for (const id of ["s-1", "s-2"]) {
+        await store.insertScheduledMessage({
+          id,
+          message: { type: "OrderTimeout" },
+          options: { endpoint: "orders" },
+          dueAt: new Date(Date.now() - 1_000),
+          createdAt: new Date(),
+          attempts: 0,
+        });
+      }
+      await store.claimDueScheduledMessages(10, 30_000);
+
+      await store.markScheduledMessageFailed("s-1", "broker down");
+      await store.deleteScheduledMessage("s-2");
+
+      const retried = await store.claimDueScheduledMessages(10, 30_000);
+      expect(retried.map((m) => m.id)).toEqual(["s-1"]);
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+    });
+  });
+
+  describe("history", () => {
+    it("should record transitions in order", async () => {
+      const created = createTestState("saga-1");
+      await store.insertWithHistory(
+        sagaName,
+        "corr-1",
+        created,
+        createHistoryEntry("h-1", null, created),
+        []
+      );
+
+      const updated = createTestState("saga-1", { status: "shipped" });
+      updated.metadata = { ...updated.metadata, version: 1 };
+      await store.updateWithHistory(
+        sagaName,
+        updated,
+        0,
+        createHistoryEntry("h-2", created, updated),
+        []
+      );
+
+      const history = await store.getHistory(sagaName, "saga-1");
+      expect(history.map((entry) => entry.id)).toEqual(["h-1", "h-2"]);
+      expect(history[0]?.previousState).toBeNull();
+      expect(history[1]?.state).toMatchObject({ status: "shipped" });
+    });
+
+    it("should not record a transition when the update conflicts", async () => {
+      const historyStore = new MongoSagaStore<TestState>({ db: db!, client });
+      const created = createTestState("saga-1");
+      await historyStore.insert(sagaName, "corr-1", created);
+
+      const stale = createTestState("saga-1");
+      stale.metadata = { ...stale.metadata, version: 6 };
+
+      await expect(
+        historyStore.updateWithHistory(
+          sagaName,
+          stale,
+          5,
+          createHistoryEntry("h-1", created, stale),
+          [createOutboxMessage("out-1", "saga-1")]
+        )
+      ).rejects.toThrow(ConcurrencyError);
+      expect(await historyStore.getHistory(sagaName, "saga-1")).toEqual([]);
+      expect(await historyStore.claimOutboxMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should delete entries recorded before a date", async () => {
+      const created = createTestState("saga-1");
+      await store.insertWithHistory(
+        sagaName,
+        "corr-1",
+        created,
+        createHistoryEntry("h-1", null, created, new Date("2024-01-01")),
+        []
+      );
+
+      expect(await store.deleteHistoryBefore(new Date("2025-01-01"))).toBe(1);
+      expect(await store.getHistory(sagaName, "saga-1")).toEqual([]);
+    });
+  });
 });
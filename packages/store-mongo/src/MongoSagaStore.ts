@@ -1,7 +1,34 @@
-import type { Collection } from "mongodb";
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
-import type { MongoSagaStoreOptions, SagaInstanceDocument } from "./types.js";
+import type {
+  ClientSession,
+  Collection,
+  Filter,
+  MongoClient,
+} from "mongodb";
+import type {
+  SagaOutboxStore,
+  SagaHistoryStore,
+  SagaHistoryEntry,
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  OutboxMessage,
+  ScheduledMessage,
+  ScheduledMessageStore,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  resolveSagaQuery,
+  toSagaQueryResult,
+} from "@saga-bus/core";
+import type {
+  MongoSagaStoreOptions,
+  SagaInstanceDocument,
+  SagaOutboxDocument,
+  SagaHistoryDocument,
+  SagaScheduledMessageDocument,
+} from "./types.js";
 
 /**
  * MongoDB-backed saga store.
@@ -19,14 +46,33 @@ import type { MongoSagaStoreOptions, SagaInstanceDocument } from "./types.js";
  * ```
  */
 export class MongoSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements
+    SagaOutboxStore<TState>,
+    SagaHistoryStore<TState>,
+    SagaQueryableStore<TState>,
+    ScheduledMessageStore
 {
   private readonly collection: Collection<SagaInstanceDocument>;
+  private readonly outboxCollection: Collection<SagaOutboxDocument>;
+  private readonly scheduleCollection: Collection<SagaScheduledMessageDocument>;
+  private readonly historyCollection: Collection<SagaHistoryDocument>;
+  private readonly client: MongoClient | undefined;
 
   constructor(options: MongoSagaStoreOptions) {
     const collectionName = options.collectionName ?? "saga_instances";
     this.collection =
       options.db.collection<SagaInstanceDocument>(collectionName);
+    this.outboxCollection = options.db.collection<SagaOutboxDocument>(
+      options.outboxCollectionName ?? "saga_outbox"
+    );
+    this.scheduleCollection =
+      options.db.collection<SagaScheduledMessageDocument>(
+        options.scheduleCollectionName ?? "saga_scheduled_messages"
+      );
+    this.historyCollection = options.db.collection<SagaHistoryDocument>(
+      options.historyCollectionName ?? "saga_history"
+    );
+    this.client = options.client;
   }
 
   /**
@@ -44,6 +90,12 @@ export class MongoSagaStore<TState extends SagaState>
       updatedAt: 1,
     });
     await this.collection.createIndex({ sagaName: 1, sagaId: 1 });
+    await this.collection.createIndex({ sagaName: 1, createdAt: 1, sagaId: 1 });
+    await this.collection.createIndex({ sagaName: 1, updatedAt: 1, sagaId: 1 });
+    await this.outboxCollection.createIndex({ dispatchedAt: 1, createdAt: 1 });
+    await this.scheduleCollection.createIndex({ dueAt: 1 });
+    await this.historyCollection.createIndex({ sagaName: 1, sagaId: 1, version: 1 });
+    await this.historyCollection.createIndex({ recordedAt: 1 });
   }
 
   private makeId(sagaName: string, sagaId: string): string {
@@ -79,6 +131,15 @@ export class MongoSagaStore<TState extends SagaState>
   }
 
   async insert(sagaName: string, correlationId: string, state: TState): Promise<void> {
+    await this.insertState(sagaName, correlationId, state);
+  }
+
+  private async insertState(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    session?: ClientSession
+  ): Promise<void> {
     const { sagaId, version, isCompleted, createdAt, updatedAt } =
       state.metadata;
 
@@ -94,7 +155,7 @@ export class MongoSagaStore<TState extends SagaState>
       updatedAt,
     };
 
-    await this.collection.insertOne(doc);
+    await this.collection.insertOne(doc, { session });
   }
 
   async update(
@@ -102,6 +163,24 @@ export class MongoSagaStore<TState extends SagaState>
     state: TState,
     expectedVersion: number
   ): Promise<void> {
+    if (!(await this.updateState(sagaName, state, expectedVersion))) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  /**
+   * @returns false if no document matched (missing saga or version mismatch)
+   */
+  private async updateState(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    session?: ClientSession
+  ): Promise<boolean> {
     const { sagaId, version, isCompleted, updatedAt } = state.metadata;
 
     const result = await this.collection.updateOne(
@@ -116,20 +195,27 @@ export class MongoSagaStore<TState extends SagaState>
           state: state as unknown,
           updatedAt,
         },
-      }
+      },
+      { session }
     );
 
-    if (result.matchedCount === 0) {
-      const existing = await this.getById(sagaName, sagaId);
-      if (existing) {
-        throw new ConcurrencyError(
-          sagaId,
-          expectedVersion,
-          existing.metadata.version
-        );
-      } else {
-        throw new Error(`Saga ${sagaId} not found`);
-      }
+    return result.matchedCount > 0;
+  }
+
+  private async throwUpdateConflict(
+    sagaName: string,
+    sagaId: string,
+    expectedVersion: number
+  ): Promise<never> {
+    const existing = await this.getById(sagaName, sagaId);
+    if (existing) {
+      throw new ConcurrencyError(
+        sagaId,
+        expectedVersion,
+        existing.metadata.version
+      );
+    } else {
+      throw new Error(`Saga ${sagaId} not found`);
     }
   }
 
@@ -139,6 +225,341 @@ export class MongoSagaStore<TState extends SagaState>
     });
   }
 
+  // ============ Outbox ============
+
+  async insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.withTransaction(async (session) => {
+      await this.insertState(sagaName, correlationId, state, session);
+      await this.insertOutboxMessages(messages, session);
+    });
+  }
+
+  async updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = await this.withTransaction(async (session) => {
+      if (!(await this.updateState(sagaName, state, expectedVersion, session))) {
+        return false;
+      }
+      await this.insertOutboxMessages(messages, session);
+      return true;
+    });
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + lockDurationMs);
+    const claimed: OutboxMessage[] = [];
+
+    // Claim one document at a time; findOneAndUpdate is atomic per document
+    while (claimed.length < limit) {
+      const doc = await this.outboxCollection.findOneAndUpdate(
+        {
+          dispatchedAt: null,
+          $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+        },
+        { $set: { lockedUntil } },
+        { sort: { createdAt: 1 }, returnDocument: "after" }
+      );
+
+      if (!doc) {
+        break;
+      }
+
+      claimed.push(this.documentToOutboxMessage(doc));
+    }
+
+    return claimed;
+  }
+
+  async markOutboxMessageDispatched(id: string): Promise<void> {
+    await this.outboxCollection.updateOne(
+      { _id: id },
+      { $set: { dispatchedAt: new Date(), lockedUntil: null } }
+    );
+  }
+
+  async markOutboxMessageFailed(id: string, error: string): Promise<void> {
+    await this.outboxCollection.updateOne(
+      { _id: id },
+      {
+        $inc: { attempts: 1 },
+        $set: { lastError: error, lockedUntil: null },
+      }
+    );
+  }
+
+  async deleteDispatchedOutboxMessages(before: Date): Promise<number> {
+    const result = await this.outboxCollection.deleteMany({
+      dispatchedAt: { $ne: null, $lt: before },
+    });
+
+    return result.deletedCount;
+  }
+
+  private async insertOutboxMessages(
+    messages: ReadonlyArray<OutboxMessage>,
+    session?: ClientSession
+  ): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    await this.outboxCollection.insertMany(
+      messages.map((entry) => ({
+        _id: entry.id,
+        sagaName: entry.sagaName,
+        sagaId: entry.sagaId,
+        message: entry.message,
+        options: entry.options,
+        createdAt: entry.createdAt,
+        attempts: 0,
+        lastError: null,
+        lockedUntil: null,
+        dispatchedAt: null,
+      })),
+      { session }
+    );
+  }
+
+  // ============ History ============
+
+  async insertWithHistory(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.withHistoryTransaction(outbox, async (session) => {
+      await this.insertState(sagaName, correlationId, state, session);
+      await this.insertHistoryEntry(entry, session);
+      await this.insertOutboxMessages(outbox, session);
+    });
+  }
+
+  async updateWithHistory(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = await this.withHistoryTransaction(outbox, async (session) => {
+      if (!(await this.updateState(sagaName, state, expectedVersion, session))) {
+        return false;
+      }
+      await this.insertHistoryEntry(entry, session);
+      await this.insertOutboxMessages(outbox, session);
+      return true;
+    });
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async getHistory(sagaName: string, sagaId: string): Promise<SagaHistoryEntry[]> {
+    const docs = await this.historyCollection
+      .find({ sagaName, sagaId })
+      .sort({ version: 1, recordedAt: 1 })
+      .toArray();
+
+    return docs.map((doc) => ({
+      id: doc._id,
+      sagaName: doc.sagaName,
+      sagaId: doc.sagaId,
+      correlationId: doc.correlationId,
+      messageId: doc.messageId,
+      messageType: doc.messageType,
+      outcome: doc.outcome as SagaHistoryEntry["outcome"],
+      previousVersion: doc.previousVersion,
+      version: doc.version,
+      previousState: doc.previousState as SagaHistoryEntry["previousState"],
+      state: doc.state as SagaHistoryEntry["state"],
+      traceParent: doc.traceParent,
+      recordedAt: doc.recordedAt,
+    }));
+  }
+
+  async deleteHistoryBefore(before: Date): Promise<number> {
+    const result = await this.historyCollection.deleteMany({
+      recordedAt: { $lt: before },
+    });
+
+    return result.deletedCount;
+  }
+
+  private async insertHistoryEntry(
+    entry: SagaHistoryEntry,
+    session?: ClientSession
+  ): Promise<void> {
+    await this.historyCollection.insertOne(
+      {
+        _id: entry.id,
+        sagaName: entry.sagaName,
+        sagaId: entry.sagaId,
+        correlationId: entry.correlationId,
+        messageId: entry.messageId,
+        messageType: entry.messageType,
+        outcome: entry.outcome,
+        previousVersion: entry.previousVersion,
+        version: entry.version,
+        previousState: entry.previousState,
+        state: entry.state,
+        traceParent: entry.traceParent,
+        recordedAt: entry.recordedAt,
+      },
+      { session }
+    );
+  }
+
+  /**
+   * History writes use a transaction when a client is configured (or
+   * outbox messages must be written too), and run one after another
+   * otherwise.
+   */
+  private async withHistoryTransaction<T>(
+    outbox: ReadonlyArray<OutboxMessage>,
+    fn: (session?: ClientSession) => Promise<T>
+  ): Promise<T> {
+    if (!this.client && outbox.length === 0) {
+      return fn();
+    }
+    return this.withTransaction(fn);
+  }
+
+  // ============ Scheduled Messages ============
+
+  async insertScheduledMessage(entry: ScheduledMessage): Promise<void> {
+    await this.scheduleCollection.insertOne({
+      _id: entry.id,
+      message: entry.message,
+      options: entry.options,
+      dueAt: entry.dueAt,
+      createdAt: entry.createdAt,
+      attempts: entry.attempts,
+      lastError: entry.lastError ?? null,
+      lockedUntil: null,
+    });
+  }
+
+  async claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + lockDurationMs);
+    const claimed: ScheduledMessage[] = [];
+
+    while (claimed.length < limit) {
+      const doc = await this.scheduleCollection.findOneAndUpdate(
+        {
+          dueAt: { $lte: now },
+          $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+        },
+        { $set: { lockedUntil } },
+        { sort: { dueAt: 1 }, returnDocument: "after" }
+      );
+
+      if (!doc) {
+        break;
+      }
+
+      claimed.push(this.documentToScheduledMessage(doc));
+    }
+
+    return claimed;
+  }
+
+  async deleteScheduledMessage(id: string): Promise<void> {
+    await this.scheduleCollection.deleteOne({ _id: id });
+  }
+
+  async markScheduledMessageFailed(id: string, error: string): Promise<void> {
+    await this.scheduleCollection.updateOne(
+      { _id: id },
+      {
+        $inc: { attempts: 1 },
+        $set: { lastError: error, lockedUntil: null },
+      }
+    );
+  }
+
+  private documentToScheduledMessage(
+    doc: SagaScheduledMessageDocument
+  ): ScheduledMessage {
+    return {
+      id: doc._id,
+      message: doc.message as ScheduledMessage["message"],
+      options: doc.options as ScheduledMessage["options"],
+      dueAt: doc.dueAt,
+      createdAt: doc.createdAt,
+      attempts: doc.attempts,
+      lastError: doc.lastError,
+    };
+  }
+
+  /**
+   * Run a callback inside a multi-document transaction.
+   */
+  private async withTransaction<T>(
+    fn: (session: ClientSession) => Promise<T>
+  ): Promise<T> {
+    if (!this.client) {
+      throw new Error(
+        "MongoSagaStore requires the `client` option to use the outbox"
+      );
+    }
+
+    const session = this.client.startSession();
+    try {
+      let result: T | undefined;
+      await session.withTransaction(async () => {
+        result = await fn(session);
+      });
+      return result as T;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  private documentToOutboxMessage(doc: SagaOutboxDocument): OutboxMessage {
+    return {
+      id: doc._id,
+      sagaName: doc.sagaName,
+      sagaId: doc.sagaId,
+      message: doc.message as OutboxMessage["message"],
+      options: doc.options as OutboxMessage["options"],
+      createdAt: doc.createdAt,
+      attempts: doc.attempts,
+      lastError: doc.lastError,
+    };
+  }
+
   private documentToState(doc: SagaInstanceDocument): TState {
     const state = doc.state as TState;
 
@@ -212,4 +633,80 @@ export class MongoSagaStore<TState extends SagaState>
 
     return result.deletedCount;
   }
+
+  /**
+   * Find sagas matching a query with cursor pagination.
+   */
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    const resolved = resolveSagaQuery(query);
+    const filter = this.buildFilter(sagaName, resolved.filter);
+
+    const field = resolved.sortBy;
+    const direction = resolved.sortOrder === "asc" ? 1 : -1;
+
+    if (resolved.after) {
+      const op = resolved.sortOrder === "asc" ? "$gt" : "$lt";
+      filter.$or = [
+        { [field]: { [op]: resolved.after.value } },
+        { [field]: resolved.after.value, sagaId: { [op]: resolved.after.sagaId } },
+      ];
+    }
+
+    const docs = await this.collection
+      .find(filter)
+      .sort({ [field]: direction, sagaId: direction })
+      .limit(resolved.limit + 1)
+      .toArray();
+
+    return toSagaQueryResult(
+      docs.map((doc) => this.documentToState(doc)),
+      resolved
+    );
+  }
+
+  /**
+   * Count sagas matching a filter.
+   */
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    return this.collection.countDocuments(this.buildFilter(sagaName, filter));
+  }
+
+  private buildFilter(
+    sagaName: string,
+    filter: SagaQueryFilter
+  ): Filter<SagaInstanceDocument> {
+    const query: Filter<SagaInstanceDocument> = { sagaName };
+
+    if (filter.completed !== undefined) {
+      query.isCompleted = filter.completed;
+    }
+
+    for (const field of ["createdAt", "updatedAt"] as const) {
+      const range = filter[field];
+      if (range?.from || range?.to) {
+        query[field] = {
+          ...(range.from ? { $gte: range.from } : {}),
+          ...(range.to ? { $lt: range.to } : {}),
+        };
+      }
+    }
+
+    if (filter.timeoutExpiresBefore) {
+      query["state.metadata.timeoutExpiresAt"] = {
+        $lt: filter.timeoutExpiresBefore,
+      };
+    }
+
+    if (filter.parentSagaId !== undefined) {
+      query["state.metadata.parent.sagaId"] = filter.parentSagaId;
+    }
+
+    return query;
+  }
 }
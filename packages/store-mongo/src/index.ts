@@ -1,2 +1,7 @@
 export { MongoSagaStore } from "./MongoSagaStore.js";
-export type { MongoSagaStoreOptions, SagaInstanceDocument } from "./types.js";
+export type {
+  MongoSagaStoreOptions,
+  SagaInstanceDocument,
+  SagaOutboxDocument,
+  SagaScheduledMessageDocument,
+} from "./types.js";
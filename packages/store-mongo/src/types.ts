@@ -1,4 +1,4 @@
-import type { Db } from "mongodb";
+import type { Db, MongoClient } from "mongodb";
 
 /**
  * MongoDB saga store configuration options.
@@ -14,6 +14,32 @@ export interface MongoSagaStoreOptions {
    * @default "saga_instances"
    */
   collectionName?: string;
+
+  /**
+   * Client owning `db`. Required for the transactional outbox, which
+   * writes the saga and its messages in a multi-document transaction
+   * (replica set or sharded cluster only). Without it, saga history
+   * entries are written right after the state instead of atomically.
+   */
+  client?: MongoClient;
+
+  /**
+   * Collection name for outbox messages.
+   * @default "saga_outbox"
+   */
+  outboxCollectionName?: string;
+
+  /**
+   * Collection name for scheduled messages.
+   * @default "saga_scheduled_messages"
+   */
+  scheduleCollectionName?: string;
+
+  /**
+   * Collection name for saga history.
+   * @default "saga_history"
+   */
+  historyCollectionName?: string;
 }
 
 /**
@@ -30,3 +56,52 @@ export interface SagaInstanceDocument {
   createdAt: Date;
   updatedAt: Date;
 }
+
+/**
+ * Shape of an outbox message document in MongoDB.
+ */
+export interface SagaOutboxDocument {
+  _id: string;
+  sagaName: string;
+  sagaId: string;
+  message: unknown;
+  options: unknown;
+  createdAt: Date;
+  attempts: number;
+  lastError: string | null;
+  lockedUntil: Date | null;
+  dispatchedAt: Date | null;
+}
+
+/**
+ * Shape of a saga history document in MongoDB.
+ */
+export interface SagaHistoryDocument {
+  _id: string;
+  sagaName: string;
+  sagaId: string;
+  correlationId: string;
+  messageId: string;
+  messageType: string;
+  outcome: string;
+  previousVersion: number | null;
+  version: number;
+  previousState: unknown;
+  state: unknown;
+  traceParent: string | null;
+  recordedAt: Date;
+}
+
+/**
+ * Shape of a scheduled message document in MongoDB.
+ */
+export interface SagaScheduledMessageDocument {
+  _id: string;
+  message: unknown;
+  options: unknown;
+  dueAt: Date;
+  createdAt: Date;
+  attempts: number;
+  lastError: string | null;
+  lockedUntil: Date | null;
+}
@@ -1,11 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import type { SagaState } from "@saga-bus/core";
+import type { OutboxMessage, SagaState } from "@saga-bus/core";
 import { ConcurrencyError } from "@saga-bus/core";
 
 // Mock mysql2/promise
+const mockConnection = {
+  query: vi.fn(),
+  beginTransaction: vi.fn(),
+  commit: vi.fn(),
+  rollback: vi.fn(),
+  release: vi.fn(),
+};
+
 const mockPool = {
   query: vi.fn(),
   end: vi.fn(),
+  getConnection: vi.fn(async () => mockConnection),
 };
 
 vi.mock("mysql2/promise", () => ({
@@ -48,6 +57,7 @@ describe("MySqlSagaStore", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockPool.query.mockReset();
+    mockConnection.query.mockReset();
   });
 
   describe("constructor", () => {
@@ -449,6 +459,100 @@ describe("MySqlSagaStore", () => {
     });
   });
 
+  describe("findSagas", () => {
+    const row = (sagaId: string, createdAt: Date) => {
+      const state = createState();
+      return {
+        id: sagaId,
+        saga_name: "OrderSaga",
+        correlation_id: `order-${sagaId}`,
+        version: 1,
+        is_completed: 0,
+        state: JSON.stringify({
+          ...state,
+          metadata: { ...state.metadata, sagaId, createdAt },
+        }),
+        created_at: createdAt,
+        updated_at: createdAt,
+      };
+    };
+
+    beforeEach(async () => {
+      store = new MySqlSagaStore({
+        pool: { host: "localhost", database: "test" },
+      });
+      await store.initialize();
+    });
+
+    it("should fetch one extra row to detect the next page", async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          row("saga-3", new Date("2024-01-03T00:00:00Z")),
+          row("saga-2", new Date("2024-01-02T00:00:00Z")),
+        ],
+        [],
+      ]);
+
+      const result = await store.findSagas("OrderSaga", { limit: 1 });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("ORDER BY created_at DESC, id DESC"),
+        ["OrderSaga", 2]
+      );
+      expect(result.items.map((s) => s.metadata.sagaId)).toEqual(["saga-3"]);
+      expect(result.nextCursor).not.toBeNull();
+    });
+
+    it("should apply filters and the cursor", async () => {
+      mockPool.query.mockResolvedValueOnce([
+        [
+          row("saga-3", new Date("2024-01-03T00:00:00Z")),
+          row("saga-2", new Date("2024-01-02T00:00:00Z")),
+        ],
+        [],
+      ]);
+      const first = await store.findSagas("OrderSaga", { limit: 1 });
+
+      mockPool.query.mockResolvedValueOnce([[], []]);
+      const timeoutBefore = new Date("2024-02-01T00:00:00Z");
+      await store.findSagas("OrderSaga", {
+        completed: false,
+        timeoutExpiresBefore: timeoutBefore,
+        limit: 1,
+        cursor: first.nextCursor,
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[1]!;
+      expect(sql).toContain("is_completed = ?");
+      expect(sql).toContain("$.metadata.timeoutExpiresAt");
+      expect(sql).toContain("(created_at < ? OR (created_at = ? AND id < ?))");
+      expect(params).toEqual([
+        "OrderSaga",
+        0,
+        timeoutBefore.toISOString(),
+        new Date("2024-01-03T00:00:00Z"),
+        new Date("2024-01-03T00:00:00Z"),
+        "saga-3",
+        2,
+      ]);
+    });
+
+    it("should count with date ranges", async () => {
+      mockPool.query.mockResolvedValue([[{ count: 4 }], []]);
+      const from = new Date("2024-01-01T00:00:00Z");
+
+      const count = await store.countSagas("OrderSaga", {
+        updatedAt: { from },
+      });
+
+      expect(count).toBe(4);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("updated_at >= ?"),
+        ["OrderSaga", from]
+      );
+    });
+  });
+
   describe("table name handling", () => {
     it("should use saga_instances by default", async () => {
       store = new MySqlSagaStore({
@@ -557,4 +661,161 @@ describe("MySqlSagaStore", () => {
       );
     });
   });
+
+  describe("outbox", () => {
+    const outboxMessage: OutboxMessage = {
+      id: "out-1",
+      sagaName: "OrderSaga",
+      sagaId: "saga-123",
+      message: { type: "OrderShipped" },
+      options: { endpoint: "OrderShipped" },
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      attempts: 0,
+    };
+
+    beforeEach(async () => {
+      store = new MySqlSagaStore({
+        pool: { host: "localhost", database: "test" },
+      });
+      await store.initialize();
+    });
+
+    it("should insert state and messages in one transaction", async () => {
+      mockConnection.query.mockResolvedValue([{ affectedRows: 1 }, []]);
+
+      await store.insertWithOutbox("OrderSaga", "order-123", createState(), [
+        outboxMessage,
+      ]);
+
+      expect(mockConnection.beginTransaction).toHaveBeenCalled();
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO `saga_outbox`"),
+        expect.arrayContaining(["out-1", "OrderSaga", "saga-123"])
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it("should skip messages and throw on version mismatch", async () => {
+      mockConnection.query.mockResolvedValueOnce([{ affectedRows: 0 }, []]);
+      mockPool.query.mockResolvedValueOnce([[], []]);
+
+      await expect(
+        store.updateWithOutbox("OrderSaga", createState(), 1, [outboxMessage])
+      ).rejects.toThrow("Saga saga-123 not found");
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it("should roll back when a write fails", async () => {
+      mockConnection.query.mockResolvedValueOnce([{ affectedRows: 1 }, []]);
+      mockConnection.query.mockRejectedValueOnce(new Error("disk full"));
+
+      await expect(
+        store.insertWithOutbox("OrderSaga", "order-123", createState(), [
+          outboxMessage,
+        ])
+      ).rejects.toThrow("disk full");
+
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.commit).not.toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+
+    it("should claim pending messages with SKIP LOCKED", async () => {
+      mockConnection.query.mockResolvedValueOnce([
+        [
+          {
+            id: "out-1",
+            saga_name: "OrderSaga",
+            saga_id: "saga-123",
+            message: JSON.stringify(outboxMessage.message),
+            options: { endpoint: "OrderShipped" },
+            created_at: outboxMessage.createdAt,
+            attempts: 2,
+            last_error: "timeout",
+          },
+        ],
+        [],
+      ]);
+      mockConnection.query.mockResolvedValueOnce([{ affectedRows: 1 }, []]);
+
+      const claimed = await store.claimOutboxMessages(10, 30000);
+
+      expect(mockConnection.query).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining("FOR UPDATE SKIP LOCKED"),
+        [expect.any(Date), 10]
+      );
+      expect(mockConnection.query).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("SET locked_until"),
+        [expect.any(Date), ["out-1"]]
+      );
+      expect(claimed).toEqual([
+        {
+          ...outboxMessage,
+          attempts: 2,
+          lastError: "timeout",
+        },
+      ]);
+    });
+  });
+
+  describe("scheduled messages", () => {
+    beforeEach(async () => {
+      store = new MySqlSagaStore({
+        pool: { host: "localhost", database: "test" },
+      });
+      await store.initialize();
+    });
+
+    it("should insert scheduled messages with their due time", async () => {
+      mockPool.query.mockResolvedValueOnce([{ affectedRows: 1 }, []]);
+      const dueAt = new Date("2024-01-02T00:00:00Z");
+
+      await store.insertScheduledMessage({
+        id: "sched-1",
+        message: { type: "SagaTimeoutExpired" },
+        options: { endpoint: "timeouts" },
+        dueAt,
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+        attempts: 0,
+      });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO `saga_scheduled_messages`"),
+        expect.arrayContaining(["sched-1", dueAt])
+      );
+    });
+
+    it("should claim due messages with SKIP LOCKED", async () => {
+      mockConnection.query.mockResolvedValueOnce([
+        [
+          {
+            id: "sched-1",
+            message: { type: "SagaTimeoutExpired" },
+            options: JSON.stringify({ endpoint: "timeouts" }),
+            due_at: new Date("2024-01-02T00:00:00Z"),
+            created_at: new Date("2024-01-01T00:00:00Z"),
+            attempts: 0,
+            last_error: null,
+          },
+        ],
+        [],
+      ]);
+      mockConnection.query.mockResolvedValueOnce([{ affectedRows: 1 }, []]);
+
+      const claimed = await store.claimDueScheduledMessages(10, 30000);
+
+      expect(mockConnection.query).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining("FOR UPDATE SKIP LOCKED"),
+        [expect.any(Date), expect.any(Date), 10]
+      );
+      expect(claimed[0]?.options).toEqual({ endpoint: "timeouts" });
+      expect(claimed[0]?.dueAt).toEqual(new Date("2024-01-02T00:00:00Z"));
+    });
+  });
 });
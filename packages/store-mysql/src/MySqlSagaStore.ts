@@ -1,7 +1,26 @@
 import * as mysql from "mysql2/promise";
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
-import type { MySqlSagaStoreOptions, SagaInstanceRow } from "./types.js";
+import type {
+  SagaOutboxStore,
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  OutboxMessage,
+  ScheduledMessage,
+  ScheduledMessageStore,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  resolveSagaQuery,
+  toSagaQueryResult,
+} from "@saga-bus/core";
+import type {
+  MySqlSagaStoreOptions,
+  SagaInstanceRow,
+  SagaOutboxRow,
+  SagaScheduledMessageRow,
+} from "./types.js";
 
 type RowDataPacket = mysql.RowDataPacket;
 type ResultSetHeader = mysql.ResultSetHeader;
@@ -9,15 +28,25 @@ type PoolOptions = mysql.PoolOptions;
 type FieldPacket = mysql.FieldPacket;
 
 // mysql2 types have issues with the mixin pattern, so we define our own interface
-interface QueryablePool {
+interface Queryable {
   query<T extends mysql.RowDataPacket[][] | mysql.RowDataPacket[] | mysql.OkPacket | mysql.OkPacket[] | mysql.ResultSetHeader>(
     sql: string,
     values?: unknown[]
   ): Promise<[T, FieldPacket[]]>;
+}
+
+interface QueryablePool extends Queryable {
   end(): Promise<void>;
   getConnection(): Promise<mysql.PoolConnection>;
 }
 
+interface QueryableConnection extends Queryable {
+  beginTransaction(): Promise<void>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+  release(): void;
+}
+
 /**
  * MySQL-backed saga store for saga-bus.
  *
@@ -36,11 +65,16 @@ interface QueryablePool {
  * ```
  */
 export class MySqlSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements
+    SagaOutboxStore<TState>,
+    SagaQueryableStore<TState>,
+    ScheduledMessageStore
 {
   private pool: QueryablePool | null = null;
   private readonly poolOptions: PoolOptions | null;
   private readonly tableName: string;
+  private readonly outboxTableName: string;
+  private readonly scheduleTableName: string;
   private readonly ownsPool: boolean;
 
   constructor(options: MySqlSagaStoreOptions) {
@@ -55,6 +89,9 @@ export class MySqlSagaStore<TState extends SagaState>
     }
 
     this.tableName = options.tableName ?? "saga_instances";
+    this.outboxTableName = options.outboxTableName ?? "saga_outbox";
+    this.scheduleTableName =
+      options.scheduleTableName ?? "saga_scheduled_messages";
   }
 
   /**
@@ -106,10 +143,19 @@ export class MySqlSagaStore<TState extends SagaState>
   ): Promise<void> {
     if (!this.pool) throw new Error("Store not initialized");
 
+    await this.insertState(this.pool, sagaName, correlationId, state);
+  }
+
+  private async insertState(
+    db: Queryable,
+    sagaName: string,
+    correlationId: string,
+    state: TState
+  ): Promise<void> {
     const { sagaId, version, isCompleted, createdAt, updatedAt } =
       state.metadata;
 
-    await this.pool.query(
+    await db.query(
       `INSERT INTO \`${this.tableName}\`
        (id, saga_name, correlation_id, version, is_completed, state, created_at, updated_at)
        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
@@ -133,9 +179,34 @@ export class MySqlSagaStore<TState extends SagaState>
   ): Promise<void> {
     if (!this.pool) throw new Error("Store not initialized");
 
+    const updated = await this.updateState(
+      this.pool,
+      sagaName,
+      state,
+      expectedVersion
+    );
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  /**
+   * @returns false if no row matched (missing saga or version mismatch)
+   */
+  private async updateState(
+    db: Queryable,
+    sagaName: string,
+    state: TState,
+    expectedVersion: number
+  ): Promise<boolean> {
     const { sagaId, version, isCompleted, updatedAt } = state.metadata;
 
-    const [result] = await this.pool.query<ResultSetHeader>(
+    const [result] = await db.query<ResultSetHeader>(
       `UPDATE \`${this.tableName}\`
        SET version = ?, is_completed = ?, state = ?, updated_at = ?
        WHERE id = ? AND saga_name = ? AND version = ?`,
@@ -150,18 +221,24 @@ export class MySqlSagaStore<TState extends SagaState>
       ]
     );
 
-    if (result.affectedRows === 0) {
-      // Either saga doesn't exist or version mismatch
-      const existing = await this.getById(sagaName, sagaId);
-      if (existing) {
-        throw new ConcurrencyError(
-          sagaId,
-          expectedVersion,
-          existing.metadata.version
-        );
-      } else {
-        throw new Error(`Saga ${sagaId} not found`);
-      }
+    return result.affectedRows > 0;
+  }
+
+  private async throwUpdateConflict(
+    sagaName: string,
+    sagaId: string,
+    expectedVersion: number
+  ): Promise<never> {
+    // Either saga doesn't exist or version mismatch
+    const existing = await this.getById(sagaName, sagaId);
+    if (existing) {
+      throw new ConcurrencyError(
+        sagaId,
+        expectedVersion,
+        existing.metadata.version
+      );
+    } else {
+      throw new Error(`Saga ${sagaId} not found`);
     }
   }
 
@@ -174,6 +251,257 @@ export class MySqlSagaStore<TState extends SagaState>
     );
   }
 
+  // ============ Outbox ============
+
+  async insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.withTransaction(async (conn) => {
+      await this.insertState(conn, sagaName, correlationId, state);
+      await this.insertOutboxMessages(conn, messages);
+    });
+  }
+
+  async updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = await this.withTransaction(async (conn) => {
+      if (!(await this.updateState(conn, sagaName, state, expectedVersion))) {
+        return false;
+      }
+      await this.insertOutboxMessages(conn, messages);
+      return true;
+    });
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]> {
+    const now = new Date();
+
+    // SKIP LOCKED (MySQL 8.0+) lets several relays claim disjoint batches
+    const rows = await this.withTransaction(async (conn) => {
+      const [pending] = await conn.query<(SagaOutboxRow & RowDataPacket)[]>(
+        `SELECT * FROM \`${this.outboxTableName}\`
+         WHERE dispatched_at IS NULL
+           AND (locked_until IS NULL OR locked_until <= ?)
+         ORDER BY created_at
+         LIMIT ?
+         FOR UPDATE SKIP LOCKED`,
+        [now, limit]
+      );
+
+      if (pending.length > 0) {
+        await conn.query(
+          `UPDATE \`${this.outboxTableName}\` SET locked_until = ? WHERE id IN (?)`,
+          [new Date(now.getTime() + lockDurationMs), pending.map((row) => row.id)]
+        );
+      }
+
+      return pending;
+    });
+
+    return rows.map((row) => this.rowToOutboxMessage(row));
+  }
+
+  async markOutboxMessageDispatched(id: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool.query(
+      `UPDATE \`${this.outboxTableName}\`
+       SET dispatched_at = ?, locked_until = NULL
+       WHERE id = ?`,
+      [new Date(), id]
+    );
+  }
+
+  async markOutboxMessageFailed(id: string, error: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool.query(
+      `UPDATE \`${this.outboxTableName}\`
+       SET attempts = attempts + 1, last_error = ?, locked_until = NULL
+       WHERE id = ?`,
+      [error, id]
+    );
+  }
+
+  async deleteDispatchedOutboxMessages(before: Date): Promise<number> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const [result] = await this.pool.query<ResultSetHeader>(
+      `DELETE FROM \`${this.outboxTableName}\`
+       WHERE dispatched_at IS NOT NULL AND dispatched_at < ?`,
+      [before]
+    );
+
+    return result.affectedRows;
+  }
+
+  private async insertOutboxMessages(
+    conn: Queryable,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    for (const entry of messages) {
+      await conn.query(
+        `INSERT INTO \`${this.outboxTableName}\`
+         (id, saga_name, saga_id, message, options, created_at, attempts)
+         VALUES (?, ?, ?, ?, ?, ?, 0)`,
+        [
+          entry.id,
+          entry.sagaName,
+          entry.sagaId,
+          JSON.stringify(entry.message),
+          JSON.stringify(entry.options),
+          entry.createdAt,
+        ]
+      );
+    }
+  }
+
+  // ============ Scheduled Messages ============
+
+  async insertScheduledMessage(entry: ScheduledMessage): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool.query(
+      `INSERT INTO \`${this.scheduleTableName}\`
+       (id, message, options, due_at, created_at, attempts)
+       VALUES (?, ?, ?, ?, ?, 0)`,
+      [
+        entry.id,
+        JSON.stringify(entry.message),
+        JSON.stringify(entry.options),
+        entry.dueAt,
+        entry.createdAt,
+      ]
+    );
+  }
+
+  async claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]> {
+    const now = new Date();
+
+    // SKIP LOCKED (MySQL 8.0+) lets several schedulers claim disjoint batches
+    const rows = await this.withTransaction(async (conn) => {
+      const [due] = await conn.query<
+        (SagaScheduledMessageRow & RowDataPacket)[]
+      >(
+        `SELECT * FROM \`${this.scheduleTableName}\`
+         WHERE due_at <= ?
+           AND (locked_until IS NULL OR locked_until <= ?)
+         ORDER BY due_at
+         LIMIT ?
+         FOR UPDATE SKIP LOCKED`,
+        [now, now, limit]
+      );
+
+      if (due.length > 0) {
+        await conn.query(
+          `UPDATE \`${this.scheduleTableName}\` SET locked_until = ? WHERE id IN (?)`,
+          [new Date(now.getTime() + lockDurationMs), due.map((row) => row.id)]
+        );
+      }
+
+      return due;
+    });
+
+    return rows.map((row) => this.rowToScheduledMessage(row));
+  }
+
+  async deleteScheduledMessage(id: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool.query(
+      `DELETE FROM \`${this.scheduleTableName}\` WHERE id = ?`,
+      [id]
+    );
+  }
+
+  async markScheduledMessageFailed(id: string, error: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool.query(
+      `UPDATE \`${this.scheduleTableName}\`
+       SET attempts = attempts + 1, last_error = ?, locked_until = NULL
+       WHERE id = ?`,
+      [error, id]
+    );
+  }
+
+  private rowToScheduledMessage(
+    row: SagaScheduledMessageRow
+  ): ScheduledMessage {
+    const parse = <T>(value: string | object): T =>
+      (typeof value === "string" ? JSON.parse(value) : value) as T;
+
+    return {
+      id: row.id,
+      message: parse<ScheduledMessage["message"]>(row.message),
+      options: parse<ScheduledMessage["options"]>(row.options),
+      dueAt: new Date(row.due_at),
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    };
+  }
+
+  /**
+   * Run a callback inside a transaction on a dedicated connection.
+   */
+  private async withTransaction<T>(
+    fn: (conn: QueryableConnection) => Promise<T>
+  ): Promise<T> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const conn =
+      (await this.pool.getConnection()) as unknown as QueryableConnection;
+    try {
+      await conn.beginTransaction();
+      const result = await fn(conn);
+      await conn.commit();
+      return result;
+    } catch (error) {
+      await conn.rollback();
+      throw error;
+    } finally {
+      conn.release();
+    }
+  }
+
+  private rowToOutboxMessage(row: SagaOutboxRow): OutboxMessage {
+    const parse = <T>(value: string | object): T =>
+      (typeof value === "string" ? JSON.parse(value) : value) as T;
+
+    return {
+      id: row.id,
+      sagaName: row.saga_name,
+      sagaId: row.saga_id,
+      message: parse<OutboxMessage["message"]>(row.message),
+      options: parse<OutboxMessage["options"]>(row.options),
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    };
+  }
+
   /**
    * Convert a database row to saga state.
    */
@@ -296,4 +624,110 @@ export class MySqlSagaStore<TState extends SagaState>
 
     return result.affectedRows;
   }
+
+  /**
+   * Find sagas matching a query with cursor pagination.
+   */
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const resolved = resolveSagaQuery(query);
+    const { clauses, params } = this.buildFilter(sagaName, resolved.filter);
+
+    const column = resolved.sortBy === "updatedAt" ? "updated_at" : "created_at";
+    const direction = resolved.sortOrder === "asc" ? "ASC" : "DESC";
+
+    if (resolved.after) {
+      const op = resolved.sortOrder === "asc" ? ">" : "<";
+      clauses.push(`(${column} ${op} ? OR (${column} = ? AND id ${op} ?))`);
+      params.push(
+        resolved.after.value,
+        resolved.after.value,
+        resolved.after.sagaId
+      );
+    }
+
+    const [rows] = await this.pool.query<(SagaInstanceRow & RowDataPacket)[]>(
+      `SELECT * FROM \`${this.tableName}\`
+       WHERE ${clauses.join(" AND ")}
+       ORDER BY ${column} ${direction}, id ${direction}
+       LIMIT ?`,
+      [...params, resolved.limit + 1]
+    );
+
+    return toSagaQueryResult(
+      rows.map((row) => this.rowToState(row)),
+      resolved
+    );
+  }
+
+  /**
+   * Count sagas matching a filter.
+   */
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const { clauses, params } = this.buildFilter(sagaName, filter);
+
+    const [rows] = await this.pool.query<({ count: number } & RowDataPacket)[]>(
+      `SELECT COUNT(*) as count FROM \`${this.tableName}\` WHERE ${clauses.join(" AND ")}`,
+      params
+    );
+
+    return rows[0]?.count ?? 0;
+  }
+
+  /**
+   * Build WHERE clauses for a query filter.
+   */
+  private buildFilter(
+    sagaName: string,
+    filter: SagaQueryFilter
+  ): { clauses: string[]; params: (string | number | Date)[] } {
+    const clauses = ["saga_name = ?"];
+    const params: (string | number | Date)[] = [sagaName];
+
+    if (filter.completed !== undefined) {
+      clauses.push("is_completed = ?");
+      params.push(filter.completed ? 1 : 0);
+    }
+
+    for (const [column, range] of [
+      ["created_at", filter.createdAt],
+      ["updated_at", filter.updatedAt],
+    ] as const) {
+      if (range?.from) {
+        clauses.push(`${column} >= ?`);
+        params.push(range.from);
+      }
+      if (range?.to) {
+        clauses.push(`${column} < ?`);
+        params.push(range.to);
+      }
+    }
+
+    if (filter.timeoutExpiresBefore) {
+      // Stored as an ISO string inside the state JSON (sorts chronologically)
+      clauses.push(
+        "JSON_TYPE(JSON_EXTRACT(state, '$.metadata.timeoutExpiresAt')) = 'STRING'" +
+          " AND JSON_UNQUOTE(JSON_EXTRACT(state, '$.metadata.timeoutExpiresAt')) < ?"
+      );
+      params.push(filter.timeoutExpiresBefore.toISOString());
+    }
+
+    if (filter.parentSagaId !== undefined) {
+      clauses.push(
+        "JSON_UNQUOTE(JSON_EXTRACT(state, '$.metadata.parent.sagaId')) = ?"
+      );
+      params.push(filter.parentSagaId);
+    }
+
+    return { clauses, params };
+  }
 }
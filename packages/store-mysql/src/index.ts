@@ -1,2 +1,7 @@
 export { MySqlSagaStore } from "./MySqlSagaStore.js";
-export type { MySqlSagaStoreOptions, SagaInstanceRow } from "./types.js";
+export type {
+  MySqlSagaStoreOptions,
+  SagaInstanceRow,
+  SagaOutboxRow,
+  SagaScheduledMessageRow,
+} from "./types.js";
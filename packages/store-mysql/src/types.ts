@@ -16,6 +16,16 @@ export interface MySqlSagaStoreOptions {
    * Table name for saga instances. Default: "saga_instances"
    */
   tableName?: string;
+
+  /**
+   * Table name for outbox messages. Default: "saga_outbox"
+   */
+  outboxTableName?: string;
+
+  /**
+   * Table name for scheduled messages. Default: "saga_scheduled_messages"
+   */
+  scheduleTableName?: string;
 }
 
 /**
@@ -31,3 +41,33 @@ export interface SagaInstanceRow {
   created_at: Date;
   updated_at: Date;
 }
+
+/**
+ * Row structure in the saga_outbox table.
+ */
+export interface SagaOutboxRow {
+  id: string;
+  saga_name: string;
+  saga_id: string;
+  message: string | object; // JSON (mysql2 may return it parsed)
+  options: string | object; // JSON (mysql2 may return it parsed)
+  created_at: Date;
+  attempts: number;
+  last_error: string | null;
+  locked_until: Date | null;
+  dispatched_at: Date | null;
+}
+
+/**
+ * Row structure in the saga_scheduled_messages table.
+ */
+export interface SagaScheduledMessageRow {
+  id: string;
+  message: string | object; // JSON (mysql2 may return it parsed)
+  options: string | object; // JSON (mysql2 may return it parsed)
+  due_at: Date;
+  created_at: Date;
+  attempts: number;
+  last_error: string | null;
+  locked_until: Date | null;
+}
@@ -1,10 +1,18 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
 import { Pool } from "pg";
 import { PostgreSqlContainer, StartedPostgreSqlContainer } from "@testcontainers/postgresql";
-import type { SagaState, SagaStateMetadata } from "@saga-bus/core";
+import type {
+  OutboxMessage,
+  SagaHistoryEntry,
+  SagaState,
+  ScheduledMessage,
+  SagaStateMetadata,
+  TransportBatchMessage,
+} from "@saga-bus/core";
 import { ConcurrencyError } from "@saga-bus/core";
 import { PostgresSagaStore } from "../src/PostgresSagaStore.js";
 import { createSchema } from "../src/schema.js";
+import type { TransactionalTransport } from "../src/types.js";
 
 interface TestState extends SagaState {
   metadata: SagaStateMetadata;
@@ -31,6 +39,52 @@ function createTestState(
   };
 }
 
+function createOutboxMessage(id: string, sagaId: string): OutboxMessage {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId,
+    message: { type: "OrderShipped" },
+    options: { endpoint: "OrderShipped" },
+    createdAt: new Date(),
+    attempts: 0,
+  };
+}
+
+function createScheduledMessage(id: string, dueInMs: number): ScheduledMessage {
+  return {
+    id,
+    message: { type: "SagaTimeoutExpired" },
+    options: { endpoint: "timeouts" },
+    dueAt: new Date(Date.now() + dueInMs),
+    createdAt: new Date(),
+    attempts: 0,
+  };
+}
+
+function createHistoryEntry(
+  id: string,
+  previousState: TestState | null,
+  state: TestState,
+  recordedAt: Date = new Date()
+): SagaHistoryEntry {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId: state.metadata.sagaId,
+    correlationId: "corr-1",
+    messageId: `msg-${id}`,
+    messageType: "OrderUpdated",
+    outcome: previousState ? "updated" : "created",
+    previousVersion: previousState?.metadata.version ?? null,
+    version: state.metadata.version,
+    previousState,
+    state,
+    traceParent: null,
+    recordedAt,
+  };
+}
+
 describe("PostgresSagaStore", () => {
   let container: StartedPostgreSqlContainer | undefined;
   let pool: Pool | undefined;
@@ -61,7 +115,7 @@ describe("PostgresSagaStore", () => {
   beforeEach(async () => {
     if (!pool) throw new Error("Pool not initialized");
     // Clean table between tests
-    await pool.query("TRUNCATE saga_instances");
+    await pool.query("TRUNCATE saga_instances, saga_outbox, saga_history, saga_scheduled_messages");
     store = new PostgresSagaStore<TestState>({ pool });
   });
 
@@ -302,6 +356,60 @@ describe("PostgresSagaStore", () => {
     });
   });
 
+  describe("findSagas", () => {
+    const at = (day: number) => new Date(Date.UTC(2024, 0, day));
+
+    beforeEach(async () => {
+      for (const [id, day, isCompleted] of [
+        ["saga-1", 1, true],
+        ["saga-2", 2, false],
+        ["saga-3", 3, false],
+      ] as const) {
+        await store.insert(
+          sagaName,
+          `order-${id}`,
+          createTestState(id, {
+            metadata: {
+              sagaId: id,
+              version: 0,
+              createdAt: at(day),
+              updatedAt: at(day),
+              isCompleted,
+              timeoutExpiresAt: day === 2 ? at(5) : null,
+            },
+          })
+        );
+      }
+    });
+
+    it("should page through sagas with a cursor", async () => {
+      const first = await store.findSagas(sagaName, { limit: 2 });
+      expect(first.items.map((s) => s.metadata.sagaId)).toEqual([
+        "saga-3",
+        "saga-2",
+      ]);
+
+      const second = await store.findSagas(sagaName, {
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((s) => s.metadata.sagaId)).toEqual(["saga-1"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should filter by status, dates and timeout", async () => {
+      expect(await store.countSagas(sagaName, { completed: false })).toBe(2);
+      expect(
+        await store.countSagas(sagaName, { createdAt: { to: at(3) } })
+      ).toBe(2);
+
+      const expiring = await store.findSagas(sagaName, {
+        timeoutExpiresBefore: at(6),
+      });
+      expect(expiring.items.map((s) => s.metadata.sagaId)).toEqual(["saga-2"]);
+    });
+  });
+
   describe("isolation between saga types", () => {
     it("should isolate different saga names", async () => {
       await store.insert("OrderSaga", "order-1", createTestState("saga-1"));
@@ -320,4 +428,181 @@ describe("PostgresSagaStore", () => {
       expect(paymentCount).toBe(1);
     });
   });
+
+  describe("scheduled messages", () => {
+    it("should claim due messages once, oldest first", async () => {
+      await store.insertScheduledMessage(createScheduledMessage("later", 60_000));
+      await store.insertScheduledMessage(createScheduledMessage("due-2", -1_000));
+      await store.insertScheduledMessage(createScheduledMessage("due-1", -2_000));
+
+      const claimed = await store.claimDueScheduledMessages(10, 30_000);
+      expect(claimed.map((m) => m.id)).toEqual(["due-1", "due-2"]);
+      expect(await store.claimDueScheduledMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should release failed messages and delete published ones", async () => {
+      await store.insertScheduledMessage(createScheduledMessage("due-1", -1_000));
+      await store.insertScheduledMessage(createScheduledMessage("due-2", -1_000));
+      await store.claimDueScheduledMessages(10, 30_000);
+
+      await store.deleteScheduledMessage("due-1");
+      await store.markScheduledMessageFailed("due-2", "broker down");
+
+      const retried = await store.claimDueScheduledMessages(10, 30_000);
+      expect(retried.map((m) => m.id)).toEqual(["due-2"]);
+      expect(retried[0]?.attempts).toBe(1);
+    });
+  });
+
+  describe("outbox", () => {
+    it("should write state and messages in one transaction", async () => {
+      await store.insertWithOutbox(sagaName, "order-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+      ]);
+
+      expect(await store.getById(sagaName, "saga-1")).not.toBeNull();
+
+      const claimed = await store.claimOutboxMessages(10, 30_000);
+      expect(claimed).toHaveLength(1);
+      expect(claimed[0]?.message.type).toBe("OrderShipped");
+    });
+
+    it("should roll back messages on version mismatch", async () => {
+      await store.insert(sagaName, "order-1", createTestState("saga-1"));
+
+      const state = createTestState("saga-1");
+      const stale = { ...state, metadata: { ...state.metadata, version: 6 } };
+
+      await expect(
+        store.updateWithOutbox(sagaName, stale, 5, [
+          createOutboxMessage("out-1", "saga-1"),
+        ])
+      ).rejects.toThrow(ConcurrencyError);
+
+      expect(await store.claimOutboxMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should not hand out claimed messages twice", async () => {
+      await store.insertWithOutbox(sagaName, "order-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+        createOutboxMessage("out-2", "saga-1"),
+      ]);
+
+      const [first, second] = await Promise.all([
+        store.claimOutboxMessages(10, 30_000),
+        store.claimOutboxMessages(10, 30_000),
+      ]);
+      expect(first.length + second.length).toBe(2);
+
+      await store.markOutboxMessageFailed("out-1", "broker down");
+      await store.markOutboxMessageDispatched("out-2");
+
+      const retried = await store.claimOutboxMessages(10, 30_000);
+      expect(retried.map((m) => m.id)).toEqual(["out-1"]);
+      expect(retried[0]?.attempts).toBe(1);
+
+      const deleted = await store.deleteDispatchedOutboxMessages(
+        new Date(Date.now() + 60_000)
+      );
+      expect(deleted).toBe(1);
+    });
+
+    it("should queue messages on a transactional transport instead", async () => {
+      const queued: TransportBatchMessage[] = [];
+      const transport: TransactionalTransport = {
+        publishInTransaction: async (_client, messages) => {
+          queued.push(...messages);
+        },
+      };
+      store = new PostgresSagaStore<TestState>({ pool: pool!, transport });
+
+      await store.insertWithOutbox(sagaName, "order-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+      ]);
+
+      expect(queued).toEqual([
+        { message: { type: "OrderShipped" }, options: { endpoint: "OrderShipped" } },
+      ]);
+      expect(await store.claimOutboxMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should roll back the state when queueing fails", async () => {
+      const transport: TransactionalTransport = {
+        publishInTransaction: async () => {
+          throw new Error("queue table missing");
+        },
+      };
+      store = new PostgresSagaStore<TestState>({ pool: pool!, transport });
+
+      await expect(
+        store.insertWithOutbox(sagaName, "order-1", createTestState("saga-1"), [
+          createOutboxMessage("out-1", "saga-1"),
+        ])
+      ).rejects.toThrow("queue table missing");
+      expect(await store.getById(sagaName, "saga-1")).toBeNull();
+    });
+  });
+
+  describe("history", () => {
+    it("should record transitions with the state in one transaction", async () => {
+      const created = createTestState("saga-1");
+      await store.insertWithHistory(
+        sagaName,
+        "order-1",
+        created,
+        createHistoryEntry("h-1", null, created),
+        []
+      );
+
+      const updated = createTestState("saga-1", { status: "shipped" });
+      updated.metadata = { ...updated.metadata, version: 1 };
+      await store.updateWithHistory(
+        sagaName,
+        updated,
+        0,
+        createHistoryEntry("h-2", created, updated),
+        [createOutboxMessage("out-1", "saga-1")]
+      );
+
+      const history = await store.getHistory(sagaName, "saga-1");
+      expect(history.map((entry) => entry.id)).toEqual(["h-1", "h-2"]);
+      expect(history[0]?.previousState).toBeNull();
+      expect(history[1]?.previousVersion).toBe(0);
+      expect(history[1]?.state).toMatchObject({ status: "shipped" });
+      expect(history[1]?.recordedAt).toBeInstanceOf(Date);
+      expect(await store.claimOutboxMessages(10, 30_000)).toHaveLength(1);
+    });
+
+    it("should roll back the entry on version mismatch", async () => {
+      const created = createTestState("saga-1");
+      await store.insert(sagaName, "order-1", created);
+
+      const stale = { ...created, metadata: { ...created.metadata, version: 6 } };
+
+      await expect(
+        store.updateWithHistory(
+          sagaName,
+          stale,
+          5,
+          createHistoryEntry("h-1", created, stale),
+          []
+        )
+      ).rejects.toThrow(ConcurrencyError);
+      expect(await store.getHistory(sagaName, "saga-1")).toEqual([]);
+    });
+
+    it("should delete entries recorded before a date", async () => {
+      const created = createTestState("saga-1");
+      await store.insertWithHistory(
+        sagaName,
+        "order-1",
+        created,
+        createHistoryEntry("h-1", null, created, new Date("2024-01-01")),
+        []
+      );
+
+      expect(await store.deleteHistoryBefore(new Date("2025-01-01"))).toBe(1);
+      expect(await store.getHistory(sagaName, "saga-1")).toEqual([]);
+    });
+  });
 });
@@ -1,7 +1,30 @@
-import { Pool } from "pg";
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
-import type { PostgresSagaStoreOptions, SagaInstanceRow } from "./types.js";
+import { Pool, type PoolClient } from "pg";
+import type {
+  SagaOutboxStore,
+  SagaHistoryStore,
+  SagaHistoryEntry,
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  OutboxMessage,
+  ScheduledMessage,
+  ScheduledMessageStore,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  resolveSagaQuery,
+  toSagaQueryResult,
+} from "@saga-bus/core";
+import type {
+  PostgresSagaStoreOptions,
+  SagaInstanceRow,
+  SagaOutboxRow,
+  SagaHistoryRow,
+  SagaScheduledMessageRow,
+  TransactionalTransport,
+} from "./types.js";
 
 /**
  * PostgreSQL-backed saga store using native pg driver.
@@ -19,12 +42,20 @@ import type { PostgresSagaStoreOptions, SagaInstanceRow } from "./types.js";
  * ```
  */
 export class PostgresSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements
+    SagaOutboxStore<TState>,
+    SagaHistoryStore<TState>,
+    SagaQueryableStore<TState>,
+    ScheduledMessageStore
 {
   private readonly pool: Pool;
   private readonly tableName: string;
+  private readonly outboxTableName: string;
+  private readonly scheduleTableName: string;
+  private readonly historyTableName: string;
   private readonly schema: string;
   private readonly ownsPool: boolean;
+  private readonly transport: TransactionalTransport | undefined;
 
   constructor(options: PostgresSagaStoreOptions) {
     if (options.pool instanceof Pool) {
@@ -36,7 +67,12 @@ export class PostgresSagaStore<TState extends SagaState>
     }
 
     this.tableName = options.tableName ?? "saga_instances";
+    this.outboxTableName = options.outboxTableName ?? "saga_outbox";
+    this.scheduleTableName =
+      options.scheduleTableName ?? "saga_scheduled_messages";
+    this.historyTableName = options.historyTableName ?? "saga_history";
     this.schema = options.schema ?? "public";
+    this.transport = options.transport;
   }
 
   /**
@@ -46,6 +82,27 @@ export class PostgresSagaStore<TState extends SagaState>
     return `${this.schema}.${this.tableName}`;
   }
 
+  /**
+   * Get the full outbox table name with schema.
+   */
+  private get fullOutboxTableName(): string {
+    return `${this.schema}.${this.outboxTableName}`;
+  }
+
+  /**
+   * Get the full scheduled messages table name with schema.
+   */
+  private get fullScheduleTableName(): string {
+    return `${this.schema}.${this.scheduleTableName}`;
+  }
+
+  /**
+   * Get the full history table name with schema.
+   */
+  private get fullHistoryTableName(): string {
+    return `${this.schema}.${this.historyTableName}`;
+  }
+
   async getById(sagaName: string, sagaId: string): Promise<TState | null> {
     const result = await this.pool.query<SagaInstanceRow>(
       `SELECT * FROM ${this.fullTableName} WHERE id = $1 AND saga_name = $2`,
@@ -76,9 +133,18 @@ export class PostgresSagaStore<TState extends SagaState>
   }
 
   async insert(sagaName: string, correlationId: string, state: TState): Promise<void> {
+    await this.insertState(this.pool, sagaName, correlationId, state);
+  }
+
+  private async insertState(
+    db: Pool | PoolClient,
+    sagaName: string,
+    correlationId: string,
+    state: TState
+  ): Promise<void> {
     const { sagaId, version, isCompleted, createdAt, updatedAt } = state.metadata;
 
-    await this.pool.query(
+    await db.query(
       `INSERT INTO ${this.fullTableName}
        (id, saga_name, correlation_id, version, is_completed, state, created_at, updated_at)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
@@ -127,9 +193,34 @@ export class PostgresSagaStore<TState extends SagaState>
     state: TState,
     expectedVersion: number
   ): Promise<void> {
+    const updated = await this.updateState(
+      this.pool,
+      sagaName,
+      state,
+      expectedVersion
+    );
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  /**
+   * @returns false if no row matched (missing saga or version mismatch)
+   */
+  private async updateState(
+    db: Pool | PoolClient,
+    sagaName: string,
+    state: TState,
+    expectedVersion: number
+  ): Promise<boolean> {
     const { sagaId, version, isCompleted, updatedAt } = state.metadata;
 
-    const result = await this.pool.query(
+    const result = await db.query(
       `UPDATE ${this.fullTableName}
        SET version = $1, is_completed = $2, state = $3, updated_at = $4
        WHERE id = $5 AND saga_name = $6 AND version = $7`,
@@ -144,18 +235,24 @@ export class PostgresSagaStore<TState extends SagaState>
       ]
     );
 
-    if (result.rowCount === 0) {
-      // Either saga doesn't exist or version mismatch
-      const existing = await this.getById(sagaName, sagaId);
-      if (existing) {
-        throw new ConcurrencyError(
-          sagaId,
-          expectedVersion,
-          existing.metadata.version
-        );
-      } else {
-        throw new Error(`Saga ${sagaId} not found`);
-      }
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private async throwUpdateConflict(
+    sagaName: string,
+    sagaId: string,
+    expectedVersion: number
+  ): Promise<never> {
+    // Either saga doesn't exist or version mismatch
+    const existing = await this.getById(sagaName, sagaId);
+    if (existing) {
+      throw new ConcurrencyError(
+        sagaId,
+        expectedVersion,
+        existing.metadata.version
+      );
+    } else {
+      throw new Error(`Saga ${sagaId} not found`);
     }
   }
 
@@ -166,6 +263,339 @@ export class PostgresSagaStore<TState extends SagaState>
     );
   }
 
+  // ============ Outbox ============
+
+  async insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.withTransaction(async (client) => {
+      await this.insertState(client, sagaName, correlationId, state);
+      await this.insertOutboxMessages(client, messages);
+    });
+  }
+
+  async updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = await this.withTransaction(async (client) => {
+      if (!(await this.updateState(client, sagaName, state, expectedVersion))) {
+        return false;
+      }
+      await this.insertOutboxMessages(client, messages);
+      return true;
+    });
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]> {
+    // SKIP LOCKED lets several relays claim disjoint batches concurrently
+    const result = await this.pool.query<SagaOutboxRow>(
+      `UPDATE ${this.fullOutboxTableName}
+       SET locked_until = NOW() + ($2 * INTERVAL '1 millisecond')
+       WHERE id IN (
+         SELECT id FROM ${this.fullOutboxTableName}
+         WHERE dispatched_at IS NULL
+           AND (locked_until IS NULL OR locked_until <= NOW())
+         ORDER BY created_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, lockDurationMs]
+    );
+
+    return result.rows
+      .map((row) => this.rowToOutboxMessage(row))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async markOutboxMessageDispatched(id: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.fullOutboxTableName}
+       SET dispatched_at = NOW(), locked_until = NULL
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async markOutboxMessageFailed(id: string, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.fullOutboxTableName}
+       SET attempts = attempts + 1, last_error = $2, locked_until = NULL
+       WHERE id = $1`,
+      [id, error]
+    );
+  }
+
+  async deleteDispatchedOutboxMessages(before: Date): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM ${this.fullOutboxTableName}
+       WHERE dispatched_at IS NOT NULL AND dispatched_at < $1`,
+      [before]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  private async insertOutboxMessages(
+    client: PoolClient,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    // Queued directly, so the relay finds nothing to send
+    if (this.transport) {
+      if (messages.length > 0) {
+        await this.transport.publishInTransaction(
+          client,
+          messages.map(({ message, options }) => ({ message, options }))
+        );
+      }
+      return;
+    }
+
+    for (const entry of messages) {
+      await client.query(
+        `INSERT INTO ${this.fullOutboxTableName}
+         (id, saga_name, saga_id, message, options, created_at, attempts)
+         VALUES ($1, $2, $3, $4, $5, $6, 0)`,
+        [
+          entry.id,
+          entry.sagaName,
+          entry.sagaId,
+          JSON.stringify(entry.message),
+          JSON.stringify(entry.options),
+          entry.createdAt,
+        ]
+      );
+    }
+  }
+
+  // ============ History ============
+
+  async insertWithHistory(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.withTransaction(async (client) => {
+      await this.insertState(client, sagaName, correlationId, state);
+      await this.insertHistoryEntry(client, entry);
+      await this.insertOutboxMessages(client, outbox);
+    });
+  }
+
+  async updateWithHistory(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = await this.withTransaction(async (client) => {
+      if (!(await this.updateState(client, sagaName, state, expectedVersion))) {
+        return false;
+      }
+      await this.insertHistoryEntry(client, entry);
+      await this.insertOutboxMessages(client, outbox);
+      return true;
+    });
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async getHistory(sagaName: string, sagaId: string): Promise<SagaHistoryEntry[]> {
+    const result = await this.pool.query<SagaHistoryRow>(
+      `SELECT * FROM ${this.fullHistoryTableName}
+       WHERE saga_name = $1 AND saga_id = $2
+       ORDER BY version, recorded_at`,
+      [sagaName, sagaId]
+    );
+
+    return result.rows.map((row) => this.rowToHistoryEntry(row));
+  }
+
+  async deleteHistoryBefore(before: Date): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM ${this.fullHistoryTableName} WHERE recorded_at < $1`,
+      [before]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  private async insertHistoryEntry(
+    client: PoolClient,
+    entry: SagaHistoryEntry
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO ${this.fullHistoryTableName}
+       (id, saga_name, saga_id, correlation_id, message_id, message_type, outcome,
+        previous_version, version, previous_state, state, trace_parent, recorded_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        entry.id,
+        entry.sagaName,
+        entry.sagaId,
+        entry.correlationId,
+        entry.messageId,
+        entry.messageType,
+        entry.outcome,
+        entry.previousVersion,
+        entry.version,
+        entry.previousState ? JSON.stringify(entry.previousState) : null,
+        JSON.stringify(entry.state),
+        entry.traceParent,
+        entry.recordedAt,
+      ]
+    );
+  }
+
+  private rowToHistoryEntry(row: SagaHistoryRow): SagaHistoryEntry {
+    return {
+      id: row.id,
+      sagaName: row.saga_name,
+      sagaId: row.saga_id,
+      correlationId: row.correlation_id,
+      messageId: row.message_id,
+      messageType: row.message_type,
+      outcome: row.outcome as SagaHistoryEntry["outcome"],
+      previousVersion: row.previous_version,
+      version: row.version,
+      previousState: row.previous_state as SagaHistoryEntry["previousState"],
+      state: row.state as SagaHistoryEntry["state"],
+      traceParent: row.trace_parent,
+      recordedAt: new Date(row.recorded_at),
+    };
+  }
+
+  // ============ Scheduled Messages ============
+
+  async insertScheduledMessage(entry: ScheduledMessage): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO ${this.fullScheduleTableName}
+       (id, message, options, due_at, created_at, attempts)
+       VALUES ($1, $2, $3, $4, $5, 0)`,
+      [
+        entry.id,
+        JSON.stringify(entry.message),
+        JSON.stringify(entry.options),
+        entry.dueAt,
+        entry.createdAt,
+      ]
+    );
+  }
+
+  async claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]> {
+    // SKIP LOCKED lets several schedulers claim disjoint batches concurrently
+    const result = await this.pool.query<SagaScheduledMessageRow>(
+      `UPDATE ${this.fullScheduleTableName}
+       SET locked_until = NOW() + ($2 * INTERVAL '1 millisecond')
+       WHERE id IN (
+         SELECT id FROM ${this.fullScheduleTableName}
+         WHERE due_at <= NOW()
+           AND (locked_until IS NULL OR locked_until <= NOW())
+         ORDER BY due_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, lockDurationMs]
+    );
+
+    return result.rows
+      .map((row) => this.rowToScheduledMessage(row))
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  async deleteScheduledMessage(id: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM ${this.fullScheduleTableName} WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async markScheduledMessageFailed(id: string, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.fullScheduleTableName}
+       SET attempts = attempts + 1, last_error = $2, locked_until = NULL
+       WHERE id = $1`,
+      [id, error]
+    );
+  }
+
+  private rowToScheduledMessage(
+    row: SagaScheduledMessageRow
+  ): ScheduledMessage {
+    return {
+      id: row.id,
+      message: row.message as ScheduledMessage["message"],
+      options: row.options as ScheduledMessage["options"],
+      dueAt: new Date(row.due_at),
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    };
+  }
+
+  /**
+   * Run a callback inside a transaction on a dedicated pool client.
+   */
+  private async withTransaction<T>(
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private rowToOutboxMessage(row: SagaOutboxRow): OutboxMessage {
+    return {
+      id: row.id,
+      sagaName: row.saga_name,
+      sagaId: row.saga_id,
+      message: row.message as OutboxMessage["message"],
+      options: row.options as OutboxMessage["options"],
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    };
+  }
+
   /**
    * Convert a database row to saga state.
    */
@@ -273,4 +703,95 @@ export class PostgresSagaStore<TState extends SagaState>
 
     return result.rowCount ?? 0;
   }
+
+  /**
+   * Find sagas matching a query with cursor pagination.
+   */
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    const resolved = resolveSagaQuery(query);
+    const { clauses, params } = this.buildFilter(sagaName, resolved.filter);
+
+    const column = resolved.sortBy === "updatedAt" ? "updated_at" : "created_at";
+    const direction = resolved.sortOrder === "asc" ? "ASC" : "DESC";
+
+    if (resolved.after) {
+      const op = resolved.sortOrder === "asc" ? ">" : "<";
+      params.push(resolved.after.value, resolved.after.sagaId);
+      const value = `$${params.length - 1}`;
+      const id = `$${params.length}`;
+      clauses.push(
+        `(${column} ${op} ${value} OR (${column} = ${value} AND id ${op} ${id}))`
+      );
+    }
+
+    params.push(resolved.limit + 1);
+
+    const result = await this.pool.query<SagaInstanceRow>(
+      `SELECT * FROM ${this.fullTableName}
+       WHERE ${clauses.join(" AND ")}
+       ORDER BY ${column} ${direction}, id ${direction}
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return toSagaQueryResult(
+      result.rows.map((row) => this.rowToState(row)),
+      resolved
+    );
+  }
+
+  /**
+   * Count sagas matching a filter.
+   */
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    const { clauses, params } = this.buildFilter(sagaName, filter);
+
+    const result = await this.pool.query<{ count: string }>(
+      `SELECT COUNT(*) FROM ${this.fullTableName} WHERE ${clauses.join(" AND ")}`,
+      params
+    );
+
+    return parseInt(result.rows[0]?.count ?? "0", 10);
+  }
+
+  /**
+   * Build WHERE clauses for a query filter.
+   */
+  private buildFilter(
+    sagaName: string,
+    filter: SagaQueryFilter
+  ): { clauses: string[]; params: unknown[] } {
+    const clauses = ["saga_name = $1"];
+    const params: unknown[] = [sagaName];
+
+    const add = (sql: string, value: unknown) => {
+      params.push(value);
+      clauses.push(sql.replace("?", `$${params.length}`));
+    };
+
+    if (filter.completed !== undefined) {
+      add("is_completed = ?", filter.completed);
+    }
+    if (filter.createdAt?.from) add("created_at >= ?", filter.createdAt.from);
+    if (filter.createdAt?.to) add("created_at < ?", filter.createdAt.to);
+    if (filter.updatedAt?.from) add("updated_at >= ?", filter.updatedAt.from);
+    if (filter.updatedAt?.to) add("updated_at < ?", filter.updatedAt.to);
+    if (filter.timeoutExpiresBefore) {
+      add(
+        "(state->'metadata'->>'timeoutExpiresAt')::timestamptz < ?",
+        filter.timeoutExpiresBefore
+      );
+    }
+    if (filter.parentSagaId !== undefined) {
+      add("state->'metadata'->'parent'->>'sagaId' = ?", filter.parentSagaId);
+    }
+
+    return { clauses, params };
+  }
 }
@@ -1,3 +1,10 @@
 export { PostgresSagaStore } from "./PostgresSagaStore.js";
 export { createSchema, dropSchema, getSchemaSql } from "./schema.js";
-export type { PostgresSagaStoreOptions, SagaInstanceRow } from "./types.js";
+export type { SchemaOptions } from "./schema.js";
+export type {
+  PostgresSagaStoreOptions,
+  SagaInstanceRow,
+  SagaOutboxRow,
+  SagaScheduledMessageRow,
+  TransactionalTransport,
+} from "./types.js";
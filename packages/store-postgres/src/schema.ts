@@ -35,18 +35,94 @@ CREATE INDEX IF NOT EXISTS idx_saga_instances_incomplete
 CREATE INDEX IF NOT EXISTS idx_saga_instances_cleanup
   ON saga_instances (saga_name, is_completed, updated_at)
   WHERE is_completed = TRUE;
+
+-- Transactional outbox table
+CREATE TABLE IF NOT EXISTS saga_outbox (
+  id             VARCHAR(128) NOT NULL PRIMARY KEY,
+  saga_name      VARCHAR(128) NOT NULL,
+  saga_id        VARCHAR(128) NOT NULL,
+  message        JSONB NOT NULL,
+  options        JSONB NOT NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  attempts       INTEGER NOT NULL DEFAULT 0,
+  last_error     TEXT,
+  locked_until   TIMESTAMPTZ,
+  dispatched_at  TIMESTAMPTZ
+);
+
+-- Index for the outbox relay (pending messages in order)
+CREATE INDEX IF NOT EXISTS idx_saga_outbox_pending
+  ON saga_outbox (created_at)
+  WHERE dispatched_at IS NULL;
+
+-- Saga state transitions (when history is enabled)
+CREATE TABLE IF NOT EXISTS saga_history (
+  id               VARCHAR(128) NOT NULL PRIMARY KEY,
+  saga_name        VARCHAR(128) NOT NULL,
+  saga_id          VARCHAR(128) NOT NULL,
+  correlation_id   VARCHAR(256) NOT NULL,
+  message_id       VARCHAR(128) NOT NULL,
+  message_type     VARCHAR(256) NOT NULL,
+  outcome          VARCHAR(32) NOT NULL,
+  previous_version INTEGER,
+  version          INTEGER NOT NULL,
+  previous_state   JSONB,
+  state            JSONB NOT NULL,
+  trace_parent     VARCHAR(128),
+  recorded_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for reading a saga's history in order
+CREATE INDEX IF NOT EXISTS idx_saga_history_saga
+  ON saga_history (saga_name, saga_id, version);
+
+-- Index for retention cleanup
+CREATE INDEX IF NOT EXISTS idx_saga_history_recorded_at
+  ON saga_history (recorded_at);
+
+-- Delayed messages held by the durable scheduler
+CREATE TABLE IF NOT EXISTS saga_scheduled_messages (
+  id             VARCHAR(128) NOT NULL PRIMARY KEY,
+  message        JSONB NOT NULL,
+  options        JSONB NOT NULL,
+  due_at         TIMESTAMPTZ NOT NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  attempts       INTEGER NOT NULL DEFAULT 0,
+  last_error     TEXT,
+  locked_until   TIMESTAMPTZ
+);
+
+-- Index for the scheduler (due messages in order)
+CREATE INDEX IF NOT EXISTS idx_saga_scheduled_messages_due
+  ON saga_scheduled_messages (due_at);
 `.trim();
 }
 
 /**
- * Create the saga_instances table and indexes.
+ * Options for createSchema/dropSchema.
+ */
+export interface SchemaOptions {
+  schema?: string;
+  tableName?: string;
+  outboxTableName?: string;
+  scheduleTableName?: string;
+  historyTableName?: string;
+}
+
+/**
+ * Create the saga_instances, saga_outbox, saga_history and
+ * saga_scheduled_messages tables and indexes.
  */
 export async function createSchema(
   pool: Pool,
-  options?: { schema?: string; tableName?: string }
+  options?: SchemaOptions
 ): Promise<void> {
   const schema = options?.schema ?? "public";
   const tableName = options?.tableName ?? "saga_instances";
+  const outboxTableName = options?.outboxTableName ?? "saga_outbox";
+  const scheduleTableName =
+    options?.scheduleTableName ?? "saga_scheduled_messages";
+  const historyTableName = options?.historyTableName ?? "saga_history";
 
   // Set search path to the schema
   await pool.query(`SET search_path TO ${schema}`);
@@ -56,19 +132,42 @@ export async function createSchema(
   if (tableName !== "saga_instances") {
     sql = sql.replace(/saga_instances/g, tableName);
   }
+  if (outboxTableName !== "saga_outbox") {
+    sql = sql.replace(/saga_outbox/g, outboxTableName);
+  }
+  if (scheduleTableName !== "saga_scheduled_messages") {
+    sql = sql.replace(/saga_scheduled_messages/g, scheduleTableName);
+  }
+  if (historyTableName !== "saga_history") {
+    sql = sql.replace(/saga_history/g, historyTableName);
+  }
 
   await pool.query(sql);
 }
 
 /**
- * Drop the saga_instances table.
+ * Drop the saga_instances, saga_outbox, saga_history and
+ * saga_scheduled_messages tables.
  */
 export async function dropSchema(
   pool: Pool,
-  options?: { schema?: string; tableName?: string }
+  options?: SchemaOptions
 ): Promise<void> {
   const schema = options?.schema ?? "public";
   const tableName = options?.tableName ?? "saga_instances";
+  const outboxTableName = options?.outboxTableName ?? "saga_outbox";
+  const scheduleTableName =
+    options?.scheduleTableName ?? "saga_scheduled_messages";
+  const historyTableName = options?.historyTableName ?? "saga_history";
 
   await pool.query(`DROP TABLE IF EXISTS ${schema}.${tableName} CASCADE`);
+  await pool.query(
+    `DROP TABLE IF EXISTS ${schema}.${outboxTableName} CASCADE`
+  );
+  await pool.query(
+    `DROP TABLE IF EXISTS ${schema}.${scheduleTableName} CASCADE`
+  );
+  await pool.query(
+    `DROP TABLE IF EXISTS ${schema}.${historyTableName} CASCADE`
+  );
 }
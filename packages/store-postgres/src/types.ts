@@ -1,4 +1,5 @@
-import type { Pool, PoolConfig } from "pg";
+import type { Pool, PoolClient, PoolConfig } from "pg";
+import type { TransportBatchMessage } from "@saga-bus/core";
 
 /**
  * Options for creating a PostgresSagaStore.
@@ -18,6 +19,39 @@ export interface PostgresSagaStoreOptions {
    * Schema name. Default: "public"
    */
   schema?: string;
+
+  /**
+   * Table name for outbox messages. Default: "saga_outbox"
+   */
+  outboxTableName?: string;
+
+  /**
+   * Table name for scheduled messages. Default: "saga_scheduled_messages"
+   */
+  scheduleTableName?: string;
+
+  /**
+   * Table name for saga history. Default: "saga_history"
+   */
+  historyTableName?: string;
+
+  /**
+   * Queue outbox messages on this transport in the saga's transaction
+   * instead of writing them to the outbox table, e.g. a `PostgresTransport`
+   * from `@saga-bus/transport-postgres` on the same database. Needs the
+   * bus outbox to be enabled.
+   */
+  transport?: TransactionalTransport;
+}
+
+/**
+ * A transport that queues messages in the caller's transaction.
+ */
+export interface TransactionalTransport {
+  publishInTransaction(
+    client: PoolClient,
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void>;
 }
 
 /**
@@ -33,3 +67,52 @@ export interface SagaInstanceRow {
   created_at: Date;
   updated_at: Date;
 }
+
+/**
+ * Row structure in the saga_outbox table.
+ */
+export interface SagaOutboxRow {
+  id: string;
+  saga_name: string;
+  saga_id: string;
+  message: unknown; // JSONB
+  options: unknown; // JSONB
+  created_at: Date;
+  attempts: number;
+  last_error: string | null;
+  locked_until: Date | null;
+  dispatched_at: Date | null;
+}
+
+/**
+ * Row structure in the saga_history table.
+ */
+export interface SagaHistoryRow {
+  id: string;
+  saga_name: string;
+  saga_id: string;
+  correlation_id: string;
+  message_id: string;
+  message_type: string;
+  outcome: string;
+  previous_version: number | null;
+  version: number;
+  previous_state: unknown; // JSONB
+  state: unknown; // JSONB
+  trace_parent: string | null;
+  recorded_at: Date;
+}
+
+/**
+ * Row structure in the saga_scheduled_messages table.
+ */
+export interface SagaScheduledMessageRow {
+  id: string;
+  message: unknown; // JSONB
+  options: unknown; // JSONB
+  due_at: Date;
+  created_at: Date;
+  attempts: number;
+  last_error: string | null;
+  locked_until: Date | null;
+}
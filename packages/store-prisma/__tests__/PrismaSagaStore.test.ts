@@ -1,8 +1,19 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import type { SagaState, SagaStateMetadata } from "@saga-bus/core";
+import type {
+  OutboxMessage,
+  SagaState,
+  SagaStateMetadata,
+} from "@saga-bus/core";
 import { ConcurrencyError } from "@saga-bus/core";
 import { PrismaSagaStore } from "../src/PrismaSagaStore.js";
-import type { PrismaClientLike, SagaInstanceRecord } from "../src/types.js";
+import type {
+  DateTimeFilter,
+  PrismaClientLike,
+  SagaInstanceRecord,
+  SagaInstanceWhereInput,
+  SagaOutboxMessageRecord,
+  SagaScheduledMessageRecord,
+} from "../src/types.js";
 
 interface TestState extends SagaState {
   metadata: SagaStateMetadata;
@@ -35,14 +46,55 @@ function createTestState(
  */
 function createMockPrismaClient(): PrismaClientLike & {
   _store: Map<string, SagaInstanceRecord>;
+  _outbox: Map<string, SagaOutboxMessageRecord>;
+  _scheduled: Map<string, SagaScheduledMessageRecord>;
 } {
   const store = new Map<string, SagaInstanceRecord>();
+  const outbox = new Map<string, SagaOutboxMessageRecord>();
+  const scheduled = new Map<string, SagaScheduledMessageRecord>();
+
+  const isClaimable = (record: SagaOutboxMessageRecord, now: Date) =>
+    record.dispatchedAt === null &&
+    (record.lockedUntil === null || record.lockedUntil <= now);
 
   // Helper to create composite key
   const key = (sagaName: string, id: string) => `${sagaName}:${id}`;
 
-  return {
+  const matchesDate = (value: Date, filter: Date | DateTimeFilter) => {
+    if (filter instanceof Date) return value.getTime() === filter.getTime();
+    if (filter.gte && value < filter.gte) return false;
+    if (filter.gt && value <= filter.gt) return false;
+    if (filter.lt && value >= filter.lt) return false;
+    return true;
+  };
+
+  const matchesWhere = (
+    r: SagaInstanceRecord,
+    where: SagaInstanceWhereInput
+  ): boolean => {
+    if (where.sagaName !== undefined && r.sagaName !== where.sagaName)
+      return false;
+    if (where.isCompleted !== undefined && r.isCompleted !== where.isCompleted)
+      return false;
+    if (typeof where.id === "string" && r.id !== where.id) return false;
+    if (typeof where.id === "object") {
+      if (where.id.gt !== undefined && r.id <= where.id.gt) return false;
+      if (where.id.lt !== undefined && r.id >= where.id.lt) return false;
+    }
+    if (where.createdAt && !matchesDate(r.createdAt, where.createdAt))
+      return false;
+    if (where.updatedAt && !matchesDate(r.updatedAt, where.updatedAt))
+      return false;
+    if (where.AND && !where.AND.every((w) => matchesWhere(r, w)))
+      return false;
+    if (where.OR && !where.OR.some((w) => matchesWhere(r, w))) return false;
+    return true;
+  };
+
+  const client: ReturnType<typeof createMockPrismaClient> = {
     _store: store,
+    _outbox: outbox,
+    _scheduled: scheduled,
     sagaInstance: {
       findUnique: async ({ where }) => {
         const { sagaName, id } = where.sagaName_id;
@@ -62,20 +114,23 @@ function createMockPrismaClient(): PrismaClientLike & {
       },
 
       findMany: async ({ where, orderBy, take, skip }) => {
-        let records = Array.from(store.values()).filter(
-          (r) => r.sagaName === where.sagaName
+        let records = Array.from(store.values()).filter((r) =>
+          matchesWhere(r, where)
         );
 
-        if (where.isCompleted !== undefined) {
-          records = records.filter((r) => r.isCompleted === where.isCompleted);
-        }
-
-        // Sort by createdAt
-        if (orderBy?.createdAt === "desc") {
-          records.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-        } else {
-          records.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-        }
+        const orders = Array.isArray(orderBy)
+          ? orderBy
+          : [{ createdAt: orderBy?.createdAt ?? "asc" }];
+        records.sort((a, b) => {
+          for (const order of orders) {
+            for (const [field, dir] of Object.entries(order)) {
+              const f = field as "createdAt" | "updatedAt" | "id";
+              const cmp = a[f] < b[f] ? -1 : a[f] > b[f] ? 1 : 0;
+              if (cmp !== 0) return dir === "desc" ? -cmp : cmp;
+            }
+          }
+          return 0;
+        });
 
         if (skip) {
           records = records.slice(skip);
@@ -179,17 +234,151 @@ function createMockPrismaClient(): PrismaClientLike & {
       count: async ({ where }) => {
         let count = 0;
         for (const record of store.values()) {
-          if (record.sagaName !== where.sagaName) continue;
-          if (
-            where.isCompleted !== undefined &&
-            record.isCompleted !== where.isCompleted
-          )
-            continue;
-          count++;
+          if (matchesWhere(record, where)) count++;
         }
         return count;
       },
     },
+
+    sagaOutboxMessage: {
+      create: async ({ data }) => {
+        const record: SagaOutboxMessageRecord = {
+          ...data,
+          attempts: 0,
+          lastError: null,
+          lockedUntil: null,
+          dispatchedAt: null,
+        };
+        outbox.set(data.id, record);
+        return record;
+      },
+
+      findMany: async ({ where, take }) => {
+        const now = where.OR[1].lockedUntil.lte;
+        return Array.from(outbox.values())
+          .filter((r) => isClaimable(r, now))
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .slice(0, take);
+      },
+
+      updateMany: async ({ where, data }) => {
+        const record = outbox.get(where.id);
+        if (!record || !isClaimable(record, where.OR[1].lockedUntil.lte)) {
+          return { count: 0 };
+        }
+        outbox.set(where.id, { ...record, lockedUntil: data.lockedUntil });
+        return { count: 1 };
+      },
+
+      update: async ({ where, data }) => {
+        const record = outbox.get(where.id);
+        if (!record) {
+          throw new Error("Record not found");
+        }
+        const updated: SagaOutboxMessageRecord = {
+          ...record,
+          dispatchedAt: data.dispatchedAt ?? record.dispatchedAt,
+          lockedUntil:
+            data.lockedUntil !== undefined ? data.lockedUntil : record.lockedUntil,
+          lastError: data.lastError ?? record.lastError,
+          attempts: record.attempts + (data.attempts?.increment ?? 0),
+        };
+        outbox.set(where.id, updated);
+        return updated;
+      },
+
+      deleteMany: async ({ where }) => {
+        let count = 0;
+        for (const [id, record] of outbox.entries()) {
+          if (record.dispatchedAt && record.dispatchedAt < where.dispatchedAt.lt) {
+            outbox.delete(id);
+            count++;
+          }
+        }
+        return { count };
+      },
+    },
+
+    sagaScheduledMessage: {
+      create: async ({ data }) => {
+        const record: SagaScheduledMessageRecord = {
+          ...data,
+          lastError: null,
+          lockedUntil: null,
+        };
+        scheduled.set(data.id, record);
+        return record;
+      },
+
+      findMany: async ({ where, take }) => {
+        const now = where.dueAt.lte;
+        return Array.from(scheduled.values())
+          .filter(
+            (r) =>
+              r.dueAt <= now && (r.lockedUntil === null || r.lockedUntil <= now)
+          )
+          .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+          .slice(0, take);
+      },
+
+      updateMany: async ({ where, data }) => {
+        const record = scheduled.get(where.id);
+        const now = where.OR[1].lockedUntil.lte;
+        if (!record || (record.lockedUntil !== null && record.lockedUntil > now)) {
+          return { count: 0 };
+        }
+        scheduled.set(where.id, { ...record, lockedUntil: data.lockedUntil });
+        return { count: 1 };
+      },
+
+      update: async ({ where, data }) => {
+        const record = scheduled.get(where.id);
+        if (!record) {
+          throw new Error("Record not found");
+        }
+        const updated: SagaScheduledMessageRecord = {
+          ...record,
+          lockedUntil: data.lockedUntil,
+          lastError: data.lastError,
+          attempts: record.attempts + data.attempts.increment,
+        };
+        scheduled.set(where.id, updated);
+        return updated;
+      },
+
+      deleteMany: async ({ where }) => {
+        return { count: scheduled.delete(where.id) ? 1 : 0 };
+      },
+    },
+
+    // Roll back both tables if the callback throws
+    async $transaction(fn) {
+      const storeSnapshot = new Map(store);
+      const outboxSnapshot = new Map(outbox);
+      try {
+        return await fn(client);
+      } catch (error) {
+        store.clear();
+        storeSnapshot.forEach((v, k) => store.set(k, v));
+        outbox.clear();
+        outboxSnapshot.forEach((v, k) => outbox.set(k, v));
+        throw error;
+      }
+    },
+  };
+
+  return client;
+}
+
+function createOutboxMessage(id: string, sagaId: string): OutboxMessage {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId,
+    message: { type: "OrderShipped" },
+    options: { endpoint: "OrderShipped" },
+    createdAt: new Date(),
+    attempts: 0,
   };
 }
 
@@ -445,6 +634,81 @@ describe("PrismaSagaStore", () => {
     });
   });
 
+  describe("queries", () => {
+    const at = (iso: string) => new Date(iso);
+
+    beforeEach(async () => {
+      const seed: Array<[string, string, boolean, Date?]> = [
+        ["saga-a", "2024-01-01T00:00:00Z", true],
+        ["saga-b", "2024-01-02T00:00:00Z", false],
+        ["saga-c", "2024-01-03T00:00:00Z", false, at("2024-01-05T00:00:00Z")],
+        ["saga-d", "2024-01-03T00:00:00Z", false],
+      ];
+      for (const [sagaId, createdAt, isCompleted, timeoutExpiresAt] of seed) {
+        await store.insert(
+          sagaName,
+          sagaId,
+          createTestState(sagaId, {
+            metadata: {
+              sagaId,
+              version: 0,
+              createdAt: at(createdAt),
+              updatedAt: at(createdAt),
+              isCompleted,
+              timeoutExpiresAt,
+            },
+          })
+        );
+      }
+    });
+
+    it("should page through sagas with a cursor", async () => {
+      const first = await store.findSagas(sagaName, {
+        sortOrder: "asc",
+        limit: 2,
+      });
+      expect(first.items.map((s) => s.metadata.sagaId)).toEqual([
+        "saga-a",
+        "saga-b",
+      ]);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await store.findSagas(sagaName, {
+        sortOrder: "asc",
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((s) => s.metadata.sagaId)).toEqual([
+        "saga-c",
+        "saga-d",
+      ]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should filter by completion and creation date", async () => {
+      const result = await store.findSagas(sagaName, {
+        completed: false,
+        createdAt: { to: at("2024-01-03T00:00:00Z") },
+      });
+
+      expect(result.items.map((s) => s.metadata.sagaId)).toEqual(["saga-b"]);
+    });
+
+    it("should filter by timeout expiry", async () => {
+      const filter = { timeoutExpiresBefore: at("2024-02-01T00:00:00Z") };
+
+      const result = await store.findSagas(sagaName, { ...filter, limit: 1 });
+      expect(result.items.map((s) => s.metadata.sagaId)).toEqual(["saga-c"]);
+      expect(result.nextCursor).toBeNull();
+      expect(await store.countSagas(sagaName, filter)).toBe(1);
+    });
+
+    it("should count sagas matching a filter", async () => {
+      expect(await store.countSagas(sagaName)).toBe(4);
+      expect(await store.countSagas(sagaName, { completed: true })).toBe(1);
+    });
+  });
+
   describe("isolation between saga types", () => {
     it("should isolate different saga names", async () => {
       await store.insert(
@@ -471,4 +735,128 @@ describe("PrismaSagaStore", () => {
       expect(paymentCount).toBe(1);
     });
   });
+
+  describe("outbox", () => {
+    it("should write state and messages together", async () => {
+      await store.insertWithOutbox(sagaName, "order-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+      ]);
+
+      expect(prisma._store.size).toBe(1);
+
+      const claimed = await store.claimOutboxMessages(10, 30_000);
+      expect(claimed.map((m) => m.id)).toEqual(["out-1"]);
+      expect(await store.claimOutboxMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should roll back the saga when a message write fails", async () => {
+      await store.insertWithOutbox(sagaName, "order-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+      ]);
+
+      await expect(
+        store.insertWithOutbox(sagaName, "order-2", createTestState("saga-1"), [
+          createOutboxMessage("out-2", "saga-1"),
+        ])
+      ).rejects.toThrow("Record already exists");
+
+      expect(prisma._outbox.has("out-2")).toBe(false);
+    });
+
+    it("should not write messages on version mismatch", async () => {
+      await store.insert(sagaName, "order-1", createTestState("saga-1"));
+
+      const state = createTestState("saga-1");
+      const stale = { ...state, metadata: { ...state.metadata, version: 6 } };
+
+      await expect(
+        store.updateWithOutbox(sagaName, stale, 5, [
+          createOutboxMessage("out-1", "saga-1"),
+        ])
+      ).rejects.toThrow(ConcurrencyError);
+
+      expect(prisma._outbox.size).toBe(0);
+    });
+
+    it("should retry failed messages and clean up dispatched ones", async () => {
+      await store.insertWithOutbox(sagaName, "order-1", createTestState("saga-1"), [
+        createOutboxMessage("out-1", "saga-1"),
+        createOutboxMessage("out-2", "saga-1"),
+      ]);
+      await store.claimOutboxMessages(10, 30_000);
+
+      await store.markOutboxMessageFailed("out-1", "broker down");
+      await store.markOutboxMessageDispatched("out-2");
+
+      const retried = await store.claimOutboxMessages(10, 30_000);
+      expect(retried.map((m) => m.id)).toEqual(["out-1"]);
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+
+      const deleted = await store.deleteDispatchedOutboxMessages(
+        new Date(Date.now() + 60_000)
+      );
+      expect(deleted).toBe(1);
+    });
+
+    it("should require the outbox model", async () => {
+      const { sagaOutboxMessage: _omit, ...withoutOutbox } = prisma;
+      const plainStore = new PrismaSagaStore<TestState>({
+        prisma: withoutOutbox,
+      });
+
+      await expect(plainStore.claimOutboxMessages(10, 30_000)).rejects.toThrow(
+        "no SagaOutboxMessage model"
+      );
+    });
+  });
+
+  describe("scheduled messages", () => {
+    const schedule = async (id: string, offsetMs: number) => {
+      await store.insertScheduledMessage({
+        id,
+        message: { type: "OrderTimeout" },
+        options: { endpoint: "orders" },
+        dueAt: new Date(Date.now() + offsetMs),
+        createdAt: new Date(),
+        attempts: 0,
+      });
+    };
+
+    it("should claim only due messages, oldest first", async () => {
+      await schedule("later", 60_000);
+      await schedule("due-2", -1_000);
+      await schedule("due-1", -5_000);
+
+      const claimed = await store.claimDueScheduledMessages(10, 30_000);
+      expect(claimed.map((m) => m.id)).toEqual(["due-1", "due-2"]);
+      expect(await store.claimDueScheduledMessages(10, 30_000)).toHaveLength(0);
+    });
+
+    it("should release failed messages and delete published ones", async () => {
+      await schedule("s-1", -1_000);
+      await schedule("s-2", -1_000);
+      await store.claimDueScheduledMessages(10, 30_000);
+
+      await store.markScheduledMessageFailed("s-1", "broker down");
+      await store.deleteScheduledMessage("s-2");
+
+      const retried = await store.claimDueScheduledMessages(10, 30_000);
+      expect(retried.map((m) => m.id)).toEqual(["s-1"]);
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+      expect(prisma._scheduled.has("s-2")).toBe(false);
+    });
+
+    it("should require the scheduled message model", async () => {
+      const { sagaScheduledMessage: _omit, ...withoutSchedule } = prisma;
+      const plainStore = new PrismaSagaStore<TestState>({
+        prisma: withoutSchedule,
+      });
+
+      await expect(
+        plainStore.claimDueScheduledMessages(10, 30_000)
+      ).rejects.toThrow("no SagaScheduledMessage model");
+    });
+  });
 });
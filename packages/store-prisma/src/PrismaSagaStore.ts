@@ -1,9 +1,28 @@
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
+import type {
+  SagaOutboxStore,
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  SagaQueryCursor,
+  OutboxMessage,
+  ScheduledMessage,
+  ScheduledMessageStore,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  matchesSagaQueryFilter,
+  resolveSagaQuery,
+  toSagaQueryResult,
+} from "@saga-bus/core";
 import type {
   PrismaSagaStoreOptions,
   PrismaClientLike,
   SagaInstanceRecord,
+  SagaInstanceWhereInput,
+  SagaOutboxMessageRecord,
+  SagaScheduledMessageRecord,
 } from "./types.js";
 
 /**
@@ -23,7 +42,10 @@ import type {
  * ```
  */
 export class PrismaSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements
+    SagaOutboxStore<TState>,
+    SagaQueryableStore<TState>,
+    ScheduledMessageStore
 {
   private readonly prisma: PrismaClientLike;
 
@@ -62,10 +84,19 @@ export class PrismaSagaStore<TState extends SagaState>
   }
 
   async insert(sagaName: string, correlationId: string, state: TState): Promise<void> {
+    await this.insertState(this.prisma, sagaName, correlationId, state);
+  }
+
+  private async insertState(
+    prisma: PrismaClientLike,
+    sagaName: string,
+    correlationId: string,
+    state: TState
+  ): Promise<void> {
     const { sagaId, version, isCompleted, createdAt, updatedAt } =
       state.metadata;
 
-    await this.prisma.sagaInstance.create({
+    await prisma.sagaInstance.create({
       data: {
         id: sagaId,
         sagaName,
@@ -109,10 +140,35 @@ export class PrismaSagaStore<TState extends SagaState>
     state: TState,
     expectedVersion: number
   ): Promise<void> {
+    const updated = await this.updateState(
+      this.prisma,
+      sagaName,
+      state,
+      expectedVersion
+    );
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  /**
+   * @returns false if no record matched (missing saga or version mismatch)
+   */
+  private async updateState(
+    prisma: PrismaClientLike,
+    sagaName: string,
+    state: TState,
+    expectedVersion: number
+  ): Promise<boolean> {
     const { sagaId, version, isCompleted, updatedAt } = state.metadata;
 
     // Use updateMany with version check for optimistic concurrency
-    const result = await this.prisma.sagaInstance.updateMany({
+    const result = await prisma.sagaInstance.updateMany({
       where: {
         sagaName,
         id: sagaId,
@@ -126,18 +182,24 @@ export class PrismaSagaStore<TState extends SagaState>
       },
     });
 
-    if (result.count === 0) {
-      // Either saga doesn't exist or version mismatch
-      const existing = await this.getById(sagaName, sagaId);
-      if (existing) {
-        throw new ConcurrencyError(
-          sagaId,
-          expectedVersion,
-          existing.metadata.version
-        );
-      } else {
-        throw new Error(`Saga ${sagaId} not found`);
-      }
+    return result.count > 0;
+  }
+
+  private async throwUpdateConflict(
+    sagaName: string,
+    sagaId: string,
+    expectedVersion: number
+  ): Promise<never> {
+    // Either saga doesn't exist or version mismatch
+    const existing = await this.getById(sagaName, sagaId);
+    if (existing) {
+      throw new ConcurrencyError(
+        sagaId,
+        expectedVersion,
+        existing.metadata.version
+      );
+    } else {
+      throw new Error(`Saga ${sagaId} not found`);
     }
   }
 
@@ -151,6 +213,257 @@ export class PrismaSagaStore<TState extends SagaState>
     }
   }
 
+  // ============ Outbox ============
+
+  async insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.withTransaction(async (tx) => {
+      await this.insertState(tx, sagaName, correlationId, state);
+      await this.insertOutboxMessages(tx, messages);
+    });
+  }
+
+  async updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = await this.withTransaction(async (tx) => {
+      if (!(await this.updateState(tx, sagaName, state, expectedVersion))) {
+        return false;
+      }
+      await this.insertOutboxMessages(tx, messages);
+      return true;
+    });
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]> {
+    const outbox = this.getOutboxDelegate(this.prisma);
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + lockDurationMs);
+
+    const candidates = await outbox.findMany({
+      where: {
+        dispatchedAt: null,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+    });
+
+    // Prisma has no SKIP LOCKED, so each candidate is claimed with a
+    // conditional update; rows taken by another relay in between are skipped
+    const claimed: OutboxMessage[] = [];
+    for (const record of candidates) {
+      const result = await outbox.updateMany({
+        where: {
+          id: record.id,
+          dispatchedAt: null,
+          OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+        },
+        data: { lockedUntil },
+      });
+
+      if (result.count > 0) {
+        claimed.push(this.recordToOutboxMessage(record));
+      }
+    }
+
+    return claimed;
+  }
+
+  async markOutboxMessageDispatched(id: string): Promise<void> {
+    await this.getOutboxDelegate(this.prisma).update({
+      where: { id },
+      data: { dispatchedAt: new Date(), lockedUntil: null },
+    });
+  }
+
+  async markOutboxMessageFailed(id: string, error: string): Promise<void> {
+    await this.getOutboxDelegate(this.prisma).update({
+      where: { id },
+      data: {
+        attempts: { increment: 1 },
+        lastError: error,
+        lockedUntil: null,
+      },
+    });
+  }
+
+  async deleteDispatchedOutboxMessages(before: Date): Promise<number> {
+    const result = await this.getOutboxDelegate(this.prisma).deleteMany({
+      where: { dispatchedAt: { not: null, lt: before } },
+    });
+
+    return result.count;
+  }
+
+  private async insertOutboxMessages(
+    prisma: PrismaClientLike,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const outbox = this.getOutboxDelegate(prisma);
+    for (const entry of messages) {
+      await outbox.create({
+        data: {
+          id: entry.id,
+          sagaName: entry.sagaName,
+          sagaId: entry.sagaId,
+          message: entry.message as unknown,
+          options: entry.options as unknown,
+          createdAt: entry.createdAt,
+        },
+      });
+    }
+  }
+
+  private getOutboxDelegate(
+    prisma: PrismaClientLike
+  ): NonNullable<PrismaClientLike["sagaOutboxMessage"]> {
+    if (!prisma.sagaOutboxMessage) {
+      throw new Error(
+        "Prisma client has no SagaOutboxMessage model; add it to your schema to use the outbox"
+      );
+    }
+    return prisma.sagaOutboxMessage;
+  }
+
+  // ============ Scheduled Messages ============
+
+  async insertScheduledMessage(entry: ScheduledMessage): Promise<void> {
+    await this.getScheduleDelegate().create({
+      data: {
+        id: entry.id,
+        message: entry.message as unknown,
+        options: entry.options as unknown,
+        dueAt: entry.dueAt,
+        createdAt: entry.createdAt,
+        attempts: entry.attempts,
+      },
+    });
+  }
+
+  async claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]> {
+    const schedule = this.getScheduleDelegate();
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + lockDurationMs);
+
+    const candidates = await schedule.findMany({
+      where: {
+        dueAt: { lte: now },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      },
+      orderBy: { dueAt: "asc" },
+      take: limit,
+    });
+
+    // Same conditional-update claim as the outbox
+    const claimed: ScheduledMessage[] = [];
+    for (const record of candidates) {
+      const result = await schedule.updateMany({
+        where: {
+          id: record.id,
+          OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+        },
+        data: { lockedUntil },
+      });
+
+      if (result.count > 0) {
+        claimed.push(this.recordToScheduledMessage(record));
+      }
+    }
+
+    return claimed;
+  }
+
+  async deleteScheduledMessage(id: string): Promise<void> {
+    await this.getScheduleDelegate().deleteMany({ where: { id } });
+  }
+
+  async markScheduledMessageFailed(id: string, error: string): Promise<void> {
+    await this.getScheduleDelegate().update({
+      where: { id },
+      data: {
+        attempts: { increment: 1 },
+        lastError: error,
+        lockedUntil: null,
+      },
+    });
+  }
+
+  private getScheduleDelegate(): NonNullable<
+    PrismaClientLike["sagaScheduledMessage"]
+  > {
+    if (!this.prisma.sagaScheduledMessage) {
+      throw new Error(
+        "Prisma client has no SagaScheduledMessage model; add it to your schema to use the scheduler"
+      );
+    }
+    return this.prisma.sagaScheduledMessage;
+  }
+
+  private recordToScheduledMessage(
+    record: SagaScheduledMessageRecord
+  ): ScheduledMessage {
+    return {
+      id: record.id,
+      message: record.message as ScheduledMessage["message"],
+      options: record.options as ScheduledMessage["options"],
+      dueAt: record.dueAt,
+      createdAt: record.createdAt,
+      attempts: record.attempts,
+      lastError: record.lastError,
+    };
+  }
+
+  /**
+   * Run a callback inside an interactive transaction.
+   */
+  private async withTransaction<T>(
+    fn: (tx: PrismaClientLike) => Promise<T>
+  ): Promise<T> {
+    if (!this.prisma.$transaction) {
+      throw new Error(
+        "Prisma client does not support interactive transactions"
+      );
+    }
+    return this.prisma.$transaction(fn);
+  }
+
+  private recordToOutboxMessage(
+    record: SagaOutboxMessageRecord
+  ): OutboxMessage {
+    return {
+      id: record.id,
+      sagaName: record.sagaName,
+      sagaId: record.sagaId,
+      message: record.message as OutboxMessage["message"],
+      options: record.options as OutboxMessage["options"],
+      createdAt: record.createdAt,
+      attempts: record.attempts,
+      lastError: record.lastError,
+    };
+  }
+
   /**
    * Convert a Prisma record to saga state.
    */
@@ -230,4 +543,106 @@ export class PrismaSagaStore<TState extends SagaState>
 
     return result.count;
   }
+
+  /**
+   * Find sagas matching a query with cursor pagination.
+   *
+   * The timeout and parent filters live inside the Json state, which Prisma
+   * cannot filter portably across databases, so they are applied in memory
+   * while paging through the remaining matches.
+   */
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    const resolved = resolveSagaQuery(query);
+    const where = this.buildWhere(sagaName, resolved.filter);
+    const field = resolved.sortBy;
+    const direction = resolved.sortOrder;
+    const batchSize = resolved.limit + 1;
+
+    const items: TState[] = [];
+    let after = resolved.after;
+
+    for (;;) {
+      const records = await this.prisma.sagaInstance.findMany({
+        where: after
+          ? { AND: [where, this.buildKeyset(field, direction, after)] }
+          : where,
+        orderBy: [{ [field]: direction }, { id: direction }],
+        take: batchSize,
+      });
+
+      for (const record of records) {
+        const state = this.recordToState(record);
+        if (matchesSagaQueryFilter(state, resolved.filter)) {
+          items.push(state);
+        }
+      }
+
+      const last = records[records.length - 1];
+      if (items.length >= batchSize || records.length < batchSize || !last) {
+        break;
+      }
+      after = { value: last[field], sagaId: last.id };
+    }
+
+    return toSagaQueryResult(items.slice(0, batchSize), resolved);
+  }
+
+  /**
+   * Count sagas matching a filter.
+   */
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    const where = this.buildWhere(sagaName, filter);
+
+    if (!filter.timeoutExpiresBefore && filter.parentSagaId === undefined) {
+      return this.prisma.sagaInstance.count({ where });
+    }
+
+    const records = await this.prisma.sagaInstance.findMany({ where });
+    return records.filter((record) =>
+      matchesSagaQueryFilter(this.recordToState(record), filter)
+    ).length;
+  }
+
+  private buildWhere(
+    sagaName: string,
+    filter: SagaQueryFilter
+  ): SagaInstanceWhereInput {
+    const where: SagaInstanceWhereInput = { sagaName };
+
+    if (filter.completed !== undefined) {
+      where.isCompleted = filter.completed;
+    }
+
+    for (const field of ["createdAt", "updatedAt"] as const) {
+      const range = filter[field];
+      if (range?.from || range?.to) {
+        where[field] = {
+          ...(range.from ? { gte: range.from } : {}),
+          ...(range.to ? { lt: range.to } : {}),
+        };
+      }
+    }
+
+    return where;
+  }
+
+  private buildKeyset(
+    field: "createdAt" | "updatedAt",
+    direction: "asc" | "desc",
+    after: SagaQueryCursor
+  ): SagaInstanceWhereInput {
+    const op = direction === "asc" ? "gt" : "lt";
+    return {
+      OR: [
+        { [field]: { [op]: after.value } },
+        { [field]: after.value, id: { [op]: after.sagaId } },
+      ],
+    };
+  }
 }
@@ -3,4 +3,8 @@ export type {
   PrismaSagaStoreOptions,
   PrismaClientLike,
   SagaInstanceRecord,
+  SagaInstanceWhereInput,
+  SagaInstanceOrderByInput,
+  SagaOutboxMessageRecord,
+  SagaScheduledMessageRecord,
 } from "./types.js";
@@ -16,11 +16,10 @@ export interface PrismaClientLike {
     }) => Promise<SagaInstanceRecord | null>;
 
     findMany: (args: {
-      where: {
-        sagaName: string;
-        isCompleted?: boolean;
-      };
-      orderBy?: { createdAt: "asc" | "desc" };
+      where: SagaInstanceWhereInput;
+      orderBy?:
+        | { createdAt: "asc" | "desc" }
+        | SagaInstanceOrderByInput[];
       take?: number;
       skip?: number;
     }) => Promise<SagaInstanceRecord[]>;
@@ -56,14 +55,128 @@ export interface PrismaClientLike {
     }) => Promise<{ count: number }>;
 
     count: (args: {
+      where: SagaInstanceWhereInput;
+    }) => Promise<number>;
+  };
+
+  /**
+   * Outbox model delegate. Only required when the transactional
+   * outbox is enabled (see `prisma/schema.prisma.example`).
+   */
+  sagaOutboxMessage?: {
+    create: (args: {
+      data: SagaOutboxMessageCreateInput;
+    }) => Promise<SagaOutboxMessageRecord>;
+
+    findMany: (args: {
       where: {
-        sagaName: string;
-        isCompleted?: boolean;
+        dispatchedAt: null;
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: Date } }];
       };
-    }) => Promise<number>;
+      orderBy: { createdAt: "asc" };
+      take: number;
+    }) => Promise<SagaOutboxMessageRecord[]>;
+
+    updateMany: (args: {
+      where: {
+        id: string;
+        dispatchedAt: null;
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: Date } }];
+      };
+      data: { lockedUntil: Date };
+    }) => Promise<{ count: number }>;
+
+    update: (args: {
+      where: { id: string };
+      data: {
+        dispatchedAt?: Date;
+        lockedUntil?: null;
+        lastError?: string;
+        attempts?: { increment: number };
+      };
+    }) => Promise<SagaOutboxMessageRecord>;
+
+    deleteMany: (args: {
+      where: { dispatchedAt: { not: null; lt: Date } };
+    }) => Promise<{ count: number }>;
   };
+
+  /**
+   * Scheduled message model delegate. Only required when the store backs
+   * a `SchedulingTransport` (see `prisma/schema.prisma.example`).
+   */
+  sagaScheduledMessage?: {
+    create: (args: {
+      data: SagaScheduledMessageCreateInput;
+    }) => Promise<SagaScheduledMessageRecord>;
+
+    findMany: (args: {
+      where: {
+        dueAt: { lte: Date };
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: Date } }];
+      };
+      orderBy: { dueAt: "asc" };
+      take: number;
+    }) => Promise<SagaScheduledMessageRecord[]>;
+
+    updateMany: (args: {
+      where: {
+        id: string;
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: Date } }];
+      };
+      data: { lockedUntil: Date };
+    }) => Promise<{ count: number }>;
+
+    update: (args: {
+      where: { id: string };
+      data: {
+        lockedUntil: null;
+        lastError: string;
+        attempts: { increment: number };
+      };
+    }) => Promise<SagaScheduledMessageRecord>;
+
+    deleteMany: (args: {
+      where: { id: string };
+    }) => Promise<{ count: number }>;
+  };
+
+  /**
+   * Interactive transaction. Only required when the transactional
+   * outbox is enabled.
+   */
+  $transaction?<T>(fn: (tx: PrismaClientLike) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Date comparison filter (subset of Prisma's DateTimeFilter).
+ */
+export interface DateTimeFilter {
+  gte?: Date;
+  gt?: Date;
+  lt?: Date;
+}
+
+/**
+ * Filter for SagaInstance queries (subset of Prisma's generated WhereInput).
+ */
+export interface SagaInstanceWhereInput {
+  sagaName?: string;
+  id?: string | { gt?: string; lt?: string };
+  isCompleted?: boolean;
+  createdAt?: Date | DateTimeFilter;
+  updatedAt?: Date | DateTimeFilter;
+  AND?: SagaInstanceWhereInput[];
+  OR?: SagaInstanceWhereInput[];
 }
 
+/**
+ * Sort order for SagaInstance queries.
+ */
+export type SagaInstanceOrderByInput = Partial<
+  Record<"createdAt" | "updatedAt" | "id", "asc" | "desc">
+>;
+
 /**
  * Shape of a SagaInstance record from Prisma.
  */
@@ -102,6 +215,60 @@ export interface SagaInstanceUpdateInput {
   updatedAt?: Date;
 }
 
+/**
+ * Shape of a SagaOutboxMessage record from Prisma.
+ */
+export interface SagaOutboxMessageRecord {
+  id: string;
+  sagaName: string;
+  sagaId: string;
+  message: unknown; // Json
+  options: unknown; // Json
+  createdAt: Date;
+  attempts: number;
+  lastError: string | null;
+  lockedUntil: Date | null;
+  dispatchedAt: Date | null;
+}
+
+/**
+ * Input for creating a SagaOutboxMessage.
+ */
+export interface SagaOutboxMessageCreateInput {
+  id: string;
+  sagaName: string;
+  sagaId: string;
+  message: unknown;
+  options: unknown;
+  createdAt: Date;
+}
+
+/**
+ * Shape of a SagaScheduledMessage record from Prisma.
+ */
+export interface SagaScheduledMessageRecord {
+  id: string;
+  message: unknown; // Json
+  options: unknown; // Json
+  dueAt: Date;
+  createdAt: Date;
+  attempts: number;
+  lastError: string | null;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Input for creating a SagaScheduledMessage.
+ */
+export interface SagaScheduledMessageCreateInput {
+  id: string;
+  message: unknown;
+  options: unknown;
+  dueAt: Date;
+  createdAt: Date;
+  attempts: number;
+}
+
 /**
  * Options for creating a PrismaSagaStore.
  */
@@ -26,6 +26,8 @@ vi.mock("ioredis", () => {
     watch: vi.fn().mockResolvedValue("OK"),
     unwatch: vi.fn().mockResolvedValue("OK"),
     multi: vi.fn(() => createMockMulti()),
+    scan: vi.fn().mockResolvedValue(["0", []]),
+    mget: vi.fn().mockResolvedValue([]),
     quit: vi.fn().mockResolvedValue("OK"),
   };
 
@@ -85,6 +87,8 @@ async function getMocks() {
       watch: ReturnType<typeof vi.fn>;
       unwatch: ReturnType<typeof vi.fn>;
       multi: ReturnType<typeof vi.fn>;
+      scan: ReturnType<typeof vi.fn>;
+      mget: ReturnType<typeof vi.fn>;
       quit: ReturnType<typeof vi.fn>;
     };
     __createMockMulti: () => {
@@ -516,6 +520,99 @@ describe("RedisSagaStore", () => {
     });
   });
 
+  describe("queries", () => {
+    const serialize = (state: TestState) =>
+      JSON.stringify({
+        ...state,
+        metadata: {
+          ...state.metadata,
+          createdAt: state.metadata.createdAt.toISOString(),
+          updatedAt: state.metadata.updatedAt.toISOString(),
+        },
+      });
+
+    const stateAt = (sagaId: string, iso: string, isCompleted = false) =>
+      createTestState({
+        metadata: {
+          ...createTestState().metadata,
+          sagaId,
+          createdAt: new Date(iso),
+          updatedAt: new Date(iso),
+          isCompleted,
+        },
+      });
+
+    async function setupScan(states: TestState[]) {
+      const { __mockRedis } = await getMocks();
+      __mockRedis.scan.mockResolvedValueOnce([
+        "0",
+        [
+          ...states.map((s) => `saga-bus:saga:OrderSaga:${s.metadata.sagaId}`),
+          "saga-bus:saga:OrderSaga:idx:id:saga-1",
+        ],
+      ]);
+      __mockRedis.mget.mockResolvedValueOnce(states.map(serialize));
+
+      const store = new RedisSagaStore<TestState>({
+        connection: { host: "localhost", port: 6379 },
+      });
+      await store.initialize();
+      return { store, mockRedis: __mockRedis };
+    }
+
+    it("should scan saga keys and skip the ID index", async () => {
+      const { store, mockRedis } = await setupScan([
+        stateAt("saga-1", "2024-01-01T00:00:00Z"),
+        stateAt("saga-2", "2024-01-02T00:00:00Z"),
+      ]);
+
+      const result = await store.findSagas("OrderSaga", { limit: 1 });
+
+      expect(mockRedis.scan).toHaveBeenCalledWith(
+        "0",
+        "MATCH",
+        "saga-bus:saga:OrderSaga:*",
+        "COUNT",
+        100
+      );
+      expect(mockRedis.mget).toHaveBeenCalledWith(
+        "saga-bus:saga:OrderSaga:saga-1",
+        "saga-bus:saga:OrderSaga:saga-2"
+      );
+      expect(result.items.map((s) => s.metadata.sagaId)).toEqual(["saga-2"]);
+      expect(result.nextCursor).not.toBeNull();
+    });
+
+    it("should count sagas matching a filter", async () => {
+      const { store } = await setupScan([
+        stateAt("saga-1", "2024-01-01T00:00:00Z", true),
+        stateAt("saga-2", "2024-01-02T00:00:00Z"),
+      ]);
+
+      expect(await store.countSagas("OrderSaga", { completed: true })).toBe(1);
+    });
+
+    it("should delete completed sagas updated before a date", async () => {
+      const { store, mockRedis } = await setupScan([
+        stateAt("saga-1", "2024-01-01T00:00:00Z", true),
+        stateAt("saga-2", "2024-03-01T00:00:00Z", true),
+        stateAt("saga-3", "2024-01-01T00:00:00Z"),
+      ]);
+      mockRedis.get.mockResolvedValue("order-1");
+
+      const deleted = await store.deleteCompletedBefore(
+        "OrderSaga",
+        new Date("2024-02-01T00:00:00Z")
+      );
+
+      expect(deleted).toBe(1);
+      expect(mockRedis.del).toHaveBeenCalledWith(
+        "saga-bus:saga:OrderSaga:order-1",
+        "saga-bus:saga:OrderSaga:idx:id:saga-1"
+      );
+    });
+  });
+
   describe("serialization", () => {
     it("should handle null timeoutExpiresAt", async () => {
       const { __mockRedis } = await getMocks();
@@ -1,6 +1,16 @@
 import { Redis } from "ioredis";
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
+import type {
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  applySagaQuery,
+  matchesSagaQueryFilter,
+} from "@saga-bus/core";
 import type { RedisSagaStoreOptions } from "./types.js";
 
 /**
@@ -21,7 +31,7 @@ import type { RedisSagaStoreOptions } from "./types.js";
  * ```
  */
 export class RedisSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements SagaQueryableStore<TState>
 {
   private redis: Redis | null = null;
   private readonly options: Required<
@@ -231,6 +241,84 @@ export class RedisSagaStore<TState extends SagaState>
     await this.redis.del(key, indexKey);
   }
 
+  /**
+   * Find sagas matching a query with cursor pagination.
+   *
+   * Redis has no secondary indexes here, so this SCANs every saga of
+   * the given type and filters in memory. Fine for admin tooling and
+   * cleanup jobs; avoid on hot paths with very large keyspaces.
+   */
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    return applySagaQuery(await this.loadAll(sagaName), query);
+  }
+
+  /**
+   * Count sagas matching a filter (SCAN-based, see `findSagas`).
+   */
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    const states = await this.loadAll(sagaName);
+    return states.filter((state) => matchesSagaQueryFilter(state, filter))
+      .length;
+  }
+
+  /**
+   * Delete completed sagas last updated before a given date.
+   * Prefer `completedTtlSeconds` for routine cleanup.
+   */
+  async deleteCompletedBefore(sagaName: string, before: Date): Promise<number> {
+    const states = await this.loadAll(sagaName);
+    const expired = states.filter(
+      (state) =>
+        state.metadata.isCompleted &&
+        state.metadata.updatedAt.getTime() < before.getTime()
+    );
+
+    for (const state of expired) {
+      await this.delete(sagaName, state.metadata.sagaId);
+    }
+
+    return expired.length;
+  }
+
+  private async loadAll(sagaName: string): Promise<TState[]> {
+    if (!this.redis) throw new Error("Store not initialized");
+
+    const prefix = `${this.options.keyPrefix}saga:${sagaName}:`;
+    const indexPrefix = `${prefix}idx:`;
+    const states: TState[] = [];
+    let cursor = "0";
+
+    do {
+      const [next, keys] = await this.redis.scan(
+        cursor,
+        "MATCH",
+        `${prefix}*`,
+        "COUNT",
+        100
+      );
+      cursor = next;
+
+      const stateKeys = keys.filter((key) => !key.startsWith(indexPrefix));
+      if (stateKeys.length === 0) continue;
+
+      const values = await this.redis.mget(...stateKeys);
+      for (const value of values) {
+        // Keys may expire between SCAN and MGET
+        if (value) {
+          states.push(this.deserializeState(value));
+        }
+      }
+    } while (cursor !== "0");
+
+    return states;
+  }
+
   private buildKey(sagaName: string, correlationId: string): string {
     return `${this.options.keyPrefix}saga:${sagaName}:${correlationId}`;
   }
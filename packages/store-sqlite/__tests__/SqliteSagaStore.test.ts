@@ -1,7 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import Database from "better-sqlite3";
 import { SqliteSagaStore, createSchema } from "../src/index.js";
-import { ConcurrencyError, type SagaState } from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  type OutboxMessage,
+  type SagaHistoryEntry,
+  type SagaState,
+  type ScheduledMessage,
+} from "@saga-bus/core";
 
 interface TestState extends SagaState {
   orderId: string;
@@ -28,6 +34,58 @@ function createTestState(
   };
 }
 
+function createOutboxMessage(
+  id: string,
+  sagaId: string = "saga-1"
+): OutboxMessage {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId,
+    message: { type: "OrderShipped" },
+    options: { endpoint: "OrderShipped" },
+    createdAt: new Date(),
+    attempts: 0,
+  };
+}
+
+function createScheduledMessage(
+  id: string,
+  dueInMs: number
+): ScheduledMessage {
+  return {
+    id,
+    message: { type: "SagaTimeoutExpired" },
+    options: { endpoint: "timeouts", key: "corr-1" },
+    dueAt: new Date(Date.now() + dueInMs),
+    createdAt: new Date(),
+    attempts: 0,
+  };
+}
+
+function createHistoryEntry(
+  id: string,
+  previousState: TestState | null,
+  state: TestState,
+  recordedAt: Date = new Date()
+): SagaHistoryEntry {
+  return {
+    id,
+    sagaName: "TestSaga",
+    sagaId: state.metadata.sagaId,
+    correlationId: "corr-1",
+    messageId: `msg-${id}`,
+    messageType: "OrderUpdated",
+    outcome: previousState ? "updated" : "created",
+    previousVersion: previousState?.metadata.version ?? null,
+    version: state.metadata.version,
+    previousState,
+    state,
+    traceParent: null,
+    recordedAt,
+  };
+}
+
 describe("SqliteSagaStore", () => {
   let db: Database.Database;
   let store: SqliteSagaStore<TestState>;
@@ -164,4 +222,228 @@ describe("SqliteSagaStore", () => {
       createSchema(db);
     });
   });
+
+  describe("scheduled messages", () => {
+    it("should claim only due messages, oldest first", async () => {
+      await store.insertScheduledMessage(createScheduledMessage("later", 60000));
+      await store.insertScheduledMessage(createScheduledMessage("due-2", -1000));
+      await store.insertScheduledMessage(createScheduledMessage("due-1", -2000));
+
+      const claimed = await store.claimDueScheduledMessages(10, 30000);
+      expect(claimed.map((m) => m.id)).toEqual(["due-1", "due-2"]);
+      expect(claimed[0]?.options).toEqual({ endpoint: "timeouts", key: "corr-1" });
+      expect(claimed[0]?.dueAt).toBeInstanceOf(Date);
+
+      expect(await store.claimDueScheduledMessages(10, 30000)).toHaveLength(0);
+    });
+
+    it("should release failed messages and delete published ones", async () => {
+      await store.insertScheduledMessage(createScheduledMessage("due-1", -1000));
+      await store.insertScheduledMessage(createScheduledMessage("due-2", -1000));
+      await store.claimDueScheduledMessages(10, 30000);
+
+      await store.deleteScheduledMessage("due-1");
+      await store.markScheduledMessageFailed("due-2", "broker down");
+
+      const retried = await store.claimDueScheduledMessages(10, 30000);
+      expect(retried.map((m) => m.id)).toEqual(["due-2"]);
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+    });
+  });
+
+  describe("outbox", () => {
+    it("should insert saga and outbox messages together", async () => {
+      const state = createTestState("saga-1");
+      await store.insertWithOutbox("TestSaga", "corr-123", state, [
+        createOutboxMessage("out-1"),
+      ]);
+
+      expect(await store.getById("TestSaga", "saga-1")).not.toBeNull();
+
+      const claimed = await store.claimOutboxMessages(10, 30000);
+      expect(claimed).toHaveLength(1);
+      expect(claimed[0]?.message.type).toBe("OrderShipped");
+      expect(claimed[0]?.options.endpoint).toBe("OrderShipped");
+      expect(claimed[0]?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it("should not write messages on version mismatch", async () => {
+      await store.insert("TestSaga", "corr-123", createTestState("saga-1"));
+
+      await expect(
+        store.updateWithOutbox("TestSaga", createTestState("saga-1", 6), 5, [
+          createOutboxMessage("out-1"),
+        ])
+      ).rejects.toThrow(ConcurrencyError);
+
+      expect(await store.claimOutboxMessages(10, 30000)).toHaveLength(0);
+    });
+
+    it("should hide claimed messages until released", async () => {
+      await store.insertWithOutbox(
+        "TestSaga",
+        "corr-123",
+        createTestState("saga-1"),
+        [createOutboxMessage("out-1"), createOutboxMessage("out-2")]
+      );
+
+      expect(await store.claimOutboxMessages(10, 30000)).toHaveLength(2);
+      expect(await store.claimOutboxMessages(10, 30000)).toHaveLength(0);
+
+      await store.markOutboxMessageFailed("out-1", "broker down");
+      await store.markOutboxMessageDispatched("out-2");
+
+      const retried = await store.claimOutboxMessages(10, 30000);
+      expect(retried).toHaveLength(1);
+      expect(retried[0]?.id).toBe("out-1");
+      expect(retried[0]?.attempts).toBe(1);
+      expect(retried[0]?.lastError).toBe("broker down");
+    });
+
+    it("should delete dispatched messages", async () => {
+      await store.insertWithOutbox(
+        "TestSaga",
+        "corr-123",
+        createTestState("saga-1"),
+        [createOutboxMessage("out-1"), createOutboxMessage("out-2")]
+      );
+      await store.markOutboxMessageDispatched("out-1");
+
+      const deleted = await store.deleteDispatchedOutboxMessages(
+        new Date(Date.now() + 1000)
+      );
+      expect(deleted).toBe(1);
+    });
+  });
+
+  describe("history", () => {
+    it("should record transitions with the state in one transaction", async () => {
+      const created = createTestState("saga-1", 0);
+      await store.insertWithHistory(
+        "TestSaga",
+        "corr-1",
+        created,
+        createHistoryEntry("h-1", null, created),
+        []
+      );
+
+      const updated = createTestState("saga-1", 1, { status: "shipped" });
+      await store.updateWithHistory(
+        "TestSaga",
+        updated,
+        0,
+        createHistoryEntry("h-2", created, updated),
+        [createOutboxMessage("out-1")]
+      );
+
+      const history = await store.getHistory("TestSaga", "saga-1");
+      expect(history.map((entry) => entry.id)).toEqual(["h-1", "h-2"]);
+      expect(history[0]?.previousState).toBeNull();
+      expect(history[1]).toMatchObject({
+        outcome: "updated",
+        previousVersion: 0,
+        version: 1,
+        previousState: { status: "pending" },
+        state: { status: "shipped" },
+      });
+      expect(history[1]?.recordedAt).toBeInstanceOf(Date);
+      expect(await store.claimOutboxMessages(10, 30_000)).toHaveLength(1);
+    });
+
+    it("should roll back the entry on version mismatch", async () => {
+      const created = createTestState("saga-1", 0);
+      await store.insert("TestSaga", "corr-1", created);
+
+      const stale = createTestState("saga-1", 6);
+      await expect(
+        store.updateWithHistory(
+          "TestSaga",
+          stale,
+          5,
+          createHistoryEntry("h-1", created, stale),
+          []
+        )
+      ).rejects.toThrow(ConcurrencyError);
+      expect(await store.getHistory("TestSaga", "saga-1")).toEqual([]);
+    });
+
+    it("should delete entries recorded before a date", async () => {
+      const created = createTestState("saga-1", 0);
+      await store.insertWithHistory(
+        "TestSaga",
+        "corr-1",
+        created,
+        createHistoryEntry("h-1", null, created, new Date("2024-01-01")),
+        []
+      );
+
+      expect(await store.deleteHistoryBefore(new Date("2025-01-01"))).toBe(1);
+      expect(await store.getHistory("TestSaga", "saga-1")).toEqual([]);
+    });
+  });
+
+  describe("queries", () => {
+    const at = (day: number) => new Date(Date.UTC(2024, 0, day));
+
+    beforeEach(async () => {
+      for (const [id, day, isCompleted] of [
+        ["saga-1", 1, true],
+        ["saga-2", 2, false],
+        ["saga-3", 3, false],
+      ] as const) {
+        const state = createTestState(id);
+        await store.insert("TestSaga", `corr-${id}`, {
+          ...state,
+          metadata: {
+            ...state.metadata,
+            createdAt: at(day),
+            updatedAt: at(day),
+            isCompleted,
+            timeoutExpiresAt: day === 2 ? at(5) : null,
+          },
+        });
+      }
+      await store.insert("OtherSaga", "corr-x", createTestState("saga-x"));
+    });
+
+    it("should page through sagas in order", async () => {
+      const first = await store.findSagas("TestSaga", {
+        sortOrder: "asc",
+        limit: 2,
+      });
+      expect(first.items.map((s) => s.metadata.sagaId)).toEqual([
+        "saga-1",
+        "saga-2",
+      ]);
+
+      const second = await store.findSagas("TestSaga", {
+        sortOrder: "asc",
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((s) => s.metadata.sagaId)).toEqual(["saga-3"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should filter by status, dates and timeout", async () => {
+      expect(await store.countSagas("TestSaga")).toBe(3);
+      expect(await store.countSagas("TestSaga", { completed: true })).toBe(1);
+      expect(
+        await store.countSagas("TestSaga", {
+          updatedAt: { from: at(2), to: at(3) },
+        })
+      ).toBe(1);
+
+      const expiring = await store.findSagas("TestSaga", {
+        timeoutExpiresBefore: at(6),
+      });
+      expect(expiring.items.map((s) => s.metadata.sagaId)).toEqual(["saga-2"]);
+    });
+
+    it("should delete completed sagas before a date", async () => {
+      expect(await store.deleteCompletedBefore("TestSaga", at(10))).toBe(1);
+      expect(await store.countSagas("TestSaga")).toBe(2);
+    });
+  });
 });
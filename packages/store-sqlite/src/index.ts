@@ -1,5 +1,21 @@
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
+import type {
+  SagaOutboxStore,
+  SagaHistoryStore,
+  SagaHistoryEntry,
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  OutboxMessage,
+  ScheduledMessage,
+  ScheduledMessageStore,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  resolveSagaQuery,
+  toSagaQueryResult,
+} from "@saga-bus/core";
 import type Database from "better-sqlite3";
 
 export interface SqliteSagaStoreOptions {
@@ -7,6 +23,12 @@ export interface SqliteSagaStoreOptions {
   db: Database.Database;
   /** Table name for saga states (default: 'saga_states') */
   tableName?: string;
+  /** Table name for outbox messages (default: 'saga_outbox') */
+  outboxTableName?: string;
+  /** Table name for scheduled messages (default: 'saga_scheduled_messages') */
+  scheduleTableName?: string;
+  /** Table name for saga history (default: 'saga_history') */
+  historyTableName?: string;
 }
 
 interface StoredSaga {
@@ -19,6 +41,66 @@ interface StoredSaga {
   updated_at: string;
 }
 
+interface StoredOutboxMessage {
+  id: string;
+  saga_name: string;
+  saga_id: string;
+  message: string;
+  options: string;
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+}
+
+interface StoredHistoryEntry {
+  id: string;
+  saga_name: string;
+  saga_id: string;
+  correlation_id: string;
+  message_id: string;
+  message_type: string;
+  outcome: string;
+  previous_version: number | null;
+  version: number;
+  previous_state: string | null;
+  state: string;
+  trace_parent: string | null;
+  recorded_at: string;
+}
+
+interface StoredScheduledMessage {
+  id: string;
+  message: string;
+  options: string;
+  due_at: string;
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+}
+
+interface ScheduleStatements {
+  insert: Database.Statement;
+  selectDue: Database.Statement;
+  lock: Database.Statement;
+  delete: Database.Statement;
+  markFailed: Database.Statement;
+}
+
+interface HistoryStatements {
+  insert: Database.Statement;
+  selectBySaga: Database.Statement;
+  deleteBefore: Database.Statement;
+}
+
+interface OutboxStatements {
+  insert: Database.Statement;
+  selectPending: Database.Statement;
+  lock: Database.Statement;
+  markDispatched: Database.Statement;
+  markFailed: Database.Statement;
+  deleteDispatched: Database.Statement;
+}
+
 /**
  * SQLite saga store - perfect for local development and testing.
  *
@@ -34,10 +116,17 @@ interface StoredSaga {
  * ```
  */
 export class SqliteSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements
+    SagaOutboxStore<TState>,
+    SagaHistoryStore<TState>,
+    SagaQueryableStore<TState>,
+    ScheduledMessageStore
 {
   private readonly db: Database.Database;
   private readonly tableName: string;
+  private readonly outboxTableName: string;
+  private readonly scheduleTableName: string;
+  private readonly historyTableName: string;
   private readonly statements: {
     getById: Database.Statement;
     getByCorrelationId: Database.Statement;
@@ -45,10 +134,17 @@ export class SqliteSagaStore<TState extends SagaState>
     update: Database.Statement;
     delete: Database.Statement;
   };
+  private outboxStatements: OutboxStatements | null = null;
+  private scheduleStatements: ScheduleStatements | null = null;
+  private historyStatements: HistoryStatements | null = null;
 
   constructor(options: SqliteSagaStoreOptions) {
     this.db = options.db;
     this.tableName = options.tableName ?? "saga_states";
+    this.outboxTableName = options.outboxTableName ?? "saga_outbox";
+    this.scheduleTableName =
+      options.scheduleTableName ?? "saga_scheduled_messages";
+    this.historyTableName = options.historyTableName ?? "saga_history";
 
     // Prepare statements for better performance
     this.statements = {
@@ -78,10 +174,129 @@ export class SqliteSagaStore<TState extends SagaState>
     };
   }
 
+  /**
+   * Outbox statements are prepared on first use, so databases created
+   * without the outbox table keep working when the outbox is disabled.
+   */
+  private getOutboxStatements(): OutboxStatements {
+    if (!this.outboxStatements) {
+      this.outboxStatements = {
+        insert: this.db.prepare(`
+          INSERT INTO ${this.outboxTableName} (id, saga_name, saga_id, message, options, created_at, attempts)
+          VALUES (?, ?, ?, ?, ?, ?, 0)
+        `),
+        selectPending: this.db.prepare(`
+          SELECT id, saga_name, saga_id, message, options, created_at, attempts, last_error
+          FROM ${this.outboxTableName}
+          WHERE dispatched_at IS NULL AND (locked_until IS NULL OR locked_until <= ?)
+          ORDER BY created_at, rowid
+          LIMIT ?
+        `),
+        lock: this.db.prepare(`
+          UPDATE ${this.outboxTableName}
+          SET locked_until = ?
+          WHERE id = ?
+        `),
+        markDispatched: this.db.prepare(`
+          UPDATE ${this.outboxTableName}
+          SET dispatched_at = ?, locked_until = NULL
+          WHERE id = ?
+        `),
+        markFailed: this.db.prepare(`
+          UPDATE ${this.outboxTableName}
+          SET attempts = attempts + 1, last_error = ?, locked_until = NULL
+          WHERE id = ?
+        `),
+        deleteDispatched: this.db.prepare(`
+          DELETE FROM ${this.outboxTableName}
+          WHERE dispatched_at IS NOT NULL AND dispatched_at < ?
+        `),
+      };
+    }
+    return this.outboxStatements;
+  }
+
+  /**
+   * Prepared on first use, like the outbox statements.
+   */
+  private getScheduleStatements(): ScheduleStatements {
+    if (!this.scheduleStatements) {
+      this.scheduleStatements = {
+        insert: this.db.prepare(`
+          INSERT INTO ${this.scheduleTableName} (id, message, options, due_at, created_at, attempts)
+          VALUES (?, ?, ?, ?, ?, 0)
+        `),
+        selectDue: this.db.prepare(`
+          SELECT id, message, options, due_at, created_at, attempts, last_error
+          FROM ${this.scheduleTableName}
+          WHERE due_at <= ? AND (locked_until IS NULL OR locked_until <= ?)
+          ORDER BY due_at, rowid
+          LIMIT ?
+        `),
+        lock: this.db.prepare(`
+          UPDATE ${this.scheduleTableName}
+          SET locked_until = ?
+          WHERE id = ?
+        `),
+        delete: this.db.prepare(`
+          DELETE FROM ${this.scheduleTableName}
+          WHERE id = ?
+        `),
+        markFailed: this.db.prepare(`
+          UPDATE ${this.scheduleTableName}
+          SET attempts = attempts + 1, last_error = ?, locked_until = NULL
+          WHERE id = ?
+        `),
+      };
+    }
+    return this.scheduleStatements;
+  }
+
+  /**
+   * Prepared on first use, like the outbox statements.
+   */
+  private getHistoryStatements(): HistoryStatements {
+    if (!this.historyStatements) {
+      this.historyStatements = {
+        insert: this.db.prepare(`
+          INSERT INTO ${this.historyTableName} (
+            id, saga_name, saga_id, correlation_id, message_id, message_type, outcome,
+            previous_version, version, previous_state, state, trace_parent, recorded_at
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `),
+        selectBySaga: this.db.prepare(`
+          SELECT *
+          FROM ${this.historyTableName}
+          WHERE saga_name = ? AND saga_id = ?
+          ORDER BY version, rowid
+        `),
+        deleteBefore: this.db.prepare(`
+          DELETE FROM ${this.historyTableName}
+          WHERE recorded_at < ?
+        `),
+      };
+    }
+    return this.historyStatements;
+  }
+
   private parseRow(row: StoredSaga): TState {
     return JSON.parse(row.state) as TState;
   }
 
+  private parseOutboxRow(row: StoredOutboxMessage): OutboxMessage {
+    return {
+      id: row.id,
+      sagaName: row.saga_name,
+      sagaId: row.saga_id,
+      message: JSON.parse(row.message) as OutboxMessage["message"],
+      options: JSON.parse(row.options) as OutboxMessage["options"],
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    };
+  }
+
   async getById(sagaName: string, sagaId: string): Promise<TState | null> {
     const row = this.statements.getById.get(sagaName, sagaId) as
       | StoredSaga
@@ -115,6 +330,348 @@ export class SqliteSagaStore<TState extends SagaState>
     correlationId: string,
     state: TState
   ): Promise<void> {
+    this.insertState(sagaName, correlationId, state);
+  }
+
+  async update(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number
+  ): Promise<void> {
+    if (!this.updateState(sagaName, state, expectedVersion)) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async delete(sagaName: string, sagaId: string): Promise<void> {
+    this.statements.delete.run(sagaName, sagaId);
+  }
+
+  // ============ Query Helpers ============
+
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    const resolved = resolveSagaQuery(query);
+    const { clauses, params } = this.buildFilter(sagaName, resolved.filter);
+
+    const column = resolved.sortBy === "updatedAt" ? "updated_at" : "created_at";
+    const direction = resolved.sortOrder === "asc" ? "ASC" : "DESC";
+
+    if (resolved.after) {
+      const op = resolved.sortOrder === "asc" ? ">" : "<";
+      const value = resolved.after.value.toISOString();
+      clauses.push(
+        `(${column} ${op} ? OR (${column} = ? AND saga_id ${op} ?))`
+      );
+      params.push(value, value, resolved.after.sagaId);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT state FROM ${this.tableName}
+         WHERE ${clauses.join(" AND ")}
+         ORDER BY ${column} ${direction}, saga_id ${direction}
+         LIMIT ?`
+      )
+      .all(...params, resolved.limit + 1) as Pick<StoredSaga, "state">[];
+
+    return toSagaQueryResult(
+      rows.map((row) => JSON.parse(row.state) as TState),
+      resolved
+    );
+  }
+
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    const { clauses, params } = this.buildFilter(sagaName, filter);
+
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM ${this.tableName}
+         WHERE ${clauses.join(" AND ")}`
+      )
+      .get(...params) as { count: number };
+
+    return row.count;
+  }
+
+  async deleteCompletedBefore(
+    sagaName: string,
+    before: Date
+  ): Promise<number> {
+    const result = this.db
+      .prepare(
+        `DELETE FROM ${this.tableName}
+         WHERE saga_name = ?
+           AND json_extract(state, '$.metadata.isCompleted') = 1
+           AND updated_at < ?`
+      )
+      .run(sagaName, before.toISOString());
+
+    return result.changes;
+  }
+
+  /**
+   * Build WHERE clauses for a query filter. Dates are stored as ISO
+   * strings, which sort chronologically.
+   */
+  private buildFilter(
+    sagaName: string,
+    filter: SagaQueryFilter
+  ): { clauses: string[]; params: (string | number)[] } {
+    const clauses = ["saga_name = ?"];
+    const params: (string | number)[] = [sagaName];
+
+    if (filter.completed !== undefined) {
+      clauses.push("json_extract(state, '$.metadata.isCompleted') = ?");
+      params.push(filter.completed ? 1 : 0);
+    }
+
+    for (const [column, range] of [
+      ["created_at", filter.createdAt],
+      ["updated_at", filter.updatedAt],
+    ] as const) {
+      if (range?.from) {
+        clauses.push(`${column} >= ?`);
+        params.push(range.from.toISOString());
+      }
+      if (range?.to) {
+        clauses.push(`${column} < ?`);
+        params.push(range.to.toISOString());
+      }
+    }
+
+    if (filter.timeoutExpiresBefore) {
+      clauses.push("json_extract(state, '$.metadata.timeoutExpiresAt') < ?");
+      params.push(filter.timeoutExpiresBefore.toISOString());
+    }
+
+    if (filter.parentSagaId !== undefined) {
+      clauses.push("json_extract(state, '$.metadata.parent.sagaId') = ?");
+      params.push(filter.parentSagaId);
+    }
+
+    return { clauses, params };
+  }
+
+  // ============ Outbox ============
+
+  async insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    this.db.transaction(() => {
+      this.insertState(sagaName, correlationId, state);
+      this.insertOutboxMessages(messages);
+    })();
+  }
+
+  async updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = this.db.transaction(() => {
+      if (!this.updateState(sagaName, state, expectedVersion)) {
+        return false;
+      }
+      this.insertOutboxMessages(messages);
+      return true;
+    })();
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]> {
+    const statements = this.getOutboxStatements();
+    const now = Date.now();
+
+    const rows = this.db.transaction(() => {
+      const pending = statements.selectPending.all(
+        new Date(now).toISOString(),
+        limit
+      ) as StoredOutboxMessage[];
+
+      const lockedUntil = new Date(now + lockDurationMs).toISOString();
+      for (const row of pending) {
+        statements.lock.run(lockedUntil, row.id);
+      }
+      return pending;
+    })();
+
+    return rows.map((row) => this.parseOutboxRow(row));
+  }
+
+  async markOutboxMessageDispatched(id: string): Promise<void> {
+    this.getOutboxStatements().markDispatched.run(new Date().toISOString(), id);
+  }
+
+  async markOutboxMessageFailed(id: string, error: string): Promise<void> {
+    this.getOutboxStatements().markFailed.run(error, id);
+  }
+
+  async deleteDispatchedOutboxMessages(before: Date): Promise<number> {
+    const result = this.getOutboxStatements().deleteDispatched.run(
+      before.toISOString()
+    );
+    return result.changes;
+  }
+
+  // ============ History ============
+
+  async insertWithHistory(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    this.db.transaction(() => {
+      this.insertState(sagaName, correlationId, state);
+      this.insertHistoryEntry(entry);
+      this.insertOutboxMessages(outbox);
+    })();
+  }
+
+  async updateWithHistory(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    entry: SagaHistoryEntry,
+    outbox: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = this.db.transaction(() => {
+      if (!this.updateState(sagaName, state, expectedVersion)) {
+        return false;
+      }
+      this.insertHistoryEntry(entry);
+      this.insertOutboxMessages(outbox);
+      return true;
+    })();
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async getHistory(sagaName: string, sagaId: string): Promise<SagaHistoryEntry[]> {
+    const rows = this.getHistoryStatements().selectBySaga.all(
+      sagaName,
+      sagaId
+    ) as StoredHistoryEntry[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      sagaName: row.saga_name,
+      sagaId: row.saga_id,
+      correlationId: row.correlation_id,
+      messageId: row.message_id,
+      messageType: row.message_type,
+      outcome: row.outcome as SagaHistoryEntry["outcome"],
+      previousVersion: row.previous_version,
+      version: row.version,
+      previousState: row.previous_state
+        ? (JSON.parse(row.previous_state) as SagaState)
+        : null,
+      state: JSON.parse(row.state) as SagaState,
+      traceParent: row.trace_parent,
+      recordedAt: new Date(row.recorded_at),
+    }));
+  }
+
+  async deleteHistoryBefore(before: Date): Promise<number> {
+    const result = this.getHistoryStatements().deleteBefore.run(
+      before.toISOString()
+    );
+    return result.changes;
+  }
+
+  // ============ Scheduled Messages ============
+
+  async insertScheduledMessage(entry: ScheduledMessage): Promise<void> {
+    this.getScheduleStatements().insert.run(
+      entry.id,
+      JSON.stringify(entry.message),
+      JSON.stringify(entry.options),
+      entry.dueAt.toISOString(),
+      entry.createdAt.toISOString()
+    );
+  }
+
+  async claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]> {
+    const statements = this.getScheduleStatements();
+    const now = new Date();
+    const nowIso = now.toISOString();
+
+    const rows = this.db.transaction(() => {
+      const due = statements.selectDue.all(
+        nowIso,
+        nowIso,
+        limit
+      ) as StoredScheduledMessage[];
+
+      const lockedUntil = new Date(
+        now.getTime() + lockDurationMs
+      ).toISOString();
+      for (const row of due) {
+        statements.lock.run(lockedUntil, row.id);
+      }
+      return due;
+    })();
+
+    return rows.map((row) => ({
+      id: row.id,
+      message: JSON.parse(row.message) as ScheduledMessage["message"],
+      options: JSON.parse(row.options) as ScheduledMessage["options"],
+      dueAt: new Date(row.due_at),
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    }));
+  }
+
+  async deleteScheduledMessage(id: string): Promise<void> {
+    this.getScheduleStatements().delete.run(id);
+  }
+
+  async markScheduledMessageFailed(id: string, error: string): Promise<void> {
+    this.getScheduleStatements().markFailed.run(error, id);
+  }
+
+  // ============ Helpers ============
+
+  private insertState(
+    sagaName: string,
+    correlationId: string,
+    state: TState
+  ): void {
     const { sagaId, version, createdAt, updatedAt } = state.metadata;
     const stateJson = JSON.stringify(state);
 
@@ -139,11 +696,14 @@ export class SqliteSagaStore<TState extends SagaState>
     }
   }
 
-  async update(
+  /**
+   * @returns false if no row matched (missing saga or version mismatch)
+   */
+  private updateState(
     sagaName: string,
     state: TState,
     expectedVersion: number
-  ): Promise<void> {
+  ): boolean {
     const { sagaId, version, updatedAt } = state.metadata;
     const stateJson = JSON.stringify(state);
 
@@ -156,29 +716,67 @@ export class SqliteSagaStore<TState extends SagaState>
       expectedVersion
     );
 
-    if (result.changes === 0) {
-      // Either saga doesn't exist or version mismatch
-      const existing = await this.getById(sagaName, sagaId);
+    return result.changes > 0;
+  }
 
-      if (!existing) {
-        throw new Error(`Saga ${sagaId} not found`);
-      }
+  private async throwUpdateConflict(
+    sagaName: string,
+    sagaId: string,
+    expectedVersion: number
+  ): Promise<never> {
+    // Either saga doesn't exist or version mismatch
+    const existing = await this.getById(sagaName, sagaId);
 
-      throw new ConcurrencyError(
-        sagaId,
-        expectedVersion,
-        existing.metadata.version
-      );
+    if (!existing) {
+      throw new Error(`Saga ${sagaId} not found`);
     }
+
+    throw new ConcurrencyError(
+      sagaId,
+      expectedVersion,
+      existing.metadata.version
+    );
   }
 
-  async delete(sagaName: string, sagaId: string): Promise<void> {
-    this.statements.delete.run(sagaName, sagaId);
+  private insertHistoryEntry(entry: SagaHistoryEntry): void {
+    this.getHistoryStatements().insert.run(
+      entry.id,
+      entry.sagaName,
+      entry.sagaId,
+      entry.correlationId,
+      entry.messageId,
+      entry.messageType,
+      entry.outcome,
+      entry.previousVersion,
+      entry.version,
+      entry.previousState ? JSON.stringify(entry.previousState) : null,
+      JSON.stringify(entry.state),
+      entry.traceParent,
+      entry.recordedAt.toISOString()
+    );
+  }
+
+  private insertOutboxMessages(messages: ReadonlyArray<OutboxMessage>): void {
+    if (messages.length === 0) {
+      return;
+    }
+    const statements = this.getOutboxStatements();
+    for (const entry of messages) {
+      statements.insert.run(
+        entry.id,
+        entry.sagaName,
+        entry.sagaId,
+        JSON.stringify(entry.message),
+        JSON.stringify(entry.options),
+        entry.createdAt.toISOString()
+      );
+    }
   }
 }
 
 /**
- * Create the saga_states table in the SQLite database.
+ * Create the saga_states, saga_outbox, saga_scheduled_messages and
+ * saga_history tables in the SQLite database.
  *
  * @example
  * ```typescript
@@ -191,7 +789,10 @@ export class SqliteSagaStore<TState extends SagaState>
  */
 export function createSchema(
   db: Database.Database,
-  tableName: string = "saga_states"
+  tableName: string = "saga_states",
+  outboxTableName: string = "saga_outbox",
+  scheduleTableName: string = "saga_scheduled_messages",
+  historyTableName: string = "saga_history"
 ): void {
   db.exec(`
     CREATE TABLE IF NOT EXISTS ${tableName} (
@@ -210,5 +811,57 @@ export function createSchema(
 
     CREATE INDEX IF NOT EXISTS idx_${tableName}_updated_at
     ON ${tableName} (updated_at);
+
+    CREATE TABLE IF NOT EXISTS ${outboxTableName} (
+      id TEXT PRIMARY KEY,
+      saga_name TEXT NOT NULL,
+      saga_id TEXT NOT NULL,
+      message TEXT NOT NULL,
+      options TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      locked_until TEXT,
+      dispatched_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_${outboxTableName}_pending
+    ON ${outboxTableName} (dispatched_at, created_at);
+
+    CREATE TABLE IF NOT EXISTS ${scheduleTableName} (
+      id TEXT PRIMARY KEY,
+      message TEXT NOT NULL,
+      options TEXT NOT NULL,
+      due_at TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      locked_until TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_${scheduleTableName}_due
+    ON ${scheduleTableName} (due_at);
+
+    CREATE TABLE IF NOT EXISTS ${historyTableName} (
+      id TEXT PRIMARY KEY,
+      saga_name TEXT NOT NULL,
+      saga_id TEXT NOT NULL,
+      correlation_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      message_type TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      previous_version INTEGER,
+      version INTEGER NOT NULL,
+      previous_state TEXT,
+      state TEXT NOT NULL,
+      trace_parent TEXT,
+      recorded_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_${historyTableName}_saga
+    ON ${historyTableName} (saga_name, saga_id, version);
+
+    CREATE INDEX IF NOT EXISTS idx_${historyTableName}_recorded_at
+    ON ${historyTableName} (recorded_at);
   `);
 }
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import type { SagaState } from "@saga-bus/core";
+import type {
+  OutboxMessage,
+  SagaState,
+  ScheduledMessage,
+} from "@saga-bus/core";
 import { ConcurrencyError } from "@saga-bus/core";
 
 // Mock mssql
@@ -14,6 +18,13 @@ const mockPool = {
   connect: vi.fn(),
 };
 
+const mockTransaction = {
+  begin: vi.fn(),
+  commit: vi.fn(),
+  rollback: vi.fn(),
+  request: vi.fn(() => mockRequest),
+};
+
 vi.mock("mssql", () => ({
   default: {
     ConnectionPool: vi.fn().mockImplementation(() => ({
@@ -25,6 +36,7 @@ vi.mock("mssql", () => ({
     Bit: { type: "bit" },
     DateTime2: { type: "datetime2" },
     MAX: -1,
+    Transaction: vi.fn(() => mockTransaction),
   },
   ConnectionPool: vi.fn().mockImplementation(() => ({
     ...mockPool,
@@ -35,6 +47,7 @@ vi.mock("mssql", () => ({
   Bit: { type: "bit" },
   DateTime2: { type: "datetime2" },
   MAX: -1,
+  Transaction: vi.fn(() => mockTransaction),
 }));
 
 import { SqlServerSagaStore } from "../src/SqlServerSagaStore.js";
@@ -72,6 +85,7 @@ describe("SqlServerSagaStore", () => {
     mockRequest.query.mockReset();
     mockRequest.input.mockReturnThis();
     mockPool.request.mockReturnValue(mockRequest);
+    mockTransaction.request.mockReturnValue(mockRequest);
   });
 
   describe("constructor", () => {
@@ -515,6 +529,95 @@ describe("SqlServerSagaStore", () => {
     });
   });
 
+  describe("findSagas", () => {
+    const row = (sagaId: string, createdAt: Date) => {
+      const state = createState();
+      return {
+        id: sagaId,
+        saga_name: "OrderSaga",
+        correlation_id: `order-${sagaId}`,
+        version: 1,
+        is_completed: false,
+        state: JSON.stringify({
+          ...state,
+          metadata: { ...state.metadata, sagaId, createdAt },
+        }),
+        created_at: createdAt,
+        updated_at: createdAt,
+      };
+    };
+
+    beforeEach(async () => {
+      store = new SqlServerSagaStore({
+        pool: { server: "localhost", database: "test" },
+      });
+      await store.initialize();
+    });
+
+    it("should fetch one extra row to detect the next page", async () => {
+      mockRequest.query.mockResolvedValue({
+        recordset: [
+          row("saga-3", new Date("2024-01-03T00:00:00Z")),
+          row("saga-2", new Date("2024-01-02T00:00:00Z")),
+        ],
+      });
+
+      const result = await store.findSagas("OrderSaga", { limit: 1 });
+
+      expect(mockRequest.input).toHaveBeenCalledWith("limit", { type: "int" }, 2);
+      expect(mockRequest.query).toHaveBeenCalledWith(
+        expect.stringContaining("ORDER BY created_at DESC, id DESC")
+      );
+      expect(result.items.map((s) => s.metadata.sagaId)).toEqual(["saga-3"]);
+      expect(result.nextCursor).not.toBeNull();
+    });
+
+    it("should apply filters and the cursor", async () => {
+      mockRequest.query.mockResolvedValueOnce({
+        recordset: [
+          row("saga-3", new Date("2024-01-03T00:00:00Z")),
+          row("saga-2", new Date("2024-01-02T00:00:00Z")),
+        ],
+      });
+      const first = await store.findSagas("OrderSaga", { limit: 1 });
+
+      mockRequest.query.mockResolvedValueOnce({ recordset: [] });
+      await store.findSagas("OrderSaga", {
+        sortBy: "updatedAt",
+        sortOrder: "asc",
+        completed: true,
+        timeoutExpiresBefore: new Date("2024-02-01T00:00:00Z"),
+        cursor: first.nextCursor,
+      });
+
+      const sqlText = mockRequest.query.mock.calls[1]![0] as string;
+      expect(sqlText).toContain("is_completed = @is_completed");
+      expect(sqlText).toContain("JSON_VALUE(state, '$.metadata.timeoutExpiresAt')");
+      expect(sqlText).toContain(
+        "(updated_at > @after_value OR (updated_at = @after_value AND id > @after_id))"
+      );
+      expect(mockRequest.input).toHaveBeenCalledWith(
+        "after_id",
+        expect.anything(),
+        "saga-3"
+      );
+    });
+
+    it("should count with date ranges", async () => {
+      mockRequest.query.mockResolvedValue({ recordset: [{ count: 4 }] });
+      const to = new Date("2024-01-01T00:00:00Z");
+
+      const count = await store.countSagas("OrderSaga", { createdAt: { to } });
+
+      expect(count).toBe(4);
+      expect(mockRequest.input).toHaveBeenCalledWith(
+        "created_at_to",
+        { type: "datetime2" },
+        to
+      );
+    });
+  });
+
   describe("schema handling", () => {
     it("should use dbo schema by default", async () => {
       store = new SqlServerSagaStore({
@@ -560,4 +663,172 @@ describe("SqlServerSagaStore", () => {
       );
     });
   });
+
+  describe("outbox", () => {
+    const outboxMessage: OutboxMessage = {
+      id: "out-1",
+      sagaName: "OrderSaga",
+      sagaId: "saga-123",
+      message: { type: "OrderShipped" },
+      options: { endpoint: "OrderShipped" },
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      attempts: 0,
+    };
+
+    beforeEach(async () => {
+      store = new SqlServerSagaStore({
+        pool: { server: "localhost", database: "test" },
+      });
+      await store.initialize();
+    });
+
+    it("should insert state and messages in one transaction", async () => {
+      mockRequest.query.mockResolvedValue({ rowsAffected: [1] });
+
+      await store.insertWithOutbox("OrderSaga", "order-123", createState(), [
+        outboxMessage,
+      ]);
+
+      expect(mockTransaction.begin).toHaveBeenCalled();
+      expect(mockTransaction.request).toHaveBeenCalledTimes(2);
+      expect(mockRequest.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO [dbo].[saga_outbox]")
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(mockPool.request).not.toHaveBeenCalled();
+    });
+
+    it("should skip messages and throw on version mismatch", async () => {
+      mockRequest.query.mockResolvedValueOnce({ rowsAffected: [0] });
+      mockRequest.query.mockResolvedValueOnce({ recordset: [] });
+
+      await expect(
+        store.updateWithOutbox("OrderSaga", createState(), 1, [outboxMessage])
+      ).rejects.toThrow("Saga saga-123 not found");
+
+      expect(mockTransaction.request).toHaveBeenCalledTimes(1);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it("should roll back when a write fails", async () => {
+      mockRequest.query.mockResolvedValueOnce({ rowsAffected: [1] });
+      mockRequest.query.mockRejectedValueOnce(new Error("disk full"));
+
+      await expect(
+        store.insertWithOutbox("OrderSaga", "order-123", createState(), [
+          outboxMessage,
+        ])
+      ).rejects.toThrow("disk full");
+
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockTransaction.commit).not.toHaveBeenCalled();
+    });
+
+    it("should claim pending messages with READPAST", async () => {
+      mockRequest.query.mockResolvedValue({
+        recordset: [
+          {
+            id: "out-1",
+            saga_name: "OrderSaga",
+            saga_id: "saga-123",
+            message: JSON.stringify(outboxMessage.message),
+            options: JSON.stringify(outboxMessage.options),
+            created_at: outboxMessage.createdAt,
+            attempts: 0,
+            last_error: null,
+          },
+        ],
+      });
+
+      const claimed = await store.claimOutboxMessages(10, 30000);
+
+      expect(mockRequest.input).toHaveBeenCalledWith("limit", { type: "int" }, 10);
+      expect(mockRequest.query).toHaveBeenCalledWith(
+        expect.stringContaining("READPAST")
+      );
+      expect(claimed).toEqual([{ ...outboxMessage, lastError: null }]);
+    });
+  });
+
+  describe("scheduled messages", () => {
+    const scheduled: ScheduledMessage = {
+      id: "sched-1",
+      message: { type: "OrderTimeout" },
+      options: { endpoint: "orders" },
+      dueAt: new Date("2024-01-01T01:00:00Z"),
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      attempts: 0,
+    };
+
+    beforeEach(async () => {
+      store = new SqlServerSagaStore({
+        pool: { server: "localhost", database: "test" },
+      });
+      await store.initialize();
+    });
+
+    it("should insert a scheduled message", async () => {
+      mockRequest.query.mockResolvedValue({ rowsAffected: [1] });
+
+      await store.insertScheduledMessage(scheduled);
+
+      expect(mockRequest.input).toHaveBeenCalledWith(
+        "due_at",
+        { type: "datetime2" },
+        scheduled.dueAt
+      );
+      expect(mockRequest.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO [dbo].[saga_scheduled_messages]")
+      );
+    });
+
+    it("should claim due messages with READPAST", async () => {
+      mockRequest.query.mockResolvedValue({
+        recordset: [
+          {
+            id: "sched-1",
+            message: JSON.stringify(scheduled.message),
+            options: JSON.stringify(scheduled.options),
+            due_at: scheduled.dueAt,
+            created_at: scheduled.createdAt,
+            attempts: 0,
+            last_error: null,
+            locked_until: null,
+          },
+        ],
+      });
+
+      const claimed = await store.claimDueScheduledMessages(10, 30000);
+
+      expect(mockRequest.query).toHaveBeenCalledWith(
+        expect.stringContaining("READPAST")
+      );
+      expect(claimed).toEqual([{ ...scheduled, lastError: null }]);
+    });
+
+    it("should delete a scheduled message", async () => {
+      mockRequest.query.mockResolvedValue({ rowsAffected: [1] });
+
+      await store.deleteScheduledMessage("sched-1");
+
+      expect(mockRequest.query).toHaveBeenCalledWith(
+        expect.stringContaining("DELETE FROM [dbo].[saga_scheduled_messages]")
+      );
+    });
+
+    it("should release failed messages", async () => {
+      mockRequest.query.mockResolvedValue({ rowsAffected: [1] });
+
+      await store.markScheduledMessageFailed("sched-1", "broker down");
+
+      expect(mockRequest.input).toHaveBeenCalledWith(
+        "last_error",
+        expect.anything(),
+        "broker down"
+      );
+      expect(mockRequest.query).toHaveBeenCalledWith(
+        expect.stringContaining("locked_until = NULL")
+      );
+    });
+  });
 });
@@ -1,7 +1,26 @@
-import sql, { ConnectionPool, config } from "mssql";
-import type { SagaStore, SagaState } from "@saga-bus/core";
-import { ConcurrencyError } from "@saga-bus/core";
-import type { SqlServerSagaStoreOptions, SagaInstanceRow } from "./types.js";
+import sql, { ConnectionPool, Transaction, config, type Request } from "mssql";
+import type {
+  SagaOutboxStore,
+  SagaQueryableStore,
+  SagaState,
+  SagaQuery,
+  SagaQueryFilter,
+  SagaQueryResult,
+  OutboxMessage,
+  ScheduledMessage,
+  ScheduledMessageStore,
+} from "@saga-bus/core";
+import {
+  ConcurrencyError,
+  resolveSagaQuery,
+  toSagaQueryResult,
+} from "@saga-bus/core";
+import type {
+  SqlServerSagaStoreOptions,
+  SagaInstanceRow,
+  SagaOutboxRow,
+  SagaScheduledMessageRow,
+} from "./types.js";
 
 /**
  * SQL Server-backed saga store for saga-bus.
@@ -22,11 +41,16 @@ import type { SqlServerSagaStoreOptions, SagaInstanceRow } from "./types.js";
  * ```
  */
 export class SqlServerSagaStore<TState extends SagaState>
-  implements SagaStore<TState>
+  implements
+    SagaOutboxStore<TState>,
+    SagaQueryableStore<TState>,
+    ScheduledMessageStore
 {
   private pool: ConnectionPool | null = null;
   private readonly poolConfig: config | null;
   private readonly tableName: string;
+  private readonly outboxTableName: string;
+  private readonly scheduleTableName: string;
   private readonly schema: string;
   private readonly ownsPool: boolean;
 
@@ -41,6 +65,9 @@ export class SqlServerSagaStore<TState extends SagaState>
     }
 
     this.tableName = options.tableName ?? "saga_instances";
+    this.outboxTableName = options.outboxTableName ?? "saga_outbox";
+    this.scheduleTableName =
+      options.scheduleTableName ?? "saga_scheduled_messages";
     this.schema = options.schema ?? "dbo";
   }
 
@@ -51,6 +78,20 @@ export class SqlServerSagaStore<TState extends SagaState>
     return `[${this.schema}].[${this.tableName}]`;
   }
 
+  /**
+   * Get the full outbox table name with schema.
+   */
+  private get fullOutboxTableName(): string {
+    return `[${this.schema}].[${this.outboxTableName}]`;
+  }
+
+  /**
+   * Get the full scheduled messages table name with schema.
+   */
+  private get fullScheduleTableName(): string {
+    return `[${this.schema}].[${this.scheduleTableName}]`;
+  }
+
   /**
    * Initialize the connection pool if using config.
    */
@@ -106,10 +147,19 @@ export class SqlServerSagaStore<TState extends SagaState>
   ): Promise<void> {
     if (!this.pool) throw new Error("Store not initialized");
 
+    await this.insertState(this.pool, sagaName, correlationId, state);
+  }
+
+  private async insertState(
+    db: ConnectionPool | Transaction,
+    sagaName: string,
+    correlationId: string,
+    state: TState
+  ): Promise<void> {
     const { sagaId, version, isCompleted, createdAt, updatedAt } =
       state.metadata;
 
-    await this.pool
+    await db
       .request()
       .input("id", sql.NVarChar(128), sagaId)
       .input("saga_name", sql.NVarChar(128), sagaName)
@@ -133,9 +183,34 @@ export class SqlServerSagaStore<TState extends SagaState>
   ): Promise<void> {
     if (!this.pool) throw new Error("Store not initialized");
 
+    const updated = await this.updateState(
+      this.pool,
+      sagaName,
+      state,
+      expectedVersion
+    );
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  /**
+   * @returns false if no row matched (missing saga or version mismatch)
+   */
+  private async updateState(
+    db: ConnectionPool | Transaction,
+    sagaName: string,
+    state: TState,
+    expectedVersion: number
+  ): Promise<boolean> {
     const { sagaId, version, isCompleted, updatedAt } = state.metadata;
 
-    const result = await this.pool
+    const result = await db
       .request()
       .input("version", sql.Int, version)
       .input("is_completed", sql.Bit, isCompleted ? 1 : 0)
@@ -150,18 +225,24 @@ export class SqlServerSagaStore<TState extends SagaState>
          WHERE id = @id AND saga_name = @saga_name AND version = @expected_version`
       );
 
-    if (result.rowsAffected[0] === 0) {
-      // Either saga doesn't exist or version mismatch
-      const existing = await this.getById(sagaName, sagaId);
-      if (existing) {
-        throw new ConcurrencyError(
-          sagaId,
-          expectedVersion,
-          existing.metadata.version
-        );
-      } else {
-        throw new Error(`Saga ${sagaId} not found`);
-      }
+    return (result.rowsAffected[0] ?? 0) > 0;
+  }
+
+  private async throwUpdateConflict(
+    sagaName: string,
+    sagaId: string,
+    expectedVersion: number
+  ): Promise<never> {
+    // Either saga doesn't exist or version mismatch
+    const existing = await this.getById(sagaName, sagaId);
+    if (existing) {
+      throw new ConcurrencyError(
+        sagaId,
+        expectedVersion,
+        existing.metadata.version
+      );
+    } else {
+      throw new Error(`Saga ${sagaId} not found`);
     }
   }
 
@@ -177,6 +258,263 @@ export class SqlServerSagaStore<TState extends SagaState>
       );
   }
 
+  // ============ Outbox ============
+
+  async insertWithOutbox(
+    sagaName: string,
+    correlationId: string,
+    state: TState,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    await this.withTransaction(async (transaction) => {
+      await this.insertState(transaction, sagaName, correlationId, state);
+      await this.insertOutboxMessages(transaction, messages);
+    });
+  }
+
+  async updateWithOutbox(
+    sagaName: string,
+    state: TState,
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    const updated = await this.withTransaction(async (transaction) => {
+      if (
+        !(await this.updateState(transaction, sagaName, state, expectedVersion))
+      ) {
+        return false;
+      }
+      await this.insertOutboxMessages(transaction, messages);
+      return true;
+    });
+
+    if (!updated) {
+      await this.throwUpdateConflict(
+        sagaName,
+        state.metadata.sagaId,
+        expectedVersion
+      );
+    }
+  }
+
+  async claimOutboxMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<OutboxMessage[]> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const now = new Date();
+
+    // READPAST skips rows locked by other relays instead of blocking on them
+    const result = await this.pool
+      .request()
+      .input("limit", sql.Int, limit)
+      .input("now", sql.DateTime2, now)
+      .input(
+        "locked_until",
+        sql.DateTime2,
+        new Date(now.getTime() + lockDurationMs)
+      )
+      .query<SagaOutboxRow>(
+        `WITH pending AS (
+           SELECT TOP (@limit) * FROM ${this.fullOutboxTableName} WITH (UPDLOCK, READPAST, ROWLOCK)
+           WHERE dispatched_at IS NULL AND (locked_until IS NULL OR locked_until <= @now)
+           ORDER BY created_at
+         )
+         UPDATE pending SET locked_until = @locked_until
+         OUTPUT inserted.*`
+      );
+
+    return result.recordset
+      .map((row) => this.rowToOutboxMessage(row))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async markOutboxMessageDispatched(id: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool
+      .request()
+      .input("id", sql.NVarChar(128), id)
+      .input("dispatched_at", sql.DateTime2, new Date())
+      .query(
+        `UPDATE ${this.fullOutboxTableName}
+         SET dispatched_at = @dispatched_at, locked_until = NULL
+         WHERE id = @id`
+      );
+  }
+
+  async markOutboxMessageFailed(id: string, error: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool
+      .request()
+      .input("id", sql.NVarChar(128), id)
+      .input("last_error", sql.NVarChar(sql.MAX), error)
+      .query(
+        `UPDATE ${this.fullOutboxTableName}
+         SET attempts = attempts + 1, last_error = @last_error, locked_until = NULL
+         WHERE id = @id`
+      );
+  }
+
+  async deleteDispatchedOutboxMessages(before: Date): Promise<number> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const result = await this.pool
+      .request()
+      .input("before", sql.DateTime2, before)
+      .query(
+        `DELETE FROM ${this.fullOutboxTableName}
+         WHERE dispatched_at IS NOT NULL AND dispatched_at < @before`
+      );
+
+    return result.rowsAffected[0] ?? 0;
+  }
+
+  private async insertOutboxMessages(
+    transaction: Transaction,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<void> {
+    for (const entry of messages) {
+      await transaction
+        .request()
+        .input("id", sql.NVarChar(128), entry.id)
+        .input("saga_name", sql.NVarChar(128), entry.sagaName)
+        .input("saga_id", sql.NVarChar(128), entry.sagaId)
+        .input("message", sql.NVarChar(sql.MAX), JSON.stringify(entry.message))
+        .input("options", sql.NVarChar(sql.MAX), JSON.stringify(entry.options))
+        .input("created_at", sql.DateTime2, entry.createdAt)
+        .query(
+          `INSERT INTO ${this.fullOutboxTableName}
+           (id, saga_name, saga_id, message, options, created_at, attempts)
+           VALUES (@id, @saga_name, @saga_id, @message, @options, @created_at, 0)`
+        );
+    }
+  }
+
+  // ============ Scheduled Messages ============
+
+  async insertScheduledMessage(entry: ScheduledMessage): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool
+      .request()
+      .input("id", sql.NVarChar(128), entry.id)
+      .input("message", sql.NVarChar(sql.MAX), JSON.stringify(entry.message))
+      .input("options", sql.NVarChar(sql.MAX), JSON.stringify(entry.options))
+      .input("due_at", sql.DateTime2, entry.dueAt)
+      .input("created_at", sql.DateTime2, entry.createdAt)
+      .input("attempts", sql.Int, entry.attempts)
+      .query(
+        `INSERT INTO ${this.fullScheduleTableName}
+         (id, message, options, due_at, created_at, attempts)
+         VALUES (@id, @message, @options, @due_at, @created_at, @attempts)`
+      );
+  }
+
+  async claimDueScheduledMessages(
+    limit: number,
+    lockDurationMs: number
+  ): Promise<ScheduledMessage[]> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const now = new Date();
+
+    const result = await this.pool
+      .request()
+      .input("limit", sql.Int, limit)
+      .input("now", sql.DateTime2, now)
+      .input(
+        "locked_until",
+        sql.DateTime2,
+        new Date(now.getTime() + lockDurationMs)
+      )
+      .query<SagaScheduledMessageRow>(
+        `WITH due AS (
+           SELECT TOP (@limit) * FROM ${this.fullScheduleTableName} WITH (UPDLOCK, READPAST, ROWLOCK)
+           WHERE due_at <= @now AND (locked_until IS NULL OR locked_until <= @now)
+           ORDER BY due_at
+         )
+         UPDATE due SET locked_until = @locked_until
+         OUTPUT inserted.*`
+      );
+
+    return result.recordset
+      .map((row) => this.rowToScheduledMessage(row))
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  async deleteScheduledMessage(id: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool
+      .request()
+      .input("id", sql.NVarChar(128), id)
+      .query(`DELETE FROM ${this.fullScheduleTableName} WHERE id = @id`);
+  }
+
+  async markScheduledMessageFailed(id: string, error: string): Promise<void> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    await this.pool
+      .request()
+      .input("id", sql.NVarChar(128), id)
+      .input("last_error", sql.NVarChar(sql.MAX), error)
+      .query(
+        `UPDATE ${this.fullScheduleTableName}
+         SET attempts = attempts + 1, last_error = @last_error, locked_until = NULL
+         WHERE id = @id`
+      );
+  }
+
+  private rowToScheduledMessage(
+    row: SagaScheduledMessageRow
+  ): ScheduledMessage {
+    return {
+      id: row.id,
+      message: JSON.parse(row.message) as ScheduledMessage["message"],
+      options: JSON.parse(row.options) as ScheduledMessage["options"],
+      dueAt: new Date(row.due_at),
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    };
+  }
+
+  /**
+   * Run a callback inside a transaction.
+   */
+  private async withTransaction<T>(
+    fn: (transaction: Transaction) => Promise<T>
+  ): Promise<T> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const transaction = new Transaction(this.pool);
+    await transaction.begin();
+    try {
+      const result = await fn(transaction);
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  private rowToOutboxMessage(row: SagaOutboxRow): OutboxMessage {
+    return {
+      id: row.id,
+      sagaName: row.saga_name,
+      sagaId: row.saga_id,
+      message: JSON.parse(row.message) as OutboxMessage["message"],
+      options: JSON.parse(row.options) as OutboxMessage["options"],
+      createdAt: new Date(row.created_at),
+      attempts: row.attempts,
+      lastError: row.last_error,
+    };
+  }
+
   /**
    * Convert a database row to saga state.
    */
@@ -304,4 +642,113 @@ export class SqlServerSagaStore<TState extends SagaState>
 
     return result.rowsAffected[0] ?? 0;
   }
+
+  /**
+   * Find sagas matching a query with cursor pagination.
+   */
+  async findSagas(
+    sagaName: string,
+    query?: SagaQuery
+  ): Promise<SagaQueryResult<TState>> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const resolved = resolveSagaQuery(query);
+    const request = this.pool.request();
+    const clauses = this.buildFilter(request, sagaName, resolved.filter);
+
+    const column = resolved.sortBy === "updatedAt" ? "updated_at" : "created_at";
+    const direction = resolved.sortOrder === "asc" ? "ASC" : "DESC";
+
+    if (resolved.after) {
+      const op = resolved.sortOrder === "asc" ? ">" : "<";
+      clauses.push(
+        `(${column} ${op} @after_value OR (${column} = @after_value AND id ${op} @after_id))`
+      );
+      request.input("after_value", sql.DateTime2, resolved.after.value);
+      request.input("after_id", sql.NVarChar(128), resolved.after.sagaId);
+    }
+
+    request.input("limit", sql.Int, resolved.limit + 1);
+
+    const result = await request.query<SagaInstanceRow>(
+      `SELECT TOP (@limit) * FROM ${this.fullTableName}
+       WHERE ${clauses.join(" AND ")}
+       ORDER BY ${column} ${direction}, id ${direction}`
+    );
+
+    return toSagaQueryResult(
+      result.recordset.map((row) => this.rowToState(row)),
+      resolved
+    );
+  }
+
+  /**
+   * Count sagas matching a filter.
+   */
+  async countSagas(
+    sagaName: string,
+    filter: SagaQueryFilter = {}
+  ): Promise<number> {
+    if (!this.pool) throw new Error("Store not initialized");
+
+    const request = this.pool.request();
+    const clauses = this.buildFilter(request, sagaName, filter);
+
+    const result = await request.query<{ count: number }>(
+      `SELECT COUNT(*) as count FROM ${this.fullTableName} WHERE ${clauses.join(" AND ")}`
+    );
+    return result.recordset[0]?.count ?? 0;
+  }
+
+  /**
+   * Bind filter inputs on a request and return the WHERE clauses.
+   */
+  private buildFilter(
+    request: Request,
+    sagaName: string,
+    filter: SagaQueryFilter
+  ): string[] {
+    const clauses = ["saga_name = @saga_name"];
+    request.input("saga_name", sql.NVarChar(128), sagaName);
+
+    if (filter.completed !== undefined) {
+      clauses.push("is_completed = @is_completed");
+      request.input("is_completed", sql.Bit, filter.completed ? 1 : 0);
+    }
+
+    for (const [column, range] of [
+      ["created_at", filter.createdAt],
+      ["updated_at", filter.updatedAt],
+    ] as const) {
+      if (range?.from) {
+        clauses.push(`${column} >= @${column}_from`);
+        request.input(`${column}_from`, sql.DateTime2, range.from);
+      }
+      if (range?.to) {
+        clauses.push(`${column} < @${column}_to`);
+        request.input(`${column}_to`, sql.DateTime2, range.to);
+      }
+    }
+
+    if (filter.timeoutExpiresBefore) {
+      // Stored as an ISO string inside the state JSON (sorts chronologically)
+      clauses.push(
+        "JSON_VALUE(state, '$.metadata.timeoutExpiresAt') < @timeout_before"
+      );
+      request.input(
+        "timeout_before",
+        sql.NVarChar(64),
+        filter.timeoutExpiresBefore.toISOString()
+      );
+    }
+
+    if (filter.parentSagaId !== undefined) {
+      clauses.push(
+        "JSON_VALUE(state, '$.metadata.parent.sagaId') = @parent_saga_id"
+      );
+      request.input("parent_saga_id", sql.NVarChar(255), filter.parentSagaId);
+    }
+
+    return clauses;
+  }
 }
@@ -1,2 +1,7 @@
 export { SqlServerSagaStore } from "./SqlServerSagaStore.js";
-export type { SqlServerSagaStoreOptions, SagaInstanceRow } from "./types.js";
+export type {
+  SqlServerSagaStoreOptions,
+  SagaInstanceRow,
+  SagaOutboxRow,
+  SagaScheduledMessageRow,
+} from "./types.js";
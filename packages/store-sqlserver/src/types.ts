@@ -18,6 +18,16 @@ export interface SqlServerSagaStoreOptions {
    * Schema name. Default: "dbo"
    */
   schema?: string;
+
+  /**
+   * Table name for outbox messages. Default: "saga_outbox"
+   */
+  outboxTableName?: string;
+
+  /**
+   * Table name for scheduled messages. Default: "saga_scheduled_messages"
+   */
+  scheduleTableName?: string;
 }
 
 /**
@@ -33,3 +43,33 @@ export interface SagaInstanceRow {
   created_at: Date;
   updated_at: Date;
 }
+
+/**
+ * Row structure in the saga_outbox table.
+ */
+export interface SagaOutboxRow {
+  id: string;
+  saga_name: string;
+  saga_id: string;
+  message: string; // NVARCHAR(MAX) JSON
+  options: string; // NVARCHAR(MAX) JSON
+  created_at: Date;
+  attempts: number;
+  last_error: string | null;
+  locked_until: Date | null;
+  dispatched_at: Date | null;
+}
+
+/**
+ * Row structure in the saga_scheduled_messages table.
+ */
+export interface SagaScheduledMessageRow {
+  id: string;
+  message: string; // NVARCHAR(MAX) JSON
+  options: string; // NVARCHAR(MAX) JSON
+  due_at: Date;
+  created_at: Date;
+  attempts: number;
+  last_error: string | null;
+  locked_until: Date | null;
+}
@@ -5,6 +5,20 @@ import { AzureServiceBusTransport } from "../src/AzureServiceBusTransport.js";
 vi.mock("@azure/service-bus", () => {
   const mockSender = {
     sendMessages: vi.fn().mockResolvedValue(undefined),
+    scheduleMessages: vi.fn().mockResolvedValue([42]),
+    cancelScheduledMessages: vi.fn().mockResolvedValue(undefined),
+    // Batches hold two messages, so larger publishes span several
+    createMessageBatch: vi.fn(async () => {
+      const messages: unknown[] = [];
+      return {
+        messages,
+        get count() {
+          return messages.length;
+        },
+        tryAddMessage: (message: unknown) =>
+          messages.length < 2 && messages.push(message) > 0,
+      };
+    }),
     close: vi.fn().mockResolvedValue(undefined),
   };
 
@@ -43,6 +57,9 @@ async function getMocks() {
     };
     __mockSender: {
       sendMessages: ReturnType<typeof vi.fn>;
+      scheduleMessages: ReturnType<typeof vi.fn>;
+      cancelScheduledMessages: ReturnType<typeof vi.fn>;
+      createMessageBatch: ReturnType<typeof vi.fn>;
       close: ReturnType<typeof vi.fn>;
     };
     __mockReceiver: {
@@ -160,8 +177,8 @@ describe("AzureServiceBusTransport", () => {
       expect(__mockSender.sendMessages).toHaveBeenCalled();
 
       const sentMessage = __mockSender.sendMessages.mock.calls[0][0];
-      expect(sentMessage.body.type).toBe("TestMessage");
-      expect(sentMessage.contentType).toBe("application/json");
+      expect(JSON.parse(sentMessage.body.toString()).type).toBe("TestMessage");
+      expect(sentMessage.contentType).toBe("application/vnd.saga-bus+json");
     });
 
     it("should use defaultTopic when endpoint not provided", async () => {
@@ -214,6 +231,67 @@ describe("AzureServiceBusTransport", () => {
       );
     });
 
+    it("should schedule and cancel messages with a schedule id", async () => {
+      const { __mockSender } = await getMocks();
+
+      const transport = new AzureServiceBusTransport({
+        connectionString: "Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=test;SharedAccessKey=test",
+      });
+
+      await transport.start();
+
+      await transport.publish(
+        { type: "SagaTimeoutExpired" },
+        { endpoint: "test-topic", delayMs: 60000, scheduleId: "timeout-1" }
+      );
+
+      expect(__mockSender.sendMessages).not.toHaveBeenCalled();
+      expect(__mockSender.scheduleMessages).toHaveBeenCalledWith(
+        expect.objectContaining({
+          contentType: "application/vnd.saga-bus+json",
+        }),
+        expect.any(Date)
+      );
+
+      await transport.cancelScheduled("timeout-1");
+      await transport.cancelScheduled("timeout-1");
+
+      expect(__mockSender.cancelScheduledMessages).toHaveBeenCalledTimes(1);
+      expect(__mockSender.cancelScheduledMessages).toHaveBeenCalledWith(42);
+    });
+
+    it("should forget scheduled messages once they are enqueued", async () => {
+      const { __mockSender } = await getMocks();
+
+      const transport = new AzureServiceBusTransport({
+        connectionString: "Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=test;SharedAccessKey=test",
+      });
+
+      await transport.start();
+
+      vi.useFakeTimers();
+      try {
+        await transport.publish(
+          { type: "SagaTimeoutExpired" },
+          { endpoint: "test-topic", delayMs: 1000, scheduleId: "timeout-1" }
+        );
+        vi.advanceTimersByTime(2000);
+        await transport.publish(
+          { type: "SagaTimeoutExpired" },
+          { endpoint: "test-topic", delayMs: 1000, scheduleId: "timeout-2" }
+        );
+
+        const scheduled = (transport as unknown as { scheduled: Map<string, unknown> })
+          .scheduled;
+        expect([...scheduled.keys()]).toEqual(["timeout-2"]);
+
+        await transport.cancelScheduled("timeout-1");
+        expect(__mockSender.cancelScheduledMessages).not.toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
     it("should set sessionId when sessionEnabled and key provided", async () => {
       const { __mockSender } = await getMocks();
 
@@ -252,6 +330,55 @@ describe("AzureServiceBusTransport", () => {
     });
   });
 
+  describe("publishBatch", () => {
+    it("should send messages in batches, starting a new one when full", async () => {
+      const { __mockSender } = await getMocks();
+
+      const transport = new AzureServiceBusTransport({
+        connectionString: "Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=test;SharedAccessKey=test",
+      });
+
+      await transport.start();
+      await transport.publishBatch(
+        ["a", "b", "c"].map((id) => ({
+          message: { type: "TestMessage", id },
+          options: { endpoint: "test-topic", key: "order-123" },
+        }))
+      );
+
+      const batches = __mockSender.sendMessages.mock.calls.map(
+        ([batch]) => batch.messages as Array<{ body: Buffer; partitionKey: string }>
+      );
+      expect(
+        batches.map((messages) =>
+          messages.map((m) => JSON.parse(m.body.toString()).payload.id)
+        )
+      ).toEqual([["a", "b"], ["c"]]);
+      expect(batches[0]?.[0]?.partitionKey).toBe("order-123");
+    });
+
+    it("should schedule cancellable delayed messages individually", async () => {
+      const { __mockSender } = await getMocks();
+
+      const transport = new AzureServiceBusTransport({
+        connectionString: "Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=test;SharedAccessKey=test",
+      });
+
+      await transport.start();
+      await transport.publishBatch([
+        { message: { type: "TestMessage" }, options: { endpoint: "test-topic" } },
+        {
+          message: { type: "Reminder" },
+          options: { endpoint: "test-topic", delayMs: 60_000, scheduleId: "s-1" },
+        },
+      ]);
+
+      expect(__mockSender.scheduleMessages).toHaveBeenCalledTimes(1);
+      expect(__mockSender.sendMessages).toHaveBeenCalledTimes(1);
+      expect(__mockSender.sendMessages.mock.calls[0][0].messages).toHaveLength(1);
+    });
+  });
+
   describe("subscribe", () => {
     it("should register subscription", async () => {
       const transport = new AzureServiceBusTransport({
@@ -1,20 +1,25 @@
 import {
   ServiceBusClient,
+  ServiceBusMessage,
   ServiceBusSender,
   ServiceBusReceiver,
   ServiceBusReceivedMessage,
   ServiceBusSessionReceiver,
 } from "@azure/service-bus";
+import { MessageCodec } from "@saga-bus/core";
 import type {
   Transport,
   TransportSubscribeOptions,
   TransportPublishOptions,
+  TransportBatchMessage,
   MessageEnvelope,
   BaseMessage,
 } from "@saga-bus/core";
 import type { AzureServiceBusTransportOptions, SubscriptionRegistration } from "./types.js";
 import { randomUUID } from "crypto";
 
+type SequenceNumber = Awaited<ReturnType<ServiceBusSender["scheduleMessages"]>>[number];
+
 /**
  * Azure Service Bus transport implementation for saga-bus.
  *
@@ -24,9 +29,14 @@ import { randomUUID } from "crypto";
 export class AzureServiceBusTransport implements Transport {
   private client: ServiceBusClient | null = null;
   private readonly options: AzureServiceBusTransportOptions;
+  private readonly codec: MessageCodec;
   private readonly senders = new Map<string, ServiceBusSender>();
   private readonly receivers: Array<ServiceBusReceiver | ServiceBusSessionReceiver> = [];
   private readonly subscriptions: SubscriptionRegistration[] = [];
+  private readonly scheduled = new Map<
+    string,
+    { topicName: string; sequenceNumber: SequenceNumber; enqueueAt: number }
+  >();
   private started = false;
   private stopping = false;
 
@@ -52,6 +62,7 @@ export class AzureServiceBusTransport implements Transport {
       sessionEnabled: false,
       ...options,
     };
+    this.codec = new MessageCodec(options);
   }
 
   async start(): Promise<void> {
@@ -146,20 +157,90 @@ export class AzureServiceBusTransport implements Transport {
       throw new Error("Transport not started");
     }
 
-    const { endpoint, key, headers = {}, delayMs } = options;
+    const { topicName, sbMessage } = this.createMessage(message, options);
+    const sender = this.getSender(this.client, topicName);
+    const { delayMs, scheduleId } = options;
+
+    // Cancellable delayed messages are scheduled explicitly, which returns
+    // the sequence number needed to cancel them
+    if (delayMs && delayMs > 0 && scheduleId) {
+      const enqueueAt = Date.now() + delayMs;
+      const [sequenceNumber] = await sender.scheduleMessages(
+        sbMessage,
+        new Date(enqueueAt)
+      );
+      this.pruneScheduled();
+      if (sequenceNumber !== undefined) {
+        this.scheduled.set(scheduleId, { topicName, sequenceNumber, enqueueAt });
+      }
+      return;
+    }
+
+    await sender.sendMessages(sbMessage);
+  }
+
+  /**
+   * Publish messages in `ServiceBusMessageBatch`es per topic, starting a
+   * new batch whenever one is full. Cancellable delayed messages are
+   * scheduled one at a time.
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    if (!this.client) {
+      throw new Error("Transport not started");
+    }
+
+    const byTopic = new Map<string, ServiceBusMessage[]>();
+
+    for (const { message, options } of messages) {
+      if (options.delayMs && options.delayMs > 0 && options.scheduleId) {
+        await this.publish(message, options);
+        continue;
+      }
+
+      const { topicName, sbMessage } = this.createMessage(message, options);
+      const topicMessages = byTopic.get(topicName) ?? [];
+      topicMessages.push(sbMessage);
+      byTopic.set(topicName, topicMessages);
+    }
+
+    for (const [topicName, topicMessages] of byTopic) {
+      const sender = this.getSender(this.client, topicName);
+      let batch = await sender.createMessageBatch();
+
+      for (const sbMessage of topicMessages) {
+        if (batch.tryAddMessage(sbMessage)) {
+          continue;
+        }
+        if (batch.count > 0) {
+          await sender.sendMessages(batch);
+          batch = await sender.createMessageBatch();
+        }
+        if (!batch.tryAddMessage(sbMessage)) {
+          throw new Error(
+            `Message ${sbMessage.messageId} is too large for a batch on ${topicName}`
+          );
+        }
+      }
+
+      if (batch.count > 0) {
+        await sender.sendMessages(batch);
+      }
+    }
+  }
+
+  private createMessage(
+    message: BaseMessage,
+    options: TransportPublishOptions
+  ): { topicName: string; sbMessage: ServiceBusMessage } {
+    const { endpoint, key, headers = {}, delayMs, scheduleId } = options;
     const topicName = `${this.options.entityPrefix}${
       endpoint ?? this.options.defaultTopic ?? message.type
     }`;
 
-    // Get or create sender
-    let sender = this.senders.get(topicName);
-    if (!sender) {
-      sender = this.client.createSender(topicName);
-      this.senders.set(topicName, sender);
-    }
-
     // Create message envelope
-    const envelope: MessageEnvelope<TMessage> = {
+    const envelope: MessageEnvelope = {
       id: randomUUID(),
       type: message.type,
       payload: message,
@@ -169,18 +250,10 @@ export class AzureServiceBusTransport implements Transport {
     };
 
     // Build Service Bus message
-    const sbMessage: {
-      body: MessageEnvelope<TMessage>;
-      messageId: string;
-      contentType: string;
-      sessionId?: string;
-      partitionKey?: string;
-      applicationProperties: Record<string, string>;
-      scheduledEnqueueTimeUtc?: Date;
-    } = {
-      body: envelope,
+    const sbMessage: ServiceBusMessage = {
+      body: this.codec.encode(envelope),
       messageId: envelope.id,
-      contentType: "application/json",
+      contentType: this.codec.contentType,
       applicationProperties: {
         messageType: message.type,
         ...headers,
@@ -195,11 +268,55 @@ export class AzureServiceBusTransport implements Transport {
     }
 
     // Handle delayed delivery using native scheduled messages
-    if (delayMs && delayMs > 0) {
+    if (delayMs && delayMs > 0 && !scheduleId) {
       sbMessage.scheduledEnqueueTimeUtc = new Date(Date.now() + delayMs);
     }
 
-    await sender.sendMessages(sbMessage);
+    return { topicName, sbMessage };
+  }
+
+  /**
+   * Cancel a scheduled message. Sequence numbers are only kept in memory,
+   * so messages scheduled before a restart cannot be cancelled.
+   */
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    if (!this.client) {
+      throw new Error("Transport not started");
+    }
+
+    const entry = this.scheduled.get(scheduleId);
+    this.scheduled.delete(scheduleId);
+
+    // Already enqueued, nothing left to cancel
+    if (!entry || entry.enqueueAt <= Date.now()) {
+      return;
+    }
+
+    await this.getSender(this.client, entry.topicName).cancelScheduledMessages(
+      entry.sequenceNumber
+    );
+  }
+
+  /**
+   * Forget scheduled messages that have been enqueued, so sequence numbers
+   * of timeouts that fired don't pile up.
+   */
+  private pruneScheduled(): void {
+    const now = Date.now();
+    for (const [scheduleId, entry] of this.scheduled) {
+      if (entry.enqueueAt <= now) {
+        this.scheduled.delete(scheduleId);
+      }
+    }
+  }
+
+  private getSender(client: ServiceBusClient, topicName: string): ServiceBusSender {
+    let sender = this.senders.get(topicName);
+    if (!sender) {
+      sender = client.createSender(topicName);
+      this.senders.set(topicName, sender);
+    }
+    return sender;
   }
 
   private async startReceiver(registration: SubscriptionRegistration): Promise<void> {
@@ -230,9 +347,9 @@ export class AzureServiceBusTransport implements Transport {
       {
         processMessage: async (message: ServiceBusReceivedMessage) => {
           try {
-            const envelope = message.body as MessageEnvelope;
+            const envelope = this.decodeBody(message);
 
-            // Ensure envelope has required fields
+            // Ensure envelope could be decoded and has required fields
             if (!envelope || !envelope.type || !envelope.payload) {
               console.error("[AzureServiceBus] Invalid message format:", message);
               if (this.options.receiveMode === "peekLock") {
@@ -279,4 +396,21 @@ export class AzureServiceBusTransport implements Transport {
       }
     );
   }
+
+  /**
+   * Decode a received message body. Messages published before serializers
+   * were pluggable carry the envelope as an AMQP-encoded object.
+   */
+  private decodeBody(message: ServiceBusReceivedMessage): MessageEnvelope | null {
+    if (!Buffer.isBuffer(message.body)) {
+      return message.body as MessageEnvelope;
+    }
+
+    try {
+      return this.codec.decode(message.body, message.contentType);
+    } catch (error) {
+      console.error("[AzureServiceBus] Failed to decode message body:", error);
+      return null;
+    }
+  }
 }
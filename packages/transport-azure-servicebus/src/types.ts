@@ -1,9 +1,10 @@
 import type { TokenCredential } from "@azure/service-bus";
+import type { MessageCodecOptions } from "@saga-bus/core";
 
 /**
  * Configuration options for Azure Service Bus transport.
  */
-export interface AzureServiceBusTransportOptions {
+export interface AzureServiceBusTransportOptions extends MessageCodecOptions {
   /**
    * Connection string for Azure Service Bus.
    * Either connectionString OR (fullyQualifiedNamespace + credential) must be provided.
@@ -324,6 +324,59 @@ describe("GcpPubSubTransport", () => {
     });
   });
 
+  describe("publishBatch", () => {
+    it("should publish every message, creating each topic once", async () => {
+      const { __mockPubSub, __createMockTopic } = await getMocks();
+      const mockTopic = __createMockTopic();
+      mockTopic.exists.mockResolvedValue([false]);
+      __mockPubSub.topic.mockReturnValue(mockTopic);
+
+      const transport = new GcpPubSubTransport({
+        projectId: "my-project",
+        enableOrdering: true,
+      });
+      await transport.start();
+
+      await transport.publishBatch(
+        ["first", "second", "third"].map((data) => ({
+          message: { type: "TestEvent", data } as TestMessage,
+          options: { endpoint: "test-topic", key: "order-123" },
+        }))
+      );
+
+      expect(mockTopic.create).toHaveBeenCalledTimes(1);
+      expect(
+        mockTopic.publishMessage.mock.calls.map(
+          ([published]) =>
+            JSON.parse(published.data.toString()).payload.data as string
+        )
+      ).toEqual(["first", "second", "third"]);
+      expect(mockTopic.publishMessage.mock.calls[0]?.[0].orderingKey).toBe(
+        "order-123"
+      );
+    });
+
+    it("should reject batches with delayed messages before publishing", async () => {
+      const { __mockPubSub, __createMockTopic } = await getMocks();
+      const mockTopic = __createMockTopic();
+      __mockPubSub.topic.mockReturnValue(mockTopic);
+
+      const transport = new GcpPubSubTransport({ projectId: "my-project" });
+      await transport.start();
+
+      await expect(
+        transport.publishBatch([
+          { message: { type: "TestEvent" }, options: { endpoint: "test-topic" } },
+          {
+            message: { type: "TestEvent" },
+            options: { endpoint: "test-topic", delayMs: 5000 },
+          },
+        ])
+      ).rejects.toThrow("GCP Pub/Sub does not support delayed messages");
+      expect(mockTopic.publishMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe("subscribe", () => {
     it("should throw if not started", async () => {
       const transport = new GcpPubSubTransport({ projectId: "my-project" });
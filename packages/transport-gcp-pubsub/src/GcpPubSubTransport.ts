@@ -1,8 +1,10 @@
 import { PubSub, Topic, Subscription, Message } from "@google-cloud/pubsub";
+import { MessageCodec, CONTENT_TYPE_HEADER } from "@saga-bus/core";
 import type {
   Transport,
   TransportSubscribeOptions,
   TransportPublishOptions,
+  TransportBatchMessage,
   MessageEnvelope,
   BaseMessage,
 } from "@saga-bus/core";
@@ -40,6 +42,7 @@ export class GcpPubSubTransport implements Transport {
   > &
     GcpPubSubTransportOptions;
 
+  private readonly codec: MessageCodec;
   private readonly topics = new Map<string, Topic>();
   private readonly subscriptions: Subscription[] = [];
   private started = false;
@@ -60,6 +63,7 @@ export class GcpPubSubTransport implements Transport {
       maxDeliveryAttempts: 5,
       ...options,
     };
+    this.codec = new MessageCodec(options);
   }
 
   async start(): Promise<void> {
@@ -132,15 +136,10 @@ export class GcpPubSubTransport implements Transport {
     // Start listening
     subscription.on("message", async (message: Message) => {
       try {
-        const rawEnvelope = JSON.parse(message.data.toString());
-        const envelope: MessageEnvelope<TMessage> = {
-          id: rawEnvelope.id,
-          type: rawEnvelope.type,
-          payload: rawEnvelope.payload as TMessage,
-          headers: rawEnvelope.headers,
-          timestamp: new Date(rawEnvelope.timestamp),
-          partitionKey: rawEnvelope.partitionKey,
-        };
+        const envelope = this.codec.decode(
+          message.data,
+          message.attributes?.[CONTENT_TYPE_HEADER]
+        ) as MessageEnvelope<TMessage>;
         await handler(envelope);
         message.ack();
       } catch (error) {
@@ -162,28 +161,12 @@ export class GcpPubSubTransport implements Transport {
   ): Promise<void> {
     if (!this.pubsub) throw new Error("Transport not started");
 
-    const { endpoint, key, headers = {}, delayMs } = options;
+    const { endpoint, key, headers = {} } = options;
+    this.assertNotDelayed(options);
 
-    // GCP Pub/Sub doesn't support delayed messages natively
-    if (delayMs && delayMs > 0) {
-      throw new Error(
-        "GCP Pub/Sub does not support delayed messages. " +
-          "Use Cloud Scheduler or Cloud Tasks for delayed delivery."
-      );
-    }
-
-    const topicName = endpoint ?? this.options.defaultTopic ?? message.type;
-
-    // Get or create topic
-    let topic = this.topics.get(topicName);
-    if (!topic) {
-      topic = this.pubsub.topic(topicName);
-      if (this.options.autoCreate) {
-        const [exists] = await topic.exists();
-        if (!exists) await topic.create();
-      }
-      this.topics.set(topicName, topic);
-    }
+    const topic = await this.getTopic(
+      endpoint ?? this.options.defaultTopic ?? message.type
+    );
 
     // Create envelope
     const envelope: MessageEnvelope<TMessage> = {
@@ -199,6 +182,7 @@ export class GcpPubSubTransport implements Transport {
     const attributes: Record<string, string> = {
       messageType: message.type,
       messageId: envelope.id,
+      [CONTENT_TYPE_HEADER]: this.codec.contentType,
     };
 
     // Add custom headers as attributes
@@ -218,9 +202,57 @@ export class GcpPubSubTransport implements Transport {
     }
 
     await topic.publishMessage({
-      data: Buffer.from(JSON.stringify(envelope)),
+      data: this.codec.encode(envelope),
       attributes,
       ...publishOptions,
     });
   }
+
+  /**
+   * Publish messages concurrently so the client library batches them per
+   * topic; messages sharing an ordering key keep their order.
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    if (!this.pubsub) throw new Error("Transport not started");
+
+    for (const { message, options } of messages) {
+      this.assertNotDelayed(options);
+      // Resolve topics up front so concurrent publishes don't create them twice
+      await this.getTopic(
+        options.endpoint ?? this.options.defaultTopic ?? message.type
+      );
+    }
+
+    await Promise.all(
+      messages.map(({ message, options }) => this.publish(message, options))
+    );
+  }
+
+  private async getTopic(topicName: string): Promise<Topic> {
+    if (!this.pubsub) throw new Error("Transport not started");
+
+    // Get or create topic
+    let topic = this.topics.get(topicName);
+    if (!topic) {
+      topic = this.pubsub.topic(topicName);
+      if (this.options.autoCreate) {
+        const [exists] = await topic.exists();
+        if (!exists) await topic.create();
+      }
+      this.topics.set(topicName, topic);
+    }
+    return topic;
+  }
+
+  private assertNotDelayed(options: TransportPublishOptions): void {
+    // GCP Pub/Sub doesn't support delayed messages natively
+    if (options.delayMs && options.delayMs > 0) {
+      throw new Error(
+        "GCP Pub/Sub does not support delayed messages. " +
+          "Use Cloud Scheduler or Cloud Tasks for delayed delivery."
+      );
+    }
+  }
 }
@@ -1,9 +1,10 @@
 import type { PubSub, ClientConfig } from "@google-cloud/pubsub";
+import type { MessageCodecOptions } from "@saga-bus/core";
 
 /**
  * Configuration options for the GCP Pub/Sub transport.
  */
-export interface GcpPubSubTransportOptions {
+export interface GcpPubSubTransportOptions extends MessageCodecOptions {
   /** Existing PubSub client instance */
   pubsub?: PubSub;
 
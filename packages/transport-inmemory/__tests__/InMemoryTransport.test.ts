@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { BusStoppingError, JsonSerializer } from "@saga-bus/core";
 import type { BaseMessage, MessageEnvelope } from "@saga-bus/core";
 import { InMemoryTransport } from "../src/InMemoryTransport.js";
 
@@ -32,6 +33,62 @@ describe("InMemoryTransport", () => {
     });
   });
 
+  describe("stopReceiving", () => {
+    it("should hold deliveries until the next start", async () => {
+      const received: MessageEnvelope[] = [];
+
+      await transport.subscribe<TestMessage>(
+        { endpoint: "test.endpoint" },
+        async (envelope) => {
+          received.push(envelope);
+        }
+      );
+
+      await transport.stopReceiving();
+      await transport.publish(
+        { type: "TestMessage", data: "hello" } as TestMessage,
+        { endpoint: "test.endpoint" }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(received).toHaveLength(0);
+
+      await transport.stop();
+      await transport.start();
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(received).toHaveLength(1);
+    });
+
+    it("should redeliver messages handed back by a stopping bus", async () => {
+      let attempts = 0;
+
+      await transport.subscribe<TestMessage>(
+        { endpoint: "test.endpoint" },
+        async () => {
+          attempts++;
+          if (attempts === 1) {
+            throw new BusStoppingError();
+          }
+        }
+      );
+
+      await transport.publish(
+        { type: "TestMessage", data: "hello" } as TestMessage,
+        { endpoint: "test.endpoint" }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(attempts).toBe(1);
+
+      await transport.stop();
+      await transport.start();
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(attempts).toBe(2);
+    });
+  });
+
   describe("subscribe", () => {
     it("should register subscriptions", async () => {
       await transport.subscribe<TestMessage>(
@@ -232,6 +289,35 @@ describe("InMemoryTransport", () => {
 
       expect(received).toHaveLength(0);
     });
+
+    it("should cancel delayed messages by schedule id", async () => {
+      const received: MessageEnvelope[] = [];
+
+      await transport.subscribe<TestMessage>(
+        { endpoint: "test.endpoint" },
+        async (envelope) => {
+          received.push(envelope);
+        }
+      );
+
+      await transport.publish(
+        { type: "TestMessage", data: "cancelled" } as TestMessage,
+        { endpoint: "test.endpoint", delayMs: 50, scheduleId: "timeout-1" }
+      );
+      await transport.publish(
+        { type: "TestMessage", data: "kept" } as TestMessage,
+        { endpoint: "test.endpoint", delayMs: 50, scheduleId: "timeout-2" }
+      );
+
+      await transport.cancelScheduled("timeout-1");
+      await transport.cancelScheduled("unknown");
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(received.map((e) => (e.payload as TestMessage).data)).toEqual([
+        "kept",
+      ]);
+    });
   });
 
   describe("concurrency", () => {
@@ -297,4 +383,33 @@ describe("InMemoryTransport", () => {
       expect(maxConcurrent).toBeLessThanOrEqual(3);
     });
   });
+
+  describe("serializer", () => {
+    it("should deliver envelopes through the serializer", async () => {
+      const t = new InMemoryTransport({ serializer: new JsonSerializer() });
+      await t.start();
+
+      let receivedEnvelope: MessageEnvelope | undefined;
+      await t.subscribe(
+        { endpoint: "test.endpoint" },
+        async (envelope) => {
+          receivedEnvelope = envelope;
+        }
+      );
+
+      await t.publish(
+        { type: "DatedMessage", at: new Date("2024-01-01T00:00:00Z") },
+        { endpoint: "test.endpoint" }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await t.stop();
+
+      expect(receivedEnvelope?.timestamp).toBeInstanceOf(Date);
+      expect(receivedEnvelope?.payload).toEqual({
+        type: "DatedMessage",
+        at: "2024-01-01T00:00:00.000Z",
+      });
+    });
+  });
 });
@@ -5,7 +5,9 @@ import type {
   TransportPublishOptions,
   BaseMessage,
   MessageEnvelope,
+  Serializer,
 } from "@saga-bus/core";
+import { BusStoppingError } from "@saga-bus/core";
 import { Semaphore } from "./Semaphore.js";
 
 interface Subscription<T extends BaseMessage = BaseMessage> {
@@ -14,37 +16,78 @@ interface Subscription<T extends BaseMessage = BaseMessage> {
   semaphore: Semaphore;
 }
 
+interface HeldDelivery {
+  endpoint: string;
+  subscription: Subscription;
+  envelope: MessageEnvelope;
+  data: Buffer | undefined;
+}
+
 export interface InMemoryTransportOptions {
   /**
    * Default concurrency for subscriptions (default: 1)
    */
   defaultConcurrency?: number;
+
+  /**
+   * Serialize envelopes on publish and deserialize them for each
+   * subscriber, like a broker-backed transport would. Useful in tests to
+   * catch payloads that don't survive serialization. By default envelopes
+   * are delivered as-is.
+   */
+  serializer?: Serializer;
 }
 
 /**
  * In-memory transport implementation for testing and local development.
  * Uses a simple pub/sub pattern with concurrency control.
+ *
+ * Deliveries arriving after `stopReceiving()`, or handed back by a
+ * stopping bus, are held and delivered again on the next `start()`.
  */
 export class InMemoryTransport implements Transport {
   private readonly subscriptions = new Map<string, Subscription[]>();
   private readonly pendingTimeouts = new Set<ReturnType<typeof setTimeout>>();
+  private readonly scheduled = new Map<string, ReturnType<typeof setTimeout>>();
   private readonly defaultConcurrency: number;
+  private readonly serializer: Serializer | undefined;
+  private readonly held: HeldDelivery[] = [];
   private started = false;
+  private receiving = false;
 
   constructor(options: InMemoryTransportOptions = {}) {
     this.defaultConcurrency = options.defaultConcurrency ?? 1;
+    this.serializer = options.serializer;
   }
 
   async start(): Promise<void> {
     this.started = true;
+    this.receiving = true;
+
+    // Redeliver what was handed back while stopping
+    for (const delivery of this.held.splice(0)) {
+      setImmediate(() => {
+        void this.deliver(delivery);
+      });
+    }
   }
 
   async stop(): Promise<void> {
     this.started = false;
+    this.receiving = false;
 
     // Clear all pending delayed messages
     this.pendingTimeouts.forEach((timeout) => clearTimeout(timeout));
     this.pendingTimeouts.clear();
+    this.scheduled.clear();
+  }
+
+  /**
+   * Hold new deliveries until the next `start()`, letting handlers that
+   * are running finish.
+   */
+  async stopReceiving(): Promise<void> {
+    this.receiving = false;
   }
 
   async subscribe<TMessage extends BaseMessage>(
@@ -71,7 +114,7 @@ export class InMemoryTransport implements Transport {
     message: TMessage,
     options: TransportPublishOptions
   ): Promise<void> {
-    const { endpoint, headers = {}, delayMs } = options;
+    const { endpoint, headers = {}, delayMs, scheduleId } = options;
 
     const envelope: MessageEnvelope<TMessage> = {
       id: randomUUID(),
@@ -81,24 +124,43 @@ export class InMemoryTransport implements Transport {
       timestamp: new Date(),
       partitionKey: options.key,
     };
+    const data = this.serializer?.serialize(envelope);
 
     if (delayMs && delayMs > 0) {
       const timeout = setTimeout(() => {
         this.pendingTimeouts.delete(timeout);
-        void this.deliverToSubscribers(endpoint, envelope);
+        if (scheduleId) {
+          this.scheduled.delete(scheduleId);
+        }
+        void this.deliverToSubscribers(endpoint, envelope, data);
       }, delayMs);
       this.pendingTimeouts.add(timeout);
+      if (scheduleId) {
+        this.scheduled.set(scheduleId, timeout);
+      }
     } else {
       // Deliver asynchronously to avoid blocking publisher
       setImmediate(() => {
-        void this.deliverToSubscribers(endpoint, envelope);
+        void this.deliverToSubscribers(endpoint, envelope, data);
       });
     }
   }
 
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    const timeout = this.scheduled.get(scheduleId);
+    if (!timeout) {
+      return;
+    }
+
+    clearTimeout(timeout);
+    this.pendingTimeouts.delete(timeout);
+    this.scheduled.delete(scheduleId);
+  }
+
   private async deliverToSubscribers<TMessage extends BaseMessage>(
     endpoint: string,
-    envelope: MessageEnvelope<TMessage>
+    envelope: MessageEnvelope<TMessage>,
+    data: Buffer | undefined
   ): Promise<void> {
     if (!this.started) {
       return;
@@ -111,24 +173,49 @@ export class InMemoryTransport implements Transport {
 
     // Deliver to all subscriptions (fan-out)
     // Each subscription handles its own concurrency
-    const deliveries = subscriptions.map(async (sub) => {
-      await sub.semaphore.withPermit(async () => {
-        try {
-          await sub.handler(envelope as MessageEnvelope);
-        } catch (error) {
-          // In-memory transport doesn't handle errors - let them propagate
-          // Real error handling is done by the bus runtime
-          console.error(
-            `[InMemoryTransport] Handler error for ${endpoint}:`,
-            error
-          );
-        }
-      });
-    });
+    const deliveries = subscriptions.map((subscription) =>
+      this.deliver({
+        endpoint,
+        subscription,
+        envelope: envelope as MessageEnvelope,
+        data,
+      })
+    );
 
     await Promise.all(deliveries);
   }
 
+  private async deliver(delivery: HeldDelivery): Promise<void> {
+    const { endpoint, subscription, envelope, data } = delivery;
+
+    await subscription.semaphore.withPermit(async () => {
+      if (!this.receiving) {
+        this.held.push(delivery);
+        return;
+      }
+
+      try {
+        await subscription.handler(
+          this.serializer && data
+            ? this.serializer.deserialize(data)
+            : envelope
+        );
+      } catch (error) {
+        if (error instanceof BusStoppingError) {
+          this.held.push(delivery);
+          return;
+        }
+
+        // In-memory transport doesn't handle errors - let them propagate
+        // Real error handling is done by the bus runtime
+        console.error(
+          `[InMemoryTransport] Handler error for ${endpoint}:`,
+          error
+        );
+      }
+    });
+  }
+
   /**
    * Get the number of subscriptions for an endpoint.
    * Useful for testing.
@@ -93,6 +93,58 @@ describe("KafkaTransport", () => {
       expect(received[0]?.payload.value).toBe(42);
     }, 60_000);
 
+    it("should consume topics subscribed after start", async () => {
+      const topic = `early-topic-${Date.now()}`;
+      const lateTopic = `late-topic-${Date.now()}`;
+      const groupId = `group-${Date.now()}`;
+
+      const admin = kafka!.admin();
+      await admin.connect();
+      await admin.createTopics({
+        topics: [
+          { topic, numPartitions: 1 },
+          { topic: lateTopic, numPartitions: 1 },
+        ],
+      });
+      await admin.disconnect();
+
+      const transport = new KafkaTransport({
+        kafka: kafka!,
+        groupId,
+        fromBeginning: true,
+      });
+
+      const received: string[] = [];
+
+      await transport.subscribe<TestEvent>({ endpoint: topic }, async () => {
+        received.push(topic);
+      });
+
+      await transport.start();
+
+      // Like the bus's reply endpoint, subscribed on first use
+      await transport.subscribe<TestEvent>(
+        { endpoint: lateTopic },
+        async () => {
+          received.push(lateTopic);
+        }
+      );
+
+      // Wait for consumer to be ready
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      const message: TestEvent = { type: "TestEvent", value: 1 };
+      await transport.publish(message, { endpoint: topic });
+      await transport.publish(message, { endpoint: lateTopic });
+
+      // Wait for messages to be received
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+
+      await transport.stop();
+
+      expect(received.sort()).toEqual([topic, lateTopic].sort());
+    }, 60_000);
+
     it("should preserve ordering within partition", async () => {
       const topic = `seq-topic-${Date.now()}`;
       const groupId = `group-${Date.now()}`;
@@ -136,6 +188,49 @@ describe("KafkaTransport", () => {
 
       expect(received).toEqual([0, 1, 2, 3, 4]);
     }, 60_000);
+
+    it("should publish batches in one request, in order", async () => {
+      const topic = `batch-topic-${Date.now()}`;
+      const groupId = `group-${Date.now()}`;
+
+      const admin = kafka!.admin();
+      await admin.connect();
+      await admin.createTopics({
+        topics: [{ topic, numPartitions: 1 }],
+      });
+      await admin.disconnect();
+
+      const transport = new KafkaTransport({
+        kafka: kafka!,
+        groupId,
+        fromBeginning: true,
+      });
+
+      const received: number[] = [];
+
+      await transport.subscribe<SeqEvent>(
+        { endpoint: topic },
+        async (envelope) => {
+          received.push(envelope.payload.sequence);
+        }
+      );
+
+      await transport.start();
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      await transport.publishBatch(
+        [0, 1, 2, 3, 4].map((sequence) => ({
+          message: { type: "SeqEvent", sequence } as SeqEvent,
+          options: { endpoint: topic, key: "order-sequence" },
+        }))
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+
+      await transport.stop();
+
+      expect(received).toEqual([0, 1, 2, 3, 4]);
+    }, 60_000);
   });
 
   describe("error handling", () => {
@@ -245,6 +340,138 @@ describe("KafkaTransport", () => {
       const total = received1.length + received2.length;
       expect(total).toBe(9);
     }, 90_000);
+
+    it("should deliver every message to each subscription group", async () => {
+      const topic = `fanout-topic-${Date.now()}`;
+      const groupId = `group-${Date.now()}`;
+
+      const admin = kafka!.admin();
+      await admin.connect();
+      await admin.createTopics({
+        topics: [{ topic, numPartitions: 1 }],
+      });
+      await admin.disconnect();
+
+      const shipping: string[] = [];
+      const billing: string[] = [];
+
+      const transport = new KafkaTransport({
+        kafka: kafka!,
+        groupId,
+        fromBeginning: true,
+      });
+
+      await transport.subscribe<BalanceEvent>(
+        { endpoint: topic, group: "shipping" },
+        async (envelope) => {
+          shipping.push(envelope.payload.label);
+        }
+      );
+      await transport.subscribe<BalanceEvent>(
+        { endpoint: topic, group: "billing" },
+        async (envelope) => {
+          billing.push(envelope.payload.label);
+        }
+      );
+
+      await transport.start();
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+
+      for (let i = 0; i < 3; i++) {
+        const message: BalanceEvent = { type: "BalanceEvent", label: `msg-${i}` };
+        await transport.publish(message, { endpoint: topic });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+      await transport.stop();
+
+      expect(shipping).toEqual(["msg-0", "msg-1", "msg-2"]);
+      expect(billing).toEqual(["msg-0", "msg-1", "msg-2"]);
+    }, 90_000);
+  });
+
+  describe("delayed delivery", () => {
+    it("should hold delayed messages in delay topics until due", async () => {
+      const topic = `delay-topic-${Date.now()}`;
+      const groupId = `group-${Date.now()}`;
+
+      const transport = new KafkaTransport({
+        kafka: kafka!,
+        groupId,
+        createTopics: true,
+        numPartitions: 1,
+        fromBeginning: true,
+        delay: { tiersMs: [2_000, 4_000] },
+      });
+
+      const received: Array<{ value: number; at: number }> = [];
+
+      await transport.subscribe<TestEvent>(
+        { endpoint: topic },
+        async (envelope) => {
+          received.push({ value: envelope.payload.value, at: Date.now() });
+        }
+      );
+
+      await transport.start();
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      const publishedAt = Date.now();
+      await transport.publish<TestEvent>(
+        { type: "TestEvent", value: 1 },
+        { endpoint: topic, delayMs: 7_000 }
+      );
+      await transport.publish<TestEvent>(
+        { type: "TestEvent", value: 2 },
+        { endpoint: topic }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 15000));
+      await transport.stop();
+
+      expect(received.map((r) => r.value)).toEqual([2, 1]);
+      expect(received[1]!.at - publishedAt).toBeGreaterThanOrEqual(7_000);
+    }, 60_000);
+
+    it("should deliver a delayed message once to each service's group", async () => {
+      const topic = `delay-fanout-topic-${Date.now()}`;
+      const received: Record<string, number> = { billing: 0, shipping: 0 };
+
+      const transports = ["billing", "shipping"].map(
+        (service) =>
+          new KafkaTransport({
+            kafka: kafka!,
+            groupId: `${service}-${Date.now()}`,
+            createTopics: true,
+            numPartitions: 1,
+            fromBeginning: true,
+            delay: { tiersMs: [2_000] },
+          })
+      );
+
+      for (const [index, service] of ["billing", "shipping"].entries()) {
+        await transports[index]!.subscribe<TestEvent>(
+          { endpoint: topic },
+          async () => {
+            received[service]!++;
+          }
+        );
+        await transports[index]!.start();
+      }
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      await transports[0]!.publish<TestEvent>(
+        { type: "TestEvent", value: 1 },
+        { endpoint: topic, delayMs: 3_000 }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 12000));
+      for (const transport of transports) {
+        await transport.stop();
+      }
+
+      expect(received).toEqual({ billing: 1, shipping: 1 });
+    }, 60_000);
   });
 
   describe("start and stop", () => {
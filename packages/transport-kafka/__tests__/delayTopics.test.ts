@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_DELAY_TIERS_MS,
+  delayTopicName,
+  isTargetGroup,
+  normalizeDelayTiers,
+  selectDelayTier,
+} from "../src/delayTopics.js";
+
+describe("delay topics", () => {
+  it("should name delay topics after the tier", () => {
+    expect(
+      DEFAULT_DELAY_TIERS_MS.map((tier) => delayTopicName("orders", tier))
+    ).toEqual([
+      "orders.delay.5s",
+      "orders.delay.1m",
+      "orders.delay.10m",
+      "orders.delay.1h",
+    ]);
+    expect(delayTopicName("orders", 1500)).toBe("orders.delay.1500ms");
+  });
+
+  it("should pick the longest tier not exceeding the delay", () => {
+    const tiers = normalizeDelayTiers(DEFAULT_DELAY_TIERS_MS);
+
+    expect(selectDelayTier(tiers, 1_000)).toBe(5_000);
+    expect(selectDelayTier(tiers, 5_000)).toBe(5_000);
+    expect(selectDelayTier(tiers, 90_000)).toBe(60_000);
+    expect(selectDelayTier(tiers, 86_400_000)).toBe(3_600_000);
+  });
+
+  it("should sort tiers and reject invalid ones", () => {
+    expect(normalizeDelayTiers([60_000, 5_000, 60_000])).toEqual([5_000, 60_000]);
+    expect(() => normalizeDelayTiers([])).toThrow(
+      "At least one delay tier is required"
+    );
+    expect(() => normalizeDelayTiers([0])).toThrow(
+      "Delay tiers must be positive integers, got 0"
+    );
+  });
+
+  it("should only hand forwarded messages to their target groups", () => {
+    const targetGroups = JSON.stringify(["billing", "billing.audit"]);
+
+    expect(isTargetGroup(targetGroups, "billing")).toBe(true);
+    expect(isTargetGroup(targetGroups, "shipping")).toBe(false);
+    expect(isTargetGroup(undefined, "shipping")).toBe(true);
+  });
+});
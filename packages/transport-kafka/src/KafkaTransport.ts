@@ -5,21 +5,37 @@ import type {
   Consumer,
   EachMessagePayload,
   Admin,
+  IHeaders,
+  Message,
 } from "kafkajs";
+import { MessageCodec, CONTENT_TYPE_HEADER } from "@saga-bus/core";
 import type {
   Transport,
   TransportSubscribeOptions,
   TransportPublishOptions,
+  TransportBatchMessage,
   BaseMessage,
   MessageEnvelope,
 } from "@saga-bus/core";
 import type { KafkaTransportOptions, KafkaSubscription } from "./types.js";
+import {
+  DEFAULT_DELAY_TIERS_MS,
+  DELAY_HEADERS,
+  delayTopicName,
+  isTargetGroup,
+  normalizeDelayTiers,
+  selectDelayTier,
+} from "./delayTopics.js";
 
 /**
  * Kafka transport for saga-bus using KafkaJS.
  *
  * Uses partition keys for message ordering within a saga.
- * Consumer groups enable horizontal scaling.
+ * Consumer groups enable horizontal scaling. Subscriptions with a `group`
+ * get a consumer of their own, so each group receives every message.
+ * Messages published with `delayMs` wait in tiered delay topics. Each
+ * service forwards them once due, marked for its own consumer groups, so
+ * every group receives one copy.
  *
  * @example
  * ```typescript
@@ -59,14 +75,24 @@ export class KafkaTransport implements Transport {
   private readonly fromBeginning: boolean;
   private readonly sessionTimeout: number;
   private readonly heartbeatInterval: number;
+  private readonly codec: MessageCodec;
+  /** Ascending delay tiers, or null when delays are disabled */
+  private readonly delayTiers: number[] | null;
+  /** Configured delay consumer group; derived from the groups otherwise */
+  private readonly delayGroupId: string | undefined;
 
   private producer: Producer | null = null;
-  private consumer: Consumer | null = null;
+  /** Consumers by group ID */
+  private readonly consumers = new Map<string, Consumer>();
+  /** Handlers by group ID, then topic */
   private readonly handlers = new Map<
     string,
-    (envelope: MessageEnvelope) => Promise<void>
+    Map<string, (envelope: MessageEnvelope) => Promise<void>>
   >();
   private readonly subscriptions: KafkaSubscription[] = [];
+  private delayConsumer: Consumer | null = null;
+  /** Timers resuming delay topic partitions */
+  private readonly resumeTimers = new Set<ReturnType<typeof setTimeout>>();
   private isRunning = false;
 
   constructor(options: KafkaTransportOptions) {
@@ -75,10 +101,16 @@ export class KafkaTransport implements Transport {
     this.groupId = options.groupId;
     this.createTopics = options.createTopics ?? false;
     this.numPartitions = options.numPartitions ?? 3;
+    this.codec = new MessageCodec(options);
     this.replicationFactor = options.replicationFactor ?? 1;
     this.fromBeginning = options.fromBeginning ?? false;
     this.sessionTimeout = options.sessionTimeout ?? 30000;
     this.heartbeatInterval = options.heartbeatInterval ?? 3000;
+    this.delayTiers =
+      options.delay === false
+        ? null
+        : normalizeDelayTiers(options.delay?.tiersMs ?? DEFAULT_DELAY_TIERS_MS);
+    this.delayGroupId = (options.delay && options.delay.groupId) || undefined;
   }
 
   async start(): Promise<void> {
@@ -90,54 +122,36 @@ export class KafkaTransport implements Transport {
     this.producer = this.kafka.producer();
     await this.producer.connect();
 
-    // If we have subscriptions, start consumer
-    if (this.subscriptions.length > 0) {
-      if (!this.groupId) {
-        throw new Error("groupId is required for consuming");
-      }
+    this.isRunning = true;
 
+    // If we have subscriptions, start one consumer per group
+    if (this.subscriptions.length > 0) {
       // Create topics if needed
       if (this.createTopics) {
         await this.ensureTopics();
       }
 
-      // Create and connect consumer
-      this.consumer = this.kafka.consumer({
-        groupId: this.groupId,
-        sessionTimeout: this.sessionTimeout,
-        heartbeatInterval: this.heartbeatInterval,
-      });
-
-      await this.consumer.connect();
-
-      // Subscribe to all topics
-      for (const sub of this.subscriptions) {
-        await this.consumer.subscribe({
-          topic: sub.topic,
-          fromBeginning: this.fromBeginning,
-        });
+      for (const groupId of this.handlers.keys()) {
+        await this.startConsumer(groupId);
       }
 
-      this.isRunning = true;
-
-      // Start consuming with manual commit
-      await this.consumer.run({
-        autoCommit: false,
-        eachMessage: async (payload: EachMessagePayload) => {
-          await this.processMessage(payload);
-        },
-      });
-    } else {
-      this.isRunning = true;
+      await this.startDelayConsumer();
     }
   }
 
   async stop(): Promise<void> {
     this.isRunning = false;
 
-    if (this.consumer) {
-      await this.consumer.disconnect();
-      this.consumer = null;
+    this.clearResumeTimers();
+
+    for (const consumer of this.consumers.values()) {
+      await consumer.disconnect();
+    }
+    this.consumers.clear();
+
+    if (this.delayConsumer) {
+      await this.delayConsumer.disconnect();
+      this.delayConsumer = null;
     }
 
     if (this.producer) {
@@ -156,42 +170,111 @@ export class KafkaTransport implements Transport {
       throw new Error("endpoint (topic) is required for subscribing");
     }
 
-    if (!this.groupId) {
-      throw new Error("groupId is required for subscribing");
-    }
+    const groupId = this.resolveGroupId(options.group);
 
     // Store handler
-    this.handlers.set(
-      topic,
-      handler as (envelope: MessageEnvelope) => Promise<void>
-    );
+    let handlers = this.handlers.get(groupId);
+    if (!handlers) {
+      handlers = new Map();
+      this.handlers.set(groupId, handlers);
+    }
+    handlers.set(topic, handler as (envelope: MessageEnvelope) => Promise<void>);
 
+    const isNewTopic = !this.subscriptions.some((s) => s.topic === topic);
     this.subscriptions.push({
       topic,
       concurrency: options.concurrency ?? 1,
+      groupId,
     });
+
+    // Consumers can't add topics while running: restart the group's
+    // consumer, and the delay consumer for a new topic
+    if (this.isRunning) {
+      if (this.createTopics) {
+        await this.ensureTopics();
+      }
+
+      await this.startConsumer(groupId);
+
+      if (isNewTopic) {
+        await this.startDelayConsumer();
+      }
+    }
   }
 
   async publish<TMessage extends BaseMessage>(
     message: TMessage,
     options: TransportPublishOptions
   ): Promise<void> {
-    const topic = options.endpoint || this.defaultTopic;
+    await this.publishBatch([{ message, options }]);
+  }
 
-    if (!topic) {
-      throw new Error("endpoint (topic) is required for publishing");
+  /**
+   * Publish messages with one multi-topic producer request. Delayed
+   * messages go to their delay topics one at a time.
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    const producer = await this.getProducer();
+    const topicMessages = new Map<string, Message[]>();
+
+    for (const { message, options } of messages) {
+      const record = this.createRecord(message, options);
+
+      if (record.deliverAt !== null) {
+        await this.sendToDelayTopic(
+          record.topic,
+          record.message.key ?? null,
+          record.message.value,
+          record.message.headers ?? {},
+          record.deliverAt
+        );
+        continue;
+      }
+
+      const batch = topicMessages.get(record.topic) ?? [];
+      batch.push(record.message);
+      topicMessages.set(record.topic, batch);
     }
 
+    if (topicMessages.size > 0) {
+      await producer.sendBatch({
+        topicMessages: [...topicMessages].map(([topic, batch]) => ({
+          topic,
+          messages: batch,
+        })),
+      });
+    }
+  }
+
+  private async getProducer(): Promise<Producer> {
     // Lazily connect producer if not started
     if (!this.producer) {
       this.producer = this.kafka.producer();
       await this.producer.connect();
     }
+    return this.producer;
+  }
 
-    const { key, headers = {} } = options;
+  /**
+   * Encode a message for its topic. `deliverAt` is set for messages that
+   * go through the delay topics.
+   */
+  private createRecord(
+    message: BaseMessage,
+    options: TransportPublishOptions
+  ): { topic: string; message: Message; deliverAt: number | null } {
+    const topic = options.endpoint || this.defaultTopic;
+
+    if (!topic) {
+      throw new Error("endpoint (topic) is required for publishing");
+    }
+
+    const { key, headers = {}, delayMs } = options;
 
     // Create envelope
-    const envelope: MessageEnvelope<TMessage> = {
+    const envelope: MessageEnvelope = {
       id: randomUUID(),
       type: message.type,
       payload: message,
@@ -203,37 +286,221 @@ export class KafkaTransport implements Transport {
       partitionKey: key,
     };
 
-    // Partition key for ordering
-    const partitionKey = key ?? envelope.id;
-
     // Convert headers to Kafka format (Buffer values)
     const kafkaHeaders: Record<string, string> = {
       messageId: envelope.id,
       messageType: envelope.type,
       ...headers,
+      [CONTENT_TYPE_HEADER]: this.codec.contentType,
     };
 
-    await this.producer.send({
+    return {
       topic,
+      message: {
+        // Partition key for ordering
+        key: key ?? envelope.id,
+        value: this.codec.encode(envelope),
+        headers: kafkaHeaders,
+      },
+      deliverAt:
+        delayMs && delayMs > 0 && this.delayTiers
+          ? Date.now() + delayMs
+          : null,
+    };
+  }
+
+  /**
+   * Park a message in the delay topic matching its remaining delay. It
+   * leaves the tier after the tier's duration or when due, whichever is
+   * first, so each delay topic stays in due order.
+   */
+  private async sendToDelayTopic(
+    topic: string,
+    key: Buffer | string | null,
+    value: Buffer | string | null,
+    headers: IHeaders,
+    deliverAt: number
+  ): Promise<void> {
+    const now = Date.now();
+    const tier = selectDelayTier(this.delayTiers!, deliverAt - now);
+
+    await this.producer!.send({
+      topic: delayTopicName(topic, tier),
       messages: [
         {
-          key: partitionKey,
-          value: JSON.stringify(envelope),
-          headers: kafkaHeaders,
+          key,
+          value,
+          headers: {
+            ...headers,
+            [DELAY_HEADERS.TARGET_TOPIC]: topic,
+            [DELAY_HEADERS.DELIVER_AT]: String(deliverAt),
+            [DELAY_HEADERS.HOLD_UNTIL]: String(Math.min(now + tier, deliverAt)),
+          },
         },
       ],
     });
   }
 
+  /**
+   * Start the consumer of a group for all its topics, replacing the one
+   * already running.
+   */
+  private async startConsumer(groupId: string): Promise<void> {
+    const existing = this.consumers.get(groupId);
+    if (existing) {
+      this.consumers.delete(groupId);
+      await existing.disconnect();
+    }
+
+    const consumer = this.kafka.consumer({
+      groupId,
+      sessionTimeout: this.sessionTimeout,
+      heartbeatInterval: this.heartbeatInterval,
+    });
+
+    await consumer.connect();
+    this.consumers.set(groupId, consumer);
+
+    // Subscribe to the group's topics
+    for (const topic of this.handlers.get(groupId)?.keys() ?? []) {
+      await consumer.subscribe({
+        topic,
+        fromBeginning: this.fromBeginning,
+      });
+    }
+
+    // Start consuming with manual commit
+    await consumer.run({
+      autoCommit: false,
+      eachMessage: async (payload: EachMessagePayload) => {
+        await this.processMessage(groupId, consumer, payload);
+      },
+    });
+  }
+
+  /**
+   * Forward due messages out of the subscribed topics' delay topics,
+   * replacing the delay consumer already running.
+   */
+  private async startDelayConsumer(): Promise<void> {
+    if (this.delayConsumer) {
+      const existing = this.delayConsumer;
+      this.delayConsumer = null;
+      this.clearResumeTimers();
+      await existing.disconnect();
+    }
+
+    const delayTopics = this.createTopics
+      ? this.getDelayTopics()
+      : await this.findExistingDelayTopics();
+    if (delayTopics.length === 0) {
+      return;
+    }
+
+    const consumer = this.kafka.consumer({
+      groupId: this.resolveDelayGroupId(),
+      sessionTimeout: this.sessionTimeout,
+      heartbeatInterval: this.heartbeatInterval,
+    });
+    await consumer.connect();
+    this.delayConsumer = consumer;
+
+    for (const topic of delayTopics) {
+      await consumer.subscribe({ topic, fromBeginning: true });
+    }
+
+    await consumer.run({
+      autoCommit: false,
+      eachMessage: async (payload: EachMessagePayload) => {
+        await this.processDelayedMessage(consumer, payload);
+      },
+    });
+  }
+
+  private clearResumeTimers(): void {
+    for (const timer of this.resumeTimers) {
+      clearTimeout(timer);
+    }
+    this.resumeTimers.clear();
+  }
+
+  /**
+   * Delay topics of the subscribed topics.
+   */
+  private getDelayTopics(): string[] {
+    if (!this.delayTiers) {
+      return [];
+    }
+
+    const topics = new Set(this.subscriptions.map((s) => s.topic));
+    return [...topics].flatMap((topic) =>
+      this.delayTiers!.map((tier) => delayTopicName(topic, tier))
+    );
+  }
+
+  /**
+   * Each service forwards the delay topics of its own subscriptions for
+   * its own groups, so it gets a delay group of its own: "<groupId>.delay",
+   * or named after its first consumer group without a groupId.
+   */
+  private resolveDelayGroupId(): string {
+    if (this.delayGroupId) {
+      return this.delayGroupId;
+    }
+
+    const [firstGroupId] = this.handlers.keys();
+    return `${this.groupId ?? firstGroupId}.delay`;
+  }
+
+  private resolveGroupId(group: string | undefined): string {
+    if (group) {
+      return this.groupId ? `${this.groupId}.${group}` : group;
+    }
+
+    if (!this.groupId) {
+      throw new Error("groupId is required for subscribing");
+    }
+
+    return this.groupId;
+  }
+
+  /**
+   * Delay topics of the subscribed topics that exist, warning about the
+   * rest: messages delayed for those topics can't be published.
+   */
+  private async findExistingDelayTopics(): Promise<string[]> {
+    const delayTopics = this.getDelayTopics();
+    if (delayTopics.length === 0) {
+      return [];
+    }
+
+    const admin: Admin = this.kafka.admin();
+    await admin.connect();
+
+    try {
+      const existingTopics = new Set(await admin.listTopics());
+      const missing = delayTopics.filter((topic) => !existingTopics.has(topic));
+      if (missing.length > 0) {
+        console.warn(
+          `[Kafka] Delay topics ${missing.join(", ")} do not exist; create them or set createTopics to deliver delayed messages`
+        );
+      }
+      return delayTopics.filter((topic) => existingTopics.has(topic));
+    } finally {
+      await admin.disconnect();
+    }
+  }
+
   private async ensureTopics(): Promise<void> {
     const admin: Admin = this.kafka.admin();
     await admin.connect();
 
     try {
       const existingTopics = await admin.listTopics();
-      const topicsToCreate = this.subscriptions
-        .map((s) => s.topic)
-        .filter((topic) => !existingTopics.includes(topic));
+      const topicsToCreate = [
+        ...new Set(this.subscriptions.map((s) => s.topic)),
+        ...this.getDelayTopics(),
+      ].filter((topic) => !existingTopics.includes(topic));
 
       if (topicsToCreate.length > 0) {
         await admin.createTopics({
@@ -249,32 +516,48 @@ export class KafkaTransport implements Transport {
     }
   }
 
-  private async processMessage(payload: EachMessagePayload): Promise<void> {
+  private async processMessage(
+    groupId: string,
+    consumer: Consumer,
+    payload: EachMessagePayload
+  ): Promise<void> {
     const { topic, partition, message } = payload;
 
     if (!message.value) {
       return;
     }
 
-    try {
-      // Parse envelope
-      const parsed = JSON.parse(message.value.toString()) as MessageEnvelope;
+    // Forwarded out of a delay topic by another service, for its groups
+    const targetGroups = headerValue(
+      message.headers?.[DELAY_HEADERS.TARGET_GROUPS]
+    );
+    if (!isTargetGroup(targetGroups, groupId)) {
+      await consumer.commitOffsets([
+        {
+          topic,
+          partition,
+          offset: (BigInt(message.offset) + 1n).toString(),
+        },
+      ]);
+      return;
+    }
 
-      // Reconstruct Date objects
-      const envelope: MessageEnvelope = {
-        ...parsed,
-        timestamp: new Date(parsed.timestamp),
-      };
+    try {
+      const contentType = message.headers?.[CONTENT_TYPE_HEADER];
+      const envelope = this.codec.decode(
+        message.value,
+        contentType?.toString()
+      );
 
       // Find handler for this topic
-      const handler = this.handlers.get(topic);
+      const handler = this.handlers.get(groupId)?.get(topic);
 
       if (handler) {
         await handler(envelope);
       }
 
       // Commit offset on success
-      await this.consumer!.commitOffsets([
+      await consumer.commitOffsets([
         {
           topic,
           partition,
@@ -288,6 +571,99 @@ export class KafkaTransport implements Transport {
     }
   }
 
+  /**
+   * Forward a message out of a delay topic once it may leave it: to its
+   * topic when due, otherwise to the tier for its remaining delay. Until
+   * then the partition is paused and re-read from this message.
+   */
+  private async processDelayedMessage(
+    consumer: Consumer,
+    payload: EachMessagePayload
+  ): Promise<void> {
+    const { topic, partition, message, pause } = payload;
+    const headers = message.headers ?? {};
+    const target = headerValue(headers[DELAY_HEADERS.TARGET_TOPIC]);
+    const deliverAt = Number(headerValue(headers[DELAY_HEADERS.DELIVER_AT]));
+    const holdUntil = Number(headerValue(headers[DELAY_HEADERS.HOLD_UNTIL]));
+    const parkedBy = headerValue(headers[DELAY_HEADERS.DELAY_GROUP]);
+    const delayGroupId = this.resolveDelayGroupId();
+    const commit = () =>
+      consumer.commitOffsets([
+        {
+          topic,
+          partition,
+          offset: (BigInt(message.offset) + 1n).toString(),
+        },
+      ]);
+
+    if (!target || Number.isNaN(deliverAt) || Number.isNaN(holdUntil)) {
+      console.error(
+        `[Kafka] Dropping message ${message.offset} of delay topic ${topic} without delay headers`
+      );
+      await commit();
+      return;
+    }
+
+    // Another service's copy, moved to this tier by its delay group
+    if (parkedBy !== undefined && parkedBy !== delayGroupId) {
+      await commit();
+      return;
+    }
+
+    const waitMs = holdUntil - Date.now();
+    if (waitMs > 0) {
+      const resume = pause();
+      consumer.seek({ topic, partition, offset: message.offset });
+      const timer = setTimeout(() => {
+        this.resumeTimers.delete(timer);
+        resume();
+      }, waitMs);
+      this.resumeTimers.add(timer);
+      return;
+    }
+
+    const forwardHeaders: IHeaders = { ...headers };
+    delete forwardHeaders[DELAY_HEADERS.TARGET_TOPIC];
+    delete forwardHeaders[DELAY_HEADERS.DELIVER_AT];
+    delete forwardHeaders[DELAY_HEADERS.HOLD_UNTIL];
+    delete forwardHeaders[DELAY_HEADERS.DELAY_GROUP];
+    delete forwardHeaders[DELAY_HEADERS.TARGET_GROUPS];
+
+    const producer = await this.getProducer();
+
+    if (deliverAt > Date.now()) {
+      await this.sendToDelayTopic(
+        target,
+        message.key,
+        message.value,
+        { ...forwardHeaders, [DELAY_HEADERS.DELAY_GROUP]: delayGroupId },
+        deliverAt
+      );
+    } else {
+      // Every service consuming the topic forwards its own copy, so each
+      // copy is only handled by the forwarding service's groups
+      const targetGroups = [...this.handlers]
+        .filter(([, handlers]) => handlers.has(target))
+        .map(([groupId]) => groupId);
+
+      await producer.send({
+        topic: target,
+        messages: [
+          {
+            key: message.key,
+            value: message.value,
+            headers: {
+              ...forwardHeaders,
+              [DELAY_HEADERS.TARGET_GROUPS]: JSON.stringify(targetGroups),
+            },
+          },
+        ],
+      });
+    }
+
+    await commit();
+  }
+
   /**
    * Check if the transport is running.
    */
@@ -305,3 +681,10 @@ export class KafkaTransport implements Transport {
     };
   }
 }
+
+function headerValue(
+  value: Buffer | string | (Buffer | string)[] | undefined
+): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.toString();
+}
@@ -0,0 +1,90 @@
+/**
+ * Default delay tiers: 5 seconds, 1 minute, 10 minutes and 1 hour.
+ */
+export const DEFAULT_DELAY_TIERS_MS: ReadonlyArray<number> = [
+  5_000, 60_000, 600_000, 3_600_000,
+];
+
+/**
+ * Headers on messages waiting in a delay topic.
+ */
+export const DELAY_HEADERS = {
+  /** Topic the message is delivered to once due */
+  TARGET_TOPIC: "x-saga-delay-target",
+  /** When the message is due (epoch milliseconds) */
+  DELIVER_AT: "x-saga-delay-deliver-at",
+  /** When the message leaves its current delay topic (epoch milliseconds) */
+  HOLD_UNTIL: "x-saga-delay-hold-until",
+  /** Delay group that moved the message to a shorter tier; others skip it */
+  DELAY_GROUP: "x-saga-delay-group",
+  /** Consumer groups a due message was forwarded for (JSON array) */
+  TARGET_GROUPS: "x-saga-delay-target-groups",
+} as const;
+
+const UNITS: ReadonlyArray<[number, string]> = [
+  [3_600_000, "h"],
+  [60_000, "m"],
+  [1_000, "s"],
+];
+
+/**
+ * Validate delay tiers and sort them ascending.
+ * @throws Error for an empty list or non-positive tiers
+ */
+export function normalizeDelayTiers(tiersMs: ReadonlyArray<number>): number[] {
+  if (tiersMs.length === 0) {
+    throw new Error("At least one delay tier is required");
+  }
+  for (const tier of tiersMs) {
+    if (!Number.isInteger(tier) || tier <= 0) {
+      throw new Error(`Delay tiers must be positive integers, got ${tier}`);
+    }
+  }
+  return [...new Set(tiersMs)].sort((a, b) => a - b);
+}
+
+/**
+ * Name of a topic's delay topic for a tier, e.g. "orders.delay.5s".
+ */
+export function delayTopicName(topic: string, tierMs: number): string {
+  const unit = UNITS.find(([size]) => tierMs % size === 0);
+  const label = unit ? `${tierMs / unit[0]}${unit[1]}` : `${tierMs}ms`;
+  return `${topic}.delay.${label}`;
+}
+
+/**
+ * Pick the tier for a remaining delay: the longest tier that doesn't
+ * exceed it, or the shortest tier for delays below all tiers.
+ */
+export function selectDelayTier(
+  tiersMs: ReadonlyArray<number>,
+  remainingMs: number
+): number {
+  let selected = tiersMs[0]!;
+  for (const tier of tiersMs) {
+    if (tier <= remainingMs) {
+      selected = tier;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Whether a consumer group handles a message forwarded out of a delay
+ * topic. Messages without target groups are for every group.
+ */
+export function isTargetGroup(
+  targetGroups: string | undefined,
+  groupId: string
+): boolean {
+  if (targetGroups === undefined) {
+    return true;
+  }
+
+  try {
+    const groups: unknown = JSON.parse(targetGroups);
+    return !Array.isArray(groups) || groups.includes(groupId);
+  } catch {
+    return true;
+  }
+}
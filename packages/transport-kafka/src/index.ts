@@ -1,2 +1,7 @@
 export { KafkaTransport } from "./KafkaTransport.js";
-export type { KafkaTransportOptions } from "./types.js";
+export {
+  DEFAULT_DELAY_TIERS_MS,
+  DELAY_HEADERS,
+  delayTopicName,
+} from "./delayTopics.js";
+export type { KafkaTransportOptions, KafkaDelayOptions } from "./types.js";
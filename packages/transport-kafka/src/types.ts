@@ -1,9 +1,10 @@
 import type { Kafka } from "kafkajs";
+import type { MessageCodecOptions } from "@saga-bus/core";
 
 /**
  * Kafka transport configuration options.
  */
-export interface KafkaTransportOptions {
+export interface KafkaTransportOptions extends MessageCodecOptions {
   /**
    * KafkaJS Kafka instance.
    */
@@ -17,7 +18,9 @@ export interface KafkaTransportOptions {
 
   /**
    * Consumer group ID.
-   * Required for subscribing.
+   * Required for subscribing, unless every subscription sets `group`.
+   * Subscriptions with a `group` consume in their own group
+   * "<groupId>.<group>" (or just "<group>" without a groupId).
    */
   groupId?: string;
 
@@ -56,6 +59,40 @@ export interface KafkaTransportOptions {
    * @default 3000
    */
   heartbeatInterval?: number;
+
+  /**
+   * Delayed delivery through tiered delay topics, used for `delayMs`
+   * (retry backoff, `ctx.schedule()` and saga timeouts). Set to `false` to
+   * publish delayed messages immediately.
+   */
+  delay?: KafkaDelayOptions | false;
+}
+
+/**
+ * Tiered delay topic configuration.
+ *
+ * A delayed message waits in "<topic>.delay.<tier>" topics (e.g.
+ * "orders.delay.1m") and is forwarded to its topic once due. Each service
+ * consuming a topic forwards the messages of its delay topics for its own
+ * consumer groups, pausing each partition until its next message is due.
+ */
+export interface KafkaDelayOptions {
+  /**
+   * Delay tiers in milliseconds. A message stays in one tier at most the
+   * tier's duration, then moves to the tier for its remaining delay.
+   * @default [5000, 60000, 600000, 3600000] (5s, 1m, 10m, 1h)
+   */
+  tiersMs?: ReadonlyArray<number>;
+
+  /**
+   * Consumer group forwarding delayed messages out of the delay topics of
+   * this transport's subscriptions, for this transport's consumer groups.
+   * Must be unique per service: a service sharing it would never receive
+   * the delayed messages the other forwards.
+   * @default "<groupId>.delay", or "<group>.delay" after the first
+   *   subscription's group without a groupId
+   */
+  groupId?: string;
 }
 
 /**
@@ -64,4 +101,6 @@ export interface KafkaTransportOptions {
 export interface KafkaSubscription {
   topic: string;
   concurrency: number;
+  /** Resolved Kafka consumer group ID */
+  groupId: string;
 }
@@ -7,10 +7,10 @@ import {
   ConsumerConfig,
   AckPolicy,
   DeliverPolicy,
-  StringCodec,
   headers,
   RetentionPolicy,
 } from "nats";
+import { MessageCodec, CONTENT_TYPE_HEADER } from "@saga-bus/core";
 import type {
   Transport,
   TransportSubscribeOptions,
@@ -21,8 +21,6 @@ import type {
 import type { NatsTransportOptions } from "./types.js";
 import { randomUUID } from "crypto";
 
-const sc = StringCodec();
-
 /**
  * NATS JetStream transport for saga-bus.
  *
@@ -59,6 +57,7 @@ export class NatsTransport implements Transport {
   > &
     NatsTransportOptions;
 
+  private readonly codec: MessageCodec;
   private readonly consumers: Array<{ stop: () => void }> = [];
   private started = false;
 
@@ -82,6 +81,7 @@ export class NatsTransport implements Transport {
       maxDeliver: 5,
       ...options,
     };
+    this.codec = new MessageCodec(options);
   }
 
   async start(): Promise<void> {
@@ -159,15 +159,10 @@ export class NatsTransport implements Transport {
     (async () => {
       for await (const msg of messages) {
         try {
-          const rawEnvelope = JSON.parse(sc.decode(msg.data));
-          const envelope: MessageEnvelope<TMessage> = {
-            id: rawEnvelope.id,
-            type: rawEnvelope.type,
-            payload: rawEnvelope.payload as TMessage,
-            headers: rawEnvelope.headers,
-            timestamp: new Date(rawEnvelope.timestamp),
-            partitionKey: rawEnvelope.partitionKey,
-          };
+          const envelope = this.codec.decode(
+            Buffer.from(msg.data),
+            msg.headers?.get(CONTENT_TYPE_HEADER)
+          ) as MessageEnvelope<TMessage>;
           await handler(envelope);
           msg.ack();
         } catch (error) {
@@ -212,6 +207,7 @@ export class NatsTransport implements Transport {
     const h = headers();
     h.set("Nats-Msg-Id", envelope.id);
     h.set("X-Message-Type", message.type);
+    h.set(CONTENT_TYPE_HEADER, this.codec.contentType);
     if (key) h.set("X-Correlation-Id", key);
     for (const [k, v] of Object.entries(customHeaders)) {
       if (typeof v === "string") {
@@ -227,7 +223,7 @@ export class NatsTransport implements Transport {
 
     await this.js.publish(
       subject,
-      sc.encode(JSON.stringify(envelope)),
+      this.codec.encode(envelope),
       publishOptions
     );
   }
@@ -1,9 +1,10 @@
 import type { NatsConnection, ConnectionOptions, JetStreamOptions } from "nats";
+import type { MessageCodecOptions } from "@saga-bus/core";
 
 /**
  * Configuration options for the NATS JetStream transport.
  */
-export interface NatsTransportOptions {
+export interface NatsTransportOptions extends MessageCodecOptions {
   /** Existing NATS connection */
   connection?: NatsConnection;
 
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { Pool } from "pg";
+import { PostgreSqlContainer, StartedPostgreSqlContainer } from "@testcontainers/postgresql";
+import { BusStoppingError, type MessageEnvelope } from "@saga-bus/core";
+import { PostgresTransport } from "../src/PostgresTransport.js";
+import { createQueueSchema } from "../src/schema.js";
+
+interface OrderMessage {
+  type: "OrderSubmitted";
+  orderId: string;
+}
+
+const order = (orderId: string): OrderMessage => ({
+  type: "OrderSubmitted",
+  orderId,
+});
+
+async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+  timeoutMs = 5000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("PostgresTransport", () => {
+  let container: StartedPostgreSqlContainer | undefined;
+  let pool: Pool | undefined;
+  let transport: PostgresTransport;
+
+  const countMessages = async (): Promise<number> => {
+    const result = await pool!.query<{ count: string }>(
+      "SELECT COUNT(*) FROM saga_bus_messages"
+    );
+    return Number(result.rows[0]?.count);
+  };
+
+  beforeAll(async () => {
+    // Start PostgreSQL container (may take 30-60s on first run)
+    container = await new PostgreSqlContainer("postgres:15")
+      .withDatabase("test_db")
+      .withUsername("test_user")
+      .withPassword("test_pass")
+      .start();
+
+    pool = new Pool({
+      connectionString: container.getConnectionUri(),
+    });
+
+    await createQueueSchema(pool);
+  }, 60_000); // 60s timeout for container startup
+
+  afterAll(async () => {
+    await pool?.end();
+    await container?.stop();
+  });
+
+  beforeEach(async () => {
+    if (!pool) throw new Error("Pool not initialized");
+    await pool.query("TRUNCATE saga_bus_messages, saga_bus_subscriptions");
+    transport = new PostgresTransport({ pool, pollIntervalMs: 100 });
+    await transport.start();
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+  });
+
+  it("should deliver published messages and delete them once handled", async () => {
+    const received: MessageEnvelope<OrderMessage>[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async (envelope) => {
+        received.push(envelope);
+      }
+    );
+
+    await transport.publish(order("1"), {
+      endpoint: "orders",
+      key: "1",
+      headers: { "x-test": "yes" },
+    });
+
+    await waitFor(() => received.length === 1);
+    expect(received[0]?.payload).toEqual(order("1"));
+    expect(received[0]?.headers["x-test"]).toBe("yes");
+    expect(received[0]?.partitionKey).toBe("1");
+
+    await waitFor(async () => (await countMessages()) === 0);
+  });
+
+  it("should deliver a copy to every consumer group", async () => {
+    const billing: string[] = [];
+    const shipping: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders", group: "billing" },
+      async (envelope) => {
+        billing.push(envelope.payload.orderId);
+      }
+    );
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders", group: "shipping" },
+      async (envelope) => {
+        shipping.push(envelope.payload.orderId);
+      }
+    );
+
+    await transport.publish(order("1"), { endpoint: "orders" });
+
+    await waitFor(() => billing.length === 1 && shipping.length === 1);
+  });
+
+  it("should keep messages with the same key in order", async () => {
+    const received: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders", concurrency: 5 },
+      async (envelope) => {
+        // Later messages would overtake earlier ones without the key order
+        await new Promise((resolve) =>
+          setTimeout(resolve, Number(envelope.payload.orderId) === 1 ? 100 : 0)
+        );
+        received.push(envelope.payload.orderId);
+      }
+    );
+
+    await transport.publishBatch(
+      ["1", "2", "3"].map((orderId) => ({
+        message: order(orderId),
+        options: { endpoint: "orders", key: "customer-1" },
+      }))
+    );
+
+    await waitFor(() => received.length === 3);
+    expect(received).toEqual(["1", "2", "3"]);
+  });
+
+  it("should hide delayed messages until due and cancel them", async () => {
+    const received: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async (envelope) => {
+        received.push(envelope.payload.orderId);
+      }
+    );
+
+    const publishedAt = Date.now();
+    await transport.publish(order("delayed"), { endpoint: "orders", delayMs: 500 });
+    await transport.publish(order("cancelled"), {
+      endpoint: "orders",
+      delayMs: 500,
+      scheduleId: "timeout-1",
+    });
+    await transport.cancelScheduled("timeout-1");
+
+    await waitFor(() => received.length === 1);
+    expect(Date.now() - publishedAt).toBeGreaterThanOrEqual(450);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(received).toEqual(["delayed"]);
+  });
+
+  it("should only deliver messages published in a committed transaction", async () => {
+    const received: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async (envelope) => {
+        received.push(envelope.payload.orderId);
+      }
+    );
+
+    const client = await pool!.connect();
+    try {
+      await client.query("BEGIN");
+      await transport.publishInTransaction(client, [
+        { message: order("rolled-back"), options: { endpoint: "orders" } },
+      ]);
+      await client.query("ROLLBACK");
+
+      await client.query("BEGIN");
+      await transport.publishInTransaction(client, [
+        { message: order("committed"), options: { endpoint: "orders" } },
+      ]);
+      await client.query("COMMIT");
+    } finally {
+      client.release();
+    }
+
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual(["committed"]);
+  });
+
+  it("should keep messages published before any group subscribed", async () => {
+    await transport.publish(order("1"), { endpoint: "orders.dlq" });
+    expect(await countMessages()).toBe(1);
+
+    const received: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders.dlq" },
+      async (envelope) => {
+        received.push(envelope.payload.orderId);
+      }
+    );
+
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual(["1"]);
+    await waitFor(async () => (await countMessages()) === 0);
+  });
+
+  it("should wait for the visibility timeout before redelivering a failed message", async () => {
+    await transport.stop();
+    transport = new PostgresTransport({
+      pool: pool!,
+      pollIntervalMs: 50,
+      visibilityTimeoutMs: 500,
+    });
+    await transport.start();
+
+    const attempts: number[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async () => {
+        attempts.push(Date.now());
+        if (attempts.length === 1) {
+          throw new Error("handler failed");
+        }
+      }
+    );
+
+    await transport.publish(order("1"), { endpoint: "orders" });
+
+    await waitFor(() => attempts.length === 2);
+    expect(attempts[1]! - attempts[0]!).toBeGreaterThanOrEqual(450);
+    await waitFor(async () => (await countMessages()) === 0);
+  });
+
+  it("should release a message right away when the bus is stopping", async () => {
+    await transport.stop();
+    transport = new PostgresTransport({
+      pool: pool!,
+      pollIntervalMs: 100,
+      visibilityTimeoutMs: 60_000,
+    });
+    await transport.start();
+
+    let attempts = 0;
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async () => {
+        attempts++;
+        if (attempts === 1) {
+          throw new BusStoppingError();
+        }
+      }
+    );
+
+    await transport.publish(order("1"), { endpoint: "orders" });
+
+    await waitFor(() => attempts === 2);
+    await waitFor(async () => (await countMessages()) === 0);
+  });
+});
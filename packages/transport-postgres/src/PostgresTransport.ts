@@ -0,0 +1,516 @@
+import { Pool, type PoolClient, type Notification } from "pg";
+import { randomUUID } from "crypto";
+import {
+  BusStoppingError,
+  MessageCodec,
+  type Transport,
+  type TransportSubscribeOptions,
+  type TransportPublishOptions,
+  type TransportBatchMessage,
+  type MessageEnvelope,
+  type BaseMessage,
+} from "@saga-bus/core";
+import type {
+  PostgresTransportOptions,
+  PostgresSubscription,
+  QueueMessageRow,
+} from "./types.js";
+
+/**
+ * PostgreSQL transport implementation for saga-bus.
+ *
+ * Messages are rows in a queue table, one per consumer group subscribed to
+ * the endpoint. Messages for an endpoint without groups are kept until a
+ * group subscribes. Consumers claim them with `FOR UPDATE SKIP LOCKED`,
+ * hide them for `visibilityTimeoutMs` while handling and delete them once
+ * handled. Messages whose handler fails are delivered again when the
+ * timeout expires. Messages with the same key are delivered one at a time,
+ * in order. `delayMs` sets when a message becomes visible, and
+ * LISTEN/NOTIFY wakes consumers as soon as messages are committed.
+ *
+ * Create the tables with `createQueueSchema()` first.
+ *
+ * @example
+ * ```typescript
+ * import { Pool } from "pg";
+ * import { PostgresTransport } from "@saga-bus/transport-postgres";
+ *
+ * const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+ * const transport = new PostgresTransport({ pool });
+ *
+ * await transport.start();
+ * ```
+ */
+export class PostgresTransport implements Transport {
+  private readonly pool: Pool;
+  private readonly ownsPool: boolean;
+  private readonly codec: MessageCodec;
+  private readonly tableName: string;
+  private readonly subscriptionTableName: string;
+  private readonly defaultGroup: string;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly visibilityTimeoutMs: number;
+  private readonly listen: boolean;
+  private readonly channel: string;
+  private readonly subscriptions: PostgresSubscription[] = [];
+  private listener: PoolClient | null = null;
+  private started = false;
+  private receiving = false;
+
+  constructor(options: PostgresTransportOptions) {
+    if (options.pool instanceof Pool) {
+      this.pool = options.pool;
+      this.ownsPool = false;
+    } else {
+      this.pool = new Pool(options.pool);
+      this.ownsPool = true;
+    }
+
+    const schema = options.schema ?? "public";
+    this.tableName = `${schema}.${options.tableName ?? "saga_bus_messages"}`;
+    this.subscriptionTableName = `${schema}.${
+      options.subscriptionTableName ?? "saga_bus_subscriptions"
+    }`;
+    this.defaultGroup = options.defaultGroup ?? "default";
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.batchSize = options.batchSize ?? 10;
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 30000;
+    this.listen = options.listen ?? true;
+    this.channel = options.channel ?? "saga_bus_messages";
+    this.codec = new MessageCodec(options);
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    this.started = true;
+    this.receiving = true;
+
+    if (this.listen) {
+      await this.startListening();
+    }
+
+    for (const subscription of this.subscriptions) {
+      await this.registerSubscription(subscription);
+      subscription.pollLoop = this.pollLoop(subscription);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.started) return;
+
+    await this.stopReceiving();
+    await Promise.all(this.subscriptions.map((sub) => sub.pollLoop));
+    for (const subscription of this.subscriptions) {
+      subscription.pollLoop = null;
+    }
+
+    await this.stopListening();
+
+    if (this.ownsPool) {
+      await this.pool.end();
+    }
+    this.started = false;
+  }
+
+  /**
+   * Stop claiming messages. Messages being handled are still deleted once
+   * their handlers finish.
+   */
+  async stopReceiving(): Promise<void> {
+    this.receiving = false;
+    for (const subscription of this.subscriptions) {
+      subscription.wake?.();
+    }
+  }
+
+  async subscribe<TMessage extends BaseMessage>(
+    options: TransportSubscribeOptions,
+    handler: (envelope: MessageEnvelope<TMessage>) => Promise<void>
+  ): Promise<void> {
+    const { endpoint, concurrency = 1, group = this.defaultGroup } = options;
+
+    const subscription: PostgresSubscription = {
+      endpoint,
+      group,
+      concurrency,
+      handler: handler as (envelope: unknown) => Promise<void>,
+      pollLoop: null,
+      wake: null,
+    };
+    this.subscriptions.push(subscription);
+
+    // Registered on start otherwise
+    if (this.receiving) {
+      await this.registerSubscription(subscription);
+      subscription.pollLoop = this.pollLoop(subscription);
+    }
+  }
+
+  async publish<TMessage extends BaseMessage>(
+    message: TMessage,
+    options: TransportPublishOptions
+  ): Promise<void> {
+    await this.publishBatch([{ message, options }]);
+  }
+
+  /**
+   * Queue messages with a single INSERT.
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    await this.enqueue(this.pool, messages);
+  }
+
+  /**
+   * Queue messages using a client with an open transaction, so they are
+   * delivered only if it commits. Consumers are notified on commit.
+   *
+   * @example
+   * ```typescript
+   * const client = await pool.connect();
+   * await client.query("BEGIN");
+   * await client.query("UPDATE orders SET status = 'paid' WHERE id = $1", [id]);
+   * await transport.publishInTransaction(client, [
+   *   { message: { type: "OrderPaid", orderId: id }, options: { endpoint: "OrderPaid" } },
+   * ]);
+   * await client.query("COMMIT");
+   * ```
+   */
+  async publishInTransaction(
+    client: PoolClient,
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    await this.enqueue(client, messages);
+  }
+
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM ${this.tableName}
+       WHERE schedule_id = $1 AND delivery_count = 0`,
+      [scheduleId]
+    );
+  }
+
+  /**
+   * Insert one row per message and subscribed group of its endpoint, or a
+   * single row without a group if none subscribed yet, then notify the
+   * endpoints of messages that are visible right away.
+   */
+  private async enqueue(
+    db: Pool | PoolClient,
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const endpoints: string[] = [];
+    const messageIds: string[] = [];
+    const keys: Array<string | null> = [];
+    const scheduleIds: Array<string | null> = [];
+    const bodies: Buffer[] = [];
+    const delays: number[] = [];
+
+    for (const { message, options } of messages) {
+      const envelope: MessageEnvelope = {
+        id: randomUUID(),
+        type: message.type,
+        payload: message,
+        headers: options.headers ?? {},
+        timestamp: new Date(),
+        partitionKey: options.key,
+      };
+
+      endpoints.push(options.endpoint);
+      messageIds.push(envelope.id);
+      keys.push(options.key ?? null);
+      scheduleIds.push(options.scheduleId ?? null);
+      bodies.push(this.codec.encode(envelope));
+      delays.push(Math.max(options.delayMs ?? 0, 0));
+    }
+
+    // Rows of one message get consecutive IDs, in publish order
+    await db.query(
+      `WITH inserted AS (
+         INSERT INTO ${this.tableName}
+         (endpoint, group_name, message_id, partition_key, schedule_id,
+          content_type, body, visible_at)
+         SELECT m.endpoint, s.group_name, m.message_id, m.partition_key,
+                m.schedule_id, $7, m.body,
+                NOW() + m.delay_ms * INTERVAL '1 millisecond'
+         FROM unnest($1::text[], $2::text[], $3::text[], $4::text[],
+                     $5::bytea[], $6::double precision[])
+           WITH ORDINALITY AS m(endpoint, message_id, partition_key,
+                                schedule_id, body, delay_ms, position)
+         LEFT JOIN ${this.subscriptionTableName} s ON s.endpoint = m.endpoint
+         ORDER BY m.position, s.group_name
+         RETURNING endpoint, visible_at
+       )
+       SELECT pg_notify($8, endpoint)
+       FROM (SELECT DISTINCT endpoint FROM inserted WHERE visible_at <= NOW()) ready`,
+      [
+        endpoints,
+        messageIds,
+        keys,
+        scheduleIds,
+        bodies,
+        delays,
+        this.codec.contentType,
+        this.channel,
+      ]
+    );
+  }
+
+  private async registerSubscription(
+    subscription: PostgresSubscription
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO ${this.subscriptionTableName} (endpoint, group_name)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [subscription.endpoint, subscription.group]
+    );
+    await this.assignPending(subscription.endpoint);
+  }
+
+  private async pollLoop(subscription: PostgresSubscription): Promise<void> {
+    const active = new Set<Promise<void>>();
+
+    while (this.receiving) {
+      const capacity = subscription.concurrency - active.size;
+      if (capacity <= 0) {
+        await Promise.race(active);
+        continue;
+      }
+
+      let rows: QueueMessageRow[];
+      try {
+        rows = await this.claim(subscription, Math.min(this.batchSize, capacity));
+      } catch (error) {
+        // Log error but continue polling
+        console.error("[PostgresTransport] Poll error:", error);
+        await this.wait(subscription);
+        continue;
+      }
+
+      for (const row of rows) {
+        const task: Promise<void> = this.processMessage(subscription, row).finally(
+          () => active.delete(task)
+        );
+        active.add(task);
+      }
+
+      // A full claim means more messages may be waiting
+      if (rows.length < Math.min(this.batchSize, capacity)) {
+        await this.wait(subscription);
+      }
+    }
+
+    await Promise.all(active);
+  }
+
+  /**
+   * Claim visible messages, oldest first. A message whose key has an
+   * older message waiting or being handled is skipped until that one is
+   * deleted, so messages with the same key are handled in order.
+   */
+  private async claim(
+    subscription: PostgresSubscription,
+    limit: number
+  ): Promise<QueueMessageRow[]> {
+    await this.assignPending(subscription.endpoint);
+
+    const result = await this.pool.query<QueueMessageRow>(
+      `UPDATE ${this.tableName}
+       SET visible_at = NOW() + ($4 * INTERVAL '1 millisecond'),
+           delivery_count = delivery_count + 1
+       WHERE id IN (
+         SELECT m.id FROM ${this.tableName} m
+         WHERE m.endpoint = $1 AND m.group_name = $2
+           AND m.visible_at <= NOW()
+           AND (m.partition_key IS NULL OR NOT EXISTS (
+             SELECT 1 FROM ${this.tableName} o
+             WHERE o.endpoint = m.endpoint
+               AND o.group_name = m.group_name
+               AND o.partition_key = m.partition_key
+               AND o.id < m.id
+               AND (o.delivery_count > 0 OR o.visible_at <= NOW())
+           ))
+         ORDER BY m.id
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [subscription.endpoint, subscription.group, limit, this.visibilityTimeoutMs]
+    );
+
+    return result.rows.sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  /**
+   * Copy messages published before any group subscribed to the endpoint
+   * to every group subscribed now. Runs when a group registers, and on
+   * claims for messages whose publish raced the registration. Each pending
+   * row is deleted by exactly one consumer, so concurrent consumers don't
+   * copy it twice.
+   */
+  private async assignPending(endpoint: string): Promise<void> {
+    // Skip the write when nothing is pending, as on almost every poll
+    const check = await this.pool.query<{ pending: boolean }>(
+      `SELECT EXISTS (
+         SELECT 1 FROM ${this.tableName}
+         WHERE endpoint = $1 AND group_name IS NULL
+       ) AS pending`,
+      [endpoint]
+    );
+    if (!check.rows[0]?.pending) {
+      return;
+    }
+
+    await this.pool.query(
+      `WITH pending AS (
+         DELETE FROM ${this.tableName}
+         WHERE endpoint = $1 AND group_name IS NULL
+         RETURNING *
+       )
+       INSERT INTO ${this.tableName}
+       (endpoint, group_name, message_id, partition_key, schedule_id,
+        content_type, body, visible_at, created_at)
+       SELECT p.endpoint, s.group_name, p.message_id, p.partition_key,
+              p.schedule_id, p.content_type, p.body, p.visible_at, p.created_at
+       FROM pending p
+       JOIN ${this.subscriptionTableName} s ON s.endpoint = p.endpoint
+       ORDER BY p.id, s.group_name`,
+      [endpoint]
+    );
+  }
+
+  private async processMessage(
+    subscription: PostgresSubscription,
+    row: QueueMessageRow
+  ): Promise<void> {
+    try {
+      let envelope: MessageEnvelope;
+      try {
+        envelope = this.codec.decode(row.body, row.content_type);
+      } catch (error) {
+        console.error(
+          `[PostgresTransport] Dropping undecodable message ${row.message_id}:`,
+          error
+        );
+        await this.deleteMessage(row.id);
+        return;
+      }
+
+      await subscription.handler(envelope);
+      await this.deleteMessage(row.id);
+    } catch (error) {
+      if (error instanceof BusStoppingError) {
+        // Refused by a stopping bus - hand the message to the next consumer
+        await this.releaseMessage(row.id);
+        return;
+      }
+
+      // Delivered again once the visibility timeout expires, which spaces
+      // out attempts of a message that keeps failing
+      console.error("[PostgresTransport] Message processing error:", error);
+    }
+  }
+
+  private async deleteMessage(id: string): Promise<void> {
+    await this.pool.query(`DELETE FROM ${this.tableName} WHERE id = $1`, [id]);
+  }
+
+  private async releaseMessage(id: string): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE ${this.tableName} SET visible_at = NOW() WHERE id = $1`,
+        [id]
+      );
+    } catch (error) {
+      // Message becomes visible again after the visibility timeout
+      console.error("[PostgresTransport] Release error:", error);
+    }
+  }
+
+  /**
+   * Wait for the poll interval, a notification for the subscription's
+   * endpoint or the transport to stop receiving.
+   */
+  private wait(subscription: PostgresSubscription): Promise<void> {
+    if (!this.receiving) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        subscription.wake = null;
+        resolve();
+      };
+      const timer = setTimeout(done, this.pollIntervalMs);
+      subscription.wake = done;
+    });
+  }
+
+  private async startListening(): Promise<void> {
+    const client = await this.pool.connect();
+    client.on("notification", (notification: Notification) => {
+      for (const subscription of this.subscriptions) {
+        if (subscription.endpoint === notification.payload) {
+          subscription.wake?.();
+        }
+      }
+    });
+    client.on("error", (error) => {
+      // Consumers fall back to polling until listening again
+      console.error("[PostgresTransport] Listener error:", error);
+      if (this.listener === client) {
+        this.listener = null;
+        client.release(error);
+        setTimeout(() => void this.relisten(), this.pollIntervalMs);
+      }
+    });
+
+    try {
+      await client.query(`LISTEN "${this.channel}"`);
+    } catch (error) {
+      client.release(error instanceof Error ? error : true);
+      throw error;
+    }
+
+    // Stopped while connecting
+    if (!this.receiving) {
+      client.release();
+      return;
+    }
+    this.listener = client;
+  }
+
+  private async relisten(): Promise<void> {
+    if (!this.receiving || this.listener) return;
+
+    try {
+      await this.startListening();
+    } catch (error) {
+      console.error("[PostgresTransport] Listen error:", error);
+      setTimeout(() => void this.relisten(), this.pollIntervalMs);
+    }
+  }
+
+  private async stopListening(): Promise<void> {
+    const client = this.listener;
+    if (!client) return;
+    this.listener = null;
+
+    try {
+      await client.query(`UNLISTEN "${this.channel}"`);
+      client.release();
+    } catch (error) {
+      client.release(error instanceof Error ? error : true);
+    }
+  }
+}
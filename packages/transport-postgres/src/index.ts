@@ -0,0 +1,8 @@
+export { PostgresTransport } from "./PostgresTransport.js";
+export {
+  createQueueSchema,
+  dropQueueSchema,
+  getQueueSchemaSql,
+} from "./schema.js";
+export type { QueueSchemaOptions } from "./schema.js";
+export type { PostgresTransportOptions, QueueMessageRow } from "./types.js";
@@ -0,0 +1,100 @@
+import type { Pool } from "pg";
+
+/**
+ * Get the schema SQL content.
+ */
+export function getQueueSchemaSql(): string {
+  return `
+-- Queued messages, one row per subscribed consumer group. group_name is
+-- NULL for messages published before any group subscribed to the endpoint.
+CREATE TABLE IF NOT EXISTS saga_bus_messages (
+  id             BIGSERIAL PRIMARY KEY,
+  endpoint       VARCHAR(256) NOT NULL,
+  group_name     VARCHAR(256),
+  message_id     VARCHAR(128) NOT NULL,
+  partition_key  VARCHAR(256),
+  schedule_id    VARCHAR(256),
+  content_type   VARCHAR(128),
+  body           BYTEA NOT NULL,
+  visible_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivery_count INTEGER NOT NULL DEFAULT 0,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for claiming visible messages in order
+CREATE INDEX IF NOT EXISTS idx_saga_bus_messages_claim
+  ON saga_bus_messages (endpoint, group_name, visible_at, id);
+
+-- Index for keeping messages with the same key in order
+CREATE INDEX IF NOT EXISTS idx_saga_bus_messages_key
+  ON saga_bus_messages (endpoint, group_name, partition_key, id)
+  WHERE partition_key IS NOT NULL;
+
+-- Index for cancelling delayed messages
+CREATE INDEX IF NOT EXISTS idx_saga_bus_messages_schedule
+  ON saga_bus_messages (schedule_id)
+  WHERE schedule_id IS NOT NULL;
+
+-- Consumer groups of each endpoint
+CREATE TABLE IF NOT EXISTS saga_bus_subscriptions (
+  endpoint       VARCHAR(256) NOT NULL,
+  group_name     VARCHAR(256) NOT NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (endpoint, group_name)
+);
+`.trim();
+}
+
+/**
+ * Options for createQueueSchema/dropQueueSchema.
+ */
+export interface QueueSchemaOptions {
+  schema?: string;
+  tableName?: string;
+  subscriptionTableName?: string;
+}
+
+/**
+ * Create the saga_bus_messages and saga_bus_subscriptions tables and
+ * indexes.
+ */
+export async function createQueueSchema(
+  pool: Pool,
+  options?: QueueSchemaOptions
+): Promise<void> {
+  const schema = options?.schema ?? "public";
+  const tableName = options?.tableName ?? "saga_bus_messages";
+  const subscriptionTableName =
+    options?.subscriptionTableName ?? "saga_bus_subscriptions";
+
+  // Set search path to the schema
+  await pool.query(`SET search_path TO ${schema}`);
+
+  let sql = getQueueSchemaSql();
+  if (tableName !== "saga_bus_messages") {
+    sql = sql.replace(/saga_bus_messages/g, tableName);
+  }
+  if (subscriptionTableName !== "saga_bus_subscriptions") {
+    sql = sql.replace(/saga_bus_subscriptions/g, subscriptionTableName);
+  }
+
+  await pool.query(sql);
+}
+
+/**
+ * Drop the saga_bus_messages and saga_bus_subscriptions tables.
+ */
+export async function dropQueueSchema(
+  pool: Pool,
+  options?: QueueSchemaOptions
+): Promise<void> {
+  const schema = options?.schema ?? "public";
+  const tableName = options?.tableName ?? "saga_bus_messages";
+  const subscriptionTableName =
+    options?.subscriptionTableName ?? "saga_bus_subscriptions";
+
+  await pool.query(`DROP TABLE IF EXISTS ${schema}.${tableName} CASCADE`);
+  await pool.query(
+    `DROP TABLE IF EXISTS ${schema}.${subscriptionTableName} CASCADE`
+  );
+}
@@ -0,0 +1,104 @@
+import type { Pool, PoolConfig } from "pg";
+import type { MessageCodecOptions } from "@saga-bus/core";
+
+/**
+ * Configuration options for the PostgreSQL transport.
+ */
+export interface PostgresTransportOptions extends MessageCodecOptions {
+  /**
+   * PostgreSQL connection pool or pool configuration. Pass the pool of a
+   * `PostgresSagaStore` to share its connections.
+   */
+  pool: Pool | PoolConfig;
+
+  /**
+   * Schema name.
+   * @default "public"
+   */
+  schema?: string;
+
+  /**
+   * Table holding queued messages.
+   * @default "saga_bus_messages"
+   */
+  tableName?: string;
+
+  /**
+   * Table registering the consumer groups of each endpoint.
+   * @default "saga_bus_subscriptions"
+   */
+  subscriptionTableName?: string;
+
+  /**
+   * Consumer group for subscriptions that don't name one.
+   * @default "default"
+   */
+  defaultGroup?: string;
+
+  /**
+   * How often each subscription polls for messages when no notification
+   * arrives, in milliseconds. Delayed messages are picked up on this
+   * interval once due.
+   * @default 1000
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Maximum messages claimed per query.
+   * @default 10
+   */
+  batchSize?: number;
+
+  /**
+   * How long a claimed message stays hidden from other consumers, in
+   * milliseconds. A message whose consumer crashes is delivered again once
+   * this expires, as is a message whose handler fails.
+   * @default 30000
+   */
+  visibilityTimeoutMs?: number;
+
+  /**
+   * Wake consumers with LISTEN/NOTIFY as soon as messages are published,
+   * instead of waiting for the next poll. Holds one pool connection while
+   * the transport runs.
+   * @default true
+   */
+  listen?: boolean;
+
+  /**
+   * Channel for publish notifications.
+   * @default "saga_bus_messages"
+   */
+  channel?: string;
+}
+
+/**
+ * Row structure in the saga_bus_messages table.
+ */
+export interface QueueMessageRow {
+  id: string; // BIGSERIAL
+  endpoint: string;
+  group_name: string | null; // NULL until a group subscribes
+  message_id: string;
+  partition_key: string | null;
+  schedule_id: string | null;
+  content_type: string | null;
+  body: Buffer;
+  visible_at: Date;
+  delivery_count: number;
+  created_at: Date;
+}
+
+/**
+ * Internal subscription registration.
+ */
+export interface PostgresSubscription {
+  endpoint: string;
+  group: string;
+  concurrency: number;
+  handler: (envelope: unknown) => Promise<void>;
+  /** Running poll loop, while the transport receives */
+  pollLoop: Promise<void> | null;
+  /** Ends the poll loop's current wait early */
+  wake: (() => void) | null;
+}
@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 import type { ConsumeMessage } from "amqplib";
+import { MessageCodec } from "@saga-bus/core";
 import type {
   Transport,
   TransportSubscribeOptions,
@@ -36,20 +37,23 @@ import { ConnectionManager } from "./ConnectionManager.js";
 export class RabbitMqTransport implements Transport {
   private readonly options: RabbitMqTransportOptions;
   private readonly connectionManager: ConnectionManager;
+  private readonly codec: MessageCodec;
   private readonly subscriptions: Subscription[] = [];
   private readonly handlers = new Map<
     string,
     (envelope: MessageEnvelope) => Promise<void>
   >();
   private started = false;
+  private receiving = false;
 
   constructor(options: RabbitMqTransportOptions) {
     this.options = options;
     this.connectionManager = new ConnectionManager(options);
+    this.codec = new MessageCodec(options);
 
     // Re-establish subscriptions on reconnect
     this.connectionManager.onConnected(() => {
-      if (this.started) {
+      if (this.started && this.receiving) {
         void this.resubscribeAll();
       }
     });
@@ -62,6 +66,7 @@ export class RabbitMqTransport implements Transport {
 
     await this.connectionManager.connect();
     this.started = true;
+    this.receiving = true;
   }
 
   async stop(): Promise<void> {
@@ -69,7 +74,24 @@ export class RabbitMqTransport implements Transport {
       return;
     }
 
-    // Cancel all consumers
+    await this.stopReceiving();
+
+    await this.connectionManager.close();
+    this.started = false;
+    this.subscriptions.length = 0;
+    this.handlers.clear();
+  }
+
+  /**
+   * Cancel all consumers but keep the channel open, so messages being
+   * handled can still be acknowledged.
+   */
+  async stopReceiving(): Promise<void> {
+    if (!this.receiving) {
+      return;
+    }
+    this.receiving = false;
+
     const channel = this.connectionManager.getChannel();
     for (const sub of this.subscriptions) {
       if (sub.consumerTag) {
@@ -78,13 +100,9 @@ export class RabbitMqTransport implements Transport {
         } catch {
           // Ignore cancel errors
         }
+        sub.consumerTag = undefined;
       }
     }
-
-    await this.connectionManager.close();
-    this.started = false;
-    this.subscriptions.length = 0;
-    this.handlers.clear();
   }
 
   async subscribe<TMessage extends BaseMessage>(
@@ -154,12 +172,11 @@ export class RabbitMqTransport implements Transport {
     };
 
     // Serialize message
-    const content = Buffer.from(JSON.stringify(envelope));
+    const content = this.codec.encode(envelope);
 
     // Build publish options
     const persistent = this.options.messageOptions?.persistent ?? true;
-    const contentType =
-      this.options.messageOptions?.contentType ?? "application/json";
+    const contentType = this.codec.contentType;
 
     const publishOptions: {
       persistent: boolean;
@@ -212,14 +229,10 @@ export class RabbitMqTransport implements Transport {
     }
 
     try {
-      // Parse envelope
-      const parsed = JSON.parse(msg.content.toString()) as MessageEnvelope;
-
-      // Ensure timestamp is a Date
-      const envelope: MessageEnvelope = {
-        ...parsed,
-        timestamp: new Date(parsed.timestamp),
-      };
+      const envelope = this.codec.decode(
+        msg.content,
+        msg.properties.contentType as string | undefined
+      );
 
       // Execute handler
       await handler(envelope);
@@ -227,6 +240,12 @@ export class RabbitMqTransport implements Transport {
       // Acknowledge success
       channel.ack(msg);
     } catch (error) {
+      // The bus is stopping: requeue so another consumer picks it up
+      if (error instanceof Error && error.name === "BusStoppingError") {
+        channel.nack(msg, false, true);
+        return;
+      }
+
       console.error("[RabbitMQ] Message handler error:", error);
 
       // Nack with requeue for retry
@@ -15,8 +15,25 @@ vi.mock("ioredis", () => {
     zadd: vi.fn().mockResolvedValue(1),
     zrangebyscore: vi.fn().mockResolvedValue([]),
     zrem: vi.fn().mockResolvedValue(1),
+    hset: vi.fn().mockResolvedValue(1),
+    hget: vi.fn().mockResolvedValue(null),
+    hdel: vi.fn().mockResolvedValue(1),
+    pipeline: vi.fn(),
   };
 
+  // Pipelines record their commands; exec() reports each as successful
+  mockRedis.pipeline.mockImplementation(() => {
+    const commands: unknown[][] = [];
+    const pipeline = {
+      commands,
+      xadd: (...args: unknown[]) => commands.push(["xadd", ...args]) && pipeline,
+      zadd: (...args: unknown[]) => commands.push(["zadd", ...args]) && pipeline,
+      hset: (...args: unknown[]) => commands.push(["hset", ...args]) && pipeline,
+      exec: vi.fn(async () => commands.map(() => [null, "OK"])),
+    };
+    return pipeline;
+  });
+
   // duplicate returns a copy of the mock
   mockRedis.duplicate.mockReturnValue({
     ...mockRedis,
@@ -235,6 +252,8 @@ describe("RedisTransport", () => {
       expect(__mockRedis.xadd).toHaveBeenCalledWith(
         "saga-bus:stream:orders",
         "*",
+        "content-type",
+        "application/vnd.saga-bus+json",
         "data",
         expect.stringContaining("OrderCreated")
       );
@@ -325,6 +344,8 @@ describe("RedisTransport", () => {
         "~",
         1000,
         "*",
+        "content-type",
+        "application/vnd.saga-bus+json",
         "data",
         expect.any(String)
       );
@@ -367,6 +388,99 @@ describe("RedisTransport", () => {
 
       await transport.stop();
     });
+
+    it("should cancel delayed messages by schedule id", async () => {
+      const { __mockRedis } = (await import("ioredis")) as unknown as {
+        __mockRedis: {
+          zadd: ReturnType<typeof vi.fn>;
+          zrem: ReturnType<typeof vi.fn>;
+          hset: ReturnType<typeof vi.fn>;
+          hget: ReturnType<typeof vi.fn>;
+          hdel: ReturnType<typeof vi.fn>;
+        };
+      };
+
+      const transport = new RedisTransport({
+        connection: { host: "localhost" },
+        consumerGroup: "test-group",
+        delayedPollIntervalMs: 0,
+        pendingClaimIntervalMs: 0,
+      });
+
+      await transport.start();
+
+      await transport.publish(createMessage("SagaTimeoutExpired", {}) as never, {
+        endpoint: "events",
+        delayMs: 5000,
+        scheduleId: "timeout-1",
+      });
+
+      const entryJson = __mockRedis.zadd.mock.calls[0]?.[2] as string;
+      expect(__mockRedis.hset).toHaveBeenCalledWith(
+        "saga-bus:delayed:ids",
+        "timeout-1",
+        entryJson
+      );
+
+      __mockRedis.hget.mockResolvedValueOnce(entryJson);
+      await transport.cancelScheduled("timeout-1");
+
+      expect(__mockRedis.zrem).toHaveBeenCalledWith("saga-bus:delayed", entryJson);
+      expect(__mockRedis.hdel).toHaveBeenCalledWith(
+        "saga-bus:delayed:ids",
+        "timeout-1"
+      );
+
+      await transport.stop();
+    });
+  });
+
+  describe("publishBatch", () => {
+    it("should pipeline all messages in one round trip", async () => {
+      const { __mockRedis } = (await import("ioredis")) as unknown as {
+        __mockRedis: {
+          xadd: ReturnType<typeof vi.fn>;
+          pipeline: ReturnType<typeof vi.fn>;
+        };
+      };
+
+      const transport = new RedisTransport({
+        connection: { host: "localhost" },
+        consumerGroup: "test-group",
+        delayedPollIntervalMs: 0,
+        pendingClaimIntervalMs: 0,
+      });
+
+      await transport.start();
+
+      await transport.publishBatch([
+        { message: createMessage("First", {}) as never, options: { endpoint: "orders" } },
+        {
+          message: createMessage("Later", {}) as never,
+          options: { endpoint: "orders", delayMs: 5000, scheduleId: "s-1" },
+        },
+        { message: createMessage("Second", {}) as never, options: { endpoint: "orders" } },
+      ]);
+
+      const pipeline = __mockRedis.pipeline.mock.results[0]?.value as {
+        commands: unknown[][];
+        exec: ReturnType<typeof vi.fn>;
+      };
+      expect(pipeline.commands.map(([command]) => command)).toEqual([
+        "xadd",
+        "zadd",
+        "hset",
+        "xadd",
+      ]);
+      expect(pipeline.commands[0]?.slice(1, 3)).toEqual([
+        "saga-bus:stream:orders",
+        "*",
+      ]);
+      expect(pipeline.exec).toHaveBeenCalledTimes(1);
+      expect(__mockRedis.xadd).not.toHaveBeenCalled();
+
+      await transport.stop();
+    });
   });
 
   describe("consumer group error handling", () => {
@@ -1,9 +1,12 @@
 import { Redis } from "ioredis";
 import { randomUUID } from "crypto";
 import {
+  MessageCodec,
+  CONTENT_TYPE_HEADER,
   type Transport,
   type TransportSubscribeOptions,
   type TransportPublishOptions,
+  type TransportBatchMessage,
   type MessageEnvelope,
   type BaseMessage,
 } from "@saga-bus/core";
@@ -57,6 +60,7 @@ export class RedisTransport implements Transport {
   > &
     RedisTransportOptions;
 
+  private readonly codec: MessageCodec;
   private readonly subscriptions: StreamSubscription[] = [];
   private started = false;
   private stopping = false;
@@ -84,6 +88,7 @@ export class RedisTransport implements Transport {
       minIdleTimeMs: 60000,
       ...options,
     };
+    this.codec = new MessageCodec(options);
   }
 
   async start(): Promise<void> {
@@ -203,11 +208,77 @@ export class RedisTransport implements Transport {
       throw new Error("Transport not started");
     }
 
-    const { endpoint, key, headers = {}, delayMs } = options;
+    const entry = this.createEntry(message, options);
+
+    // Handle delayed delivery
+    if (entry.delayed) {
+      const { deliverAt, entryJson, scheduleId } = entry.delayed;
+
+      // Store in sorted set with score = delivery timestamp
+      await this.redis.zadd(this.options.delayedSetKey, deliverAt, entryJson);
+
+      // Index the entry so cancelScheduled() can find it
+      if (scheduleId) {
+        await this.redis.hset(this.scheduleIndexKey, scheduleId, entryJson);
+      }
+      return;
+    }
+
+    // Immediate delivery via stream
+    await this.addToStream(entry.streamKey, entry.data, entry.contentType);
+  }
+
+  /**
+   * Publish messages with one pipelined round trip of `XADD`s (and
+   * `ZADD`s for delayed messages).
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    if (!this.redis) {
+      throw new Error("Transport not started");
+    }
+
+    const pipeline = this.redis.pipeline();
+
+    for (const { message, options } of messages) {
+      const entry = this.createEntry(message, options);
+
+      if (entry.delayed) {
+        const { deliverAt, entryJson, scheduleId } = entry.delayed;
+        pipeline.zadd(this.options.delayedSetKey, deliverAt, entryJson);
+        if (scheduleId) {
+          pipeline.hset(this.scheduleIndexKey, scheduleId, entryJson);
+        }
+        continue;
+      }
+
+      pipeline.xadd(
+        ...this.streamArgs(entry.streamKey, entry.data, entry.contentType)
+      );
+    }
+
+    const results = await pipeline.exec();
+    const failed = results?.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+  }
+
+  private createEntry(
+    message: BaseMessage,
+    options: TransportPublishOptions
+  ): {
+    streamKey: string;
+    data: string;
+    contentType: string | undefined;
+    delayed?: { deliverAt: number; entryJson: string; scheduleId?: string };
+  } {
+    const { endpoint, key, headers = {}, delayMs, scheduleId } = options;
     const streamKey = `${this.options.keyPrefix}stream:${endpoint}`;
 
     // Create message envelope
-    const envelope: MessageEnvelope<TMessage> = {
+    const envelope: MessageEnvelope = {
       id: randomUUID(),
       type: message.type,
       payload: message,
@@ -216,33 +287,63 @@ export class RedisTransport implements Transport {
       partitionKey: key,
     };
 
-    const envelopeJson = JSON.stringify(envelope);
+    const data = this.codec.encodeText(envelope);
+    const contentType = this.codec.contentType;
 
-    // Handle delayed delivery
-    if (delayMs && delayMs > 0) {
-      const deliverAt = Date.now() + delayMs;
-      const delayedEntry: DelayedMessageEntry = {
-        streamKey,
-        envelope: envelopeJson,
-        deliverAt,
-      };
+    if (!delayMs || delayMs <= 0) {
+      return { streamKey, data, contentType };
+    }
 
-      // Store in sorted set with score = delivery timestamp
-      await this.redis.zadd(
-        this.options.delayedSetKey,
-        deliverAt,
-        JSON.stringify(delayedEntry)
-      );
+    const deliverAt = Date.now() + delayMs;
+    const delayedEntry: DelayedMessageEntry = {
+      streamKey,
+      envelope: data,
+      contentType,
+      deliverAt,
+      scheduleId,
+    };
+
+    return {
+      streamKey,
+      data,
+      contentType,
+      delayed: { deliverAt, entryJson: JSON.stringify(delayedEntry), scheduleId },
+    };
+  }
+
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    if (!this.redis) {
+      throw new Error("Transport not started");
+    }
+
+    const entryJson = await this.redis.hget(this.scheduleIndexKey, scheduleId);
+    if (!entryJson) {
       return;
     }
 
-    // Immediate delivery via stream
-    await this.addToStream(streamKey, envelopeJson);
+    await this.redis.zrem(this.options.delayedSetKey, entryJson);
+    await this.redis.hdel(this.scheduleIndexKey, scheduleId);
   }
 
-  private async addToStream(streamKey: string, envelopeJson: string): Promise<void> {
+  private get scheduleIndexKey(): string {
+    return `${this.options.delayedSetKey}:ids`;
+  }
+
+  private async addToStream(
+    streamKey: string,
+    data: string,
+    contentType: string | undefined
+  ): Promise<void> {
     if (!this.redis) return;
 
+    await this.redis.xadd(...this.streamArgs(streamKey, data, contentType));
+  }
+
+  private streamArgs(
+    streamKey: string,
+    data: string,
+    contentType: string | undefined
+  ): [string, ...Array<string | number>] {
     const args: (string | number)[] = [streamKey];
 
     // Add MAXLEN if configured
@@ -254,9 +355,13 @@ export class RedisTransport implements Transport {
       }
     }
 
-    args.push("*", "data", envelopeJson);
+    args.push("*");
+    if (contentType) {
+      args.push(CONTENT_TYPE_HEADER, contentType);
+    }
+    args.push("data", data);
 
-    await this.redis.xadd(...(args as [string, ...Array<string | number>]));
+    return args as [string, ...Array<string | number>];
   }
 
   private async ensureConsumerGroup(streamKey: string): Promise<void> {
@@ -355,24 +460,10 @@ export class RedisTransport implements Transport {
         return;
       }
 
-      const rawEnvelope = JSON.parse(data.data) as {
-        id: string;
-        type: string;
-        payload: unknown;
-        headers: Record<string, string>;
-        timestamp: string | Date;
-        partitionKey?: string;
-      };
-
-      // Reconstruct Date objects into proper envelope
-      const envelope: MessageEnvelope = {
-        id: rawEnvelope.id,
-        type: rawEnvelope.type,
-        payload: rawEnvelope.payload as BaseMessage,
-        headers: rawEnvelope.headers,
-        timestamp: new Date(rawEnvelope.timestamp),
-        partitionKey: rawEnvelope.partitionKey,
-      };
+      const envelope = this.codec.decodeText(
+        data.data,
+        data[CONTENT_TYPE_HEADER]
+      );
 
       await subscription.handler(envelope);
 
@@ -414,10 +505,17 @@ export class RedisTransport implements Transport {
           const entry = JSON.parse(entryJson) as DelayedMessageEntry;
 
           // Add to the target stream
-          await this.addToStream(entry.streamKey, entry.envelope);
+          await this.addToStream(
+            entry.streamKey,
+            entry.envelope,
+            entry.contentType
+          );
 
           // Remove from delayed set
           await this.redis.zrem(this.options.delayedSetKey, entryJson);
+          if (entry.scheduleId) {
+            await this.redis.hdel(this.scheduleIndexKey, entry.scheduleId);
+          }
         } catch (error) {
           console.error("[RedisTransport] Error processing delayed message:", error);
         }
@@ -1,9 +1,10 @@
 import type { Redis, RedisOptions } from "ioredis";
+import type { MessageCodecOptions } from "@saga-bus/core";
 
 /**
  * Configuration options for Redis Streams transport.
  */
-export interface RedisTransportOptions {
+export interface RedisTransportOptions extends MessageCodecOptions {
   /**
    * Redis client instance.
    * Either redis or connection must be provided.
@@ -73,7 +74,8 @@ export interface RedisTransportOptions {
   delayedPollIntervalMs?: number;
 
   /**
-   * Key for the delayed messages sorted set.
+   * Key for the delayed messages sorted set. Cancellable messages are
+   * indexed by schedule ID in the hash `{delayedSetKey}:ids`.
    * @default "saga-bus:delayed"
    */
   delayedSetKey?: string;
@@ -106,6 +108,8 @@ export interface StreamSubscription {
  */
 export interface DelayedMessageEntry {
   streamKey: string;
-  envelope: string; // JSON serialized
+  envelope: string; // Serialized with the transport's codec
+  contentType?: string; // Missing on entries scheduled by older versions
   deliverAt: number; // Unix timestamp ms
+  scheduleId?: string; // Set when the message can be cancelled
 }
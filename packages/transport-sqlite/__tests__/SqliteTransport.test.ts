@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Database from "better-sqlite3";
+import { BusStoppingError, type MessageEnvelope } from "@saga-bus/core";
+import { SqliteTransport, createQueueSchema } from "../src/index.js";
+
+interface OrderMessage {
+  type: "OrderSubmitted";
+  orderId: string;
+}
+
+const order = (orderId: string): OrderMessage => ({
+  type: "OrderSubmitted",
+  orderId,
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("SqliteTransport", () => {
+  let db: Database.Database;
+  let transport: SqliteTransport;
+
+  const countMessages = (): number =>
+    (db.prepare("SELECT COUNT(*) AS count FROM saga_bus_messages").get() as {
+      count: number;
+    }).count;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    createQueueSchema(db);
+    transport = new SqliteTransport({ db, pollIntervalMs: 50 });
+    await transport.start();
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+    db.close();
+  });
+
+  it("should deliver published messages and delete them once handled", async () => {
+    const received: MessageEnvelope<OrderMessage>[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async (envelope) => {
+        received.push(envelope);
+      }
+    );
+
+    await transport.publish(order("1"), {
+      endpoint: "orders",
+      key: "1",
+      headers: { "x-test": "yes" },
+    });
+
+    await waitFor(() => received.length === 1);
+    expect(received[0]?.payload).toEqual(order("1"));
+    expect(received[0]?.headers["x-test"]).toBe("yes");
+    expect(received[0]?.partitionKey).toBe("1");
+    await waitFor(() => countMessages() === 0);
+  });
+
+  it("should deliver a copy to every consumer group", async () => {
+    const billing: string[] = [];
+    const shipping: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders", group: "billing" },
+      async (envelope) => {
+        billing.push(envelope.payload.orderId);
+      }
+    );
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders", group: "shipping" },
+      async (envelope) => {
+        shipping.push(envelope.payload.orderId);
+      }
+    );
+
+    await transport.publish(order("1"), { endpoint: "orders" });
+
+    await waitFor(() => billing.length === 1 && shipping.length === 1);
+  });
+
+  it("should limit concurrent handlers per subscription", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    let handled = 0;
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders", concurrency: 2 },
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        running--;
+        handled++;
+      }
+    );
+
+    await transport.publishBatch(
+      ["1", "2", "3", "4", "5"].map((orderId) => ({
+        message: order(orderId),
+        options: { endpoint: "orders" },
+      }))
+    );
+
+    await waitFor(() => handled === 5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should keep messages with the same key in order", async () => {
+    const received: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders", concurrency: 5 },
+      async (envelope) => {
+        // Later messages would overtake earlier ones without the key order
+        const delayMs = envelope.payload.orderId === "1" ? 50 : 0;
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        received.push(envelope.payload.orderId);
+      }
+    );
+
+    await transport.publishBatch(
+      ["1", "2", "3"].map((orderId) => ({
+        message: order(orderId),
+        options: { endpoint: "orders", key: "customer-1" },
+      }))
+    );
+
+    await waitFor(() => received.length === 3);
+    expect(received).toEqual(["1", "2", "3"]);
+  });
+
+  it("should hide delayed messages until due and cancel them", async () => {
+    const received: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async (envelope) => {
+        received.push(envelope.payload.orderId);
+      }
+    );
+
+    const publishedAt = Date.now();
+    await transport.publish(order("delayed"), { endpoint: "orders", delayMs: 200 });
+    await transport.publish(order("cancelled"), {
+      endpoint: "orders",
+      delayMs: 200,
+      scheduleId: "timeout-1",
+    });
+    await transport.cancelScheduled("timeout-1");
+
+    await waitFor(() => received.length === 1);
+    expect(Date.now() - publishedAt).toBeGreaterThanOrEqual(190);
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(received).toEqual(["delayed"]);
+  });
+
+  it("should keep messages published before any group subscribed", async () => {
+    await transport.publish(order("1"), { endpoint: "orders.dlq" });
+    expect(countMessages()).toBe(1);
+
+    const received: string[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders.dlq" },
+      async (envelope) => {
+        received.push(envelope.payload.orderId);
+      }
+    );
+
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual(["1"]);
+    await waitFor(() => countMessages() === 0);
+  });
+
+  it("should wait for the visibility timeout before redelivering a failed message", async () => {
+    await transport.stop();
+    transport = new SqliteTransport({
+      db,
+      pollIntervalMs: 50,
+      visibilityTimeoutMs: 300,
+    });
+    await transport.start();
+
+    const attempts: number[] = [];
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async () => {
+        attempts.push(Date.now());
+        if (attempts.length === 1) {
+          throw new Error("handler failed");
+        }
+      }
+    );
+
+    await transport.publish(order("1"), { endpoint: "orders" });
+
+    await waitFor(() => attempts.length === 2);
+    expect(attempts[1]! - attempts[0]!).toBeGreaterThanOrEqual(290);
+    await waitFor(() => countMessages() === 0);
+  });
+
+  it("should release a message right away when the bus is stopping", async () => {
+    await transport.stop();
+    transport = new SqliteTransport({
+      db,
+      pollIntervalMs: 50,
+      visibilityTimeoutMs: 60_000,
+    });
+    await transport.start();
+
+    let attempts = 0;
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async () => {
+        attempts++;
+        if (attempts === 1) {
+          throw new BusStoppingError();
+        }
+      }
+    );
+
+    await transport.publish(order("1"), { endpoint: "orders" });
+
+    await waitFor(() => attempts === 2);
+    await waitFor(() => countMessages() === 0);
+  });
+
+  it("should keep handled messages for the retention period", async () => {
+    await transport.stop();
+    transport = new SqliteTransport({
+      db,
+      pollIntervalMs: 50,
+      retentionMs: 100,
+      cleanupIntervalMs: 50,
+    });
+    await transport.start();
+
+    let handled = 0;
+    await transport.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async () => {
+        handled++;
+      }
+    );
+
+    await transport.publish(order("1"), { endpoint: "orders" });
+
+    await waitFor(() => handled === 1);
+    expect(countMessages()).toBe(1);
+
+    await waitFor(() => countMessages() === 0);
+    expect(handled).toBe(1);
+  });
+});
+
+describe("SqliteTransport with a database file", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "saga-bus-sqlite-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should deliver messages of a crashed process after a restart", async () => {
+    const file = join(dir, "queue.sqlite");
+
+    // First process: claims the message and dies while handling it
+    const crashed = new Database(file);
+    createQueueSchema(crashed);
+    const first = new SqliteTransport({ db: crashed, visibilityTimeoutMs: 100 });
+    await first.start();
+    let claimed = false;
+    await first.subscribe<OrderMessage>({ endpoint: "orders" }, async () => {
+      claimed = true;
+      await new Promise(() => undefined);
+    });
+    await first.publish(order("1"), { endpoint: "orders" });
+    await waitFor(() => claimed);
+    await first.stopReceiving();
+    crashed.close();
+
+    // Second process on the same file
+    const db = new Database(file);
+    const second = new SqliteTransport({ db, pollIntervalMs: 50 });
+    const received: string[] = [];
+    await second.subscribe<OrderMessage>(
+      { endpoint: "orders" },
+      async (envelope) => {
+        received.push(envelope.payload.orderId);
+      }
+    );
+    await second.start();
+
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual(["1"]);
+
+    await second.stop();
+    db.close();
+  });
+});
@@ -0,0 +1,3 @@
+import library from "@repo/eslint-config/library";
+
+export default [...library];
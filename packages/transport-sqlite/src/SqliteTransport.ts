@@ -0,0 +1,461 @@
+import { randomUUID } from "node:crypto";
+import type Database from "better-sqlite3";
+import {
+  BusStoppingError,
+  MessageCodec,
+  type Transport,
+  type TransportSubscribeOptions,
+  type TransportPublishOptions,
+  type TransportBatchMessage,
+  type MessageEnvelope,
+  type BaseMessage,
+} from "@saga-bus/core";
+import { Semaphore } from "@saga-bus/transport-inmemory";
+import type {
+  SqliteTransportOptions,
+  SqliteSubscription,
+  QueueMessageRow,
+} from "./types.js";
+
+interface QueueStatements {
+  insert: Database.Statement;
+  hasPending: Database.Statement;
+  assignPending: Database.Statement;
+  deletePending: Database.Statement;
+  selectVisible: Database.Statement;
+  lock: Database.Statement;
+  release: Database.Statement;
+  markProcessed: Database.Statement;
+  delete: Database.Statement;
+  cancel: Database.Statement;
+  deleteProcessed: Database.Statement;
+  register: Database.Statement;
+}
+
+/**
+ * SQLite transport - durable messaging for single-node deployments,
+ * without any external service.
+ *
+ * Messages are rows in a queue table, one per consumer group subscribed to
+ * the endpoint. Messages for an endpoint without groups are kept until a
+ * group subscribes. A claimed message is hidden for `visibilityTimeoutMs`
+ * and removed (or kept for `retentionMs`) once handled, so messages of a
+ * crashed process are delivered again after a restart, and a message whose
+ * handler fails once the timeout expires. Messages with the same key are
+ * delivered one at a time, in order.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * import { SqliteTransport, createQueueSchema } from '@saga-bus/transport-sqlite';
+ *
+ * const db = new Database('saga-bus.sqlite');
+ * createQueueSchema(db);
+ *
+ * const transport = new SqliteTransport({ db });
+ * ```
+ */
+export class SqliteTransport implements Transport {
+  private readonly db: Database.Database;
+  private readonly codec: MessageCodec;
+  private readonly statements: QueueStatements;
+  private readonly defaultGroup: string;
+  private readonly defaultConcurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly visibilityTimeoutMs: number;
+  private readonly retentionMs: number;
+  private readonly cleanupIntervalMs: number;
+  private readonly subscriptions: SqliteSubscription[] = [];
+  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+  private started = false;
+  private receiving = false;
+
+  constructor(options: SqliteTransportOptions) {
+    this.db = options.db;
+    this.codec = new MessageCodec(options);
+    this.defaultGroup = options.defaultGroup ?? "default";
+    this.defaultConcurrency = options.defaultConcurrency ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.batchSize = options.batchSize ?? 10;
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 30000;
+    this.retentionMs = options.retentionMs ?? 0;
+    this.cleanupIntervalMs = options.cleanupIntervalMs ?? 60000;
+
+    const tableName = options.tableName ?? "saga_bus_messages";
+    const subscriptionTableName =
+      options.subscriptionTableName ?? "saga_bus_subscriptions";
+
+    // Prepare statements for better performance
+    this.statements = {
+      // One row per subscribed group, or a row without a group if none
+      insert: this.db.prepare(`
+        INSERT INTO ${tableName}
+          (endpoint, group_name, message_id, partition_key, schedule_id, content_type, body, visible_at, created_at)
+        SELECT @endpoint, s.group_name, @messageId, @partitionKey, @scheduleId, @contentType, @body, @visibleAt, @createdAt
+        FROM (SELECT 1)
+        LEFT JOIN ${subscriptionTableName} s ON s.endpoint = @endpoint
+        ORDER BY s.group_name
+      `),
+      assignPending: this.db.prepare(`
+        INSERT INTO ${tableName}
+          (endpoint, group_name, message_id, partition_key, schedule_id, content_type, body, visible_at, created_at)
+        SELECT p.endpoint, s.group_name, p.message_id, p.partition_key, p.schedule_id, p.content_type, p.body, p.visible_at, p.created_at
+        FROM ${tableName} p
+        JOIN ${subscriptionTableName} s ON s.endpoint = p.endpoint
+        WHERE p.endpoint = ? AND p.group_name IS NULL
+        ORDER BY p.id, s.group_name
+      `),
+      hasPending: this.db.prepare(`
+        SELECT EXISTS (
+          SELECT 1 FROM ${tableName} WHERE endpoint = ? AND group_name IS NULL
+        ) AS pending
+      `),
+      deletePending: this.db.prepare(`
+        DELETE FROM ${tableName} WHERE endpoint = ? AND group_name IS NULL
+      `),
+      // Skips messages whose key has an older message waiting or in flight
+      selectVisible: this.db.prepare(`
+        SELECT * FROM ${tableName} m
+        WHERE m.endpoint = @endpoint AND m.group_name = @group
+          AND m.processed_at IS NULL AND m.visible_at <= @now
+          AND (m.partition_key IS NULL OR NOT EXISTS (
+            SELECT 1 FROM ${tableName} o
+            WHERE o.endpoint = m.endpoint
+              AND o.group_name = m.group_name
+              AND o.partition_key = m.partition_key
+              AND o.id < m.id
+              AND o.processed_at IS NULL
+              AND (o.delivery_count > 0 OR o.visible_at <= @now)
+          ))
+        ORDER BY m.id
+        LIMIT @limit
+      `),
+      lock: this.db.prepare(`
+        UPDATE ${tableName}
+        SET visible_at = ?, delivery_count = delivery_count + 1
+        WHERE id = ?
+      `),
+      release: this.db.prepare(`
+        UPDATE ${tableName} SET visible_at = ? WHERE id = ?
+      `),
+      markProcessed: this.db.prepare(`
+        UPDATE ${tableName} SET processed_at = ? WHERE id = ?
+      `),
+      delete: this.db.prepare(`
+        DELETE FROM ${tableName} WHERE id = ?
+      `),
+      cancel: this.db.prepare(`
+        DELETE FROM ${tableName}
+        WHERE schedule_id = ? AND delivery_count = 0 AND processed_at IS NULL
+      `),
+      deleteProcessed: this.db.prepare(`
+        DELETE FROM ${tableName}
+        WHERE processed_at IS NOT NULL AND processed_at < ?
+      `),
+      register: this.db.prepare(`
+        INSERT OR IGNORE INTO ${subscriptionTableName} (endpoint, group_name, created_at)
+        VALUES (?, ?, ?)
+      `),
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    this.started = true;
+    this.receiving = true;
+
+    for (const subscription of this.subscriptions) {
+      this.register(subscription);
+      subscription.pollLoop = this.pollLoop(subscription);
+    }
+
+    if (this.retentionMs > 0) {
+      this.cleanupInterval = setInterval(
+        () => this.deleteExpiredMessages(),
+        this.cleanupIntervalMs
+      );
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.started) return;
+
+    await this.stopReceiving();
+    await Promise.all(this.subscriptions.map((sub) => sub.pollLoop));
+    for (const subscription of this.subscriptions) {
+      subscription.pollLoop = null;
+    }
+
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.started = false;
+  }
+
+  /**
+   * Stop claiming messages. Messages being handled are still completed
+   * once their handlers finish.
+   */
+  async stopReceiving(): Promise<void> {
+    this.receiving = false;
+    for (const subscription of this.subscriptions) {
+      subscription.wake?.();
+    }
+  }
+
+  async subscribe<TMessage extends BaseMessage>(
+    options: TransportSubscribeOptions,
+    handler: (envelope: MessageEnvelope<TMessage>) => Promise<void>
+  ): Promise<void> {
+    const {
+      endpoint,
+      concurrency = this.defaultConcurrency,
+      group = this.defaultGroup,
+    } = options;
+
+    const subscription: SqliteSubscription = {
+      endpoint,
+      group,
+      semaphore: new Semaphore(concurrency),
+      handler: handler as (envelope: unknown) => Promise<void>,
+      pollLoop: null,
+      wake: null,
+    };
+    this.subscriptions.push(subscription);
+
+    // Registered on start otherwise
+    if (this.receiving) {
+      this.register(subscription);
+      subscription.pollLoop = this.pollLoop(subscription);
+    }
+  }
+
+  async publish<TMessage extends BaseMessage>(
+    message: TMessage,
+    options: TransportPublishOptions
+  ): Promise<void> {
+    await this.publishBatch([{ message, options }]);
+  }
+
+  /**
+   * Queue messages in a single transaction.
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    const now = Date.now();
+    const ready = new Set<string>();
+
+    this.db.transaction(() => {
+      for (const { message, options } of messages) {
+        const envelope: MessageEnvelope = {
+          id: randomUUID(),
+          type: message.type,
+          payload: message,
+          headers: options.headers ?? {},
+          timestamp: new Date(now),
+          partitionKey: options.key,
+        };
+        const delayMs = Math.max(options.delayMs ?? 0, 0);
+
+        this.statements.insert.run({
+          endpoint: options.endpoint,
+          messageId: envelope.id,
+          partitionKey: options.key ?? null,
+          scheduleId: options.scheduleId ?? null,
+          contentType: this.codec.contentType,
+          body: this.codec.encode(envelope),
+          visibleAt: now + delayMs,
+          createdAt: now,
+        });
+
+        if (delayMs === 0) {
+          ready.add(options.endpoint);
+        }
+      }
+    })();
+
+    for (const subscription of this.subscriptions) {
+      if (ready.has(subscription.endpoint)) {
+        subscription.wake?.();
+      }
+    }
+  }
+
+  async cancelScheduled(scheduleId: string): Promise<void> {
+    this.statements.cancel.run(scheduleId);
+  }
+
+  private register(subscription: SqliteSubscription): void {
+    this.db.transaction(() => {
+      this.statements.register.run(
+        subscription.endpoint,
+        subscription.group,
+        Date.now()
+      );
+      this.assignPending(subscription.endpoint);
+    })();
+  }
+
+  /**
+   * Copy messages published before any group subscribed to the endpoint
+   * to every group subscribed now. Runs when a group registers, and on
+   * claims for messages other processes published meanwhile. Call inside a
+   * transaction.
+   */
+  private assignPending(endpoint: string): void {
+    const { pending } = this.statements.hasPending.get(endpoint) as {
+      pending: number;
+    };
+    if (!pending) {
+      return;
+    }
+
+    this.statements.assignPending.run(endpoint);
+    this.statements.deletePending.run(endpoint);
+  }
+
+  private async pollLoop(subscription: SqliteSubscription): Promise<void> {
+    const active = new Set<Promise<void>>();
+
+    while (this.receiving) {
+      const limit = Math.min(this.batchSize, subscription.semaphore.available);
+      if (limit === 0) {
+        // Wait for a handler to finish
+        await subscription.semaphore.withPermit(async () => undefined);
+        continue;
+      }
+
+      let rows: QueueMessageRow[];
+      try {
+        rows = this.claim(subscription, limit);
+      } catch (error) {
+        // Log error (e.g. database busy) but continue polling
+        console.error("[SqliteTransport] Poll error:", error);
+        await this.wait(subscription);
+        continue;
+      }
+
+      for (const row of rows) {
+        const task: Promise<void> = subscription.semaphore
+          .withPermit(() => this.processMessage(subscription, row))
+          .finally(() => active.delete(task));
+        active.add(task);
+      }
+
+      // A full claim means more messages may be waiting
+      if (rows.length < limit) {
+        await this.wait(subscription);
+      }
+    }
+
+    await Promise.all(active);
+  }
+
+  private claim(
+    subscription: SqliteSubscription,
+    limit: number
+  ): QueueMessageRow[] {
+    const now = Date.now();
+
+    return this.db.transaction(() => {
+      this.assignPending(subscription.endpoint);
+
+      const rows = this.statements.selectVisible.all({
+        endpoint: subscription.endpoint,
+        group: subscription.group,
+        now,
+        limit,
+      }) as QueueMessageRow[];
+
+      const visibleAt = now + this.visibilityTimeoutMs;
+      for (const row of rows) {
+        this.statements.lock.run(visibleAt, row.id);
+      }
+      return rows;
+    })();
+  }
+
+  private async processMessage(
+    subscription: SqliteSubscription,
+    row: QueueMessageRow
+  ): Promise<void> {
+    try {
+      let envelope: MessageEnvelope;
+      try {
+        envelope = this.codec.decode(row.body, row.content_type);
+      } catch (error) {
+        console.error(
+          `[SqliteTransport] Dropping undecodable message ${row.message_id}:`,
+          error
+        );
+        this.complete(row);
+        return;
+      }
+
+      await subscription.handler(envelope);
+      this.complete(row);
+    } catch (error) {
+      if (error instanceof BusStoppingError) {
+        // Refused by a stopping bus - hand the message to the next consumer
+        this.release(row);
+        return;
+      }
+
+      // Delivered again once the visibility timeout expires, which spaces
+      // out attempts of a message that keeps failing
+      console.error("[SqliteTransport] Message processing error:", error);
+    }
+  }
+
+  private release(row: QueueMessageRow): void {
+    try {
+      this.statements.release.run(Date.now(), row.id);
+    } catch (error) {
+      // Message becomes visible again after the visibility timeout
+      console.error("[SqliteTransport] Release error:", error);
+    }
+  }
+
+  /**
+   * Delete a handled message, or mark it processed while it is retained.
+   */
+  private complete(row: QueueMessageRow): void {
+    if (this.retentionMs > 0) {
+      this.statements.markProcessed.run(Date.now(), row.id);
+    } else {
+      this.statements.delete.run(row.id);
+    }
+  }
+
+  private deleteExpiredMessages(): void {
+    try {
+      this.statements.deleteProcessed.run(Date.now() - this.retentionMs);
+    } catch (error) {
+      console.error("[SqliteTransport] Cleanup error:", error);
+    }
+  }
+
+  /**
+   * Wait for the poll interval, a publish to the subscription's endpoint
+   * or the transport to stop receiving.
+   */
+  private wait(subscription: SqliteSubscription): Promise<void> {
+    if (!this.receiving) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        subscription.wake = null;
+        resolve();
+      };
+      const timer = setTimeout(done, this.pollIntervalMs);
+      subscription.wake = done;
+    });
+  }
+}
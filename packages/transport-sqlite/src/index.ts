@@ -0,0 +1,3 @@
+export { SqliteTransport } from "./SqliteTransport.js";
+export { createQueueSchema } from "./schema.js";
+export type { SqliteTransportOptions, QueueMessageRow } from "./types.js";
@@ -0,0 +1,50 @@
+import type Database from "better-sqlite3";
+
+/**
+ * Create the saga_bus_messages and saga_bus_subscriptions tables and
+ * indexes.
+ */
+export function createQueueSchema(
+  db: Database.Database,
+  tableName: string = "saga_bus_messages",
+  subscriptionTableName: string = "saga_bus_subscriptions"
+): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      endpoint TEXT NOT NULL,
+      group_name TEXT, -- NULL until a group subscribes to the endpoint
+      message_id TEXT NOT NULL,
+      partition_key TEXT,
+      schedule_id TEXT,
+      content_type TEXT,
+      body BLOB NOT NULL,
+      visible_at INTEGER NOT NULL,
+      delivery_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      processed_at INTEGER
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_${tableName}_claim
+    ON ${tableName} (endpoint, group_name, processed_at, visible_at);
+
+    CREATE INDEX IF NOT EXISTS idx_${tableName}_key
+    ON ${tableName} (endpoint, group_name, partition_key, id)
+    WHERE partition_key IS NOT NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_${tableName}_schedule
+    ON ${tableName} (schedule_id)
+    WHERE schedule_id IS NOT NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_${tableName}_processed_at
+    ON ${tableName} (processed_at)
+    WHERE processed_at IS NOT NULL;
+
+    CREATE TABLE IF NOT EXISTS ${subscriptionTableName} (
+      endpoint TEXT NOT NULL,
+      group_name TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (endpoint, group_name)
+    );
+  `);
+}
@@ -0,0 +1,108 @@
+import type Database from "better-sqlite3";
+import type { MessageCodecOptions } from "@saga-bus/core";
+import type { Semaphore } from "@saga-bus/transport-inmemory";
+
+/**
+ * Configuration options for the SQLite transport.
+ */
+export interface SqliteTransportOptions extends MessageCodecOptions {
+  /**
+   * better-sqlite3 database. Use a file path rather than `:memory:` for
+   * messages to survive restarts; it may be the database of a
+   * `SqliteSagaStore`.
+   */
+  db: Database.Database;
+
+  /**
+   * Table holding queued messages.
+   * @default "saga_bus_messages"
+   */
+  tableName?: string;
+
+  /**
+   * Table registering the consumer groups of each endpoint.
+   * @default "saga_bus_subscriptions"
+   */
+  subscriptionTableName?: string;
+
+  /**
+   * Consumer group for subscriptions that don't name one.
+   * @default "default"
+   */
+  defaultGroup?: string;
+
+  /**
+   * Default concurrency for subscriptions.
+   * @default 1
+   */
+  defaultConcurrency?: number;
+
+  /**
+   * How often each subscription polls for messages, in milliseconds.
+   * Messages published through this transport instance wake its
+   * subscriptions right away; delayed messages and messages from other
+   * processes are picked up on this interval.
+   * @default 1000
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Maximum messages claimed per query.
+   * @default 10
+   */
+  batchSize?: number;
+
+  /**
+   * How long a claimed message stays hidden, in milliseconds. A message
+   * whose process crashed or whose handler failed is delivered again once
+   * this expires.
+   * @default 30000
+   */
+  visibilityTimeoutMs?: number;
+
+  /**
+   * How long handled messages are kept before being deleted, in
+   * milliseconds. Set to 0 to delete them as soon as they are handled.
+   * @default 0
+   */
+  retentionMs?: number;
+
+  /**
+   * How often handled messages past their retention are deleted, in
+   * milliseconds.
+   * @default 60000
+   */
+  cleanupIntervalMs?: number;
+}
+
+/**
+ * Row structure in the saga_bus_messages table.
+ */
+export interface QueueMessageRow {
+  id: number;
+  endpoint: string;
+  group_name: string | null; // NULL until a group subscribes
+  message_id: string;
+  partition_key: string | null;
+  schedule_id: string | null;
+  content_type: string | null;
+  body: Buffer;
+  visible_at: number; // Unix timestamp ms
+  delivery_count: number;
+  created_at: number; // Unix timestamp ms
+  processed_at: number | null; // Unix timestamp ms, while retained
+}
+
+/**
+ * Internal subscription registration.
+ */
+export interface SqliteSubscription {
+  endpoint: string;
+  group: string;
+  semaphore: Semaphore;
+  handler: (envelope: unknown) => Promise<void>;
+  /** Running poll loop, while the transport receives */
+  pollLoop: Promise<void> | null;
+  /** Ends the poll loop's current wait early */
+  wake: (() => void) | null;
+}
@@ -5,6 +5,7 @@ import {
   DeleteQueueCommand,
   PurgeQueueCommand,
   GetQueueUrlCommand,
+  GetQueueAttributesCommand,
 } from "@aws-sdk/client-sqs";
 import {
   LocalstackContainer,
@@ -87,14 +88,10 @@ describe("SqsTransport", () => {
   }, 30_000);
 
   describe("constructor", () => {
-    it("should reject non-FIFO queue URLs", () => {
-      expect(
-        () =>
-          new SqsTransport({
-            client: client!,
-            queueUrl: "https://sqs.us-east-1.amazonaws.com/123/standard-queue",
-          })
-      ).toThrow("FIFO queue");
+    it("should require a queue", () => {
+      expect(() => new SqsTransport({ client: client! })).toThrow(
+        "SqsTransport requires queueUrl"
+      );
     });
 
     it("should accept FIFO queue URLs", () => {
@@ -174,6 +171,169 @@ describe("SqsTransport", () => {
     }, 30_000);
   });
 
+  describe("publishBatch", () => {
+    it("should send batches of more than 10 messages in order", async () => {
+      const transport = new SqsTransport({
+        client: client!,
+        queueUrl: queueUrl!,
+        waitTimeSeconds: 1,
+      });
+
+      const received: number[] = [];
+      const groupKey = `batch-group-${Date.now()}`;
+
+      await transport.subscribe<SeqEvent>(
+        { endpoint: "SeqEvent" },
+        async (envelope) => {
+          received.push(envelope.payload.sequence);
+        }
+      );
+
+      await transport.start();
+
+      await transport.publishBatch(
+        Array.from({ length: 12 }, (_, sequence) => ({
+          message: { type: "SeqEvent", sequence } as SeqEvent,
+          options: { endpoint: "SeqEvent", key: groupKey },
+        }))
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+
+      await transport.stop();
+
+      expect(received).toEqual(Array.from({ length: 12 }, (_, i) => i));
+    }, 30_000);
+  });
+
+  describe("routing", () => {
+    it("should route endpoints to their mapped queues", async () => {
+      const standard = await client!.send(
+        new CreateQueueCommand({ QueueName: "test-standard" })
+      );
+      const transport = new SqsTransport({
+        client: client!,
+        queueUrl: queueUrl!,
+        queues: { TestEvent: standard.QueueUrl! },
+        waitTimeSeconds: 1,
+      });
+
+      const received: string[] = [];
+
+      await transport.subscribe<TestEvent>(
+        { endpoint: "TestEvent" },
+        async (envelope) => {
+          received.push(`TestEvent:${envelope.payload.value}`);
+        }
+      );
+      await transport.subscribe<SeqEvent>(
+        { endpoint: "SeqEvent" },
+        async (envelope) => {
+          received.push(`SeqEvent:${envelope.payload.sequence}`);
+        }
+      );
+
+      await transport.start();
+
+      // Standard queues reject MessageGroupId, so this must be left off
+      await transport.publish<TestEvent>(
+        { type: "TestEvent", value: 1 },
+        { endpoint: "TestEvent", key: "group-1" }
+      );
+      await transport.publish<SeqEvent>(
+        { type: "SeqEvent", sequence: 2 },
+        { endpoint: "SeqEvent", key: "group-1" }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      await transport.stop();
+      await client!.send(
+        new DeleteQueueCommand({ QueueUrl: standard.QueueUrl })
+      );
+
+      expect(received.sort()).toEqual(["SeqEvent:2", "TestEvent:1"]);
+      expect(transport.getStats().queueCount).toBe(2);
+    }, 30_000);
+
+    it("should not dispatch messages for other endpoints", async () => {
+      const transport = new SqsTransport({
+        client: client!,
+        queueUrl: queueUrl!,
+        waitTimeSeconds: 1,
+      });
+
+      const received: MessageEnvelope[] = [];
+
+      await transport.subscribe<TestEvent>(
+        { endpoint: "TestEvent" },
+        async (envelope) => {
+          received.push(envelope);
+        }
+      );
+
+      await transport.start();
+
+      await transport.publish<FailEvent>(
+        { type: "FailEvent" },
+        { endpoint: "FailEvent" }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      await transport.stop();
+
+      expect(received).toHaveLength(0);
+    }, 30_000);
+
+    it("should create queues by convention with a redrive policy", async () => {
+      const transport = new SqsTransport({
+        client: client!,
+        queueNamePrefix: "convention-",
+        createQueues: true,
+        deadLetter: { maxReceiveCount: 3 },
+        waitTimeSeconds: 1,
+      });
+
+      const received: number[] = [];
+
+      await transport.subscribe<TestEvent>(
+        { endpoint: "TestEvent" },
+        async (envelope) => {
+          received.push(envelope.payload.value);
+        }
+      );
+
+      await transport.start();
+
+      await transport.publish<TestEvent>(
+        { type: "TestEvent", value: 7 },
+        { endpoint: "TestEvent" }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      await transport.stop();
+
+      const { QueueUrl } = await client!.send(
+        new GetQueueUrlCommand({ QueueName: "convention-TestEvent.fifo" })
+      );
+      const { Attributes } = await client!.send(
+        new GetQueueAttributesCommand({
+          QueueUrl,
+          AttributeNames: ["RedrivePolicy"],
+        })
+      );
+
+      expect(received).toEqual([7]);
+      expect(JSON.parse(Attributes!.RedrivePolicy!)).toMatchObject({
+        deadLetterTargetArn: expect.stringContaining(
+          "convention-TestEvent-dlq.fifo"
+        ),
+      });
+    }, 30_000);
+  });
+
   describe("error handling", () => {
     it("should not delete message on handler error", async () => {
       const transport = new SqsTransport({
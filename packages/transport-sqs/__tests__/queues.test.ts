@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import type { Message } from "@aws-sdk/client-sqs";
+import {
+  createQueueNaming,
+  deadLetterQueueName,
+  defaultQueueNaming,
+  groupByMessageGroup,
+  withQueueType,
+} from "../src/queues.js";
+
+describe("queue naming", () => {
+  it("should replace characters SQS doesn't allow", () => {
+    expect(defaultQueueNaming("OrderSubmitted.dlq")).toBe("OrderSubmitted-dlq");
+    expect(defaultQueueNaming("orders/v2:created")).toBe("orders-v2-created");
+  });
+
+  it("should match the .fifo suffix to the queue type", () => {
+    expect(withQueueType("orders", true)).toBe("orders.fifo");
+    expect(withQueueType("orders.fifo", true)).toBe("orders.fifo");
+    expect(withQueueType("orders.fifo", false)).toBe("orders");
+  });
+
+  it("should compose the naming convention from the options", () => {
+    expect(createQueueNaming({})).toBeUndefined();
+    expect(createQueueNaming({ queueNamePrefix: "app-" })?.("orders.dlq")).toBe(
+      "app-orders-dlq.fifo"
+    );
+    expect(
+      createQueueNaming({
+        queueNaming: (endpoint) => `${endpoint}-queue.fifo`,
+        queueType: "standard",
+      })?.("orders")
+    ).toBe("orders-queue");
+  });
+
+  it("should name dead-letter queues after their queue", () => {
+    expect(deadLetterQueueName("orders.fifo")).toBe("orders-dlq.fifo");
+    expect(deadLetterQueueName("orders")).toBe("orders-dlq");
+  });
+});
+
+describe("groupByMessageGroup", () => {
+  const message = (id: string, groupId?: string): Message => ({
+    MessageId: id,
+    Attributes: groupId ? { MessageGroupId: groupId } : undefined,
+  });
+
+  it("should keep messages of a group together and in order", () => {
+    const groups = groupByMessageGroup([
+      message("1", "a"),
+      message("2", "b"),
+      message("3", "a"),
+      message("4"),
+      message("5"),
+    ]);
+
+    expect(groups.map((group) => group.map((m) => m.MessageId))).toEqual([
+      ["1", "3"],
+      ["2"],
+      ["4"],
+      ["5"],
+    ]);
+  });
+});
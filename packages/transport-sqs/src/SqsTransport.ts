@@ -1,25 +1,53 @@
 import { randomUUID } from "node:crypto";
 import {
   SendMessageCommand,
+  SendMessageBatchCommand,
   ReceiveMessageCommand,
   DeleteMessageCommand,
+  CreateQueueCommand,
+  GetQueueUrlCommand,
+  GetQueueAttributesCommand,
+  SetQueueAttributesCommand,
   type SQSClient,
   type Message as SqsMessage,
+  type SendMessageBatchRequestEntry,
 } from "@aws-sdk/client-sqs";
+import { MessageCodec, CONTENT_TYPE_HEADER } from "@saga-bus/core";
 import type {
   Transport,
   TransportSubscribeOptions,
   TransportPublishOptions,
+  TransportBatchMessage,
   BaseMessage,
   MessageEnvelope,
 } from "@saga-bus/core";
-import type { SqsTransportOptions, SqsSubscription } from "./types.js";
+import type {
+  SqsTransportOptions,
+  SqsDeadLetterOptions,
+  SqsSubscription,
+  SqsQueue,
+} from "./types.js";
+import {
+  createQueueNaming,
+  deadLetterQueueName,
+  groupByMessageGroup,
+  isFifoQueue,
+  queueNameFromUrl,
+} from "./queues.js";
+
+/** Maximum number of messages SQS accepts per SendMessageBatch request */
+const SEND_BATCH_SIZE = 10;
 
 /**
- * AWS SQS FIFO transport for saga-bus.
+ * AWS SQS transport for saga-bus.
+ *
+ * Endpoints are routed to queues by an explicit map, a naming convention or
+ * a shared queue. Each consumed queue has one poll loop handling up to the
+ * subscription's concurrency of messages at once.
  *
- * Uses FIFO queues to guarantee message ordering within message groups.
- * The partition key or correlation ID is used as the message group ID.
+ * On FIFO queues the partition key or message ID is used as the message
+ * group ID, and messages of one group are handled in order. Standard queues
+ * give no ordering guarantees.
  *
  * @example
  * ```typescript
@@ -28,7 +56,8 @@ import type { SqsTransportOptions, SqsSubscription } from "./types.js";
  * const client = new SQSClient({ region: "us-east-1" });
  * const transport = new SqsTransport({
  *   client,
- *   queueUrl: "https://sqs.us-east-1.amazonaws.com/123456789/my-queue.fifo",
+ *   queueNamePrefix: "myapp-",
+ *   createQueues: true,
  * });
  *
  * await transport.start();
@@ -46,31 +75,47 @@ import type { SqsTransportOptions, SqsSubscription } from "./types.js";
  */
 export class SqsTransport implements Transport {
   private readonly client: SQSClient;
-  private readonly queueUrl: string;
+  private readonly queueUrl: string | undefined;
+  private readonly queueMap: Record<string, string>;
+  private readonly queueNaming: ((endpoint: string) => string) | undefined;
+  private readonly createQueues: boolean;
+  private readonly deadLetter: SqsDeadLetterOptions | undefined;
   private readonly maxMessages: number;
   private readonly waitTimeSeconds: number;
   private readonly visibilityTimeout: number;
   private readonly concurrency: number;
+  private readonly codec: MessageCodec;
 
   private readonly handlers = new Map<
     string,
     (envelope: MessageEnvelope) => Promise<void>
   >();
   private readonly subscriptions: SqsSubscription[] = [];
+  private readonly queues = new Map<string, SqsQueue>();
+  private readonly resolvedQueueUrls = new Map<string, Promise<string>>();
   private isRunning = false;
-  private pollLoops: Promise<void>[] = [];
 
   constructor(options: SqsTransportOptions) {
     this.client = options.client;
     this.queueUrl = options.queueUrl;
+    this.queueMap = options.queues ?? {};
+    this.createQueues = options.createQueues ?? false;
+    this.deadLetter = options.deadLetter;
     this.maxMessages = options.maxMessages ?? 10;
     this.waitTimeSeconds = options.waitTimeSeconds ?? 20;
     this.visibilityTimeout = options.visibilityTimeout ?? 30;
     this.concurrency = options.concurrency ?? 1;
+    this.codec = new MessageCodec(options);
 
-    if (!this.queueUrl.endsWith(".fifo")) {
+    this.queueNaming = createQueueNaming(options);
+
+    if (
+      !this.queueUrl &&
+      !this.queueNaming &&
+      Object.keys(this.queueMap).length === 0
+    ) {
       throw new Error(
-        "SqsTransport requires a FIFO queue (URL must end with .fifo)"
+        "SqsTransport requires queueUrl, queues, queueNamePrefix or queueNaming"
       );
     }
   }
@@ -82,16 +127,20 @@ export class SqsTransport implements Transport {
 
     this.isRunning = true;
 
-    // Start concurrent poll loops
-    for (let i = 0; i < this.concurrency; i++) {
-      this.pollLoops.push(this.pollLoop());
+    for (const queue of this.queues.values()) {
+      this.startPolling(queue);
     }
   }
 
   async stop(): Promise<void> {
     this.isRunning = false;
-    await Promise.all(this.pollLoops);
-    this.pollLoops = [];
+
+    const loops = [...this.queues.values()].map((queue) => queue.pollLoop);
+    await Promise.all(loops);
+
+    for (const queue of this.queues.values()) {
+      queue.pollLoop = null;
+    }
   }
 
   async subscribe<TMessage extends BaseMessage>(
@@ -99,27 +148,101 @@ export class SqsTransport implements Transport {
     handler: (envelope: MessageEnvelope<TMessage>) => Promise<void>
   ): Promise<void> {
     const { endpoint } = options;
+    const concurrency = options.concurrency ?? this.concurrency;
+    const queueUrl = await this.resolveQueueUrl(endpoint);
+
+    let queue = this.queues.get(queueUrl);
+    if (!queue) {
+      if (this.deadLetter) {
+        await this.setRedrivePolicy(queueUrl, this.deadLetter);
+      }
+      queue = {
+        url: queueUrl,
+        fifo: isFifoQueue(queueUrl),
+        endpoints: new Set(),
+        concurrency,
+        pollLoop: null,
+      };
+      this.queues.set(queueUrl, queue);
+    }
 
-    // Store handler (SQS uses single queue, filter by endpoint in handler)
+    queue.endpoints.add(endpoint);
+    queue.concurrency = Math.max(queue.concurrency, concurrency);
     this.handlers.set(
       endpoint,
       handler as (envelope: MessageEnvelope) => Promise<void>
     );
+    this.subscriptions.push({ endpoint, queueUrl, concurrency });
 
-    this.subscriptions.push({
-      endpoint,
-      concurrency: options.concurrency ?? 1,
-    });
+    if (this.isRunning) {
+      this.startPolling(queue);
+    }
   }
 
   async publish<TMessage extends BaseMessage>(
     message: TMessage,
     options: TransportPublishOptions
   ): Promise<void> {
+    const queueUrl = await this.resolveQueueUrl(options.endpoint);
+
+    await this.client.send(
+      new SendMessageCommand({
+        QueueUrl: queueUrl,
+        ...this.createEntry(message, options, queueUrl),
+      })
+    );
+  }
+
+  /**
+   * Publish messages with `SendMessageBatch`, in requests of up to 10
+   * messages per queue.
+   * @throws Error naming the messages SQS rejected
+   */
+  async publishBatch(
+    messages: ReadonlyArray<TransportBatchMessage>
+  ): Promise<void> {
+    const entriesByQueue = new Map<string, SendMessageBatchRequestEntry[]>();
+
+    for (const { message, options } of messages) {
+      const queueUrl = await this.resolveQueueUrl(options.endpoint);
+      const entries = entriesByQueue.get(queueUrl) ?? [];
+      entries.push({
+        Id: String(entries.length),
+        ...this.createEntry(message, options, queueUrl),
+      });
+      entriesByQueue.set(queueUrl, entries);
+    }
+
+    for (const [queueUrl, entries] of entriesByQueue) {
+      for (let i = 0; i < entries.length; i += SEND_BATCH_SIZE) {
+        const response = await this.client.send(
+          new SendMessageBatchCommand({
+            QueueUrl: queueUrl,
+            Entries: entries.slice(i, i + SEND_BATCH_SIZE),
+          })
+        );
+
+        if (response.Failed && response.Failed.length > 0) {
+          const reasons = response.Failed.map(
+            (failure) => `${failure.Id}: ${failure.Message ?? failure.Code}`
+          );
+          throw new Error(
+            `SQS rejected ${response.Failed.length} message(s) on ${queueUrl}: ${reasons.join(", ")}`
+          );
+        }
+      }
+    }
+  }
+
+  private createEntry(
+    message: BaseMessage,
+    options: TransportPublishOptions,
+    queueUrl: string
+  ): Omit<SendMessageBatchRequestEntry, "Id"> {
     const { endpoint, key, headers = {}, delayMs } = options;
 
     // Create envelope
-    const envelope: MessageEnvelope<TMessage> = {
+    const envelope: MessageEnvelope = {
       id: randomUUID(),
       type: message.type,
       payload: message,
@@ -128,40 +251,160 @@ export class SqsTransport implements Transport {
       partitionKey: key,
     };
 
-    // Message group ID for FIFO ordering
-    const messageGroupId = key ?? envelope.id;
-
     // Calculate delay in seconds (SQS supports 0-900 seconds)
     const delaySeconds = delayMs ? Math.min(Math.floor(delayMs / 1000), 900) : undefined;
 
+    // Standard queues reject group and deduplication IDs
+    const fifoAttributes = isFifoQueue(queueUrl)
+      ? { MessageGroupId: key ?? envelope.id, MessageDeduplicationId: envelope.id }
+      : {};
+
+    return {
+      MessageBody: this.codec.encodeText(envelope),
+      MessageAttributes: {
+        [CONTENT_TYPE_HEADER]: {
+          DataType: "String",
+          StringValue: this.codec.contentType,
+        },
+      },
+      ...fifoAttributes,
+      DelaySeconds: delaySeconds,
+    };
+  }
+
+  /**
+   * Queue URL for an endpoint: mapped, named by convention, or shared.
+   */
+  private resolveQueueUrl(endpoint: string): Promise<string> {
+    const mapped = this.queueMap[endpoint];
+    if (mapped) {
+      return Promise.resolve(mapped);
+    }
+
+    if (!this.queueNaming) {
+      if (this.queueUrl) {
+        return Promise.resolve(this.queueUrl);
+      }
+      return Promise.reject(
+        new Error(`No SQS queue configured for endpoint "${endpoint}"`)
+      );
+    }
+
+    let resolved = this.resolvedQueueUrls.get(endpoint);
+    if (!resolved) {
+      resolved = this.lookupQueue(this.queueNaming(endpoint));
+      // Retry failed lookups on next use
+      resolved.catch(() => this.resolvedQueueUrls.delete(endpoint));
+      this.resolvedQueueUrls.set(endpoint, resolved);
+    }
+    return resolved;
+  }
+
+  private async lookupQueue(queueName: string): Promise<string> {
+    if (!this.createQueues) {
+      const response = await this.client.send(
+        new GetQueueUrlCommand({ QueueName: queueName })
+      );
+      return response.QueueUrl!;
+    }
+
+    const response = await this.client.send(
+      new CreateQueueCommand({
+        QueueName: queueName,
+        Attributes: isFifoQueue(queueName)
+          ? { FifoQueue: "true", ContentBasedDeduplication: "false" }
+          : {},
+      })
+    );
+    return response.QueueUrl!;
+  }
+
+  private async setRedrivePolicy(
+    queueUrl: string,
+    deadLetter: SqsDeadLetterOptions
+  ): Promise<void> {
+    let deadLetterTargetArn = deadLetter.queueArn;
+
+    if (!deadLetterTargetArn) {
+      const name = deadLetterQueueName(queueNameFromUrl(queueUrl));
+      const created = await this.client.send(
+        new CreateQueueCommand({
+          QueueName: name,
+          Attributes: isFifoQueue(name) ? { FifoQueue: "true" } : {},
+        })
+      );
+      const attributes = await this.client.send(
+        new GetQueueAttributesCommand({
+          QueueUrl: created.QueueUrl,
+          AttributeNames: ["QueueArn"],
+        })
+      );
+      deadLetterTargetArn = attributes.Attributes?.QueueArn;
+    }
+
     await this.client.send(
-      new SendMessageCommand({
-        QueueUrl: this.queueUrl,
-        MessageBody: JSON.stringify(envelope),
-        MessageGroupId: messageGroupId,
-        MessageDeduplicationId: envelope.id,
-        DelaySeconds: delaySeconds,
+      new SetQueueAttributesCommand({
+        QueueUrl: queueUrl,
+        Attributes: {
+          RedrivePolicy: JSON.stringify({
+            deadLetterTargetArn,
+            maxReceiveCount: String(deadLetter.maxReceiveCount),
+          }),
+        },
       })
     );
   }
 
-  private async pollLoop(): Promise<void> {
+  private startPolling(queue: SqsQueue): void {
+    queue.pollLoop ??= this.pollLoop(queue);
+  }
+
+  private async pollLoop(queue: SqsQueue): Promise<void> {
+    const active = new Set<Promise<void>>();
+    let inFlight = 0;
+
     while (this.isRunning) {
+      if (inFlight >= queue.concurrency) {
+        await Promise.race(active);
+        continue;
+      }
+
+      let messages: SqsMessage[];
       try {
-        await this.pollMessages();
+        messages = await this.receiveMessages(
+          queue,
+          Math.min(this.maxMessages, queue.concurrency - inFlight)
+        );
       } catch (error) {
         // Log error but continue polling
         console.error("[SQS] Poll error:", error);
         await this.delay(1000);
+        continue;
+      }
+
+      for (const group of groupByMessageGroup(messages)) {
+        inFlight += group.length;
+        const task: Promise<void> = this.processGroup(queue, group).finally(
+          () => {
+            inFlight -= group.length;
+            active.delete(task);
+          }
+        );
+        active.add(task);
       }
     }
+
+    await Promise.all(active);
   }
 
-  private async pollMessages(): Promise<void> {
+  private async receiveMessages(
+    queue: SqsQueue,
+    maxMessages: number
+  ): Promise<SqsMessage[]> {
     const response = await this.client.send(
       new ReceiveMessageCommand({
-        QueueUrl: this.queueUrl,
-        MaxNumberOfMessages: this.maxMessages,
+        QueueUrl: queue.url,
+        MaxNumberOfMessages: maxMessages,
         WaitTimeSeconds: this.waitTimeSeconds,
         VisibilityTimeout: this.visibilityTimeout,
         AttributeNames: ["All"],
@@ -169,55 +412,67 @@ export class SqsTransport implements Transport {
       })
     );
 
-    if (!response.Messages || response.Messages.length === 0) {
-      return;
-    }
+    return response.Messages ?? [];
+  }
 
-    await Promise.all(
-      response.Messages.map((msg) => this.processMessage(msg))
-    );
+  /**
+   * Handle messages of one message group in order. After a failure the
+   * rest of the group is left for redelivery, so it stays in order.
+   */
+  private async processGroup(
+    queue: SqsQueue,
+    messages: SqsMessage[]
+  ): Promise<void> {
+    for (const message of messages) {
+      try {
+        await this.processMessage(queue, message);
+      } catch (error) {
+        // Message will return to queue after visibility timeout
+        console.error("[SQS] Message processing error:", error);
+        return;
+      }
+    }
   }
 
-  private async processMessage(sqsMessage: SqsMessage): Promise<void> {
+  private async processMessage(
+    queue: SqsQueue,
+    sqsMessage: SqsMessage
+  ): Promise<void> {
     if (!sqsMessage.Body || !sqsMessage.ReceiptHandle) {
       return;
     }
 
-    try {
-      // Parse envelope
-      const parsed = JSON.parse(sqsMessage.Body) as MessageEnvelope;
-
-      // Reconstruct Date objects
-      const envelope: MessageEnvelope = {
-        ...parsed,
-        timestamp: new Date(parsed.timestamp),
-      };
-
-      // Get endpoint from headers
-      const endpoint = envelope.headers["x-endpoint"];
-
-      // Find handler for this endpoint
-      const handler = endpoint ? this.handlers.get(endpoint) : undefined;
-
-      // If no specific handler, try to find any handler (for simple cases)
-      const actualHandler = handler ?? this.handlers.values().next().value;
+    const envelope = this.codec.decodeText(
+      sqsMessage.Body,
+      sqsMessage.MessageAttributes?.[CONTENT_TYPE_HEADER]?.StringValue
+    );
 
-      if (actualHandler) {
-        await actualHandler(envelope);
-      }
+    // Messages without an endpoint header belong to the queue's only endpoint
+    const endpoint =
+      envelope.headers["x-endpoint"] ??
+      (queue.endpoints.size === 1 ? [...queue.endpoints][0] : undefined);
+    const handler =
+      endpoint && queue.endpoints.has(endpoint)
+        ? this.handlers.get(endpoint)
+        : undefined;
 
-      // Delete message on successful processing
-      await this.client.send(
-        new DeleteMessageCommand({
-          QueueUrl: this.queueUrl,
-          ReceiptHandle: sqsMessage.ReceiptHandle,
-        })
+    if (!handler) {
+      // Left on the queue for other consumers, or the redrive policy
+      console.warn(
+        `[SQS] No handler for endpoint "${endpoint}" on queue ${queue.url}`
       );
-    } catch (error) {
-      // Message will return to queue after visibility timeout
-      console.error("[SQS] Message processing error:", error);
-      throw error;
+      return;
     }
+
+    await handler(envelope);
+
+    // Delete message on successful processing
+    await this.client.send(
+      new DeleteMessageCommand({
+        QueueUrl: queue.url,
+        ReceiptHandle: sqsMessage.ReceiptHandle,
+      })
+    );
   }
 
   private delay(ms: number): Promise<void> {
@@ -234,9 +489,14 @@ export class SqsTransport implements Transport {
   /**
    * Get transport statistics.
    */
-  getStats(): { subscriptionCount: number; isRunning: boolean } {
+  getStats(): {
+    subscriptionCount: number;
+    queueCount: number;
+    isRunning: boolean;
+  } {
     return {
       subscriptionCount: this.subscriptions.length,
+      queueCount: this.queues.size,
       isRunning: this.isRunning,
     };
   }
@@ -1,2 +1,4 @@
 export { SqsTransport } from "./SqsTransport.js";
-export type { SqsTransportOptions } from "./types.js";
+export { createQueueNaming, defaultQueueNaming } from "./queues.js";
+export type { SqsQueueNamingOptions } from "./queues.js";
+export type { SqsTransportOptions, SqsDeadLetterOptions } from "./types.js";
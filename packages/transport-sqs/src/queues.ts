@@ -0,0 +1,99 @@
+import type { Message as SqsMessage } from "@aws-sdk/client-sqs";
+import type { SqsTransportOptions } from "./types.js";
+
+const FIFO_SUFFIX = ".fifo";
+
+/**
+ * Whether a queue URL or name refers to a FIFO queue.
+ */
+export function isFifoQueue(urlOrName: string): boolean {
+  return urlOrName.endsWith(FIFO_SUFFIX);
+}
+
+/**
+ * Default queue name for an endpoint: characters SQS doesn't allow in
+ * queue names are replaced with "-", so "OrderSubmitted.dlq" becomes
+ * "OrderSubmitted-dlq".
+ */
+export function defaultQueueNaming(endpoint: string): string {
+  return endpoint.replace(/[^A-Za-z0-9_-]/g, "-");
+}
+
+/**
+ * Add or remove the `.fifo` suffix a queue name needs for its queue type.
+ */
+export function withQueueType(queueName: string, fifo: boolean): string {
+  const base = isFifoQueue(queueName)
+    ? queueName.slice(0, -FIFO_SUFFIX.length)
+    : queueName;
+  return fifo ? `${base}${FIFO_SUFFIX}` : base;
+}
+
+/**
+ * Options of the queue naming convention.
+ */
+export type SqsQueueNamingOptions = Pick<
+  SqsTransportOptions,
+  "queueNamePrefix" | "queueNaming" | "queueType"
+>;
+
+/**
+ * Queue name for each endpoint under the naming convention: `queueNaming`
+ * (or `defaultQueueNaming`) after `queueNamePrefix`, with the suffix of
+ * `queueType`. Shared by the transport and tools reading its queues.
+ * @returns The naming function, or undefined when neither `queueNaming`
+ *   nor `queueNamePrefix` enables the convention
+ */
+export function createQueueNaming(
+  options: SqsQueueNamingOptions
+): ((endpoint: string) => string) | undefined {
+  if (!options.queueNaming && options.queueNamePrefix === undefined) {
+    return undefined;
+  }
+
+  const naming = options.queueNaming ?? defaultQueueNaming;
+  const prefix = options.queueNamePrefix ?? "";
+  const fifo = (options.queueType ?? "fifo") === "fifo";
+  return (endpoint) => withQueueType(`${prefix}${naming(endpoint)}`, fifo);
+}
+
+/**
+ * Name of a queue from its URL.
+ */
+export function queueNameFromUrl(queueUrl: string): string {
+  return queueUrl.slice(queueUrl.lastIndexOf("/") + 1);
+}
+
+/**
+ * Name of the dead-letter queue created for a queue, e.g.
+ * "orders.fifo" → "orders-dlq.fifo". A FIFO queue needs a FIFO DLQ.
+ */
+export function deadLetterQueueName(queueName: string): string {
+  const fifo = isFifoQueue(queueName);
+  return withQueueType(`${withQueueType(queueName, false)}-dlq`, fifo);
+}
+
+/**
+ * Split received messages by message group, keeping their order. Messages
+ * without a group (standard queues) each form their own group.
+ */
+export function groupByMessageGroup(messages: SqsMessage[]): SqsMessage[][] {
+  const groups = new Map<string, SqsMessage[]>();
+  const ungrouped: SqsMessage[][] = [];
+
+  for (const message of messages) {
+    const groupId = message.Attributes?.MessageGroupId;
+    if (!groupId) {
+      ungrouped.push([message]);
+      continue;
+    }
+    const group = groups.get(groupId);
+    if (group) {
+      group.push(message);
+    } else {
+      groups.set(groupId, [message]);
+    }
+  }
+
+  return [...groups.values(), ...ungrouped];
+}
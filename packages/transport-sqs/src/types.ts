@@ -1,19 +1,68 @@
 import type { SQSClient } from "@aws-sdk/client-sqs";
+import type { MessageCodecOptions } from "@saga-bus/core";
 
 /**
  * SQS transport configuration options.
+ *
+ * Each endpoint is routed to a queue: its entry in `queues`, then the queue
+ * named by the naming convention, then the shared `queueUrl`. At least one
+ * of these must be configured.
  */
-export interface SqsTransportOptions {
+export interface SqsTransportOptions extends MessageCodecOptions {
   /**
    * AWS SQS client instance.
    */
   client: SQSClient;
 
   /**
-   * SQS FIFO queue URL.
-   * Must end with `.fifo`.
+   * Shared queue URL for endpoints without a queue of their own.
+   * Messages on it are routed by their `x-endpoint` header.
    */
-  queueUrl: string;
+  queueUrl?: string;
+
+  /**
+   * Queue URL per endpoint.
+   *
+   * @example
+   * ```typescript
+   * queues: {
+   *   OrderSubmitted: "https://sqs.us-east-1.amazonaws.com/123/orders.fifo",
+   *   PaymentCaptured: "https://sqs.us-east-1.amazonaws.com/123/payments",
+   * }
+   * ```
+   */
+  queues?: Record<string, string>;
+
+  /**
+   * Prefix of queue names derived from endpoints, e.g. "myapp-" for
+   * "myapp-OrderSubmitted.fifo". Enables the naming convention.
+   */
+  queueNamePrefix?: string;
+
+  /**
+   * Queue name for an endpoint, replacing the default convention.
+   * Enables the naming convention. The `.fifo` suffix is added or removed
+   * to match `queueType`.
+   */
+  queueNaming?: (endpoint: string) => string;
+
+  /**
+   * Create queues named by the convention when they don't exist.
+   * Otherwise they must exist before use.
+   * @default false
+   */
+  createQueues?: boolean;
+
+  /**
+   * Type of queues named by the convention.
+   * @default "fifo"
+   */
+  queueType?: "fifo" | "standard";
+
+  /**
+   * Redrive policy set on every queue the transport consumes from.
+   */
+  deadLetter?: SqsDeadLetterOptions;
 
   /**
    * Maximum number of messages to receive per poll.
@@ -34,16 +83,46 @@ export interface SqsTransportOptions {
   visibilityTimeout?: number;
 
   /**
-   * Number of concurrent poll loops.
+   * Messages handled at once per queue, for subscriptions that don't set
+   * their own concurrency.
    * @default 1
    */
   concurrency?: number;
 }
 
+/**
+ * Native SQS dead-letter queue setup.
+ */
+export interface SqsDeadLetterOptions {
+  /**
+   * Receives after which SQS moves a message to the dead-letter queue.
+   */
+  maxReceiveCount: number;
+
+  /**
+   * ARN of the dead-letter queue. When omitted, a queue named
+   * `<queue>-dlq` (`<queue>-dlq.fifo` for FIFO queues) is created for
+   * each consumed queue.
+   */
+  queueArn?: string;
+}
+
 /**
  * Internal subscription tracking.
  */
 export interface SqsSubscription {
   endpoint: string;
+  queueUrl: string;
+  concurrency: number;
+}
+
+/**
+ * Internal state of a consumed queue.
+ */
+export interface SqsQueue {
+  url: string;
+  fifo: boolean;
+  endpoints: Set<string>;
   concurrency: number;
+  pollLoop: Promise<void> | null;
 }